@@ -1,6 +1,10 @@
 import React from "react";
 import { useSessionTimer } from "../../hooks/useSessionTimer";
 import type { DBSession } from "../../types/database";
+import {
+  formatLocalizedDateTime,
+  type LocaleOptions,
+} from "../../utils/formatting/locale";
 import {
   FaClock,
   FaPlay,
@@ -14,7 +18,9 @@ import { Card } from "@/components/ui";
 const SessionStatusDisplay: React.FC<{
   currentSession: DBSession | null;
   timerData: ReturnType<typeof useSessionTimer>;
-}> = ({ currentSession, timerData }) => {
+  isRemainingHidden: boolean;
+  locale: LocaleOptions;
+}> = ({ currentSession, timerData, isRemainingHidden, locale }) => {
   const getSessionStatus = () => {
     if (!currentSession)
       return {
@@ -55,8 +61,12 @@ const SessionStatusDisplay: React.FC<{
           <div className="text-xs sm:text-sm text-nightly-celadon break-words px-2">
             {currentSession.startTime ? (
               <>
-                Started: {currentSession.startTime.toLocaleDateString()}{" "}
-                {currentSession.startTime.toLocaleTimeString()}
+                Started:{" "}
+                {formatLocalizedDateTime(
+                  currentSession.startTime,
+                  locale.display ?? {},
+                  locale.language,
+                )}
               </>
             ) : (
               "Start time unavailable"
@@ -65,7 +75,9 @@ const SessionStatusDisplay: React.FC<{
           {currentSession.goalDuration &&
             timerData.remainingGoalTimeFormatted && (
               <div className="text-xs sm:text-sm text-nightly-celadon">
-                Goal: {timerData.remainingGoalTimeFormatted} remaining
+                {isRemainingHidden
+                  ? "Goal: remaining time hidden by your keyholder"
+                  : `Goal: ${timerData.remainingGoalTimeFormatted} remaining`}
               </div>
             )}
           {timerData.isPaused && timerData.currentPauseDuration > 0 && (
@@ -83,7 +95,8 @@ const SessionStatusDisplay: React.FC<{
 const SessionDetailsDisplay: React.FC<{
   currentSession: DBSession | null;
   timerData: ReturnType<typeof useSessionTimer>;
-}> = ({ currentSession, timerData }) => {
+  isRemainingHidden: boolean;
+}> = ({ currentSession, timerData, isRemainingHidden }) => {
   if (!currentSession) return null;
 
   return (
@@ -112,7 +125,7 @@ const SessionDetailsDisplay: React.FC<{
             : "0s"}
         </span>
       </div>
-      {currentSession.goalDuration && (
+      {currentSession.goalDuration && !isRemainingHidden && (
         <>
           <div className="flex justify-between gap-2">
             <span className="text-nightly-celadon">Goal Progress:</span>
@@ -146,8 +159,18 @@ const SessionDetailsDisplay: React.FC<{
 // Main Current Status Section Component
 export const CurrentStatusSection: React.FC<{
   currentSession: DBSession | null;
-}> = ({ currentSession }) => {
-  const timerData = useSessionTimer(currentSession);
+  isKeyholderView?: boolean; // Keyholders always see the remaining time
+  adjustmentSeconds?: number; // Net time from the adjustment ledger
+  locale?: LocaleOptions; // Viewer's date and time format
+}> = ({
+  currentSession,
+  isKeyholderView = false,
+  adjustmentSeconds = 0,
+  locale = {},
+}) => {
+  const timerData = useSessionTimer(currentSession, { adjustmentSeconds });
+  const isRemainingHidden =
+    !isKeyholderView && !!timerData.isRemainingTimeHidden;
 
   return (
     <Card variant="glass" className="mb-4 sm:mb-6 animate-fade-in-up">
@@ -169,12 +192,15 @@ export const CurrentStatusSection: React.FC<{
           <SessionStatusDisplay
             currentSession={currentSession}
             timerData={timerData}
+            isRemainingHidden={isRemainingHidden}
+            locale={locale}
           />
         </div>
         <div className="animate-slide-in-right stagger-2">
           <SessionDetailsDisplay
             currentSession={currentSession}
             timerData={timerData}
+            isRemainingHidden={isRemainingHidden}
           />
         </div>
       </div>
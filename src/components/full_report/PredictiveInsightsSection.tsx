@@ -0,0 +1,190 @@
+import React, { useMemo } from "react";
+import type { DBSession, DBTimeAdjustment } from "@/types/database";
+import type {
+  ConfidenceInterval,
+  Recommendation,
+} from "@/hooks/data/types/statistics";
+import { FaLightbulb, FaExclamationTriangle } from "@/utils/iconImport";
+import { Card } from "@/components/ui";
+import {
+  adjustmentsBySession,
+  generatePredictiveInsights,
+  generateRecommendations,
+} from "@/utils/statistics/predictions";
+
+const RISK_COLORS = {
+  low: "text-green-400",
+  medium: "text-yellow-400",
+  high: "text-red-400",
+} as const;
+
+const formatInterval = ({ lower, upper }: ConfidenceInterval) =>
+  `${Math.round(lower)}-${Math.round(upper)}%`;
+
+// Single headline metric with its 95% confidence interval
+const InsightStat: React.FC<{
+  label: string;
+  value: string;
+  interval?: ConfidenceInterval;
+  sampleSize?: number;
+}> = ({ label, value, interval, sampleSize }) => (
+  <div className="text-center p-3 rounded-lg bg-white/5" role="article">
+    <div className="text-lg font-semibold text-nightly-honeydew">{value}</div>
+    <div className="text-xs sm:text-sm text-nightly-celadon">{label}</div>
+    {interval && (
+      <div className="text-xs text-nightly-celadon/70 mt-1">
+        95% CI {formatInterval(interval)}
+        {sampleSize !== undefined && ` · n=${sampleSize}`}
+      </div>
+    )}
+  </div>
+);
+
+const RecommendationItem: React.FC<{ recommendation: Recommendation }> = ({
+  recommendation,
+}) => (
+  <li className="bg-white/5 rounded-lg p-3">
+    <div className="font-medium text-nightly-honeydew text-sm">
+      {recommendation.title}
+    </div>
+    <div className="text-xs text-nightly-celadon mt-1">
+      {recommendation.description}
+    </div>
+  </li>
+);
+
+// Predictive Insights Section - forecasts computed from session history
+const PredictiveInsightsSectionComponent: React.FC<{
+  sessions?: DBSession[];
+  adjustments?: DBTimeAdjustment[];
+  timeZone?: string;
+}> = ({ sessions, adjustments, timeZone }) => {
+  const insights = useMemo(
+    () =>
+      generatePredictiveInsights(
+        Array.isArray(sessions) ? sessions : [],
+        new Date(),
+        { adjustments: adjustmentsBySession(adjustments ?? []), timeZone },
+      ),
+    [sessions, adjustments, timeZone],
+  );
+  const recommendations = useMemo(
+    () => generateRecommendations(insights.history),
+    [insights],
+  );
+
+  const { nextSessionSuccess, riskAssessment, history } = insights;
+  const lengthRows = history.completionByGoalLength.filter(
+    (bucket) => bucket.sampleSize > 0,
+  );
+
+  return (
+    <Card variant="glass" className="mb-4 sm:mb-6 animate-fade-in-up">
+      <div className="flex items-center gap-2 sm:gap-3 mb-4">
+        <FaLightbulb
+          className="text-nightly-lavender-floral text-lg sm:text-xl"
+          aria-hidden="true"
+        />
+        <h2 className="text-lg sm:text-xl font-semibold text-nightly-honeydew">
+          Predictive Insights
+        </h2>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4">
+        <InsightStat
+          label="Next session success"
+          value={`${Math.round(nextSessionSuccess.probability)}%`}
+          interval={nextSessionSuccess.confidenceInterval}
+          sampleSize={nextSessionSuccess.sampleSize}
+        />
+        <InsightStat
+          label="Goal completion"
+          value={`${history.completion.rate}%`}
+          interval={history.completion.confidenceInterval}
+          sampleSize={history.completion.sampleSize}
+        />
+        <InsightStat
+          label="Sessions paused"
+          value={`${history.pauseFrequency.rate}%`}
+          interval={history.pauseFrequency.confidenceInterval}
+        />
+        <InsightStat
+          label="Emergency unlocks"
+          value={`${history.emergencyUnlocks.rate}%`}
+          interval={history.emergencyUnlocks.confidenceInterval}
+        />
+      </div>
+
+      <ul className="text-xs text-nightly-celadon space-y-1 mb-4">
+        {nextSessionSuccess.factors.map((factor) => (
+          <li key={factor}>• {factor}</li>
+        ))}
+      </ul>
+
+      {lengthRows.length > 0 && (
+        <table className="w-full text-xs sm:text-sm mb-4">
+          <caption className="sr-only">Completion rate by goal length</caption>
+          <thead>
+            <tr className="text-left text-nightly-celadon">
+              <th className="py-1">Goal length</th>
+              <th className="py-1">Completed</th>
+              <th className="py-1">95% CI</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lengthRows.map((bucket) => (
+              <tr key={bucket.label} className="text-nightly-honeydew">
+                <td className="py-1">{bucket.label}</td>
+                <td className="py-1">
+                  {bucket.rate}% (n={bucket.sampleSize})
+                </td>
+                <td className="py-1">
+                  {formatInterval(bucket.confidenceInterval)}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      <div className="flex flex-wrap gap-4 text-xs sm:text-sm mb-2">
+        <span className="text-nightly-celadon">
+          Burnout risk:{" "}
+          <span className={RISK_COLORS[riskAssessment.burnoutRisk]}>
+            {riskAssessment.burnoutRisk}
+          </span>
+        </span>
+        <span className="text-nightly-celadon">
+          Consistency risk:{" "}
+          <span className={RISK_COLORS[riskAssessment.consistencyRisk]}>
+            {riskAssessment.consistencyRisk}
+          </span>
+        </span>
+      </div>
+      {riskAssessment.factors.length > 0 && (
+        <ul className="text-xs text-yellow-300 space-y-1 mb-4">
+          {riskAssessment.factors.map((factor) => (
+            <li key={factor} className="flex items-center gap-1">
+              <FaExclamationTriangle aria-hidden="true" /> {factor}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {recommendations.length > 0 && (
+        <ul className="space-y-2" aria-label="Recommendations">
+          {recommendations.map((recommendation) => (
+            <RecommendationItem
+              key={recommendation.id}
+              recommendation={recommendation}
+            />
+          ))}
+        </ul>
+      )}
+    </Card>
+  );
+};
+
+export const PredictiveInsightsSection = React.memo(
+  PredictiveInsightsSectionComponent,
+);
@@ -3,6 +3,11 @@ import type { DBSession } from "@/types/database";
 import { FaHistory, FaCalendar } from "@/utils/iconImport";
 import { Card, Button } from "@/components/ui";
 import { useStaggerAnimation } from "@/hooks/useStaggerAnimation";
+import {
+  formatLocalizedDate,
+  formatLocalizedDateTime,
+  type LocaleOptions,
+} from "@/utils/formatting/locale";
 import { logger } from "@/utils/logging";
 
 // Helper function to format duration (shared with StatisticsSection)
@@ -20,17 +25,6 @@ const formatDuration = (seconds: number) => {
   }
 };
 
-// Helper function to format time display
-const formatTimeDisplay = (date: Date, isMobile: boolean = false) => {
-  if (isMobile) {
-    return date.toLocaleTimeString([], {
-      hour: "2-digit",
-      minute: "2-digit",
-    });
-  }
-  return date.toLocaleTimeString();
-};
-
 // Helper function to calculate session duration
 const getSessionDuration = (session: DBSession) => {
   if (!session.endTime) return 0;
@@ -45,104 +39,101 @@ const SessionItem: React.FC<{
   session: DBSession;
   isVisible: boolean | undefined;
   index: number;
-}> = ({ session, isVisible, index }) => (
-  <div
-    className={`bg-white/5 rounded-lg p-3 sm:p-4 stat-card-hover ${
-      isVisible
-        ? `animate-fade-in-up stagger-${Math.min(index + 1, 8)}`
-        : "opacity-0"
-    }`}
-    role="article"
-    aria-label={`Session from ${session.startTime.toLocaleDateString()}`}
-  >
-    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-0">
-      <div className="flex-1 min-w-0">
-        <div className="font-medium text-nightly-honeydew text-sm sm:text-base break-words">
-          {session.startTime.toLocaleDateString()}{" "}
-          <span className="hidden sm:inline">
-            {formatTimeDisplay(session.startTime)}
-          </span>
-          <span className="sm:hidden">
-            {formatTimeDisplay(session.startTime, true)}
-          </span>
-        </div>
-        <div className="text-xs sm:text-sm text-nightly-celadon break-words">
-          {session.endTime ? (
-            <>
-              Ended: {session.endTime.toLocaleDateString()}{" "}
-              <span className="hidden sm:inline">
-                {formatTimeDisplay(session.endTime)}
-              </span>
-              <span className="sm:hidden">
-                {formatTimeDisplay(session.endTime, true)}
-              </span>
-              {session.endReason && ` (${session.endReason})`}
-            </>
-          ) : (
-            "Active Session"
-          )}
-        </div>
-      </div>
+  locale: LocaleOptions;
+}> = ({ session, isVisible, index, locale }) => {
+  const { display = {}, language } = locale;
+  const formatDate = (date: Date) =>
+    formatLocalizedDate(date, display, language);
+  const formatDateTime = (date: Date) =>
+    formatLocalizedDateTime(date, display, language);
 
-      <div className="text-left sm:text-right flex-shrink-0">
-        <div className="font-mono text-nightly-honeydew text-sm sm:text-base">
-          {session.endTime
-            ? formatDuration(getSessionDuration(session))
-            : "Ongoing"}
+  return (
+    <div
+      className={`bg-white/5 rounded-lg p-3 sm:p-4 stat-card-hover ${
+        isVisible
+          ? `animate-fade-in-up stagger-${Math.min(index + 1, 8)}`
+          : "opacity-0"
+      }`}
+      role="article"
+      aria-label={`Session from ${formatDate(session.startTime)}`}
+    >
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-2 sm:gap-0">
+        <div className="flex-1 min-w-0">
+          <div className="font-medium text-nightly-honeydew text-sm sm:text-base break-words">
+            {formatDateTime(session.startTime)}
+          </div>
+          <div className="text-xs sm:text-sm text-nightly-celadon break-words">
+            {session.endTime ? (
+              <>
+                Ended: {formatDateTime(session.endTime)}
+                {session.endReason && ` (${session.endReason})`}
+              </>
+            ) : (
+              "Active Session"
+            )}
+          </div>
         </div>
-        {session.accumulatedPauseTime > 0 && (
-          <div className="text-xs text-yellow-400">
-            Pause: {formatDuration(session.accumulatedPauseTime)}
+
+        <div className="text-left sm:text-right flex-shrink-0">
+          <div className="font-mono text-nightly-honeydew text-sm sm:text-base">
+            {session.endTime
+              ? formatDuration(getSessionDuration(session))
+              : "Ongoing"}
           </div>
-        )}
+          {session.accumulatedPauseTime > 0 && (
+            <div className="text-xs text-yellow-400">
+              Pause: {formatDuration(session.accumulatedPauseTime)}
+            </div>
+          )}
+        </div>
       </div>
-    </div>
 
-    {/* Hardcore Mode Indicators */}
-    {session.isHardcoreMode && (
-      <div className="mt-2 flex flex-wrap gap-1.5 sm:gap-2">
-        <span className="inline-block bg-red-500/20 text-red-400 px-2 py-1 text-xs rounded whitespace-nowrap">
-          🔒 Hardcore Mode
-        </span>
-        {session.hasLockCombination && (
-          <span className="inline-block bg-purple-500/20 text-purple-400 px-2 py-1 text-xs rounded whitespace-nowrap">
-            🔐 Lock Combo Saved
+      {/* Hardcore Mode Indicators */}
+      {session.isHardcoreMode && (
+        <div className="mt-2 flex flex-wrap gap-1.5 sm:gap-2">
+          <span className="inline-block bg-red-500/20 text-red-400 px-2 py-1 text-xs rounded whitespace-nowrap">
+            🔒 Hardcore Mode
           </span>
-        )}
-        {session.emergencyPinUsed && (
-          <span className="inline-block bg-yellow-500/20 text-yellow-400 px-2 py-1 text-xs rounded whitespace-nowrap">
-            ⚠️ Emergency PIN Used
-          </span>
-        )}
-      </div>
-    )}
-
-    {/* Emergency Unlock Info */}
-    {session.isEmergencyUnlock && (
-      <div className="mt-2 bg-yellow-900/20 border border-yellow-600/30 rounded p-2">
-        <div className="text-xs text-yellow-400 font-semibold">
-          🚨 Emergency Unlock
+          {session.hasLockCombination && (
+            <span className="inline-block bg-purple-500/20 text-purple-400 px-2 py-1 text-xs rounded whitespace-nowrap">
+              🔐 Lock Combo Saved
+            </span>
+          )}
+          {session.emergencyPinUsed && (
+            <span className="inline-block bg-yellow-500/20 text-yellow-400 px-2 py-1 text-xs rounded whitespace-nowrap">
+              ⚠️ Emergency PIN Used
+            </span>
+          )}
         </div>
-        {session.emergencyReason && (
-          <div className="text-xs text-yellow-300 mt-1 break-words">
-            Reason: {session.emergencyReason}
-          </div>
-        )}
-        {session.emergencyNotes && (
-          <div className="text-xs text-yellow-300 mt-1 break-words">
-            {session.emergencyNotes}
+      )}
+
+      {/* Emergency Unlock Info */}
+      {session.isEmergencyUnlock && (
+        <div className="mt-2 bg-yellow-900/20 border border-yellow-600/30 rounded p-2">
+          <div className="text-xs text-yellow-400 font-semibold">
+            🚨 Emergency Unlock
           </div>
-        )}
-      </div>
-    )}
+          {session.emergencyReason && (
+            <div className="text-xs text-yellow-300 mt-1 break-words">
+              Reason: {session.emergencyReason}
+            </div>
+          )}
+          {session.emergencyNotes && (
+            <div className="text-xs text-yellow-300 mt-1 break-words">
+              {session.emergencyNotes}
+            </div>
+          )}
+        </div>
+      )}
 
-    {session.notes && (
-      <div className="mt-2 text-xs sm:text-sm text-nightly-celadon break-words">
-        Notes: {session.notes}
-      </div>
-    )}
-  </div>
-);
+      {session.notes && (
+        <div className="mt-2 text-xs sm:text-sm text-nightly-celadon break-words">
+          Notes: {session.notes}
+        </div>
+      )}
+    </div>
+  );
+};
 
 // Empty Sessions Display Component
 const EmptySessionsDisplay: React.FC = () => (
@@ -156,8 +147,14 @@ const EmptySessionsDisplay: React.FC = () => (
 );
 
 // Main Session History Section Component
-const SessionHistorySectionComponent: React.FC<{ sessions: DBSession[] }> = ({
+interface SessionHistorySectionProps {
+  sessions: DBSession[];
+  locale?: LocaleOptions; // Viewer's date and time format
+}
+
+const SessionHistorySectionComponent: React.FC<SessionHistorySectionProps> = ({
   sessions,
+  locale = {},
 }) => {
   const [showAll, setShowAll] = useState(false);
 
@@ -257,6 +254,7 @@ const SessionHistorySectionComponent: React.FC<{ sessions: DBSession[] }> = ({
                 session={session}
                 isVisible={visibleItems[index]}
                 index={index}
+                locale={locale}
               />
             ))}
           </div>
@@ -281,4 +279,4 @@ const SessionHistorySectionComponent: React.FC<{ sessions: DBSession[] }> = ({
 // Export memoized version to prevent unnecessary re-renders
 export const SessionHistorySection = React.memo(
   SessionHistorySectionComponent,
-) as React.FC<{ sessions: DBSession[] }>;
+) as React.FC<SessionHistorySectionProps>;
@@ -62,6 +62,7 @@ vi.mock("../../../hooks/useSessionTimer", () => ({
         ? "2:30:00 remaining"
         : null,
       isPaused: session.isPaused || false,
+      isRemainingTimeHidden: session.isTimerHidden ?? false,
       isGoalCompleted: false,
       goalProgress: session.goalDuration ? 50 : 0,
       currentPauseDuration: session.isPaused ? 300 : 0,
@@ -194,6 +195,25 @@ describe("CurrentStatusSection", () => {
       expect(screen.getByText(/remaining/)).toBeInTheDocument();
     });
 
+    it("should hide the remaining goal time from the wearer", () => {
+      const session = mockSession({ goalDuration: 7200, isTimerHidden: true });
+      render(<CurrentStatusSection currentSession={session} />);
+
+      expect(
+        screen.queryByText("Goal: remaining time hidden by your keyholder"),
+      ).not.toBeNull();
+      expect(screen.queryByText(/2:30:00/)).toBeNull();
+      expect(screen.queryByText(/Goal Progress:/)).toBeNull();
+    });
+
+    it("should show the remaining goal time to the keyholder", () => {
+      const session = mockSession({ goalDuration: 7200, isTimerHidden: true });
+      render(<CurrentStatusSection currentSession={session} isKeyholderView />);
+
+      expect(screen.queryByText(/2:30:00/)).not.toBeNull();
+      expect(screen.queryByText(/Goal Progress:/)).not.toBeNull();
+    });
+
     it("should not display goal info when no goal is set", () => {
       const session = mockSession();
       render(<CurrentStatusSection currentSession={session} />);
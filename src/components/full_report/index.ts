@@ -1,6 +1,7 @@
 export { CurrentStatusSection } from "./CurrentStatusSection";
 export { StatisticsSection } from "./StatisticsSection";
 export { SessionHistorySection } from "./SessionHistorySection";
+export { PredictiveInsightsSection } from "./PredictiveInsightsSection";
 export {
   FullReportSkeleton,
   StatsSkeleton,
@@ -20,6 +20,7 @@ import { KeyholderRelationship } from "../../types/core";
 import type { KeyholderRelationshipState } from "../../hooks/useKeyholderRelationships";
 import { checkGoogleSignIn } from "../../utils/auth/google-auth-check";
 import { FeatureErrorBoundary } from "../errors/FeatureErrorBoundary";
+import { sortKeyholdersByRole } from "../../utils/keyholder/keyholderRoles";
 import { RetryableErrorDisplay } from "../errors/fallbacks/RetryableErrorDisplay";
 
 interface AccountLinkingProps {
@@ -137,7 +138,7 @@ const InviteCodeSections: React.FC<{
 }) => (
   <>
     <InviteCodeCreationSection
-      shouldShow={!linkingState.hasActiveKeyholder && isSignedInWithGoogle}
+      shouldShow={linkingState.showCreateInvite && isSignedInWithGoogle}
       isCreatingInvite={isCreatingInvite}
       onCreateInvite={handlers.handleCreateInvite}
     />
@@ -216,13 +217,12 @@ const AccountLinkingContent: React.FC<{
 
     {activeKeyholder && (
       <ActiveKeyholderDisplay
-        activeKeyholder={{
-          ...activeKeyholder,
-          permissions: activeKeyholder.permissions as unknown as Record<
-            string,
-            boolean
-          >,
-        }}
+        keyholders={sortKeyholdersByRole(
+          relationships.asSubmissive.filter((rel) => rel.status === "active"),
+        ).map((rel) => ({
+          ...rel,
+          permissions: rel.permissions as unknown as Record<string, boolean>,
+        }))}
         onEndRelationship={endRelationship}
       />
     )}
@@ -1,6 +1,8 @@
 // Helper functions for AccountLinking component state evaluation
+import { MAX_KEYHOLDERS_PER_SUBMISSIVE } from "../../utils/keyholder/keyholderRoles";
 
 interface RelationshipData {
+  asSubmissive?: { status: string }[];
   asKeyholder?: unknown[];
 }
 
@@ -26,7 +28,10 @@ export const getAccountLinkingState = (
     hasActiveKeyholder: !!activeKeyholder,
     hasActiveInvites: activeInviteCodes.length > 0,
     hasSubmissives: (relationships?.asKeyholder?.length || 0) > 0,
-    showCreateInvite: !activeKeyholder,
+    // Submissives can keep inviting secondary keyholders up to the limit
+    showCreateInvite:
+      (relationships?.asSubmissive?.filter((rel) => rel.status === "active")
+        .length || 0) < MAX_KEYHOLDERS_PER_SUBMISSIVE,
   };
 };
 
@@ -3,42 +3,44 @@ import { Button } from "@/components/ui";
 import { FaKey } from "../../utils/iconImport";
 import { formatDistanceToNow } from "date-fns";
 import { ErrorMessage } from "../errors/fallbacks/ErrorMessage";
+import type { KeyholderRole } from "../../types/core";
+
+interface ActiveKeyholder {
+  id: string;
+  role?: KeyholderRole;
+  acceptedAt?: Date;
+  createdAt: Date;
+  permissions: Record<string, boolean>;
+}
 
 interface ActiveKeyholderDisplayProps {
-  activeKeyholder: {
-    id: string;
-    acceptedAt?: Date;
-    createdAt: Date;
-    permissions: Record<string, boolean>;
-  };
+  /** Active keyholders, primary first */
+  keyholders: ActiveKeyholder[];
   onEndRelationship: (id: string) => void;
 }
 
-export const ActiveKeyholderDisplay: React.FC<ActiveKeyholderDisplayProps> = ({
-  activeKeyholder,
-  onEndRelationship,
-}) => {
-  const [showPermissions, setShowPermissions] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+const ROLE_LABELS: Record<KeyholderRole, string> = {
+  primary: "Primary",
+  secondary: "Secondary",
+};
 
-  const handleEndRelationship = (id: string) => {
-    try {
-      setError(null);
-      onEndRelationship(id);
-    } catch (err) {
-      const errorMessage =
-        err instanceof Error ? err.message : "Failed to end relationship";
-      setError(errorMessage);
-    }
-  };
+const KeyholderEntry: React.FC<{
+  keyholder: ActiveKeyholder;
+  showRole: boolean;
+  onEnd: (id: string) => void;
+}> = ({ keyholder, showRole, onEnd }) => {
+  const [showPermissions, setShowPermissions] = useState(false);
 
   return (
-    <div className="bg-gradient-to-r from-purple-900/50 to-pink-900/50 rounded-lg p-4 border border-purple-500 relationship-card-interactive relationship-active-glow">
+    <li className="border-t border-purple-500/30 pt-3 first:border-t-0 first:pt-0">
       <div className="flex items-center justify-between mb-2">
-        <h3 className="font-semibold text-purple-300 flex items-center">
-          <FaKey className="mr-2" />
-          Your Keyholder
-        </h3>
+        {showRole ? (
+          <span className="text-xs font-semibold uppercase tracking-wide text-purple-300">
+            {ROLE_LABELS[keyholder.role ?? "primary"]}
+          </span>
+        ) : (
+          <span />
+        )}
         <Button
           onClick={() => setShowPermissions(!showPermissions)}
           className="text-purple-400 hover:text-purple-300 text-sm relationship-transition-fast"
@@ -47,21 +49,10 @@ export const ActiveKeyholderDisplay: React.FC<ActiveKeyholderDisplayProps> = ({
         </Button>
       </div>
 
-      {error && (
-        <ErrorMessage
-          message={error}
-          onDismiss={() => setError(null)}
-          variant="error"
-        />
-      )}
-
       <div className="text-sm text-gray-300 mb-3">
         <p>
           Connected:{" "}
-          {formatDistanceToNow(
-            activeKeyholder.acceptedAt || activeKeyholder.createdAt,
-          )}{" "}
-          ago
+          {formatDistanceToNow(keyholder.acceptedAt || keyholder.createdAt)} ago
         </p>
         <p>
           Status: <span className="text-green-400">Active</span>
@@ -74,7 +65,7 @@ export const ActiveKeyholderDisplay: React.FC<ActiveKeyholderDisplayProps> = ({
             Keyholder Permissions
           </h4>
           <div className="grid grid-cols-2 gap-2 text-xs">
-            {Object.entries(activeKeyholder.permissions).map(
+            {Object.entries(keyholder.permissions).map(
               ([key, value], index) => (
                 <div
                   key={key}
@@ -98,12 +89,59 @@ export const ActiveKeyholderDisplay: React.FC<ActiveKeyholderDisplayProps> = ({
 
       <div className="mt-3 flex gap-2">
         <Button
-          onClick={() => handleEndRelationship(activeKeyholder.id)}
+          onClick={() => onEnd(keyholder.id)}
           className="text-red-400 hover:text-red-300 text-sm px-3 py-1 border border-red-500 rounded hover:bg-red-900/30 relationship-transition icon-button"
         >
           End Relationship
         </Button>
       </div>
+    </li>
+  );
+};
+
+export const ActiveKeyholderDisplay: React.FC<ActiveKeyholderDisplayProps> = ({
+  keyholders,
+  onEndRelationship,
+}) => {
+  const [error, setError] = useState<string | null>(null);
+  const hasSeveral = keyholders.length > 1;
+
+  const handleEndRelationship = (id: string) => {
+    try {
+      setError(null);
+      onEndRelationship(id);
+    } catch (err) {
+      const errorMessage =
+        err instanceof Error ? err.message : "Failed to end relationship";
+      setError(errorMessage);
+    }
+  };
+
+  return (
+    <div className="bg-gradient-to-r from-purple-900/50 to-pink-900/50 rounded-lg p-4 border border-purple-500 relationship-card-interactive relationship-active-glow">
+      <h3 className="font-semibold text-purple-300 flex items-center mb-2">
+        <FaKey className="mr-2" />
+        {hasSeveral ? "Your Keyholders" : "Your Keyholder"}
+      </h3>
+
+      {error && (
+        <ErrorMessage
+          message={error}
+          onDismiss={() => setError(null)}
+          variant="error"
+        />
+      )}
+
+      <ul className="space-y-3">
+        {keyholders.map((keyholder) => (
+          <KeyholderEntry
+            key={keyholder.id}
+            keyholder={keyholder}
+            showRole={hasSeveral}
+            onEnd={handleEndRelationship}
+          />
+        ))}
+      </ul>
     </div>
   );
 };
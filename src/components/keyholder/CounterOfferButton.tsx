@@ -0,0 +1,195 @@
+import React, { useState } from "react";
+import { FaExchangeAlt, FaSpinner } from "../../utils/iconImport";
+import type { ReleaseCounterCondition } from "../../types/core";
+import type { DBReleaseRequest } from "../../types/database";
+import { useCounterOfferMutations } from "../../hooks/api/useReleaseRequests";
+import { useToast } from "../../contexts";
+import { Modal, Input, Select, Textarea, Button } from "@/components/ui";
+
+type ConditionType = ReleaseCounterCondition["type"];
+
+const conditionOptions = [
+  { value: "delay", label: "Release after a delay" },
+  { value: "task", label: "Release after a task" },
+  { value: "pause", label: "Pause only" },
+];
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface CounterOfferModalProps {
+  isOpen: boolean;
+  isProcessing: boolean;
+  onClose: () => void;
+  onSubmit: (condition: ReleaseCounterCondition, message?: string) => void;
+}
+
+// Keyholder's counter-offer to a release request
+const CounterOfferModal: React.FC<CounterOfferModalProps> = ({
+  isOpen,
+  isProcessing,
+  onClose,
+  onSubmit,
+}) => {
+  const [type, setType] = useState<ConditionType>("delay");
+  const [delayHours, setDelayHours] = useState(48);
+  const [taskText, setTaskText] = useState("");
+  const [pauseMinutes, setPauseMinutes] = useState(30);
+  const [message, setMessage] = useState("");
+
+  const isValid = type !== "task" || taskText.trim().length > 0;
+
+  const handleSubmit = () => {
+    const condition: ReleaseCounterCondition =
+      type === "delay"
+        ? {
+            type,
+            releaseAt: new Date(Date.now() + delayHours * HOUR_MS),
+          }
+        : type === "task"
+          ? { type, taskText: taskText.trim() }
+          : { type, pauseMinutes };
+    onSubmit(condition, message.trim() || undefined);
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Counter-Offer"
+      icon={<FaExchangeAlt className="text-4xl text-yellow-400" />}
+      size="sm"
+      closeOnEscape={!isProcessing}
+      className="bg-gradient-to-br from-gray-900 to-gray-800 border-2 border-purple-500"
+      footer={
+        <div className="flex flex-col space-y-2 sm:space-y-3">
+          <Button
+            onClick={handleSubmit}
+            disabled={isProcessing || !isValid}
+            className="w-full bg-yellow-600 hover:bg-yellow-700 disabled:bg-gray-600 disabled:cursor-not-allowed text-white font-bold py-3 px-4 rounded-lg transition flex items-center justify-center gap-2 min-h-[44px] touch-manipulation text-sm sm:text-base"
+          >
+            {isProcessing ? (
+              <>
+                <FaSpinner className="animate-spin flex-shrink-0" />
+                <span>Processing...</span>
+              </>
+            ) : (
+              <span>Send Counter-Offer</span>
+            )}
+          </Button>
+          <Button
+            onClick={onClose}
+            disabled={isProcessing}
+            className="w-full bg-gray-600 hover:bg-gray-500 disabled:bg-gray-600 text-white font-bold py-3 px-4 rounded-lg transition min-h-[44px] touch-manipulation text-sm sm:text-base"
+          >
+            Cancel
+          </Button>
+        </div>
+      }
+    >
+      <div className="space-y-4">
+        <Select
+          label="Offer"
+          value={type}
+          onChange={(value) => setType(value as ConditionType)}
+          options={conditionOptions}
+        />
+        {type === "delay" && (
+          <Input
+            label="Release after (hours)"
+            type="number"
+            min={1}
+            value={delayHours}
+            onChange={(e) =>
+              setDelayHours(Math.max(1, Number(e.target.value) || 1))
+            }
+          />
+        )}
+        {type === "task" && (
+          <Input
+            label="Task to complete"
+            value={taskText}
+            onChange={(e) => setTaskText(e.target.value)}
+            maxLength={200}
+          />
+        )}
+        {type === "pause" && (
+          <Input
+            label="Pause length (minutes)"
+            type="number"
+            min={5}
+            value={pauseMinutes}
+            onChange={(e) =>
+              setPauseMinutes(Math.max(5, Number(e.target.value) || 5))
+            }
+          />
+        )}
+        <Textarea
+          value={message}
+          onChange={(e) => setMessage(e.target.value)}
+          placeholder="Message to submissive (optional)"
+          rows={3}
+          maxLength={500}
+          className="w-full p-3 rounded-lg border border-gray-600 bg-gray-800 text-white text-sm sm:text-base focus:border-purple-500 focus:ring-1 focus:ring-purple-500 resize-none"
+        />
+      </div>
+    </Modal>
+  );
+};
+
+interface CounterOfferButtonProps {
+  request: DBReleaseRequest;
+  /** Keyholder countering; defaults to the request's primary keyholder */
+  keyholderUserId?: string;
+  disabled?: boolean;
+}
+
+// Counter button for a release request card, with its offer modal
+export const CounterOfferButton: React.FC<CounterOfferButtonProps> = ({
+  request,
+  keyholderUserId,
+  disabled = false,
+}) => {
+  const [showModal, setShowModal] = useState(false);
+  const { counterRequest } = useCounterOfferMutations();
+  const { showSuccess, showError } = useToast();
+
+  const handleSubmit = async (
+    condition: ReleaseCounterCondition,
+    message?: string,
+  ) => {
+    try {
+      await counterRequest.mutateAsync({
+        requestId: request.id,
+        keyholderUserId: keyholderUserId ?? request.keyholderUserId,
+        condition,
+        message,
+      });
+      showSuccess("Counter-offer sent");
+      setShowModal(false);
+    } catch (error) {
+      showError(
+        error instanceof Error ? error.message : "Failed to send counter-offer",
+      );
+    }
+  };
+
+  return (
+    <>
+      <Button
+        onClick={() => setShowModal(true)}
+        disabled={disabled || counterRequest.isPending}
+        className="flex-1 sm:flex-initial bg-yellow-600 hover:bg-yellow-700 disabled:opacity-50 disabled:cursor-not-allowed text-white p-3 sm:p-2 rounded transition-colors min-h-[44px] sm:min-h-0 touch-manipulation flex items-center justify-center gap-2"
+        title="Counter-offer"
+      >
+        <FaExchangeAlt className="flex-shrink-0" />
+        <span className="sm:hidden">Counter</span>
+      </Button>
+      <CounterOfferModal
+        isOpen={showModal}
+        isProcessing={counterRequest.isPending}
+        onClose={() => setShowModal(false)}
+        onSubmit={handleSubmit}
+      />
+    </>
+  );
+};
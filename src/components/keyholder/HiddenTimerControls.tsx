@@ -0,0 +1,114 @@
+import React, { useState } from "react";
+import type { DBSession, TimerRevealMode } from "../../types/database";
+import type { RelationshipActingContext } from "../../types/relationships";
+import { useSessionMutations } from "../../hooks/api/useSessionQuery";
+import { useToast } from "../../contexts";
+import { FaEyeSlash } from "../../utils/iconImport";
+import { getPermissionFailureMessage } from "../../utils/security/relationshipPermissions";
+import { Button, Checkbox, Input, Select } from "@/components/ui";
+
+const revealModeOptions: { value: TimerRevealMode; label: string }[] = [
+  { value: "never", label: "Never" },
+  { value: "after_hours", label: "After a number of hours" },
+  { value: "on_unlock", label: "On unlock" },
+];
+
+interface HiddenTimerControlsProps {
+  session: DBSession;
+  /** Relationship the keyholder is acting through, checked on every change */
+  acting?: RelationshipActingContext;
+}
+
+// Hidden Timer Controls - keyholder-only option to hide the remaining time
+export const HiddenTimerControls: React.FC<HiddenTimerControlsProps> = ({
+  session,
+  acting,
+}) => {
+  const { updateTimerVisibility } = useSessionMutations();
+  const { showSuccess, showError } = useToast();
+  const [isTimerHidden, setIsTimerHidden] = useState(
+    session.isTimerHidden ?? false,
+  );
+  const [revealMode, setRevealMode] = useState<TimerRevealMode>(
+    session.timerRevealMode ?? "never",
+  );
+  const [revealAfterHours, setRevealAfterHours] = useState(
+    session.timerRevealAfterHours ?? 24,
+  );
+
+  const handleSave = () => {
+    updateTimerVisibility.mutate(
+      {
+        userId: session.userId,
+        sessionId: session.id,
+        settings: {
+          isTimerHidden,
+          timerRevealMode: isTimerHidden ? revealMode : undefined,
+          timerRevealAfterHours:
+            isTimerHidden && revealMode === "after_hours"
+              ? revealAfterHours
+              : undefined,
+        },
+        acting,
+      },
+      {
+        onSuccess: () => showSuccess("Timer visibility updated"),
+        onError: (error) =>
+          showError(
+            getPermissionFailureMessage(
+              error,
+              "Failed to update timer visibility",
+            ),
+          ),
+      },
+    );
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 space-y-3 sm:space-y-4">
+      <div className="flex items-center gap-2 sm:gap-3">
+        <FaEyeSlash className="text-nightly-lavender-floral flex-shrink-0" />
+        <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew">
+          Hidden Timer
+        </h3>
+      </div>
+      <Checkbox
+        checked={isTimerHidden}
+        onChange={setIsTimerHidden}
+        label="Hide remaining time from the wearer"
+      />
+      {isTimerHidden && (
+        <div className="flex flex-col sm:flex-row gap-3">
+          <div className="flex-1">
+            <Select
+              label="Reveal"
+              value={revealMode}
+              onChange={(value) => setRevealMode(value as TimerRevealMode)}
+              options={revealModeOptions}
+            />
+          </div>
+          {revealMode === "after_hours" && (
+            <div className="flex-1">
+              <Input
+                label="Reveal after (hours)"
+                type="number"
+                min={1}
+                value={revealAfterHours}
+                onChange={(e) =>
+                  setRevealAfterHours(Math.max(1, Number(e.target.value) || 1))
+                }
+              />
+            </div>
+          )}
+        </div>
+      )}
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={updateTimerVisibility.isPending}
+      >
+        Save
+      </Button>
+    </div>
+  );
+};
@@ -4,6 +4,7 @@ import { useAccountLinking } from "@/hooks/account-linking/useAccountLinking";
 import { AdminLoadingDisplay } from "@/components/keyholder/dashboard/AdminLoadingDisplay";
 import { WearerSelection } from "@/components/keyholder/dashboard/WearerSelection";
 import { PendingReleaseRequests } from "@/components/keyholder/dashboard/PendingReleaseRequests";
+import { RuleViolations } from "@/components/keyholder/dashboard/RuleViolations";
 import { AdminSessionStatus } from "@/components/keyholder/dashboard/AdminSessionStatus";
 import { NavigationTabs } from "@/components/keyholder/dashboard/NavigationTabs";
 import { TabContentRenderer } from "@/components/keyholder/dashboard/TabContentRenderer";
@@ -92,6 +93,11 @@ export const KeyholderDashboard: React.FC<{ keyholderUserId?: string }> = ({
             <PendingReleaseRequests keyholderUserId={keyholderUserId} />
           )}
 
+          {/* Rule Violations */}
+          {keyholderUserId && (
+            <RuleViolations keyholderUserId={keyholderUserId} />
+          )}
+
           {/* Admin Session Status */}
           <AdminSessionStatus
             selectedRelationship={selectedRelationship}
@@ -10,9 +10,13 @@ import type { DBReleaseRequest } from "../../types/database";
 import { useReleaseRequestMutations } from "../../hooks/api/useReleaseRequests";
 import { useToast } from "../../contexts";
 import { Modal, Textarea, Button } from "@/components/ui";
+import { getRequestApprovers } from "../../utils/releaseRequests";
+import { CounterOfferButton } from "./CounterOfferButton";
 
 interface ReleaseRequestCardProps {
   request: DBReleaseRequest;
+  /** Keyholder answering; defaults to the request's primary keyholder */
+  keyholderUserId?: string;
 }
 
 interface ResponseModalProps {
@@ -150,6 +154,7 @@ const ResponseModal = memo(ResponseModalComponent);
 
 const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
   request,
+  keyholderUserId,
 }) => {
   const [showResponseModal, setShowResponseModal] = useState(false);
   const [responseType, setResponseType] = useState<"approve" | "deny">(
@@ -170,15 +175,21 @@ const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
   const handleSubmitResponse = useCallback(async () => {
     try {
       if (responseType === "approve") {
-        await approveRequest.mutateAsync({
+        const updated = await approveRequest.mutateAsync({
           requestId: request.id,
           response: responseMessage.trim() || undefined,
+          keyholderUserId,
         });
-        showSuccess("Release request approved");
+        showSuccess(
+          updated.status === "approved"
+            ? "Release request approved"
+            : "Approval recorded, waiting for the other keyholders",
+        );
       } else {
         await denyRequest.mutateAsync({
           requestId: request.id,
           response: responseMessage.trim() || undefined,
+          keyholderUserId,
         });
         showSuccess("Release request denied");
       }
@@ -196,6 +207,7 @@ const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
     responseType,
     request.id,
     responseMessage,
+    keyholderUserId,
     approveRequest,
     denyRequest,
     showSuccess,
@@ -218,6 +230,14 @@ const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
     return `${diffDays}d ago`;
   }, [request.requestedAt]);
 
+  // Only "all" requests wait on more than one answer
+  const approvalProgress = useMemo(() => {
+    if (request.approvalPolicy !== "all") return null;
+    const approvers = getRequestApprovers(request);
+    if (approvers.length < 2) return null;
+    return `${request.approvals?.length ?? 0}/${approvers.length} keyholders approved`;
+  }, [request]);
+
   // Memoize session ID slice
   const sessionIdShort = useMemo(
     () => request.sessionId.slice(-8),
@@ -260,6 +280,11 @@ const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
               <FaTimes className="flex-shrink-0" />
               <span className="sm:hidden">Deny</span>
             </Button>
+            <CounterOfferButton
+              request={request}
+              keyholderUserId={keyholderUserId}
+              disabled={isProcessing}
+            />
           </div>
         </div>
 
@@ -276,6 +301,7 @@ const ReleaseRequestCardComponent: React.FC<ReleaseRequestCardProps> = ({
 
         <div className="mt-3 text-xs text-gray-500">
           Session: {sessionIdShort}
+          {approvalProgress && <span> · {approvalProgress}</span>}
         </div>
       </div>
 
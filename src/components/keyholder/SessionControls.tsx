@@ -1,6 +1,9 @@
 import React from "react";
 import type { DBSession } from "../../types/database";
-import { FaClock, FaPlay, FaPause } from "../../utils/iconImport";
+import type { UnlockScheduleStatus } from "../../types/unlockSchedule";
+import { FaClock, FaLock, FaPlay, FaPause } from "../../utils/iconImport";
+import { useSessionTimer } from "../../hooks/useSessionTimer";
+import { getUnlockScheduleStatus } from "../../utils/keyholder/unlockSchedule";
 
 // Helper function for duration formatting
 const formatDuration = (seconds: number) => {
@@ -24,18 +27,91 @@ const NoSessionDisplay: React.FC = () => (
   </div>
 );
 
+// Goal Remaining Row - always visible to the keyholder, even when hidden
+const GoalRemainingRow: React.FC<{
+  session: DBSession;
+  adjustmentSeconds: number;
+}> = ({ session, adjustmentSeconds }) => {
+  const { remainingGoalTime } = useSessionTimer(session, {
+    adjustmentSeconds,
+  });
+
+  return (
+    <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
+      <span className="text-xs sm:text-sm text-nightly-celadon">
+        Goal Remaining:
+      </span>
+      <span className="text-xs sm:text-sm text-nightly-honeydew">
+        {formatDuration(remainingGoalTime)}
+        {session.isTimerHidden && (
+          <span className="text-nightly-lavender-floral">
+            {" "}
+            (hidden from wearer)
+          </span>
+        )}
+      </span>
+    </div>
+  );
+};
+
+const ScheduleRow: React.FC<{ label: string; children: React.ReactNode }> = ({
+  label,
+  children,
+}) => (
+  <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-1 sm:gap-2">
+    <span className="text-xs sm:text-sm text-nightly-celadon">{label}</span>
+    <span className="text-xs sm:text-sm text-nightly-honeydew">{children}</span>
+  </div>
+);
+
+// Unlock Schedule Rows - earliest unlock, check-ins and silent release
+const UnlockScheduleRows: React.FC<{ status: UnlockScheduleStatus }> = ({
+  status,
+}) => (
+  <>
+    {status.earliestUnlockAt && (
+      <ScheduleRow label="Earliest Unlock:">
+        {status.earliestUnlockAt.toLocaleString()}
+      </ScheduleRow>
+    )}
+    {status.nextCheckInAt && (
+      <ScheduleRow label="Next Check-in:">
+        {status.nextCheckInAt.toLocaleString()}
+        {status.missedCheckIns > 0 && (
+          <span className="text-red-400">
+            {" "}
+            ({status.missedCheckIns} missed)
+          </span>
+        )}
+      </ScheduleRow>
+    )}
+    {status.autoReleaseAt && (
+      <ScheduleRow label="Silent Release:">
+        {status.state === "auto_released"
+          ? "Released - keyholder went silent"
+          : status.autoReleaseAt.toLocaleString()}
+      </ScheduleRow>
+    )}
+  </>
+);
+
 // Current Session Control (for unlocked keyholder mode)
 interface SessionControlsProps {
   session: DBSession | null;
+  adjustmentSeconds?: number; // Net time from the adjustment ledger
 }
 
 export const SessionControls: React.FC<SessionControlsProps> = ({
   session,
+  adjustmentSeconds = 0,
 }) => {
   if (!session) {
     return <NoSessionDisplay />;
   }
 
+  const unlockStatus = getUnlockScheduleStatus(session.unlockSchedule);
+  const isLocked = unlockStatus.state === "locked";
+
   return (
     <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6">
       <div className="flex items-center gap-2 sm:gap-3 mb-4">
@@ -51,7 +127,12 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
             Status:
           </span>
           <div className="flex items-center gap-2">
-            {session.isPaused ? (
+            {isLocked && !session.isPaused ? (
+              <>
+                <FaLock className="text-red-400 flex-shrink-0" />
+                <span className="text-xs sm:text-sm text-red-400">Locked</span>
+              </>
+            ) : session.isPaused ? (
               <>
                 <FaPause className="text-yellow-400 flex-shrink-0" />
                 <span className="text-xs sm:text-sm text-yellow-400">
@@ -88,11 +169,21 @@ export const SessionControls: React.FC<SessionControlsProps> = ({
           </span>
         </div>
 
+        {session.goalDuration ? (
+          <GoalRemainingRow
+            session={session}
+            adjustmentSeconds={adjustmentSeconds}
+          />
+        ) : null}
+
+        {session.unlockSchedule && <UnlockScheduleRows status={unlockStatus} />}
+
         {/* Info Message - No Control Buttons */}
         <div className="bg-blue-500/20 border border-blue-500 rounded p-3 mt-4 sm:mt-6">
           <p className="text-xs sm:text-sm text-blue-200">
-            Session control is managed by the submissive. Use the Release
-            Request system to approve early unlock.
+            {isLocked
+              ? "The submissive can't end this session before the earliest unlock time. Clear the unlock schedule to release them early."
+              : "Session control is managed by the submissive. Use the Release Request system to approve early unlock."}
           </p>
         </div>
       </div>
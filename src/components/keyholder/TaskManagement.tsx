@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import type { DBTask } from "../../types/database";
+import type { RelationshipActingContext } from "../../types/relationships";
 import { useTasksQuery, useTaskMutations } from "../../hooks/api";
 import { useNotificationActions } from "../../stores";
 import {
@@ -11,11 +12,14 @@ import {
 import { Input, Textarea, Button } from "@/components/ui";
 import { TaskError } from "../tasks/TaskError";
 import { logger } from "../../utils/logging";
+import { getPermissionFailureMessage } from "../../utils/security/relationshipPermissions";
 import { FeatureErrorBoundary } from "../errors/FeatureErrorBoundary";
 
 // Task Management for Keyholder
 interface TaskManagementProps {
   userId: string; // Changed to accept userId instead of tasks array
+  /** Relationship the keyholder is acting through, checked on every change */
+  acting?: RelationshipActingContext;
 }
 
 // Add Task Form Component
@@ -269,6 +273,7 @@ const LoadingDisplay: React.FC = () => (
 // Task action handlers
 const useTaskActions = (params: {
   userId: string;
+  acting?: RelationshipActingContext;
   approveTask: ReturnType<typeof useTaskMutations>["approveTask"];
   rejectTask: ReturnType<typeof useTaskMutations>["rejectTask"];
   createTask: ReturnType<typeof useTaskMutations>["createTask"];
@@ -279,6 +284,7 @@ const useTaskActions = (params: {
 }) => {
   const {
     userId,
+    acting,
     approveTask,
     rejectTask,
     createTask,
@@ -299,12 +305,14 @@ const useTaskActions = (params: {
           taskId,
           userId,
           feedback,
+          acting,
         });
       } else {
         await rejectTask.mutateAsync({
           taskId,
           userId,
           feedback,
+          acting,
         });
       }
 
@@ -321,7 +329,10 @@ const useTaskActions = (params: {
         error: err.message,
       });
       showError(
-        `Failed to ${action} task. Please try again.`,
+        getPermissionFailureMessage(
+          error,
+          `Failed to ${action} task. Please try again.`,
+        ),
         "Task Update Failed",
       );
     }
@@ -336,6 +347,7 @@ const useTaskActions = (params: {
         title: newTaskText.trim(),
         description: "",
         pointValue: pointValue > 0 ? pointValue : undefined,
+        acting,
       });
 
       setNewTaskText("");
@@ -350,7 +362,10 @@ const useTaskActions = (params: {
         error: err.message,
       });
       showError(
-        "Failed to create task. Please try again.",
+        getPermissionFailureMessage(
+          error,
+          "Failed to create task. Please try again.",
+        ),
         "Task Creation Failed",
       );
     }
@@ -389,7 +404,10 @@ const TaskList: React.FC<{
   </div>
 );
 
-export const TaskManagement: React.FC<TaskManagementProps> = ({ userId }) => {
+export const TaskManagement: React.FC<TaskManagementProps> = ({
+  userId,
+  acting,
+}) => {
   const [newTaskText, setNewTaskText] = useState("");
   const [pointValue, setPointValue] = useState(10);
   const [showAddTask, setShowAddTask] = useState(false);
@@ -405,6 +423,7 @@ export const TaskManagement: React.FC<TaskManagementProps> = ({ userId }) => {
 
   const { handleTaskAction, handleAddTask } = useTaskActions({
     userId,
+    acting,
     approveTask,
     rejectTask,
     createTask,
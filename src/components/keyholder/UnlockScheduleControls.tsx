@@ -0,0 +1,168 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import type { DBSession } from "../../types/database";
+import type { AdminRelationship } from "../../types/account-linking";
+import type { RelationshipActingContext } from "../../types/relationships";
+import { useUnlockScheduleMutations } from "../../hooks/api/useUnlockSchedule";
+import { useAuthState, useToast } from "../../contexts";
+import { FaLock } from "../../utils/iconImport";
+import { validateUnlockSchedule } from "../../utils/keyholder/unlockSchedule";
+import { getPermissionFailureMessage } from "../../utils/security/relationshipPermissions";
+import { Button, Checkbox, Input } from "@/components/ui";
+
+const DATETIME_INPUT_FORMAT = "yyyy-MM-dd'T'HH:mm";
+
+interface UnlockScheduleControlsProps {
+  session: DBSession;
+  relationship?: AdminRelationship | null; // Shared session to mirror the schedule to
+  /** Relationship the keyholder is acting through, checked on every change */
+  acting?: RelationshipActingContext;
+}
+
+// Unlock Schedule Controls - keyholder sets the earliest unlock, check-ins
+// and silent release for the session
+export const UnlockScheduleControls: React.FC<UnlockScheduleControlsProps> = ({
+  session,
+  relationship,
+  acting,
+}) => {
+  const { user } = useAuthState();
+  const { updateSchedule, checkIn } = useUnlockScheduleMutations();
+  const { showSuccess, showError } = useToast();
+  const syncTarget = relationship
+    ? {
+        relationshipId: relationship.id,
+        keyholderUserId: relationship.keyholderId,
+      }
+    : undefined;
+  const schedule = session.unlockSchedule;
+  const [isScheduled, setIsScheduled] = useState(!!schedule);
+  const [earliestUnlock, setEarliestUnlock] = useState(
+    schedule?.earliestUnlockAt
+      ? format(schedule.earliestUnlockAt, DATETIME_INPUT_FORMAT)
+      : "",
+  );
+  const [checkInTimes, setCheckInTimes] = useState(
+    schedule?.checkInTimes.join(", ") ?? "",
+  );
+  const [graceMinutes, setGraceMinutes] = useState(
+    schedule?.checkInGraceMinutes ?? 60,
+  );
+  const [silentReleaseDays, setSilentReleaseDays] = useState(
+    schedule?.silentReleaseDays ?? 0,
+  );
+
+  const handleSave = () => {
+    const next = isScheduled
+      ? {
+          earliestUnlockAt: earliestUnlock
+            ? new Date(earliestUnlock)
+            : undefined,
+          checkInTimes: checkInTimes
+            .split(",")
+            .map((time) => time.trim())
+            .filter(Boolean),
+          checkInGraceMinutes: graceMinutes,
+          silentReleaseDays: silentReleaseDays || undefined,
+          lastCheckInAt: schedule?.lastCheckInAt,
+          setBy: relationship?.keyholderId ?? user?.uid ?? "",
+          setAt: new Date(),
+        }
+      : null;
+    const problem = next && validateUnlockSchedule(next);
+    if (problem) {
+      showError(problem);
+      return;
+    }
+
+    updateSchedule.mutate(
+      { session, schedule: next, syncTarget, acting },
+      {
+        onSuccess: () => showSuccess("Unlock schedule saved"),
+        onError: (error) =>
+          showError(
+            getPermissionFailureMessage(
+              error,
+              "Failed to save unlock schedule",
+            ),
+          ),
+      },
+    );
+  };
+
+  const handleCheckIn = () =>
+    checkIn.mutate(
+      { session, syncTarget, acting },
+      {
+        onSuccess: () => showSuccess("Checked in"),
+        onError: (error) =>
+          showError(getPermissionFailureMessage(error, "Failed to check in")),
+      },
+    );
+
+  const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 space-y-3 sm:space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <FaLock className="text-nightly-lavender-floral flex-shrink-0" />
+          <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew">
+            Unlock Schedule
+          </h3>
+        </div>
+        {schedule && (
+          <Button
+            size="sm"
+            onClick={handleCheckIn}
+            disabled={checkIn.isPending}
+          >
+            Check In
+          </Button>
+        )}
+      </div>
+      <Checkbox
+        checked={isScheduled}
+        onChange={setIsScheduled}
+        label="Control when this session may end"
+      />
+      {isScheduled && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <Input
+            label="Earliest unlock"
+            type="datetime-local"
+            value={earliestUnlock}
+            onChange={(e) => setEarliestUnlock(e.target.value)}
+          />
+          <Input
+            label="Check-in times (HH:mm, comma separated)"
+            placeholder="09:00, 21:00"
+            value={checkInTimes}
+            onChange={(e) => setCheckInTimes(e.target.value)}
+          />
+          <Input
+            label="Check-in grace (minutes)"
+            type="number"
+            min={0}
+            value={graceMinutes}
+            onChange={(e) => setGraceMinutes(toNumber(e.target.value))}
+          />
+          <Input
+            label="Release if I'm silent for (days, 0 = never)"
+            type="number"
+            min={0}
+            value={silentReleaseDays}
+            onChange={(e) => setSilentReleaseDays(toNumber(e.target.value))}
+          />
+        </div>
+      )}
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={updateSchedule.isPending}
+      >
+        Save Schedule
+      </Button>
+    </div>
+  );
+};
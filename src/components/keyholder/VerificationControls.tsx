@@ -0,0 +1,249 @@
+import React, { useState } from "react";
+import type { DBSession } from "../../types/database";
+import type { RelationshipActingContext } from "../../types/relationships";
+import type {
+  DBVerification,
+  VerificationStatus,
+} from "../../types/verification";
+import {
+  useSessionVerifications,
+  useVerificationMutations,
+} from "../../hooks/api/useVerifications";
+import { useToast } from "../../contexts";
+import { FaCamera, FaCheck, FaTimes } from "../../utils/iconImport";
+import { getPermissionFailureMessage } from "../../utils/security/relationshipPermissions";
+import { Button, Checkbox, Input } from "@/components/ui";
+
+const STATUS_LABELS: Record<VerificationStatus, string> = {
+  pending: "Waiting for photo",
+  submitted: "Awaiting review",
+  approved: "Approved",
+  rejected: "Rejected",
+  missed: "Missed",
+};
+
+const SubmittedVerification: React.FC<{ verification: DBVerification }> = ({
+  verification,
+}) => {
+  const { reviewVerification } = useVerificationMutations();
+  const { showError } = useToast();
+
+  const review = (approved: boolean) =>
+    reviewVerification.mutate(
+      { verificationId: verification.id, approved },
+      { onError: () => showError("Failed to review verification") },
+    );
+
+  return (
+    <div className="bg-white/5 rounded-lg p-3 space-y-2">
+      <p className="text-sm text-nightly-celadon">
+        Code <span className="font-mono font-bold">{verification.code}</span> ·
+        sent {verification.submittedAt?.toLocaleString()}
+        {verification.photoStorage === "local" && " · stored on device"}
+      </p>
+      {verification.photoUrl && (
+        <img
+          src={verification.photoUrl}
+          alt={`Verification photo for code ${verification.code}`}
+          className="max-h-64 rounded-lg"
+        />
+      )}
+      <div className="flex gap-2">
+        <Button
+          size="sm"
+          onClick={() => review(true)}
+          disabled={reviewVerification.isPending}
+          className="flex items-center gap-1"
+        >
+          <FaCheck /> Approve
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => review(false)}
+          disabled={reviewVerification.isPending}
+          className="flex items-center gap-1 text-red-300"
+        >
+          <FaTimes /> Reject
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+const VerificationScheduleForm: React.FC<{
+  session: DBSession;
+  acting?: RelationshipActingContext;
+}> = ({ session, acting }) => {
+  const { updateSchedule } = useVerificationMutations();
+  const { showSuccess, showError } = useToast();
+  const schedule = session.verificationSchedule;
+  const [isScheduled, setIsScheduled] = useState(!!schedule);
+  const [intervalHours, setIntervalHours] = useState(
+    schedule?.intervalHours ?? 24,
+  );
+  const [responseMinutes, setResponseMinutes] = useState(
+    schedule?.responseMinutes ?? 30,
+  );
+  const [penaltyMinutes, setPenaltyMinutes] = useState(
+    Math.round((schedule?.missedConsequence?.duration ?? 0) / 60),
+  );
+
+  const handleSave = () =>
+    updateSchedule.mutate(
+      {
+        sessionId: session.id,
+        schedule: isScheduled
+          ? {
+              intervalHours,
+              responseMinutes,
+              missedConsequence:
+                penaltyMinutes > 0
+                  ? {
+                      type: "punishment",
+                      description: `${penaltyMinutes} minutes added`,
+                      duration: penaltyMinutes * 60,
+                    }
+                  : undefined,
+            }
+          : undefined,
+        acting,
+      },
+      {
+        onSuccess: () => showSuccess("Verification schedule saved"),
+        onError: (error) =>
+          showError(
+            getPermissionFailureMessage(
+              error,
+              "Failed to save verification schedule",
+            ),
+          ),
+      },
+    );
+
+  const toNumber = (value: string) => Math.max(0, Number(value) || 0);
+
+  return (
+    <div className="space-y-3">
+      <Checkbox
+        checked={isScheduled}
+        onChange={setIsScheduled}
+        label="Request photos on a schedule"
+      />
+      {isScheduled && (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+          <Input
+            label="Every (hours)"
+            type="number"
+            min={1}
+            value={intervalHours}
+            onChange={(e) =>
+              setIntervalHours(Math.max(1, toNumber(e.target.value)))
+            }
+          />
+          <Input
+            label="Time to respond (minutes)"
+            type="number"
+            min={5}
+            value={responseMinutes}
+            onChange={(e) =>
+              setResponseMinutes(Math.max(5, toNumber(e.target.value)))
+            }
+          />
+          <Input
+            label="Time added if missed (minutes)"
+            type="number"
+            min={0}
+            value={penaltyMinutes}
+            onChange={(e) => setPenaltyMinutes(toNumber(e.target.value))}
+          />
+        </div>
+      )}
+      <Button
+        size="sm"
+        onClick={handleSave}
+        disabled={updateSchedule.isPending}
+      >
+        Save Schedule
+      </Button>
+    </div>
+  );
+};
+
+interface VerificationControlsProps {
+  session: DBSession;
+  /** Relationship the keyholder is acting through, checked on every change */
+  acting?: RelationshipActingContext;
+}
+
+// Verification Controls - keyholder requests and reviews proof-of-lock photos
+export const VerificationControls: React.FC<VerificationControlsProps> = ({
+  session,
+  acting,
+}) => {
+  const { data: verifications = [] } = useSessionVerifications(session.id);
+  const { requestVerification } = useVerificationMutations();
+  const { showSuccess, showError } = useToast();
+
+  const submitted = verifications.filter((v) => v.status === "submitted");
+  const recent = verifications
+    .filter((v) => v.status !== "submitted")
+    .slice(0, 5);
+  const hasPending = verifications.some((v) => v.status === "pending");
+
+  const handleRequest = () =>
+    requestVerification.mutate(
+      { session, options: { requestedBy: "keyholder" } },
+      {
+        onSuccess: (verification) =>
+          showSuccess(`Verification requested (code ${verification.code})`),
+        onError: () => showError("Failed to request verification"),
+      },
+    );
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <div className="flex items-center gap-2 sm:gap-3">
+          <FaCamera className="text-nightly-lavender-floral flex-shrink-0" />
+          <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew">
+            Verification Photos
+          </h3>
+        </div>
+        <Button
+          size="sm"
+          onClick={handleRequest}
+          disabled={hasPending || requestVerification.isPending}
+        >
+          Request Now
+        </Button>
+      </div>
+
+      {submitted.map((verification) => (
+        <SubmittedVerification
+          key={verification.id}
+          verification={verification}
+        />
+      ))}
+
+      {recent.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {recent.map((verification) => (
+            <li
+              key={verification.id}
+              className="flex justify-between text-nightly-celadon"
+            >
+              <span>
+                <span className="font-mono">{verification.code}</span> ·{" "}
+                {verification.requestedAt.toLocaleString()}
+              </span>
+              <span>{STATUS_LABELS[verification.status]}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <VerificationScheduleForm session={session} acting={acting} />
+    </div>
+  );
+};
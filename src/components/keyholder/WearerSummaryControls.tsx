@@ -0,0 +1,65 @@
+import React from "react";
+import { format } from "date-fns";
+import {
+  useWearerSummaryMutation,
+  useWearerSummarySchedule,
+} from "../../hooks/api/useReportSchedules";
+import { useAuthState, useToast } from "../../contexts";
+import { FaChartBar } from "../../utils/iconImport";
+import { Checkbox } from "@/components/ui";
+
+interface WearerSummaryControlsProps {
+  wearerUserId: string;
+}
+
+// Wearer Summary Controls - keyholder turns a weekly report of the wearer's
+// sessions, events and tasks on or off
+export const WearerSummaryControls: React.FC<WearerSummaryControlsProps> = ({
+  wearerUserId,
+}) => {
+  const { user } = useAuthState();
+  const { schedule, isEnabled } = useWearerSummarySchedule(
+    user?.uid,
+    wearerUserId,
+  );
+  const setWearerSummary = useWearerSummaryMutation();
+  const { showSuccess, showError } = useToast();
+
+  const handleChange = (enabled: boolean) => {
+    if (!user) return;
+    setWearerSummary.mutate(
+      { keyholderUserId: user.uid, wearerUserId, enabled },
+      {
+        onSuccess: () =>
+          showSuccess(
+            enabled ? "Weekly summary scheduled" : "Weekly summary stopped",
+          ),
+        onError: () => showError("Failed to update weekly summary"),
+      },
+    );
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 space-y-3">
+      <div className="flex items-center gap-2 sm:gap-3">
+        <FaChartBar className="text-nightly-aquamarine flex-shrink-0" />
+        <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew">
+          Weekly Summary
+        </h3>
+      </div>
+      <Checkbox
+        checked={isEnabled}
+        onChange={handleChange}
+        disabled={!user || setWearerSummary.isPending}
+        label="Send me a weekly report of my submissive's sessions"
+      />
+      {isEnabled && schedule && (
+        <p className="text-sm text-nightly-celadon">
+          Next report: {format(schedule.nextRun, "EEE d MMM, HH:mm")}
+          {schedule.lastRun &&
+            ` · Last sent ${format(schedule.lastRun, "d MMM")}`}
+        </p>
+      )}
+    </div>
+  );
+};
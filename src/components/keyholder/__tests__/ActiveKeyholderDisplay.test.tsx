@@ -29,7 +29,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should render keyholder display header", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -40,7 +40,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should display active status", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -51,7 +51,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should show connection time", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -62,7 +62,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should display end relationship button", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -75,7 +75,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should display permissions toggle button", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -90,7 +90,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should initially hide permissions", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -103,7 +103,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should show permissions when toggle clicked", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -119,7 +119,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should hide permissions when toggle clicked again", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -142,7 +142,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should display all permissions correctly", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -161,7 +161,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should show granted permissions with checkmark", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -180,7 +180,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should show denied permissions with cross", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -199,7 +199,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should update button text when permissions shown", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -219,7 +219,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should call onEndRelationship when button clicked", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -240,7 +240,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={differentKeyholder}
+          keyholders={[differentKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -260,7 +260,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -284,7 +284,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -314,6 +314,44 @@ describe("ActiveKeyholderDisplay", () => {
     });
   });
 
+  describe("Multiple Keyholders", () => {
+    const keyholders = [
+      { ...mockActiveKeyholder, id: "primary-1", role: "primary" as const },
+      { ...mockActiveKeyholder, id: "secondary-1", role: "secondary" as const },
+    ];
+
+    it("should list every keyholder with their role", () => {
+      render(
+        <ActiveKeyholderDisplay
+          keyholders={keyholders}
+          onEndRelationship={mockOnEndRelationship}
+        />,
+      );
+
+      expect(screen.getByText("Your Keyholders").tagName).toBe("H3");
+      expect(screen.getByText("Primary")).toBeTruthy();
+      expect(screen.getByText("Secondary")).toBeTruthy();
+      expect(
+        screen.getAllByRole("button", { name: /End Relationship/i }),
+      ).toHaveLength(2);
+    });
+
+    it("should end only the chosen keyholder's relationship", () => {
+      render(
+        <ActiveKeyholderDisplay
+          keyholders={keyholders}
+          onEndRelationship={mockOnEndRelationship}
+        />,
+      );
+
+      fireEvent.click(
+        screen.getAllByRole("button", { name: /End Relationship/i })[1]!,
+      );
+
+      expect(mockOnEndRelationship).toHaveBeenCalledWith("secondary-1");
+    });
+  });
+
   describe("Date Formatting", () => {
     it("should use acceptedAt date when available", () => {
       const withAcceptedDate = {
@@ -324,7 +362,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={withAcceptedDate}
+          keyholders={[withAcceptedDate]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -341,7 +379,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={withoutAcceptedDate}
+          keyholders={[withoutAcceptedDate]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -355,7 +393,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should have proper button labels", () => {
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -371,7 +409,7 @@ describe("ActiveKeyholderDisplay", () => {
     it("should have semantic HTML structure", () => {
       const { container } = render(
         <ActiveKeyholderDisplay
-          activeKeyholder={mockActiveKeyholder}
+          keyholders={[mockActiveKeyholder]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -390,7 +428,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={noPermissions}
+          keyholders={[noPermissions]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
@@ -416,7 +454,7 @@ describe("ActiveKeyholderDisplay", () => {
 
       render(
         <ActiveKeyholderDisplay
-          activeKeyholder={complexPermissions}
+          keyholders={[complexPermissions]}
           onEndRelationship={mockOnEndRelationship}
         />,
       );
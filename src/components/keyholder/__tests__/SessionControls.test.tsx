@@ -293,4 +293,40 @@ describe("SessionControls", () => {
       expect(container.querySelector(".space-y-3, .space-y-4")).toBeTruthy();
     });
   });
+
+  describe("Unlock Schedule", () => {
+    const lockedSession: DBSession = {
+      ...mockSession,
+      unlockSchedule: {
+        earliestUnlockAt: new Date(Date.now() + 2 * 24 * 60 * 60 * 1000),
+        checkInTimes: [],
+        checkInGraceMinutes: 60,
+        setBy: "keyholder-1",
+        setAt: new Date(),
+      },
+    };
+
+    it("shows the session as locked until the earliest unlock", () => {
+      render(<SessionControls session={lockedSession} />);
+
+      expect(screen.getByText("Locked")).toBeTruthy();
+      expect(screen.getByText("Earliest Unlock:")).toBeTruthy();
+      expect(screen.getByText(/can't end this session/i)).toBeTruthy();
+    });
+
+    it("shows when a silent keyholder has released the session", () => {
+      const releasedSession: DBSession = {
+        ...lockedSession,
+        unlockSchedule: {
+          ...lockedSession.unlockSchedule!,
+          silentReleaseDays: 1,
+          setAt: new Date("2024-01-01T10:00:00Z"),
+        },
+      };
+      render(<SessionControls session={releasedSession} />);
+
+      expect(screen.queryByText("Locked")).toBeNull();
+      expect(screen.getByText(/keyholder went silent/i)).toBeTruthy();
+    });
+  });
 });
@@ -41,7 +41,11 @@ export const KeyholderHeader: React.FC = () => {
               Pending Release Requests
             </h3>
             {pendingRequests.map((request) => (
-              <ReleaseRequestCard key={request.id} request={request} />
+              <ReleaseRequestCard
+                key={request.id}
+                request={request}
+                keyholderUserId={keyholderUserId}
+              />
             ))}
           </div>
         )}
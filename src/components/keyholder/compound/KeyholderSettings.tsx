@@ -7,13 +7,16 @@ import { Button } from "@/components/ui";
 import { useKeyholderContext } from "./KeyholderContext";
 import { FaLock, FaCog, FaEye } from "../../../utils/iconImport";
 import { KeyholderDurationSection } from "../../settings/KeyholderDurationSection";
+import { useKeyholderActing } from "../../../hooks/account-linking/useKeyholderActing";
 
 export const KeyholderSettings: React.FC = () => {
   const {
     isKeyholderModeUnlocked,
     lockKeyholderControls,
     selectedRelationship,
+    keyholderUserId,
   } = useKeyholderContext();
+  const acting = useKeyholderActing(selectedRelationship, keyholderUserId);
 
   // Only show if keyholder mode is unlocked
   if (!isKeyholderModeUnlocked) return null;
@@ -22,7 +25,10 @@ export const KeyholderSettings: React.FC = () => {
     <div className="space-y-6">
       {/* Keyholder Duration Goal */}
       {selectedRelationship?.wearerId && (
-        <KeyholderDurationSection userId={selectedRelationship.wearerId} />
+        <KeyholderDurationSection
+          userId={selectedRelationship.wearerId}
+          acting={acting}
+        />
       )}
 
       <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6">
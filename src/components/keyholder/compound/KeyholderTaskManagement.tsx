@@ -5,10 +5,12 @@
 import React from "react";
 import { useKeyholderContext } from "./KeyholderContext";
 import { TaskManagement } from "../TaskManagement";
+import { useKeyholderActing } from "../../../hooks/account-linking/useKeyholderActing";
 
 export const KeyholderTaskManagement: React.FC = () => {
   const { isKeyholderModeUnlocked, selectedRelationship, keyholderUserId } =
     useKeyholderContext();
+  const acting = useKeyholderActing(selectedRelationship, keyholderUserId);
 
   // Only show if keyholder mode is unlocked
   if (!isKeyholderModeUnlocked) return null;
@@ -16,5 +18,5 @@ export const KeyholderTaskManagement: React.FC = () => {
   // Use selected wearer ID or fall back to keyholder's own ID
   const userId = selectedRelationship?.wearerId || keyholderUserId || "";
 
-  return <TaskManagement userId={userId} />;
+  return <TaskManagement userId={userId} acting={acting} />;
 };
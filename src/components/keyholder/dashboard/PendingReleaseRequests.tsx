@@ -36,7 +36,10 @@ export const PendingReleaseRequests = React.memo<{ keyholderUserId: string }>(
         <div className="space-y-2 sm:space-y-3">
           {pendingRequests.map((request) => (
             <FeatureErrorBoundary key={request.id} feature="release-request">
-              <ReleaseRequestCard request={request} />
+              <ReleaseRequestCard
+                request={request}
+                keyholderUserId={keyholderUserId}
+              />
             </FeatureErrorBoundary>
           ))}
         </div>
@@ -0,0 +1,43 @@
+import React from "react";
+import { FaGavel } from "@/utils/iconImport";
+import {
+  useRuleViolationMutations,
+  useRuleViolationsQuery,
+} from "@/hooks/api/useRuleViolations";
+import { RuleViolationList } from "@/components/rules";
+
+/** Number of violations shown on the dashboard */
+const MAX_VISIBLE = 5;
+
+// Rule Violations Component - memoized for performance. Lists what the
+// wearer's device recorded; rules are never evaluated on the keyholder's side.
+export const RuleViolations = React.memo<{
+  keyholderUserId: string;
+}>(({ keyholderUserId }) => {
+  const { data: violations = [] } = useRuleViolationsQuery(
+    keyholderUserId,
+    "keyholder",
+  );
+  const { acknowledgeViolation } = useRuleViolationMutations();
+
+  const unacknowledged = violations.filter((v) => !v.acknowledgedAt);
+  if (unacknowledged.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mb-4 sm:mb-6">
+      <div className="flex items-center gap-2 mb-3">
+        <FaGavel className="text-red-400 flex-shrink-0" />
+        <h3 className="text-sm sm:text-base font-semibold text-nightly-honeydew">
+          Rule Violations ({unacknowledged.length})
+        </h3>
+      </div>
+      <RuleViolationList
+        violations={unacknowledged.slice(0, MAX_VISIBLE)}
+        onAcknowledge={(id) => acknowledgeViolation.mutate(id)}
+      />
+    </div>
+  );
+});
+RuleViolations.displayName = "RuleViolations";
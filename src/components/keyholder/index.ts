@@ -3,4 +3,8 @@ export { AccountLinkingPreview } from "./AccountLinkingPreview";
 export { AccountLinking } from "./AccountLinking";
 export { KeyholderDashboard } from "./KeyholderDashboard";
 export { SessionControls } from "./SessionControls";
+export { HiddenTimerControls } from "./HiddenTimerControls";
+export { VerificationControls } from "./VerificationControls";
+export { UnlockScheduleControls } from "./UnlockScheduleControls";
+export { WearerSummaryControls } from "./WearerSummaryControls";
 export { TaskManagement } from "./TaskManagement";
@@ -3,8 +3,10 @@ import { useLocation } from "react-router-dom";
 import { useNavigationStore } from "@/stores";
 import { useAuthState } from "../../contexts";
 import { useAchievements } from "../../hooks/useAchievements";
+import { useScheduledReportRunner } from "../../hooks/api/useReportSchedules";
 import { BottomNavigation } from "../mobile";
 import { useViewport } from "../../hooks/mobile";
+import { useTranslation } from "../../hooks/useTranslation";
 import { Header } from "./Header";
 import { MobileMenu } from "./MobileMenu";
 import { AchievementNotifications } from "./AchievementNotifications";
@@ -19,11 +21,21 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   const location = useLocation();
   const { user } = useAuthState();
   const { isMobile } = useViewport();
+  const { language, t } = useTranslation();
+
+  // Translate navigation labels into the user's display language
+  const localizedNavItems = navItems.map((item) => ({
+    ...item,
+    label: item.labelKey ? t(item.labelKey) : item.label,
+  }));
 
   // Achievement notifications
   const { unreadNotifications, allAchievements, markNotificationRead } =
     useAchievements(user?.uid);
 
+  // Catch up on scheduled reports that came due while the app was closed
+  useScheduledReportRunner(user?.uid);
+
   // Navigation store subscriptions
   const isMobileMenuOpen = useNavigationStore(
     (state) => state.isMobileMenuOpen,
@@ -37,6 +49,7 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
   // Create mobile navigation items with React elements from configuration
   const mobileNavItems = mobileNavItemsConfig.map((item) => ({
     ...item,
+    label: t(item.labelKey),
     icon: (
       <svg
         className="w-5 h-5"
@@ -60,11 +73,16 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       (item) => item.path === location.pathname,
     );
     const title = currentItem
-      ? `${currentItem.label} - ChastityOS`
+      ? `${currentItem.labelKey ? t(currentItem.labelKey) : currentItem.label} - ChastityOS`
       : "ChastityOS";
     setPageTitle(title);
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [location.pathname, navItems]); // setPageTitle omitted - Zustand store actions are stable
+  }, [location.pathname, navItems, t]); // setPageTitle omitted - Zustand store actions are stable
+
+  // Keep the document language in step with the display setting
+  useEffect(() => {
+    document.documentElement.lang = language;
+  }, [language]);
 
   // Close mobile menu when route changes
   useEffect(() => {
@@ -84,19 +102,19 @@ const AppLayout: React.FC<AppLayoutProps> = ({ children }) => {
       <a
         href="#main-content"
         className="skip-link"
-        aria-label="Skip to main content"
+        aria-label={t("common.skipToContent")}
       >
-        Skip to main content
+        {t("common.skipToContent")}
       </a>
 
       <Header
-        navItems={navItems}
+        navItems={localizedNavItems}
         isMobileMenuOpen={isMobileMenuOpen}
         toggleMobileMenu={toggleMobileMenu}
       />
 
       <MobileMenu
-        navItems={navItems}
+        navItems={localizedNavItems}
         isOpen={isMobileMenuOpen}
         onClose={closeMobileMenu}
       />
@@ -8,6 +8,10 @@ import {
   FaTint,
 } from "../../utils/iconImport";
 import { Button } from "@/components/ui";
+import {
+  formatLocalizedDateTime,
+  type LocaleOptions,
+} from "@/utils/formatting/locale";
 
 // Event Skeleton Loader Component
 const EventSkeletonItem: React.FC = () => (
@@ -75,25 +79,31 @@ const getEventTypeInfo = (type: EventType) => {
   return EVENT_TYPES.find((et) => et.value === type) || EVENT_TYPES[3]!; // Default to note
 };
 
-const formatDate = (date: Date) => {
-  return date.toLocaleDateString() + " " + date.toLocaleTimeString();
-};
-
 // Event Item Component
 interface EventItemProps {
   event: DBEvent & { ownerName?: string; ownerId?: string };
   showOwner?: boolean;
+  locale: LocaleOptions;
 }
 
-const EventItemComponent: React.FC<EventItemProps> = ({ event, showOwner }) => {
+const EventItemComponent: React.FC<EventItemProps> = ({
+  event,
+  showOwner,
+  locale,
+}) => {
   const eventTypeInfo = useMemo(
     () => getEventTypeInfo(event.type),
     [event.type],
   );
   const Icon = eventTypeInfo.icon;
   const formattedDate = useMemo(
-    () => formatDate(event.timestamp),
-    [event.timestamp],
+    () =>
+      formatLocalizedDateTime(
+        event.timestamp,
+        locale.display ?? {},
+        locale.language,
+      ),
+    [locale, event.timestamp],
   );
 
   const isMilestone = event.type === "milestone";
@@ -194,12 +204,17 @@ interface EventListProps {
   events: (DBEvent & { ownerName?: string; ownerId?: string })[];
   showOwner?: boolean;
   pageSize?: number;
+  locale?: LocaleOptions; // Viewer's date and time format
 }
 
+// Stable default so memoised items don't re-render
+const DEFAULT_LOCALE: LocaleOptions = {};
+
 const EventListComponent: React.FC<EventListProps> = ({
   events,
   showOwner = false,
   pageSize = 20,
+  locale = DEFAULT_LOCALE,
 }) => {
   const [currentPage, setCurrentPage] = React.useState(0);
 
@@ -241,7 +256,12 @@ const EventListComponent: React.FC<EventListProps> = ({
         aria-label="Event list"
       >
         {paginatedEvents.map((event) => (
-          <EventItem key={event.id} event={event} showOwner={showOwner} />
+          <EventItem
+            key={event.id}
+            event={event}
+            showOwner={showOwner}
+            locale={locale}
+          />
         ))}
       </div>
 
@@ -0,0 +1,202 @@
+import React, { useEffect, useRef, useState } from "react";
+import type {
+  DBMessage,
+  MessageThreadParticipants,
+} from "../../types/messages";
+import {
+  useMessageMutations,
+  useMessageSync,
+  useMessageThread,
+} from "../../hooks/api/useMessages";
+import { useToast } from "../../contexts";
+import { FaComments, FaPaperclip, FaPaperPlane } from "../../utils/iconImport";
+import { generateUUID } from "../../utils";
+import { TaskEvidenceUpload } from "../tasks/TaskEvidenceUpload";
+import { Button, Textarea } from "@/components/ui";
+
+const formatTime = (date: Date) =>
+  date.toLocaleString([], {
+    month: "short",
+    day: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+
+const DeliveryStatus: React.FC<{ message: DBMessage }> = ({ message }) => {
+  if (message.readAt) return <>Read {formatTime(message.readAt)}</>;
+  return <>{message.syncStatus === "pending" ? "Waiting to send" : "Sent"}</>;
+};
+
+const MessageBubble: React.FC<{ message: DBMessage; isOwn: boolean }> = ({
+  message,
+  isOwn,
+}) => (
+  <li className={`flex flex-col ${isOwn ? "items-end" : "items-start"}`}>
+    <div
+      className={`max-w-[80%] rounded-lg px-3 py-2 text-sm ${
+        isOwn
+          ? "bg-nightly-aquamarine/20 text-nightly-honeydew"
+          : "bg-white/10 text-nightly-celadon"
+      }`}
+    >
+      {message.text && (
+        <p className="whitespace-pre-wrap break-words">{message.text}</p>
+      )}
+      {message.attachments && (
+        <div className="mt-2 grid grid-cols-2 gap-2">
+          {message.attachments.map((url) => (
+            <a key={url} href={url} target="_blank" rel="noopener noreferrer">
+              <img
+                src={url}
+                alt="Message attachment"
+                className="rounded max-h-32 object-cover"
+              />
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+    <span className="text-xs text-gray-400 mt-1">
+      {formatTime(message.sentAt)}
+      {isOwn && (
+        <>
+          {" · "}
+          <DeliveryStatus message={message} />
+        </>
+      )}
+    </span>
+  </li>
+);
+
+const MessageComposer: React.FC<{
+  thread: MessageThreadParticipants;
+  userId: string;
+}> = ({ thread, userId }) => {
+  const { sendMessage } = useMessageMutations();
+  const { showError } = useToast();
+  const [text, setText] = useState("");
+  const [messageId, setMessageId] = useState(generateUUID);
+  const [attachments, setAttachments] = useState<string[]>([]);
+  const [isAttaching, setIsAttaching] = useState(false);
+
+  const handleSend = () =>
+    sendMessage.mutate(
+      { thread, senderId: userId, text, attachments, messageId },
+      {
+        onSuccess: () => {
+          setText("");
+          setAttachments([]);
+          setIsAttaching(false);
+          setMessageId(generateUUID());
+        },
+        onError: (error) =>
+          showError(
+            error instanceof Error ? error.message : "Failed to send message",
+          ),
+      },
+    );
+
+  return (
+    <div className="space-y-2">
+      {isAttaching && (
+        <TaskEvidenceUpload
+          key={messageId}
+          taskId={messageId}
+          userId={userId}
+          maxFiles={3}
+          onUploadComplete={setAttachments}
+        />
+      )}
+      <Textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        placeholder="Write a message..."
+        rows={2}
+        maxLength={2000}
+      />
+      <div className="flex justify-between gap-2">
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => setIsAttaching((value) => !value)}
+          className="flex items-center gap-1"
+        >
+          <FaPaperclip />
+          {attachments.length > 0
+            ? `${attachments.length} photo(s) attached`
+            : "Attach photos"}
+        </Button>
+        <Button
+          size="sm"
+          onClick={handleSend}
+          disabled={
+            sendMessage.isPending || (!text.trim() && attachments.length === 0)
+          }
+          className="flex items-center gap-1"
+        >
+          <FaPaperPlane /> Send
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+interface MessageThreadProps {
+  thread: MessageThreadParticipants;
+  userId: string;
+  title?: string;
+}
+
+// Message Thread - keyholder ↔ submissive conversation for one relationship
+export const MessageThread: React.FC<MessageThreadProps> = ({
+  thread,
+  userId,
+  title = "Messages",
+}) => {
+  useMessageSync(userId);
+  const { data: messages = [] } = useMessageThread(thread.relationshipId);
+  const { markThreadRead } = useMessageMutations();
+  const listRef = useRef<HTMLUListElement>(null);
+
+  const hasUnread = messages.some(
+    (message) => message.userId !== userId && !message.readAt,
+  );
+  const { mutate: markRead } = markThreadRead;
+
+  useEffect(() => {
+    if (hasUnread) {
+      markRead({ relationshipId: thread.relationshipId, readerId: userId });
+    }
+  }, [hasUnread, markRead, thread.relationshipId, userId]);
+
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [messages.length]);
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6 space-y-4">
+      <div className="flex items-center gap-2 sm:gap-3">
+        <FaComments className="text-nightly-aquamarine flex-shrink-0" />
+        <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew">
+          {title}
+        </h3>
+      </div>
+
+      {messages.length === 0 ? (
+        <p className="text-sm text-nightly-celadon">No messages yet.</p>
+      ) : (
+        <ul ref={listRef} className="space-y-3 max-h-80 overflow-y-auto pr-1">
+          {messages.map((message) => (
+            <MessageBubble
+              key={message.id}
+              message={message}
+              isOwn={message.userId === userId}
+            />
+          ))}
+        </ul>
+      )}
+
+      <MessageComposer thread={thread} userId={userId} />
+    </div>
+  );
+};
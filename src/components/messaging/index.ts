@@ -0,0 +1,5 @@
+/**
+ * Messaging Components
+ * Keyholder ↔ submissive relationship threads
+ */
+export { MessageThread } from "./MessageThread";
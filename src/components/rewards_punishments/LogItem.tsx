@@ -7,6 +7,7 @@ import {
   FaTrophy,
   FaExclamationTriangle,
 } from "../../utils/iconImport";
+import { Button } from "@/components/ui";
 
 // Mock reward/punishment log item interface
 export interface RewardPunishmentLog {
@@ -23,6 +24,7 @@ export interface RewardPunishmentLog {
   sourceId?: string; // Reference to task, rule, etc.
   createdAt: Date;
   notes?: string;
+  reversedAt?: Date; // Reversed entries no longer affect chastity time
 }
 
 // Helper functions
@@ -54,9 +56,10 @@ const getSourceIcon = (source: RewardPunishmentLog["source"]) => {
 // Log Item Component
 interface LogItemProps {
   item: RewardPunishmentLog;
+  onReverse?: (id: string) => void;
 }
 
-const LogItemComponent: React.FC<LogItemProps> = ({ item }) => {
+const LogItemComponent: React.FC<LogItemProps> = ({ item, onReverse }) => {
   const isReward = item.type === "reward";
   const timeChange = Math.abs(item.timeChangeSeconds);
 
@@ -77,7 +80,11 @@ const LogItemComponent: React.FC<LogItemProps> = ({ item }) => {
   );
 
   return (
-    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4">
+    <div
+      className={`bg-white/10 backdrop-blur-sm rounded-lg p-4 ${
+        item.reversedAt ? "opacity-60" : ""
+      }`}
+    >
       {/* Header */}
       <div className="flex items-start justify-between mb-3">
         <div className="flex items-center gap-3">
@@ -132,8 +139,19 @@ const LogItemComponent: React.FC<LogItemProps> = ({ item }) => {
       )}
 
       {/* Timestamp */}
-      <div className="text-xs text-nightly-celadon text-right">
-        {formattedTimestamp}
+      <div className="flex items-center justify-end gap-3 text-xs text-nightly-celadon">
+        {item.reversedAt && <span className="uppercase">Reversed</span>}
+        {onReverse && !item.reversedAt && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => onReverse(item.id)}
+            className="text-nightly-lavender-floral"
+          >
+            Reverse
+          </Button>
+        )}
+        <span>{formattedTimestamp}</span>
       </div>
     </div>
   );
@@ -7,11 +7,12 @@ interface RewardsPunishmentsContentProps {
   filteredLogs: RewardPunishmentLog[];
   loading: boolean;
   filter: "all" | "rewards" | "punishments";
+  onReverse?: (id: string) => void;
 }
 
 export const RewardsPunishmentsContent: React.FC<
   RewardsPunishmentsContentProps
-> = ({ filteredLogs, loading, filter }) => {
+> = ({ filteredLogs, loading, filter, onReverse }) => {
   if (loading) {
     return (
       <div className="text-center py-8">
@@ -42,7 +43,7 @@ export const RewardsPunishmentsContent: React.FC<
   return (
     <div className="space-y-4">
       {filteredLogs.map((log) => (
-        <LogItem key={log.id} item={log} />
+        <LogItem key={log.id} item={log} onReverse={onReverse} />
       ))}
     </div>
   );
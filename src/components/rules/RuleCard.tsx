@@ -1,6 +1,8 @@
 import React, { memo, useMemo } from "react";
 import { Button } from "@/components/ui";
 import { FaEdit, FaLock, FaUnlock } from "../../utils/iconImport";
+import type { RuleCondition, TaskConsequence } from "@/types/core";
+import { describeRuleCondition } from "@/utils/rules/ruleConditions";
 
 // Mock rules interface
 export interface ChastityRule {
@@ -11,6 +13,8 @@ export interface ChastityRule {
   createdBy: "submissive" | "keyholder";
   createdAt: Date;
   lastModified: Date;
+  conditions?: RuleCondition[];
+  consequences?: TaskConsequence[];
 }
 
 // Helper function for markdown formatting
@@ -126,6 +130,28 @@ const RuleCardComponent: React.FC<RuleCardProps> = ({
 
       {/* Content */}
       <div className="prose prose-sm max-w-none">{formattedContent}</div>
+
+      {/* Automatic checks */}
+      {rule.conditions && rule.conditions.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-2">
+          {rule.conditions.map((condition, index) => (
+            <span
+              key={index}
+              className="px-2 py-1 text-xs rounded bg-nightly-aquamarine/20 text-nightly-aquamarine"
+            >
+              {describeRuleCondition(condition)}
+            </span>
+          ))}
+          {rule.consequences?.map((consequence, index) => (
+            <span
+              key={`consequence-${index}`}
+              className="px-2 py-1 text-xs rounded bg-red-500/20 text-red-300"
+            >
+              {consequence.description}
+            </span>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
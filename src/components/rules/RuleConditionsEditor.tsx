@@ -0,0 +1,257 @@
+import React from "react";
+import { FaPlus, FaTrash } from "../../utils/iconImport";
+import { Input, Select, SelectOption, Button, Checkbox } from "@/components/ui";
+import type {
+  RuleCondition,
+  RuleConditionType,
+  TaskConsequence,
+} from "@/types/core";
+import { USER_EVENT_TYPES } from "@/types/events";
+import { EVENT_TYPES } from "../log_event/form/eventTypes";
+import { RULE_CONDITION_LABELS } from "@/utils/rules/ruleConditions";
+
+const conditionTypeOptions: SelectOption[] = (
+  Object.keys(RULE_CONDITION_LABELS) as RuleConditionType[]
+).map((type) => ({ value: type, label: RULE_CONDITION_LABELS[type] }));
+
+// Event types offered by the log form plus the named types from imports
+const eventTypeOptions: SelectOption[] = [
+  ...EVENT_TYPES.map(({ value, label }) => ({ value, label })),
+  ...USER_EVENT_TYPES.map((type) => ({ value: type, label: type })),
+];
+
+const createCondition = (type: RuleConditionType): RuleCondition => {
+  switch (type) {
+    case "max_pause_duration":
+      return { type, maxMinutes: 30 };
+    case "daily_event":
+      return { type, eventType: "Hygiene" };
+    case "forbidden_event":
+      return { type, eventType: "orgasm" };
+    case "hygiene_window":
+      return { type, startTime: "07:00", durationMinutes: 15 };
+  }
+};
+
+const ConditionFields: React.FC<{
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+}> = ({ condition, onChange }) => {
+  switch (condition.type) {
+    case "max_pause_duration":
+      return (
+        <Input
+          label="Max pause (minutes)"
+          type="number"
+          min={1}
+          value={condition.maxMinutes}
+          onChange={(e) =>
+            onChange({
+              ...condition,
+              maxMinutes: Math.max(1, Number(e.target.value) || 1),
+            })
+          }
+        />
+      );
+    case "hygiene_window":
+      return (
+        <div className="flex gap-3">
+          <Input
+            label="Opens at"
+            type="time"
+            value={condition.startTime}
+            onChange={(e) =>
+              onChange({
+                ...condition,
+                startTime: e.target.value || condition.startTime,
+              })
+            }
+          />
+          <Input
+            label="Length (minutes)"
+            type="number"
+            min={1}
+            value={condition.durationMinutes}
+            onChange={(e) =>
+              onChange({
+                ...condition,
+                durationMinutes: Math.max(1, Number(e.target.value) || 1),
+              })
+            }
+          />
+        </div>
+      );
+    default:
+      return (
+        <Select
+          label="Event type"
+          value={condition.eventType}
+          onChange={(value) =>
+            onChange({ ...condition, eventType: String(value) })
+          }
+          options={eventTypeOptions}
+        />
+      );
+  }
+};
+
+interface ConditionRowProps {
+  condition: RuleCondition;
+  onChange: (condition: RuleCondition) => void;
+  onRemove: () => void;
+}
+
+const ConditionRow: React.FC<ConditionRowProps> = ({
+  condition,
+  onChange,
+  onRemove,
+}) => (
+  <div className="flex flex-col md:flex-row md:items-end gap-3">
+    <div className="flex-1">
+      <Select
+        label="Condition"
+        value={condition.type}
+        onChange={(value) =>
+          onChange(createCondition(value as RuleConditionType))
+        }
+        options={conditionTypeOptions}
+      />
+    </div>
+    <div className="flex-1">
+      <ConditionFields condition={condition} onChange={onChange} />
+    </div>
+    <Button
+      type="button"
+      variant="ghost"
+      onClick={onRemove}
+      title="Remove condition"
+      className="p-2 text-red-300"
+    >
+      <FaTrash />
+    </Button>
+  </div>
+);
+
+// Rule Conditions Editor Component
+interface RuleConditionsEditorProps {
+  conditions: RuleCondition[];
+  consequences: TaskConsequence[];
+  onConditionsChange: (conditions: RuleCondition[]) => void;
+  onConsequencesChange: (consequences: TaskConsequence[]) => void;
+}
+
+export const RuleConditionsEditor: React.FC<RuleConditionsEditorProps> = ({
+  conditions,
+  consequences,
+  onConditionsChange,
+  onConsequencesChange,
+}) => {
+  const timePenalty = consequences.find((c) => c.duration);
+  const taskPenalty = consequences.find((c) => !c.duration && !c.reroll);
+  const hasReroll = consequences.some((c) => c.reroll);
+
+  const updatePenalties = (
+    minutes: number,
+    taskText: string,
+    reroll: boolean,
+  ) => {
+    const next: TaskConsequence[] = [];
+    if (minutes > 0) {
+      next.push({
+        type: "punishment",
+        description: `${minutes} minutes added`,
+        duration: minutes * 60,
+      });
+    }
+    if (taskText.trim()) {
+      next.push({ type: "punishment", description: taskText });
+    }
+    if (reroll) {
+      next.push({
+        type: "punishment",
+        description: "Random goal re-rolled",
+        reroll: true,
+      });
+    }
+    onConsequencesChange(next);
+  };
+  const penaltyMinutes = Math.round((timePenalty?.duration ?? 0) / 60);
+  const taskText = taskPenalty?.description ?? "";
+
+  return (
+    <div className="space-y-4 border border-white/10 rounded p-4">
+      <div className="flex items-center justify-between">
+        <h4 className="text-sm font-medium text-nightly-celadon">
+          Automatic checks
+        </h4>
+        <Button
+          type="button"
+          variant="ghost"
+          onClick={() =>
+            onConditionsChange([
+              ...conditions,
+              createCondition("max_pause_duration"),
+            ])
+          }
+          className="flex items-center gap-2 text-nightly-aquamarine"
+        >
+          <FaPlus />
+          Add condition
+        </Button>
+      </div>
+
+      {conditions.length === 0 && (
+        <p className="text-xs text-nightly-celadon/70">
+          Without conditions this rule is informational only.
+        </p>
+      )}
+
+      {conditions.map((condition, index) => (
+        <ConditionRow
+          key={index}
+          condition={condition}
+          onChange={(updated) =>
+            onConditionsChange(
+              conditions.map((c, i) => (i === index ? updated : c)),
+            )
+          }
+          onRemove={() =>
+            onConditionsChange(conditions.filter((_, i) => i !== index))
+          }
+        />
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <Input
+          label="Time added per violation (minutes)"
+          type="number"
+          min={0}
+          value={penaltyMinutes}
+          onChange={(e) =>
+            updatePenalties(
+              Math.max(0, Number(e.target.value) || 0),
+              taskText,
+              hasReroll,
+            )
+          }
+        />
+        <Input
+          label="Punishment task"
+          type="text"
+          value={taskText}
+          placeholder="Leave empty for no task"
+          onChange={(e) =>
+            updatePenalties(penaltyMinutes, e.target.value, hasReroll)
+          }
+        />
+      </div>
+      <Checkbox
+        checked={hasReroll}
+        onChange={(checked) =>
+          updatePenalties(penaltyMinutes, taskText, checked)
+        }
+        label="Re-roll a random session goal (keeps the longer roll)"
+      />
+    </div>
+  );
+};
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { ChastityRule } from "./RuleCard";
+import { RuleConditionsEditor } from "./RuleConditionsEditor";
 import { FaEdit, FaSave, FaTimes } from "../../utils/iconImport";
 import {
   Input,
@@ -128,6 +129,8 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
     content: rule?.content || "",
     isActive: rule?.isActive ?? true,
     createdBy: rule?.createdBy || ("submissive" as "submissive" | "keyholder"),
+    conditions: rule?.conditions ?? [],
+    consequences: rule?.consequences ?? [],
   });
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -166,6 +169,17 @@ export const RuleEditor: React.FC<RuleEditorProps> = ({
           }
         />
 
+        <RuleConditionsEditor
+          conditions={formData.conditions}
+          consequences={formData.consequences}
+          onConditionsChange={(conditions) =>
+            setFormData((prev) => ({ ...prev, conditions }))
+          }
+          onConsequencesChange={(consequences) =>
+            setFormData((prev) => ({ ...prev, consequences }))
+          }
+        />
+
         {/* Actions */}
         <div className="flex gap-3 pt-4">
           <Button
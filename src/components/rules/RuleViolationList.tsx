@@ -0,0 +1,70 @@
+import React, { memo } from "react";
+import { FaCheck, FaExclamationTriangle } from "../../utils/iconImport";
+import { Button } from "@/components/ui";
+import type { DBRuleViolation } from "@/types/database";
+import { formatElapsedTime } from "@/utils/formatting/time";
+
+// Rule Violation List Component
+interface RuleViolationListProps {
+  violations: DBRuleViolation[];
+  onAcknowledge?: (violationId: string) => void;
+}
+
+const RuleViolationItem: React.FC<{
+  violation: DBRuleViolation;
+  onAcknowledge?: (violationId: string) => void;
+}> = ({ violation, onAcknowledge }) => (
+  <li className="bg-white/5 rounded p-3 flex items-start justify-between gap-3">
+    <div className="min-w-0">
+      <div className="flex items-center gap-2">
+        <FaExclamationTriangle className="text-red-400 flex-shrink-0" />
+        <span className="font-medium text-nightly-honeydew">
+          {violation.ruleTitle}
+        </span>
+      </div>
+      <p className="text-sm text-nightly-celadon mt-1">
+        {violation.description}
+      </p>
+      <div className="flex flex-wrap gap-3 text-xs text-nightly-celadon/70 mt-1">
+        <span>{violation.occurredAt.toLocaleString()}</span>
+        {violation.timeAdded > 0 && (
+          <span className="text-red-300">
+            +{formatElapsedTime(violation.timeAdded)}
+          </span>
+        )}
+        {violation.punishmentTaskIds.length > 0 && (
+          <span className="text-red-300">
+            {violation.punishmentTaskIds.length} punishment task(s)
+          </span>
+        )}
+      </div>
+    </div>
+    {onAcknowledge && !violation.acknowledgedAt && (
+      <Button
+        variant="ghost"
+        onClick={() => onAcknowledge(violation.id)}
+        className="p-2 text-nightly-aquamarine flex-shrink-0"
+        title="Mark as seen"
+      >
+        <FaCheck />
+      </Button>
+    )}
+  </li>
+);
+
+const RuleViolationListComponent: React.FC<RuleViolationListProps> = ({
+  violations,
+  onAcknowledge,
+}) => (
+  <ul className="space-y-2">
+    {violations.map((violation) => (
+      <RuleViolationItem
+        key={violation.id}
+        violation={violation}
+        onAcknowledge={onAcknowledge}
+      />
+    ))}
+  </ul>
+);
+
+export const RuleViolationList = memo(RuleViolationListComponent);
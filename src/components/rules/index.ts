@@ -1,5 +1,6 @@
 export { RuleCard } from "./RuleCard";
 export type { ChastityRule } from "./RuleCard";
 export { RuleEditor } from "./RuleEditor";
+export { RuleViolationList } from "./RuleViolationList";
 export { RulesPageControls } from "./RulesPageControls";
 export { RulesInfoBanner, RulesEmptyState } from "./RulesPageComponents";
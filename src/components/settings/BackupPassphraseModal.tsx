@@ -0,0 +1,84 @@
+/**
+ * Backup Passphrase Modal
+ * Prompts for the passphrase of an encrypted backup during import
+ */
+import React, { useState } from "react";
+import { Modal, Input, Button } from "@/components/ui";
+import { FaLock, FaSpinner } from "../../utils/iconImport";
+
+interface BackupPassphraseModalProps {
+  isOpen: boolean;
+  error: string | null;
+  isSubmitting: boolean;
+  onSubmit: (passphrase: string) => void;
+  onCancel: () => void;
+}
+
+export const BackupPassphraseModal: React.FC<BackupPassphraseModalProps> = ({
+  isOpen,
+  error,
+  isSubmitting,
+  onSubmit,
+  onCancel,
+}) => {
+  const [passphrase, setPassphrase] = useState("");
+
+  const handleCancel = () => {
+    setPassphrase("");
+    onCancel();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (passphrase) {
+      onSubmit(passphrase);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleCancel}
+      title="Encrypted Backup"
+      icon={<FaLock className="text-nightly-aquamarine" />}
+      size="sm"
+      footer={
+        <div className="flex justify-end gap-2">
+          <Button
+            variant="secondary"
+            onClick={handleCancel}
+            disabled={isSubmitting}
+          >
+            Cancel
+          </Button>
+          <Button
+            type="submit"
+            form="backup-passphrase-form"
+            disabled={isSubmitting || !passphrase}
+            className="flex items-center gap-2"
+          >
+            {isSubmitting && <FaSpinner className="animate-spin" />}
+            {isSubmitting ? "Decrypting..." : "Decrypt & Import"}
+          </Button>
+        </div>
+      }
+    >
+      <form id="backup-passphrase-form" onSubmit={handleSubmit}>
+        <p className="text-sm text-nightly-celadon mb-4">
+          This backup is protected with a passphrase. Enter it to restore your
+          data.
+        </p>
+        <Input
+          type="password"
+          label="Passphrase"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          error={error ?? undefined}
+          disabled={isSubmitting}
+          autoComplete="off"
+          autoFocus
+        />
+      </form>
+    </Modal>
+  );
+};
@@ -1,19 +1,107 @@
-import React, { useRef } from "react";
-import { Button } from "@/components/ui";
+import React, { useRef, useState } from "react";
+import { Button, Input, Switch } from "@/components/ui";
 import {
   FaDatabase,
   FaDownload,
   FaUpload,
   FaSpinner,
+  FaList,
+  FaCalendarAlt,
 } from "../../utils/iconImport";
 import { useDataManagement } from "../../hooks/useDataManagement";
 import { useAuthState } from "../../contexts";
+import { BackupPassphraseModal } from "./BackupPassphraseModal";
+
+interface BackupExportRowProps {
+  onExport: (passphrase?: string) => void;
+  disabled: boolean;
+  isExporting: boolean;
+}
+
+const BackupExportRow: React.FC<BackupExportRowProps> = ({
+  onExport,
+  disabled,
+  isExporting,
+}) => {
+  const [encrypt, setEncrypt] = useState(false);
+  const [passphrase, setPassphrase] = useState("");
+  const [confirmPassphrase, setConfirmPassphrase] = useState("");
+
+  const mismatch =
+    encrypt && !!confirmPassphrase && passphrase !== confirmPassphrase;
+  const passphraseMissing =
+    encrypt && (!passphrase || passphrase !== confirmPassphrase);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <div>
+          <div className="text-sm font-medium text-nightly-celadon">
+            Export My Data
+          </div>
+          <div className="text-xs text-nightly-celadon/70">
+            Download a full backup of all your data in JSON format
+          </div>
+        </div>
+        <Button
+          onClick={() => onExport(encrypt ? passphrase : undefined)}
+          disabled={disabled || passphraseMissing}
+          className="bg-nightly-spring-green/20 hover:bg-nightly-spring-green/30 text-nightly-spring-green px-4 py-2 rounded font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isExporting ? (
+            <FaSpinner className="animate-spin" />
+          ) : (
+            <FaDownload />
+          )}
+          {isExporting ? "Exporting..." : "Export"}
+        </Button>
+      </div>
+      <Switch
+        label="Encrypt backup with a passphrase"
+        description="The passphrase is required to restore the file and cannot be recovered"
+        checked={encrypt}
+        onCheckedChange={setEncrypt}
+        size="sm"
+      />
+      {encrypt && (
+        <div className="grid gap-3 sm:grid-cols-2">
+          <Input
+            type="password"
+            label="Passphrase"
+            value={passphrase}
+            onChange={(e) => setPassphrase(e.target.value)}
+            autoComplete="new-password"
+          />
+          <Input
+            type="password"
+            label="Confirm passphrase"
+            value={confirmPassphrase}
+            onChange={(e) => setConfirmPassphrase(e.target.value)}
+            error={mismatch ? "Passphrases do not match" : undefined}
+            autoComplete="new-password"
+          />
+        </div>
+      )}
+    </div>
+  );
+};
 
 export const DataControls: React.FC = () => {
   const { user } = useAuthState();
-  const { handleExport, handleImport, isExporting, isImporting } =
-    useDataManagement(user?.uid, user?.email || undefined);
+  const {
+    handleExport,
+    handleExportCSV,
+    handleExportCalendar,
+    handleImport,
+    submitImportPassphrase,
+    cancelEncryptedImport,
+    isExporting,
+    isImporting,
+    needsImportPassphrase,
+    passphraseError,
+  } = useDataManagement(user?.uid, user?.email || undefined);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const [mergeOnImport, setMergeOnImport] = useState(false);
 
   const onImportClick = () => {
     fileInputRef.current?.click();
@@ -22,7 +110,7 @@ export const DataControls: React.FC = () => {
   const onFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (file) {
-      handleImport(file);
+      handleImport(file, mergeOnImport ? "merge" : "replace");
       // Reset input so same file can be selected again
       e.target.value = "";
     }
@@ -39,27 +127,41 @@ export const DataControls: React.FC = () => {
 
       <div className="space-y-4">
         {/* Data Export */}
-        <div className="flex items-center justify-between">
+        <BackupExportRow
+          onExport={handleExport}
+          disabled={isExporting || !user}
+          isExporting={isExporting}
+        />
+
+        {/* History Export */}
+        <div className="flex items-center justify-between pt-4 border-t border-white/10">
           <div>
             <div className="text-sm font-medium text-nightly-celadon">
-              Export My Data
+              Export History
             </div>
             <div className="text-xs text-nightly-celadon/70">
-              Download all your data in JSON format
+              Sessions and events as CSV for spreadsheets, or as a calendar
+              (.ics) file
             </div>
           </div>
-          <Button
-            onClick={handleExport}
-            disabled={isExporting || !user}
-            className="bg-nightly-spring-green/20 hover:bg-nightly-spring-green/30 text-nightly-spring-green px-4 py-2 rounded font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
-          >
-            {isExporting ? (
-              <FaSpinner className="animate-spin" />
-            ) : (
-              <FaDownload />
-            )}
-            {isExporting ? "Exporting..." : "Export"}
-          </Button>
+          <div className="flex gap-2">
+            <Button
+              onClick={handleExportCSV}
+              disabled={isExporting || !user}
+              className="bg-nightly-spring-green/20 hover:bg-nightly-spring-green/30 text-nightly-spring-green px-4 py-2 rounded font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaList />
+              CSV
+            </Button>
+            <Button
+              onClick={handleExportCalendar}
+              disabled={isExporting || !user}
+              className="bg-nightly-spring-green/20 hover:bg-nightly-spring-green/30 text-nightly-spring-green px-4 py-2 rounded font-medium transition-colors flex items-center gap-2 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <FaCalendarAlt />
+              Calendar
+            </Button>
+          </div>
         </div>
 
         {/* Data Import */}
@@ -69,7 +171,7 @@ export const DataControls: React.FC = () => {
               Import My Data
             </div>
             <div className="text-xs text-nightly-celadon/70">
-              Restore data from a JSON backup file
+              Restore data from a JSON backup file (plain or encrypted)
             </div>
           </div>
           <Button
@@ -92,6 +194,13 @@ export const DataControls: React.FC = () => {
             className="hidden"
           />
         </div>
+        <Switch
+          label="Merge with existing data"
+          description="Keep current records and only add newer ones from the backup"
+          checked={mergeOnImport}
+          onCheckedChange={setMergeOnImport}
+          size="sm"
+        />
 
         {/* Account Deletion */}
         <div className="flex items-center justify-between pt-4 border-t border-white/10">
@@ -108,6 +217,14 @@ export const DataControls: React.FC = () => {
           </Button>
         </div>
       </div>
+
+      <BackupPassphraseModal
+        isOpen={needsImportPassphrase}
+        error={passphraseError}
+        isSubmitting={isImporting}
+        onSubmit={submitImportPassphrase}
+        onCancel={cancelEncryptedImport}
+      />
     </div>
   );
 };
@@ -1,12 +1,125 @@
+/**
+ * DisplaySettingsSection Component
+ * Language picker and date/time format preferences
+ */
 import React from "react";
+import { Card, CardHeader, CardBody, Select } from "@/components/ui";
+import { useAuthState, useToast } from "@/contexts";
+import { useUpdateDisplaySettings } from "@/hooks/api/useSettings";
+import { useTranslation } from "@/hooks/useTranslation";
+import { SUPPORTED_LANGUAGES, translate } from "@/utils/i18n";
+import {
+  DATE_FORMAT_OPTIONS,
+  toDateFnsPattern,
+} from "@/utils/formatting/locale";
+
+// A duration long enough to exercise plural forms in the preview
+const PREVIEW_DURATION_SECONDS = 3 * 86400 + 1 * 3600;
+
+const languageOptions = SUPPORTED_LANGUAGES.map(({ code, label }) => ({
+  value: code,
+  label,
+}));
 
 export const DisplaySettingsSection: React.FC = () => {
+  const { user } = useAuthState();
+  const { showSuccess, showError } = useToast();
+  const updateDisplay = useUpdateDisplaySettings();
+  const { language, display, t, formatDateTime, formatDuration } =
+    useTranslation();
+
+  const save = async (
+    data: Parameters<typeof updateDisplay.mutateAsync>[0]["data"],
+  ) => {
+    if (!user) return;
+    try {
+      await updateDisplay.mutateAsync({ userId: user.uid, data });
+      // Confirm in the newly chosen language rather than the one replaced
+      showSuccess(
+        translate(data.language ?? language, "settings.display.saved"),
+      );
+    } catch {
+      showError(t("settings.display.saveFailed"));
+    }
+  };
+
+  const dateFormat = toDateFnsPattern(display.dateFormat);
+  const dateFormatOptions = DATE_FORMAT_OPTIONS.map((pattern) => ({
+    value: pattern,
+    label: pattern,
+  }));
+
   return (
-    <div className="bg-white/10 backdrop-blur-xs border-white/20 p-4 rounded-lg">
-      <h2 className="text-2xl font-bold text-nightly-honeydew">
-        Display Settings
-      </h2>
-      <p className="text-nightly-celadon">Manage your display preferences.</p>
-    </div>
+    <Card>
+      <CardHeader>
+        <h2 className="text-2xl font-bold text-nightly-honeydew">
+          {t("settings.display.title")}
+        </h2>
+        <p className="text-nightly-celadon">
+          {t("settings.display.description")}
+        </p>
+      </CardHeader>
+
+      <CardBody className="space-y-4">
+        {!user && (
+          <p className="text-sm text-nightly-celadon">
+            {t("settings.display.signInRequired")}
+          </p>
+        )}
+
+        <Select
+          label={t("settings.display.language")}
+          value={language}
+          onChange={(value) => save({ language: String(value) })}
+          options={languageOptions}
+          disabled={!user || updateDisplay.isPending}
+        />
+
+        <Select
+          label={t("settings.display.dateFormat")}
+          value={dateFormat}
+          onChange={(value) => save({ dateFormat: String(value) })}
+          options={dateFormatOptions}
+          disabled={!user || updateDisplay.isPending}
+        />
+
+        <Select
+          label={t("settings.display.timeFormat")}
+          value={display.timeFormat ?? "12h"}
+          onChange={(value) => save({ timeFormat: value as "12h" | "24h" })}
+          options={[
+            { value: "12h", label: t("settings.display.timeFormat.12h") },
+            { value: "24h", label: t("settings.display.timeFormat.24h") },
+          ]}
+          disabled={!user || updateDisplay.isPending}
+        />
+
+        <Select
+          label={t("settings.display.startOfWeek")}
+          value={display.startOfWeek ?? "sunday"}
+          onChange={(value) =>
+            save({ startOfWeek: value as "monday" | "sunday" })
+          }
+          options={[
+            {
+              value: "monday",
+              label: t("settings.display.startOfWeek.monday"),
+            },
+            {
+              value: "sunday",
+              label: t("settings.display.startOfWeek.sunday"),
+            },
+          ]}
+          disabled={!user || updateDisplay.isPending}
+        />
+
+        <p className="text-sm text-nightly-celadon">
+          {t("settings.display.preview", {
+            date: formatDateTime(new Date()),
+            duration: formatDuration(PREVIEW_DURATION_SECONDS),
+          })}
+        </p>
+      </CardBody>
+    </Card>
   );
 };
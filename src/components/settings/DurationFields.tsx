@@ -0,0 +1,141 @@
+/**
+ * Duration Fields
+ * Fixed and dice-roll duration inputs for keyholder durations, and the roll
+ * details the keyholder sees afterwards
+ */
+import React from "react";
+import type {
+  RandomDurationDistribution,
+  RandomGoalRecord,
+} from "@/types/goals";
+import { RANDOM_DISTRIBUTION_LABELS } from "@/utils/goals/randomDuration";
+import { Checkbox, Input, Select } from "@/components/ui";
+
+export const FixedDurationFields: React.FC<{
+  days: number;
+  hours: number;
+  onDaysChange: (days: number) => void;
+  onHoursChange: (hours: number) => void;
+  disabled: boolean;
+}> = ({ days, hours, onDaysChange, onHoursChange, disabled }) => (
+  <div>
+    <label className="block text-sm text-nightly-celadon mb-2">
+      Required Duration
+    </label>
+    <div className="flex gap-4">
+      <div className="flex-1">
+        <Input
+          type="number"
+          min="0"
+          value={days}
+          onChange={(e) => onDaysChange(parseInt(e.target.value) || 0)}
+          className="w-full bg-white/5 border border-white/20 rounded-lg px-4 py-2 text-nightly-honeydew focus:outline-none focus:border-nightly-lavender-floral"
+          disabled={disabled}
+        />
+        <span className="text-xs text-nightly-celadon mt-1 block">Days</span>
+      </div>
+      <div className="flex-1">
+        <Input
+          type="number"
+          min="0"
+          max="23"
+          value={hours}
+          onChange={(e) => onHoursChange(parseInt(e.target.value) || 0)}
+          className="w-full bg-white/5 border border-white/20 rounded-lg px-4 py-2 text-nightly-honeydew focus:outline-none focus:border-nightly-lavender-floral"
+          disabled={disabled}
+        />
+        <span className="text-xs text-nightly-celadon mt-1 block">Hours</span>
+      </div>
+    </div>
+  </div>
+);
+
+export interface RandomDurationFormValue {
+  minHours: number;
+  maxHours: number;
+  distribution: RandomDurationDistribution;
+  hideUntilComplete: boolean;
+}
+
+const distributionOptions = (
+  Object.keys(RANDOM_DISTRIBUTION_LABELS) as RandomDurationDistribution[]
+).map((value) => ({ value, label: RANDOM_DISTRIBUTION_LABELS[value] }));
+
+interface RandomDurationFieldsProps {
+  value: RandomDurationFormValue;
+  onChange: (value: RandomDurationFormValue) => void;
+  disabled?: boolean;
+}
+
+export const RandomDurationFields: React.FC<RandomDurationFieldsProps> = ({
+  value,
+  onChange,
+  disabled,
+}) => {
+  const setHours = (field: "minHours" | "maxHours", input: string) =>
+    onChange({ ...value, [field]: Math.max(1, parseInt(input) || 1) });
+
+  return (
+    <div className="space-y-3 bg-nightly-lavender-floral/10 rounded-lg p-4">
+      <div className="flex gap-4">
+        <div className="flex-1">
+          <Input
+            label="Minimum (hours)"
+            type="number"
+            min="1"
+            value={value.minHours}
+            onChange={(e) => setHours("minHours", e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+        <div className="flex-1">
+          <Input
+            label="Maximum (hours)"
+            type="number"
+            min="1"
+            value={value.maxHours}
+            onChange={(e) => setHours("maxHours", e.target.value)}
+            disabled={disabled}
+          />
+        </div>
+      </div>
+      <Select
+        label="Odds"
+        value={value.distribution}
+        onChange={(distribution) =>
+          onChange({
+            ...value,
+            distribution: distribution as RandomDurationDistribution,
+          })
+        }
+        options={distributionOptions}
+        disabled={disabled}
+      />
+      <Checkbox
+        checked={value.hideUntilComplete}
+        onChange={(hideUntilComplete) =>
+          onChange({ ...value, hideUntilComplete })
+        }
+        label="Hide the rolled duration until unlock"
+        disabled={disabled}
+      />
+    </div>
+  );
+};
+
+const formatHours = (seconds: number): string => {
+  const hours = Math.round(seconds / 3600);
+  return `${hours} hour${hours === 1 ? "" : "s"}`;
+};
+
+// Roll details so the keyholder can audit a random duration
+export const RandomDurationDetails: React.FC<{ record: RandomGoalRecord }> = ({
+  record,
+}) => (
+  <p className="text-xs text-nightly-celadon mt-2">
+    Rolled between {formatHours(record.minSeconds)} and{" "}
+    {formatHours(record.maxSeconds)} · seed {record.seed} ·{" "}
+    {record.rolls.length} roll{record.rolls.length === 1 ? "" : "s"}
+    {record.hideUntilComplete && " · hidden until unlock"}
+  </p>
+);
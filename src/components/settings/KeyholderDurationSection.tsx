@@ -15,11 +15,26 @@ import {
   FaTrash,
 } from "../../utils/iconImport";
 import type { DBGoal } from "@/types/database";
+import type { RandomGoalRecord } from "@/types/goals";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { useToast } from "@/contexts";
-import { Input, Textarea, Card, Button } from "@/components/ui";
+import { Input, Textarea, Card, Button, Checkbox } from "@/components/ui";
+import {
+  createRandomGoal,
+  getRandomGoalDuration,
+} from "@/utils/goals/randomDuration";
+import { getPermissionFailureMessage } from "@/utils/security/relationshipPermissions";
+import {
+  FixedDurationFields,
+  RandomDurationDetails,
+  RandomDurationFields,
+  type RandomDurationFormValue,
+} from "./DurationFields";
 
 interface KeyholderDurationSectionProps {
   userId?: string | null;
+  /** Relationship the keyholder is acting through, checked on every change */
+  acting?: RelationshipActingContext;
 }
 
 // Helper to format duration from seconds
@@ -33,6 +48,13 @@ const formatDuration = (seconds: number): string => {
   return `${hours} hours`;
 };
 
+const DEFAULT_RANDOM_DURATION: RandomDurationFormValue = {
+  minHours: 24,
+  maxHours: 72,
+  distribution: "uniform",
+  hideUntilComplete: false,
+};
+
 const KeyholderDurationEditForm: React.FC<{
   goal: DBGoal;
   onSave: (title: string, duration: number, description?: string) => void;
@@ -198,6 +220,9 @@ const KeyholderDurationDisplay: React.FC<{
         <p className="text-2xl font-bold text-nightly-lavender-floral">
           {formatDuration(goal.targetValue)}
         </p>
+        {goal.randomDuration && (
+          <RandomDurationDetails record={goal.randomDuration} />
+        )}
       </div>
     </Card>
   );
@@ -244,7 +269,12 @@ const KeyholderDurationCard: React.FC<{
 };
 
 const CreateKeyholderDurationForm: React.FC<{
-  onCreate: (title: string, duration: number, description?: string) => void;
+  onCreate: (
+    title: string,
+    duration: number,
+    description?: string,
+    randomDuration?: RandomGoalRecord,
+  ) => void;
   isCreating: boolean;
 }> = ({ onCreate, isCreating }) => {
   const [isOpen, setIsOpen] = useState(false);
@@ -252,17 +282,38 @@ const CreateKeyholderDurationForm: React.FC<{
   const [days, setDays] = useState(3);
   const [hours, setHours] = useState(0);
   const [description, setDescription] = useState("");
+  const [isRandom, setIsRandom] = useState(false);
+  const [random, setRandom] = useState(DEFAULT_RANDOM_DURATION);
 
   const handleSubmit = () => {
-    const totalSeconds = days * 86400 + hours * 3600;
+    const randomDuration = isRandom
+      ? createRandomGoal(
+          {
+            minSeconds: random.minHours * 3600,
+            maxSeconds: random.maxHours * 3600,
+            distribution: random.distribution,
+          },
+          { hideUntilComplete: random.hideUntilComplete },
+        )
+      : undefined;
+    const totalSeconds = randomDuration
+      ? getRandomGoalDuration(randomDuration)
+      : days * 86400 + hours * 3600;
     if (totalSeconds <= 0) return;
 
-    onCreate(title.trim(), totalSeconds, description.trim() || undefined);
+    onCreate(
+      title.trim(),
+      totalSeconds,
+      description.trim() || undefined,
+      randomDuration,
+    );
 
     setTitle("Minimum Lock Duration");
     setDays(3);
     setHours(0);
     setDescription("");
+    setIsRandom(false);
+    setRandom(DEFAULT_RANDOM_DURATION);
     setIsOpen(false);
   };
 
@@ -304,40 +355,28 @@ const CreateKeyholderDurationForm: React.FC<{
           />
         </div>
 
-        <div>
-          <label className="block text-sm text-nightly-celadon mb-2">
-            Required Duration
-          </label>
-          <div className="flex gap-4">
-            <div className="flex-1">
-              <Input
-                type="number"
-                min="0"
-                value={days}
-                onChange={(e) => setDays(parseInt(e.target.value) || 0)}
-                className="w-full bg-white/5 border border-white/20 rounded-lg px-4 py-2 text-nightly-honeydew focus:outline-none focus:border-nightly-lavender-floral"
-                disabled={isCreating}
-              />
-              <span className="text-xs text-nightly-celadon mt-1 block">
-                Days
-              </span>
-            </div>
-            <div className="flex-1">
-              <Input
-                type="number"
-                min="0"
-                max="23"
-                value={hours}
-                onChange={(e) => setHours(parseInt(e.target.value) || 0)}
-                className="w-full bg-white/5 border border-white/20 rounded-lg px-4 py-2 text-nightly-honeydew focus:outline-none focus:border-nightly-lavender-floral"
-                disabled={isCreating}
-              />
-              <span className="text-xs text-nightly-celadon mt-1 block">
-                Hours
-              </span>
-            </div>
-          </div>
-        </div>
+        <Checkbox
+          checked={isRandom}
+          onChange={setIsRandom}
+          label="Roll a random duration"
+          disabled={isCreating}
+        />
+
+        {isRandom ? (
+          <RandomDurationFields
+            value={random}
+            onChange={setRandom}
+            disabled={isCreating}
+          />
+        ) : (
+          <FixedDurationFields
+            days={days}
+            hours={hours}
+            onDaysChange={setDays}
+            onHoursChange={setHours}
+            disabled={isCreating}
+          />
+        )}
 
         <div>
           <label className="block text-sm text-nightly-celadon mb-2">
@@ -356,7 +395,7 @@ const CreateKeyholderDurationForm: React.FC<{
         <div className="flex gap-3">
           <Button
             onClick={handleSubmit}
-            disabled={isCreating || (days === 0 && hours === 0)}
+            disabled={isCreating || (!isRandom && days === 0 && hours === 0)}
             className="flex-1 bg-nightly-lavender-floral/20 border border-nightly-lavender-floral hover:bg-nightly-lavender-floral/30 text-nightly-lavender-floral font-semibold py-3 px-4 rounded-lg transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2"
           >
             {isCreating ? (
@@ -382,7 +421,7 @@ const CreateKeyholderDurationForm: React.FC<{
 
 export const KeyholderDurationSection: React.FC<
   KeyholderDurationSectionProps
-> = ({ userId }) => {
+> = ({ userId, acting }) => {
   const { data: khDuration, isLoading } = useKeyholderRequiredDurationQuery(
     userId || undefined,
   );
@@ -391,20 +430,28 @@ export const KeyholderDurationSection: React.FC<
     updateKeyholderDuration,
     deletePersonalGoal,
   } = usePersonalGoalMutations();
-  const { showWarning } = useToast();
+  const { showWarning, showError } = useToast();
+  const onError = (fallback: string) => (error: Error) =>
+    showError(getPermissionFailureMessage(error, fallback));
 
   const handleCreate = (
     title: string,
     duration: number,
     description?: string,
+    randomDuration?: RandomGoalRecord,
   ) => {
     if (!userId) return;
-    createKeyholderDuration.mutate({
-      userId,
-      title,
-      requiredDuration: duration,
-      description,
-    });
+    createKeyholderDuration.mutate(
+      {
+        userId,
+        title,
+        requiredDuration: duration,
+        description,
+        randomDuration,
+        acting,
+      },
+      { onError: onError("Failed to set the required duration") },
+    );
   };
 
   const handleUpdate = (
@@ -414,13 +461,17 @@ export const KeyholderDurationSection: React.FC<
     description?: string,
   ) => {
     if (!userId) return;
-    updateKeyholderDuration.mutate({
-      goalId,
-      userId,
-      requiredDuration: duration,
-      title,
-      description,
-    });
+    updateKeyholderDuration.mutate(
+      {
+        goalId,
+        userId,
+        requiredDuration: duration,
+        title,
+        description,
+        acting,
+      },
+      { onError: onError("Failed to update the required duration") },
+    );
   };
 
   const handleDelete = (goalId: string) => {
@@ -430,7 +481,10 @@ export const KeyholderDurationSection: React.FC<
       action: {
         label: "Remove",
         onClick: () => {
-          deletePersonalGoal.mutate({ goalId, userId });
+          deletePersonalGoal.mutate(
+            { goalId, userId, acting },
+            { onError: onError("Failed to remove the required duration") },
+          );
         },
       },
     });
@@ -0,0 +1,91 @@
+/**
+ * Safety Release Settings Section
+ * Lets the wearer opt in to a penalty-free release after their keyholder has
+ * been unreachable for a set number of hours
+ */
+import React, { useState, useEffect } from "react";
+import { useAuthState } from "@/contexts";
+import { useUpdateChastitySettings } from "@/hooks/api/useSettings";
+import type { DBSettings } from "@/types/database";
+import { Button, Input } from "@/components/ui";
+import { FaShieldAlt, FaSpinner } from "@/utils/iconImport";
+import { DEFAULT_SAFETY_RELEASE_HOURS } from "@/utils/keyholder/safetyRelease";
+import { logger } from "@/utils/logging";
+import { toastBridge } from "@/utils/toastBridge";
+import { ToggleSwitch } from "./ToggleSwitch";
+
+export const SafetyReleaseSection: React.FC<{
+  settings: DBSettings | null;
+}> = ({ settings }) => {
+  const { user } = useAuthState();
+  const savedHours = settings?.chastity?.safetyReleaseHours ?? 0;
+  const [enabled, setEnabled] = useState(savedHours > 0);
+  const [hours, setHours] = useState(
+    savedHours > 0 ? savedHours : DEFAULT_SAFETY_RELEASE_HOURS,
+  );
+
+  // Update local state when settings change
+  useEffect(() => {
+    setEnabled(savedHours > 0);
+    if (savedHours > 0) {
+      setHours(savedHours);
+    }
+  }, [savedHours]);
+
+  const updateChastityMutation = useUpdateChastitySettings();
+
+  const handleSave = async () => {
+    if (!user?.uid) return;
+
+    try {
+      await updateChastityMutation.mutateAsync({
+        userId: user.uid,
+        data: { safetyReleaseHours: enabled ? Math.max(1, hours) : 0 },
+      });
+      toastBridge.showSuccess?.("Safety release settings saved");
+    } catch (error) {
+      logger.error("Failed to save safety release settings", error);
+      toastBridge.showError?.("Failed to save safety release settings");
+    }
+  };
+
+  return (
+    <div className="bg-white/10 backdrop-blur-sm rounded-lg p-6">
+      <div className="flex items-center gap-3 mb-4">
+        <FaShieldAlt className="text-nightly-aquamarine" />
+        <h3 className="text-lg font-semibold text-nightly-honeydew">
+          Safety Release
+        </h3>
+      </div>
+
+      <div className="space-y-4">
+        <ToggleSwitch
+          label="Release If My Keyholder Goes Silent"
+          description="Warn me as my keyholder stays inactive, then let me end the session without penalty"
+          checked={enabled}
+          onChange={setEnabled}
+        />
+        {enabled && (
+          <Input
+            type="number"
+            label="Hours of keyholder inactivity"
+            min={1}
+            value={hours}
+            onChange={(e) => setHours(Number(e.target.value) || 0)}
+          />
+        )}
+
+        <Button
+          onClick={handleSave}
+          disabled={updateChastityMutation.isPending}
+          className="bg-nightly-aquamarine hover:bg-nightly-aquamarine/80 text-black px-6 py-2 rounded font-medium transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2"
+        >
+          {updateChastityMutation.isPending && (
+            <FaSpinner className="animate-spin" />
+          )}
+          {updateChastityMutation.isPending ? "Saving..." : "Save Changes"}
+        </Button>
+      </div>
+    </div>
+  );
+};
@@ -147,6 +147,7 @@ interface TaskConsequenceProps {
     type: "reward" | "punishment";
     description: string;
     duration?: number;
+    reroll?: boolean;
   };
 }
 
@@ -186,6 +187,11 @@ const TaskConsequenceComponent: React.FC<TaskConsequenceProps> = ({
           {consequence.duration > 0 ? "added" : "reduced"}
         </div>
       )}
+      {consequence.reroll && (
+        <div className="text-xs text-nightly-celadon mt-1">
+          Re-rolls the random session goal
+        </div>
+      )}
     </div>
   );
 };
@@ -1,11 +1,13 @@
 import React, { useState } from "react";
 import { FaPrayingHands, FaSpinner, FaTimes } from "../../utils/iconImport";
 import {
+  useReleaseApprovers,
   useReleaseRequestMutations,
-  usePendingRequestForSession,
+  useOpenRequestForSession,
 } from "../../hooks/api/useReleaseRequests";
 import { useToast } from "../../contexts";
 import { Modal, Textarea, Button } from "@/components/ui";
+import { CounterOfferResponse } from "./CounterOfferResponse";
 
 // Request Modal Component
 interface RequestModalProps {
@@ -110,11 +112,14 @@ export const BegForReleaseButton: React.FC<BegForReleaseButtonProps> = ({
   const [showModal, setShowModal] = useState(false);
   const [reason, setReason] = useState("");
 
-  const { data: pendingRequest, isLoading: isCheckingRequest } =
-    usePendingRequestForSession(sessionId);
+  const { data: openRequest, isLoading: isCheckingRequest } =
+    useOpenRequestForSession(sessionId);
+  const { data: approvers } = useReleaseApprovers(userId);
   const { createRequest, cancelRequest } = useReleaseRequestMutations();
   const { showSuccess, showError, showInfo } = useToast();
 
+  const pendingRequest =
+    openRequest?.status === "pending" ? openRequest : undefined;
   const hasPendingRequest = !!pendingRequest;
   const isSubmitting = createRequest.isPending || cancelRequest.isPending;
 
@@ -125,9 +130,15 @@ export const BegForReleaseButton: React.FC<BegForReleaseButtonProps> = ({
         keyholderUserId,
         sessionId,
         reason: reason.trim() || undefined,
+        approverUserIds: approvers?.approverUserIds,
+        approvalPolicy: approvers?.approvalPolicy,
       });
 
-      showSuccess("Release request sent to your keyholder");
+      showSuccess(
+        (approvers?.approverUserIds.length ?? 0) > 1
+          ? "Release request sent to your keyholders"
+          : "Release request sent to your keyholder",
+      );
       setShowModal(false);
       setReason("");
     } catch {
@@ -158,6 +169,11 @@ export const BegForReleaseButton: React.FC<BegForReleaseButtonProps> = ({
     );
   }
 
+  // Counter-offers are answered (or waited on) instead of re-requesting
+  if (openRequest && openRequest.status !== "pending") {
+    return <CounterOfferResponse request={openRequest} className={className} />;
+  }
+
   // Show cancel button if request is pending
   if (hasPendingRequest) {
     return (
@@ -0,0 +1,70 @@
+import React from "react";
+import { FaCheck, FaExchangeAlt, FaTimes } from "../../utils/iconImport";
+import type { DBReleaseRequest } from "../../types/database";
+import { useCounterOfferMutations } from "../../hooks/api/useReleaseRequests";
+import { useToast } from "../../contexts";
+import { describeCounterCondition } from "../../utils/releaseRequests";
+import { Button } from "@/components/ui";
+
+// Counter-Offer Response - the wearer's side of a countered release request:
+// accept or decline the offer, then wait for its condition
+export const CounterOfferResponse: React.FC<{
+  request: DBReleaseRequest;
+  className?: string;
+}> = ({ request, className = "" }) => {
+  const { respondToCounterOffer } = useCounterOfferMutations();
+  const { showSuccess, showError } = useToast();
+
+  const offer = request.counterOffer;
+  if (!offer) return null;
+
+  const handleRespond = async (accept: boolean) => {
+    try {
+      await respondToCounterOffer.mutateAsync({
+        requestId: request.id,
+        accept,
+      });
+      showSuccess(accept ? "Counter-offer accepted" : "Counter-offer declined");
+    } catch (error) {
+      showError(
+        error instanceof Error ? error.message : "Failed to answer offer",
+      );
+    }
+  };
+
+  return (
+    <div
+      className={`p-3 border border-yellow-500 bg-yellow-600/20 rounded-lg text-sm text-yellow-100 space-y-2 ${className}`}
+    >
+      <div className="flex items-center gap-2 font-semibold">
+        <FaExchangeAlt />
+        {request.status === "accepted"
+          ? "Release agreed on condition"
+          : "Your keyholder made a counter-offer"}
+      </div>
+      <p>{describeCounterCondition(offer.condition)}</p>
+      {offer.message && <p className="italic">"{offer.message}"</p>}
+      {request.status === "countered" && (
+        <div className="flex gap-2">
+          <Button
+            size="sm"
+            onClick={() => handleRespond(true)}
+            disabled={respondToCounterOffer.isPending}
+            leftIcon={<FaCheck />}
+          >
+            Accept
+          </Button>
+          <Button
+            size="sm"
+            variant="secondary"
+            onClick={() => handleRespond(false)}
+            disabled={respondToCounterOffer.isPending}
+            leftIcon={<FaTimes />}
+          >
+            Decline
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -2,10 +2,12 @@ import React from "react";
 
 interface GoalDisplayProps {
   remainingGoalTime: number;
+  isHidden?: boolean; // Hidden-timer sessions only show the time to the keyholder
 }
 
 export const GoalDisplay: React.FC<GoalDisplayProps> = ({
   remainingGoalTime,
+  isHidden = false,
 }) => {
   return (
     <div
@@ -14,7 +16,13 @@ export const GoalDisplay: React.FC<GoalDisplayProps> = ({
       <p className={`text-lg font-semibold text-blue-200`}>
         Time Remaining on Goal:
       </p>
-      <p className="text-3xl font-bold text-blue-100">{remainingGoalTime}</p>
+      {isHidden ? (
+        <p className="text-xl font-semibold text-blue-100">
+          Hidden by your keyholder
+        </p>
+      ) : (
+        <p className="text-3xl font-bold text-blue-100">{remainingGoalTime}</p>
+      )}
     </div>
   );
 };
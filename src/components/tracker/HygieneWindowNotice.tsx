@@ -0,0 +1,55 @@
+import React from "react";
+import { FaClock } from "../../utils/iconImport";
+import {
+  useHygieneWindowSync,
+  useOpenHygieneWindow,
+} from "../../hooks/api/useHygieneWindows";
+import { useTranslation } from "../../hooks/useTranslation";
+import { Button } from "@/components/ui";
+
+// Hygiene Window Notice - lets the wearer unlock for a scheduled window and
+// shows the relock time for hygiene windows and keyholder-granted pauses
+export const HygieneWindowNotice: React.FC<{ userId?: string }> = ({
+  userId,
+}) => {
+  const { data: status } = useHygieneWindowSync(userId);
+  const openWindow = useOpenHygieneWindow(userId);
+  const { formatTime } = useTranslation();
+
+  if (status?.canOpen && status.activeWindow) {
+    return (
+      <div className="mb-4 p-3 bg-blue-600/30 border border-blue-500 rounded-lg text-sm text-blue-200 flex flex-wrap items-center gap-2">
+        <FaClock />
+        <span className="flex-1">
+          Hygiene window open until {formatTime(status.activeWindow.end)}.
+        </span>
+        <Button
+          onClick={() => openWindow.mutate()}
+          disabled={openWindow.isPending}
+        >
+          {openWindow.isPending ? "Pausing..." : "Unlock for hygiene"}
+        </Button>
+      </div>
+    );
+  }
+
+  if (!status?.relockBy) return null;
+
+  const relockTime = formatTime(status.relockBy);
+
+  const label =
+    status.pauseKind === "granted" ? "Granted pause" : "Hygiene window";
+
+  return status.isOverdue ? (
+    <div className="mb-4 p-3 bg-red-600/30 border border-red-500 rounded-lg text-sm text-red-200 flex items-center gap-2">
+      <FaClock />
+      {label} ended at {relockTime}. Relock now — this has been logged as a rule
+      violation.
+    </div>
+  ) : (
+    <div className="mb-4 p-3 bg-blue-600/30 border border-blue-500 rounded-lg text-sm text-blue-200 flex items-center gap-2">
+      <FaClock />
+      {label} open. Relock and resume by {relockTime}.
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+import React from "react";
+import { useAccountLinking } from "../../hooks/account-linking/useAccountLinking";
+import { MessageThread } from "../messaging";
+import { FeatureErrorBoundary } from "../errors";
+
+// Keyholder Messages - the wearer's thread with their active keyholder
+export const KeyholderMessages: React.FC<{ userId?: string }> = ({
+  userId,
+}) => {
+  const { wearerRelationships } = useAccountLinking();
+  const relationship = wearerRelationships.find(
+    (candidate) => candidate.status === "active",
+  );
+
+  if (!userId || !relationship) return null;
+
+  return (
+    <FeatureErrorBoundary
+      feature="keyholder-messages"
+      fallback={
+        <div className="p-4 text-center text-yellow-600">
+          Messages temporarily unavailable
+        </div>
+      }
+    >
+      <div className="mx-4 mb-4">
+        <MessageThread
+          thread={{
+            relationshipId: relationship.id,
+            keyholderUserId: relationship.keyholderId,
+            submissiveUserId: relationship.wearerId,
+          }}
+          userId={userId}
+          title="Messages with your keyholder"
+        />
+      </div>
+    </FeatureErrorBoundary>
+  );
+};
@@ -0,0 +1,65 @@
+import React from "react";
+import { formatDistanceToNow } from "date-fns";
+import { FaExclamationTriangle, FaShieldAlt } from "../../utils/iconImport";
+import {
+  useSafetyRelease,
+  useSafetyReleaseStatus,
+} from "../../hooks/api/useSafetyRelease";
+import { useToast } from "../../contexts";
+import type { SafetyReleaseLevel } from "../../utils/keyholder/safetyRelease";
+import { Button } from "@/components/ui";
+
+const LEVEL_STYLES: Record<Exclude<SafetyReleaseLevel, "none">, string> = {
+  notice: "bg-blue-600/30 border-blue-500 text-blue-200",
+  warning: "bg-yellow-600/30 border-yellow-500 text-yellow-200",
+  final_warning: "bg-orange-600/30 border-orange-500 text-orange-200",
+  releasable: "bg-green-600/30 border-green-500 text-green-200",
+};
+
+// Safety Release Notice - escalating warnings while the keyholder is
+// unreachable, then a penalty-free way out
+export const SafetyReleaseNotice: React.FC<{
+  userId?: string;
+  keyholderLastSeen?: Date; // Keyholder last opened their controls, when known
+}> = ({ userId, keyholderLastSeen }) => {
+  const { data: check } = useSafetyReleaseStatus(userId, keyholderLastSeen);
+  const safetyRelease = useSafetyRelease();
+  const { showSuccess, showError } = useToast();
+
+  if (!userId || !check || check.status.level === "none") return null;
+  const { level, hoursSilent, releasableAt } = check.status;
+
+  const handleRelease = () =>
+    safetyRelease.mutate(
+      { userId, keyholderLastSeen },
+      {
+        onSuccess: () => showSuccess("Session ended by safety release"),
+        onError: () => showError("Safety release failed"),
+      },
+    );
+
+  return (
+    <div
+      className={`mb-4 p-3 border rounded-lg text-sm space-y-2 ${LEVEL_STYLES[level]}`}
+    >
+      <div className="flex items-center gap-2">
+        {level === "releasable" ? <FaShieldAlt /> : <FaExclamationTriangle />}
+        <span>
+          Your keyholder hasn't been active for {hoursSilent} hours.{" "}
+          {level === "releasable"
+            ? "You can end this session now without penalty."
+            : `Safety release becomes available ${formatDistanceToNow(releasableAt, { addSuffix: true })}.`}
+        </span>
+      </div>
+      {level === "releasable" && (
+        <Button
+          size="sm"
+          onClick={handleRelease}
+          disabled={safetyRelease.isPending}
+        >
+          End Session Safely
+        </Button>
+      )}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import {
   FaCalendarAlt,
 } from "../../utils/iconImport";
 import type { DBSession } from "../../types/database";
+import { useTranslation } from "../../hooks/useTranslation";
 import { Modal, Button } from "@/components/ui";
 
 interface SessionRecoveryModalProps {
@@ -37,41 +38,45 @@ const calculateEstimatedDuration = (session: DBSession): number => {
 const SessionInfoDisplay: React.FC<{
   session: DBSession;
   estimatedDuration: number;
-}> = ({ session, estimatedDuration }) => (
-  <div className="bg-gray-700/50 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6 space-y-2 sm:space-y-3">
-    <div className="flex items-center text-xs sm:text-sm text-gray-300">
-      <FaCalendarAlt className="text-blue-400 mr-2 flex-shrink-0" />
-      <span className="font-medium">Session Started:</span>
-      <span className="ml-2 truncate">
-        {new Date(session.startTime).toLocaleString()}
-      </span>
-    </div>
-
-    <div className="flex items-center text-xs sm:text-sm text-gray-300">
-      <FaClock className="text-green-400 mr-2 flex-shrink-0" />
-      <span className="font-medium">Estimated Duration:</span>
-      <span className="ml-2">{formatDuration(estimatedDuration)}</span>
-    </div>
+}> = ({ session, estimatedDuration }) => {
+  const { formatDateTime } = useTranslation();
 
-    {session.isPaused && (
-      <div className="flex items-center text-xs sm:text-sm text-yellow-300">
-        <FaExclamationTriangle className="text-yellow-400 mr-2 flex-shrink-0" />
-        <span className="font-medium">Status:</span>
-        <span className="ml-2">Session was paused</span>
+  return (
+    <div className="bg-gray-700/50 rounded-lg p-3 sm:p-4 mb-4 sm:mb-6 space-y-2 sm:space-y-3">
+      <div className="flex items-center text-xs sm:text-sm text-gray-300">
+        <FaCalendarAlt className="text-blue-400 mr-2 flex-shrink-0" />
+        <span className="font-medium">Session Started:</span>
+        <span className="ml-2 truncate">
+          {formatDateTime(new Date(session.startTime))}
+        </span>
       </div>
-    )}
 
-    {session.accumulatedPauseTime > 0 && (
       <div className="flex items-center text-xs sm:text-sm text-gray-300">
-        <FaClock className="text-orange-400 mr-2 flex-shrink-0" />
-        <span className="font-medium">Total Pause Time:</span>
-        <span className="ml-2">
-          {formatDuration(session.accumulatedPauseTime)}
-        </span>
+        <FaClock className="text-green-400 mr-2 flex-shrink-0" />
+        <span className="font-medium">Estimated Duration:</span>
+        <span className="ml-2">{formatDuration(estimatedDuration)}</span>
       </div>
-    )}
-  </div>
-);
+
+      {session.isPaused && (
+        <div className="flex items-center text-xs sm:text-sm text-yellow-300">
+          <FaExclamationTriangle className="text-yellow-400 mr-2 flex-shrink-0" />
+          <span className="font-medium">Status:</span>
+          <span className="ml-2">Session was paused</span>
+        </div>
+      )}
+
+      {session.accumulatedPauseTime > 0 && (
+        <div className="flex items-center text-xs sm:text-sm text-gray-300">
+          <FaClock className="text-orange-400 mr-2 flex-shrink-0" />
+          <span className="font-medium">Total Pause Time:</span>
+          <span className="ml-2">
+            {formatDuration(session.accumulatedPauseTime)}
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
 
 export const SessionRecoveryModal: React.FC<SessionRecoveryModalProps> = ({
   corruptedSession,
@@ -0,0 +1,84 @@
+import React from "react";
+import { FaClock } from "../../utils/iconImport";
+import { useSessionTimeAdjustments } from "../../hooks/api/useTimeAdjustments";
+import { useSessionTimer } from "../../hooks/useSessionTimer";
+import { useTranslation } from "../../hooks/useTranslation";
+import type { DBSession, DBTimeAdjustment } from "../../types/database";
+import {
+  TIME_ADJUSTMENT_SOURCE_LABELS,
+  formatAdjustment,
+} from "../../utils/formatting/timeAdjustments";
+
+const AdjustmentItem: React.FC<{
+  adjustment: DBTimeAdjustment;
+  formatDateTime: (date: Date) => string;
+}> = ({ adjustment, formatDateTime }) => (
+  <li
+    className={`flex items-start justify-between gap-3 text-sm ${
+      adjustment.reversedAt ? "opacity-50 line-through" : ""
+    }`}
+  >
+    <div className="min-w-0">
+      <span className="text-nightly-honeydew">{adjustment.reason}</span>
+      <div className="text-xs text-nightly-celadon/70">
+        {TIME_ADJUSTMENT_SOURCE_LABELS[adjustment.source]} ·{" "}
+        {formatDateTime(adjustment.createdAt)}
+        {adjustment.reversedAt && " · reversed"}
+      </div>
+    </div>
+    <span
+      className={`font-mono flex-shrink-0 ${
+        adjustment.seconds > 0 ? "text-red-300" : "text-green-300"
+      }`}
+    >
+      {formatAdjustment(adjustment.seconds)}
+    </span>
+  </li>
+);
+
+// Time Adjustment History Component - lock time changes for the session
+export const TimeAdjustmentHistory = React.memo<{
+  session: DBSession | null | undefined;
+}>(({ session }) => {
+  const { data } = useSessionTimeAdjustments(session?.id);
+  const adjustments = data?.adjustments ?? [];
+  const totalSeconds = data?.totalSeconds ?? 0;
+  const timer = useSessionTimer(session, { adjustmentSeconds: totalSeconds });
+  const { formatDateTime } = useTranslation();
+
+  if (!session || adjustments.length === 0) {
+    return null;
+  }
+
+  return (
+    <section
+      className="bg-white/10 backdrop-blur-sm rounded-lg p-4 mb-6"
+      aria-label="Lock time adjustments"
+    >
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <div className="flex items-center gap-2">
+          <FaClock className="text-nightly-aquamarine" />
+          <h3 className="font-semibold text-nightly-honeydew">
+            Lock Time Adjustments
+          </h3>
+        </div>
+        <div className="text-sm text-nightly-celadon">
+          Net {formatAdjustment(totalSeconds)}
+          {session.goalDuration && !timer.isRemainingTimeHidden ? (
+            <> · {timer.remainingGoalTimeFormatted} remaining</>
+          ) : null}
+        </div>
+      </div>
+      <ul className="space-y-2">
+        {[...adjustments].reverse().map((adjustment) => (
+          <AdjustmentItem
+            key={adjustment.id}
+            adjustment={adjustment}
+            formatDateTime={formatDateTime}
+          />
+        ))}
+      </ul>
+    </section>
+  );
+});
+TimeAdjustmentHistory.displayName = "TimeAdjustmentHistory";
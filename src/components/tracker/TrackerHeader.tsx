@@ -8,6 +8,7 @@ export interface TrackerHeaderProps {
   isCageOn: boolean;
   denialCooldownActive: boolean;
   pauseCooldownMessage: string | null;
+  isTimerHidden?: boolean; // Keyholder hid the remaining time from the wearer
 }
 
 export const TrackerHeader: React.FC<TrackerHeaderProps> = ({
@@ -18,6 +19,7 @@ export const TrackerHeader: React.FC<TrackerHeaderProps> = ({
   isCageOn,
   denialCooldownActive,
   pauseCooldownMessage,
+  isTimerHidden = false,
 }) => {
   return (
     <>
@@ -36,7 +38,11 @@ export const TrackerHeader: React.FC<TrackerHeaderProps> = ({
         <div
           className={`mb-3 md:mb-4 p-3 md:p-4 rounded-lg shadow-sm text-center border bg-white/10 backdrop-blur-xs border-white/20 tracker-state-transition tracker-card-hover`}
           role="region"
-          aria-label={`Goal timer: ${Math.floor(remainingGoalTime / 3600)} hours ${Math.floor((remainingGoalTime % 3600) / 60)} minutes remaining`}
+          aria-label={
+            isTimerHidden
+              ? "Goal timer hidden by your keyholder"
+              : `Goal timer: ${Math.floor(remainingGoalTime / 3600)} hours ${Math.floor((remainingGoalTime % 3600) / 60)} minutes remaining`
+          }
         >
           <p
             className={`text-base sm:text-lg md:text-xl font-semibold text-blue-200`}
@@ -44,16 +50,22 @@ export const TrackerHeader: React.FC<TrackerHeaderProps> = ({
           >
             Time Remaining on Goal:
           </p>
-          <p
-            className="text-2xl sm:text-3xl md:text-4xl font-bold text-blue-100 number-update mt-1"
-            role="timer"
-            aria-live="polite"
-            aria-atomic="true"
-            aria-labelledby="goal-timer-label"
-          >
-            {Math.floor(remainingGoalTime / 3600)}h{" "}
-            {Math.floor((remainingGoalTime % 3600) / 60)}m
-          </p>
+          {isTimerHidden ? (
+            <p className="text-lg sm:text-xl font-semibold text-blue-100 mt-1">
+              Hidden by your keyholder
+            </p>
+          ) : (
+            <p
+              className="text-2xl sm:text-3xl md:text-4xl font-bold text-blue-100 number-update mt-1"
+              role="timer"
+              aria-live="polite"
+              aria-atomic="true"
+              aria-labelledby="goal-timer-label"
+            >
+              {Math.floor(remainingGoalTime / 3600)}h{" "}
+              {Math.floor((remainingGoalTime % 3600) / 60)}m
+            </p>
+          )}
         </div>
       )}
 
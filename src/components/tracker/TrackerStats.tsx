@@ -2,13 +2,14 @@ import React from "react";
 import type { DBSession, DBGoal } from "../../types/database";
 import { useTrackerStats } from "../../hooks/tracker/useTrackerStats";
 import { CageOnStats, CageOffStats } from "./stats";
-import { FaBullseye, FaLock } from "../../utils/iconImport";
+import { FaBullseye, FaLock, FaEyeSlash } from "../../utils/iconImport";
 import { Card } from "@/components/ui";
 
 export interface TrackerStatsProps {
   // New props for real-time timer
   currentSession?: DBSession | null;
   personalGoal?: DBGoal | null; // Personal goal for display
+  adjustmentSeconds?: number; // Net time from the adjustment ledger
   // Legacy props for backward compatibility
   topBoxLabel?: string;
   topBoxTime?: string;
@@ -22,14 +23,31 @@ export interface TrackerStatsProps {
   totalTimeCageOff?: number;
 }
 
+// Progress and remaining seconds of the personal goal, preferring the
+// session's goal, which includes time adjustments
+const getGoalProgress = (
+  goal: DBGoal,
+  sessionGoal: ReturnType<typeof useTrackerStats>["sessionGoal"],
+) =>
+  sessionGoal ?? {
+    progress: goal.progress || 0,
+    remaining: goal.targetValue - goal.currentValue,
+  };
+
 // Sub-component for personal goal display
 // Memoized to prevent unnecessary re-renders
-const PersonalGoalDisplay = React.memo<{ goal: DBGoal }>(({ goal }) => {
-  const progressPercent = goal.progress || 0;
+const PersonalGoalDisplay = React.memo<{
+  goal: DBGoal;
+  isTimerHidden: boolean;
+  sessionGoal: ReturnType<typeof useTrackerStats>["sessionGoal"];
+}>(({ goal, isTimerHidden, sessionGoal }) => {
+  const { progress: progressPercent, remaining } = getGoalProgress(
+    goal,
+    sessionGoal,
+  );
   const isHardcoreMode = goal.isHardcoreMode || false;
 
   // Format remaining time
-  const remaining = goal.targetValue - goal.currentValue;
   const days = Math.floor(remaining / 86400);
   const hours = Math.floor((remaining % 86400) / 3600);
   const minutes = Math.floor((remaining % 3600) / 60);
@@ -45,7 +63,7 @@ const PersonalGoalDisplay = React.memo<{ goal: DBGoal }>(({ goal }) => {
     <Card
       variant="glass"
       className={isHardcoreMode ? "border-2 border-red-500/50" : ""}
-      aria-label={`Personal goal: ${goal.title}, ${progressPercent.toFixed(1)} percent complete${isHardcoreMode ? ", hardcore mode enabled" : ""}`}
+      aria-label={`Personal goal: ${goal.title}${isTimerHidden ? "" : `, ${progressPercent.toFixed(1)} percent complete`}${isHardcoreMode ? ", hardcore mode enabled" : ""}`}
     >
       <div className="flex flex-col sm:flex-row items-start sm:items-center justify-between gap-2 mb-3">
         <div className="flex items-center gap-2">
@@ -83,42 +101,56 @@ const PersonalGoalDisplay = React.memo<{ goal: DBGoal }>(({ goal }) => {
         </p>
       )}
 
-      {/* Progress bar */}
-      <div
-        className="mb-2"
-        role="progressbar"
-        aria-valuenow={progressPercent}
-        aria-valuemin={0}
-        aria-valuemax={100}
-        aria-labelledby={`goal-title-${goal.id || "current"}`}
-      >
-        <div className="w-full bg-gray-700 rounded-full h-2 overflow-hidden">
-          <div
-            className={`h-2 rounded-full transition-all duration-500 progress-fill-animated ${
-              isHardcoreMode
-                ? "bg-gradient-to-r from-red-500 to-red-600"
-                : "bg-gradient-to-r from-nightly-aquamarine to-nightly-spring-green"
-            }`}
-            style={{ width: `${Math.min(progressPercent, 100)}%` }}
-          />
-        </div>
-      </div>
-
-      <div className="flex flex-col sm:flex-row sm:justify-between gap-1 sm:gap-0 text-xs sm:text-sm">
-        <span
-          className="text-nightly-celadon"
-          aria-label={`Progress: ${progressPercent.toFixed(1)} percent`}
-        >
-          Progress: {progressPercent.toFixed(1)}%
-        </span>
-        <span
-          className="text-nightly-honeydew font-semibold"
+      {isTimerHidden ? (
+        <div
+          className="flex items-center gap-2 text-xs sm:text-sm text-nightly-celadon"
           role="status"
-          aria-live="polite"
         >
-          {remaining > 0 ? `${remainingFormatted} remaining` : "Goal Complete!"}
-        </span>
-      </div>
+          <FaEyeSlash aria-hidden="true" />
+          <span>Remaining time is hidden by your keyholder</span>
+        </div>
+      ) : (
+        <>
+          {/* Progress bar */}
+          <div
+            className="mb-2"
+            role="progressbar"
+            aria-valuenow={progressPercent}
+            aria-valuemin={0}
+            aria-valuemax={100}
+            aria-labelledby={`goal-title-${goal.id || "current"}`}
+          >
+            <div className="w-full bg-gray-700 rounded-full h-2 overflow-hidden">
+              <div
+                className={`h-2 rounded-full transition-all duration-500 progress-fill-animated ${
+                  isHardcoreMode
+                    ? "bg-gradient-to-r from-red-500 to-red-600"
+                    : "bg-gradient-to-r from-nightly-aquamarine to-nightly-spring-green"
+                }`}
+                style={{ width: `${Math.min(progressPercent, 100)}%` }}
+              />
+            </div>
+          </div>
+
+          <div className="flex flex-col sm:flex-row sm:justify-between gap-1 sm:gap-0 text-xs sm:text-sm">
+            <span
+              className="text-nightly-celadon"
+              aria-label={`Progress: ${progressPercent.toFixed(1)} percent`}
+            >
+              Progress: {progressPercent.toFixed(1)}%
+            </span>
+            <span
+              className="text-nightly-honeydew font-semibold"
+              role="status"
+              aria-live="polite"
+            >
+              {remaining > 0
+                ? `${remainingFormatted} remaining`
+                : "Goal Complete!"}
+            </span>
+          </div>
+        </>
+      )}
     </Card>
   );
 });
@@ -184,7 +216,8 @@ const TotalStats = React.memo<{
 TotalStats.displayName = "TotalStats";
 
 export const TrackerStats = React.memo<TrackerStatsProps>((props) => {
-  const { displayData, stats } = useTrackerStats(props);
+  const { displayData, stats, isTimerHidden, sessionGoal } =
+    useTrackerStats(props);
   const { personalGoal } = props;
 
   return (
@@ -218,7 +251,11 @@ export const TrackerStats = React.memo<TrackerStatsProps>((props) => {
       {/* Personal Goal Display */}
       {personalGoal && (
         <div className="tracker-state-transition">
-          <PersonalGoalDisplay goal={personalGoal} />
+          <PersonalGoalDisplay
+            goal={personalGoal}
+            isTimerHidden={isTimerHidden}
+            sessionGoal={sessionGoal}
+          />
         </div>
       )}
 
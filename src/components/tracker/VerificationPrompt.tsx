@@ -0,0 +1,84 @@
+import React, { useState } from "react";
+import { FaCamera } from "../../utils/iconImport";
+import {
+  useVerificationMutations,
+  useVerificationSync,
+} from "../../hooks/api/useVerifications";
+import { useTranslation } from "../../hooks/useTranslation";
+import { useToast } from "../../contexts";
+import { Button } from "@/components/ui";
+
+// Verification Prompt - shows the wearer's open proof-of-lock request
+export const VerificationPrompt: React.FC<{ userId?: string }> = ({
+  userId,
+}) => {
+  const { data: verification } = useVerificationSync(userId);
+  const { submitPhoto, storageMode } = useVerificationMutations();
+  const { showSuccess, showError } = useToast();
+  const { formatTime } = useTranslation();
+  const [file, setFile] = useState<File | null>(null);
+
+  if (!verification) return null;
+
+  if (verification.status === "submitted") {
+    return (
+      <div className="mb-4 p-3 bg-white/10 border border-white/20 rounded-lg text-sm text-nightly-celadon flex items-center gap-2">
+        <FaCamera />
+        Verification photo sent. Waiting for your keyholder to review it.
+      </div>
+    );
+  }
+
+  const handleSubmit = () => {
+    if (!file) return;
+    submitPhoto.mutate(
+      { verificationId: verification.id, file },
+      {
+        onSuccess: () => {
+          setFile(null);
+          showSuccess("Verification photo submitted");
+        },
+        onError: (error) =>
+          showError(
+            error instanceof Error ? error.message : "Failed to submit photo",
+          ),
+      },
+    );
+  };
+
+  return (
+    <div className="mb-4 p-4 bg-nightly-lavender-floral/20 border border-nightly-lavender-floral rounded-lg space-y-3">
+      <div className="flex items-center gap-2 text-nightly-honeydew font-semibold">
+        <FaCamera />
+        Verification requested
+      </div>
+      <p className="text-sm text-nightly-celadon">
+        Photograph your locked device with this code clearly visible before{" "}
+        {formatTime(verification.dueAt)}:
+      </p>
+      <p className="text-3xl font-mono font-bold tracking-widest text-center text-nightly-honeydew">
+        {verification.code}
+      </p>
+      <input
+        type="file"
+        accept="image/jpeg,image/jpg,image/png,image/heic,image/heif,image/webp"
+        capture="environment"
+        onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+        className="block w-full text-sm text-nightly-celadon"
+        aria-label="Verification photo"
+      />
+      {storageMode === "local" && (
+        <p className="text-xs text-nightly-celadon/70">
+          Photo uploads are not configured; the photo is stored on this device.
+        </p>
+      )}
+      <Button
+        onClick={handleSubmit}
+        disabled={!file || submitPhoto.isPending}
+        className="w-full"
+      >
+        {submitPhoto.isPending ? "Submitting..." : "Submit Photo"}
+      </Button>
+    </div>
+  );
+};
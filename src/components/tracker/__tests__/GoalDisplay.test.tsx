@@ -34,6 +34,13 @@ describe("GoalDisplay", () => {
 
       expect(screen.getByText("-100")).toBeInTheDocument();
     });
+
+    it("should hide the time when the timer is hidden", () => {
+      render(<GoalDisplay remainingGoalTime={3600} isHidden />);
+
+      expect(screen.queryByText("Hidden by your keyholder")).not.toBeNull();
+      expect(screen.queryByText("3600")).toBeNull();
+    });
   });
 
   describe("Styling", () => {
@@ -96,6 +96,23 @@ describe("TrackerHeader", () => {
       expect(screen.getByText(/1h 30m/)).toBeInTheDocument();
     });
 
+    it("should hide the goal time when the keyholder hid the timer", () => {
+      render(
+        <TrackerHeader
+          {...defaultProps}
+          isCageOn={true}
+          remainingGoalTime={7200}
+          isTimerHidden={true}
+        />,
+      );
+
+      expect(screen.queryByText("Hidden by your keyholder")).not.toBeNull();
+      expect(screen.queryByText(/2h 0m/)).toBeNull();
+      expect(
+        screen.queryByLabelText("Goal timer hidden by your keyholder"),
+      ).not.toBeNull();
+    });
+
     it("should not display goal time when cage is off", () => {
       render(
         <TrackerHeader
@@ -5,9 +5,12 @@
 import React from "react";
 import { useTrackerContext } from "./TrackerContext";
 import { PauseCooldownMessage } from "../PauseCooldownMessage";
+import { useSessionTimer } from "@/hooks/useSessionTimer";
 
 export const TrackerHeader: React.FC = () => {
-  const { isActive, personalGoal, cooldownRemaining } = useTrackerContext();
+  const { session, isActive, personalGoal, cooldownRemaining } =
+    useTrackerContext();
+  const { isRemainingTimeHidden: isTimerHidden } = useSessionTimer(session);
 
   // Calculate remaining goal time from personal goal
   const remainingGoalTime = personalGoal
@@ -32,10 +35,16 @@ export const TrackerHeader: React.FC = () => {
           <p className="text-lg font-semibold text-blue-200">
             Time Remaining on Goal:
           </p>
-          <p className="text-3xl font-bold text-blue-100">
-            {Math.floor(remainingGoalTime / 3600)}h{" "}
-            {Math.floor((remainingGoalTime % 3600) / 60)}m
-          </p>
+          {isTimerHidden ? (
+            <p className="text-xl font-semibold text-blue-100">
+              Hidden by your keyholder
+            </p>
+          ) : (
+            <p className="text-3xl font-bold text-blue-100">
+              {Math.floor(remainingGoalTime / 3600)}h{" "}
+              {Math.floor((remainingGoalTime % 3600) / 60)}m
+            </p>
+          )}
         </div>
       )}
     </div>
@@ -85,6 +85,7 @@ export const SAMPLE_CHALLENGES: Challenge[] = [
       {
         id: "req-1",
         type: "duration",
+        metric: "streak_days",
         description: "Complete 7 consecutive days",
         targetValue: 7,
         currentValue: 0,
@@ -118,4 +119,89 @@ export const SAMPLE_CHALLENGES: Challenge[] = [
     participants: 247,
     isPublic: true,
   },
+  {
+    id: "challenge-locked-100h",
+    type: ChallengeType.DURATION,
+    name: "Long Haul",
+    description: "Spend 100 hours locked within two weeks",
+    difficulty: ChallengeDifficulty.INTERMEDIATE,
+    requirements: [
+      {
+        id: "req-1",
+        type: "duration",
+        metric: "session_hours",
+        description: "Spend 100 hours locked",
+        targetValue: 100,
+        currentValue: 0,
+        completed: false,
+      },
+    ],
+    rewards: [
+      {
+        type: "experience",
+        value: 750,
+        description: "750 XP",
+        claimed: false,
+      },
+    ],
+    startDate: new Date(),
+    endDate: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+    progress: {
+      percentage: 0,
+      requirementsCompleted: 0,
+      totalRequirements: 1,
+      lastUpdated: new Date(),
+      milestones: [],
+    },
+    isCompleted: false,
+    participants: 112,
+    isPublic: true,
+  },
+  {
+    id: "challenge-tasks-5",
+    type: ChallengeType.FREQUENCY,
+    name: "Eager to Please",
+    description: "Complete 5 tasks and log 5 events within a week",
+    difficulty: ChallengeDifficulty.BEGINNER,
+    requirements: [
+      {
+        id: "req-1",
+        type: "behavior",
+        metric: "tasks_completed",
+        description: "Complete 5 tasks",
+        targetValue: 5,
+        currentValue: 0,
+        completed: false,
+      },
+      {
+        id: "req-2",
+        type: "count",
+        metric: "events_logged",
+        description: "Log 5 events",
+        targetValue: 5,
+        currentValue: 0,
+        completed: false,
+      },
+    ],
+    rewards: [
+      {
+        type: "experience",
+        value: 300,
+        description: "300 XP",
+        claimed: false,
+      },
+    ],
+    startDate: new Date(),
+    endDate: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000),
+    progress: {
+      percentage: 0,
+      requirementsCompleted: 0,
+      totalRequirements: 2,
+      lastUpdated: new Date(),
+      milestones: [],
+    },
+    isCompleted: false,
+    participants: 389,
+    isPublic: true,
+  },
 ];
@@ -0,0 +1,142 @@
+/**
+ * Season Definitions
+ * The yearly season calendar and each season's reward track
+ */
+
+import { SeasonChallengeType, SeasonDefinition } from "../types/gamification";
+import { CHALLENGE_ACHIEVEMENTS } from "./challengeAchievements";
+
+type TrackReward = SeasonDefinition["rewards"][number];
+
+// Season XP needed for each tier of a standard track
+const TRACK_TIERS: {
+  experience: number;
+  type: TrackReward["type"];
+  suffix: string;
+}[] = [
+  { experience: 250, type: "badge", suffix: "Participant" },
+  { experience: 1000, type: "title", suffix: "Devotee" },
+  { experience: 2500, type: "avatar", suffix: "Frame" },
+  { experience: 5000, type: "theme", suffix: "Theme" },
+];
+
+/**
+ * Standard XP reward track for a season
+ */
+const experienceTrack = (seasonId: string, name: string): TrackReward[] =>
+  TRACK_TIERS.map(({ experience, type, suffix }, index) => ({
+    id: `${seasonId}-tier-${index + 1}`,
+    name: `${name} ${suffix}`,
+    description: `Earn ${experience} XP during ${name}`,
+    type,
+    requirement: {
+      type: "points",
+      value: experience,
+      description: `${experience} season XP`,
+    },
+    exclusive: true,
+    tier: index + 1,
+  }));
+
+/**
+ * Capstone reward for completing special challenge goals, taken from the
+ * challenge achievement it stands for
+ */
+const challengeReward = (
+  achievement: (typeof CHALLENGE_ACHIEVEMENTS)[keyof typeof CHALLENGE_ACHIEVEMENTS],
+  challengeTypes: SeasonChallengeType[],
+  tier: number,
+): TrackReward => ({
+  id: achievement.id,
+  name: achievement.name,
+  description: achievement.description,
+  type: "badge",
+  requirement: {
+    type: "challenge_goal",
+    value: challengeTypes.length,
+    description: achievement.description,
+    challengeTypes,
+  },
+  exclusive: true,
+  tier,
+});
+
+export const SEASON_DEFINITIONS: SeasonDefinition[] = [
+  {
+    id: "winter",
+    name: "Winter Lockdown",
+    description: "Stay locked through the coldest months",
+    theme: "winter",
+    start: { month: 12, day: 1 },
+    end: { month: 2, day: 29 },
+    challenges: ["challenge-locked-100h"],
+    rewards: experienceTrack("winter", "Winter Lockdown"),
+  },
+  {
+    id: "spring",
+    name: "Spring Discipline",
+    description: "Build fresh habits as the days grow longer",
+    theme: "spring",
+    start: { month: 3, day: 1 },
+    end: { month: 5, day: 31 },
+    challenges: ["challenge-tasks-5"],
+    rewards: experienceTrack("spring", "Spring Discipline"),
+  },
+  {
+    id: "summer",
+    name: "Summer Heat",
+    description: "Keep your focus through the long, hot days",
+    theme: "summer",
+    start: { month: 6, day: 1 },
+    end: { month: 8, day: 31 },
+    challenges: ["challenge-streak-7", "challenge-locked-100h"],
+    rewards: experienceTrack("summer", "Summer Heat"),
+  },
+  {
+    id: "harvest",
+    name: "Harvest",
+    description: "Reap what you sowed over the summer",
+    theme: "autumn",
+    start: { month: 9, day: 1 },
+    end: { month: 9, day: 30 },
+    challenges: ["challenge-tasks-5"],
+    rewards: experienceTrack("harvest", "Harvest"),
+  },
+  {
+    id: "locktober",
+    name: "Locktober",
+    description: "Spend the whole of October locked",
+    theme: "locktober",
+    start: { month: 10, day: 1 },
+    end: { month: 10, day: 31 },
+    challengeType: "locktober",
+    challenges: ["challenge-streak-7", "challenge-locked-100h"],
+    rewards: [
+      ...experienceTrack("locktober", "Locktober"),
+      challengeReward(CHALLENGE_ACHIEVEMENTS.locktober, ["locktober"], 5),
+    ],
+  },
+  {
+    id: "no-nut-november",
+    name: "No Nut November",
+    description: "A month of abstinence",
+    theme: "november",
+    start: { month: 11, day: 1 },
+    end: { month: 11, day: 30 },
+    challengeType: "no_nut_november",
+    challenges: ["challenge-streak-7"],
+    rewards: [
+      ...experienceTrack("no-nut-november", "No Nut November"),
+      challengeReward(
+        CHALLENGE_ACHIEVEMENTS.noNutNovember,
+        ["no_nut_november"],
+        5,
+      ),
+      challengeReward(
+        CHALLENGE_ACHIEVEMENTS.doubleChallenge,
+        ["locktober", "no_nut_november"],
+        6,
+      ),
+    ],
+  },
+];
@@ -19,3 +19,10 @@ export {
 export { useAdminRelationshipsQuery } from "./useAccountLinkingQueries";
 
 export { useAccountLinkingState } from "./useAccountLinkingState";
+
+export { useKeyholderActing } from "./useKeyholderActing";
+
+export {
+  useKeyholderLastSeen,
+  useRecordKeyholderAccess,
+} from "./useKeyholderActivity";
@@ -0,0 +1,26 @@
+/**
+ * Keyholder Acting Context Hook
+ * The context a keyholder's writes to the selected wearer's data are
+ * checked against
+ */
+import { useMemo } from "react";
+import type { AdminRelationship } from "../../types/account-linking";
+import type { RelationshipActingContext } from "../../types/relationships";
+import { buildKeyholderActingContext } from "../../utils/security/relationshipPermissions";
+
+/**
+ * Acting context for the keyholder writing through the selected relationship,
+ * or undefined when no relationship is selected
+ */
+export function useKeyholderActing(
+  relationship: AdminRelationship | null | undefined,
+  keyholderUserId: string | undefined,
+): RelationshipActingContext | undefined {
+  return useMemo(
+    () =>
+      relationship && keyholderUserId
+        ? buildKeyholderActingContext(relationship, keyholderUserId)
+        : undefined,
+    [relationship, keyholderUserId],
+  );
+}
@@ -0,0 +1,46 @@
+/**
+ * Keyholder Activity Hooks
+ * Record when a keyholder opens their controls and read it back on the
+ * wearer's side as the keyholder's last sign of life
+ */
+import { useEffect, useMemo } from "react";
+import { AccountLinkingService } from "../../services/auth/account-linking";
+import type { AdminRelationship } from "../../types/account-linking";
+import { getLatestActivity } from "../../utils/keyholder/safetyRelease";
+import { useAdminRelationshipsQuery } from "./useAccountLinkingQueries";
+
+/**
+ * Mark the keyholder active on the relationship whenever its controls are
+ * unlocked
+ */
+export function useRecordKeyholderAccess(
+  relationship: AdminRelationship | null | undefined,
+  isUnlocked: boolean,
+) {
+  const relationshipId = relationship?.id;
+
+  useEffect(() => {
+    if (relationshipId && isUnlocked) {
+      AccountLinkingService.recordAdminAccess(relationshipId);
+    }
+  }, [relationshipId, isUnlocked]);
+}
+
+/**
+ * When any of the wearer's keyholders last opened their controls, if known
+ */
+export function useKeyholderLastSeen(
+  wearerId: string | undefined,
+): Date | undefined {
+  const { data: relationships } = useAdminRelationshipsQuery(wearerId);
+
+  return useMemo(
+    () =>
+      getLatestActivity(
+        (relationships ?? [])
+          .filter((rel) => rel.wearerId === wearerId)
+          .map((rel) => rel.lastAdminAccess?.toDate()),
+      ),
+    [relationships, wearerId],
+  );
+}
@@ -18,7 +18,9 @@ import {
   useEndRelationship,
 } from "../useKeyholderRelationshipQueries";
 import { KeyholderRelationshipService } from "@/services/KeyholderRelationshipService";
+import { AuditLogService } from "@/services/AuditLogService";
 import type { KeyholderRelationship, KeyholderPermissions } from "@/types/core";
+import { AuditAction } from "@/types/security";
 import React from "react";
 
 // Mock the service
@@ -37,6 +39,10 @@ vi.mock("@/services/KeyholderRelationshipService", () => ({
   },
 }));
 
+vi.mock("@/services/AuditLogService", () => ({
+  AuditLogService: { record: vi.fn(async () => null) },
+}));
+
 const createWrapper = () => {
   const queryClient = new QueryClient({
     defaultOptions: {
@@ -374,6 +380,12 @@ describe("useKeyholderRelationshipQueries", () => {
       (KeyholderRelationshipService.updatePermissions as any).mockResolvedValue(
         undefined,
       );
+      (
+        KeyholderRelationshipService.getUserRelationships as any
+      ).mockResolvedValue({
+        asSubmissive: [mockRelationship],
+        asKeyholder: [],
+      });
 
       const { result } = renderHook(() => useUpdatePermissions(), {
         wrapper: createWrapper(),
@@ -392,6 +404,53 @@ describe("useKeyholderRelationshipQueries", () => {
         KeyholderRelationshipService.updatePermissions,
       ).toHaveBeenCalledWith(mockRelationshipId, mockPermissions, mockUserId);
     });
+
+    it("should audit what was granted and what was revoked", async () => {
+      (KeyholderRelationshipService.updatePermissions as any).mockResolvedValue(
+        undefined,
+      );
+      (
+        KeyholderRelationshipService.getUserRelationships as any
+      ).mockResolvedValue({
+        asSubmissive: [mockRelationship],
+        asKeyholder: [],
+      });
+
+      const { result } = renderHook(() => useUpdatePermissions(), {
+        wrapper: createWrapper(),
+      });
+
+      await act(async () => {
+        await result.current.mutateAsync({
+          relationshipId: mockRelationshipId,
+          permissions: {
+            ...mockRelationship.permissions,
+            canLockSessions: false,
+            canUnlockSessions: true,
+          },
+          userId: mockUserId,
+        });
+      });
+
+      expect(AuditLogService.record).toHaveBeenCalledTimes(2);
+      expect(AuditLogService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.PERMISSION_GRANT,
+          details: expect.objectContaining({
+            oldValue: { canUnlockSessions: false },
+            newValue: { canUnlockSessions: true },
+          }),
+        }),
+      );
+      expect(AuditLogService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          action: AuditAction.PERMISSION_REVOKE,
+          details: expect.objectContaining({
+            newValue: { canLockSessions: false },
+          }),
+        }),
+      );
+    });
   });
 
   describe("useEndRelationship", () => {
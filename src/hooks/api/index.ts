@@ -4,6 +4,7 @@ export {
   useSessionHistory,
   useSessionMutations,
 } from "./useSessionQuery";
+export type { TimerVisibilitySettings } from "./useSessionQuery";
 export {
   useTasksQuery,
   usePendingTasksQuery,
@@ -38,6 +39,39 @@ export {
   useActiveRulesQuery,
   useRuleMutations,
 } from "./useRuleQueries";
+export {
+  useRuleViolationsQuery,
+  useRuleEvaluation,
+  useRuleViolationMutations,
+} from "./useRuleViolations";
+export {
+  useHygieneWindowSync,
+  useOpenHygieneWindow,
+} from "./useHygieneWindows";
+export {
+  useSessionVerifications,
+  useVerificationSync,
+  useVerificationMutations,
+} from "./useVerifications";
+export { useUnlockScheduleMutations } from "./useUnlockSchedule";
+export { useSafetyReleaseStatus, useSafetyRelease } from "./useSafetyRelease";
+export {
+  useReportSchedules,
+  useWearerSummarySchedule,
+  useScheduledReportRunner,
+  useWearerSummaryMutation,
+} from "./useReportSchedules";
+export {
+  useMessageThread,
+  useUnreadMessages,
+  useMessageSync,
+  useMessageMutations,
+} from "./useMessages";
+export {
+  useSessionTimeAdjustments,
+  useUserTimeAdjustments,
+  useTimeAdjustmentMutations,
+} from "./useTimeAdjustments";
 export {
   usePersonalGoalQuery,
   useKeyholderRequiredDurationQuery,
@@ -1,6 +1,8 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { emergencyService } from "../../services/database/EmergencyService";
+import { AuditLogService } from "../../services/AuditLogService";
 import type { EmergencyUnlockReason } from "../../types/events";
+import { AuditAction, AuditOutcome, AuditSeverity } from "../../types/security";
 import { logger } from "../../utils/logging";
 
 /**
@@ -47,6 +49,27 @@ export function useEmergencyUnlock() {
       try {
         const result = await emergencyService.performEmergencyUnlock(params);
 
+        await AuditLogService.record({
+          userId: params.userId,
+          action: AuditAction.EMERGENCY_UNLOCK,
+          severity: AuditSeverity.HIGH,
+          outcome: result.success ? AuditOutcome.SUCCESS : AuditOutcome.FAILURE,
+          context: {
+            sessionId: params.sessionId,
+            resourceType: "session",
+            resourceId: params.sessionId,
+          },
+          details: {
+            description: result.success
+              ? "Emergency unlock"
+              : `Emergency unlock failed: ${result.message}`,
+            metadata: {
+              reason: params.reason,
+              additionalNotes: params.additionalNotes,
+            },
+          },
+        });
+
         if (result.success) {
           logger.info("Emergency unlock successful", {
             sessionId: params.sessionId,
@@ -0,0 +1,63 @@
+/**
+ * Hygiene Window TanStack Query Hooks
+ * Keeps scheduled hygiene windows in step with the active session
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { HygieneWindowService } from "@/services/HygieneWindowService";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useHygieneWindows");
+
+/**
+ * Periodically check for an open hygiene window and a missed relock.
+ * Flagging a missed relock updates the session, so session queries are
+ * refreshed.
+ */
+export function useHygieneWindowSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["hygieneWindows", "sync", userId],
+    queryFn: async () => {
+      if (!userId) return null;
+
+      const status = await HygieneWindowService.sync(userId);
+      if (status.changed) {
+        logger.debug("Session updated by hygiene window", { userId, status });
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ["session"] }),
+          queryClient.invalidateQueries({ queryKey: ["events"] }),
+        ]);
+      }
+      return status;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Windows open on the minute
+  });
+}
+
+/**
+ * Pause the session for the open window once the wearer confirms they are
+ * unlocking for it
+ */
+export function useOpenHygieneWindow(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async () => {
+      if (!userId) throw new Error("Not signed in");
+      return HygieneWindowService.openWindow(userId);
+    },
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["hygieneWindows"] }),
+        queryClient.invalidateQueries({ queryKey: ["session"] }),
+        queryClient.invalidateQueries({ queryKey: ["events"] }),
+      ]);
+    },
+    onError: (error) => {
+      logger.error("Failed to open hygiene window", { error });
+    },
+  });
+}
@@ -4,13 +4,21 @@
  */
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { KeyholderRelationshipService } from "@/services/KeyholderRelationshipService";
+import { AuditLogService } from "@/services/AuditLogService";
 import { queryKeys } from "@/services/queryKeys";
 import { cacheConfig } from "@/services/cache-config";
 import { serviceLogger } from "@/utils/logging";
 import { KeyholderPermissions } from "@/types/core";
+import { AuditAction } from "@/types/security";
+import { diffPermissions } from "@/utils/security/audit-utils";
 
 const logger = serviceLogger("useKeyholderRelationshipQueries");
 
+const pickPermissions = (
+  permissions: Partial<KeyholderPermissions>,
+  keys: (keyof KeyholderPermissions)[],
+) => Object.fromEntries(keys.map((key) => [key, permissions[key]]));
+
 /**
  * Query for fetching user relationships (as keyholder and submissive)
  */
@@ -174,7 +182,7 @@ export function useUpdatePermissions() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: ({
+    mutationFn: async ({
       relationshipId,
       permissions,
       userId,
@@ -182,12 +190,50 @@ export function useUpdatePermissions() {
       relationshipId: string;
       permissions: Partial<KeyholderPermissions>; // Use Partial for type safety
       userId: string;
-    }) =>
-      KeyholderRelationshipService.updatePermissions(
+    }) => {
+      const { asSubmissive } =
+        await KeyholderRelationshipService.getUserRelationships(userId);
+      const before = asSubmissive.find(
+        (relationship) => relationship.id === relationshipId,
+      )?.permissions;
+
+      await KeyholderRelationshipService.updatePermissions(
         relationshipId,
         permissions as KeyholderPermissions, // Cast to KeyholderPermissions
         userId,
-      ),
+      );
+
+      // One entry for what was switched on and one for what was switched off
+      const { granted, revoked } = diffPermissions(before, permissions);
+      const changes = [
+        {
+          action: AuditAction.PERMISSION_GRANT,
+          keys: granted,
+          verb: "granted",
+        },
+        {
+          action: AuditAction.PERMISSION_REVOKE,
+          keys: revoked,
+          verb: "revoked",
+        },
+      ].filter(({ keys }) => keys.length > 0);
+      for (const { action, keys, verb } of changes) {
+        await AuditLogService.record({
+          userId,
+          action,
+          context: {
+            relationshipId,
+            resourceType: "relationship",
+            resourceId: relationshipId,
+          },
+          details: {
+            description: `Keyholder permissions ${verb}: ${keys.join(", ")}`,
+            oldValue: before && pickPermissions(before, keys),
+            newValue: pickPermissions(permissions, keys),
+          },
+        });
+      }
+    },
     onSuccess: async (_, variables) => {
       // Invalidate relationships and permissions queries
       await queryClient.invalidateQueries({
@@ -0,0 +1,109 @@
+/**
+ * Message TanStack Query Hooks
+ * Relationship message threads for keyholders and submissives
+ */
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { messageDBService } from "@/services/database/MessageDBService";
+import {
+  MessageService,
+  type SendMessageParams,
+} from "@/services/MessageService";
+import { messageDataSync } from "@/services/sync/MessageDataSync";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useMessages");
+
+/**
+ * Query for a relationship's thread, oldest first
+ */
+export function useMessageThread(relationshipId: string | undefined) {
+  return useQuery({
+    queryKey: ["messages", "thread", relationshipId],
+    queryFn: async () => {
+      if (!relationshipId) return [];
+      return messageDBService.getThread(relationshipId);
+    },
+    enabled: !!relationshipId,
+    staleTime: 1000 * 10, // 10 seconds
+  });
+}
+
+/**
+ * Query for messages the user has received but not read
+ */
+export function useUnreadMessages(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["messages", "unread", userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      return messageDBService.getUnreadForUser(userId);
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Periodically pull new messages and read receipts for the user's threads
+ */
+export function useMessageSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["messages", "sync", userId],
+    queryFn: async () => {
+      if (!userId) return null;
+
+      try {
+        const result = await messageDataSync.syncCollection(userId);
+        if (result.operations.downloaded > 0) {
+          await queryClient.invalidateQueries({
+            queryKey: ["messages"],
+            predicate: (query) => query.queryKey[1] !== "sync",
+          });
+        }
+        return result.timestamp;
+      } catch (error) {
+        // Offline, signed out or a sync already running; retry next interval
+        logger.debug("Message sync skipped", { error: error as Error });
+        return null;
+      }
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Re-check every minute
+  });
+}
+
+/**
+ * Mutations for sending messages and marking threads read
+ */
+export function useMessageMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["messages"] });
+  };
+
+  const sendMessage = useMutation({
+    mutationFn: (params: SendMessageParams) =>
+      MessageService.sendMessage(params),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to send message", { error });
+    },
+  });
+
+  const markThreadRead = useMutation({
+    mutationFn: (params: { relationshipId: string; readerId: string }) =>
+      MessageService.markThreadRead(params.relationshipId, params.readerId),
+    onSuccess: async (count) => {
+      if (count > 0) await invalidate();
+    },
+    onError: (error) => {
+      logger.error("Failed to mark thread read", { error });
+    },
+  });
+
+  return { sendMessage, markThreadRead };
+}
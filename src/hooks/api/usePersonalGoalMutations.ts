@@ -4,7 +4,10 @@
  */
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { goalDBService } from "@/services/database";
+import { RandomDurationService } from "@/services/RandomDurationService";
 import type { DBGoal } from "@/types/database";
+import type { RandomGoalRecord } from "@/types/goals";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 
 const logger = serviceLogger("usePersonalGoalMutations");
@@ -157,8 +160,12 @@ export function useDeletePersonalGoal() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { goalId: string; userId: string }) => {
-      await goalDBService.delete(params.goalId);
+    mutationFn: async (params: {
+      goalId: string;
+      userId: string;
+      acting?: RelationshipActingContext;
+    }) => {
+      await goalDBService.delete(params.goalId, params.acting);
 
       logger.info("Personal goal deleted", { goalId: params.goalId });
     },
@@ -185,17 +192,23 @@ export function useCreateKeyholderDuration() {
       title: string;
       requiredDuration: number; // in seconds
       description?: string;
+      randomDuration?: RandomGoalRecord; // Rolled duration, also applied to the active session
+      acting?: RelationshipActingContext;
     }) => {
-      const goalId = await goalDBService.addGoal({
-        userId: params.userId,
-        title: params.title,
-        type: "duration",
-        targetValue: params.requiredDuration,
-        unit: "seconds",
-        description: params.description,
-        createdBy: "keyholder",
-        isSpecialChallenge: false,
-      });
+      const goalId = await goalDBService.addGoal(
+        {
+          userId: params.userId,
+          title: params.title,
+          type: "duration",
+          targetValue: params.requiredDuration,
+          unit: "seconds",
+          description: params.description,
+          createdBy: "keyholder",
+          isSpecialChallenge: false,
+          randomDuration: params.randomDuration,
+        },
+        params.acting,
+      );
 
       logger.info("Keyholder required duration created", {
         goalId,
@@ -203,12 +216,24 @@ export function useCreateKeyholderDuration() {
         requiredDuration: params.requiredDuration,
       });
 
+      if (params.randomDuration) {
+        await RandomDurationService.applyToCurrentSession(
+          params.userId,
+          params.randomDuration,
+        );
+      }
+
       return goalId;
     },
     onSuccess: (_data, variables) => {
       queryClient.invalidateQueries({
         queryKey: ["goals", "keyholder-duration", variables.userId],
       });
+      if (variables.randomDuration) {
+        queryClient.invalidateQueries({
+          queryKey: ["session", "current", variables.userId],
+        });
+      }
     },
     onError: (error) => {
       logger.error("Failed to create keyholder duration", { error });
@@ -229,6 +254,7 @@ export function useUpdateKeyholderDuration() {
       requiredDuration: number;
       title?: string;
       description?: string;
+      acting?: RelationshipActingContext;
     }) => {
       const updates: Partial<DBGoal> = {
         targetValue: params.requiredDuration,
@@ -236,7 +262,7 @@ export function useUpdateKeyholderDuration() {
       if (params.title) updates.title = params.title;
       if (params.description) updates.description = params.description;
 
-      await goalDBService.update(params.goalId, updates);
+      await goalDBService.update(params.goalId, updates, params.acting);
 
       logger.info("Keyholder duration updated", {
         goalId: params.goalId,
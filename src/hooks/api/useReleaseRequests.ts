@@ -4,10 +4,92 @@
  */
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { releaseRequestDBService } from "@/services/database/ReleaseRequestDBService";
+import { settingsDBService } from "@/services/database";
+import { AuditLogService } from "@/services/AuditLogService";
+import { KeyholderRelationshipService } from "@/services/KeyholderRelationshipService";
+import { ReleaseNegotiationService } from "@/services/ReleaseNegotiationService";
+import { AuditAction } from "@/types/security";
+import type {
+  ReleaseApprovalPolicy,
+  ReleaseCounterCondition,
+} from "@/types/core";
+import type { DBReleaseRequest } from "@/types/database";
+import { getRequestApprovers } from "@/utils/releaseRequests";
 import { serviceLogger } from "@/utils/logging";
 
 const logger = serviceLogger("useReleaseRequests");
 
+/**
+ * Record a release request change in the acting user's audit log
+ */
+const auditReleaseRequest = (params: {
+  userId: string;
+  action: AuditAction;
+  requestId: string;
+  sessionId: string;
+  targetUserId: string;
+  description: string;
+  response?: string;
+}) =>
+  AuditLogService.record({
+    userId: params.userId,
+    action: params.action,
+    context: {
+      sessionId: params.sessionId,
+      targetUserId: params.targetUserId,
+      resourceType: "releaseRequest",
+      resourceId: params.requestId,
+    },
+    details: {
+      description: params.description,
+      metadata: params.response ? { response: params.response } : undefined,
+    },
+  });
+
+/**
+ * Refresh the queues of every keyholder who can answer a request
+ */
+const invalidateRequestQueries = (
+  queryClient: ReturnType<typeof useQueryClient>,
+  request: Pick<
+    DBReleaseRequest,
+    "keyholderUserId" | "approverUserIds" | "sessionId"
+  >,
+) => {
+  for (const keyholderUserId of getRequestApprovers(request)) {
+    queryClient.invalidateQueries({
+      queryKey: ["releaseRequests", "pending", keyholderUserId],
+    });
+  }
+  queryClient.invalidateQueries({
+    queryKey: ["releaseRequests", "session", request.sessionId],
+  });
+};
+
+/**
+ * Query for the keyholders who decide a submissive's release requests,
+ * following the approval policy in their chastity settings
+ */
+export function useReleaseApprovers(submissiveUserId?: string) {
+  return useQuery({
+    queryKey: ["releaseRequests", "approvers", submissiveUserId],
+    queryFn: async () => {
+      if (!submissiveUserId) return null;
+      const settings = await settingsDBService.getSettings(submissiveUserId);
+      const approvalPolicy: ReleaseApprovalPolicy =
+        settings?.chastity?.releaseApprovalPolicy ?? "any";
+      const approverUserIds =
+        await KeyholderRelationshipService.getReleaseApprovers(
+          submissiveUserId,
+          approvalPolicy,
+        );
+      return { approvalPolicy, approverUserIds };
+    },
+    enabled: !!submissiveUserId,
+    staleTime: 1000 * 60 * 5, // 5 minutes
+  });
+}
+
 /**
  * Query for pending release requests (keyholder side)
  */
@@ -67,6 +149,24 @@ export function usePendingRequestForSession(sessionId?: string) {
   });
 }
 
+/**
+ * Query for the request still being negotiated for a session (submissive
+ * side). Accepted counter-offers whose condition is met are approved here,
+ * and pause offers are settled once the pause is over.
+ */
+export function useOpenRequestForSession(sessionId?: string) {
+  return useQuery({
+    queryKey: ["releaseRequests", "session", sessionId, "open"],
+    queryFn: async () => {
+      if (!sessionId) return null;
+      return ReleaseNegotiationService.getOpenRequest(sessionId);
+    },
+    enabled: !!sessionId,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Poll every minute
+  });
+}
+
 /**
  * Mutations for release request operations
  */
@@ -79,9 +179,23 @@ export function useReleaseRequestMutations() {
       keyholderUserId: string;
       sessionId: string;
       reason?: string;
+      approverUserIds?: string[];
+      approvalPolicy?: ReleaseApprovalPolicy;
     }) => {
+      // Settle a finished pause offer so it doesn't block the new request
+      await ReleaseNegotiationService.getOpenRequest(params.sessionId);
       const requestId = await releaseRequestDBService.createRequest(params);
 
+      await auditReleaseRequest({
+        userId: params.submissiveUserId,
+        action: AuditAction.RELEASE_REQUEST_CREATE,
+        requestId,
+        sessionId: params.sessionId,
+        targetUserId: params.keyholderUserId,
+        description: "Release requested",
+        response: params.reason,
+      });
+
       logger.info("Release request created", {
         requestId,
         sessionId: params.sessionId,
@@ -90,15 +204,7 @@ export function useReleaseRequestMutations() {
       return requestId;
     },
     onSuccess: (_data, variables) => {
-      // Invalidate pending requests for keyholder
-      queryClient.invalidateQueries({
-        queryKey: ["releaseRequests", "pending", variables.keyholderUserId],
-      });
-
-      // Invalidate session requests
-      queryClient.invalidateQueries({
-        queryKey: ["releaseRequests", "session", variables.sessionId],
-      });
+      invalidateRequestQueries(queryClient, variables);
     },
     onError: (error) => {
       logger.error("Failed to create release request", { error });
@@ -106,32 +212,38 @@ export function useReleaseRequestMutations() {
   });
 
   const approveRequest = useMutation({
-    mutationFn: async (params: { requestId: string; response?: string }) => {
-      await releaseRequestDBService.approveRequest(
+    mutationFn: async (params: {
+      requestId: string;
+      response?: string;
+      keyholderUserId?: string;
+    }) => {
+      const request = await releaseRequestDBService.approveRequest(
         params.requestId,
         params.response,
+        params.keyholderUserId,
       );
 
       logger.info("Release request approved", {
         requestId: params.requestId,
+        status: request.status,
       });
 
-      // Fetch the request to get associated data for invalidation
-      const request = await releaseRequestDBService.findById(params.requestId);
+      await auditReleaseRequest({
+        userId: params.keyholderUserId ?? request.keyholderUserId,
+        action: AuditAction.RELEASE_REQUEST_APPROVE,
+        requestId: request.id,
+        sessionId: request.sessionId,
+        targetUserId: request.submissiveUserId,
+        description:
+          request.status === "approved"
+            ? "Release request approved"
+            : "Release request approval recorded",
+        response: params.response,
+      });
       return request;
     },
     onSuccess: (request) => {
-      if (request) {
-        // Invalidate pending requests for keyholder
-        queryClient.invalidateQueries({
-          queryKey: ["releaseRequests", "pending", request.keyholderUserId],
-        });
-
-        // Invalidate session requests
-        queryClient.invalidateQueries({
-          queryKey: ["releaseRequests", "session", request.sessionId],
-        });
-      }
+      invalidateRequestQueries(queryClient, request);
     },
     onError: (error) => {
       logger.error("Failed to approve release request", { error });
@@ -139,32 +251,35 @@ export function useReleaseRequestMutations() {
   });
 
   const denyRequest = useMutation({
-    mutationFn: async (params: { requestId: string; response?: string }) => {
-      await releaseRequestDBService.denyRequest(
+    mutationFn: async (params: {
+      requestId: string;
+      response?: string;
+      keyholderUserId?: string;
+    }) => {
+      const request = await releaseRequestDBService.denyRequest(
         params.requestId,
         params.response,
+        params.keyholderUserId,
       );
 
       logger.info("Release request denied", {
         requestId: params.requestId,
+        status: request.status,
       });
 
-      // Fetch the request to get associated data for invalidation
-      const request = await releaseRequestDBService.findById(params.requestId);
+      await auditReleaseRequest({
+        userId: params.keyholderUserId ?? request.keyholderUserId,
+        action: AuditAction.RELEASE_REQUEST_DENY,
+        requestId: request.id,
+        sessionId: request.sessionId,
+        targetUserId: request.submissiveUserId,
+        description: "Release request denied",
+        response: params.response,
+      });
       return request;
     },
     onSuccess: (request) => {
-      if (request) {
-        // Invalidate pending requests for keyholder
-        queryClient.invalidateQueries({
-          queryKey: ["releaseRequests", "pending", request.keyholderUserId],
-        });
-
-        // Invalidate session requests
-        queryClient.invalidateQueries({
-          queryKey: ["releaseRequests", "session", request.sessionId],
-        });
-      }
+      invalidateRequestQueries(queryClient, request);
     },
     onError: (error) => {
       logger.error("Failed to deny release request", { error });
@@ -182,6 +297,15 @@ export function useReleaseRequestMutations() {
 
       await releaseRequestDBService.cancelRequest(params.requestId);
 
+      await auditReleaseRequest({
+        userId: request.submissiveUserId,
+        action: AuditAction.RELEASE_REQUEST_CANCEL,
+        requestId: request.id,
+        sessionId: request.sessionId,
+        targetUserId: request.keyholderUserId,
+        description: "Release request cancelled",
+      });
+
       logger.info("Release request cancelled", {
         requestId: params.requestId,
       });
@@ -189,15 +313,7 @@ export function useReleaseRequestMutations() {
       return request;
     },
     onSuccess: (request) => {
-      // Invalidate pending requests for keyholder
-      queryClient.invalidateQueries({
-        queryKey: ["releaseRequests", "pending", request.keyholderUserId],
-      });
-
-      // Invalidate session requests
-      queryClient.invalidateQueries({
-        queryKey: ["releaseRequests", "session", request.sessionId],
-      });
+      invalidateRequestQueries(queryClient, request);
     },
     onError: (error) => {
       logger.error("Failed to cancel release request", { error });
@@ -211,3 +327,78 @@ export function useReleaseRequestMutations() {
     cancelRequest,
   };
 }
+
+/**
+ * Mutations for counter-offers: the keyholder counters a pending request,
+ * the wearer accepts or declines
+ */
+export function useCounterOfferMutations() {
+  const queryClient = useQueryClient();
+
+  const counterRequest = useMutation({
+    mutationFn: async (params: {
+      requestId: string;
+      keyholderUserId: string;
+      condition: ReleaseCounterCondition;
+      message?: string;
+    }) => {
+      const request = await releaseRequestDBService.counterRequest(
+        params.requestId,
+        params.keyholderUserId,
+        params.condition,
+        params.message,
+      );
+
+      await auditReleaseRequest({
+        userId: params.keyholderUserId,
+        action: AuditAction.RELEASE_REQUEST_COUNTER,
+        requestId: request.id,
+        sessionId: request.sessionId,
+        targetUserId: request.submissiveUserId,
+        description: "Release request countered",
+        response: params.message,
+      });
+      return request;
+    },
+    onSuccess: (request) => {
+      invalidateRequestQueries(queryClient, request);
+    },
+    onError: (error) => {
+      logger.error("Failed to counter release request", { error });
+    },
+  });
+
+  const respondToCounterOffer = useMutation({
+    mutationFn: async (params: { requestId: string; accept: boolean }) => {
+      const request = params.accept
+        ? await ReleaseNegotiationService.accept(params.requestId)
+        : await ReleaseNegotiationService.decline(params.requestId);
+
+      await auditReleaseRequest({
+        userId: request.submissiveUserId,
+        action: params.accept
+          ? AuditAction.RELEASE_COUNTER_ACCEPT
+          : AuditAction.RELEASE_COUNTER_DECLINE,
+        requestId: request.id,
+        sessionId: request.sessionId,
+        targetUserId:
+          request.counterOffer?.offeredBy ?? request.keyholderUserId,
+        description: params.accept
+          ? "Counter-offer accepted"
+          : "Counter-offer declined",
+      });
+      return request;
+    },
+    onSuccess: (request) => {
+      invalidateRequestQueries(queryClient, request);
+      // Accepting may create a task or pause the session
+      queryClient.invalidateQueries({ queryKey: ["tasks"] });
+      queryClient.invalidateQueries({ queryKey: ["session"] });
+    },
+    onError: (error) => {
+      logger.error("Failed to answer counter-offer", { error });
+    },
+  });
+
+  return { counterRequest, respondToCounterOffer };
+}
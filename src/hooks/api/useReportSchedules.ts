@@ -0,0 +1,102 @@
+/**
+ * Scheduled Report TanStack Query Hooks
+ * Report schedules, the runner that catches up on due reports, and the
+ * keyholder's weekly wearer summary
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { reportScheduleDBService } from "@/services/database/ReportScheduleDBService";
+import {
+  ScheduledReportService,
+  WEARER_SUMMARY_TEMPLATE_ID,
+} from "@/services/ScheduledReportService";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useReportSchedules");
+
+/**
+ * Report schedules a user owns
+ */
+export function useReportSchedules(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["reports", "schedules", userId],
+    queryFn: () => (userId ? reportScheduleDBService.findByUserId(userId) : []),
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+/**
+ * Whether a keyholder gets a weekly summary of a wearer
+ */
+export function useWearerSummarySchedule(
+  keyholderUserId: string | undefined,
+  wearerUserId: string | undefined,
+) {
+  const { data: schedules = [], ...query } =
+    useReportSchedules(keyholderUserId);
+  const schedule = schedules.find(
+    (candidate) =>
+      candidate.subjectUserId === wearerUserId &&
+      candidate.templateId === WEARER_SUMMARY_TEMPLATE_ID,
+  );
+  return { ...query, schedule, isEnabled: !!schedule?.enabled };
+}
+
+/**
+ * Runs the user's due scheduled reports when the app opens and every
+ * 15 minutes while it stays open. New reports refresh the recent list.
+ */
+export function useScheduledReportRunner(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["reports", "scheduleRunner", userId],
+    queryFn: async () => {
+      if (!userId) return [];
+
+      const reports = await ScheduledReportService.runDue(userId);
+      if (reports.length > 0) {
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: ["reports", "recent", userId],
+          }),
+          queryClient.invalidateQueries({
+            queryKey: ["reports", "schedules", userId],
+          }),
+        ]);
+      }
+      return reports;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60 * 15, // 15 minutes
+    refetchInterval: 1000 * 60 * 15,
+  });
+}
+
+/**
+ * Turn a keyholder's weekly wearer summary on or off
+ */
+export function useWearerSummaryMutation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: {
+      keyholderUserId: string;
+      wearerUserId: string;
+      enabled: boolean;
+    }) =>
+      ScheduledReportService.setWearerSummary(
+        params.keyholderUserId,
+        params.wearerUserId,
+        params.enabled,
+      ),
+    onSuccess: async (_schedule, params) => {
+      await queryClient.invalidateQueries({
+        queryKey: ["reports", "schedules", params.keyholderUserId],
+      });
+    },
+    onError: (error) => {
+      logger.error("Failed to update wearer summary schedule", { error });
+    },
+  });
+}
@@ -4,12 +4,33 @@
  */
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { ruleDBService } from "@/services/database/RuleDBService";
+import { AuditLogService } from "@/services/AuditLogService";
 import type { KeyholderRule } from "@/types/core";
+import { AuditAction, type AuditDetails } from "@/types/security";
 import { serviceLogger } from "@/utils/logging";
 import { Timestamp } from "firebase/firestore";
 
 const logger = serviceLogger("useRuleQueries");
 
+/**
+ * Record a rule change in the keyholder's audit log
+ */
+const auditRule = (
+  rule: Pick<KeyholderRule, "id" | "keyholderUserId" | "submissiveUserId">,
+  action: AuditAction,
+  details: AuditDetails,
+) =>
+  AuditLogService.record({
+    userId: rule.keyholderUserId,
+    action,
+    context: {
+      targetUserId: rule.submissiveUserId,
+      resourceType: "rule",
+      resourceId: rule.id,
+    },
+    details,
+  });
+
 /**
  * Query for getting rules by user role
  */
@@ -95,6 +116,10 @@ export function useRuleMutations() {
       };
 
       await ruleDBService.create(newRule);
+      await auditRule(newRule, AuditAction.RULE_CREATE, {
+        description: `Rule created: ${rule.title}`,
+        newValue: { title: rule.title, isActive: rule.isActive },
+      });
 
       logger.info("Rule created", { ruleId, title: rule.title });
       return ruleId;
@@ -113,7 +138,20 @@ export function useRuleMutations() {
       ruleId: string;
       updates: Partial<KeyholderRule>;
     }) => {
+      const previous = await ruleDBService.findById(params.ruleId);
       await ruleDBService.update(params.ruleId, params.updates);
+      if (previous) {
+        await auditRule(previous, AuditAction.RULE_UPDATE, {
+          description: `Rule updated: ${previous.title}`,
+          oldValue: Object.fromEntries(
+            Object.keys(params.updates).map((key) => [
+              key,
+              previous[key as keyof KeyholderRule],
+            ]),
+          ),
+          newValue: params.updates,
+        });
+      }
 
       logger.info("Rule updated", {
         ruleId: params.ruleId,
@@ -132,6 +170,14 @@ export function useRuleMutations() {
   const toggleRule = useMutation({
     mutationFn: async (ruleId: string) => {
       await ruleDBService.toggleActive(ruleId);
+      const rule = await ruleDBService.findById(ruleId);
+      if (rule) {
+        await auditRule(rule, AuditAction.RULE_UPDATE, {
+          description: `Rule ${rule.isActive ? "enabled" : "disabled"}: ${rule.title}`,
+          oldValue: { isActive: !rule.isActive },
+          newValue: { isActive: rule.isActive },
+        });
+      }
 
       logger.info("Rule toggled", { ruleId });
     },
@@ -146,7 +192,14 @@ export function useRuleMutations() {
 
   const deleteRule = useMutation({
     mutationFn: async (ruleId: string) => {
+      const rule = await ruleDBService.findById(ruleId);
       await ruleDBService.delete(ruleId);
+      if (rule) {
+        await auditRule(rule, AuditAction.RULE_DELETE, {
+          description: `Rule deleted: ${rule.title}`,
+          oldValue: { title: rule.title, isActive: rule.isActive },
+        });
+      }
 
       logger.info("Rule deleted", { ruleId });
     },
@@ -0,0 +1,97 @@
+/**
+ * Rule Violation TanStack Query Hooks
+ * Evaluates keyholder rules and exposes the recorded violations
+ */
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ruleViolationDBService } from "@/services/database/RuleViolationDBService";
+import { RuleEngine } from "@/services/RuleEngine";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useRuleViolations");
+
+/**
+ * Query for violations by user role
+ */
+export function useRuleViolationsQuery(
+  userId: string | undefined,
+  role: "keyholder" | "submissive",
+) {
+  return useQuery({
+    queryKey: ["ruleViolations", role, userId],
+    queryFn: async () => {
+      if (!userId) return [];
+
+      const violations =
+        role === "keyholder"
+          ? await ruleViolationDBService.getViolationsForKeyholder(userId)
+          : await ruleViolationDBService.getViolationsForSubmissive(userId);
+
+      logger.debug("Violations fetched", {
+        role,
+        userId,
+        count: violations.length,
+      });
+
+      return violations;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Periodically evaluate a submissive's rules. New violations refresh the
+ * violation lists and anything their consequences touched. Only call this on
+ * the wearer's own device: time adjustments are stored locally, so evaluating
+ * on the keyholder's side would apply every consequence a second time. The
+ * keyholder receives the violations through RuleViolationDataSync.
+ */
+export function useRuleEvaluation(submissiveUserId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["ruleViolations", "evaluate", submissiveUserId],
+    queryFn: async () => {
+      if (!submissiveUserId) return [];
+
+      const recorded = await RuleEngine.evaluateForSubmissive(submissiveUserId);
+      if (recorded.length > 0) {
+        await Promise.all([
+          queryClient.invalidateQueries({
+            queryKey: ["ruleViolations"],
+            predicate: (query) => query.queryKey[1] !== "evaluate",
+          }),
+          queryClient.invalidateQueries({ queryKey: ["tasks"] }),
+          queryClient.invalidateQueries({ queryKey: ["session", "current"] }),
+          queryClient.invalidateQueries({ queryKey: ["timeAdjustments"] }),
+        ]);
+      }
+      return recorded;
+    },
+    enabled: !!submissiveUserId,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Re-check every minute
+  });
+}
+
+/**
+ * Mutations for violation operations
+ */
+export function useRuleViolationMutations() {
+  const queryClient = useQueryClient();
+
+  const acknowledgeViolation = useMutation({
+    mutationFn: async (violationId: string) => {
+      await ruleViolationDBService.acknowledge(violationId);
+      return violationId;
+    },
+    onSuccess: async () => {
+      await queryClient.invalidateQueries({ queryKey: ["ruleViolations"] });
+    },
+    onError: (error) => {
+      logger.error("Failed to acknowledge violation", { error });
+    },
+  });
+
+  return { acknowledgeViolation };
+}
@@ -0,0 +1,56 @@
+/**
+ * Safety Release TanStack Query Hooks
+ * Warns the wearer while their keyholder is unreachable and offers a
+ * penalty-free release once the silence period has passed
+ */
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SafetyReleaseService } from "@/services/SafetyReleaseService";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useSafetyRelease");
+
+/**
+ * Safety release status for the wearer's current session.
+ * `keyholderLastSeen` is when the keyholder last opened their controls,
+ * from useKeyholderLastSeen.
+ */
+export function useSafetyReleaseStatus(
+  userId: string | undefined,
+  keyholderLastSeen?: Date,
+) {
+  return useQuery({
+    queryKey: ["safetyRelease", userId, keyholderLastSeen?.getTime()],
+    queryFn: async () => {
+      if (!userId) return null;
+      return SafetyReleaseService.check(userId, {
+        presenceLastSeen: keyholderLastSeen,
+      });
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+    refetchInterval: 1000 * 60 * 5, // Warnings move in hours, not minutes
+  });
+}
+
+/**
+ * End the session without penalty once safety release is available
+ */
+export function useSafetyRelease() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (params: { userId: string; keyholderLastSeen?: Date }) =>
+      SafetyReleaseService.release(params.userId, params.keyholderLastSeen),
+    onSuccess: async () => {
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ["session"] }),
+        queryClient.invalidateQueries({ queryKey: ["sessions"] }),
+        queryClient.invalidateQueries({ queryKey: ["events"] }),
+        queryClient.invalidateQueries({ queryKey: ["safetyRelease"] }),
+      ]);
+    },
+    onError: (error) => {
+      logger.error("Safety release failed", { error });
+    },
+  });
+}
@@ -6,10 +6,21 @@ import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { sessionDBService } from "@/services/database";
 import { cacheConfig } from "@/services/cache-config";
 import { firebaseSync } from "@/services/sync";
+import { RandomDurationService } from "@/services/RandomDurationService";
+import { AuditLogService } from "@/services/AuditLogService";
 import { serviceLogger } from "@/utils/logging";
+import type { DBSession } from "@/types/database";
+import type { RandomGoalRecord } from "@/types/goals";
+import type { RelationshipActingContext } from "@/types/relationships";
+import { AuditAction, type AuditDetails } from "@/types/security";
 
 const logger = serviceLogger("useSessionQuery");
 
+export type TimerVisibilitySettings = Pick<
+  DBSession,
+  "isTimerHidden" | "timerRevealMode" | "timerRevealAfterHours"
+>;
+
 /**
  * Query for getting current active session
  */
@@ -92,6 +103,37 @@ export function useSessionCount(userId: string | undefined) {
   });
 }
 
+/**
+ * Sync the user's sessions to Firebase in the background. Starting, ending,
+ * pausing and resuming are audited by the session service itself.
+ */
+const syncSessionsInBackground = (userId: string, action: AuditAction) => {
+  if (navigator.onLine) {
+    firebaseSync.syncUserSessions(userId).catch((error) => {
+      logger.warn("Session sync failed:", { error, action });
+    });
+  }
+};
+
+/**
+ * Record a session change in the user's audit log, then sync the user's
+ * sessions to Firebase in the background
+ */
+const afterSessionChange = async (
+  userId: string,
+  action: AuditAction,
+  { sessionId, ...details }: AuditDetails & { sessionId?: string },
+) => {
+  await AuditLogService.record({
+    userId,
+    action,
+    context: { sessionId, resourceType: "session", resourceId: sessionId },
+    details,
+  });
+
+  syncSessionsInBackground(userId, action);
+};
+
 /**
  * Mutations for session operations
  */
@@ -103,11 +145,16 @@ export function useSessionMutations() {
       userId: string;
       startTime?: Date;
       requiredDuration?: number;
+      timerVisibility?: TimerVisibilitySettings;
+      randomGoal?: RandomGoalRecord; // Overrides requiredDuration with its roll
     }) => {
       // 1. Write to local Dexie immediately for optimistic update
       const sessionId = await sessionDBService.startSession(params.userId, {
         goalDuration: params.requiredDuration,
         notes: `Session started at ${params.startTime || new Date()}`,
+        ...params.timerVisibility,
+        ...(params.randomGoal &&
+          RandomDurationService.getSessionFields(params.randomGoal)),
       });
 
       // Get the created session
@@ -116,12 +163,7 @@ export function useSessionMutations() {
         throw new Error("Failed to create session");
       }
 
-      // 2. Trigger Firebase sync in background
-      if (navigator.onLine) {
-        firebaseSync.syncUserSessions(params.userId).catch((error) => {
-          logger.warn("Session start sync failed:", { error });
-        });
-      }
+      syncSessionsInBackground(params.userId, AuditAction.SESSION_START);
 
       return session;
     },
@@ -152,20 +194,15 @@ export function useSessionMutations() {
       if (!currentSession) {
         throw new Error("No active session to end");
       }
-
-      // 2. End the session by sessionId
+      // 2. End the session by sessionId; the service enforces the unlock
+      // schedule
       await sessionDBService.endSession(
         currentSession.id,
         params.endTime || new Date(),
         params.reason,
       );
 
-      // 3. Trigger Firebase sync in background
-      if (navigator.onLine) {
-        firebaseSync.syncUserSessions(params.userId).catch((error) => {
-          logger.warn("Session end sync failed:", { error });
-        });
-      }
+      syncSessionsInBackground(params.userId, AuditAction.SESSION_END);
 
       return currentSession;
     },
@@ -196,12 +233,7 @@ export function useSessionMutations() {
       // 2. Update local Dexie immediately
       await sessionDBService.pauseSession(currentSession.id, new Date());
 
-      // 2. Trigger Firebase sync in background
-      if (navigator.onLine) {
-        firebaseSync.syncUserSessions(params.userId).catch((error) => {
-          logger.warn("Session pause sync failed:", { error });
-        });
-      }
+      syncSessionsInBackground(params.userId, AuditAction.SESSION_PAUSE);
 
       // Return the updated session
       const updatedSession = await sessionDBService.getCurrentSession(
@@ -225,12 +257,7 @@ export function useSessionMutations() {
         params.userId,
       );
 
-      // 2. Trigger Firebase sync in background
-      if (navigator.onLine) {
-        firebaseSync.syncUserSessions(params.userId).catch((error) => {
-          logger.warn("Session resume sync failed:", { error });
-        });
-      }
+      syncSessionsInBackground(params.userId, AuditAction.SESSION_RESUME);
 
       return updatedSession;
     },
@@ -243,10 +270,39 @@ export function useSessionMutations() {
     },
   });
 
+  const updateTimerVisibility = useMutation({
+    mutationFn: async (params: {
+      userId: string;
+      sessionId: string;
+      settings: TimerVisibilitySettings;
+      acting?: RelationshipActingContext;
+    }) => {
+      const { sessionId, settings, acting } = params;
+      // 1. Update local Dexie immediately
+      await sessionDBService.update(sessionId, settings, acting);
+
+      await afterSessionChange(params.userId, AuditAction.SESSION_UPDATE, {
+        sessionId,
+        description: "Timer visibility changed",
+        newValue: settings,
+      });
+
+      return sessionDBService.findById(sessionId);
+    },
+    onSuccess: (data, variables) => {
+      // Update current session cache
+      queryClient.setQueryData(["session", "current", variables.userId], data);
+    },
+    onError: (error) => {
+      logger.error("Failed to update timer visibility:", { error });
+    },
+  });
+
   return {
     startSession,
     endSession,
     pauseSession,
     resumeSession,
+    updateTimerVisibility,
   };
 }
@@ -1,7 +1,7 @@
 /* eslint-disable max-lines */
 import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { settingsDBService } from "../../services/database/SettingsDBService";
-import { UserSettings } from "../../types/database";
+import type { DBSettings, UserSettings } from "../../types/database";
 import { logger } from "../../utils/logging";
 import { settingsKeys } from "@/utils/settings/api";
 
@@ -548,11 +548,7 @@ export function useUpdateDisplaySettings() {
       data,
     }: {
       userId: string;
-      data: {
-        timezone?: string;
-        notifications?: boolean;
-        language?: string;
-      };
+      data: Parameters<typeof settingsDBService.updateDisplaySettings>[1];
     }) => {
       logger.info("Updating display settings", {
         userId,
@@ -651,6 +647,36 @@ export function useUpdatePrivacySettings() {
   });
 }
 
+/**
+ * Update chastity settings (safety release, emergency unlock, etc.)
+ */
+export function useUpdateChastitySettings() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({
+      userId,
+      data,
+    }: {
+      userId: string;
+      data: Partial<DBSettings["chastity"]>;
+    }) => {
+      await settingsDBService.updateChastitySettings(userId, data);
+      return { success: true };
+    },
+    onSuccess: (_, { userId }) => {
+      queryClient.invalidateQueries({ queryKey: settingsKeys.user(userId) });
+      queryClient.invalidateQueries({ queryKey: ["safetyRelease", userId] });
+    },
+    onError: (error, { userId }) => {
+      logger.error("Failed to update chastity settings", {
+        error: error instanceof Error ? error.message : String(error),
+        userId,
+      });
+    },
+  });
+}
+
 // Helper functions
 
 function createDefaultSettings(userId: string): UserSettings {
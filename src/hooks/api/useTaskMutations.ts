@@ -6,11 +6,41 @@ import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { taskDBService } from "@/services/database";
 import { firebaseSync } from "@/services/sync";
 import type { DBTask, TaskStatus } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 import { TaskNotificationService } from "@/services/notifications/TaskNotificationService";
 
 const logger = serviceLogger("useTaskMutations");
 
+/**
+ * Apply a reviewed task's time consequence to the adjustment ledger and
+ * re-roll a random goal if requested.
+ * Failures are logged so they never fail the review itself.
+ */
+async function applyTaskConsequence(
+  task: DBTask | undefined,
+  outcome: "approved" | "rejected",
+): Promise<void> {
+  if (!task?.consequence) return;
+
+  try {
+    if (task.consequence.duration) {
+      const { TimeAdjustmentService } = await import(
+        "@/services/TimeAdjustmentService"
+      );
+      await TimeAdjustmentService.applyTaskConsequence(task, outcome);
+    }
+    if (task.consequence.reroll) {
+      const { RandomDurationService } = await import(
+        "@/services/RandomDurationService"
+      );
+      await RandomDurationService.applyTaskConsequence(task, outcome);
+    }
+  } catch (error) {
+    logger.error("Failed to apply task consequence", { error, outcome });
+  }
+}
+
 /**
  * Hook for creating a task
  */
@@ -24,16 +54,21 @@ export function useCreateTask() {
       description?: string;
       deadline?: Date;
       pointValue?: number;
+      acting?: RelationshipActingContext;
     }) => {
+      const { acting, ...taskFields } = params;
       // 1. Write to local Dexie immediately for optimistic update
-      const task = await taskDBService.createTask({
-        ...params,
-        status: "pending" as TaskStatus,
-        text: params.description || params.title,
-        priority: "medium" as const,
-        assignedBy: "submissive" as const,
-        pointValue: params.pointValue,
-      });
+      const task = await taskDBService.createTask(
+        {
+          ...taskFields,
+          status: "pending" as TaskStatus,
+          text: params.description || params.title,
+          priority: "medium" as const,
+          assignedBy: "submissive" as const,
+          pointValue: params.pointValue,
+        },
+        acting,
+      );
 
       // 2. Trigger Firebase sync in background
       if (navigator.onLine) {
@@ -70,6 +105,7 @@ export function useUpdateTaskStatus() {
       userId: string;
       status: TaskStatus;
       feedback?: string;
+      acting?: RelationshipActingContext;
     }) => {
       // 1. Update local Dexie immediately
       const updatedTask = await taskDBService.updateTaskStatus(
@@ -78,6 +114,7 @@ export function useUpdateTaskStatus() {
         {
           keyholderFeedback: params.feedback,
         },
+        params.acting,
       );
 
       // 2. Trigger Firebase sync in background
@@ -110,9 +147,13 @@ export function useDeleteTask() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (params: { taskId: string; userId: string }) => {
+    mutationFn: async (params: {
+      taskId: string;
+      userId: string;
+      acting?: RelationshipActingContext;
+    }) => {
       // 1. Delete from local Dexie immediately
-      await taskDBService.deleteTask(params.taskId);
+      await taskDBService.deleteTask(params.taskId, params.acting);
 
       // 2. Trigger Firebase sync in background
       if (navigator.onLine) {
@@ -157,6 +198,7 @@ export function useSubmitTaskForReview() {
       attachments?: string[];
       keyholderUserId?: string;
       submissiveName?: string;
+      acting?: RelationshipActingContext;
     }) => {
       // 1. Update local Dexie immediately
       const updatedTask = await taskDBService.updateTaskStatus(
@@ -166,6 +208,7 @@ export function useSubmitTaskForReview() {
           submissiveNote: params.note,
           attachments: params.attachments,
         },
+        params.acting,
       );
 
       // 2. Trigger Firebase sync in background
@@ -217,6 +260,7 @@ export function useApproveTask() {
       userId: string;
       feedback?: string;
       points?: number;
+      acting?: RelationshipActingContext;
     }) => {
       // 1. Get task to check point value before updating
       const task = await taskDBService.findById(params.taskId);
@@ -230,6 +274,7 @@ export function useApproveTask() {
           pointsAwarded: true,
           pointsAwardedAt: new Date(),
         },
+        params.acting,
       );
 
       // 3. Award points if task has point value and points haven't been awarded yet
@@ -255,7 +300,10 @@ export function useApproveTask() {
         }
       }
 
-      // 4. If recurring, create next instance
+      // 4. Apply reward time consequence to the adjustment ledger
+      await applyTaskConsequence(updatedTask, "approved");
+
+      // 5. If recurring, create next instance
       if (updatedTask?.isRecurring && updatedTask?.recurringConfig) {
         try {
           const { RecurringTaskService } = await import(
@@ -274,7 +322,7 @@ export function useApproveTask() {
         }
       }
 
-      // 5. Trigger Firebase sync in background
+      // 6. Trigger Firebase sync in background
       if (navigator.onLine) {
         firebaseSync.syncUserTasks(params.userId).catch((error) => {
           logger.warn("Task approval sync failed", { error });
@@ -290,6 +338,8 @@ export function useApproveTask() {
       queryClient.invalidateQueries({
         queryKey: ["tasks", "pending", variables.userId],
       });
+      queryClient.invalidateQueries({ queryKey: ["timeAdjustments"] });
+      queryClient.invalidateQueries({ queryKey: ["session", "current"] });
 
       // Send notification to submissive
       if (data) {
@@ -321,6 +371,7 @@ export function useRejectTask() {
       taskId: string;
       userId: string;
       feedback?: string;
+      acting?: RelationshipActingContext;
     }) => {
       // 1. Update local Dexie immediately
       const updatedTask = await taskDBService.updateTaskStatus(
@@ -329,9 +380,13 @@ export function useRejectTask() {
         {
           keyholderFeedback: params.feedback,
         },
+        params.acting,
       );
 
-      // 2. Trigger Firebase sync in background
+      // 2. Apply punishment time consequence to the adjustment ledger
+      await applyTaskConsequence(updatedTask, "rejected");
+
+      // 3. Trigger Firebase sync in background
       if (navigator.onLine) {
         firebaseSync.syncUserTasks(params.userId).catch((error) => {
           logger.warn("Task rejection sync failed", { error });
@@ -347,6 +402,8 @@ export function useRejectTask() {
       queryClient.invalidateQueries({
         queryKey: ["tasks", "pending", variables.userId],
       });
+      queryClient.invalidateQueries({ queryKey: ["timeAdjustments"] });
+      queryClient.invalidateQueries({ queryKey: ["session", "current"] });
 
       // Send notification to submissive
       if (data) {
@@ -381,18 +438,22 @@ export function useAssignTask() {
       dueDate?: Date;
       keyholderName?: string;
       pointValue?: number;
+      acting?: RelationshipActingContext;
     }) => {
       // 1. Write to local Dexie immediately for optimistic update
-      const task = await taskDBService.createTask({
-        userId: params.userId,
-        text: params.title,
-        description: params.description,
-        status: "pending" as TaskStatus,
-        priority: params.priority || "medium",
-        assignedBy: "keyholder" as const,
-        dueDate: params.dueDate,
-        pointValue: params.pointValue,
-      });
+      const task = await taskDBService.createTask(
+        {
+          userId: params.userId,
+          text: params.title,
+          description: params.description,
+          status: "pending" as TaskStatus,
+          priority: params.priority || "medium",
+          assignedBy: "keyholder" as const,
+          dueDate: params.dueDate,
+          pointValue: params.pointValue,
+        },
+        params.acting,
+      );
 
       // 2. Trigger Firebase sync in background
       if (navigator.onLine) {
@@ -0,0 +1,92 @@
+/**
+ * Time Adjustment TanStack Query Hooks
+ * Reads and edits the lock time adjustment ledger in Dexie
+ */
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { timeAdjustmentDBService } from "@/services/database/TimeAdjustmentDBService";
+import {
+  TimeAdjustmentService,
+  type TimeAdjustmentInput,
+} from "@/services/TimeAdjustmentService";
+import { TimerService } from "@/services/TimerService";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useTimeAdjustments");
+
+/**
+ * Query for a session's adjustments and their net total
+ */
+export function useSessionTimeAdjustments(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ["timeAdjustments", "session", sessionId],
+    queryFn: async () => {
+      if (!sessionId) return { adjustments: [], totalSeconds: 0 };
+
+      const adjustments =
+        await timeAdjustmentDBService.getForSession(sessionId);
+      return {
+        adjustments,
+        totalSeconds: TimerService.calculateAdjustmentTotal(adjustments),
+      };
+    },
+    enabled: !!sessionId,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Query for every adjustment of a user, most recent first
+ */
+export function useUserTimeAdjustments(userId: string | undefined) {
+  return useQuery({
+    queryKey: ["timeAdjustments", "user", userId],
+    queryFn: async () => {
+      if (!userId) return [];
+      return timeAdjustmentDBService.getForUser(userId);
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 60, // 1 minute
+  });
+}
+
+/**
+ * Mutations for manual adjustments and reversals
+ */
+export function useTimeAdjustmentMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["timeAdjustments"] }),
+      queryClient.invalidateQueries({ queryKey: ["session", "current"] }),
+    ]);
+  };
+
+  const addAdjustment = useMutation({
+    mutationFn: (input: TimeAdjustmentInput) =>
+      TimeAdjustmentService.applyAdjustment(input),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to add time adjustment", { error });
+    },
+  });
+
+  const reverseAdjustment = useMutation({
+    mutationFn: (params: {
+      adjustmentId: string;
+      reversedBy: string;
+      reason?: string;
+    }) =>
+      TimeAdjustmentService.reverseAdjustment(
+        params.adjustmentId,
+        params.reversedBy,
+        params.reason,
+      ),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to reverse time adjustment", { error });
+    },
+  });
+
+  return { addAdjustment, reverseAdjustment };
+}
@@ -0,0 +1,67 @@
+/**
+ * Unlock Schedule TanStack Query Hooks
+ * Keyholder controls for a session's earliest unlock time and check-ins
+ */
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { UnlockScheduleService } from "@/services/UnlockScheduleService";
+import type { DBSession } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
+import type {
+  UnlockSchedule,
+  UnlockScheduleSyncTarget,
+} from "@/types/unlockSchedule";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useUnlockSchedule");
+
+/**
+ * Mutations for setting a session's unlock schedule and checking in to it
+ */
+export function useUnlockScheduleMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: ["session"] }),
+      queryClient.invalidateQueries({ queryKey: ["events"] }),
+    ]);
+  };
+
+  const updateSchedule = useMutation({
+    mutationFn: (params: {
+      session: DBSession;
+      schedule: UnlockSchedule | null;
+      syncTarget?: UnlockScheduleSyncTarget;
+      acting?: RelationshipActingContext;
+    }) =>
+      UnlockScheduleService.updateSchedule(
+        params.session,
+        params.schedule,
+        params.syncTarget,
+        params.acting,
+      ),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to update unlock schedule", { error });
+    },
+  });
+
+  const checkIn = useMutation({
+    mutationFn: (params: {
+      session: DBSession;
+      syncTarget?: UnlockScheduleSyncTarget;
+      acting?: RelationshipActingContext;
+    }) =>
+      UnlockScheduleService.recordCheckIn(
+        params.session,
+        params.syncTarget,
+        params.acting,
+      ),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to record unlock check-in", { error });
+    },
+  });
+
+  return { updateSchedule, checkIn };
+}
@@ -0,0 +1,141 @@
+/**
+ * Verification TanStack Query Hooks
+ * Proof-of-lock photo requests for the wearer and the keyholder
+ */
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { verificationDBService } from "@/services/database/VerificationDBService";
+import { VerificationStorageService } from "@/services/storage/VerificationStorageService";
+import {
+  VerificationService,
+  type VerificationRequestOptions,
+} from "@/services/VerificationService";
+import type { DBSession } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
+import type { VerificationSchedule } from "@/types/verification";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("useVerifications");
+
+/**
+ * Query for a session's verification history, most recent first
+ */
+export function useSessionVerifications(sessionId: string | undefined) {
+  return useQuery({
+    queryKey: ["verifications", "session", sessionId],
+    queryFn: async () => {
+      if (!sessionId) return [];
+      return verificationDBService.getForSession(sessionId);
+    },
+    enabled: !!sessionId,
+    staleTime: 1000 * 30, // 30 seconds
+  });
+}
+
+/**
+ * Periodically issue scheduled requests and record missed deadlines for the
+ * wearer. Returns the open request, if any.
+ */
+export function useVerificationSync(userId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: ["verifications", "sync", userId],
+    queryFn: async () => {
+      if (!userId) return null;
+
+      const { open, missed } = await VerificationService.sync(userId);
+      if (missed.length > 0) {
+        logger.debug("Verifications missed", { userId, count: missed.length });
+        await Promise.all([
+          queryClient.invalidateQueries({ queryKey: ["events"] }),
+          queryClient.invalidateQueries({ queryKey: ["tasks"] }),
+          queryClient.invalidateQueries({ queryKey: ["session", "current"] }),
+          queryClient.invalidateQueries({ queryKey: ["timeAdjustments"] }),
+        ]);
+      }
+      return open;
+    },
+    enabled: !!userId,
+    staleTime: 1000 * 30, // 30 seconds
+    refetchInterval: 1000 * 60, // Re-check every minute
+  });
+}
+
+/**
+ * Mutations for requesting, submitting and reviewing verifications
+ */
+export function useVerificationMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidate = async () => {
+    await queryClient.invalidateQueries({ queryKey: ["verifications"] });
+  };
+
+  const requestVerification = useMutation({
+    mutationFn: (params: {
+      session: DBSession;
+      options: VerificationRequestOptions;
+    }) =>
+      VerificationService.requestVerification(params.session, params.options),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to request verification", { error });
+    },
+  });
+
+  const submitPhoto = useMutation({
+    mutationFn: (params: { verificationId: string; file: File }) =>
+      VerificationService.submitPhoto(params.verificationId, params.file),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to submit verification photo", { error });
+    },
+  });
+
+  const reviewVerification = useMutation({
+    mutationFn: (params: {
+      verificationId: string;
+      approved: boolean;
+      note?: string;
+    }) =>
+      VerificationService.review(
+        params.verificationId,
+        params.approved,
+        params.note,
+      ),
+    onSuccess: invalidate,
+    onError: (error) => {
+      logger.error("Failed to review verification", { error });
+    },
+  });
+
+  const updateSchedule = useMutation({
+    mutationFn: (params: {
+      sessionId: string;
+      schedule: VerificationSchedule | undefined;
+      acting?: RelationshipActingContext;
+    }) =>
+      VerificationService.updateSchedule(
+        params.sessionId,
+        params.schedule,
+        params.acting,
+      ),
+    onSuccess: async () => {
+      await Promise.all([
+        invalidate(),
+        queryClient.invalidateQueries({ queryKey: ["session"] }),
+      ]);
+    },
+    onError: (error) => {
+      logger.error("Failed to update verification schedule", { error });
+    },
+  });
+
+  return {
+    requestVerification,
+    submitPhoto,
+    reviewVerification,
+    updateSchedule,
+    storageMode: VerificationStorageService.getStorageMode(),
+  };
+}
@@ -319,14 +319,50 @@ export interface RelationshipComparisonStats {
   }[];
 }
 
+/** Percentages (0-100) bounding a 95% confidence interval */
+export interface ConfidenceInterval {
+  lower: number;
+  upper: number;
+}
+
+export interface RateEstimate {
+  rate: number; // percentage 0-100
+  confidenceInterval: ConfidenceInterval;
+  sampleSize: number;
+}
+
+export interface GoalLengthCompletion extends RateEstimate {
+  label: string;
+  minSeconds: number;
+  maxSeconds: number; // exclusive; Infinity for the open-ended bucket
+}
+
+export type TimeOfDay = "night" | "morning" | "afternoon" | "evening";
+
+export interface SessionHistoryAnalysis {
+  goalSessionCount: number;
+  completion: RateEstimate;
+  completionByGoalLength: GoalLengthCompletion[];
+  failuresByTimeOfDay: Record<TimeOfDay, number>;
+  peakFailureTimeOfDay?: TimeOfDay;
+  pauseFrequency: RateEstimate; // share of ended sessions that were paused
+  averagePauseSeconds: number;
+  emergencyUnlocks: RateEstimate; // share of ended sessions unlocked in an emergency
+  recentCompletion?: RateEstimate; // most recent goal sessions only
+  daysSinceLastSession?: number;
+}
+
 export interface PredictiveInsights {
   nextSessionSuccess: {
     probability: number;
+    confidenceInterval: ConfidenceInterval;
+    sampleSize: number;
     factors: string[];
   };
   goalAchievementLikelihood: {
     goalId: string;
     probability: number;
+    confidenceInterval: ConfidenceInterval;
     timeToCompletion: number;
   }[];
   riskAssessment: {
@@ -334,6 +370,7 @@ export interface PredictiveInsights {
     consistencyRisk: "low" | "medium" | "high";
     factors: string[];
   };
+  history: SessionHistoryAnalysis;
 }
 
 export interface Recommendation {
@@ -5,6 +5,11 @@
  */
 import { useState, useEffect, useMemo } from "react";
 import { serviceLogger } from "../../utils/logging";
+import { useSessionHistory } from "../api/useSessionQuery";
+import { useUserTimeAdjustments } from "../api/useTimeAdjustments";
+import { useUserSettings } from "../api/useSettings";
+import { adjustmentsBySession } from "../../utils/statistics/predictions";
+import { TimezoneUtil } from "../../utils/timezone";
 import {
   calculateImprovementScore,
   calculateConsistencyRating,
@@ -30,6 +35,9 @@ import {
 
 const logger = serviceLogger("useStatistics");
 
+const PREDICTION_HISTORY_LIMIT = 500;
+const EMPTY_SESSIONS: DBSession[] = [];
+
 // ==================== INTERFACES ====================
 
 // Re-export all types from the types file
@@ -44,6 +52,7 @@ import type {
   PredictiveAnalytics,
   RecommendationEngine,
 } from "./types/statistics";
+import type { DBSession } from "../../types/database";
 
 // ==================== HOOK IMPLEMENTATION ====================
 
@@ -263,8 +272,23 @@ export const useStatistics = (userId: string, relationshipId?: string) => {
   const { getKeyholderDashboard, getRelationshipComparison } =
     useKeyholderFeatures(consistencyRating, sessionStats, goalStats);
 
-  const { getPredictiveInsights, getRecommendations } =
-    usePredictiveAnalytics();
+  // Predictions are computed from the user's real session history
+  const { data: sessionHistory = EMPTY_SESSIONS } = useSessionHistory(userId, {
+    limit: PREDICTION_HISTORY_LIMIT,
+  });
+  const { data: adjustments } = useUserTimeAdjustments(userId);
+  const { data: settings } = useUserSettings(userId);
+  const predictionOptions = useMemo(
+    () => ({
+      adjustments: adjustmentsBySession(adjustments ?? []),
+      timeZone: TimezoneUtil.getUserTimezone(settings),
+    }),
+    [adjustments, settings],
+  );
+  const { getPredictiveInsights, getRecommendations } = usePredictiveAnalytics(
+    sessionHistory,
+    predictionOptions,
+  );
 
   const { exportStatistics, shareWithKeyholder } = useStatisticsExport({
     userId,
@@ -15,10 +15,13 @@ import {
   generateRelationshipComparison,
 } from "../../utils/statistics/keyholder";
 import {
+  analyzeSessionHistory,
   generatePredictiveInsights,
   generateRecommendations,
+  type PredictionOptions,
 } from "../../utils/statistics/predictions";
 import { serviceLogger } from "../../utils/logging";
+import type { DBSession } from "../../types/database";
 import type {
   TimePeriod,
   SessionStatistics,
@@ -91,13 +94,22 @@ export function useKeyholderFeatures(
 /**
  * Hook for predictive analytics
  */
-export function usePredictiveAnalytics() {
+export function usePredictiveAnalytics(
+  sessions: DBSession[],
+  options: PredictionOptions = {},
+) {
   const getPredictiveInsights = useCallback(
-    () => generatePredictiveInsights(),
-    [],
+    () => generatePredictiveInsights(sessions, new Date(), options),
+    [sessions, options],
   );
 
-  const getRecommendations = useCallback(() => generateRecommendations(), []);
+  const getRecommendations = useCallback(
+    () =>
+      generateRecommendations(
+        analyzeSessionHistory(sessions, new Date(), options),
+      ),
+    [sessions, options],
+  );
 
   return { getPredictiveInsights, getRecommendations };
 }
@@ -14,6 +14,7 @@ import {
 } from "../../types/gamification";
 import { logger } from "../../utils/logging";
 import { GamificationStorageService } from "../../services/gamificationStorage";
+import { SeasonService } from "../../services/SeasonService";
 import { LEVEL_THRESHOLDS } from "../../constants/gamification";
 import {
   generateLevelRewards,
@@ -46,6 +47,7 @@ export const useGameification = (userId: string) => {
   const {
     playerProfile,
     activeChallenges,
+    availableChallenges,
     leaderboards,
     currentSeason,
     socialFeatures,
@@ -88,6 +90,12 @@ export const useGameification = (userId: string) => {
       updatedProfile,
     );
 
+    // Count it towards the running season's reward track
+    await SeasonService.addExperience(userId, amount);
+    await queryClient.invalidateQueries({
+      queryKey: ["gamification", "season", userId],
+    });
+
     logger.info("Experience added", {
       amount,
       source,
@@ -106,6 +114,7 @@ export const useGameification = (userId: string) => {
   } = useGamificationMutations(
     userId,
     activeChallenges,
+    availableChallenges,
     playerProfile,
     addExperienceInternal,
   );
@@ -122,8 +131,12 @@ export const useGameification = (userId: string) => {
   );
 
   // Seasonal rewards
-  const { getSeasonalRewards, claimSeasonalReward, hasUnclaimedRewards } =
-    useSeasonalRewards(currentSeason, userId);
+  const {
+    getSeasonalRewards,
+    claimSeasonalReward,
+    hasUnclaimedRewards,
+    isClaimingReward,
+  } = useSeasonalRewards(currentSeason, userId);
 
   // Check level up
   const checkLevelUp = useCallback(async () => {
@@ -148,6 +161,7 @@ export const useGameification = (userId: string) => {
   return {
     playerProfile,
     activeChallenges,
+    availableChallenges,
     leaderboards,
     currentSeason,
     socialFeatures,
@@ -167,6 +181,7 @@ export const useGameification = (userId: string) => {
     isAcceptingChallenge: acceptChallengeMutation.isPending,
     isCompletingChallenge: completeChallengeMutation.isPending,
     isAddingExperience: addExperienceMutation.isPending,
+    isClaimingReward,
     lastChallengeCompletion: completeChallengeMutation.data,
     lastLevelResult: addExperienceMutation.data,
     currentLevel: playerProfile.level,
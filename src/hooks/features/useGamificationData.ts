@@ -11,16 +11,16 @@ import {
   Season,
   SocialGameFeatures,
   ExperienceEvent,
+  DBChallenge,
 } from "../../types/gamification";
 import { GamificationStorageService } from "../../services/gamificationStorage";
+import { ChallengeService } from "../../services/ChallengeService";
+import { SeasonService } from "../../services/SeasonService";
 import {
   DEFAULT_PLAYER_PROFILE,
   SAMPLE_CHALLENGES,
 } from "../../constants/gamification";
-import {
-  generateSampleLeaderboards,
-  generateSeasonalRewards,
-} from "@/utils/gamification";
+import { generateSampleLeaderboards } from "@/utils/gamification";
 
 export function useGamificationData(userId: string) {
   // Get player profile
@@ -38,16 +38,20 @@ export function useGamificationData(userId: string) {
       staleTime: 30 * 1000,
     });
 
-  // Get active challenges
-  const { data: activeChallenges = [] } = useQuery<Challenge[]>({
+  // Get accepted challenges, re-measured against the user's records.
+  // Expired challenges drop out as they fail.
+  const { data: activeChallenges = [] } = useQuery<DBChallenge[]>({
     queryKey: ["gamification", "challenges", userId],
-    queryFn: () => {
-      const userChallenges =
-        GamificationStorageService.getChallenges<Challenge>();
-      return [...SAMPLE_CHALLENGES, ...userChallenges].filter(
-        (c) => !c.isCompleted,
-      );
-    },
+    queryFn: () => ChallengeService.refreshProgress(userId),
+    enabled: Boolean(userId),
+    staleTime: 60 * 1000,
+    refetchInterval: 5 * 60 * 1000,
+  });
+
+  // Get challenges the user can accept
+  const { data: availableChallenges = [] } = useQuery<Challenge[]>({
+    queryKey: ["gamification", "challenges", userId, "available"],
+    queryFn: () => ChallengeService.getAvailable(userId, SAMPLE_CHALLENGES),
     enabled: Boolean(userId),
     staleTime: 60 * 1000,
   });
@@ -60,23 +64,12 @@ export function useGamificationData(userId: string) {
     refetchInterval: 10 * 60 * 1000,
   });
 
-  // Get current season
+  // Get current season with the user's progress on its reward track
   const { data: currentSeason } = useQuery<Season | null>({
-    queryKey: ["gamification", "season"],
-    queryFn: () => ({
-      id: "season-winter-2024",
-      name: "Winter Challenge 2024",
-      description:
-        "Embrace the cold season with special winter-themed challenges",
-      theme: "winter",
-      startDate: new Date("2024-12-01"),
-      endDate: new Date("2024-02-28"),
-      rewards: generateSeasonalRewards(),
-      challenges: ["winter-endurance", "cold-discipline"],
-      leaderboards: ["winter-champions"],
-      isActive: true,
-    }),
-    staleTime: 60 * 60 * 1000,
+    queryKey: ["gamification", "season", userId],
+    queryFn: () => SeasonService.getCurrentSeason(userId),
+    enabled: Boolean(userId),
+    staleTime: 60 * 1000,
   });
 
   // Get social features
@@ -111,6 +104,7 @@ export function useGamificationData(userId: string) {
   return {
     playerProfile,
     activeChallenges,
+    availableChallenges,
     leaderboards,
     currentSeason,
     socialFeatures,
@@ -3,9 +3,11 @@
  * Separates mutation logic from main useGameification hook
  */
 
+import { useEffect, useRef } from "react";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import {
   Challenge,
+  DBChallenge,
   PlayerProfile,
   ChallengeCompletion,
   ExperienceSource,
@@ -13,11 +15,14 @@ import {
 } from "../../types/gamification";
 import { logger } from "../../utils/logging";
 import { GamificationStorageService } from "../../services/gamificationStorage";
+import { ChallengeService } from "../../services/ChallengeService";
 import { createBadgeFromReward } from "@/utils/gamification";
+import { isChallengeMet } from "@/utils/gamification/challengeProgress";
 
 export function useGamificationMutations(
   userId: string,
-  activeChallenges: Challenge[],
+  activeChallenges: DBChallenge[],
+  availableChallenges: Challenge[],
   playerProfile: PlayerProfile,
   addExperienceInternal: (
     amount: number,
@@ -28,36 +33,35 @@ export function useGamificationMutations(
 
   // Accept challenge mutation
   const acceptChallengeMutation = useMutation({
-    mutationFn: async (challengeId: string) => {
-      const challenge = activeChallenges.find((c) => c.id === challengeId);
+    mutationFn: async (challengeId: string): Promise<DBChallenge> => {
+      const challenge = availableChallenges.find((c) => c.id === challengeId);
       if (!challenge) throw new Error("Challenge not found");
 
-      logger.info("Challenge accepted", { challengeId, userId });
+      const accepted = await ChallengeService.accept(userId, challenge);
+      await queryClient.invalidateQueries({
+        queryKey: ["gamification", "challenges", userId],
+      });
 
-      // In a real implementation, this would register the user for the challenge
-      await new Promise((resolve) => setTimeout(resolve, 500));
+      logger.info("Challenge accepted", { challengeId, userId });
+      return accepted;
     },
   });
 
   // Complete challenge mutation
   const completeChallengeMutation = useMutation({
     mutationFn: async (challengeId: string): Promise<ChallengeCompletion> => {
-      const challenge = activeChallenges.find((c) => c.id === challengeId);
-      if (!challenge) throw new Error("Challenge not found");
-
-      logger.info("Challenge completed", { challengeId, userId });
+      // Throws unless this call is the one that completed the challenge, so
+      // its experience is only added once
+      const challenge = await ChallengeService.complete(userId, challengeId);
 
-      // Mark challenge as completed
-      const updatedChallenges = activeChallenges.map((c) =>
-        c.id === challengeId
-          ? {
-              ...c,
-              isCompleted: true,
-              progress: { ...c.progress, percentage: 100 },
-            }
-          : c,
+      // Drop it from the active list before the refetch so it isn't
+      // completed twice
+      queryClient.setQueryData<DBChallenge[]>(
+        ["gamification", "challenges", userId],
+        (challenges) => challenges?.filter((c) => c.id !== challengeId),
       );
-      GamificationStorageService.setChallenges(updatedChallenges);
+
+      logger.info("Challenge completed", { challengeId, userId });
 
       // Calculate rewards
       const experienceGained = challenge.rewards.reduce(
@@ -75,7 +79,7 @@ export function useGamificationMutations(
       // Create completion result
       const completion: ChallengeCompletion = {
         challengeId,
-        completedAt: new Date(),
+        completedAt: challenge.completedAt ?? new Date(),
         rewards: challenge.rewards,
         experience: experienceGained,
         newBadges: challenge.rewards
@@ -90,14 +94,18 @@ export function useGamificationMutations(
           : undefined,
       };
 
-      // Update stats
+      // Update stats on top of the profile the experience was just added to
+      const currentProfile =
+        queryClient.getQueryData<PlayerProfile>([
+          "gamification",
+          "profile",
+          userId,
+        ]) ?? playerProfile;
       const updatedProfile = {
-        ...playerProfile,
+        ...currentProfile,
         stats: {
-          ...playerProfile.stats,
-          challengesCompleted: playerProfile.stats.challengesCompleted + 1,
-          totalExperience:
-            playerProfile.stats.totalExperience + experienceGained,
+          ...currentProfile.stats,
+          challengesCompleted: currentProfile.stats.challengesCompleted + 1,
         },
       };
       GamificationStorageService.setPlayerProfile(updatedProfile);
@@ -105,11 +113,28 @@ export function useGamificationMutations(
         ["gamification", "profile", userId],
         updatedProfile,
       );
+      await queryClient.invalidateQueries({
+        queryKey: ["gamification", "challenges", userId],
+      });
 
       return completion;
     },
   });
 
+  // Complete challenges as soon as their requirements are met, trying each
+  // one once so a failing completion doesn't retry in a loop
+  const attemptedCompletions = useRef(new Set<string>());
+  const readyChallengeId = activeChallenges.find(
+    (c) => isChallengeMet(c) && !attemptedCompletions.current.has(c.id),
+  )?.id;
+  const { mutate: completeChallenge, isPending: isCompletingChallenge } =
+    completeChallengeMutation;
+  useEffect(() => {
+    if (!readyChallengeId || isCompletingChallenge) return;
+    attemptedCompletions.current.add(readyChallengeId);
+    completeChallenge(readyChallengeId);
+  }, [readyChallengeId, isCompletingChallenge, completeChallenge]);
+
   // Add experience mutation
   const addExperienceMutation = useMutation({
     mutationFn: async ({
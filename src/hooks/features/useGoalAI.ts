@@ -1,20 +1,19 @@
 /**
  * Goal AI features hook
- * Handles AI-powered goal features like recommendations and generation
+ * Handles AI-powered goal features like recommendations and generation.
+ * Plans are produced locally by utils/goals/planner - no network calls.
  */
 
 import { useMutation } from "@tanstack/react-query";
 import {
   EnhancedGoal,
   OptimizedGoalPlan,
-  GoalType,
-  GoalCategory,
-  GoalStatus,
-  GoalDifficulty,
   PlanTimeline,
   PlanConflict,
   PlanRecommendation,
 } from "../../types/goals";
+import type { DBSession } from "../../types/database";
+import { generateGoalPlan } from "../../utils/goals/planner";
 import { logger } from "../../utils/logging";
 
 export function useGoalAI(
@@ -22,60 +21,27 @@ export function useGoalAI(
   generateTimeline: (goals: EnhancedGoal[]) => PlanTimeline[],
   detectConflicts: (goals: EnhancedGoal[]) => PlanConflict[],
   generatePlanRecommendations: (goals: EnhancedGoal[]) => PlanRecommendation[],
+  sessions: DBSession[] = [],
 ) {
-  // Generate goal from prompt mutation
+  // Generate a progressive goal plan from a prompt, sized from session history
   const generateGoalFromPromptMutation = useMutation({
-    mutationFn: async (prompt: string) => {
-      logger.info("Generating goal from prompt", { prompt });
+    mutationFn: async (prompt: string): Promise<OptimizedGoalPlan> => {
+      logger.info("Generating goal plan from prompt", { prompt });
 
-      // Simulate AI processing
-      await new Promise((resolve) => setTimeout(resolve, 1500));
+      const goals = generateGoalPlan(prompt, sessions);
+      const finalStep = goals[goals.length - 1];
 
-      const aiGoal: EnhancedGoal = {
-        id: `ai-goal-${Date.now()}`,
-        type: GoalType.DURATION,
-        category: GoalCategory.CHASTITY,
-        title: "AI-Generated Chastity Goal",
-        description: `Generated from: "${prompt}"`,
-        target: {
-          type: "duration",
-          value: 14,
-          unit: "days",
-          description: "14 days of commitment",
-        },
-        progress: {
-          current: 0,
-          target: 14,
-          percentage: 0,
-          status: GoalStatus.ACTIVE,
-          milestones: [],
-          lastUpdated: new Date(),
-        },
-        milestones: [
-          {
-            id: "ai-milestone-1",
-            name: "First Week",
-            description: "Complete 7 days",
-            target: 7,
-            achieved: false,
-          },
-          {
-            id: "ai-milestone-2",
-            name: "Final Goal",
-            description: "Complete 14 days",
-            target: 14,
-            achieved: false,
-          },
-        ],
-        aiGenerated: true,
-        difficulty: GoalDifficulty.MEDIUM,
-        estimatedCompletion: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-        createdAt: new Date(),
-        tags: ["ai-generated"],
-        isPublic: false,
+      return {
+        goals,
+        timeline: generateTimeline(goals),
+        // Check against existing goals too, so overlaps with them surface
+        conflicts: detectConflicts([...personalGoals, ...goals]),
+        recommendations: generatePlanRecommendations(goals),
+        estimatedCompletion: finalStep?.estimatedCompletion ?? new Date(),
       };
-
-      return aiGoal;
+    },
+    onError: (error) => {
+      logger.warn("Failed to generate goal plan", { error });
     },
   });
 
@@ -10,6 +10,7 @@ import { useGoalMutations } from "./useGoalMutations";
 import { useGoalAI } from "./useGoalAI";
 import { useGoalCollaboration } from "./useGoalCollaboration";
 import { useGoalAnalytics } from "./useGoalAnalytics";
+import { useSessionHistory } from "../api/useSessionQuery";
 import { calculateGoalAnalytics } from "../../utils/goals/analytics";
 import { generateSmartRecommendations } from "../../utils/goals/recommendations";
 import {
@@ -22,6 +23,8 @@ import {
 import type * as _Types from "./types/Goals";
 export type * from "./types/Goals";
 
+const PLAN_HISTORY_LIMIT = 100;
+
 // Complex goal management hook with multiple goal types and collaborative features
 export const useGoals = (userId?: string, relationshipId?: string) => {
   // Fetch all goal data
@@ -42,13 +45,17 @@ export const useGoals = (userId?: string, relationshipId?: string) => {
   const { createGoalMutation, updateGoalMutation, deleteGoalMutation } =
     useGoalMutations(userId, personalGoals, calculateEstimatedCompletion);
 
-  // AI features
+  // AI features - plans are sized from the user's session history
+  const { data: sessions } = useSessionHistory(userId, {
+    limit: PLAN_HISTORY_LIMIT,
+  });
   const { generateGoalFromPromptMutation, optimizeGoalPlanMutation } =
     useGoalAI(
       personalGoals,
       generateTimeline,
       detectConflicts,
       generatePlanRecommendations,
+      sessions,
     );
 
   // Collaboration features
@@ -114,7 +121,8 @@ export const useGoals = (userId?: string, relationshipId?: string) => {
 
     // Results
     lastOptimization: optimizeGoalPlanMutation.data,
-    lastGeneratedGoal: generateGoalFromPromptMutation.data,
+    lastGeneratedPlan: generateGoalFromPromptMutation.data,
+    generationError: generateGoalFromPromptMutation.error,
 
     // Errors
     error:
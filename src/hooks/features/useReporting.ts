@@ -8,6 +8,8 @@
 import { useQuery } from "@tanstack/react-query";
 import { ReportStorageService } from "../../services/reportStorage";
 import { useReportingMutations } from "./useReportingMutations";
+import { useReportSchedules } from "../api/useReportSchedules";
+import { getDefaultReportTemplates } from "../../utils/reporting/reportTemplates";
 
 // Report types
 export enum ReportType {
@@ -151,62 +153,7 @@ export interface ReportingPreferences {
 }
 
 // Default templates
-const DEFAULT_TEMPLATES: ReportTemplate[] = [
-  {
-    id: "session-summary",
-    name: "Session Summary",
-    description: "Summary of chastity sessions over time",
-    type: ReportType.SUMMARY,
-    parameters: [
-      { name: "dateRange", type: "date", required: true },
-      {
-        name: "includeDetails",
-        type: "boolean",
-        required: false,
-        default: false,
-      },
-    ],
-    defaultParameters: {
-      includeDetails: false,
-    },
-  },
-  {
-    id: "achievement-progress",
-    name: "Achievement Progress",
-    description: "Progress on achievements and goals",
-    type: ReportType.ANALYTICS,
-    parameters: [
-      { name: "dateRange", type: "date", required: true },
-      {
-        name: "category",
-        type: "select",
-        required: false,
-        options: ["all", "duration", "behavior", "goals"],
-      },
-    ],
-    defaultParameters: {
-      category: "all",
-    },
-  },
-  {
-    id: "behavioral-analysis",
-    name: "Behavioral Analysis",
-    description: "Analysis of behavioral patterns and events",
-    type: ReportType.DETAILED,
-    parameters: [
-      { name: "dateRange", type: "date", required: true },
-      {
-        name: "eventTypes",
-        type: "select",
-        required: false,
-        options: ["all", "sessions", "events", "tasks"],
-      },
-    ],
-    defaultParameters: {
-      eventTypes: "all",
-    },
-  },
-];
+const DEFAULT_TEMPLATES = getDefaultReportTemplates();
 
 /**
  * Advanced Reporting Hook
@@ -260,6 +207,8 @@ export const useReporting = (userId?: string, _relationshipId?: string) => {
     staleTime: 5 * 60 * 1000,
   });
 
+  const { data: schedules = [] } = useReportSchedules(userId);
+
   const {
     generateReportMutation,
     createCustomReportMutation,
@@ -300,7 +249,7 @@ export const useReporting = (userId?: string, _relationshipId?: string) => {
 
     // Computed properties
     totalReports: recentReports.length,
-    hasScheduledReports: false, // Would check actual scheduled reports
+    hasScheduledReports: schedules.some((schedule) => schedule.enabled),
     lastReportDate:
       recentReports.length > 0 && recentReports[0]
         ? recentReports[0].generatedAt
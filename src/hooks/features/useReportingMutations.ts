@@ -6,6 +6,9 @@
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { logger } from "../../utils/logging";
 import { ReportStorageService } from "../../services/reportStorage";
+import { ReportEngine } from "../../services/ReportEngine";
+import { ScheduledReportService } from "../../services/ScheduledReportService";
+import { settingsDBService } from "../../services/database";
 import {
   ReportTemplate,
   GeneratedReport,
@@ -21,12 +24,17 @@ import {
   ReportingPreferences,
 } from "./useReporting";
 import {
-  generateReportData,
-  calculateNextRun,
+  createGeneratedReport,
   exportReportData,
-  getRawData,
   exportData,
 } from "../../utils/reporting/reportingHelpers";
+import { getLocaleOptions } from "../../utils/formatting/locale";
+
+// Display settings the user's exports are written with
+const loadLocaleOptions = async (userId: string | undefined) =>
+  getLocaleOptions(
+    userId ? await settingsDBService.getSettings(userId) : undefined,
+  );
 
 export function useReportingMutations(
   userId: string | undefined,
@@ -47,21 +55,22 @@ export function useReportingMutations(
     }) => {
       const template = availableReports.find((t) => t.id === templateId);
       if (!template) throw new Error("Template not found");
+      if (!userId) throw new Error("User ID is required to generate reports");
 
       logger.info("Generating report", { templateId, parameters });
 
-      const reportData = await generateReportData(templateId, parameters);
+      const reportData = await ReportEngine.generate(
+        userId,
+        template,
+        parameters,
+      );
 
-      const report: GeneratedReport = {
-        id: `report-${Date.now()}`,
-        templateId,
-        name: template.name,
+      const report = createGeneratedReport(
+        template,
         parameters,
-        data: reportData,
-        generatedAt: new Date(),
-        generatedBy: userId || "anonymous",
-        size: JSON.stringify(reportData).length,
-      };
+        reportData,
+        userId,
+      );
 
       const updated = [report, ...recentReports].slice(
         0,
@@ -103,12 +112,22 @@ export function useReportingMutations(
       reportId: string;
       schedule: ReportSchedule;
     }) => {
+      if (!userId) throw new Error("User ID is required to schedule reports");
+
+      const stored = await ScheduledReportService.scheduleReport(
+        userId,
+        reportId,
+        schedule,
+      );
       const scheduledReport: ScheduledReport = {
-        id: `schedule-${Date.now()}`,
+        id: stored.id,
         reportId,
         schedule,
-        nextRun: calculateNextRun(schedule),
+        nextRun: stored.nextRun,
       };
+      await queryClient.invalidateQueries({
+        queryKey: ["reports", "schedules", userId],
+      });
 
       logger.info("Report scheduled", {
         reportId,
@@ -130,7 +149,8 @@ export function useReportingMutations(
       const report = recentReports.find((r) => r.id === reportId);
       if (!report) throw new Error("Report not found");
 
-      const exportDataResult = await exportReportData(report, format);
+      const locale = await loadLocaleOptions(userId);
+      const exportDataResult = await exportReportData(report, format, locale);
 
       const exportResult: ReportExport = {
         id: `export-${Date.now()}`,
@@ -160,7 +180,9 @@ export function useReportingMutations(
       filters: DataFilter[];
       format: ExportFormat;
     }) => {
-      const rawData = await getRawData(dataType, filters);
+      if (!userId) throw new Error("User ID is required to export data");
+
+      const rawData = await ReportEngine.getRawData(userId, dataType, filters);
       const exportResult = await exportData(rawData, format);
 
       const dataExport: DataExport = {
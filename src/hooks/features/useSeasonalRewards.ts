@@ -4,32 +4,90 @@
  */
 
 import { useCallback } from "react";
-import { Season } from "../../types/gamification";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import {
+  BadgeCategory,
+  PlayerProfile,
+  Season,
+  SeasonRewardClaim,
+} from "../../types/gamification";
 import { logger } from "../../utils/logging";
+import { GamificationStorageService } from "../../services/gamificationStorage";
+import { SeasonService } from "../../services/SeasonService";
 
 export function useSeasonalRewards(
   currentSeason: Season | null | undefined,
   userId: string,
 ) {
+  const queryClient = useQueryClient();
+
   const getSeasonalRewards = useCallback(
     async () => currentSeason?.rewards || [],
     [currentSeason],
   );
 
-  const claimSeasonalReward = useCallback(
-    async (rewardId: string) => {
-      logger.info("Seasonal reward claimed", { rewardId, userId });
-      await new Promise((resolve) => setTimeout(resolve, 500));
+  const claimRewardMutation = useMutation({
+    mutationFn: async (rewardId: string): Promise<SeasonRewardClaim> => {
+      const claim = await SeasonService.claimReward(userId, rewardId);
+
+      // Badges go on the player profile the first time they're claimed
+      const profile = queryClient.getQueryData<PlayerProfile>([
+        "gamification",
+        "profile",
+        userId,
+      ]);
+      if (!claim.alreadyClaimed && claim.reward.type === "badge" && profile) {
+        const { reward } = claim;
+        const updatedProfile: PlayerProfile = {
+          ...profile,
+          badges: [
+            ...profile.badges,
+            {
+              id: reward.id,
+              name: reward.name,
+              description: reward.description,
+              category: BadgeCategory.SEASONAL,
+              iconUrl: "/badges/seasonal.png",
+              rarity:
+                reward.requirement.type === "challenge_goal" ? "epic" : "rare",
+              earnedAt: reward.claimedAt ?? new Date(),
+              requirements: [],
+              hidden: false,
+            },
+          ],
+          stats: {
+            ...profile.stats,
+            badgesEarned: profile.stats.badgesEarned + 1,
+          },
+        };
+        GamificationStorageService.setPlayerProfile(updatedProfile);
+        queryClient.setQueryData(
+          ["gamification", "profile", userId],
+          updatedProfile,
+        );
+      }
+
+      await queryClient.invalidateQueries({
+        queryKey: ["gamification", "season", userId],
+      });
+
+      logger.info("Seasonal reward claimed", {
+        rewardId,
+        userId,
+        seasonId: claim.seasonId,
+        alreadyClaimed: claim.alreadyClaimed,
+      });
+      return claim;
     },
-    [userId],
-  );
+  });
 
   const hasUnclaimedRewards =
-    currentSeason?.rewards.some((r) => !r.claimed) || false;
+    currentSeason?.rewards.some((r) => r.unlocked && !r.claimed) || false;
 
   return {
     getSeasonalRewards,
-    claimSeasonalReward,
+    claimSeasonalReward: claimRewardMutation.mutateAsync,
     hasUnclaimedRewards,
+    isClaimingReward: claimRewardMutation.isPending,
   };
 }
@@ -7,7 +7,19 @@ import {
   DocumentReference,
 } from "firebase/firestore";
 import { db } from "../../firebase";
-import { KeyholderSession, KeyholderPermissions } from "../../types";
+import {
+  KeyholderSession,
+  KeyholderPermissions,
+  UnlockSchedule,
+  UnlockScheduleStatus,
+} from "../../types";
+import {
+  assertUnlockAllowed,
+  fromStoredUnlockSchedule,
+  getUnlockScheduleStatus,
+  toStoredUnlockSchedule,
+  validateUnlockSchedule,
+} from "../../utils/keyholder/unlockSchedule";
 
 interface UseKeyholderSessionProps {
   userId: string;
@@ -30,8 +42,14 @@ interface UseKeyholderSessionReturn {
     permissions: Partial<KeyholderPermissions>,
   ) => Promise<void>;
   updateKeyholderName: (name: string) => Promise<void>;
+  unlockStatus: UnlockScheduleStatus;
+  /** Pass null to clear the schedule */
+  setUnlockSchedule: (schedule: UnlockSchedule | null) => Promise<void>;
+  checkIn: () => Promise<void>;
 }
 
+const MAX_TIMEOUT_MS = 2 ** 31 - 1;
+
 const defaultPermissions: KeyholderPermissions = {
   canLockSessions: false,
   canUnlockSessions: false,
@@ -70,13 +88,21 @@ export function useKeyholderSession({
     });
   }, [isAuthReady, userId, keyholderName, getKeyholderDocRef]);
 
-  const { startSession, endSession, updatePermissions, updateKeyholderName } =
-    useSessionActions({
-      userId,
-      keyholderSession,
-      getKeyholderDocRef,
-      setError,
-    });
+  const {
+    startSession,
+    endSession,
+    updatePermissions,
+    updateKeyholderName,
+    setUnlockSchedule,
+    checkIn,
+  } = useSessionActions({
+    userId,
+    keyholderSession,
+    getKeyholderDocRef,
+    setError,
+  });
+
+  useSilentRelease(keyholderSession, getKeyholderDocRef, setError);
 
   return {
     keyholderSession,
@@ -88,9 +114,42 @@ export function useKeyholderSession({
     endSession,
     updatePermissions,
     updateKeyholderName,
+    unlockStatus: getUnlockScheduleStatus(keyholderSession?.unlockSchedule),
+    setUnlockSchedule,
+    checkIn,
   };
 }
 
+// Ends keyholder control once the keyholder has missed check-ins for the
+// schedule's silent release period
+function useSilentRelease(
+  keyholderSession: KeyholderSession | null,
+  getKeyholderDocRef: () => DocumentReference | null,
+  reportError: (value: string | null) => void,
+) {
+  const isActive = keyholderSession?.isActive ?? false;
+  const autoReleaseAt = getUnlockScheduleStatus(
+    keyholderSession?.unlockSchedule,
+  ).autoReleaseAt?.getTime();
+
+  useEffect(() => {
+    if (!isActive || autoReleaseAt === undefined) return;
+
+    // setTimeout overflows past ~24.8 days; the effect re-runs on the next
+    // check-in or reload, so waiting the maximum is enough
+    const delay = Math.min(
+      Math.max(autoReleaseAt - Date.now(), 0),
+      MAX_TIMEOUT_MS,
+    );
+    const timer = setTimeout(() => {
+      if (Date.now() >= autoReleaseAt) {
+        handleEndSession(null, getKeyholderDocRef, reportError).catch(() => {});
+      }
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isActive, autoReleaseAt, getKeyholderDocRef, reportError]);
+}
+
 // Hook to setup listener and handle cleanup
 function setupKeyholderListener(params: {
   isAuthReady: boolean;
@@ -159,8 +218,12 @@ function useSessionActions(params: {
   );
 
   const endSession = useCallback(async () => {
-    await handleEndSession(getKeyholderDocRef, setError);
-  }, [getKeyholderDocRef, setError]);
+    await handleEndSession(
+      keyholderSession?.unlockSchedule ?? null,
+      getKeyholderDocRef,
+      setError,
+    );
+  }, [keyholderSession, getKeyholderDocRef, setError]);
 
   const updatePermissions = useCallback(
     async (newPermissions: Partial<KeyholderPermissions>) => {
@@ -186,7 +249,30 @@ function useSessionActions(params: {
     [userId, getKeyholderDocRef, setError],
   );
 
-  return { startSession, endSession, updatePermissions, updateKeyholderName };
+  const setUnlockSchedule = useCallback(
+    async (schedule: UnlockSchedule | null) => {
+      await handleSetUnlockSchedule(
+        keyholderSession,
+        schedule,
+        getKeyholderDocRef,
+        setError,
+      );
+    },
+    [keyholderSession, getKeyholderDocRef, setError],
+  );
+
+  const checkIn = useCallback(async () => {
+    await handleCheckIn(keyholderSession, getKeyholderDocRef, setError);
+  }, [keyholderSession, getKeyholderDocRef, setError]);
+
+  return {
+    startSession,
+    endSession,
+    updatePermissions,
+    updateKeyholderName,
+    setUnlockSchedule,
+    checkIn,
+  };
 }
 
 // Helper functions for useKeyholderSession
@@ -209,6 +295,9 @@ function setupSessionListener(
             startTime: data.startTime?.toDate(),
             endTime: data.endTime?.toDate(),
             permissions: { ...defaultPermissions, ...data.permissions },
+            unlockSchedule: data.unlockSchedule
+              ? fromStoredUnlockSchedule(data.unlockSchedule)
+              : undefined,
           };
           setKeyholderSession(session);
         } else {
@@ -275,18 +364,22 @@ async function handleStartSession(
   }
 }
 
+// A null schedule skips the unlock check, for the silent release
 async function handleEndSession(
+  unlockSchedule: UnlockSchedule | null,
   getKeyholderDocRef: () => DocumentReference | null,
   setError: (value: string | null) => void,
 ): Promise<void> {
   try {
     setError(null);
+    assertUnlockAllowed(unlockSchedule ?? undefined);
     const keyholderDocRef = getKeyholderDocRef();
     if (!keyholderDocRef) return;
 
     await updateDoc(keyholderDocRef, {
       isActive: false,
       endTime: new Date(),
+      unlockSchedule: null,
     });
   } catch (err) {
     setError(
@@ -358,3 +451,56 @@ async function handleUpdateKeyholderName(
     throw err;
   }
 }
+
+async function handleSetUnlockSchedule(
+  keyholderSession: KeyholderSession | null,
+  schedule: UnlockSchedule | null,
+  getKeyholderDocRef: () => DocumentReference | null,
+  setError: (value: string | null) => void,
+): Promise<void> {
+  try {
+    setError(null);
+    if (!keyholderSession || !keyholderSession.isActive) {
+      throw new Error("No active keyholder session to schedule");
+    }
+    const problem = schedule && validateUnlockSchedule(schedule);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    const keyholderDocRef = getKeyholderDocRef();
+    if (!keyholderDocRef) return;
+
+    await updateDoc(keyholderDocRef, {
+      unlockSchedule: schedule ? toStoredUnlockSchedule(schedule) : null,
+    });
+  } catch (err) {
+    setError(
+      err instanceof Error ? err.message : "Failed to update unlock schedule",
+    );
+    throw err;
+  }
+}
+
+async function handleCheckIn(
+  keyholderSession: KeyholderSession | null,
+  getKeyholderDocRef: () => DocumentReference | null,
+  setError: (value: string | null) => void,
+): Promise<void> {
+  try {
+    setError(null);
+    if (!keyholderSession?.isActive || !keyholderSession.unlockSchedule) {
+      throw new Error("No unlock schedule to check in to");
+    }
+
+    const keyholderDocRef = getKeyholderDocRef();
+    if (!keyholderDocRef) return;
+
+    await updateDoc(keyholderDocRef, {
+      "unlockSchedule.lastCheckInAt": new Date(),
+    });
+  } catch (err) {
+    setError(err instanceof Error ? err.message : "Failed to check in");
+    throw err;
+  }
+}
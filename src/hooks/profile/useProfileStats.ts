@@ -4,7 +4,13 @@
  */
 
 import { useMemo } from "react";
-import { FaChartBar, FaTrophy, FaClock, FaHeart } from "../../utils/iconImport";
+import {
+  FaChartBar,
+  FaTrophy,
+  FaClock,
+  FaHeart,
+  FaHourglassHalf,
+} from "../../utils/iconImport";
 import type { PublicProfile } from "./usePublicProfile";
 
 export interface StatItem {
@@ -31,7 +37,7 @@ export const useProfileStats = (profile: PublicProfile | null) => {
       return [];
     }
 
-    return [
+    const items: StatItem[] = [
       {
         label: "Total Sessions",
         value: profile.stats.totalSessions,
@@ -57,6 +63,19 @@ export const useProfileStats = (profile: PublicProfile | null) => {
         color: "text-red-400",
       },
     ];
+
+    // Hidden-timer sessions never expose the remaining time publicly
+    const session = profile.currentSession;
+    if (session && !session.isTimerHidden && session.remainingSeconds) {
+      items.push({
+        label: "Time Remaining",
+        value: formatDuration(session.remainingSeconds),
+        icon: FaHourglassHalf,
+        color: "text-nightly-aquamarine",
+      });
+    }
+
+    return items;
   }, [profile]);
 
   const isPrivate = !profile?.shareStatistics;
@@ -21,6 +21,10 @@ export interface PublicProfile {
     totalChastityTime: number; // in seconds
     streakDays: number;
   };
+  currentSession?: {
+    remainingSeconds?: number;
+    isTimerHidden: boolean; // Remaining time is only shown to the keyholder
+  };
   badges: Array<{
     id: string;
     name: string;
@@ -16,31 +16,29 @@ import {
   AuditOutcome,
   AuditFilter,
   AuditSearchQuery,
+  AuditChainVerification,
   SecurityEvent,
   SecurityAuditSummary,
   ComplianceReport,
-  ExportFormat,
   AuditExport,
   AuditPrivacySettings,
+  ExportFormat,
   CleanupResult as _CleanupResult,
 } from "../../types/security";
 import { PermissionContext } from "../../types/security";
 import {
-  getCategoryForAction,
   getClientIP,
-  saveAuditEntry,
-  fetchRecentAuditEntries,
   savePrivacySettings,
-  applyAuditFilters,
-  convertToCSV,
-  generatePDF,
   calculateSecurityScore,
   generateSecurityRecommendations,
-  applyTextSearch,
-  applySearchFilters,
-  applySorting,
-  applyPagination,
 } from "../../utils/security/audit-utils";
+import {
+  AuditLogService,
+  type AuditRecordInput,
+} from "../../services/AuditLogService";
+
+/** Entries kept in memory for the summary values */
+const RECENT_ENTRY_LIMIT = 100;
 
 interface UseAuditLogOptions {
   userId: string;
@@ -86,10 +84,7 @@ export const useAuditLog = (options: UseAuditLogOptions) => {
   );
 
   // Create query handlers
-  const queryHandlers = useMemo(
-    () => createQueryHandlers(auditState),
-    [auditState],
-  );
+  const queryHandlers = useMemo(() => createQueryHandlers(userId), [userId]);
 
   // Create management handlers
   const managementHandlers = useMemo(
@@ -132,7 +127,7 @@ function initializeAuditState(retentionDays: number): AuditLogState {
     categories: Object.values(AuditCategory),
     filters: {},
     exportOptions: {
-      formats: ["json", "csv", "pdf"],
+      formats: ["json", "csv"],
       maxRecords: 10000,
       includeMetadata: true,
     },
@@ -148,7 +143,7 @@ function initializeAuditState(retentionDays: number): AuditLogState {
 
 async function loadAuditEntries(
   userId: string,
-  relationshipId: string | undefined,
+  _relationshipId: string | undefined,
   setAuditState: Dispatch<SetStateAction<AuditLogState>>,
   setError: Dispatch<SetStateAction<string | null>>,
   setIsLoading: Dispatch<SetStateAction<boolean>>,
@@ -157,7 +152,7 @@ async function loadAuditEntries(
     setIsLoading(true);
     setError(null);
 
-    const entries = await fetchRecentAuditEntries(userId, relationshipId);
+    const entries = await AuditLogService.getRecent(userId, RECENT_ENTRY_LIMIT);
 
     setAuditState((prev) => ({
       ...prev,
@@ -176,18 +171,15 @@ async function createSecurityEventEntry(
   userId: string,
   relationshipId: string | undefined,
   auditState: AuditLogState,
-): Promise<AuditEntry> {
+): Promise<AuditRecordInput> {
   const details: AuditDetails = {
     description: event.description,
     metadata: event.metadata,
   };
 
   return {
-    id: `security_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-    timestamp: new Date(),
     userId,
     action: AuditAction.PERMISSION_CHECK,
-    category: AuditCategory.SECURITY,
     context: { relationshipId },
     details,
     severity: event.severity,
@@ -210,53 +202,42 @@ function createActionHandlers(
   auditState: AuditLogState,
   setAuditState: Dispatch<SetStateAction<AuditLogState>>,
 ) {
+  // Persist an entry and show it at the top of the recent list
+  const recordEntry = async (input: AuditRecordInput): Promise<void> => {
+    const entry = await AuditLogService.record(input);
+    if (!entry) return;
+    setAuditState((prev) => ({
+      ...prev,
+      recentEntries: [
+        entry,
+        ...prev.recentEntries.slice(0, RECENT_ENTRY_LIMIT - 1),
+      ],
+    }));
+  };
+
   const logAction = async (
     action: AuditAction,
     details: AuditDetails,
     context?: AuditContext,
   ): Promise<void> => {
-    try {
-      const entry: AuditEntry = {
-        id: `audit_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-        timestamp: new Date(),
-        userId,
-        action,
-        category: getCategoryForAction(action),
-        context: context || { relationshipId },
-        details,
-        severity: AuditSeverity.LOW,
-        outcome: AuditOutcome.SUCCESS,
-        ipAddress: auditState.privacySettings.includeIPAddresses
-          ? await getClientIP()
-          : undefined,
-        userAgent: auditState.privacySettings.includeUserAgent
-          ? navigator.userAgent
-          : undefined,
-      };
-
-      await saveAuditEntry(entry);
-      setAuditState((prev) => ({
-        ...prev,
-        recentEntries: [entry, ...prev.recentEntries.slice(0, 99)],
-      }));
-    } catch {
-      // Failed to log audit action
-    }
+    await recordEntry({
+      userId,
+      action,
+      context: context || { relationshipId },
+      details,
+      ipAddress: auditState.privacySettings.includeIPAddresses
+        ? await getClientIP()
+        : undefined,
+      userAgent: auditState.privacySettings.includeUserAgent
+        ? navigator.userAgent
+        : undefined,
+    });
   };
 
   const logSecurityEvent = async (event: SecurityEvent): Promise<void> => {
-    const entry = await createSecurityEventEntry(
-      event,
-      userId,
-      relationshipId,
-      auditState,
+    await recordEntry(
+      await createSecurityEventEntry(event, userId, relationshipId, auditState),
     );
-
-    await saveAuditEntry(entry);
-    setAuditState((prev) => ({
-      ...prev,
-      recentEntries: [entry, ...prev.recentEntries.slice(0, 99)],
-    }));
   };
 
   const logPermissionCheck = async (
@@ -279,43 +260,51 @@ function createActionHandlers(
   return { logAction, logSecurityEvent, logPermissionCheck };
 }
 
-function createQueryHandlers(auditState: AuditLogState) {
+// Query handlers read the whole persisted log, not just the recent entries
+function createQueryHandlers(userId: string) {
+  const searchEntries = async (
+    query: AuditSearchQuery,
+  ): Promise<AuditEntry[]> => {
+    return AuditLogService.search(userId, query);
+  };
+
   const getEntriesByDateRange = async (
     start: Date,
     end: Date,
   ): Promise<AuditEntry[]> => {
-    return auditState.recentEntries.filter(
-      (entry) => entry.timestamp >= start && entry.timestamp <= end,
-    );
+    return searchEntries({
+      query: "",
+      filters: { startDate: start, endDate: end },
+    });
   };
 
   const getEntriesByCategory = async (
     category: AuditCategory,
   ): Promise<AuditEntry[]> => {
-    return auditState.recentEntries.filter(
-      (entry) => entry.category === category,
-    );
+    return searchEntries({ query: "", filters: { categories: [category] } });
   };
 
   const getEntriesByUser = async (
     targetUserId: string,
   ): Promise<AuditEntry[]> => {
-    return auditState.recentEntries.filter(
+    const entries = await searchEntries({ query: "" });
+    return entries.filter(
       (entry) =>
         entry.userId === targetUserId ||
         entry.context.targetUserId === targetUserId,
     );
   };
 
-  const searchEntries = async (
-    query: AuditSearchQuery,
-  ): Promise<AuditEntry[]> => {
-    let results = auditState.recentEntries;
-    results = applyTextSearch(results, query.query);
-    results = applySearchFilters(results, query.filters);
-    results = applySorting(results, query.sortBy, query.sortOrder);
-    results = applyPagination(results, query.limit, query.offset);
-    return results;
+  const exportAuditLog = async (
+    format: ExportFormat,
+    filters?: AuditFilter,
+  ): Promise<AuditExport> => {
+    return AuditLogService.exportLog(userId, format, filters);
+  };
+
+  // Detects edited or deleted entries in the persisted chain
+  const verifyIntegrity = async (): Promise<AuditChainVerification> => {
+    return AuditLogService.verify(userId);
   };
 
   return {
@@ -323,6 +312,8 @@ function createQueryHandlers(auditState: AuditLogState) {
     getEntriesByCategory,
     getEntriesByUser,
     searchEntries,
+    exportAuditLog,
+    verifyIntegrity,
   };
 }
 
@@ -357,48 +348,6 @@ function _getComplianceReport(auditState: AuditLogState): ComplianceReport {
   };
 }
 
-// Helper to export audit log (future feature)
-async function _exportAuditLog(
-  auditState: AuditLogState,
-  format: ExportFormat,
-  filters?: AuditFilter,
-): Promise<AuditExport> {
-  let entries = auditState.recentEntries;
-
-  // Apply filters if provided
-  if (filters) {
-    entries = applyAuditFilters(entries, filters);
-  }
-
-  // Generate export data based on format
-  let data: string | Uint8Array;
-  let filename: string;
-
-  switch (format) {
-    case "json":
-      data = JSON.stringify(entries, null, 2);
-      filename = `audit-log-${Date.now()}.json`;
-      break;
-    case "csv":
-      data = convertToCSV(entries);
-      filename = `audit-log-${Date.now()}.csv`;
-      break;
-    case "pdf":
-      data = await generatePDF(entries);
-      filename = `audit-log-${Date.now()}.pdf`;
-      break;
-    default:
-      throw new Error(`Unsupported export format: ${format}`);
-  }
-
-  return {
-    format,
-    data,
-    filename,
-    generatedAt: new Date(),
-  };
-}
-
 // Helper to share with keyholder (future feature)
 async function _shareWithKeyholder(
   _relationshipId: string | undefined,
@@ -0,0 +1,132 @@
+/**
+ * useSessionActions unlock schedule tests
+ * Ending a session from the tracker goes through useSession and the session
+ * database service, which enforce the keyholder's earliest unlock
+ */
+import { describe, it, expect, vi, beforeEach, afterAll } from "vitest";
+import { renderHook, act, waitFor } from "@testing-library/react";
+import { useSessionActions } from "../useSessionActions";
+import { db } from "@/services/storage/ChastityDB";
+import { sessionDBService } from "@/services/database/SessionDBService";
+import { SAFETY_RELEASE_END_REASON } from "@/utils/keyholder/unlockSchedule";
+
+// In-memory database with the tables ending a session writes to
+vi.mock("@/services/storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("UnlockScheduleEndTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    sessions: "&id, userId, [userId+startTime], startTime",
+    events: "&id, userId, [userId+timestamp]",
+  });
+  return { db: testDb };
+});
+
+vi.mock("@/services/GoalTrackerService", () => ({
+  GoalTrackerService: { trackSessionCompletion: vi.fn() },
+}));
+
+vi.mock("@/services/KeyholderRelationshipService", () => ({
+  KeyholderRelationshipService: {
+    getUserRelationships: vi.fn().mockResolvedValue({
+      asSubmissive: [],
+      asKeyholder: [],
+    }),
+  },
+}));
+
+vi.mock("@/services/notifications", () => ({
+  NotificationService: {
+    notifySessionStarted: vi.fn().mockResolvedValue(undefined),
+    notifySessionCompleted: vi.fn().mockResolvedValue(undefined),
+  },
+}));
+
+vi.mock("../usePauseResume", () => ({
+  usePauseResume: vi.fn(() => ({
+    isPaused: false,
+    pauseSession: vi.fn(),
+    resumeSession: vi.fn(),
+    pauseStatus: { isPaused: false, pauseCount: 0, canResume: false },
+    cooldownState: { isInCooldown: false },
+    timeUntilNextPause: 0,
+  })),
+}));
+
+const USER = "wearer-1";
+const HOUR = 60 * 60 * 1000;
+
+const startScheduledSession = async (earliestUnlockAt: Date) => {
+  const sessionId = await sessionDBService.startSession(USER);
+  await sessionDBService.update(sessionId, {
+    unlockSchedule: {
+      earliestUnlockAt,
+      checkInTimes: [],
+      checkInGraceMinutes: 30,
+      setBy: "keyholder-1",
+      setAt: new Date(),
+    },
+  });
+  return sessionId;
+};
+
+const renderActions = async () => {
+  const rendered = renderHook(() => useSessionActions({ userId: USER }));
+  await waitFor(() => expect(rendered.result.current.isActive).toBe(true));
+  return rendered;
+};
+
+describe("useSessionActions with an unlock schedule", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("refuses to end the session before the earliest unlock", async () => {
+    const sessionId = await startScheduledSession(
+      new Date(Date.now() + 24 * HOUR),
+    );
+    const { result } = await renderActions();
+
+    await act(async () => {
+      await expect(result.current.endSession()).rejects.toThrow(
+        "Your keyholder has locked this session",
+      );
+    });
+
+    expect(result.current.error?.message).toContain(
+      "Your keyholder has locked this session",
+    );
+    expect((await sessionDBService.findById(sessionId))?.endTime).toBe(
+      undefined,
+    );
+  });
+
+  it("ends the session once the earliest unlock has passed", async () => {
+    const sessionId = await startScheduledSession(new Date(Date.now() - HOUR));
+    const { result } = await renderActions();
+
+    await act(async () => {
+      await result.current.endSession();
+    });
+
+    expect((await sessionDBService.findById(sessionId))?.endTime).toBeDefined();
+  });
+
+  it("lets the safety release through the schedule", async () => {
+    const sessionId = await startScheduledSession(
+      new Date(Date.now() + 24 * HOUR),
+    );
+
+    await sessionDBService.endSession(
+      sessionId,
+      new Date(),
+      SAFETY_RELEASE_END_REASON,
+    );
+
+    expect((await sessionDBService.findById(sessionId))?.endTime).toBeDefined();
+  });
+});
@@ -3,6 +3,11 @@
  * Extracted for better code organization
  */
 
+import type {
+  RandomDurationDistribution,
+  RandomGoalRecord,
+} from "../../../types/goals";
+
 export interface SessionGoal {
   id: string;
   type: GoalType;
@@ -20,6 +25,7 @@ export interface SessionGoal {
   completedAt?: Date;
   description?: string;
   tags?: string[];
+  randomRoll?: RandomGoalRecord; // Set when the target was rolled from a range
 }
 
 export interface GoalTarget {
@@ -109,6 +115,7 @@ export interface CreateGoalRequest {
   description?: string;
   tags?: string[];
   isRequired?: boolean;
+  randomize?: RandomDurationDistribution; // Roll a "range" duration target
 }
 
 export interface GoalCustomization {
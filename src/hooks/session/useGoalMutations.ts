@@ -5,6 +5,7 @@
 import { useCallback } from "react";
 import type { Dispatch, SetStateAction } from "react";
 import { serviceLogger } from "../../utils/logging";
+import { rollGoalTarget } from "../../utils/goals/randomDuration";
 import type {
   SessionGoal,
   CreateGoalRequest,
@@ -32,11 +33,16 @@ export const useGoalMutations = ({
       try {
         logger.debug("Creating new goal", { userId, goalRequest });
 
+        // Dice-roll goals resolve their range once, at creation
+        const rolled = goalRequest.randomize
+          ? rollGoalTarget(goalRequest.target, goalRequest.randomize)
+          : null;
+
         const newGoal: SessionGoal = {
           id: `goal_${Date.now()}`,
           type: goalRequest.type,
           category: goalRequest.category,
-          target: goalRequest.target,
+          target: rolled?.target ?? goalRequest.target,
           current: 0,
           progress: 0,
           assignedBy: "self",
@@ -47,6 +53,7 @@ export const useGoalMutations = ({
           createdAt: new Date(),
           description: goalRequest.description,
           tags: goalRequest.tags,
+          randomRoll: rolled?.record,
         };
 
         setActiveGoals((prev) => [...prev, newGoal]);
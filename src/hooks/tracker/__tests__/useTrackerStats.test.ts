@@ -4,17 +4,20 @@
 import { renderHook } from "@testing-library/react";
 import { describe, it, expect, vi } from "vitest";
 import { useTrackerStats } from "../useTrackerStats";
+import { useSessionTimer } from "../../useSessionTimer";
 import type { DBSession } from "../../../types/database";
 
 // Mock the useSessionTimer hook
 vi.mock("../../useSessionTimer", () => ({
-  useSessionTimer: () => ({
+  useSessionTimer: vi.fn(() => ({
     effectiveTimeFormatted: "1h 30m 45s",
     isPaused: false,
     currentPauseDurationFormatted: "0h 0m 0s",
     totalElapsedTimeFormatted: "1h 35m 20s",
     isActive: true,
-  }),
+    remainingGoalTime: 5400,
+    goalProgress: 50,
+  })),
 }));
 
 describe("useTrackerStats", () => {
@@ -52,6 +55,33 @@ describe("useTrackerStats", () => {
     expect(result.current.displayData.isPaused).toBe(false);
   });
 
+  it("should report the session goal with time adjustments applied", () => {
+    const mockSession: DBSession = {
+      id: "session-1",
+      userId: "user-1",
+      startTime: new Date(),
+      goalDuration: 7200,
+      isPaused: false,
+      accumulatedPauseTime: 0,
+      isHardcoreMode: false,
+      keyholderApprovalRequired: false,
+      syncStatus: "synced",
+      lastModified: new Date(),
+    };
+
+    const { result } = renderHook(() =>
+      useTrackerStats({ currentSession: mockSession, adjustmentSeconds: 3600 }),
+    );
+
+    expect(useSessionTimer).toHaveBeenCalledWith(mockSession, {
+      adjustmentSeconds: 3600,
+    });
+    expect(result.current.sessionGoal).toEqual({
+      remaining: 5400,
+      progress: 50,
+    });
+  });
+
   it("should use legacy props when currentSession is not provided", () => {
     const { result } = renderHook(() =>
       useTrackerStats({
@@ -7,6 +7,7 @@ import {
 
 export interface UseTrackerStatsProps {
   currentSession?: DBSession | null;
+  adjustmentSeconds?: number; // Net time from the adjustment ledger
   // Legacy props for backward compatibility
   topBoxLabel?: string;
   topBoxTime?: string;
@@ -44,12 +45,31 @@ export interface UseTrackerStatsReturn {
     totalCageOffTimeFormatted: string;
   };
 
+  // Remaining time is hidden from the submissive for this session
+  isTimerHidden: boolean;
+
+  // Session goal including time adjustments, when the session has one
+  sessionGoal: { remaining: number; progress: number } | null;
+
   // State
   isLoading: boolean;
 }
 
+// Session goal including time adjustments, or null without a goal
+const getSessionGoal = (
+  session: DBSession | null | undefined,
+  timerData: ReturnType<typeof useSessionTimer>,
+): UseTrackerStatsReturn["sessionGoal"] =>
+  session?.goalDuration
+    ? {
+        remaining: timerData.remainingGoalTime,
+        progress: timerData.goalProgress,
+      }
+    : null;
+
 export const useTrackerStats = ({
   currentSession,
+  adjustmentSeconds = 0,
   topBoxLabel: legacyTopBoxLabel = "Total Locked Time",
   topBoxTime,
   mainChastityDisplayTime = 0,
@@ -62,7 +82,7 @@ export const useTrackerStats = ({
   totalTimeCageOff = 0,
 }: UseTrackerStatsProps): UseTrackerStatsReturn => {
   // Use the session timer hook for real-time updates when session is provided
-  const timerData = useSessionTimer(currentSession);
+  const timerData = useSessionTimer(currentSession, { adjustmentSeconds });
 
   // Use real-time data if session is provided, otherwise fall back to props
   const displayData = currentSession
@@ -110,6 +130,8 @@ export const useTrackerStats = ({
   return {
     displayData,
     stats,
+    isTimerHidden: currentSession ? timerData.isRemainingTimeHidden : false,
+    sessionGoal: getSessionGoal(currentSession, timerData),
     isLoading: false, // Could be connected to actual loading states in the future
   };
 };
@@ -0,0 +1,118 @@
+/**
+ * Backup Import Hook
+ * Restores backup files, prompting for a passphrase when the file is encrypted
+ */
+import { useState, useCallback } from "react";
+import { importUserData, type ImportMode } from "@/services/dataManagement";
+import { BackupDecryptionError } from "@/services/data/BackupEncryption";
+import { useToast } from "@/contexts";
+import { serviceLogger } from "@/utils/logging";
+import { useQueryClient } from "@tanstack/react-query";
+
+const logger = serviceLogger("useBackupImport");
+
+interface PendingEncryptedImport {
+  file: File;
+  mode: ImportMode;
+}
+
+export function useBackupImport(userId?: string) {
+  const [isImporting, setIsImporting] = useState(false);
+  const [pendingEncryptedImport, setPendingEncryptedImport] =
+    useState<PendingEncryptedImport | null>(null);
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const { showSuccess, showError } = useToast();
+  const queryClient = useQueryClient();
+
+  const runImport = useCallback(
+    async (file: File, mode: ImportMode, passphrase?: string) => {
+      if (!userId) {
+        showError("User not authenticated");
+        return;
+      }
+
+      setIsImporting(true);
+      try {
+        const result = await importUserData(file, userId, { mode, passphrase });
+        const importedCount = Object.values(result.tables).reduce(
+          (total, table) => total + (table?.imported ?? 0),
+          0,
+        );
+        setPendingEncryptedImport(null);
+        setPassphraseError(null);
+        showSuccess(
+          mode === "merge"
+            ? `Merged ${importedCount} records from backup! Reloading...`
+            : "Data imported successfully! Reloading...",
+        );
+        logger.info("Data import completed", { userId, result });
+
+        // Invalidate all queries to refetch fresh data
+        queryClient.invalidateQueries();
+
+        // Reload page after a short delay
+        setTimeout(() => {
+          window.location.reload();
+        }, 2000);
+      } catch (error) {
+        // Encrypted backups: ask for (another) passphrase instead of failing
+        if (
+          error instanceof BackupDecryptionError &&
+          error.reason !== "corrupted"
+        ) {
+          setPendingEncryptedImport({ file, mode });
+          setPassphraseError(
+            error.reason === "wrong_passphrase" ? error.message : null,
+          );
+          return;
+        }
+
+        logger.error("Import failed", { error, userId });
+        setPendingEncryptedImport(null);
+        showError(
+          `Failed to import data: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      } finally {
+        setIsImporting(false);
+      }
+    },
+    [userId, showSuccess, showError, queryClient],
+  );
+
+  const handleImport = useCallback(
+    async (file: File, mode: ImportMode = "replace") => {
+      if (!file) {
+        showError("No file selected");
+        return;
+      }
+      await runImport(file, mode);
+    },
+    [runImport, showError],
+  );
+
+  const submitImportPassphrase = useCallback(
+    async (passphrase: string) => {
+      if (!pendingEncryptedImport) return;
+      await runImport(
+        pendingEncryptedImport.file,
+        pendingEncryptedImport.mode,
+        passphrase,
+      );
+    },
+    [pendingEncryptedImport, runImport],
+  );
+
+  const cancelEncryptedImport = useCallback(() => {
+    setPendingEncryptedImport(null);
+    setPassphraseError(null);
+  }, []);
+
+  return {
+    handleImport,
+    submitImportPassphrase,
+    cancelEncryptedImport,
+    isImporting,
+    needsImportPassphrase: pendingEncryptedImport !== null,
+    passphraseError,
+  };
+}
@@ -3,24 +3,59 @@
  * Provides export/import functionality for user data
  */
 import { useState, useCallback } from "react";
+import { exportUserData, downloadDataAsJSON } from "@/services/dataManagement";
+import { encryptBackup } from "@/services/data/BackupEncryption";
 import {
-  exportUserData,
-  downloadDataAsJSON,
-  importUserData,
-} from "@/services/dataManagement";
+  exportHistoryAsCSV,
+  exportHistoryAsICalendar,
+  downloadDataAsCSV,
+  downloadDataAsICS,
+} from "@/services/data/HistoryExportService";
 import { useToast } from "@/contexts";
 import { serviceLogger } from "@/utils/logging";
-import { useQueryClient } from "@tanstack/react-query";
+import { useBackupImport } from "./useBackupImport";
 
 const logger = serviceLogger("useDataManagement");
 
 export function useDataManagement(userId?: string, userEmail?: string) {
   const [isExporting, setIsExporting] = useState(false);
-  const [isImporting, setIsImporting] = useState(false);
   const { showSuccess, showError } = useToast();
-  const queryClient = useQueryClient();
+  const backupImport = useBackupImport(userId);
 
-  const handleExport = useCallback(async () => {
+  const handleExport = useCallback(
+    async (passphrase?: string) => {
+      if (!userId) {
+        showError("User not authenticated");
+        return;
+      }
+
+      setIsExporting(true);
+      try {
+        const jsonData = await exportUserData(userId, userEmail);
+        const fileData = passphrase
+          ? await encryptBackup(jsonData, passphrase)
+          : jsonData;
+        downloadDataAsJSON(fileData, userId, !!passphrase);
+        showSuccess(
+          passphrase
+            ? "Encrypted backup exported successfully!"
+            : "Data exported successfully!",
+        );
+        logger.info("Data export completed", {
+          userId,
+          encrypted: !!passphrase,
+        });
+      } catch (error) {
+        logger.error("Export failed", { error, userId });
+        showError("Failed to export data. Please try again.");
+      } finally {
+        setIsExporting(false);
+      }
+    },
+    [userId, userEmail, showSuccess, showError],
+  );
+
+  const handleExportCSV = useCallback(async () => {
     if (!userId) {
       showError("User not authenticated");
       return;
@@ -28,59 +63,42 @@ export function useDataManagement(userId?: string, userEmail?: string) {
 
     setIsExporting(true);
     try {
-      const jsonData = await exportUserData(userId, userEmail);
-      downloadDataAsJSON(jsonData, userId);
-      showSuccess("Data exported successfully!");
-      logger.info("Data export completed", { userId });
+      const csv = await exportHistoryAsCSV(userId);
+      downloadDataAsCSV(csv.sessions, userId, "sessions");
+      downloadDataAsCSV(csv.events, userId, "events");
+      showSuccess("Session and event history exported as CSV!");
     } catch (error) {
-      logger.error("Export failed", { error, userId });
-      showError("Failed to export data. Please try again.");
+      logger.error("CSV export failed", { error, userId });
+      showError("Failed to export CSV. Please try again.");
     } finally {
       setIsExporting(false);
     }
-  }, [userId, userEmail, showSuccess, showError]);
-
-  const handleImport = useCallback(
-    async (file: File) => {
-      if (!userId) {
-        showError("User not authenticated");
-        return;
-      }
+  }, [userId, showSuccess, showError]);
 
-      if (!file) {
-        showError("No file selected");
-        return;
-      }
-
-      setIsImporting(true);
-      try {
-        await importUserData(file, userId);
-        showSuccess("Data imported successfully! Reloading...");
-        logger.info("Data import completed", { userId });
-
-        // Invalidate all queries to refetch fresh data
-        queryClient.invalidateQueries();
+  const handleExportCalendar = useCallback(async () => {
+    if (!userId) {
+      showError("User not authenticated");
+      return;
+    }
 
-        // Reload page after a short delay
-        setTimeout(() => {
-          window.location.reload();
-        }, 2000);
-      } catch (error) {
-        logger.error("Import failed", { error, userId });
-        showError(
-          `Failed to import data: ${error instanceof Error ? error.message : "Unknown error"}`,
-        );
-      } finally {
-        setIsExporting(false);
-      }
-    },
-    [userId, showSuccess, showError, queryClient],
-  );
+    setIsExporting(true);
+    try {
+      const ics = await exportHistoryAsICalendar(userId);
+      downloadDataAsICS(ics, userId);
+      showSuccess("History exported as calendar file!");
+    } catch (error) {
+      logger.error("Calendar export failed", { error, userId });
+      showError("Failed to export calendar. Please try again.");
+    } finally {
+      setIsExporting(false);
+    }
+  }, [userId, showSuccess, showError]);
 
   return {
     handleExport,
-    handleImport,
+    handleExportCSV,
+    handleExportCalendar,
     isExporting,
-    isImporting,
+    ...backupImport,
   };
 }
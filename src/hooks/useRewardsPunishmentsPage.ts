@@ -0,0 +1,98 @@
+import { useState, useMemo } from "react";
+import {
+  useUserTimeAdjustments,
+  useTimeAdjustmentMutations,
+} from "./api/useTimeAdjustments";
+import type { RewardPunishmentLog } from "../components/rewards_punishments";
+import type { DBTimeAdjustment } from "@/types/database";
+import { TIME_ADJUSTMENT_SOURCE_LABELS } from "@/utils/formatting/timeAdjustments";
+
+type LogFilter = "all" | "rewards" | "punishments";
+
+const SOURCE_MAP: Record<
+  DBTimeAdjustment["source"],
+  RewardPunishmentLog["source"]
+> = {
+  task_approval: "task_completion",
+  task_rejection: "task_completion",
+  rule_violation: "rule_violation",
+  verification_missed: "rule_violation",
+  keyholder: "keyholder_action",
+  reward: "keyholder_action",
+};
+
+// Helper to convert a ledger entry to a log item for the UI
+const convertToLog = (adjustment: DBTimeAdjustment): RewardPunishmentLog => ({
+  id: adjustment.id,
+  type: adjustment.seconds < 0 ? "reward" : "punishment",
+  title: adjustment.reason,
+  description: TIME_ADJUSTMENT_SOURCE_LABELS[adjustment.source],
+  timeChangeSeconds: adjustment.seconds,
+  source: SOURCE_MAP[adjustment.source],
+  sourceId: adjustment.sourceId,
+  createdAt: adjustment.createdAt,
+  reversedAt: adjustment.reversedAt,
+});
+
+export const useRewardsPunishmentsPage = (userId: string | undefined) => {
+  const { data: adjustments = [], isLoading } = useUserTimeAdjustments(userId);
+  const { addAdjustment, reverseAdjustment } = useTimeAdjustmentMutations();
+  const [filter, setFilter] = useState<LogFilter>("all");
+
+  const logs = useMemo(() => adjustments.map(convertToLog), [adjustments]);
+
+  // Reversed entries stay visible but no longer count in the summary
+  const activeLogs = useMemo(
+    () => logs.filter((log) => !log.reversedAt),
+    [logs],
+  );
+
+  const filteredLogs = useMemo(
+    () =>
+      logs.filter((log) => {
+        if (filter === "rewards") return log.type === "reward";
+        if (filter === "punishments") return log.type === "punishment";
+        return true;
+      }),
+    [logs, filter],
+  );
+
+  /**
+   * @returns false when there is no active session to adjust
+   */
+  const handleManualEntry = async (
+    entry: Omit<RewardPunishmentLog, "id" | "createdAt">,
+  ): Promise<boolean> => {
+    if (!userId) return false;
+
+    const adjustment = await addAdjustment.mutateAsync({
+      userId,
+      seconds: entry.timeChangeSeconds,
+      source: entry.type === "reward" ? "reward" : "keyholder",
+      reason: entry.description
+        ? `${entry.title}: ${entry.description}`
+        : entry.title,
+      createdBy: "keyholder",
+    });
+    return adjustment !== null;
+  };
+
+  const handleReverse = async (adjustmentId: string) => {
+    if (!userId) return;
+    await reverseAdjustment.mutateAsync({
+      adjustmentId,
+      reversedBy: userId,
+    });
+  };
+
+  return {
+    logs,
+    activeLogs,
+    filteredLogs,
+    filter,
+    isLoading,
+    setFilter,
+    handleManualEntry,
+    handleReverse,
+  };
+};
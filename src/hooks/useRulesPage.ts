@@ -12,6 +12,8 @@ const convertToChastityRule = (rule: KeyholderRule): ChastityRule => ({
   createdBy: "keyholder", // Default to keyholder for now
   createdAt: rule.createdAt,
   lastModified: rule.lastModified || new Date(),
+  conditions: rule.conditions,
+  consequences: rule.consequences,
 });
 
 // Helper function to filter and sort rules
@@ -76,6 +78,8 @@ export const useRulesPage = (
           title: ruleData.title,
           description: ruleData.content,
           isActive: ruleData.isActive,
+          conditions: ruleData.conditions,
+          consequences: ruleData.consequences,
         },
       });
     } else {
@@ -86,6 +90,8 @@ export const useRulesPage = (
         title: ruleData.title,
         description: ruleData.content,
         isActive: ruleData.isActive,
+        conditions: ruleData.conditions,
+        consequences: ruleData.consequences,
       });
     }
 
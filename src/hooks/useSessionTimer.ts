@@ -23,6 +23,7 @@ export interface SessionTimerData {
   remainingGoalTime: number; // Seconds remaining to goal
   remainingGoalTimeFormatted: string;
   isGoalCompleted: boolean;
+  isRemainingTimeHidden: boolean; // Hidden-timer session, submissive view
 
   // Cage off time data
   currentCageOffTime: number; // Current session cage off (pause time if paused)
@@ -41,6 +42,7 @@ export interface SessionTimerData {
 export interface UseSessionTimerOptions {
   updateInterval?: number; // Milliseconds, default 1000
   enabled?: boolean; // Enable/disable timer updates, default true
+  adjustmentSeconds?: number; // Net time adjustments added to the goal
 }
 
 /**
@@ -48,8 +50,10 @@ export interface UseSessionTimerOptions {
  */
 export function useSessionTimer(
   session: DBSession | null | undefined,
-  _options: UseSessionTimerOptions = {},
+  options: UseSessionTimerOptions = {},
 ): SessionTimerData {
+  const { adjustmentSeconds = 0 } = options;
+
   // Use shared timer for perfect synchronization across all components
   const currentTime = useSharedTimer();
 
@@ -67,6 +71,10 @@ export function useSessionTimer(
       remainingGoalTime: 0,
       remainingGoalTimeFormatted: "0s",
       isGoalCompleted: false,
+      isRemainingTimeHidden: TimerService.isRemainingTimeHidden(
+        session,
+        currentTime,
+      ),
       currentCageOffTime: 0,
       currentCageOffTimeFormatted: "0s",
       totalSessionPauseTime: 0,
@@ -113,12 +121,18 @@ export function useSessionTimer(
     const goalProgress = TimerService.calculateGoalProgress(
       session,
       currentTime,
+      adjustmentSeconds,
     );
     const remainingGoalTime = TimerService.calculateRemainingGoalTime(
       session,
       currentTime,
+      adjustmentSeconds,
+    );
+    const isGoalCompleted = TimerService.isGoalCompleted(
+      session,
+      currentTime,
+      adjustmentSeconds,
     );
-    const isGoalCompleted = TimerService.isGoalCompleted(session, currentTime);
 
     // Calculate cage off time data
     const currentCageOffTime = TimerService.calculateCurrentCageOffTime(
@@ -143,6 +157,7 @@ export function useSessionTimer(
       remainingGoalTimeFormatted:
         TimerService.formatDuration(remainingGoalTime),
       isGoalCompleted,
+      isRemainingTimeHidden: defaultData.isRemainingTimeHidden,
       currentCageOffTime,
       currentCageOffTimeFormatted:
         TimerService.formatDuration(currentCageOffTime),
@@ -154,7 +169,7 @@ export function useSessionTimer(
       isPaused: session.isPaused,
       currentTime,
     };
-  }, [session, currentTime]);
+  }, [session, currentTime, adjustmentSeconds]);
 
   return timerData;
 }
@@ -194,6 +209,10 @@ export function useMultiSessionTimer(
           remainingGoalTime: 0,
           remainingGoalTimeFormatted: "0s",
           isGoalCompleted: false,
+          isRemainingTimeHidden: TimerService.isRemainingTimeHidden(
+            session,
+            currentTime,
+          ),
           currentCageOffTime: 0,
           currentCageOffTimeFormatted: "0s",
           totalSessionPauseTime: 0,
@@ -251,6 +270,10 @@ export function useMultiSessionTimer(
         remainingGoalTimeFormatted:
           TimerService.formatDuration(remainingGoalTime),
         isGoalCompleted,
+        isRemainingTimeHidden: TimerService.isRemainingTimeHidden(
+          session,
+          currentTime,
+        ),
         currentCageOffTime,
         currentCageOffTimeFormatted:
           TimerService.formatDuration(currentCageOffTime),
@@ -0,0 +1,96 @@
+/**
+ * useTranslation Hook
+ * Provides translated strings and locale-aware formatting based on user
+ * display settings
+ */
+
+import { useCallback, useMemo } from "react";
+import { useAuthState } from "@/contexts/AuthContext";
+import { useUserSettings } from "@/hooks/api/useSettings";
+import {
+  resolveLanguage,
+  translate,
+  type MessageKey,
+  type MessageParams,
+} from "@/utils/i18n";
+import {
+  formatLocalizedDate,
+  formatLocalizedDateTime,
+  formatLocalizedDuration,
+  formatLocalizedTime,
+  getWeekStartsOn,
+  type DisplayFormatSettings,
+  type LocaleOptions,
+} from "@/utils/formatting/locale";
+
+export const useTranslation = () => {
+  const { user } = useAuthState();
+  const { data: settings } = useUserSettings(user?.uid || "");
+
+  const language = resolveLanguage(
+    settings?.display?.language || settings?.language,
+  );
+
+  const display = useMemo<Partial<DisplayFormatSettings>>(
+    () => ({
+      dateFormat: settings?.display?.dateFormat,
+      timeFormat: settings?.display?.timeFormat,
+      startOfWeek: settings?.display?.startOfWeek,
+    }),
+    [
+      settings?.display?.dateFormat,
+      settings?.display?.timeFormat,
+      settings?.display?.startOfWeek,
+    ],
+  );
+
+  // For components that format with the pure helpers in utils/formatting/locale
+  const locale = useMemo<LocaleOptions>(
+    () => ({ display, language }),
+    [display, language],
+  );
+
+  /**
+   * Translate a message key in the user's language
+   * @param key Catalog key
+   * @param params Placeholder values; `count` selects the plural form
+   */
+  const t = useCallback(
+    (key: MessageKey, params?: MessageParams) =>
+      translate(language, key, params),
+    [language],
+  );
+
+  const formatDate = useCallback(
+    (date: Date) => formatLocalizedDate(date, display, language),
+    [display, language],
+  );
+
+  const formatTime = useCallback(
+    (date: Date) => formatLocalizedTime(date, display, language),
+    [display, language],
+  );
+
+  const formatDateTime = useCallback(
+    (date: Date) => formatLocalizedDateTime(date, display, language),
+    [display, language],
+  );
+
+  const formatDuration = useCallback(
+    (seconds: number, maxUnits?: number) =>
+      formatLocalizedDuration(seconds, language, maxUnits),
+    [language],
+  );
+
+  return {
+    language,
+    display,
+    locale,
+    weekStartsOn: getWeekStartsOn(display.startOfWeek),
+    t,
+    formatDate,
+    formatTime,
+    formatDateTime,
+    formatDuration,
+  };
+};
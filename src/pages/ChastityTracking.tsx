@@ -1,4 +1,5 @@
 import React from "react";
+import { useSessionTimeAdjustments } from "@/hooks/api/useTimeAdjustments";
 import { useTrackerData } from "@/hooks/tracker/useTrackerData";
 import { useTrackerSession } from "@/hooks/tracker/useTrackerSession";
 import { useTimerSyncMonitor } from "@/hooks/tracker/useTimerSyncMonitor";
@@ -39,6 +40,7 @@ const TrackerPage: React.FC = () => {
   } = useTrackerData(USE_REAL_SESSIONS);
 
   const mockData = useMockData(user);
+  const { data: adjustments } = useSessionTimeAdjustments(realSession?.id);
 
   const {
     isInitializing,
@@ -73,6 +75,8 @@ const TrackerPage: React.FC = () => {
   realTrackerData.statsParams.totalChastityTime =
     lifetimeStats.totalChastityTime;
   realTrackerData.statsParams.totalCageOffTime = lifetimeStats.totalCageOffTime;
+  realTrackerData.statsParams.adjustmentSeconds =
+    adjustments?.totalSeconds ?? 0;
 
   const { trackerData, trackerStatsProps, trackerHeaderProps } =
     buildAllTrackerProps(
@@ -1,12 +1,21 @@
 import React from "react";
 import { useAuthState } from "@/contexts";
 import { useReportData } from "@/hooks/api/useReportData";
+import {
+  useSessionTimeAdjustments,
+  useUserTimeAdjustments,
+} from "@/hooks/api/useTimeAdjustments";
+import { useUserSettings } from "@/hooks/api/useSettings";
 import { useAccountLinking } from "@/hooks/account-linking/useAccountLinking";
+import { useTranslation } from "@/hooks/useTranslation";
 import { FaUsers } from "@/utils/iconImport";
+import { TimezoneUtil } from "@/utils/timezone";
+import type { LocaleOptions } from "@/utils/formatting/locale";
 import {
   CurrentStatusSection,
   StatisticsSection,
   SessionHistorySection,
+  PredictiveInsightsSection,
   FullReportSkeleton,
 } from "@/components/full_report";
 import { EventList } from "@/components/log_event/EventList";
@@ -92,48 +101,68 @@ const CombinedReportHeader: React.FC<CombinedReportHeaderProps> = ({
 // User status section component
 interface ReportSectionProps {
   activeSubmissive?: { wearerName?: string };
+  userId?: string;
+  submissiveId?: string;
+  locale?: LocaleOptions;
   userReport: ReturnType<typeof useReportData>;
   submissiveReport: ReturnType<typeof useReportData>;
 }
 
 const UserStatusSectionComponent: React.FC<ReportSectionProps> = ({
   activeSubmissive,
+  locale,
   userReport,
   submissiveReport,
-}) => (
-  <div id="your-status">
-    <FeatureErrorBoundary
-      feature="Current Status"
-      fallback={<ReportsErrorFallback feature="Current Status" />}
-    >
-      <section className="mb-4 sm:mb-6 animate-fade-in-up">
-        <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
-          {activeSubmissive ? "Your Status" : "Current Status"}
-        </h3>
-        <CurrentStatusSection currentSession={userReport.currentSession} />
-      </section>
-    </FeatureErrorBoundary>
+}) => {
+  const { data: userAdjustments } = useSessionTimeAdjustments(
+    userReport.currentSession?.id,
+  );
+  const { data: submissiveAdjustments } = useSessionTimeAdjustments(
+    submissiveReport.currentSession?.id,
+  );
 
-    {activeSubmissive && submissiveReport.currentSession && (
+  return (
+    <div id="your-status">
       <FeatureErrorBoundary
-        feature="Submissive Status"
-        fallback={<ReportsErrorFallback feature="Submissive Status" />}
+        feature="Current Status"
+        fallback={<ReportsErrorFallback feature="Current Status" />}
       >
-        <section
-          className="mb-4 sm:mb-6 animate-fade-in-up stagger-2"
-          id="submissive-status"
-        >
-          <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
-            {activeSubmissive.wearerName || "Submissive"}'s Status
+        <section className="mb-4 sm:mb-6 animate-fade-in-up">
+          <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
+            {activeSubmissive ? "Your Status" : "Current Status"}
           </h3>
           <CurrentStatusSection
-            currentSession={submissiveReport.currentSession}
+            currentSession={userReport.currentSession}
+            adjustmentSeconds={userAdjustments?.totalSeconds}
+            locale={locale}
           />
         </section>
       </FeatureErrorBoundary>
-    )}
-  </div>
-);
+
+      {activeSubmissive && submissiveReport.currentSession && (
+        <FeatureErrorBoundary
+          feature="Submissive Status"
+          fallback={<ReportsErrorFallback feature="Submissive Status" />}
+        >
+          <section
+            className="mb-4 sm:mb-6 animate-fade-in-up stagger-2"
+            id="submissive-status"
+          >
+            <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
+              {activeSubmissive.wearerName || "Submissive"}'s Status
+            </h3>
+            <CurrentStatusSection
+              currentSession={submissiveReport.currentSession}
+              isKeyholderView
+              adjustmentSeconds={submissiveAdjustments?.totalSeconds}
+              locale={locale}
+            />
+          </section>
+        </FeatureErrorBoundary>
+      )}
+    </div>
+  );
+};
 
 // Memoize to prevent unnecessary re-renders
 const UserStatusSection = React.memo(
@@ -143,50 +172,69 @@ const UserStatusSection = React.memo(
 // Statistics report section component
 const StatisticsReportSectionComponent: React.FC<ReportSectionProps> = ({
   activeSubmissive,
+  userId,
+  submissiveId,
   userReport,
   submissiveReport,
-}) => (
-  <div id="your-statistics">
-    <FeatureErrorBoundary
-      feature="Statistics"
-      fallback={<ReportsErrorFallback feature="Statistics" />}
-    >
-      <section className="mb-4 sm:mb-6 animate-fade-in-up stagger-3">
-        <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
-          {activeSubmissive ? "Your Statistics" : "Statistics"}
-        </h3>
-        <StatisticsSection
-          sessions={userReport.sessions}
-          events={userReport.events}
-          tasks={userReport.tasks}
-          goals={userReport.goals}
-        />
-      </section>
-    </FeatureErrorBoundary>
+}) => {
+  const { data: userAdjustments } = useUserTimeAdjustments(userId);
+  const { data: submissiveAdjustments } = useUserTimeAdjustments(submissiveId);
+  const { data: userSettings } = useUserSettings(userId ?? "");
+  const { data: submissiveSettings } = useUserSettings(submissiveId ?? "");
 
-    {activeSubmissive && (
+  return (
+    <div id="your-statistics">
       <FeatureErrorBoundary
-        feature="Submissive Statistics"
-        fallback={<ReportsErrorFallback feature="Submissive Statistics" />}
+        feature="Statistics"
+        fallback={<ReportsErrorFallback feature="Statistics" />}
       >
-        <section
-          className="mb-4 sm:mb-6 animate-fade-in-up stagger-4"
-          id="submissive-statistics"
-        >
-          <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
-            {activeSubmissive.wearerName || "Submissive"}'s Statistics
+        <section className="mb-4 sm:mb-6 animate-fade-in-up stagger-3">
+          <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
+            {activeSubmissive ? "Your Statistics" : "Statistics"}
           </h3>
           <StatisticsSection
-            sessions={submissiveReport.sessions}
-            events={submissiveReport.events}
-            tasks={submissiveReport.tasks}
-            goals={submissiveReport.goals}
+            sessions={userReport.sessions}
+            events={userReport.events}
+            tasks={userReport.tasks}
+            goals={userReport.goals}
+          />
+          <PredictiveInsightsSection
+            sessions={userReport.sessions}
+            adjustments={userAdjustments}
+            timeZone={TimezoneUtil.getUserTimezone(userSettings)}
           />
         </section>
       </FeatureErrorBoundary>
-    )}
-  </div>
-);
+
+      {activeSubmissive && (
+        <FeatureErrorBoundary
+          feature="Submissive Statistics"
+          fallback={<ReportsErrorFallback feature="Submissive Statistics" />}
+        >
+          <section
+            className="mb-4 sm:mb-6 animate-fade-in-up stagger-4"
+            id="submissive-statistics"
+          >
+            <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
+              {activeSubmissive.wearerName || "Submissive"}'s Statistics
+            </h3>
+            <StatisticsSection
+              sessions={submissiveReport.sessions}
+              events={submissiveReport.events}
+              tasks={submissiveReport.tasks}
+              goals={submissiveReport.goals}
+            />
+            <PredictiveInsightsSection
+              sessions={submissiveReport.sessions}
+              adjustments={submissiveAdjustments}
+              timeZone={TimezoneUtil.getUserTimezone(submissiveSettings)}
+            />
+          </section>
+        </FeatureErrorBoundary>
+      )}
+    </div>
+  );
+};
 
 // Memoize to prevent unnecessary re-renders
 const StatisticsReportSection = React.memo(
@@ -196,6 +244,7 @@ const StatisticsReportSection = React.memo(
 // Session history report section component
 const SessionHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
   activeSubmissive,
+  locale,
   userReport,
   submissiveReport,
 }) => (
@@ -208,7 +257,7 @@ const SessionHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
         <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
           {activeSubmissive ? "Your Session History" : "Session History"}
         </h3>
-        <SessionHistorySection sessions={userReport.sessions} />
+        <SessionHistorySection sessions={userReport.sessions} locale={locale} />
       </section>
     </FeatureErrorBoundary>
 
@@ -224,7 +273,10 @@ const SessionHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
           <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
             {activeSubmissive.wearerName || "Submissive"}'s Session History
           </h3>
-          <SessionHistorySection sessions={submissiveReport.sessions} />
+          <SessionHistorySection
+            sessions={submissiveReport.sessions}
+            locale={locale}
+          />
         </section>
       </FeatureErrorBoundary>
     )}
@@ -239,6 +291,7 @@ const SessionHistoryReportSection = React.memo(
 // Event history report section component
 const EventHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
   activeSubmissive,
+  locale,
   userReport,
   submissiveReport,
 }) => (
@@ -254,7 +307,7 @@ const EventHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
         <h3 className="text-base sm:text-lg font-semibold text-nightly-honeydew mb-3 sm:mb-4">
           {activeSubmissive ? "Your Events" : "Event History"}
         </h3>
-        <EventList events={userReport.events} />
+        <EventList events={userReport.events} locale={locale} />
       </section>
     </FeatureErrorBoundary>
 
@@ -270,7 +323,7 @@ const EventHistoryReportSectionComponent: React.FC<ReportSectionProps> = ({
           <h3 className="text-base sm:text-lg font-semibold text-nightly-lavender-floral mb-3 sm:mb-4 break-words">
             {activeSubmissive.wearerName || "Submissive"}'s Events
           </h3>
-          <EventList events={submissiveReport.events} />
+          <EventList events={submissiveReport.events} locale={locale} />
         </section>
       </FeatureErrorBoundary>
     )}
@@ -285,6 +338,7 @@ const EventHistoryReportSection = React.memo(
 const FullReportPage: React.FC = () => {
   const { user } = useAuthState();
   const { adminRelationships } = useAccountLinking();
+  const { locale } = useTranslation();
 
   // Get the active submissive relationship (first one for now)
   const activeSubmissiveRel = adminRelationships?.[0];
@@ -357,21 +411,26 @@ const FullReportPage: React.FC = () => {
         <CombinedReportHeader activeSubmissive={activeSubmissive} />
         <UserStatusSection
           activeSubmissive={activeSubmissive}
+          locale={locale}
           userReport={userReport}
           submissiveReport={submissiveReport}
         />
         <StatisticsReportSection
           activeSubmissive={activeSubmissive}
+          userId={user?.uid}
+          submissiveId={activeSubmissiveRel?.wearerId}
           userReport={userReport}
           submissiveReport={submissiveReport}
         />
         <SessionHistoryReportSection
           activeSubmissive={activeSubmissive}
+          locale={locale}
           userReport={userReport}
           submissiveReport={submissiveReport}
         />
         <EventHistoryReportSection
           activeSubmissive={activeSubmissive}
+          locale={locale}
           userReport={userReport}
           submissiveReport={submissiveReport}
         />
@@ -2,17 +2,26 @@ import React, { useState, useEffect } from "react";
 import { useAuthState } from "../contexts";
 import { useKeyholderStore } from "../stores/keyholderStore";
 import { useAccountLinking } from "../hooks/account-linking/useAccountLinking";
+import { useKeyholderActing } from "../hooks/account-linking/useKeyholderActing";
+import { useRecordKeyholderAccess } from "../hooks/account-linking/useKeyholderActivity";
 import { sessionDBService } from "../services/database";
 import type { DBSession } from "../types/database";
 import type { AdminRelationship } from "../types/account-linking";
+import type { RelationshipActingContext } from "../types/relationships";
 import {
   KeyholderPasswordUnlock,
   AccountLinkingPreview,
   KeyholderDashboard,
   SessionControls,
+  HiddenTimerControls,
+  VerificationControls,
+  UnlockScheduleControls,
+  WearerSummaryControls,
   TaskManagement,
 } from "../components/keyholder";
+import { useSessionTimeAdjustments } from "../hooks/api/useTimeAdjustments";
 import { KeyholderDurationSection } from "../components/settings/KeyholderDurationSection";
+import { MessageThread } from "../components/messaging";
 import { logger } from "../utils/logging";
 import { FaLock, FaCog, FaEye, FaSpinner } from "../utils/iconImport";
 import {
@@ -33,10 +42,18 @@ const LoadingDisplay: React.FC = () => (
 const KeyholderSettings: React.FC<{
   onLockControls: () => void;
   submissiveUserId?: string;
-}> = ({ onLockControls, submissiveUserId }) => (
+  acting?: RelationshipActingContext;
+}> = ({ onLockControls, submissiveUserId, acting }) => (
   <div className="space-y-4 sm:space-y-6">
     {/* Keyholder Duration Goal */}
-    {submissiveUserId && <KeyholderDurationSection userId={submissiveUserId} />}
+    {submissiveUserId && (
+      <KeyholderDurationSection userId={submissiveUserId} acting={acting} />
+    )}
+
+    {/* Weekly report of the submissive */}
+    {submissiveUserId && (
+      <WearerSummaryControls wearerUserId={submissiveUserId} />
+    )}
 
     <div className="bg-white/10 backdrop-blur-sm rounded-lg p-4 sm:p-6">
       <div className="flex items-center gap-2 sm:gap-3 mb-4">
@@ -123,6 +140,16 @@ const useSubmissiveData = (
   return { submissiveSession, loading };
 };
 
+// The chosen wearer's relationship, or the keyholder's first one
+const findSelectedRelationship = (
+  relationships: AdminRelationship[],
+  keyholderRelationships: AdminRelationship[],
+  selectedWearerId: string | null,
+) =>
+  selectedWearerId
+    ? relationships.find((r) => r.wearerId === selectedWearerId)
+    : keyholderRelationships[0];
+
 const KeyholderPage: React.FC = () => {
   const { user } = useAuthState();
   // Selective subscriptions for specific keyholder store values
@@ -138,12 +165,20 @@ const KeyholderPage: React.FC = () => {
     useAccountLinking();
 
   // Get selected relationship
-  const selectedRelationship = selectedWearerId
-    ? relationships.find((r) => r.wearerId === selectedWearerId)
-    : keyholderRelationships[0];
+  const selectedRelationship = findSelectedRelationship(
+    relationships,
+    keyholderRelationships,
+    selectedWearerId,
+  );
+  // Every write to the wearer's data is checked against this relationship
+  const acting = useKeyholderActing(selectedRelationship, user?.uid);
+  useRecordKeyholderAccess(selectedRelationship, isKeyholderModeUnlocked);
 
   const { submissiveSession, loading } =
     useSubmissiveData(selectedRelationship);
+  const { data: adjustments } = useSessionTimeAdjustments(
+    submissiveSession?.id,
+  );
 
   // Auto-lock when leaving page
   useEffect(() => {
@@ -173,6 +208,24 @@ const KeyholderPage: React.FC = () => {
               <KeyholderDashboard keyholderUserId={user?.uid} />
             </FeatureErrorBoundary>
 
+            {/* Messages with the selected submissive */}
+            {user && selectedRelationship && (
+              <FeatureErrorBoundary
+                feature="keyholder-messages"
+                fallback={<KeyholderErrorFallback />}
+              >
+                <MessageThread
+                  thread={{
+                    relationshipId: selectedRelationship.id,
+                    keyholderUserId: selectedRelationship.keyholderId,
+                    submissiveUserId: selectedRelationship.wearerId,
+                  }}
+                  userId={user.uid}
+                  title="Messages with your submissive"
+                />
+              </FeatureErrorBoundary>
+            )}
+
             {/* Current Password System */}
             <KeyholderPasswordUnlock />
 
@@ -183,7 +236,30 @@ const KeyholderPage: React.FC = () => {
                   feature="session-controls"
                   fallback={<KeyholderErrorFallback />}
                 >
-                  <SessionControls session={submissiveSession} />
+                  <SessionControls
+                    session={submissiveSession}
+                    adjustmentSeconds={adjustments?.totalSeconds}
+                  />
+                  {submissiveSession && (
+                    <>
+                      <HiddenTimerControls
+                        key={submissiveSession.id}
+                        session={submissiveSession}
+                        acting={acting}
+                      />
+                      <VerificationControls
+                        key={`verification-${submissiveSession.id}`}
+                        session={submissiveSession}
+                        acting={acting}
+                      />
+                      <UnlockScheduleControls
+                        key={`unlock-${submissiveSession.id}`}
+                        session={submissiveSession}
+                        relationship={selectedRelationship}
+                        acting={acting}
+                      />
+                    </>
+                  )}
                 </FeatureErrorBoundary>
                 <FeatureErrorBoundary
                   feature="task-management"
@@ -191,6 +267,7 @@ const KeyholderPage: React.FC = () => {
                 >
                   <TaskManagement
                     userId={selectedRelationship?.wearerId || user?.uid || ""}
+                    acting={acting}
                   />
                 </FeatureErrorBoundary>
                 <FeatureErrorBoundary
@@ -200,6 +277,7 @@ const KeyholderPage: React.FC = () => {
                   <KeyholderSettings
                     onLockControls={lockKeyholderControls}
                     submissiveUserId={selectedRelationship?.wearerId}
+                    acting={acting}
                   />
                 </FeatureErrorBoundary>
               </>
@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { useAuthState } from "@/contexts";
 import { useEventHistory } from "@/hooks/api/useEvents";
 import { useAccountLinking } from "@/hooks/account-linking/useAccountLinking";
+import { useTranslation } from "@/hooks/useTranslation";
 import {
   LogEventForm,
   EventList,
@@ -15,6 +16,7 @@ import {
 } from "@/utils/events/eventHelpers";
 import { Card, Tooltip, Button } from "@/components/ui";
 import type { DBEvent } from "@/types/database";
+import type { LocaleOptions } from "@/utils/formatting/locale";
 
 // User selector component for keyholders
 interface UserSelectorProps {
@@ -93,6 +95,7 @@ interface EventListSectionProps {
   events: EventWithOwner<DBEvent>[];
   showOwner: boolean;
   hasSubmissive: boolean;
+  locale: LocaleOptions;
 }
 
 const EventListSection: React.FC<EventListSectionProps> = ({
@@ -101,6 +104,7 @@ const EventListSection: React.FC<EventListSectionProps> = ({
   events,
   showOwner,
   hasSubmissive,
+  locale,
 }) => (
   <Card variant="glass" className="p-3 sm:p-4 md:p-6">
     <h2
@@ -136,13 +140,14 @@ const EventListSection: React.FC<EventListSectionProps> = ({
         </div>
       </div>
     ) : (
-      <EventList events={events} showOwner={showOwner} />
+      <EventList events={events} showOwner={showOwner} locale={locale} />
     )}
   </Card>
 );
 
 const LogEventPage: React.FC = () => {
   const { user } = useAuthState();
+  const { locale } = useTranslation();
   const { adminRelationships } = useAccountLinking();
 
   // Track which user we're logging for (self or submissive)
@@ -219,6 +224,7 @@ const LogEventPage: React.FC = () => {
               events={activeSubmissive ? combinedEvents : userEvents.data || []}
               showOwner={!!activeSubmissive}
               hasSubmissive={!!activeSubmissive}
+              locale={locale}
             />
           </div>
         </div>
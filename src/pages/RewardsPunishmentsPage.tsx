@@ -1,58 +1,64 @@
-import React, { useState } from "react";
+import React from "react";
 import {
   RewardPunishmentStats,
   RewardsPunishmentsControls,
   RewardsPunishmentsContent,
 } from "../components/rewards_punishments";
 import type { RewardPunishmentLog } from "../components/rewards_punishments";
+import { useRewardsPunishmentsPage } from "../hooks/useRewardsPunishmentsPage";
+import { useAuthState, useToast } from "../contexts";
 
 const RewardsPunishmentsPage: React.FC = () => {
-  const [logs, setLogs] = useState<RewardPunishmentLog[]>([]);
-  const [filter, setFilter] = useState<"all" | "rewards" | "punishments">(
-    "all",
-  );
-  const [loading] = useState(false);
-
-  const filteredLogs = logs
-    .filter((log) => {
-      if (filter === "all") return true;
-      if (filter === "rewards") return log.type === "reward";
-      if (filter === "punishments") return log.type === "punishment";
-      return true;
-    })
-    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-
-  const handleManualEntry = (
+  const { user } = useAuthState();
+  const { showWarning, showError } = useToast();
+
+  const {
+    logs,
+    activeLogs,
+    filteredLogs,
+    filter,
+    isLoading,
+    setFilter,
+    handleManualEntry,
+    handleReverse,
+  } = useRewardsPunishmentsPage(user?.uid);
+
+  const onManualEntry = (
     entry: Omit<RewardPunishmentLog, "id" | "createdAt">,
   ) => {
-    const newEntry: RewardPunishmentLog = {
-      ...entry,
-      id: `manual_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      createdAt: new Date(),
-    };
+    handleManualEntry(entry)
+      .then((applied) => {
+        if (!applied) {
+          showWarning("Start a session before adjusting chastity time");
+        }
+      })
+      .catch(() => showError("Failed to save entry"));
+  };
 
-    setLogs((prev) => [newEntry, ...prev]);
+  const onReverse = (id: string) => {
+    handleReverse(id).catch(() => showError("Failed to reverse entry"));
   };
 
   return (
     <div className="text-nightly-spring-green">
       {/* Content */}
       <div className="p-4 max-w-4xl mx-auto">
-        <RewardPunishmentStats logs={logs} />
+        <RewardPunishmentStats logs={activeLogs} />
 
         {/* Controls */}
         <RewardsPunishmentsControls
           filter={filter}
           onFilterChange={setFilter}
           logs={logs}
-          onManualEntry={handleManualEntry}
+          onManualEntry={onManualEntry}
         />
 
         {/* Content */}
         <RewardsPunishmentsContent
           filteredLogs={filteredLogs}
-          loading={loading}
+          loading={isLoading}
           filter={filter}
+          onReverse={onReverse}
         />
       </div>
     </div>
@@ -5,8 +5,13 @@ import {
   RulesPageControls,
   RulesInfoBanner,
   RulesEmptyState,
+  RuleViolationList,
 } from "../components/rules";
 import { useRulesPage } from "../hooks/useRulesPage";
+import {
+  useRuleEvaluation,
+  useRuleViolationsQuery,
+} from "../hooks/api/useRuleViolations";
 import { useAuthState } from "../contexts";
 import { Card } from "@/components/ui";
 
@@ -31,6 +36,9 @@ const RulesPage: React.FC = () => {
     handleCreateNew,
   } = useRulesPage(user?.uid, role);
 
+  useRuleEvaluation(role === "submissive" ? user?.uid : undefined);
+  const { data: violations = [] } = useRuleViolationsQuery(user?.uid, role);
+
   if (isLoading) {
     return (
       <div className="text-nightly-spring-green p-4 max-w-4xl mx-auto">
@@ -87,6 +95,16 @@ const RulesPage: React.FC = () => {
             )}
           </div>
         )}
+
+        {/* Violations */}
+        {!showEditor && violations.length > 0 && (
+          <Card variant="glass" padding="lg" className="mt-6">
+            <h3 className="text-lg font-semibold text-nightly-honeydew mb-4">
+              Rule Violations
+            </h3>
+            <RuleViolationList violations={violations} />
+          </Card>
+        )}
       </div>
     </div>
   );
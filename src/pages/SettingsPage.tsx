@@ -19,6 +19,7 @@ import { DataControls } from "@/components/settings/DataControls";
 import { PersonalGoalSection } from "@/components/settings/PersonalGoalSection";
 import { KeyholderDurationSection } from "@/components/settings/KeyholderDurationSection";
 import { PeriodicSyncSection } from "@/components/settings/PeriodicSyncSection";
+import { SafetyReleaseSection } from "@/components/settings/SafetyReleaseSection";
 import { GoogleSignInButton } from "@/components/auth/GoogleSignInButton";
 import { useIsAnonymous } from "@/hooks/useIsAnonymous";
 import {
@@ -691,6 +692,8 @@ const PrivacySection: React.FC<{ settings: DBSettings | null }> = ({
       </div>
 
       <SecuritySettings />
+
+      <SafetyReleaseSection settings={settings} />
     </div>
   );
 };
@@ -11,6 +11,11 @@ import {
   type TrackerStatsProps,
 } from "@/components/tracker/TrackerStats";
 import { PauseResumeButtons } from "@/components/tracker/PauseResumeButtons";
+import { TimeAdjustmentHistory } from "@/components/tracker/TimeAdjustmentHistory";
+import { HygieneWindowNotice } from "@/components/tracker/HygieneWindowNotice";
+import { VerificationPrompt } from "@/components/tracker/VerificationPrompt";
+import { SafetyReleaseNotice } from "@/components/tracker/SafetyReleaseNotice";
+import { KeyholderMessages } from "@/components/tracker/KeyholderMessages";
 import {
   ActionButtons,
   type ActionButtonsProps,
@@ -24,6 +29,8 @@ import {
 import { SessionPersistenceError } from "./SessionPersistenceError";
 import { SyncIssueWarning } from "./SyncIssueWarning";
 import { DebugPanel, type DebugPanelProps } from "./DebugPanel";
+import { useKeyholderLastSeen } from "@/hooks/account-linking/useKeyholderActivity";
+import { useRuleEvaluation } from "@/hooks/api/useRuleViolations";
 import type { DBSession } from "@/types/database";
 import type { SessionRestorationResult } from "@/services/SessionPersistenceService";
 
@@ -103,6 +110,8 @@ export const TrackerView: React.FC<TrackerViewProps> = (props) => {
     pauseSession,
     resumeSession,
   } = props;
+  const keyholderLastSeen = useKeyholderLastSeen(userId);
+  useRuleEvaluation(userId);
 
   return (
     <div className="text-nightly-spring-green max-w-7xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8">
@@ -144,6 +153,15 @@ export const TrackerView: React.FC<TrackerViewProps> = (props) => {
 
       <TrackerHeader {...trackerHeaderProps} />
 
+      <HygieneWindowNotice userId={userId} />
+
+      <VerificationPrompt userId={userId} />
+
+      <SafetyReleaseNotice
+        userId={userId}
+        keyholderLastSeen={keyholderLastSeen}
+      />
+
       <FeatureErrorBoundary
         feature="chastity-tracker"
         fallback={<TrackerErrorFallback />}
@@ -159,6 +177,17 @@ export const TrackerView: React.FC<TrackerViewProps> = (props) => {
           <TrackerStats {...trackerStatsProps} />
         </FeatureErrorBoundary>
 
+        <FeatureErrorBoundary
+          feature="time-adjustments"
+          fallback={
+            <div className="p-4 text-center text-yellow-600">
+              Unable to load time adjustments
+            </div>
+          }
+        >
+          <TimeAdjustmentHistory session={trackerStatsProps.currentSession} />
+        </FeatureErrorBoundary>
+
         {showPauseButtons && (
           <FeatureErrorBoundary
             feature="pause-resume-controls"
@@ -201,6 +230,8 @@ export const TrackerView: React.FC<TrackerViewProps> = (props) => {
         </FeatureErrorBoundary>
       </FeatureErrorBoundary>
 
+      <KeyholderMessages userId={userId} />
+
       <ReasonModals
         showReasonModal={showReasonModal}
         showPauseReasonModal={showPauseReasonModal}
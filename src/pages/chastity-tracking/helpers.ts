@@ -6,6 +6,7 @@ import {
   buildMockTrackerData,
   buildMockTrackerStatsProps,
 } from "@/utils/tracker/trackerProps";
+import { TimerService } from "@/services/TimerService";
 import type { DBGoal, DBSession } from "@/types/database";
 
 // Helper to check if pause buttons should show
@@ -31,6 +32,19 @@ export const getActionButtonCallbacks = (
   onEmergencyUnlock: handleEmergencyUnlock,
 });
 
+// Remaining time of the session's own goal, including time adjustments
+const getSessionRemainingGoalTime = ({
+  realSession,
+  adjustmentSeconds,
+}: RealTrackerData["statsParams"]) =>
+  realSession?.goalDuration
+    ? TimerService.calculateRemainingGoalTime(
+        realSession,
+        new Date(),
+        adjustmentSeconds,
+      )
+    : undefined;
+
 interface RealTrackerData {
   trackerDataParams: {
     isActive: boolean;
@@ -50,6 +64,7 @@ interface RealTrackerData {
     totalChastityTime: number;
     totalCageOffTime: number;
     personalGoal: DBGoal | undefined;
+    adjustmentSeconds: number;
   };
   goals?: { active?: DBGoal[]; keyholderAssigned?: DBGoal[] };
   isActive: boolean;
@@ -90,7 +105,12 @@ export const buildAllTrackerProps = (
 
   const trackerHeaderProps =
     useRealSessions && real
-      ? buildTrackerHeaderProps(real.goals || {}, real.isActive)
+      ? buildTrackerHeaderProps(
+          real.goals || {},
+          real.isActive,
+          TimerService.isRemainingTimeHidden(real.statsParams.realSession),
+          getSessionRemainingGoalTime(real.statsParams),
+        )
       : {
           remainingGoalTime: mock.remainingGoalTime ?? 0,
           keyholderName: mock.keyholderName ?? "",
@@ -152,6 +172,7 @@ export const buildRealTrackerDataParams = (params: {
       totalChastityTime: 0, // Will be set by caller
       totalCageOffTime: 0, // Will be set by caller
       personalGoal: personalGoal ?? undefined,
+      adjustmentSeconds: 0, // Will be set by caller
     },
     goals: goals ? { active: goals.active, keyholderAssigned: [] } : undefined,
     isActive,
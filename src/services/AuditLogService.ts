@@ -0,0 +1,254 @@
+/**
+ * Audit Log Service
+ * Appends entries to the persistent, hash-chained audit log and provides
+ * search, export and tamper checks over it
+ */
+import { auditLogDBService } from "./database/AuditLogDBService";
+import {
+  AuditOutcome,
+  AuditSeverity,
+  type AuditAction,
+  type AuditChainVerification,
+  type AuditContext,
+  type AuditDetails,
+  type AuditExport,
+  type AuditFilter,
+  type AuditSearchQuery,
+  type DBAuditEntry,
+  type ExportFormat,
+} from "@/types/security";
+import {
+  applyPagination,
+  applySearchFilters,
+  applySorting,
+  applyTextSearch,
+  generatePDF,
+  getCategoryForAction,
+} from "@/utils/security/audit-utils";
+import {
+  AUDIT_GENESIS_HASH,
+  auditEntriesToCSV,
+  auditEntriesToJSON,
+  auditEntriesToTable,
+  computeAuditHash,
+  verifyAuditChain,
+} from "@/utils/security/auditChain";
+import type { DBSession } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
+import { toXLSX } from "@/utils/formatting/xlsx";
+import { generateUUID } from "@/utils";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("AuditLogService");
+
+/** Attempts to claim the next sequence number when another tab wins the race */
+const MAX_APPEND_ATTEMPTS = 3;
+
+export interface AuditRecordInput {
+  /** User whose chain the entry is appended to - the one acting */
+  userId: string;
+  action: AuditAction;
+  details: AuditDetails;
+  context?: AuditContext;
+  severity?: AuditSeverity;
+  outcome?: AuditOutcome;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+export class AuditLogService {
+  // Appends from this tab run one at a time so sequence numbers don't collide
+  private static appendQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Append an entry to the user's chain. Auditing never blocks the action
+   * being audited, so failures are logged rather than thrown.
+   *
+   * @returns The stored entry, or null when it could not be written
+   */
+  static async record(
+    input: AuditRecordInput,
+    now: Date = new Date(),
+  ): Promise<DBAuditEntry | null> {
+    const append = () => this.appendWithRetry(input, now);
+    const result = this.appendQueue.then(append, append);
+    this.appendQueue = result.catch(() => undefined);
+
+    try {
+      return await result;
+    } catch (error) {
+      logger.warn("Failed to record audit entry", {
+        error: error as Error,
+        userId: input.userId,
+        action: input.action,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Record a session lifecycle change. The entry goes on the chain of whoever
+   * made the change: the wearer, or the keyholder acting for them.
+   */
+  static async recordSessionChange(
+    session: Pick<DBSession, "id" | "userId">,
+    action: AuditAction,
+    details: AuditDetails,
+    acting?: RelationshipActingContext,
+  ): Promise<DBAuditEntry | null> {
+    const actorId = acting?.actorId ?? session.userId;
+    return this.record({
+      userId: actorId,
+      action,
+      context: {
+        sessionId: session.id,
+        resourceType: "session",
+        resourceId: session.id,
+        relationshipId: acting?.relationship.id,
+        targetUserId: actorId === session.userId ? undefined : session.userId,
+      },
+      details,
+    });
+  }
+
+  private static async appendWithRetry(
+    input: AuditRecordInput,
+    now: Date,
+  ): Promise<DBAuditEntry> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await this.append(input, now);
+      } catch (error) {
+        const isRace = (error as Error).name === "ConstraintError";
+        if (!isRace || attempt >= MAX_APPEND_ATTEMPTS) {
+          throw error;
+        }
+        logger.debug("Audit sequence taken, retrying", {
+          userId: input.userId,
+          attempt,
+        });
+      }
+    }
+  }
+
+  private static async append(
+    input: AuditRecordInput,
+    now: Date,
+  ): Promise<DBAuditEntry> {
+    const head = await auditLogDBService.getHead(input.userId);
+    const previousHash = head?.hash ?? AUDIT_GENESIS_HASH;
+    const content = {
+      id: generateUUID(),
+      userId: input.userId,
+      sequence: head ? head.sequence + 1 : 0,
+      timestamp: now,
+      action: input.action,
+      category: getCategoryForAction(input.action),
+      context: input.context ?? {},
+      details: input.details,
+      severity: input.severity ?? AuditSeverity.LOW,
+      outcome: input.outcome ?? AuditOutcome.SUCCESS,
+      ipAddress: input.ipAddress,
+      userAgent: input.userAgent,
+    };
+
+    const entry: DBAuditEntry = {
+      ...content,
+      previousHash,
+      hash: await computeAuditHash(content, previousHash),
+      syncStatus: "pending",
+      lastModified: now,
+    };
+    await auditLogDBService.create(entry);
+    return entry;
+  }
+
+  /**
+   * Most recent entries in a user's chain, newest first
+   */
+  static async getRecent(userId: string, limit = 100): Promise<DBAuditEntry[]> {
+    return auditLogDBService.getRecent(userId, limit);
+  }
+
+  /**
+   * Search a user's log. Results are newest first unless the query sorts
+   * otherwise.
+   */
+  static async search(
+    userId: string,
+    query: AuditSearchQuery,
+  ): Promise<DBAuditEntry[]> {
+    const { filters } = query;
+    let results = await auditLogDBService.getInRange(
+      userId,
+      filters?.startDate,
+      filters?.endDate,
+    );
+    results = applyTextSearch(results, query.query);
+    results = applySearchFilters(results, filters);
+    results = applySorting(
+      results,
+      query.sortBy ?? "timestamp",
+      query.sortOrder ?? "desc",
+    );
+    return applyPagination(results, query.limit, query.offset);
+  }
+
+  /**
+   * Check a user's chain for edited, deleted or relinked entries. A
+   * keyholder's copy of a wearer's chain is also checked against the head
+   * seen at the last sync.
+   */
+  static async verify(userId: string): Promise<AuditChainVerification> {
+    const [chain, anchor] = await Promise.all([
+      auditLogDBService.getChain(userId),
+      auditLogDBService.getAnchor(userId),
+    ]);
+    const verification = await verifyAuditChain(chain, anchor);
+    if (!verification.valid) {
+      logger.warn("Audit chain failed verification", {
+        userId,
+        issues: verification.issues,
+      });
+    }
+    return verification;
+  }
+
+  /**
+   * Export a user's log as JSON, CSV, XLSX or PDF. Filtered exports can't
+   * be verified on their own since they leave gaps in the chain.
+   */
+  static async exportLog(
+    userId: string,
+    format: ExportFormat,
+    filters?: AuditFilter,
+    now: Date = new Date(),
+  ): Promise<AuditExport> {
+    const entries = filters
+      ? await this.search(userId, { query: "", filters })
+      : await auditLogDBService.getChain(userId);
+
+    return {
+      format,
+      data: await this.serialize(entries, format),
+      filename: `audit-log-${now.toISOString().slice(0, 10)}.${format}`,
+      generatedAt: now,
+    };
+  }
+
+  private static async serialize(
+    entries: DBAuditEntry[],
+    format: ExportFormat,
+  ): Promise<string | Uint8Array> {
+    switch (format) {
+      case "csv":
+        return auditEntriesToCSV(entries);
+      case "xlsx":
+        return toXLSX([{ name: "Audit Log", ...auditEntriesToTable(entries) }]);
+      case "pdf":
+        return generatePDF(entries);
+      default:
+        return auditEntriesToJSON(entries);
+    }
+  }
+}
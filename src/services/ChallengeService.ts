@@ -0,0 +1,226 @@
+/**
+ * Challenge Service
+ * Accepts challenges, measures their progress against the user's sessions,
+ * tasks and events, and fails the ones that run out of time
+ */
+import Dexie from "dexie";
+import { db } from "./storage/ChastityDB";
+import { challengeDBService } from "./database/ChallengeDBService";
+import type { Challenge, DBChallenge } from "@/types/gamification";
+import {
+  calculateChallengeProgress,
+  getChallengeWindow,
+  isChallengeMet,
+  type ChallengeRecords,
+} from "@/utils/gamification/challengeProgress";
+import { generateUUID } from "@/utils";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ChallengeService");
+
+export class ChallengeService {
+  /**
+   * Catalogue challenges the user can take on: everything not already
+   * active or completed. Failed challenges can be accepted again.
+   */
+  static async getAvailable(
+    userId: string,
+    catalogue: Challenge[],
+  ): Promise<Challenge[]> {
+    const accepted = await challengeDBService.findByUserId(userId);
+    const taken = new Set(
+      accepted
+        .filter((challenge) => challenge.status !== "failed")
+        .map((challenge) => challenge.challengeId),
+    );
+    return catalogue.filter((challenge) => !taken.has(challenge.id));
+  }
+
+  /**
+   * Accept a catalogue challenge. Its time limit starts now and runs for as
+   * long as the catalogue entry's.
+   */
+  static async accept(
+    userId: string,
+    challenge: Challenge,
+    now: Date = new Date(),
+  ): Promise<DBChallenge> {
+    const { id: challengeId, ...details } = challenge;
+    const timeLimit =
+      challenge.endDate.getTime() - challenge.startDate.getTime();
+    const record: DBChallenge = {
+      ...details,
+      id: generateUUID(),
+      userId,
+      challengeId,
+      status: "active",
+      acceptedAt: now,
+      startDate: now,
+      endDate: new Date(now.getTime() + timeLimit),
+      isCompleted: false,
+      participants: challenge.participants + 1,
+      requirements: challenge.requirements.map((requirement) => ({
+        ...requirement,
+        currentValue: 0,
+        completed: false,
+      })),
+      progress: {
+        ...challenge.progress,
+        percentage: 0,
+        requirementsCompleted: 0,
+        totalRequirements: challenge.requirements.length,
+        lastUpdated: now,
+      },
+      syncStatus: "pending",
+      lastModified: now,
+    };
+    await db.transaction("rw", db.challenges, async () => {
+      const previous = await challengeDBService.findByChallengeId(
+        userId,
+        challengeId,
+      );
+      if (previous.some((entry) => entry.status === "active")) {
+        throw new Error("Challenge already accepted");
+      }
+      if (previous.some((entry) => entry.status === "completed")) {
+        throw new Error("Challenge already completed");
+      }
+      await challengeDBService.create(record);
+    });
+
+    logger.info("Challenge accepted", {
+      id: record.id,
+      challengeId,
+      endDate: record.endDate,
+    });
+    return record;
+  }
+
+  /**
+   * Re-measure the user's active challenges. Challenges past their end date
+   * with requirements still unmet are marked failed.
+   *
+   * @returns The challenges still active, including any now ready to complete
+   */
+  static async refreshProgress(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<DBChallenge[]> {
+    const active = await challengeDBService.getByStatus(userId, "active");
+    if (active.length === 0) return [];
+
+    const since = new Date(
+      Math.min(
+        ...active.map((challenge) =>
+          getChallengeWindow(challenge, now).start.getTime(),
+        ),
+      ),
+    );
+    const records = await this.loadRecords(userId, since, now);
+    const stillActive: DBChallenge[] = [];
+
+    for (const challenge of active) {
+      const measured = {
+        ...challenge,
+        ...calculateChallengeProgress(challenge, records, now),
+      };
+      const expired = !isChallengeMet(measured) && challenge.endDate <= now;
+      const updates: Partial<DBChallenge> = {
+        requirements: measured.requirements,
+        progress: measured.progress,
+        ...(expired && { status: "failed" as const, failedAt: now }),
+      };
+      await challengeDBService.update(challenge.id, updates);
+
+      if (expired) {
+        logger.info("Challenge expired", {
+          id: challenge.id,
+          challengeId: challenge.challengeId,
+          percentage: measured.progress.percentage,
+        });
+      } else {
+        stillActive.push(measured);
+      }
+    }
+
+    return stillActive;
+  }
+
+  /**
+   * Mark an accepted challenge completed once all its requirements are met.
+   * The status is checked and set in one transaction, so of two concurrent
+   * calls only one succeeds and its rewards are handed out once.
+   */
+  static async complete(
+    userId: string,
+    id: string,
+    now: Date = new Date(),
+  ): Promise<DBChallenge> {
+    const completed = await db.transaction("rw", db.challenges, async () => {
+      const challenge = await challengeDBService.findById(id);
+      if (!challenge || challenge.userId !== userId) {
+        throw new Error("Challenge not found");
+      }
+      if (challenge.status === "completed") {
+        throw new Error("Challenge already completed");
+      }
+      if (challenge.status === "failed") {
+        throw new Error("Challenge has expired");
+      }
+      if (!isChallengeMet(challenge)) {
+        throw new Error("Challenge requirements not met");
+      }
+
+      const updates: Partial<DBChallenge> = {
+        status: "completed",
+        completedAt: now,
+        isCompleted: true,
+        progress: { ...challenge.progress, percentage: 100, lastUpdated: now },
+        rewards: challenge.rewards.map((reward) => ({
+          ...reward,
+          claimed: true,
+        })),
+      };
+      await challengeDBService.update(id, updates);
+      return { ...challenge, ...updates };
+    });
+
+    logger.info("Challenge completed", {
+      id,
+      challengeId: completed.challengeId,
+    });
+    return completed;
+  }
+
+  /**
+   * Sessions running at any point since `since`, and events and finished
+   * tasks from then on
+   */
+  private static async loadRecords(
+    userId: string,
+    since: Date,
+    now: Date,
+  ): Promise<ChallengeRecords> {
+    const [sessions, events, tasks] = await Promise.all([
+      db.sessions
+        .where("[userId+startTime]")
+        .between([userId, Dexie.minKey], [userId, now], true, true)
+        .filter((session) => !session.endTime || session.endTime >= since)
+        .toArray(),
+      db.events
+        .where("[userId+timestamp]")
+        .between([userId, since], [userId, now], true, true)
+        .toArray(),
+      db.tasks
+        .where("userId")
+        .equals(userId)
+        .filter((task) => {
+          const finishedAt = task.completedAt ?? task.approvedAt;
+          return !!finishedAt && finishedAt >= since;
+        })
+        .toArray(),
+    ]);
+
+    return { sessions, events, tasks };
+  }
+}
@@ -0,0 +1,211 @@
+/**
+ * Hygiene Window Service
+ * Opens keyholder-scheduled hygiene windows when the wearer unlocks for them
+ * and flags sessions that are not relocked before the window closes or a
+ * keyholder-granted pause runs out
+ */
+import { db } from "./storage/ChastityDB";
+import { eventDBService } from "./database/EventDBService";
+import { ruleDBService } from "./database/RuleDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { settingsDBService } from "./database/SettingsDBService";
+import { PauseService } from "./PauseService";
+import type { DBEvent, DBSession } from "@/types/database";
+import { SystemEventType } from "@/types/events";
+import {
+  getActiveHygieneWindow,
+  getHygieneWindowKey,
+  isHygieneWindowCondition,
+  type HygieneWindowOccurrence,
+} from "@/utils/rules/hygieneWindows";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("HygieneWindowService");
+
+/** Pauses that must end by a deadline */
+export type RelockPauseKind = "hygiene" | "granted";
+
+interface RelockDeadline {
+  relockBy: Date;
+  kind: RelockPauseKind;
+}
+
+const MISSED_RELOCK_NOTES: Record<RelockPauseKind, string> = {
+  hygiene: "Not relocked before the hygiene window closed",
+  granted: "Not relocked before the granted pause ended",
+};
+
+export interface HygieneWindowStatus {
+  /** Window currently open, if any */
+  activeWindow: HygieneWindowOccurrence | null;
+  /** The wearer may still unlock for the active window */
+  canOpen: boolean;
+  /** Set while the session is paused for a hygiene window or granted pause */
+  relockBy?: Date;
+  /** Which kind of pause relockBy belongs to */
+  pauseKind?: RelockPauseKind;
+  /** The session stayed open past the window */
+  isOverdue: boolean;
+  /** This call flagged the session */
+  changed: boolean;
+}
+
+export class HygieneWindowService {
+  /**
+   * Report the open window and flag a missed relock. Safe to call
+   * repeatedly: each missed relock is flagged once. Windows are never opened
+   * here, so a wearer who stays locked through one isn't flagged.
+   */
+  static async sync(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<HygieneWindowStatus> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    if (!session) {
+      return {
+        activeWindow: null,
+        canOpen: false,
+        isOverdue: false,
+        changed: false,
+      };
+    }
+
+    const activeWindow = await this.getActiveWindow(userId, now);
+    const pauseEvents = await this.getPauseEvents(session.id);
+    const canOpen =
+      !!activeWindow &&
+      !session.isPaused &&
+      !this.isWindowUsed(pauseEvents, activeWindow);
+
+    const deadline = session.isPaused
+      ? this.getRelockDeadline(pauseEvents[pauseEvents.length - 1])
+      : undefined;
+    if (!deadline) {
+      return { activeWindow, canOpen, isOverdue: false, changed: false };
+    }
+
+    const { relockBy, kind } = deadline;
+    const isOverdue = now > relockBy;
+    const changed =
+      isOverdue &&
+      session.hygieneRelockMissedAt?.getTime() !== relockBy.getTime();
+    if (changed) {
+      await this.flagMissedRelock(session, deadline, now);
+    }
+    return {
+      activeWindow,
+      canOpen,
+      relockBy,
+      pauseKind: kind,
+      isOverdue,
+      changed,
+    };
+  }
+
+  /**
+   * Pause the session for the window open now, once the wearer confirms they
+   * are unlocking. Each window can be opened once.
+   */
+  static async openWindow(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<HygieneWindowOccurrence> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    const activeWindow = session
+      ? await this.getActiveWindow(userId, now)
+      : null;
+    if (!session || !activeWindow) {
+      throw new Error("No hygiene window is open");
+    }
+    if (
+      this.isWindowUsed(await this.getPauseEvents(session.id), activeWindow)
+    ) {
+      throw new Error("Hygiene window already used");
+    }
+
+    await PauseService.openHygieneWindow(session.id, activeWindow);
+    return activeWindow;
+  }
+
+  private static async getActiveWindow(
+    userId: string,
+    now: Date,
+  ): Promise<HygieneWindowOccurrence | null> {
+    const conditions = (await ruleDBService.findActiveBySubmissive(userId))
+      .flatMap((rule) => rule.conditions ?? [])
+      .filter(isHygieneWindowCondition);
+    return conditions.length > 0
+      ? getActiveHygieneWindow(conditions, now, await this.getTimezone(userId))
+      : null;
+  }
+
+  private static getPauseEvents(sessionId: string): Promise<DBEvent[]> {
+    return db.events
+      .where("sessionId")
+      .equals(sessionId)
+      .and((event) => event.type === "session_pause")
+      .sortBy("timestamp");
+  }
+
+  private static isWindowUsed(
+    pauseEvents: DBEvent[],
+    window: HygieneWindowOccurrence,
+  ): boolean {
+    return pauseEvents.some(
+      (event) => getHygieneWindowKey(event) === window.key,
+    );
+  }
+
+  /**
+   * Deadline set by the pause that opened a hygiene window or was granted
+   * through a release counter-offer. Other pauses have none.
+   */
+  private static getRelockDeadline(
+    pauseEvent: DBEvent | undefined,
+  ): RelockDeadline | undefined {
+    const metadata = pauseEvent?.details?.metadata;
+    if (!pauseEvent || !metadata?.relockBy) return undefined;
+
+    const relockBy = new Date(String(metadata.relockBy));
+    if (getHygieneWindowKey(pauseEvent)) return { relockBy, kind: "hygiene" };
+    return metadata.releaseRequestId
+      ? { relockBy, kind: "granted" }
+      : undefined;
+  }
+
+  private static async flagMissedRelock(
+    session: DBSession,
+    { relockBy, kind }: RelockDeadline,
+    now: Date,
+  ): Promise<void> {
+    await sessionDBService.update(session.id, {
+      hygieneRelockMissedAt: relockBy,
+    });
+
+    await eventDBService.createEvent({
+      userId: session.userId,
+      sessionId: session.id,
+      type: SystemEventType.RULE_VIOLATION,
+      timestamp: now,
+      details: {
+        notes: MISSED_RELOCK_NOTES[kind],
+        metadata: { relockBy: relockBy.toISOString() },
+      },
+      isPrivate: false,
+    });
+
+    logger.warn("Relock missed", {
+      sessionId: session.id,
+      relockBy,
+      kind,
+    });
+  }
+
+  private static async getTimezone(userId: string): Promise<string> {
+    const settings = await settingsDBService.getSettings(userId);
+    return (
+      settings?.display?.timezone ??
+      Intl.DateTimeFormat().resolvedOptions().timeZone
+    );
+  }
+}
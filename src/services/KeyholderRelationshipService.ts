@@ -14,8 +14,18 @@ import {
   keyholderRelationshipDBService,
   InviteCode,
 } from "./database/KeyholderRelationshipDBService";
-import { KeyholderRelationship, KeyholderPermissions } from "../types/core";
+import {
+  KeyholderRelationship,
+  KeyholderPermissions,
+  KeyholderRole,
+  ReleaseApprovalPolicy,
+} from "../types/core";
 import { serviceLogger } from "../utils/logging";
+import {
+  MAX_KEYHOLDERS_PER_SUBMISSIVE,
+  getReleaseApproverIds,
+  sortKeyholdersByRole,
+} from "../utils/keyholder/keyholderRoles";
 import { NotificationService } from "./notifications";
 
 const logger = serviceLogger("KeyholderRelationshipService");
@@ -198,32 +208,51 @@ export class KeyholderRelationshipService {
   }
 
   /**
-   * Get active keyholder for a submissive
+   * Get all active keyholders for a submissive, primary first
    */
-  static async getActiveKeyholder(
+  static async getActiveKeyholders(
     submissiveUserId: string,
-  ): Promise<KeyholderRelationship | null> {
+  ): Promise<KeyholderRelationship[]> {
     try {
       const relationships =
         await keyholderRelationshipDBService.getRelationshipsForUser(
           submissiveUserId,
         );
 
-      // Return the first active relationship as submissive
-      // (Currently supporting single keyholder, multi-keyholder is future enhancement)
-      const activeRelationship = relationships.asSubmissive.find(
-        (rel: KeyholderRelationship) => rel.status === "active",
+      return sortKeyholdersByRole(
+        relationships.asSubmissive.filter(
+          (rel: KeyholderRelationship) => rel.status === "active",
+        ),
       );
-
-      return activeRelationship || null;
     } catch (error) {
-      logger.error("Failed to get active keyholder", {
+      logger.error("Failed to get active keyholders", {
         error: error as Error,
       });
       throw error;
     }
   }
 
+  /**
+   * Get the primary keyholder for a submissive
+   */
+  static async getActiveKeyholder(
+    submissiveUserId: string,
+  ): Promise<KeyholderRelationship | null> {
+    const [primary] = await this.getActiveKeyholders(submissiveUserId);
+    return primary || null;
+  }
+
+  /**
+   * Keyholders who decide a submissive's release requests under the policy
+   */
+  static async getReleaseApprovers(
+    submissiveUserId: string,
+    policy: ReleaseApprovalPolicy,
+  ): Promise<string[]> {
+    const keyholders = await this.getActiveKeyholders(submissiveUserId);
+    return getReleaseApproverIds(keyholders, policy);
+  }
+
   /**
    * Check if user has keyholder permissions for a submissive
    */
@@ -305,6 +334,35 @@ export class KeyholderRelationshipService {
     }
   }
 
+  /**
+   * Make a keyholder primary or secondary (submissive only)
+   */
+  static async setKeyholderRole(
+    relationshipId: string,
+    role: KeyholderRole,
+    submissiveUserId: string,
+  ): Promise<void> {
+    try {
+      if (!relationshipId || !submissiveUserId) {
+        throw new Error("Relationship ID and user ID are required");
+      }
+
+      await keyholderRelationshipDBService.updateRole(
+        relationshipId,
+        role,
+        submissiveUserId,
+      );
+
+      logger.info("Keyholder role changed", { relationshipId, role });
+    } catch (error) {
+      logger.error("Failed to change keyholder role", {
+        error: error as Error,
+        relationshipId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * End a keyholder relationship
    */
@@ -381,20 +439,18 @@ export class KeyholderRelationshipService {
   }
 
   /**
-   * Check if user can create relationships (not already linked as submissive)
+   * Check if user can invite another keyholder
    */
   static async canCreateInviteCode(userId: string): Promise<boolean> {
     try {
       const relationships =
         await keyholderRelationshipDBService.getRelationshipsForUser(userId);
 
-      // Check if user already has an active relationship as submissive
-      const hasActiveSubmissiveRelationship = relationships.asSubmissive.some(
+      const activeKeyholderCount = relationships.asSubmissive.filter(
         (rel: KeyholderRelationship) => rel.status === "active",
-      );
+      ).length;
 
-      // Currently supporting single keyholder per submissive
-      return !hasActiveSubmissiveRelationship;
+      return activeKeyholderCount < MAX_KEYHOLDERS_PER_SUBMISSIVE;
     } catch (error) {
       logger.error("Failed to check invite code creation eligibility", {
         error: error as Error,
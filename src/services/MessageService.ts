@@ -0,0 +1,137 @@
+/**
+ * Message Service
+ * Sends relationship messages and read receipts, delivering them right away
+ * when online and through the offline queue otherwise
+ */
+import { messageDBService } from "./database/MessageDBService";
+import { connectionStatus } from "./sync/connectionStatus";
+import { messageDataSync } from "./sync/MessageDataSync";
+import { offlineQueue } from "./sync/OfflineQueue";
+import type { QueuedOperation } from "@/types/database";
+import type {
+  DBMessage,
+  MessageSenderRole,
+  MessageThreadParticipants,
+} from "@/types/messages";
+import { generateUUID } from "@/utils";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("MessageService");
+
+/** Longest message body accepted */
+export const MAX_MESSAGE_LENGTH = 2000;
+
+export interface SendMessageParams {
+  thread: MessageThreadParticipants;
+  senderId: string;
+  text: string;
+  attachments?: string[];
+  /** Pre-generated id, so attachments can be uploaded before sending */
+  messageId?: string;
+}
+
+export class MessageService {
+  /**
+   * Store a message locally and deliver it to the other participant
+   */
+  static async sendMessage(
+    params: SendMessageParams,
+    now: Date = new Date(),
+  ): Promise<DBMessage> {
+    const text = params.text.trim();
+    const attachments = params.attachments ?? [];
+    if (!text && attachments.length === 0) {
+      throw new Error("Message is empty");
+    }
+    if (text.length > MAX_MESSAGE_LENGTH) {
+      throw new Error(
+        `Message is longer than ${MAX_MESSAGE_LENGTH} characters`,
+      );
+    }
+
+    const message: DBMessage = {
+      id: params.messageId ?? generateUUID(),
+      userId: params.senderId,
+      relationshipId: params.thread.relationshipId,
+      keyholderUserId: params.thread.keyholderUserId,
+      submissiveUserId: params.thread.submissiveUserId,
+      senderRole: this.getSenderRole(params.thread, params.senderId),
+      text,
+      attachments: attachments.length > 0 ? attachments : undefined,
+      sentAt: now,
+      syncStatus: "pending",
+      lastModified: now,
+    };
+
+    await messageDBService.create(message);
+    logger.info("Message sent", {
+      messageId: message.id,
+      relationshipId: message.relationshipId,
+    });
+
+    await this.deliver(params.senderId, "create", message);
+    return message;
+  }
+
+  /**
+   * Set read receipts on the messages the reader received in a thread
+   *
+   * @returns Number of messages marked read
+   */
+  static async markThreadRead(
+    relationshipId: string,
+    readerId: string,
+    now: Date = new Date(),
+  ): Promise<number> {
+    const count = await messageDBService.markThreadRead(
+      relationshipId,
+      readerId,
+      now,
+    );
+    if (count > 0) {
+      const thread = await messageDBService.getThread(relationshipId);
+      const latest = thread[thread.length - 1];
+      if (latest) await this.deliver(readerId, "update", latest);
+    }
+    return count;
+  }
+
+  private static getSenderRole(
+    thread: MessageThreadParticipants,
+    senderId: string,
+  ): MessageSenderRole {
+    if (senderId === thread.keyholderUserId) return "keyholder";
+    if (senderId === thread.submissiveUserId) return "submissive";
+    throw new Error("Sender is not part of this relationship");
+  }
+
+  /**
+   * Push pending thread changes, or queue them until the app is back online
+   */
+  private static async deliver(
+    userId: string,
+    type: QueuedOperation<DBMessage>["type"],
+    payload: DBMessage,
+  ): Promise<void> {
+    if (connectionStatus.getIsOnline()) {
+      try {
+        const result = await messageDataSync.syncCollection(userId);
+        if (result.success) return;
+        logger.warn("Message delivery failed, queueing", {
+          error: result.error,
+        });
+      } catch (error) {
+        logger.warn("Message delivery failed, queueing", {
+          error: error as Error,
+        });
+      }
+    }
+
+    await offlineQueue.queueOperation({
+      type,
+      collectionName: "messages",
+      payload,
+      userId,
+    });
+  }
+}
@@ -6,6 +6,7 @@
 import { DBEvent } from "../types/database";
 import { db } from "./storage/dexie";
 import { serviceLogger } from "../utils/logging";
+import { getHygieneWindowKey } from "../utils/rules/hygieneWindows";
 
 const logger = serviceLogger("PauseCooldownService");
 
@@ -87,7 +88,8 @@ export class PauseCooldownService {
   }
 
   /**
-   * Get the most recent pause event for a session
+   * Get the most recent pause event for a session. Scheduled hygiene
+   * openings are exempt from the cooldown and are skipped.
    */
   private static async getLastPauseEvent(
     sessionId: string,
@@ -97,7 +99,10 @@ export class PauseCooldownService {
       const pauseEvent = await db.events
         .where("sessionId")
         .equals(sessionId)
-        .and((event) => event.type === "session_pause")
+        .and(
+          (event) =>
+            event.type === "session_pause" && !getHygieneWindowKey(event),
+        )
         .reverse()
         .first();
 
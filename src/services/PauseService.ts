@@ -5,8 +5,11 @@
 
 import { DBEvent } from "../types/database";
 import { PauseCooldownService } from "./PauseCooldownService";
+import { AuditLogService } from "./AuditLogService";
+import { AuditAction } from "../types/security";
 import { db } from "./storage/dexie";
 import { serviceLogger } from "../utils/logging";
+import type { HygieneWindowOccurrence } from "../utils/rules/hygieneWindows";
 
 const logger = serviceLogger("PauseService");
 
@@ -77,6 +80,102 @@ export class PauseService {
     }
   }
 
+  /**
+   * Open a scheduled hygiene window. Keyholder-scheduled openings skip the
+   * pause cooldown and do not start a new one. The pause starts when the
+   * window (or a session begun during it) does, however late the wearer
+   * confirms it.
+   */
+  static async openHygieneWindow(
+    sessionId: string,
+    window: HygieneWindowOccurrence,
+  ): Promise<void> {
+    try {
+      const session = await db.sessions.get(sessionId);
+      if (!session || session.isPaused) {
+        throw new Error("Session not found or already paused");
+      }
+
+      const pauseTime =
+        session.startTime > window.start ? session.startTime : window.start;
+      await db.sessions.update(sessionId, {
+        isPaused: true,
+        pauseStartTime: pauseTime,
+      });
+
+      await this.logPauseEvent(
+        session.userId,
+        sessionId,
+        pauseTime,
+        "Hygiene",
+        {
+          hygieneWindow: window.key,
+          relockBy: window.end.toISOString(),
+        },
+      );
+
+      logger.info("Hygiene window opened", {
+        sessionId,
+        userId: session.userId,
+        window: window.key,
+      });
+    } catch (error) {
+      logger.error("Failed to open hygiene window", {
+        error,
+        sessionId,
+        window: window.key,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Start a pause granted by a keyholder's counter-offer. Like hygiene
+   * windows it skips the pause cooldown.
+   */
+  static async grantReleasePause(
+    sessionId: string,
+    releaseRequestId: string,
+    relockBy: Date,
+    pauseTime: Date = new Date(),
+  ): Promise<void> {
+    try {
+      const session = await db.sessions.get(sessionId);
+      if (!session || session.isPaused) {
+        throw new Error("Session not found or already paused");
+      }
+
+      await db.sessions.update(sessionId, {
+        isPaused: true,
+        pauseStartTime: pauseTime,
+      });
+
+      await this.logPauseEvent(
+        session.userId,
+        sessionId,
+        pauseTime,
+        "Granted Pause",
+        {
+          releaseRequestId,
+          relockBy: relockBy.toISOString(),
+        },
+      );
+
+      logger.info("Granted pause started", {
+        sessionId,
+        userId: session.userId,
+        releaseRequestId,
+      });
+    } catch (error) {
+      logger.error("Failed to start granted pause", {
+        error,
+        sessionId,
+        releaseRequestId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Resume a paused session
    */
@@ -107,6 +206,7 @@ export class PauseService {
         sessionId,
         resumeTime,
         pauseDuration,
+        session.pauseStartTime,
       );
 
       logger.info("Session resumed successfully", {
@@ -181,13 +281,14 @@ export class PauseService {
   }
 
   /**
-   * Log pause event to database
+   * Log pause event to database and the audit log
    */
   private static async logPauseEvent(
     userId: string,
     sessionId: string,
     timestamp: Date,
     reason: string,
+    metadata?: Record<string, unknown>,
   ): Promise<void> {
     const event: Omit<DBEvent, "id"> = {
       userId,
@@ -197,6 +298,7 @@ export class PauseService {
       details: {
         notes: reason,
         pauseReason: reason,
+        metadata,
       },
       isPrivate: false,
       syncStatus: "pending",
@@ -204,16 +306,22 @@ export class PauseService {
     };
 
     await db.events.add(event as DBEvent);
+    await AuditLogService.recordSessionChange(
+      { id: sessionId, userId },
+      AuditAction.SESSION_PAUSE,
+      { description: "Session paused", metadata: { reason, ...metadata } },
+    );
   }
 
   /**
-   * Log resume event to database
+   * Log resume event to database and the audit log
    */
   private static async logResumeEvent(
     userId: string,
     sessionId: string,
     timestamp: Date,
     pauseDuration: number,
+    pauseStartTime: Date,
   ): Promise<void> {
     const event: Omit<DBEvent, "id"> = {
       userId,
@@ -222,6 +330,7 @@ export class PauseService {
       timestamp,
       details: {
         pauseDuration,
+        metadata: { pauseStartTime: pauseStartTime.toISOString() },
         notes: `Session resumed after ${Math.floor(pauseDuration / 60)} minutes`,
       },
       isPrivate: false,
@@ -230,5 +339,10 @@ export class PauseService {
     };
 
     await db.events.add(event as DBEvent);
+    await AuditLogService.recordSessionChange(
+      { id: sessionId, userId },
+      AuditAction.SESSION_RESUME,
+      { description: "Session resumed", metadata: { pauseDuration } },
+    );
   }
 }
@@ -0,0 +1,105 @@
+/**
+ * Random Duration Service
+ * Applies dice-roll goals to sessions and re-rolls them as task or rule
+ * consequences
+ */
+import { sessionDBService } from "./database/SessionDBService";
+import type { DBSession, DBTask } from "@/types/database";
+import type { RandomDurationRoll, RandomGoalRecord } from "@/types/goals";
+import {
+  getRandomGoalDuration,
+  rerollRandomGoal,
+} from "@/utils/goals/randomDuration";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("RandomDurationService");
+
+export class RandomDurationService {
+  /**
+   * Session fields for a random goal. Hidden rolls reuse the hidden timer and
+   * reveal on unlock.
+   */
+  static getSessionFields(
+    record: RandomGoalRecord,
+  ): Pick<
+    DBSession,
+    "goalDuration" | "randomGoal" | "isTimerHidden" | "timerRevealMode"
+  > {
+    return {
+      goalDuration: getRandomGoalDuration(record),
+      randomGoal: record,
+      ...(record.hideUntilComplete && {
+        isTimerHidden: true,
+        timerRevealMode: "on_unlock" as const,
+      }),
+    };
+  }
+
+  /**
+   * Replace the goal of the user's active session with a random goal
+   *
+   * @returns false when there is no active session
+   */
+  static async applyToCurrentSession(
+    userId: string,
+    record: RandomGoalRecord,
+  ): Promise<boolean> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    if (!session) return false;
+
+    await sessionDBService.update(session.id, this.getSessionFields(record));
+    logger.info("Random goal applied to session", {
+      sessionId: session.id,
+      seed: record.seed,
+    });
+    return true;
+  }
+
+  /**
+   * Re-roll the active session's random goal
+   *
+   * @returns The new roll, or null when the session has no random goal
+   */
+  static async reroll(
+    userId: string,
+    reason: Exclude<RandomDurationRoll["reason"], "initial">,
+    now: Date = new Date(),
+  ): Promise<RandomDurationRoll | null> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    if (!session?.randomGoal) {
+      logger.debug("No random goal to re-roll", { userId, reason });
+      return null;
+    }
+
+    const record = rerollRandomGoal(session.randomGoal, reason, now);
+    await sessionDBService.update(session.id, {
+      randomGoal: record,
+      goalDuration: getRandomGoalDuration(record),
+    });
+
+    const roll = record.rolls[record.rolls.length - 1] ?? null;
+    logger.info("Random goal re-rolled", {
+      sessionId: session.id,
+      reason,
+      kept: roll?.kept,
+    });
+    return roll;
+  }
+
+  /**
+   * Apply a task's re-roll consequence once it has been reviewed: rewards on
+   * approval, punishments on rejection
+   */
+  static async applyTaskConsequence(
+    task: DBTask,
+    outcome: "approved" | "rejected",
+  ): Promise<RandomDurationRoll | null> {
+    const consequence = task.consequence;
+    if (!consequence?.reroll) return null;
+
+    const expectedType = outcome === "approved" ? "reward" : "punishment";
+    if (consequence.type !== expectedType) return null;
+
+    return this.reroll(task.userId, consequence.type);
+  }
+}
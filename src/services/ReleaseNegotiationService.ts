@@ -0,0 +1,159 @@
+/**
+ * Release Negotiation Service
+ * Carries out keyholder counter-offers on release requests: creates the
+ * linked task, starts the granted pause, and approves the release once an
+ * accepted condition is met or settles the offer once the pause is over
+ */
+import { db } from "./storage/ChastityDB";
+import { releaseRequestDBService } from "./database/ReleaseRequestDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { taskDBService } from "./database/TaskDBService";
+import { PauseService } from "./PauseService";
+import type { ReleaseCounterCondition } from "@/types/core";
+import type { DBReleaseRequest } from "@/types/database";
+import {
+  hasGrantedPauseEnded,
+  isCounterOfferMet,
+  isRequestOpen,
+} from "@/utils/releaseRequests";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ReleaseNegotiationService");
+
+const MINUTE_MS = 60 * 1000;
+
+export class ReleaseNegotiationService {
+  /**
+   * Accept the counter-offer on a request and put its condition into effect.
+   * The request is moved to accepted first, in one transaction with the
+   * status check, so a second accept fails before creating anything.
+   */
+  static async accept(
+    requestId: string,
+    now: Date = new Date(),
+  ): Promise<DBReleaseRequest> {
+    const offered = await db.transaction("rw", db.releaseRequests, async () => {
+      const request = await releaseRequestDBService.findById(requestId);
+      if (request?.status !== "countered" || !request.counterOffer) {
+        throw new Error("No counter-offer to accept");
+      }
+      await releaseRequestDBService.respondToCounterOffer(
+        requestId,
+        "accepted",
+      );
+      return { ...request, counterOffer: request.counterOffer };
+    });
+
+    let condition: ReleaseCounterCondition;
+    try {
+      condition = await this.applyCondition(
+        offered,
+        offered.counterOffer.condition,
+        now,
+      );
+    } catch (error) {
+      // Nothing was put into effect, so the offer is open again
+      await releaseRequestDBService.update(requestId, {
+        status: "countered",
+        counterOffer: offered.counterOffer,
+      });
+      throw error;
+    }
+    const accepted = await releaseRequestDBService.recordAcceptedCondition(
+      requestId,
+      condition,
+    );
+
+    logger.info("Counter-offer accepted", {
+      requestId,
+      sessionId: offered.sessionId,
+      condition: condition.type,
+    });
+
+    // A delay that has already passed releases straight away
+    return this.settle(accepted, now);
+  }
+
+  /**
+   * Decline the counter-offer; the session continues as if denied
+   */
+  static async decline(requestId: string): Promise<DBReleaseRequest> {
+    return releaseRequestDBService.respondToCounterOffer(requestId, "declined");
+  }
+
+  /**
+   * Approve an accepted request whose condition has been met, or settle an
+   * accepted pause offer whose pause is over. Returns the request unchanged
+   * otherwise.
+   */
+  static async settle(
+    request: DBReleaseRequest,
+    now: Date = new Date(),
+  ): Promise<DBReleaseRequest> {
+    const condition = request.counterOffer?.condition;
+    if (request.status !== "accepted" || !condition) return request;
+
+    if (condition.type === "pause") {
+      const session = await sessionDBService.findById(request.sessionId);
+      return hasGrantedPauseEnded(request, session ?? null)
+        ? releaseRequestDBService.settleCounterOffer(request.id)
+        : request;
+    }
+
+    const task =
+      condition.type === "task" && condition.taskId
+        ? await taskDBService.findById(condition.taskId)
+        : undefined;
+    if (!isCounterOfferMet(request, { now, taskStatus: task?.status })) {
+      return request;
+    }
+
+    return releaseRequestDBService.completeCounterOffer(request.id);
+  }
+
+  /**
+   * The request still open for a session once any finished counter-offer
+   * has been settled
+   */
+  static async getOpenRequest(
+    sessionId: string,
+    now: Date = new Date(),
+  ): Promise<DBReleaseRequest | null> {
+    const request =
+      await releaseRequestDBService.getOpenRequestForSession(sessionId);
+    if (!request) return null;
+
+    const settled = await this.settle(request, now);
+    return isRequestOpen(settled) ? settled : null;
+  }
+
+  private static async applyCondition(
+    request: DBReleaseRequest,
+    condition: ReleaseCounterCondition,
+    now: Date,
+  ): Promise<ReleaseCounterCondition> {
+    switch (condition.type) {
+      case "task": {
+        const taskId = await taskDBService.createTask({
+          userId: request.submissiveUserId,
+          text: condition.taskText,
+          description: "Complete this task to be released",
+          status: "pending",
+          priority: "high",
+          assignedBy: "keyholder",
+        });
+        return { ...condition, taskId };
+      }
+      case "pause":
+        await PauseService.grantReleasePause(
+          request.sessionId,
+          request.id,
+          new Date(now.getTime() + condition.pauseMinutes * MINUTE_MS),
+          now,
+        );
+        return { ...condition, startedAt: now };
+      case "delay":
+        return condition;
+    }
+  }
+}
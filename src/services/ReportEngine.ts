@@ -0,0 +1,92 @@
+/**
+ * Report Engine
+ * Loads a user's sessions, events, tasks and goals for a date range and
+ * builds reports from them
+ */
+import Dexie, { type Table } from "dexie";
+import { db } from "./storage/ChastityDB";
+import type {
+  DataFilter,
+  ReportParameters,
+  ReportTemplate,
+} from "@/hooks/features/useReporting";
+import {
+  generateReportData,
+  getRawData,
+  isReportDataType,
+  type ReportRecords,
+} from "@/utils/reporting/reportingHelpers";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ReportEngine");
+
+export class ReportEngine {
+  /**
+   * Records touching a date range: sessions running at any point in it,
+   * events and tasks created in it, and goals open during it
+   */
+  static async loadRecords(
+    userId: string,
+    dateRange: ReportParameters["dateRange"],
+  ): Promise<ReportRecords> {
+    const { start, end } = dateRange;
+    const [sessions, events, tasks, goals] = await Promise.all([
+      db.sessions
+        .where("[userId+startTime]")
+        .between([userId, Dexie.minKey], [userId, end], true, true)
+        .filter((session) => !session.endTime || session.endTime >= start)
+        .toArray(),
+      db.events
+        .where("[userId+timestamp]")
+        .between([userId, start], [userId, end], true, true)
+        .toArray(),
+      db.tasks
+        .where("[userId+createdAt]")
+        .between([userId, start], [userId, end], true, true)
+        .toArray(),
+      db.goals
+        .where("[userId+createdAt]")
+        .between([userId, Dexie.minKey], [userId, end], true, true)
+        .filter((goal) => !goal.completedAt || goal.completedAt >= start)
+        .toArray(),
+    ]);
+
+    return { sessions, events, tasks, goals };
+  }
+
+  /**
+   * Build a report from a template over the parameters' date range
+   */
+  static async generate(
+    userId: string,
+    template: ReportTemplate,
+    parameters: ReportParameters,
+    now: Date = new Date(),
+  ) {
+    const records = await this.loadRecords(userId, parameters.dateRange);
+    logger.debug("Loaded report records", {
+      templateId: template.id,
+      sessions: records.sessions.length,
+      events: records.events.length,
+      tasks: records.tasks.length,
+      goals: records.goals.length,
+    });
+    return generateReportData(template, parameters, records, now);
+  }
+
+  /**
+   * All of a user's records of one type that match the filters
+   */
+  static async getRawData(
+    userId: string,
+    dataType: string,
+    filters: DataFilter[],
+  ) {
+    if (!isReportDataType(dataType)) {
+      throw new Error(`Unknown data type: ${dataType}`);
+    }
+    const table = db[dataType] as Table<object>;
+    const records = await table.where("userId").equals(userId).toArray();
+    return getRawData(dataType, filters, records);
+  }
+}
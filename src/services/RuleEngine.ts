@@ -0,0 +1,213 @@
+/**
+ * Rule Engine
+ * Evaluates keyholder rule conditions against a submissive's sessions and
+ * events, records violations and applies the rules' consequences
+ */
+import { db } from "./storage/ChastityDB";
+import { ruleDBService } from "./database/RuleDBService";
+import { ruleViolationDBService } from "./database/RuleViolationDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { settingsDBService } from "./database/SettingsDBService";
+import { taskDBService } from "./database/TaskDBService";
+import { TimeAdjustmentService } from "./TimeAdjustmentService";
+import { RandomDurationService } from "./RandomDurationService";
+import type { KeyholderRule, TaskConsequence } from "@/types/core";
+import type { DBRuleViolation, DBSession } from "@/types/database";
+import {
+  evaluateRuleConditions,
+  type RuleViolationDraft,
+} from "@/utils/rules/ruleConditions";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("RuleEngine");
+
+/** How far back a single evaluation looks */
+const EVALUATION_WINDOW_DAYS = 30;
+
+export class RuleEngine {
+  /**
+   * Evaluate all active rules for a submissive. Violations already on record
+   * are skipped, so this is safe to call repeatedly.
+   *
+   * @returns Newly recorded violations
+   */
+  static async evaluateForSubmissive(
+    submissiveUserId: string,
+    now: Date = new Date(),
+  ): Promise<DBRuleViolation[]> {
+    try {
+      const rules = (
+        await ruleDBService.findActiveBySubmissive(submissiveUserId)
+      ).filter((rule) => rule.conditions && rule.conditions.length > 0);
+      if (rules.length === 0) return [];
+
+      const windowStart = new Date(
+        now.getTime() - EVALUATION_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+      );
+      const [events, currentSession, settings] = await Promise.all([
+        db.events
+          .where("[userId+timestamp]")
+          .between([submissiveUserId, windowStart], [submissiveUserId, now])
+          .toArray(),
+        sessionDBService.getCurrentSession(submissiveUserId),
+        settingsDBService.getSettings(submissiveUserId),
+      ]);
+      const timezone =
+        settings?.display?.timezone ??
+        Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+      const recorded: DBRuleViolation[] = [];
+      for (const rule of rules) {
+        const createdAt = new Date(rule.createdAt);
+        const drafts = evaluateRuleConditions(rule.conditions ?? [], {
+          sessions: currentSession ? [currentSession] : [],
+          events,
+          since: createdAt > windowStart ? createdAt : windowStart,
+          now,
+          timezone,
+        });
+        recorded.push(
+          ...(await this.recordViolations(rule, drafts, currentSession, now)),
+        );
+      }
+
+      if (recorded.length > 0) {
+        logger.info("Rule violations recorded", {
+          submissiveUserId,
+          count: recorded.length,
+        });
+      }
+      return recorded;
+    } catch (error) {
+      logger.error("Failed to evaluate rules", {
+        error: error as Error,
+        submissiveUserId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Store drafts that are not yet on record and apply the rule's consequences
+   */
+  private static async recordViolations(
+    rule: KeyholderRule,
+    drafts: RuleViolationDraft[],
+    currentSession: DBSession | undefined,
+    now: Date,
+  ): Promise<DBRuleViolation[]> {
+    const withIds = drafts.map((draft) => ({
+      draft,
+      id: `${rule.id}:${draft.key}`,
+    }));
+    const existing = await ruleViolationDBService.findExistingIds(
+      withIds.map(({ id }) => id),
+    );
+
+    const recorded: DBRuleViolation[] = [];
+    for (const { draft, id } of withIds) {
+      if (existing.has(id)) continue;
+
+      const applied = await this.applyConsequences(
+        rule,
+        id,
+        currentSession,
+        now,
+      );
+      const violation: DBRuleViolation = {
+        id,
+        userId: rule.submissiveUserId,
+        keyholderUserId: rule.keyholderUserId,
+        ruleId: rule.id,
+        ruleTitle: rule.title,
+        conditionType: draft.conditionType,
+        description: draft.description,
+        occurredAt: draft.occurredAt,
+        detectedAt: now,
+        sessionId: draft.sessionId,
+        eventId: draft.eventId,
+        timeAdded: applied.timeAdded,
+        punishmentTaskIds: applied.punishmentTaskIds,
+        syncStatus: "pending",
+        lastModified: now,
+      };
+      await ruleViolationDBService.create(violation);
+      recorded.push(violation);
+    }
+    return recorded;
+  }
+
+  /**
+   * Time penalties go to the session's adjustment ledger and re-rolls to the
+   * session's random goal; other punishments become keyholder-assigned tasks
+   */
+  private static async applyConsequences(
+    rule: KeyholderRule,
+    violationId: string,
+    currentSession: DBSession | undefined,
+    now: Date,
+  ): Promise<{ timeAdded: number; punishmentTaskIds: string[] }> {
+    const punishments = (rule.consequences ?? []).filter(
+      (consequence) => consequence.type === "punishment",
+    );
+    let timeAdded = 0;
+    const punishmentTaskIds: string[] = [];
+
+    for (const consequence of punishments) {
+      if (consequence.reroll) {
+        if (currentSession) {
+          await RandomDurationService.reroll(
+            rule.submissiveUserId,
+            "punishment",
+            now,
+          );
+        }
+      } else if (consequence.duration) {
+        timeAdded += consequence.duration;
+      } else {
+        punishmentTaskIds.push(
+          await this.createPunishmentTask(rule, consequence),
+        );
+      }
+    }
+
+    // Time penalties only apply while a session is running
+    const adjustment =
+      timeAdded > 0 && currentSession
+        ? await TimeAdjustmentService.applyAdjustment(
+            {
+              userId: rule.submissiveUserId,
+              sessionId: currentSession.id,
+              seconds: timeAdded,
+              source: "rule_violation",
+              sourceId: violationId,
+              reason: `Rule broken: ${rule.title}`,
+              createdBy: "system",
+            },
+            now,
+          )
+        : null;
+
+    return { timeAdded: adjustment?.seconds ?? 0, punishmentTaskIds };
+  }
+
+  private static createPunishmentTask(
+    rule: KeyholderRule,
+    consequence: TaskConsequence,
+  ): Promise<string> {
+    return taskDBService.createTask({
+      userId: rule.submissiveUserId,
+      text: consequence.description || `Punishment: ${rule.title}`,
+      title: `Punishment: ${rule.title}`,
+      description: `Rule broken: ${rule.title}`,
+      status: "pending",
+      priority: "high",
+      assignedBy: "keyholder",
+      category: "punishment",
+      consequence: {
+        type: "punishment",
+        description: consequence.description,
+      },
+    });
+  }
+}
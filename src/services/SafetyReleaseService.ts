@@ -0,0 +1,179 @@
+/**
+ * Safety Release Service
+ * Tracks how long the wearer's keyholders have been unreachable and lets the
+ * wearer end the session without penalty once the silence period has passed.
+ * Unlike an emergency unlock, a safety release has no cooldown and is logged
+ * as its own event.
+ */
+import { db } from "./storage/ChastityDB";
+import { eventDBService } from "./database/EventDBService";
+import { keyholderRelationshipDBService } from "./database/KeyholderRelationshipDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { settingsDBService } from "./database/SettingsDBService";
+import { AuditLogService } from "./AuditLogService";
+import type { DBSession } from "@/types/database";
+import { SystemEventType } from "@/types/events";
+import { AuditAction, AuditSeverity } from "@/types/security";
+import {
+  getLatestActivity,
+  getSafetyReleaseHours,
+  getSafetyReleaseStatus,
+  type SafetyReleaseStatus,
+} from "@/utils/keyholder/safetyRelease";
+import { SAFETY_RELEASE_END_REASON } from "@/utils/keyholder/unlockSchedule";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("SafetyReleaseService");
+
+export interface SafetyReleaseCheck {
+  session: DBSession;
+  status: SafetyReleaseStatus;
+}
+
+export class SafetyReleaseService {
+  /**
+   * Latest sign of life from any active keyholder: linking, messages,
+   * release request responses, assigned or reviewed tasks and unlock
+   * schedule check-ins. `presenceLastSeen` adds when the keyholder last
+   * opened their controls, when known.
+   */
+  static async getKeyholderLastActivity(
+    userId: string,
+    session: DBSession,
+    presenceLastSeen?: Date,
+  ): Promise<Date | undefined> {
+    const keyholders =
+      await keyholderRelationshipDBService.getActiveKeyholders(userId);
+    if (keyholders.length === 0) {
+      return undefined;
+    }
+    const keyholderIds = new Set(keyholders.map((rel) => rel.keyholderUserId));
+
+    const [messages, requests, tasks] = await Promise.all([
+      db.messages
+        .where("submissiveUserId")
+        .equals(userId)
+        .and((message) => message.senderRole === "keyholder")
+        .toArray(),
+      db.releaseRequests.where("sessionId").equals(session.id).toArray(),
+      db.tasks
+        .where("userId")
+        .equals(userId)
+        .and((task) => task.assignedBy === "keyholder")
+        .toArray(),
+    ]);
+
+    return getLatestActivity([
+      presenceLastSeen,
+      ...keyholders.map((rel) => rel.acceptedAt ?? rel.createdAt),
+      ...messages.map((message) => message.sentAt),
+      ...requests.flatMap((request) => [
+        request.approvedAt,
+        request.deniedAt,
+        request.counterOffer?.offeredAt,
+        ...(request.approvals ?? [])
+          .filter((approval) => keyholderIds.has(approval.keyholderUserId))
+          .map((approval) => approval.respondedAt),
+      ]),
+      ...tasks.flatMap((task) => [task.createdAt, task.approvedAt]),
+      session.unlockSchedule?.lastCheckInAt,
+      session.unlockSchedule?.setAt,
+    ]);
+  }
+
+  /**
+   * Safety release status for the wearer's current session. Null without an
+   * active session, a keyholder, or unless the wearer turned the policy on.
+   */
+  static async check(
+    userId: string,
+    options: { presenceLastSeen?: Date; now?: Date } = {},
+  ): Promise<SafetyReleaseCheck | null> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    if (!session) {
+      return null;
+    }
+
+    const settings = await settingsDBService.getSettings(userId);
+    const releaseAfterHours = getSafetyReleaseHours(
+      settings?.chastity?.safetyReleaseHours,
+    );
+    if (releaseAfterHours === null) {
+      return null;
+    }
+
+    const lastActivity = await this.getKeyholderLastActivity(
+      userId,
+      session,
+      options.presenceLastSeen,
+    );
+    if (!lastActivity) {
+      return null;
+    }
+
+    return {
+      session,
+      status: getSafetyReleaseStatus(
+        lastActivity,
+        releaseAfterHours,
+        options.now,
+      ),
+    };
+  }
+
+  /**
+   * End the current session without penalty. Refused unless the keyholder
+   * has been unreachable for the full silence period.
+   */
+  static async release(
+    userId: string,
+    presenceLastSeen?: Date,
+    now: Date = new Date(),
+  ): Promise<DBSession> {
+    const check = await this.check(userId, { presenceLastSeen, now });
+    if (!check || check.status.level !== "releasable") {
+      throw new Error("Safety release is not available yet");
+    }
+
+    const { session, status } = check;
+    await sessionDBService.endSession(
+      session.id,
+      now,
+      SAFETY_RELEASE_END_REASON,
+    );
+    await eventDBService.createEvent({
+      userId,
+      sessionId: session.id,
+      type: SystemEventType.SAFETY_RELEASE,
+      timestamp: now,
+      details: {
+        notes: `Keyholder unreachable for ${status.hoursSilent} hours`,
+        metadata: {
+          lastKeyholderActivityAt: status.lastKeyholderActivityAt,
+          hoursSilent: status.hoursSilent,
+        },
+      },
+      isPrivate: false,
+    });
+    await AuditLogService.record({
+      userId,
+      action: AuditAction.SAFETY_RELEASE,
+      severity: AuditSeverity.HIGH,
+      context: {
+        sessionId: session.id,
+        resourceType: "session",
+        resourceId: session.id,
+      },
+      details: {
+        description: "Safety release",
+        metadata: { hoursSilent: status.hoursSilent },
+      },
+    });
+
+    logger.info("Safety release completed", {
+      sessionId: session.id,
+      hoursSilent: status.hoursSilent,
+    });
+    return session;
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Scheduled Report Service
+ * Stores report schedules and runs the ones that are due, adding each run to
+ * the owner's recent reports
+ */
+import { reportScheduleDBService } from "./database/ReportScheduleDBService";
+import { ReportEngine } from "./ReportEngine";
+import { ReportStorageService } from "./reportStorage";
+import { ReportNotificationService } from "./notifications/ReportNotificationService";
+import {
+  ExportFormat,
+  type GeneratedReport,
+  type ReportSchedule,
+  type ReportingPreferences,
+} from "@/hooks/features/useReporting";
+import type { DBReportSchedule } from "@/types/reports";
+import {
+  calculateNextRun,
+  createGeneratedReport,
+  getScheduledReportRange,
+} from "@/utils/reporting/reportingHelpers";
+import { findReportTemplate } from "@/utils/reporting/reportTemplates";
+import { generateUUID } from "@/utils";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ScheduledReportService");
+
+/** Recent reports kept when no preference is stored */
+const DEFAULT_MAX_REPORTS = 50;
+
+/** The report a keyholder's weekly wearer summary runs */
+export const WEARER_SUMMARY_TEMPLATE_ID = "session-summary";
+
+export class ScheduledReportService {
+  /**
+   * Schedule a report template. `subjectUserId` defaults to the owner.
+   */
+  static async scheduleReport(
+    userId: string,
+    templateId: string,
+    schedule: ReportSchedule,
+    subjectUserId: string = userId,
+    now: Date = new Date(),
+  ): Promise<DBReportSchedule> {
+    if (!findReportTemplate(templateId)) {
+      throw new Error("Template not found");
+    }
+
+    const record: DBReportSchedule = {
+      id: generateUUID(),
+      userId,
+      subjectUserId,
+      templateId,
+      frequency: schedule.frequency,
+      time: schedule.time,
+      format: schedule.format,
+      recipients: schedule.recipients,
+      enabled: schedule.enabled,
+      nextRun: calculateNextRun(schedule, now),
+      createdAt: now,
+      syncStatus: "pending",
+      lastModified: now,
+    };
+    await reportScheduleDBService.create(record);
+    logger.info("Report scheduled", {
+      scheduleId: record.id,
+      templateId,
+      nextRun: record.nextRun,
+    });
+    return record;
+  }
+
+  /**
+   * Turn a keyholder's weekly summary of a wearer on or off. Re-enabling
+   * reuses the existing schedule.
+   */
+  static async setWearerSummary(
+    keyholderUserId: string,
+    wearerUserId: string,
+    enabled: boolean,
+    now: Date = new Date(),
+  ): Promise<DBReportSchedule | null> {
+    const existing = await reportScheduleDBService.findForSubject(
+      keyholderUserId,
+      wearerUserId,
+      WEARER_SUMMARY_TEMPLATE_ID,
+    );
+
+    if (existing) {
+      const updates = {
+        enabled,
+        nextRun: enabled ? calculateNextRun(existing, now) : existing.nextRun,
+      };
+      await reportScheduleDBService.update(existing.id, updates);
+      return { ...existing, ...updates };
+    }
+    if (!enabled) return null;
+
+    return this.scheduleReport(
+      keyholderUserId,
+      WEARER_SUMMARY_TEMPLATE_ID,
+      {
+        frequency: "weekly",
+        time: "09:00",
+        recipients: [keyholderUserId],
+        format: ExportFormat.PDF,
+        enabled: true,
+      },
+      wearerUserId,
+      now,
+    );
+  }
+
+  /**
+   * Run every schedule the user owns that is due. Missed runs are caught
+   * up with a single run rather than one per missed period.
+   *
+   * @returns The reports generated
+   */
+  static async runDue(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<GeneratedReport[]> {
+    const due = await reportScheduleDBService.getDue(userId, now);
+    const reports: GeneratedReport[] = [];
+
+    for (const schedule of due) {
+      try {
+        reports.push(await this.run(schedule, now));
+      } catch (error) {
+        logger.error("Scheduled report run failed", {
+          error: error as Error,
+          scheduleId: schedule.id,
+        });
+      }
+    }
+
+    return reports;
+  }
+
+  /**
+   * Generate one scheduled report over the period before `now`, add it to
+   * the recent reports and notify the owner
+   */
+  static async run(
+    schedule: DBReportSchedule,
+    now: Date = new Date(),
+  ): Promise<GeneratedReport> {
+    const template = findReportTemplate(schedule.templateId);
+    if (!template) {
+      throw new Error(`Unknown report template: ${schedule.templateId}`);
+    }
+
+    const parameters = {
+      dateRange: getScheduledReportRange(schedule.frequency, now),
+      includeDetails: true,
+      filters: {},
+    };
+    const data = await ReportEngine.generate(
+      schedule.subjectUserId,
+      template,
+      parameters,
+      now,
+    );
+    const report = createGeneratedReport(
+      template,
+      parameters,
+      data,
+      schedule.userId,
+      now,
+    );
+
+    this.addToRecentReports(report);
+    await reportScheduleDBService.recordRun(
+      schedule.id,
+      now,
+      calculateNextRun(schedule, now),
+      report.id,
+    );
+    await ReportNotificationService.notifyScheduledReportReady({
+      userId: schedule.userId,
+      reportId: report.id,
+      reportName: report.name,
+      scheduleId: schedule.id,
+      isWearerReport: schedule.subjectUserId !== schedule.userId,
+    });
+
+    return report;
+  }
+
+  private static addToRecentReports(report: GeneratedReport) {
+    const maxReports =
+      ReportStorageService.getPreferences<ReportingPreferences>()?.maxReports ||
+      DEFAULT_MAX_REPORTS;
+    const recent = ReportStorageService.getRecentReports<GeneratedReport>();
+    ReportStorageService.setRecentReports(
+      [report, ...recent].slice(0, maxReports),
+    );
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * Season Service
+ * Tracks the XP users earn in the running season and lets them claim the
+ * rewards on its track
+ */
+import { goalDBService } from "./database/GoalDBService";
+import { seasonProgressDBService } from "./database/SeasonProgressDBService";
+import type {
+  DBSeasonProgress,
+  Season,
+  SeasonChallengeType,
+  SeasonRewardClaim,
+} from "@/types/gamification";
+import {
+  getCompletedChallengeTypes,
+  getSeasonForDate,
+  isRewardUnlocked,
+} from "@/utils/gamification/seasons";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("SeasonService");
+
+export class SeasonService {
+  /**
+   * The running season with the user's season XP and which of its rewards
+   * are unlocked and claimed, or null between seasons
+   */
+  static async getCurrentSeason(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<Season | null> {
+    const season = getSeasonForDate(now);
+    if (!season) return null;
+
+    const [progress, completedChallengeTypes] = await Promise.all([
+      seasonProgressDBService.getForSeason(userId, season.id),
+      this.getCompletedChallengeTypes(userId, season),
+    ]);
+    return this.applyProgress(season, progress, completedChallengeTypes);
+  }
+
+  /**
+   * Count XP towards the running season. Failures are logged rather than
+   * thrown so they never block the XP itself.
+   */
+  static async addExperience(
+    userId: string,
+    amount: number,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const season = getSeasonForDate(now);
+    if (!season || amount <= 0) return;
+
+    try {
+      const experience = await seasonProgressDBService.addExperience(
+        userId,
+        season.id,
+        amount,
+      );
+      logger.debug("Season experience added", {
+        seasonId: season.id,
+        amount,
+        experience,
+      });
+    } catch (error) {
+      logger.error("Failed to add season experience", {
+        error: error as Error,
+        userId,
+        seasonId: season.id,
+      });
+    }
+  }
+
+  /**
+   * Claim an unlocked reward from the running season. Claiming a reward
+   * that was already claimed returns the original claim.
+   */
+  static async claimReward(
+    userId: string,
+    rewardId: string,
+    now: Date = new Date(),
+  ): Promise<SeasonRewardClaim> {
+    const season = await this.getCurrentSeason(userId, now);
+    if (!season) throw new Error("No season is running");
+
+    const reward = season.rewards.find((r) => r.id === rewardId);
+    if (!reward) throw new Error("Reward not found");
+    if (reward.claimed) {
+      return { seasonId: season.id, reward, alreadyClaimed: true };
+    }
+    if (!reward.unlocked) throw new Error("Reward not unlocked");
+
+    const { claimedAt, alreadyClaimed } =
+      await seasonProgressDBService.recordClaim(
+        userId,
+        season.id,
+        rewardId,
+        now,
+      );
+    return {
+      seasonId: season.id,
+      reward: { ...reward, claimed: true, claimedAt },
+      alreadyClaimed,
+    };
+  }
+
+  // Special challenge goals only matter to seasons with challenge rewards
+  private static async getCompletedChallengeTypes(
+    userId: string,
+    season: Season,
+  ): Promise<SeasonChallengeType[]> {
+    if (!season.rewards.some((r) => r.requirement.type === "challenge_goal")) {
+      return [];
+    }
+    const goals = await goalDBService.getSpecialChallengeGoals(userId);
+    return getCompletedChallengeTypes(goals, season.startDate.getFullYear());
+  }
+
+  private static applyProgress(
+    season: Season,
+    progress: DBSeasonProgress | undefined,
+    completedChallengeTypes: SeasonChallengeType[],
+  ): Season {
+    const experience = progress?.experience ?? 0;
+    return {
+      ...season,
+      experience,
+      rewards: season.rewards.map((reward) => {
+        const claim = progress?.claimedRewards.find(
+          (c) => c.rewardId === reward.id,
+        );
+        return {
+          ...reward,
+          unlocked: isRewardUnlocked(
+            reward,
+            experience,
+            completedChallengeTypes,
+          ),
+          claimed: !!claim,
+          claimedAt: claim?.claimedAt,
+        };
+      }),
+    };
+  }
+}
@@ -0,0 +1,146 @@
+/**
+ * Time Adjustment Service
+ * Records lock time added to or removed from a session in the adjustment
+ * ledger and applies task consequences to it
+ */
+import { sessionDBService } from "./database/SessionDBService";
+import { timeAdjustmentDBService } from "./database/TimeAdjustmentDBService";
+import { TimerService } from "./TimerService";
+import type {
+  DBTask,
+  DBTimeAdjustment,
+  TimeAdjustmentSource,
+} from "@/types/database";
+import { generateUUID } from "@/utils";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("TimeAdjustmentService");
+
+export interface TimeAdjustmentInput {
+  userId: string;
+  seconds: number;
+  source: TimeAdjustmentSource;
+  sourceId?: string;
+  reason: string;
+  createdBy: DBTimeAdjustment["createdBy"];
+  /** Defaults to the user's active session */
+  sessionId?: string;
+}
+
+export class TimeAdjustmentService {
+  /**
+   * Add an entry to the ledger for the target session. Entries with a
+   * sourceId are only recorded once per source.
+   *
+   * @returns The recorded (or previously recorded) adjustment, or null when
+   * there is no active session to adjust
+   */
+  static async applyAdjustment(
+    input: TimeAdjustmentInput,
+    now: Date = new Date(),
+  ): Promise<DBTimeAdjustment | null> {
+    if (input.seconds === 0) return null;
+
+    if (input.sourceId) {
+      const existing = await timeAdjustmentDBService.findBySource(
+        input.source,
+        input.sourceId,
+      );
+      if (existing) return existing;
+    }
+
+    const session = input.sessionId
+      ? await sessionDBService.findById(input.sessionId)
+      : await sessionDBService.getCurrentSession(input.userId);
+    if (!session || session.endTime) {
+      logger.info("No active session to adjust", {
+        userId: input.userId,
+        source: input.source,
+      });
+      return null;
+    }
+
+    // Without a goal there is nothing to extend; start counting from now
+    if (!session.goalDuration && input.seconds > 0) {
+      await sessionDBService.update(session.id, {
+        goalDuration: TimerService.calculateEffectiveTime(session, now),
+      });
+    }
+
+    const adjustment: DBTimeAdjustment = {
+      id: generateUUID(),
+      userId: input.userId,
+      sessionId: session.id,
+      source: input.source,
+      sourceId: input.sourceId,
+      seconds: input.seconds,
+      reason: input.reason,
+      createdAt: now,
+      createdBy: input.createdBy,
+      syncStatus: "pending",
+      lastModified: now,
+    };
+    await timeAdjustmentDBService.create(adjustment);
+
+    logger.info("Time adjustment recorded", {
+      adjustmentId: adjustment.id,
+      sessionId: session.id,
+      source: input.source,
+      seconds: input.seconds,
+    });
+    return adjustment;
+  }
+
+  /**
+   * Apply a task's time consequence once it has been reviewed: rewards on
+   * approval, punishments on rejection
+   */
+  static async applyTaskConsequence(
+    task: DBTask,
+    outcome: "approved" | "rejected",
+  ): Promise<DBTimeAdjustment | null> {
+    const consequence = task.consequence;
+    if (!consequence?.duration) return null;
+
+    const expectedType = outcome === "approved" ? "reward" : "punishment";
+    if (consequence.type !== expectedType) return null;
+
+    return this.applyAdjustment({
+      userId: task.userId,
+      seconds: consequence.duration,
+      source: outcome === "approved" ? "task_approval" : "task_rejection",
+      sourceId: task.id,
+      reason:
+        consequence.description ||
+        `Task ${outcome}: ${task.title || task.text}`,
+      createdBy: "keyholder",
+    });
+  }
+
+  /**
+   * Reverse an adjustment; it no longer counts towards the session goal
+   */
+  static async reverseAdjustment(
+    adjustmentId: string,
+    reversedBy: string,
+    reason?: string,
+  ): Promise<void> {
+    const adjustment = await timeAdjustmentDBService.findById(adjustmentId);
+    if (!adjustment) {
+      throw new Error(`Time adjustment not found: ${adjustmentId}`);
+    }
+    if (adjustment.reversedAt) {
+      logger.debug("Adjustment already reversed", { adjustmentId });
+      return;
+    }
+    await timeAdjustmentDBService.reverse(adjustmentId, reversedBy, reason);
+  }
+
+  /**
+   * Net seconds added to a session by its ledger
+   */
+  static async getSessionAdjustmentTotal(sessionId: string): Promise<number> {
+    const adjustments = await timeAdjustmentDBService.getForSession(sessionId);
+    return TimerService.calculateAdjustmentTotal(adjustments);
+  }
+}
@@ -3,7 +3,7 @@
  * Provides utilities for session timer calculations and formatting
  * Enhanced with synchronization error detection and handling
  */
-import type { DBSession } from "../types/database";
+import type { DBSession, DBTimeAdjustment } from "../types/database";
 import { serviceLogger } from "../utils/logging";
 
 const logger = serviceLogger("TimerService");
@@ -199,13 +199,40 @@ export class TimerService {
   }
 
   /**
-   * Calculate goal progress percentage
+   * Sum of all time adjustments that have not been reversed
    */
-  static calculateGoalProgress(session: DBSession, currentTime: Date): number {
+  static calculateAdjustmentTotal(
+    adjustments: Pick<DBTimeAdjustment, "seconds" | "reversedAt">[],
+  ): number {
+    return adjustments
+      .filter((adjustment) => !adjustment.reversedAt)
+      .reduce((total, adjustment) => total + adjustment.seconds, 0);
+  }
+
+  /**
+   * Session goal including ledger adjustments (0 when the session has no goal)
+   */
+  static calculateAdjustedGoal(
+    session: DBSession,
+    adjustmentSeconds: number = 0,
+  ): number {
     if (!session.goalDuration || session.goalDuration <= 0) return 0;
+    return Math.max(0, session.goalDuration + adjustmentSeconds);
+  }
+
+  /**
+   * Calculate goal progress percentage
+   */
+  static calculateGoalProgress(
+    session: DBSession,
+    currentTime: Date,
+    adjustmentSeconds: number = 0,
+  ): number {
+    const goal = this.calculateAdjustedGoal(session, adjustmentSeconds);
+    if (goal <= 0) return session.goalDuration ? 100 : 0;
 
     const effectiveTime = this.calculateEffectiveTime(session, currentTime);
-    return Math.min(100, (effectiveTime / session.goalDuration) * 100);
+    return Math.min(100, (effectiveTime / goal) * 100);
   }
 
   /**
@@ -214,21 +241,53 @@ export class TimerService {
   static calculateRemainingGoalTime(
     session: DBSession,
     currentTime: Date,
+    adjustmentSeconds: number = 0,
   ): number {
-    if (!session.goalDuration || session.goalDuration <= 0) return 0;
+    const goal = this.calculateAdjustedGoal(session, adjustmentSeconds);
+    if (goal <= 0) return 0;
 
     const effectiveTime = this.calculateEffectiveTime(session, currentTime);
-    return Math.max(0, session.goalDuration - effectiveTime);
+    return Math.max(0, goal - effectiveTime);
   }
 
   /**
    * Check if goal is completed
    */
-  static isGoalCompleted(session: DBSession, currentTime: Date): boolean {
+  static isGoalCompleted(
+    session: DBSession,
+    currentTime: Date,
+    adjustmentSeconds: number = 0,
+  ): boolean {
     if (!session.goalDuration || session.goalDuration <= 0) return false;
 
+    const goal = this.calculateAdjustedGoal(session, adjustmentSeconds);
     const effectiveTime = this.calculateEffectiveTime(session, currentTime);
-    return effectiveTime >= session.goalDuration;
+    return effectiveTime >= goal;
+  }
+
+  /**
+   * Check if the remaining lock time is hidden from the submissive.
+   * Keyholder views always show it.
+   */
+  static isRemainingTimeHidden(
+    session: DBSession | null | undefined,
+    currentTime: Date = new Date(),
+  ): boolean {
+    if (!session?.isTimerHidden) return false;
+
+    switch (session.timerRevealMode) {
+      case "on_unlock":
+        return !session.endTime;
+      case "after_hours": {
+        if (session.endTime) return false;
+        const revealAfter = (session.timerRevealAfterHours ?? 0) * 3600;
+        return (
+          this.calculateTotalElapsedTime(session, currentTime) < revealAfter
+        );
+      }
+      default:
+        return true;
+    }
   }
 
   /**
@@ -0,0 +1,124 @@
+/**
+ * Unlock Schedule Service
+ * Keyholder-set earliest unlock times, check-ins and silent release for the
+ * wearer's current session, mirrored to the shared relationship session
+ */
+import { eventDBService } from "./database/EventDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { relationshipChastityService } from "./database/RelationshipChastityService";
+import type { DBSession } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
+import { SystemEventType } from "@/types/events";
+import type {
+  UnlockSchedule,
+  UnlockScheduleSyncTarget,
+} from "@/types/unlockSchedule";
+import { validateUnlockSchedule } from "@/utils/keyholder/unlockSchedule";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("UnlockScheduleService");
+
+export class UnlockScheduleService {
+  /**
+   * Set or clear (null) the session's unlock schedule. Setting an earliest
+   * unlock time is logged as the keyholder locking the session.
+   */
+  static async updateSchedule(
+    session: DBSession,
+    schedule: UnlockSchedule | null,
+    syncTarget?: UnlockScheduleSyncTarget,
+    acting?: RelationshipActingContext,
+  ): Promise<void> {
+    const problem = schedule && validateUnlockSchedule(schedule);
+    if (problem) {
+      throw new Error(problem);
+    }
+
+    await sessionDBService.update(
+      session.id,
+      { unlockSchedule: schedule ?? undefined },
+      acting,
+    );
+
+    const wasLocked = !!session.unlockSchedule?.earliestUnlockAt;
+    const isLocked = !!schedule?.earliestUnlockAt;
+    if (wasLocked !== isLocked) {
+      await eventDBService.createEvent({
+        userId: session.userId,
+        sessionId: session.id,
+        type: isLocked
+          ? SystemEventType.KEYHOLDER_SESSION_LOCKED
+          : SystemEventType.KEYHOLDER_SESSION_UNLOCKED,
+        timestamp: new Date(),
+        details: {
+          notes: schedule?.earliestUnlockAt
+            ? `Locked until ${schedule.earliestUnlockAt.toLocaleString()}`
+            : "Unlock schedule removed",
+        },
+        isPrivate: false,
+      });
+    }
+
+    if (syncTarget) {
+      await this.syncToRelationship(syncTarget, (target) =>
+        relationshipChastityService.updateUnlockSchedule(
+          target.relationshipId,
+          target.keyholderUserId,
+          schedule,
+        ),
+      );
+    }
+    logger.info("Unlock schedule updated", {
+      sessionId: session.id,
+      cleared: !schedule,
+    });
+  }
+
+  /**
+   * Record a keyholder check-in on the session's schedule
+   */
+  static async recordCheckIn(
+    session: DBSession,
+    syncTarget?: UnlockScheduleSyncTarget,
+    acting?: RelationshipActingContext,
+    now: Date = new Date(),
+  ): Promise<void> {
+    if (!session.unlockSchedule) {
+      throw new Error("No unlock schedule to check in to");
+    }
+
+    await sessionDBService.update(
+      session.id,
+      { unlockSchedule: { ...session.unlockSchedule, lastCheckInAt: now } },
+      acting,
+    );
+
+    if (syncTarget) {
+      await this.syncToRelationship(syncTarget, (target) =>
+        relationshipChastityService.recordUnlockCheckIn(
+          target.relationshipId,
+          target.keyholderUserId,
+        ),
+      );
+    }
+    logger.info("Unlock check-in recorded", { sessionId: session.id });
+  }
+
+  /**
+   * The local session is the source of truth, so a failed mirror is logged
+   * rather than undoing the change
+   */
+  private static async syncToRelationship(
+    target: UnlockScheduleSyncTarget,
+    write: (target: UnlockScheduleSyncTarget) => Promise<void>,
+  ): Promise<void> {
+    try {
+      await write(target);
+    } catch (error) {
+      logger.warn("Unlock schedule relationship sync failed", {
+        error,
+        relationshipId: target.relationshipId,
+      });
+    }
+  }
+}
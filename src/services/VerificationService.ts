@@ -0,0 +1,268 @@
+/**
+ * Verification Service
+ * Proof-of-lock photo requests: scheduling, submission, keyholder review and
+ * consequences for missed deadlines
+ */
+import { eventDBService } from "./database/EventDBService";
+import { sessionDBService } from "./database/SessionDBService";
+import { taskDBService } from "./database/TaskDBService";
+import { verificationDBService } from "./database/VerificationDBService";
+import { VerificationStorageService } from "./storage/VerificationStorageService";
+import { RandomDurationService } from "./RandomDurationService";
+import { TimeAdjustmentService } from "./TimeAdjustmentService";
+import type { TaskConsequence } from "@/types/core";
+import type { DBSession } from "@/types/database";
+import { SystemEventType } from "@/types/events";
+import type { RelationshipActingContext } from "@/types/relationships";
+import type {
+  DBVerification,
+  VerificationSchedule,
+} from "@/types/verification";
+import { generateUUID } from "@/utils";
+import {
+  generateVerificationCode,
+  getNextScheduledVerification,
+  isVerificationOpen,
+  isVerificationOverdue,
+} from "@/utils/verification/codes";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("VerificationService");
+
+/** Response time for on-demand requests without a schedule */
+const DEFAULT_RESPONSE_MINUTES = 30;
+
+export interface VerificationRequestOptions {
+  requestedBy: DBVerification["requestedBy"];
+  responseMinutes?: number;
+  missedConsequence?: TaskConsequence;
+}
+
+export class VerificationService {
+  /**
+   * Ask the wearer for a photo with a fresh code
+   */
+  static async requestVerification(
+    session: DBSession,
+    options: VerificationRequestOptions,
+    now: Date = new Date(),
+  ): Promise<DBVerification> {
+    const responseMinutes =
+      options.responseMinutes ??
+      session.verificationSchedule?.responseMinutes ??
+      DEFAULT_RESPONSE_MINUTES;
+    const verification: DBVerification = {
+      id: generateUUID(),
+      userId: session.userId,
+      sessionId: session.id,
+      code: generateVerificationCode(),
+      requestedAt: now,
+      dueAt: new Date(now.getTime() + responseMinutes * 60 * 1000),
+      requestedBy: options.requestedBy,
+      status: "pending",
+      missedConsequence:
+        options.missedConsequence ??
+        session.verificationSchedule?.missedConsequence,
+      syncStatus: "pending",
+      lastModified: now,
+    };
+
+    await verificationDBService.create(verification);
+    logger.info("Verification requested", {
+      verificationId: verification.id,
+      sessionId: session.id,
+      requestedBy: options.requestedBy,
+    });
+    return verification;
+  }
+
+  /**
+   * Set or clear the session's recurring verification schedule
+   */
+  static async updateSchedule(
+    sessionId: string,
+    schedule: VerificationSchedule | undefined,
+    acting?: RelationshipActingContext,
+  ): Promise<void> {
+    await sessionDBService.update(
+      sessionId,
+      { verificationSchedule: schedule },
+      acting,
+    );
+    logger.info("Verification schedule updated", { sessionId, schedule });
+  }
+
+  /**
+   * Create a scheduled request when one is due and record missed deadlines.
+   * Safe to call repeatedly.
+   *
+   * @returns The wearer's open request, if any, and requests newly missed
+   */
+  static async sync(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<{ open: DBVerification | null; missed: DBVerification[] }> {
+    const session = await sessionDBService.getCurrentSession(userId);
+    const pending = await verificationDBService.getPendingForUser(userId);
+
+    const missed: DBVerification[] = [];
+    for (const verification of pending) {
+      if (isVerificationOverdue(verification, now)) {
+        missed.push(await this.markMissed(verification, now));
+      }
+    }
+    if (!session) return { open: null, missed };
+
+    const history = await verificationDBService.getForSession(session.id);
+    const open = history.find(isVerificationOpen) ?? null;
+    if (open || !session.verificationSchedule) return { open, missed };
+
+    const nextDue = getNextScheduledVerification(
+      session.verificationSchedule,
+      session.startTime,
+      history[0]?.requestedAt,
+    );
+    if (now < nextDue) return { open: null, missed };
+
+    const created = await this.requestVerification(
+      session,
+      { requestedBy: "schedule" },
+      now,
+    );
+    return { open: created, missed };
+  }
+
+  /**
+   * Attach the wearer's photo to a pending request
+   */
+  static async submitPhoto(
+    verificationId: string,
+    file: File,
+    now: Date = new Date(),
+  ): Promise<DBVerification> {
+    const verification = await verificationDBService.findById(verificationId);
+    if (!verification || verification.status !== "pending") {
+      throw new Error("Verification not found or no longer pending");
+    }
+    if (isVerificationOverdue(verification, now)) {
+      throw new Error("The deadline for this verification has passed");
+    }
+
+    const photo = await VerificationStorageService.storePhoto(
+      verificationId,
+      verification.userId,
+      file,
+    );
+    const updates = {
+      status: "submitted" as const,
+      photoUrl: photo.url,
+      photoStorage: photo.storage,
+      submittedAt: now,
+    };
+    await verificationDBService.update(verificationId, updates);
+    logger.info("Verification photo submitted", {
+      verificationId,
+      storage: photo.storage,
+    });
+    return { ...verification, ...updates };
+  }
+
+  /**
+   * Keyholder decision on a submitted photo
+   */
+  static async review(
+    verificationId: string,
+    approved: boolean,
+    note?: string,
+    now: Date = new Date(),
+  ): Promise<void> {
+    const verification = await verificationDBService.findById(verificationId);
+    if (!verification || verification.status !== "submitted") {
+      throw new Error("Verification not found or not awaiting review");
+    }
+
+    await verificationDBService.update(verificationId, {
+      status: approved ? "approved" : "rejected",
+      reviewedAt: now,
+      reviewNote: note,
+    });
+    logger.info("Verification reviewed", { verificationId, approved });
+  }
+
+  /**
+   * Record a missed deadline as an event and apply its consequence
+   */
+  private static async markMissed(
+    verification: DBVerification,
+    now: Date,
+  ): Promise<DBVerification> {
+    await verificationDBService.update(verification.id, { status: "missed" });
+    await eventDBService.createEvent({
+      userId: verification.userId,
+      sessionId: verification.sessionId,
+      type: SystemEventType.VERIFICATION_MISSED,
+      timestamp: verification.dueAt,
+      details: {
+        notes: `No verification photo for code ${verification.code}`,
+        metadata: { verificationId: verification.id },
+      },
+      isPrivate: false,
+    });
+
+    if (verification.missedConsequence) {
+      await this.applyMissedConsequence(
+        verification,
+        verification.missedConsequence,
+        now,
+      );
+    }
+
+    logger.warn("Verification missed", {
+      verificationId: verification.id,
+      sessionId: verification.sessionId,
+    });
+    return { ...verification, status: "missed" };
+  }
+
+  private static async applyMissedConsequence(
+    verification: DBVerification,
+    consequence: TaskConsequence,
+    now: Date,
+  ): Promise<void> {
+    if (consequence.reroll) {
+      await RandomDurationService.reroll(
+        verification.userId,
+        "punishment",
+        now,
+      );
+    } else if (consequence.duration) {
+      await TimeAdjustmentService.applyAdjustment(
+        {
+          userId: verification.userId,
+          sessionId: verification.sessionId,
+          seconds: consequence.duration,
+          source: "verification_missed",
+          sourceId: verification.id,
+          reason: "Missed verification photo",
+          createdBy: "system",
+        },
+        now,
+      );
+    } else {
+      await taskDBService.createTask({
+        userId: verification.userId,
+        text: consequence.description || "Punishment: missed verification",
+        title: "Punishment: missed verification",
+        description: `No verification photo for code ${verification.code}`,
+        status: "pending",
+        priority: "high",
+        assignedBy: "keyholder",
+        category: "punishment",
+        consequence: {
+          type: "punishment",
+          description: consequence.description,
+        },
+      });
+    }
+  }
+}
@@ -0,0 +1,306 @@
+/**
+ * Tests for AuditLogService
+ * Hash chaining, tamper detection and export of the persisted audit log
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { AuditLogService } from "../AuditLogService";
+import { auditLogDBService } from "../database/AuditLogDBService";
+import {
+  computeAuditHash,
+  verifyAuditChain,
+} from "@/utils/security/auditChain";
+import {
+  AuditAction,
+  AuditCategory,
+  type DBAuditEntry,
+} from "@/types/security";
+import type { RelationshipActingContext } from "@/types/relationships";
+
+// In-memory stand-in for the auditLog table
+const rows: DBAuditEntry[] = [];
+
+const byUser = (userId: string) =>
+  rows
+    .filter((row) => row.userId === userId)
+    .sort((a, b) => a.sequence - b.sequence);
+
+vi.mock("../database/AuditLogDBService", () => ({
+  auditLogDBService: {
+    create: vi.fn(async (entry: DBAuditEntry) => {
+      rows.push({ ...entry });
+      return entry.id;
+    }),
+    getHead: vi.fn(async (userId: string) => byUser(userId).at(-1)),
+    getChain: vi.fn(async (userId: string) => byUser(userId)),
+    getRecent: vi.fn(async (userId: string, limit: number) =>
+      byUser(userId).reverse().slice(0, limit),
+    ),
+    getInRange: vi.fn(async (userId: string) => byUser(userId)),
+    getAnchor: vi.fn(async () => undefined),
+  },
+}));
+
+const USER = "keyholder-1";
+const BASE_TIME = new Date("2024-03-01T10:00:00Z");
+
+const recordAt = (minutes: number, action: AuditAction, description: string) =>
+  AuditLogService.record(
+    {
+      userId: USER,
+      action,
+      context: { resourceType: "rule", resourceId: `rule-${minutes}` },
+      details: { description },
+    },
+    new Date(BASE_TIME.getTime() + minutes * 60_000),
+  );
+
+const seedChain = async () => {
+  await recordAt(0, AuditAction.RULE_CREATE, "Rule created: No sweets");
+  await recordAt(5, AuditAction.SESSION_START, "Session started");
+  await recordAt(10, AuditAction.RULE_UPDATE, "Rule updated: No sweets");
+  await recordAt(15, AuditAction.EMERGENCY_UNLOCK, "Emergency unlock");
+};
+
+describe("AuditLogService", () => {
+  beforeEach(() => {
+    rows.length = 0;
+    vi.clearAllMocks();
+  });
+
+  describe("record", () => {
+    it("links each entry to the one before it", async () => {
+      await seedChain();
+      const chain = byUser(USER);
+
+      expect(chain.map((entry) => entry.sequence)).toEqual([0, 1, 2, 3]);
+      expect(chain[0]!.previousHash).toBe("0".repeat(64));
+      chain.slice(1).forEach((entry, index) => {
+        expect(entry.previousHash).toBe(chain[index]!.hash);
+      });
+      expect(chain[0]!.category).toBe(AuditCategory.RULES);
+      await expect(AuditLogService.verify(USER)).resolves.toMatchObject({
+        valid: true,
+        checkedEntries: 4,
+      });
+    });
+
+    it("keeps sequence numbers unique for concurrent calls", async () => {
+      await Promise.all([
+        recordAt(0, AuditAction.SESSION_START, "a"),
+        recordAt(1, AuditAction.SESSION_PAUSE, "b"),
+        recordAt(2, AuditAction.SESSION_RESUME, "c"),
+      ]);
+      expect(byUser(USER).map((entry) => entry.sequence)).toEqual([0, 1, 2]);
+    });
+
+    it("retries when another tab claims the sequence first", async () => {
+      const conflict = Object.assign(new Error("Key exists"), {
+        name: "ConstraintError",
+      });
+      vi.mocked(auditLogDBService.create).mockRejectedValueOnce(conflict);
+
+      const entry = await recordAt(0, AuditAction.SESSION_START, "Started");
+
+      expect(entry).not.toBeNull();
+      expect(auditLogDBService.create).toHaveBeenCalledTimes(2);
+    });
+
+    it("never throws when the entry can't be stored", async () => {
+      vi.mocked(auditLogDBService.create).mockRejectedValueOnce(
+        new Error("Quota exceeded"),
+      );
+      await expect(
+        recordAt(0, AuditAction.SESSION_START, "Started"),
+      ).resolves.toBeNull();
+    });
+
+    it("puts session changes on the chain of whoever made them", async () => {
+      const session = { id: "session-1", userId: "wearer-1" };
+      const acting = {
+        actorId: USER,
+        relationship: {
+          id: "rel-1",
+          submissiveId: "wearer-1",
+          keyholderId: USER,
+        },
+      } as RelationshipActingContext;
+
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_PAUSE,
+        { description: "Session paused" },
+      );
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_END,
+        { description: "Session ended" },
+        acting,
+      );
+
+      expect(byUser("wearer-1")[0]).toMatchObject({
+        action: AuditAction.SESSION_PAUSE,
+        context: { sessionId: "session-1", targetUserId: undefined },
+      });
+      expect(byUser(USER)[0]).toMatchObject({
+        action: AuditAction.SESSION_END,
+        context: {
+          sessionId: "session-1",
+          relationshipId: "rel-1",
+          targetUserId: "wearer-1",
+        },
+      });
+    });
+  });
+
+  describe("verify", () => {
+    it("detects an edited entry", async () => {
+      await seedChain();
+      byUser(USER)[2]!.details.description = "Nothing happened";
+
+      const result = await AuditLogService.verify(USER);
+
+      expect(result.valid).toBe(false);
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: "edited", sequence: 2 }),
+      ]);
+    });
+
+    it("detects a deleted entry", async () => {
+      await seedChain();
+      rows.splice(rows.indexOf(byUser(USER)[1]!), 1);
+
+      const result = await AuditLogService.verify(USER);
+
+      expect(result.checkedEntries).toBe(3);
+      expect(result.issues).toEqual([{ type: "missing", sequence: 1 }]);
+    });
+
+    it("detects an entry replaced with a re-hashed copy", async () => {
+      await seedChain();
+      // A forger who recomputes the hash still breaks the next entry's link
+      const chain = byUser(USER);
+      const {
+        hash: _hash,
+        previousHash,
+        syncStatus: _syncStatus,
+        lastModified: _lastModified,
+        ...content
+      } = chain[1]!;
+      const forgedContent = { ...content, details: { description: "Forged" } };
+      const forged: DBAuditEntry = {
+        ...chain[1]!,
+        ...forgedContent,
+        hash: await computeAuditHash(forgedContent, previousHash),
+      };
+      rows[rows.indexOf(chain[1]!)] = forged;
+
+      const result = await AuditLogService.verify(USER);
+
+      expect(result.issues).toEqual([
+        expect.objectContaining({ type: "broken_link", sequence: 2 }),
+      ]);
+    });
+
+    it("detects entries swapped into a different order", async () => {
+      await seedChain();
+      const [, second, third] = byUser(USER);
+      [second!.sequence, third!.sequence] = [third!.sequence, second!.sequence];
+
+      const result = await AuditLogService.verify(USER);
+
+      expect(
+        result.issues.map(({ type, sequence }) => [type, sequence]),
+      ).toEqual([
+        ["edited", 1],
+        ["edited", 2],
+        ["broken_link", 3],
+      ]);
+    });
+
+    it("detects a trimmed chain against the head seen at the last sync", async () => {
+      await seedChain();
+      const head = byUser(USER)[3]!;
+      vi.mocked(auditLogDBService.getAnchor).mockResolvedValueOnce({
+        sequence: head.sequence,
+        hash: head.hash,
+      });
+      rows.splice(rows.indexOf(head), 1);
+
+      const result = await AuditLogService.verify(USER);
+
+      expect(result.issues).toEqual([{ type: "truncated", sequence: 3 }]);
+    });
+  });
+
+  describe("search", () => {
+    it("filters by category and text, newest first", async () => {
+      await seedChain();
+
+      const results = await AuditLogService.search(USER, {
+        query: "sweets",
+        filters: { categories: [AuditCategory.RULES] },
+      });
+
+      expect(results.map((entry) => entry.sequence)).toEqual([2, 0]);
+    });
+
+    it("applies an open-ended date range", async () => {
+      await seedChain();
+
+      const results = await AuditLogService.search(USER, {
+        query: "",
+        filters: { startDate: new Date(BASE_TIME.getTime() + 10 * 60_000) },
+        sortOrder: "asc",
+      });
+
+      expect(results.map((entry) => entry.sequence)).toEqual([2, 3]);
+    });
+  });
+
+  describe("exportLog", () => {
+    it("exports JSON that still verifies after parsing", async () => {
+      await seedChain();
+
+      const exported = await AuditLogService.exportLog(USER, "json");
+      const parsed = JSON.parse(exported.data as string) as DBAuditEntry[];
+
+      expect(exported.filename).toMatch(/^audit-log-\d{4}-\d{2}-\d{2}\.json$/);
+      await expect(verifyAuditChain(parsed)).resolves.toMatchObject({
+        valid: true,
+        checkedEntries: 4,
+      });
+
+      parsed[0]!.action = AuditAction.RULE_DELETE;
+      await expect(verifyAuditChain(parsed)).resolves.toMatchObject({
+        valid: false,
+      });
+    });
+
+    it("escapes CSV cells and includes the chain columns", async () => {
+      await recordAt(0, AuditAction.RULE_CREATE, 'Rule created: "Quiet", 9pm');
+
+      const exported = await AuditLogService.exportLog(USER, "csv");
+      const [header, row] = (exported.data as string).split("\r\n");
+
+      expect(header).toContain("Previous Hash,Hash");
+      expect(row).toContain('"Rule created: ""Quiet"", 9pm"');
+      expect(row!.endsWith(byUser(USER)[0]!.hash)).toBe(true);
+    });
+
+    it("exports PDF and XLSX files as bytes", async () => {
+      await seedChain();
+
+      const pdf = await AuditLogService.exportLog(USER, "pdf");
+      const xlsx = await AuditLogService.exportLog(USER, "xlsx");
+      const text = new TextDecoder().decode(pdf.data as Uint8Array);
+
+      expect(pdf.filename).toMatch(/\.pdf$/);
+      expect(text.startsWith("%PDF-1.4")).toBe(true);
+      expect(text).toContain("(4 entries,");
+      expect(xlsx.filename).toMatch(/\.xlsx$/);
+      expect(Array.from((xlsx.data as Uint8Array).slice(0, 4))).toEqual([
+        0x50, 0x4b, 0x03, 0x04,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,246 @@
+/**
+ * Tests for ChallengeService
+ * Accepting challenges, measuring progress from seeded records and expiry
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { ChallengeService } from "../ChallengeService";
+import { db } from "../storage/ChastityDB";
+import {
+  ChallengeDifficulty,
+  ChallengeType,
+  type Challenge,
+} from "@/types/gamification";
+
+// In-memory database with the indexes the service queries
+vi.mock("../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("ChallengeServiceTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    sessions: "&id, userId, [userId+startTime]",
+    events: "&id, userId, [userId+timestamp]",
+    tasks: "&id, userId",
+    challenges:
+      "&id, userId, challengeId, [userId+status], [userId+challengeId]",
+  });
+  return { db: testDb };
+});
+
+const USER = "user-1";
+const DAY = 24 * 60 * 60 * 1000;
+const ACCEPTED = new Date(2024, 2, 1, 12, 0);
+const base = { syncStatus: "synced" as const, lastModified: new Date() };
+
+const session = (id: string, start: Date, end?: Date) => ({
+  ...base,
+  id,
+  userId: USER,
+  startTime: start,
+  endTime: end,
+  isPaused: false,
+  accumulatedPauseTime: 0,
+  isHardcoreMode: false,
+  keyholderApprovalRequired: false,
+});
+
+const challenge = (
+  requirements: Challenge["requirements"],
+  days = 7,
+): Challenge => ({
+  id: "catalogue-1",
+  type: ChallengeType.DURATION,
+  name: "Test challenge",
+  description: "",
+  difficulty: ChallengeDifficulty.BEGINNER,
+  requirements,
+  rewards: [
+    { type: "experience", value: 100, description: "100 XP", claimed: false },
+  ],
+  startDate: new Date(2020, 0, 1),
+  endDate: new Date(2020, 0, 1 + days),
+  progress: {
+    percentage: 0,
+    requirementsCompleted: 0,
+    totalRequirements: requirements.length,
+    lastUpdated: new Date(2020, 0, 1),
+    milestones: [],
+  },
+  isCompleted: false,
+  participants: 10,
+  isPublic: true,
+});
+
+const requirement = (
+  metric: NonNullable<Challenge["requirements"][number]["metric"]>,
+  targetValue: number,
+) => ({
+  id: metric,
+  type: "count" as const,
+  metric,
+  description: "",
+  targetValue,
+  currentValue: 0,
+  completed: false,
+});
+
+describe("ChallengeService", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("starts the time limit when the challenge is accepted", async () => {
+    const accepted = await ChallengeService.accept(
+      USER,
+      challenge([requirement("sessions_completed", 1)]),
+      ACCEPTED,
+    );
+
+    expect(accepted).toMatchObject({
+      challengeId: "catalogue-1",
+      status: "active",
+      startDate: ACCEPTED,
+      endDate: new Date(ACCEPTED.getTime() + 7 * DAY),
+    });
+    await expect(
+      ChallengeService.getAvailable(USER, [challenge([])]),
+    ).resolves.toEqual([]);
+    await expect(
+      ChallengeService.accept(USER, challenge([]), ACCEPTED),
+    ).rejects.toThrow("Challenge already accepted");
+  });
+
+  it("accepts a challenge only once when asked twice at the same time", async () => {
+    const results = await Promise.allSettled([
+      ChallengeService.accept(USER, challenge([]), ACCEPTED),
+      ChallengeService.accept(USER, challenge([]), ACCEPTED),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(
+      results.find((result) => result.status === "rejected"),
+    ).toMatchObject({ reason: new Error("Challenge already accepted") });
+    await expect(db.challenges.count()).resolves.toBe(1);
+  });
+
+  it("measures progress from records made after accepting", async () => {
+    const accepted = await ChallengeService.accept(
+      USER,
+      challenge([
+        requirement("session_hours", 48),
+        requirement("events_logged", 2),
+      ]),
+      ACCEPTED,
+    );
+    await db.sessions.bulkAdd([
+      // Only the half after acceptance counts
+      session("straddling", new Date(2024, 2, 1), new Date(2024, 2, 2)),
+      session("open", new Date(2024, 2, 3)),
+    ] as never[]);
+    await db.events.bulkAdd([
+      { ...base, id: "before", userId: USER, timestamp: new Date(2024, 1, 28) },
+      { ...base, id: "after", userId: USER, timestamp: new Date(2024, 2, 2) },
+    ] as never[]);
+
+    const [active] = await ChallengeService.refreshProgress(
+      USER,
+      new Date(2024, 2, 4),
+    );
+
+    expect(active!.id).toBe(accepted.id);
+    expect(active!.requirements.map((r) => r.currentValue)).toEqual([36, 1]);
+    expect(active!.progress).toMatchObject({
+      percentage: 62,
+      requirementsCompleted: 0,
+    });
+    await expect(ChallengeService.complete(USER, accepted.id)).rejects.toThrow(
+      "Challenge requirements not met",
+    );
+  });
+
+  it("completes a challenge once its requirements are met", async () => {
+    const accepted = await ChallengeService.accept(
+      USER,
+      challenge([requirement("tasks_completed", 1)]),
+      ACCEPTED,
+    );
+    await db.tasks.add({
+      ...base,
+      id: "task",
+      userId: USER,
+      status: "approved",
+      approvedAt: new Date(2024, 2, 2),
+    } as never);
+
+    const [ready] = await ChallengeService.refreshProgress(
+      USER,
+      new Date(2024, 2, 3),
+    );
+    const completed = await ChallengeService.complete(USER, accepted.id);
+
+    expect(ready!.progress.percentage).toBe(100);
+    expect(completed).toMatchObject({ status: "completed", isCompleted: true });
+    expect(completed.rewards.every((reward) => reward.claimed)).toBe(true);
+    await expect(
+      ChallengeService.refreshProgress(USER, new Date(2024, 2, 3)),
+    ).resolves.toEqual([]);
+  });
+
+  it("completes a challenge only once when asked twice at the same time", async () => {
+    const accepted = await ChallengeService.accept(
+      USER,
+      challenge([requirement("tasks_completed", 1)]),
+      ACCEPTED,
+    );
+    await db.tasks.add({
+      ...base,
+      id: "task",
+      userId: USER,
+      status: "approved",
+      approvedAt: new Date(2024, 2, 2),
+    } as never);
+    await ChallengeService.refreshProgress(USER, new Date(2024, 2, 3));
+
+    const results = await Promise.allSettled([
+      ChallengeService.complete(USER, accepted.id),
+      ChallengeService.complete(USER, accepted.id),
+    ]);
+
+    expect(results.map((result) => result.status).sort()).toEqual([
+      "fulfilled",
+      "rejected",
+    ]);
+    expect(
+      results.find((result) => result.status === "rejected"),
+    ).toMatchObject({ reason: new Error("Challenge already completed") });
+  });
+
+  it("fails challenges that end with requirements unmet", async () => {
+    const accepted = await ChallengeService.accept(
+      USER,
+      challenge([requirement("streak_days", 3)], 2),
+      ACCEPTED,
+    );
+
+    const active = await ChallengeService.refreshProgress(
+      USER,
+      new Date(2024, 2, 4),
+    );
+
+    expect(active).toEqual([]);
+    expect(await db.challenges.get(accepted.id)).toMatchObject({
+      status: "failed",
+      failedAt: new Date(2024, 2, 4),
+    });
+    // Failed challenges can be taken on again
+    await expect(
+      ChallengeService.getAvailable(USER, [challenge([])]),
+    ).resolves.toHaveLength(1);
+  });
+});
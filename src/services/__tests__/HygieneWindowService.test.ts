@@ -0,0 +1,168 @@
+/**
+ * Tests for HygieneWindowService
+ * Opening hygiene windows and relock deadlines for keyholder-granted pauses
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { HygieneWindowService } from "../HygieneWindowService";
+import { PauseService } from "../PauseService";
+import { ruleDBService } from "../database/RuleDBService";
+import { sessionDBService } from "../database/SessionDBService";
+import { db } from "../storage/ChastityDB";
+import { SystemEventType } from "@/types/events";
+
+// In-memory database with the tables pausing and flagging a session write to
+vi.mock("../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("HygieneWindowServiceTest", {
+    indexedDB,
+    IDBKeyRange,
+  });
+  testDb.version(1).stores({
+    sessions: "&id, userId, [userId+startTime], startTime",
+    events: "++id, userId, sessionId, type, timestamp, [userId+timestamp]",
+  });
+  return { db: testDb };
+});
+
+vi.mock("../database/RuleDBService", () => ({
+  ruleDBService: { findActiveBySubmissive: vi.fn(async () => []) },
+}));
+
+vi.mock("../database/SettingsDBService", () => ({
+  settingsDBService: {
+    getSettings: vi.fn(async () => ({ display: { timezone: "UTC" } })),
+  },
+}));
+
+const USER = "wearer-1";
+const PAUSED_AT = new Date("2024-03-01T12:00:00Z");
+const RELOCK_BY = new Date("2024-03-01T12:30:00Z");
+
+describe("HygieneWindowService", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+    vi.mocked(ruleDBService.findActiveBySubmissive).mockResolvedValue([]);
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  const grantPause = async () => {
+    const sessionId = await sessionDBService.startSession(USER);
+    await PauseService.grantReleasePause(
+      sessionId,
+      "request-1",
+      RELOCK_BY,
+      PAUSED_AT,
+    );
+    return sessionId;
+  };
+
+  it("reports the relock deadline of a granted pause", async () => {
+    await grantPause();
+
+    const status = await HygieneWindowService.sync(
+      USER,
+      new Date("2024-03-01T12:10:00Z"),
+    );
+
+    expect(status).toMatchObject({
+      relockBy: RELOCK_BY,
+      pauseKind: "granted",
+      isOverdue: false,
+      changed: false,
+    });
+  });
+
+  it("flags a granted pause that runs past its deadline once", async () => {
+    const sessionId = await grantPause();
+    const late = new Date("2024-03-01T13:00:00Z");
+
+    const first = await HygieneWindowService.sync(USER, late);
+    const second = await HygieneWindowService.sync(USER, late);
+
+    expect(first).toMatchObject({ isOverdue: true, changed: true });
+    expect(second).toMatchObject({ isOverdue: true, changed: false });
+    expect(
+      (await sessionDBService.findById(sessionId))?.hygieneRelockMissedAt,
+    ).toEqual(RELOCK_BY);
+
+    const violations = await db.events
+      .where("type")
+      .equals(SystemEventType.RULE_VIOLATION)
+      .toArray();
+    expect(violations).toHaveLength(1);
+    expect(violations[0]!.details.notes).toBe(
+      "Not relocked before the granted pause ended",
+    );
+  });
+
+  describe("hygiene windows", () => {
+    const WINDOW_START = new Date("2024-03-01T07:00:00Z");
+    const WINDOW_END = new Date("2024-03-01T07:30:00Z");
+    const DURING = new Date("2024-03-01T07:10:00Z");
+
+    const scheduleWindow = async () => {
+      vi.mocked(ruleDBService.findActiveBySubmissive).mockResolvedValue([
+        {
+          conditions: [
+            { type: "hygiene_window", startTime: "07:00", durationMinutes: 30 },
+          ],
+        },
+      ] as Awaited<ReturnType<typeof ruleDBService.findActiveBySubmissive>>);
+      await db.sessions.add({
+        id: "session-1",
+        userId: USER,
+        startTime: new Date("2024-02-28T12:00:00Z"),
+        isPaused: false,
+        accumulatedPauseTime: 0,
+        isHardcoreMode: false,
+        keyholderApprovalRequired: false,
+        syncStatus: "synced",
+        lastModified: new Date("2024-02-28T12:00:00Z"),
+      } as never);
+    };
+
+    it("leaves the session running until the wearer opens the window", async () => {
+      await scheduleWindow();
+
+      const status = await HygieneWindowService.sync(USER, DURING);
+      const late = await HygieneWindowService.sync(
+        USER,
+        new Date("2024-03-01T08:00:00Z"),
+      );
+
+      expect(status).toMatchObject({
+        activeWindow: { start: WINDOW_START, end: WINDOW_END },
+        canOpen: true,
+        changed: false,
+      });
+      expect(late).toMatchObject({ isOverdue: false, changed: false });
+      expect((await sessionDBService.findById("session-1"))?.isPaused).toBe(
+        false,
+      );
+    });
+
+    it("pauses from the window's start once the wearer opens it", async () => {
+      await scheduleWindow();
+
+      await HygieneWindowService.openWindow(USER, DURING);
+      const status = await HygieneWindowService.sync(USER, DURING);
+
+      expect(await sessionDBService.findById("session-1")).toMatchObject({
+        isPaused: true,
+        pauseStartTime: WINDOW_START,
+      });
+      expect(status).toMatchObject({
+        canOpen: false,
+        relockBy: WINDOW_END,
+        pauseKind: "hygiene",
+      });
+      await expect(
+        HygieneWindowService.openWindow(USER, DURING),
+      ).rejects.toThrow("Hygiene window already used");
+    });
+  });
+});
@@ -341,6 +341,64 @@ describe("KeyholderRelationshipService", () => {
     });
   });
 
+  describe("multiple keyholders", () => {
+    const keyholder = (
+      id: string,
+      overrides: Partial<KeyholderRelationship> = {},
+    ): KeyholderRelationship => ({
+      id,
+      submissiveUserId: mockUserId,
+      keyholderUserId: `${id}-user`,
+      status: "active",
+      role: "secondary",
+      permissions: { canUnlockSessions: false } as KeyholderPermissions,
+      createdAt: new Date("2024-01-01"),
+      ...overrides,
+    });
+
+    const linkKeyholders = (relationships: KeyholderRelationship[]) =>
+      (
+        keyholderRelationshipDBService.getRelationshipsForUser as any
+      ).mockResolvedValue({ asSubmissive: relationships, asKeyholder: [] });
+
+    it("should list the primary first and secondaries by link date", async () => {
+      linkKeyholders([
+        keyholder("late", { createdAt: new Date("2024-03-01") }),
+        keyholder("primary", {
+          role: "primary",
+          createdAt: new Date("2024-02-01"),
+        }),
+        keyholder("early"),
+        keyholder("ended", { status: "ended" }),
+      ]);
+
+      const result =
+        await KeyholderRelationshipService.getActiveKeyholders(mockUserId);
+
+      expect(result.map((rel) => rel.id)).toEqual(["primary", "early", "late"]);
+      await expect(
+        KeyholderRelationshipService.getActiveKeyholder(mockUserId),
+      ).resolves.toMatchObject({ id: "primary" });
+    });
+
+    it("should only add secondaries who may end sessions as approvers", async () => {
+      linkKeyholders([
+        keyholder("primary", { role: "primary" }),
+        keyholder("helper"),
+        keyholder("trusted", {
+          permissions: { canUnlockSessions: true } as KeyholderPermissions,
+        }),
+      ]);
+
+      await expect(
+        KeyholderRelationshipService.getReleaseApprovers(mockUserId, "all"),
+      ).resolves.toEqual(["primary-user", "trusted-user"]);
+      await expect(
+        KeyholderRelationshipService.getReleaseApprovers(mockUserId, "primary"),
+      ).resolves.toEqual(["primary-user"]);
+    });
+  });
+
   describe("hasPermission", () => {
     it("should return true when keyholder has permission", async () => {
       const mockRelationship: KeyholderRelationship = {
@@ -705,7 +763,7 @@ describe("KeyholderRelationshipService", () => {
       expect(result).toBe(true);
     });
 
-    it("should not allow creating invite code when active relationship exists", async () => {
+    it("should allow inviting a secondary keyholder", async () => {
       (
         keyholderRelationshipDBService.getRelationshipsForUser as any
       ).mockResolvedValue({
@@ -722,6 +780,27 @@ describe("KeyholderRelationshipService", () => {
         asKeyholder: [],
       });
 
+      const result =
+        await KeyholderRelationshipService.canCreateInviteCode(mockUserId);
+
+      expect(result).toBe(true);
+    });
+
+    it("should not allow creating invite code at the keyholder limit", async () => {
+      (
+        keyholderRelationshipDBService.getRelationshipsForUser as any
+      ).mockResolvedValue({
+        asSubmissive: Array.from({ length: 5 }, (_, index) => ({
+          id: `rel-${index}`,
+          submissiveUserId: mockUserId,
+          keyholderUserId: `keyholder-${index}`,
+          status: "active",
+          permissions: {} as KeyholderPermissions,
+          createdAt: new Date(),
+        })),
+        asKeyholder: [],
+      });
+
       const result =
         await KeyholderRelationshipService.canCreateInviteCode(mockUserId);
 
@@ -0,0 +1,171 @@
+/**
+ * Tests for MessageService
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { MessageService } from "../MessageService";
+import { messageDBService } from "../database/MessageDBService";
+import { connectionStatus } from "../sync/connectionStatus";
+import { messageDataSync } from "../sync/MessageDataSync";
+import { offlineQueue } from "../sync/OfflineQueue";
+import type { SyncResult } from "@/types/database";
+import type { DBMessage } from "@/types/messages";
+
+vi.mock("../database/MessageDBService", () => ({
+  messageDBService: {
+    create: vi.fn(),
+    markThreadRead: vi.fn(),
+    getThread: vi.fn(),
+  },
+}));
+
+vi.mock("../sync/connectionStatus", () => ({
+  connectionStatus: { getIsOnline: vi.fn() },
+}));
+
+vi.mock("../sync/MessageDataSync", () => ({
+  messageDataSync: { syncCollection: vi.fn() },
+}));
+
+vi.mock("../sync/OfflineQueue", () => ({
+  offlineQueue: { queueOperation: vi.fn() },
+}));
+
+describe("MessageService", () => {
+  const now = new Date("2024-01-01T12:00:00Z");
+  const thread = {
+    relationshipId: "kh-1_sub-1",
+    keyholderUserId: "kh-1",
+    submissiveUserId: "sub-1",
+  };
+
+  const syncResult = (success: boolean): SyncResult => ({
+    success,
+    operations: { uploaded: 1, downloaded: 0, conflicts: 0 },
+    conflicts: [],
+    timestamp: now,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(connectionStatus.getIsOnline).mockReturnValue(true);
+    vi.mocked(messageDataSync.syncCollection).mockResolvedValue(
+      syncResult(true),
+    );
+  });
+
+  describe("sendMessage", () => {
+    it("stores the message with the sender's role and delivers it", async () => {
+      const message = await MessageService.sendMessage(
+        { thread, senderId: "kh-1", text: "  Check in tonight  " },
+        now,
+      );
+
+      expect(message).toMatchObject({
+        userId: "kh-1",
+        relationshipId: "kh-1_sub-1",
+        senderRole: "keyholder",
+        text: "Check in tonight",
+        sentAt: now,
+        syncStatus: "pending",
+      });
+      expect(messageDBService.create).toHaveBeenCalledWith(message);
+      expect(messageDataSync.syncCollection).toHaveBeenCalledWith("kh-1");
+      expect(offlineQueue.queueOperation).not.toHaveBeenCalled();
+    });
+
+    it("keeps a pre-generated id used for attachment uploads", async () => {
+      const message = await MessageService.sendMessage(
+        {
+          thread,
+          senderId: "sub-1",
+          text: "",
+          attachments: ["https://example.com/photo.jpg"],
+          messageId: "message-1",
+        },
+        now,
+      );
+
+      expect(message.id).toBe("message-1");
+      expect(message.senderRole).toBe("submissive");
+      expect(message.attachments).toEqual(["https://example.com/photo.jpg"]);
+    });
+
+    it("queues the message while offline", async () => {
+      vi.mocked(connectionStatus.getIsOnline).mockReturnValue(false);
+
+      const message = await MessageService.sendMessage(
+        { thread, senderId: "sub-1", text: "Hello" },
+        now,
+      );
+
+      expect(messageDataSync.syncCollection).not.toHaveBeenCalled();
+      expect(offlineQueue.queueOperation).toHaveBeenCalledWith({
+        type: "create",
+        collectionName: "messages",
+        payload: message,
+        userId: "sub-1",
+      });
+    });
+
+    it("queues the message when delivery fails", async () => {
+      vi.mocked(messageDataSync.syncCollection).mockResolvedValue(
+        syncResult(false),
+      );
+
+      await MessageService.sendMessage(
+        { thread, senderId: "sub-1", text: "Hello" },
+        now,
+      );
+
+      expect(offlineQueue.queueOperation).toHaveBeenCalledTimes(1);
+    });
+
+    it("rejects an empty message", async () => {
+      await expect(
+        MessageService.sendMessage({ thread, senderId: "kh-1", text: "  " }),
+      ).rejects.toThrow("Message is empty");
+      expect(messageDBService.create).not.toHaveBeenCalled();
+    });
+
+    it("rejects a sender outside the relationship", async () => {
+      await expect(
+        MessageService.sendMessage({
+          thread,
+          senderId: "someone-else",
+          text: "Hi",
+        }),
+      ).rejects.toThrow("Sender is not part of this relationship");
+    });
+  });
+
+  describe("markThreadRead", () => {
+    it("delivers read receipts when messages were marked", async () => {
+      const latest = { id: "message-2" } as DBMessage;
+      vi.mocked(messageDBService.markThreadRead).mockResolvedValue(2);
+      vi.mocked(messageDBService.getThread).mockResolvedValue([latest]);
+
+      const count = await MessageService.markThreadRead(
+        "kh-1_sub-1",
+        "sub-1",
+        now,
+      );
+
+      expect(count).toBe(2);
+      expect(messageDBService.markThreadRead).toHaveBeenCalledWith(
+        "kh-1_sub-1",
+        "sub-1",
+        now,
+      );
+      expect(messageDataSync.syncCollection).toHaveBeenCalledWith("sub-1");
+    });
+
+    it("does nothing when the thread was already read", async () => {
+      vi.mocked(messageDBService.markThreadRead).mockResolvedValue(0);
+
+      await MessageService.markThreadRead("kh-1_sub-1", "sub-1", now);
+
+      expect(messageDataSync.syncCollection).not.toHaveBeenCalled();
+      expect(offlineQueue.queueOperation).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,245 @@
+/**
+ * Tests for ReleaseNegotiationService
+ * Accepting counter-offers and releasing once their condition is met
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { ReleaseNegotiationService } from "../ReleaseNegotiationService";
+import { db } from "../storage/ChastityDB";
+import { releaseRequestDBService } from "../database/ReleaseRequestDBService";
+import { sessionDBService } from "../database/SessionDBService";
+import { taskDBService } from "../database/TaskDBService";
+import { PauseService } from "../PauseService";
+import type { ReleaseCounterCondition } from "@/types/core";
+import type { DBReleaseRequest } from "@/types/database";
+
+vi.mock("../storage/ChastityDB", () => ({
+  db: {
+    releaseRequests: {},
+    transaction: vi.fn(
+      async (_mode: string, _table: unknown, scope: () => Promise<unknown>) =>
+        scope(),
+    ),
+  },
+}));
+
+vi.mock("../database/ReleaseRequestDBService", () => ({
+  releaseRequestDBService: {
+    findById: vi.fn(),
+    update: vi.fn(),
+    respondToCounterOffer: vi.fn(),
+    recordAcceptedCondition: vi.fn(),
+    completeCounterOffer: vi.fn(),
+    settleCounterOffer: vi.fn(),
+  },
+}));
+
+vi.mock("../database/SessionDBService", () => ({
+  sessionDBService: { findById: vi.fn() },
+}));
+
+vi.mock("../database/TaskDBService", () => ({
+  taskDBService: {
+    createTask: vi.fn(async () => "task-1"),
+    findById: vi.fn(),
+  },
+}));
+
+vi.mock("../PauseService", () => ({
+  PauseService: { grantReleasePause: vi.fn(async () => {}) },
+}));
+
+const NOW = new Date("2024-03-01T12:00:00Z");
+
+const countered = (
+  condition: ReleaseCounterCondition,
+  status: DBReleaseRequest["status"] = "countered",
+): DBReleaseRequest => ({
+  id: "request-1",
+  submissiveUserId: "sub",
+  keyholderUserId: "kh",
+  sessionId: "session-1",
+  requestedAt: new Date("2024-03-01T10:00:00Z"),
+  status,
+  counterOffer: {
+    condition,
+    offeredBy: "kh",
+    offeredAt: new Date("2024-03-01T11:00:00Z"),
+  },
+  syncStatus: "synced",
+  lastModified: new Date("2024-03-01T11:00:00Z"),
+});
+
+describe("ReleaseNegotiationService", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(
+      releaseRequestDBService.recordAcceptedCondition,
+    ).mockImplementation(async (_id, condition) =>
+      countered(condition, "accepted"),
+    );
+    vi.mocked(sessionDBService.findById).mockResolvedValue({
+      isPaused: true,
+      pauseStartTime: NOW,
+    } as Awaited<ReturnType<typeof sessionDBService.findById>>);
+  });
+
+  it("creates the task a counter-offer asks for and links it", async () => {
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(
+      countered({ type: "task", taskText: "Write lines" }),
+    );
+
+    await ReleaseNegotiationService.accept("request-1", NOW);
+
+    expect(taskDBService.createTask).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: "sub",
+        text: "Write lines",
+        assignedBy: "keyholder",
+      }),
+    );
+    expect(
+      releaseRequestDBService.recordAcceptedCondition,
+    ).toHaveBeenCalledWith("request-1", {
+      type: "task",
+      taskText: "Write lines",
+      taskId: "task-1",
+    });
+  });
+
+  it("accepts the offer before creating its task", async () => {
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(
+      countered({ type: "task", taskText: "Write lines" }),
+    );
+
+    await ReleaseNegotiationService.accept("request-1", NOW);
+
+    expect(db.transaction).toHaveBeenCalledTimes(1);
+    expect(releaseRequestDBService.respondToCounterOffer).toHaveBeenCalledWith(
+      "request-1",
+      "accepted",
+    );
+    expect(
+      vi.mocked(releaseRequestDBService.respondToCounterOffer).mock
+        .invocationCallOrder[0],
+    ).toBeLessThan(
+      vi.mocked(taskDBService.createTask).mock.invocationCallOrder[0]!,
+    );
+  });
+
+  it("creates nothing when the offer was already accepted", async () => {
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(
+      countered({ type: "task", taskText: "Write lines" }, "accepted"),
+    );
+
+    await expect(ReleaseNegotiationService.accept("request-1")).rejects.toThrow(
+      "No counter-offer to accept",
+    );
+    expect(taskDBService.createTask).not.toHaveBeenCalled();
+    expect(
+      releaseRequestDBService.respondToCounterOffer,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("reopens the offer when its pause can't be started", async () => {
+    const request = countered({ type: "pause", pauseMinutes: 30 });
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(request);
+    vi.mocked(PauseService.grantReleasePause).mockRejectedValueOnce(
+      new Error("Session not found or already paused"),
+    );
+
+    await expect(
+      ReleaseNegotiationService.accept("request-1", NOW),
+    ).rejects.toThrow("Session not found or already paused");
+    expect(releaseRequestDBService.update).toHaveBeenCalledWith("request-1", {
+      status: "countered",
+      counterOffer: request.counterOffer,
+    });
+    expect(
+      releaseRequestDBService.recordAcceptedCondition,
+    ).not.toHaveBeenCalled();
+  });
+
+  it("starts the granted pause with its relock time", async () => {
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(
+      countered({ type: "pause", pauseMinutes: 30 }),
+    );
+
+    await ReleaseNegotiationService.accept("request-1", NOW);
+
+    expect(PauseService.grantReleasePause).toHaveBeenCalledWith(
+      "session-1",
+      "request-1",
+      new Date("2024-03-01T12:30:00Z"),
+      NOW,
+    );
+    expect(
+      releaseRequestDBService.recordAcceptedCondition,
+    ).toHaveBeenCalledWith("request-1", {
+      type: "pause",
+      pauseMinutes: 30,
+      startedAt: NOW,
+    });
+    expect(releaseRequestDBService.completeCounterOffer).not.toHaveBeenCalled();
+    expect(releaseRequestDBService.settleCounterOffer).not.toHaveBeenCalled();
+  });
+
+  it("settles an accepted pause offer once the session resumes", async () => {
+    const request = countered(
+      { type: "pause", pauseMinutes: 30, startedAt: NOW },
+      "accepted",
+    );
+
+    await expect(ReleaseNegotiationService.settle(request, NOW)).resolves.toBe(
+      request,
+    );
+
+    vi.mocked(sessionDBService.findById).mockResolvedValue({
+      isPaused: false,
+    } as Awaited<ReturnType<typeof sessionDBService.findById>>);
+    await ReleaseNegotiationService.settle(request, NOW);
+
+    expect(releaseRequestDBService.settleCounterOffer).toHaveBeenCalledWith(
+      "request-1",
+    );
+    expect(releaseRequestDBService.completeCounterOffer).not.toHaveBeenCalled();
+  });
+
+  it("refuses requests without an open counter-offer", async () => {
+    vi.mocked(releaseRequestDBService.findById).mockResolvedValue(
+      countered({ type: "pause", pauseMinutes: 30 }, "pending"),
+    );
+
+    await expect(ReleaseNegotiationService.accept("request-1")).rejects.toThrow(
+      "No counter-offer to accept",
+    );
+  });
+
+  it("approves an accepted task offer once the task is approved", async () => {
+    vi.mocked(taskDBService.findById).mockResolvedValue({
+      status: "approved",
+    } as Awaited<ReturnType<typeof taskDBService.findById>>);
+    const request = countered(
+      { type: "task", taskText: "Write lines", taskId: "task-1" },
+      "accepted",
+    );
+
+    await ReleaseNegotiationService.settle(request, NOW);
+
+    expect(taskDBService.findById).toHaveBeenCalledWith("task-1");
+    expect(releaseRequestDBService.completeCounterOffer).toHaveBeenCalledWith(
+      "request-1",
+    );
+  });
+
+  it("keeps waiting before an accepted delay ends", async () => {
+    const request = countered(
+      { type: "delay", releaseAt: new Date("2024-03-02T12:00:00Z") },
+      "accepted",
+    );
+
+    await expect(ReleaseNegotiationService.settle(request, NOW)).resolves.toBe(
+      request,
+    );
+    expect(releaseRequestDBService.completeCounterOffer).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,191 @@
+/**
+ * Tests for ReportEngine
+ * Date-range queries and reports over seeded Dexie data
+ */
+import { describe, it, expect, beforeAll, afterAll, vi } from "vitest";
+import { ReportEngine } from "../ReportEngine";
+import { db } from "../storage/ChastityDB";
+import { ReportType, type ReportTemplate } from "@/hooks/features/useReporting";
+
+// In-memory database with the ChastityDB indexes the engine queries
+vi.mock("../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("ReportEngineTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    sessions: "&id, userId, [userId+startTime]",
+    events: "&id, userId, [userId+timestamp]",
+    tasks: "&id, userId, [userId+createdAt]",
+    goals: "&id, userId, [userId+createdAt]",
+  });
+  return { db: testDb };
+});
+
+const USER = "user-1";
+const base = { syncStatus: "synced" as const, lastModified: new Date() };
+const session = (id: string, start: string, end?: string, userId = USER) => ({
+  ...base,
+  id,
+  userId,
+  startTime: new Date(start),
+  endTime: end ? new Date(end) : undefined,
+  isPaused: false,
+  accumulatedPauseTime: 0,
+  isHardcoreMode: false,
+  keyholderApprovalRequired: false,
+});
+
+const MARCH = {
+  start: new Date("2024-03-01T00:00:00Z"),
+  end: new Date("2024-03-31T23:59:59Z"),
+};
+
+const summaryTemplate: ReportTemplate = {
+  id: "session-summary",
+  name: "Session Summary",
+  description: "",
+  type: ReportType.SUMMARY,
+  parameters: [],
+  defaultParameters: {},
+};
+
+describe("ReportEngine", () => {
+  beforeAll(async () => {
+    await db.sessions.bulkAdd([
+      // Ended before March
+      session("february", "2024-02-01T00:00:00Z", "2024-02-03T00:00:00Z"),
+      // Runs into March
+      session("overlap", "2024-02-28T00:00:00Z", "2024-03-02T00:00:00Z"),
+      session("march", "2024-03-10T00:00:00Z", "2024-03-11T00:00:00Z"),
+      // Still running
+      session("open", "2024-03-20T00:00:00Z"),
+      session("april", "2024-04-02T00:00:00Z", "2024-04-03T00:00:00Z"),
+      session("other-user", "2024-03-10T00:00:00Z", undefined, "user-2"),
+    ] as never[]);
+    await db.events.bulkAdd([
+      {
+        ...base,
+        id: "in-range",
+        userId: USER,
+        sessionId: "march",
+        type: "orgasm",
+        timestamp: new Date("2024-03-10T12:00:00Z"),
+        details: {},
+        isPrivate: false,
+      },
+      {
+        ...base,
+        id: "too-late",
+        userId: USER,
+        type: "orgasm",
+        timestamp: new Date("2024-04-05T12:00:00Z"),
+        details: {},
+        isPrivate: false,
+      },
+    ] as never[]);
+    await db.tasks.bulkAdd([
+      {
+        ...base,
+        id: "task-1",
+        userId: USER,
+        text: "Write lines",
+        status: "approved",
+        priority: "medium",
+        assignedBy: "keyholder",
+        createdAt: new Date("2024-03-05T00:00:00Z"),
+      },
+      {
+        ...base,
+        id: "task-2",
+        userId: USER,
+        text: "Clean up",
+        status: "pending",
+        priority: "low",
+        assignedBy: "keyholder",
+        createdAt: new Date("2024-03-06T00:00:00Z"),
+      },
+    ] as never[]);
+    await db.goals.bulkAdd([
+      {
+        ...base,
+        id: "finished-early",
+        userId: USER,
+        type: "duration",
+        title: "Old goal",
+        targetValue: 1,
+        currentValue: 1,
+        unit: "count",
+        isCompleted: true,
+        completedAt: new Date("2024-02-01T00:00:00Z"),
+        createdAt: new Date("2024-01-01T00:00:00Z"),
+        createdBy: "submissive",
+        isPublic: false,
+      },
+      {
+        ...base,
+        id: "open-goal",
+        userId: USER,
+        type: "duration",
+        title: "Current goal",
+        targetValue: 10,
+        currentValue: 5,
+        unit: "days",
+        isCompleted: false,
+        createdAt: new Date("2024-02-15T00:00:00Z"),
+        createdBy: "submissive",
+        isPublic: false,
+      },
+    ] as never[]);
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("loads only the user's records touching the date range", async () => {
+    const records = await ReportEngine.loadRecords(USER, MARCH);
+
+    expect(records.sessions.map((s) => s.id).sort()).toEqual([
+      "march",
+      "open",
+      "overlap",
+    ]);
+    expect(records.events.map((e) => e.id)).toEqual(["in-range"]);
+    expect(records.tasks).toHaveLength(2);
+    expect(records.goals.map((g) => g.id)).toEqual(["open-goal"]);
+  });
+
+  it("builds a summary from the seeded sessions", async () => {
+    const report = await ReportEngine.generate(
+      USER,
+      summaryTemplate,
+      { dateRange: MARCH, includeDetails: true, filters: {} },
+      new Date("2024-03-21T00:00:00Z"),
+    );
+
+    // overlap's 24h inside March + march 24h + open 24h so far
+    expect(report.summary).toMatchObject({
+      totalSessions: 3,
+      activeSessions: 1,
+      totalHours: 72,
+      longestSession: 24,
+    });
+    expect(
+      report.details?.sessions?.find((s) => s.id === "march")?.events,
+    ).toBe(1);
+  });
+
+  it("exports raw records matching the filters", async () => {
+    const result = await ReportEngine.getRawData(USER, "tasks", [
+      { field: "status", value: "approved" },
+    ]);
+
+    expect(result.records).toEqual([expect.objectContaining({ id: "task-1" })]);
+  });
+
+  it("rejects unknown data types", async () => {
+    await expect(ReportEngine.getRawData(USER, "photos", [])).rejects.toThrow(
+      "Unknown data type: photos",
+    );
+  });
+});
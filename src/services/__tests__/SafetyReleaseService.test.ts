@@ -0,0 +1,169 @@
+/**
+ * Tests for SafetyReleaseService
+ * Keyholder activity tracking and the penalty-free release
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { SafetyReleaseService } from "../SafetyReleaseService";
+import { eventDBService } from "../database/EventDBService";
+import { sessionDBService } from "../database/SessionDBService";
+import { settingsDBService } from "../database/SettingsDBService";
+import { AuditLogService } from "../AuditLogService";
+import { SystemEventType } from "@/types/events";
+import { AuditAction } from "@/types/security";
+import type { DBSession } from "@/types/database";
+
+const USER = "wearer-1";
+const KEYHOLDER = "kh-1";
+const LINKED_AT = new Date("2024-03-01T12:00:00Z");
+const hoursAfterLink = (hours: number) =>
+  new Date(LINKED_AT.getTime() + hours * 60 * 60 * 1000);
+
+const session: DBSession = {
+  id: "session-1",
+  userId: USER,
+  startTime: LINKED_AT,
+  isPaused: false,
+  accumulatedPauseTime: 0,
+  isHardcoreMode: false,
+  keyholderApprovalRequired: true,
+  syncStatus: "synced",
+  lastModified: LINKED_AT,
+};
+
+// Rows returned for each table queried by getKeyholderLastActivity
+const tables = vi.hoisted(() => ({
+  messages: [] as unknown[],
+  releaseRequests: [] as unknown[],
+  tasks: [] as unknown[],
+}));
+
+vi.mock("../storage/ChastityDB", () => {
+  const query = (rows: () => unknown[]) => ({
+    where: () => ({
+      equals: () => ({
+        and: (filter: (row: unknown) => boolean) => ({
+          toArray: async () => rows().filter(filter),
+        }),
+        toArray: async () => rows(),
+      }),
+    }),
+  });
+  return {
+    db: {
+      messages: query(() => tables.messages),
+      releaseRequests: query(() => tables.releaseRequests),
+      tasks: query(() => tables.tasks),
+    },
+  };
+});
+
+vi.mock("../database/KeyholderRelationshipDBService", () => ({
+  keyholderRelationshipDBService: {
+    getActiveKeyholders: vi.fn(async () => [
+      {
+        id: "rel-1",
+        submissiveUserId: USER,
+        keyholderUserId: KEYHOLDER,
+        status: "active",
+        createdAt: LINKED_AT,
+        acceptedAt: LINKED_AT,
+      },
+    ]),
+  },
+}));
+
+vi.mock("../database/SessionDBService", () => ({
+  sessionDBService: {
+    getCurrentSession: vi.fn(async () => session),
+    endSession: vi.fn(async () => {}),
+  },
+}));
+
+vi.mock("../database/SettingsDBService", () => ({
+  settingsDBService: {
+    getSettings: vi.fn(async () => ({ chastity: { safetyReleaseHours: 48 } })),
+  },
+}));
+
+vi.mock("../database/EventDBService", () => ({
+  eventDBService: { createEvent: vi.fn(async () => "event-1") },
+}));
+
+vi.mock("../AuditLogService", () => ({
+  AuditLogService: { record: vi.fn(async () => null) },
+}));
+
+describe("SafetyReleaseService", () => {
+  beforeEach(() => {
+    tables.messages = [];
+    tables.releaseRequests = [];
+    tables.tasks = [];
+    vi.clearAllMocks();
+  });
+
+  it("uses the latest keyholder message, response or task", async () => {
+    tables.messages = [
+      { senderRole: "keyholder", sentAt: hoursAfterLink(5) },
+      { senderRole: "submissive", sentAt: hoursAfterLink(30) },
+    ];
+    tables.releaseRequests = [
+      {
+        deniedAt: hoursAfterLink(10),
+        approvals: [
+          { keyholderUserId: KEYHOLDER, respondedAt: hoursAfterLink(10) },
+        ],
+      },
+    ];
+    tables.tasks = [
+      { assignedBy: "keyholder", createdAt: hoursAfterLink(2) },
+      { assignedBy: "submissive", createdAt: hoursAfterLink(40) },
+    ];
+
+    await expect(
+      SafetyReleaseService.getKeyholderLastActivity(USER, session),
+    ).resolves.toEqual(hoursAfterLink(10));
+  });
+
+  it("counts the keyholder's presence as activity", async () => {
+    const check = await SafetyReleaseService.check(USER, {
+      presenceLastSeen: hoursAfterLink(40),
+      now: hoursAfterLink(50),
+    });
+
+    expect(check?.status.level).toBe("none");
+  });
+
+  it("stays off until the wearer sets a silence period", async () => {
+    vi.mocked(settingsDBService.getSettings).mockResolvedValueOnce({
+      chastity: {},
+    } as Awaited<ReturnType<typeof settingsDBService.getSettings>>);
+
+    await expect(
+      SafetyReleaseService.check(USER, { now: hoursAfterLink(500) }),
+    ).resolves.toBeNull();
+  });
+
+  it("refuses to release before the silence period has passed", async () => {
+    await expect(
+      SafetyReleaseService.release(USER, undefined, hoursAfterLink(47)),
+    ).rejects.toThrow("Safety release is not available yet");
+    expect(sessionDBService.endSession).not.toHaveBeenCalled();
+  });
+
+  it("ends the session and logs it apart from emergency unlocks", async () => {
+    const now = hoursAfterLink(49);
+    await SafetyReleaseService.release(USER, undefined, now);
+
+    expect(sessionDBService.endSession).toHaveBeenCalledWith(
+      session.id,
+      now,
+      "safety_release",
+    );
+    expect(eventDBService.createEvent).toHaveBeenCalledWith(
+      expect.objectContaining({ type: SystemEventType.SAFETY_RELEASE }),
+    );
+    expect(AuditLogService.record).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.SAFETY_RELEASE }),
+    );
+  });
+});
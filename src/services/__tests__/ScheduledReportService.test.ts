@@ -0,0 +1,184 @@
+/**
+ * Tests for ScheduledReportService
+ * Storing schedules, running due ones and keyholder wearer summaries
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { ScheduledReportService } from "../ScheduledReportService";
+import { ReportEngine } from "../ReportEngine";
+import { ReportStorageService } from "../reportStorage";
+import { ReportNotificationService } from "../notifications/ReportNotificationService";
+import { db } from "../storage/ChastityDB";
+import {
+  ExportFormat,
+  type ReportSchedule,
+} from "@/hooks/features/useReporting";
+
+// In-memory database with the report schedule indexes
+vi.mock("../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("ScheduledReportTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    reportSchedules: "&id, userId, subjectUserId, [userId+nextRun]",
+  });
+  return { db: testDb };
+});
+
+vi.mock("../ReportEngine", () => ({
+  ReportEngine: {
+    generate: vi.fn(async () => ({ summary: { totalSessions: 2 } })),
+  },
+}));
+
+vi.mock("../notifications/ReportNotificationService", () => ({
+  ReportNotificationService: {
+    notifyScheduledReportReady: vi.fn(async () => "notification-1"),
+  },
+}));
+
+const USER = "user-1";
+const NOW = new Date(2024, 2, 4, 12, 0);
+
+const daily: ReportSchedule = {
+  frequency: "daily",
+  time: "09:00",
+  recipients: [],
+  format: ExportFormat.JSON,
+  enabled: true,
+};
+
+describe("ScheduledReportService", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    vi.spyOn(ReportStorageService, "getRecentReports").mockReturnValue([]);
+    vi.spyOn(ReportStorageService, "setRecentReports").mockReturnValue(true);
+    await db.reportSchedules.clear();
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("stores a schedule with its next run", async () => {
+    const schedule = await ScheduledReportService.scheduleReport(
+      USER,
+      "session-summary",
+      daily,
+      USER,
+      NOW,
+    );
+
+    const stored = await db.reportSchedules.get(schedule.id);
+    expect(stored).toMatchObject({
+      userId: USER,
+      subjectUserId: USER,
+      frequency: "daily",
+      nextRun: new Date(2024, 2, 5, 9, 0),
+    });
+  });
+
+  it("rejects unknown templates", async () => {
+    await expect(
+      ScheduledReportService.scheduleReport(USER, "missing", daily),
+    ).rejects.toThrow("Template not found");
+  });
+
+  it("runs due schedules once and moves them to their next run", async () => {
+    const schedule = await ScheduledReportService.scheduleReport(
+      USER,
+      "session-summary",
+      daily,
+      USER,
+      new Date(2024, 2, 1, 12, 0),
+    );
+    await ScheduledReportService.scheduleReport(
+      USER,
+      "session-summary",
+      { ...daily, enabled: false },
+      USER,
+      new Date(2024, 2, 1, 12, 0),
+    );
+
+    const reports = await ScheduledReportService.runDue(USER, NOW);
+
+    expect(reports).toHaveLength(1);
+    expect(ReportEngine.generate).toHaveBeenCalledWith(
+      USER,
+      expect.objectContaining({ id: "session-summary" }),
+      expect.objectContaining({
+        dateRange: { start: new Date(2024, 2, 3, 12, 0), end: NOW },
+      }),
+      NOW,
+    );
+    expect(await db.reportSchedules.get(schedule.id)).toMatchObject({
+      lastRun: NOW,
+      lastReportId: reports[0]!.id,
+      nextRun: new Date(2024, 2, 5, 9, 0),
+    });
+    expect(ReportStorageService.setRecentReports).toHaveBeenCalledWith([
+      expect.objectContaining({ id: reports[0]!.id }),
+    ]);
+    expect(
+      ReportNotificationService.notifyScheduledReportReady,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: USER, isWearerReport: false }),
+    );
+
+    await expect(ScheduledReportService.runDue(USER, NOW)).resolves.toEqual([]);
+  });
+
+  it("schedules a keyholder's weekly wearer summary and reuses it", async () => {
+    const created = await ScheduledReportService.setWearerSummary(
+      "keyholder",
+      "wearer",
+      true,
+      NOW,
+    );
+    await ScheduledReportService.setWearerSummary(
+      "keyholder",
+      "wearer",
+      false,
+      NOW,
+    );
+    const reenabled = await ScheduledReportService.setWearerSummary(
+      "keyholder",
+      "wearer",
+      true,
+      NOW,
+    );
+
+    expect(created).toMatchObject({
+      userId: "keyholder",
+      subjectUserId: "wearer",
+      frequency: "weekly",
+      format: "pdf",
+    });
+    expect(reenabled?.id).toBe(created?.id);
+    expect(await db.reportSchedules.count()).toBe(1);
+  });
+
+  it("reports on the wearer's records for the keyholder", async () => {
+    await ScheduledReportService.setWearerSummary(
+      "keyholder",
+      "wearer",
+      true,
+      new Date(2024, 1, 20, 12, 0),
+    );
+
+    await ScheduledReportService.runDue("keyholder", NOW);
+
+    expect(ReportEngine.generate).toHaveBeenCalledWith(
+      "wearer",
+      expect.anything(),
+      expect.objectContaining({
+        dateRange: { start: new Date(2024, 1, 26, 12, 0), end: NOW },
+      }),
+      NOW,
+    );
+    expect(
+      ReportNotificationService.notifyScheduledReportReady,
+    ).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: "keyholder", isWearerReport: true }),
+    );
+  });
+});
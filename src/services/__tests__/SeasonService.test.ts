@@ -0,0 +1,103 @@
+/**
+ * Tests for SeasonService
+ * Season XP, reward unlocks and idempotent claiming
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { SeasonService } from "../SeasonService";
+import { goalDBService } from "../database/GoalDBService";
+import { db } from "../storage/ChastityDB";
+import type { DBGoal } from "@/types/database";
+
+// In-memory database with the season progress table
+vi.mock("../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("SeasonServiceTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    seasonProgress: "&id, userId, seasonId",
+  });
+  return { db: testDb };
+});
+
+vi.mock("../database/GoalDBService", () => ({
+  goalDBService: { getSpecialChallengeGoals: vi.fn(async () => []) },
+}));
+
+const USER = "user-1";
+const LOCKTOBER = new Date(2025, 9, 15);
+const SPRING = new Date(2025, 3, 15);
+
+describe("SeasonService", () => {
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    await db.seasonProgress.clear();
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("counts XP towards the running season only", async () => {
+    await SeasonService.addExperience(USER, 600, LOCKTOBER);
+    await SeasonService.addExperience(USER, 500, LOCKTOBER);
+    await SeasonService.addExperience(USER, 900, SPRING);
+
+    const season = await SeasonService.getCurrentSeason(USER, LOCKTOBER);
+
+    expect(season).toMatchObject({ id: "locktober-2025", experience: 1100 });
+    expect(
+      season!.rewards.filter((r) => r.unlocked).map((r) => r.tier),
+    ).toEqual([1, 2]);
+  });
+
+  it("claims an unlocked reward once", async () => {
+    await SeasonService.addExperience(USER, 300, LOCKTOBER);
+
+    const first = await SeasonService.claimReward(
+      USER,
+      "locktober-tier-1",
+      LOCKTOBER,
+    );
+    const second = await SeasonService.claimReward(
+      USER,
+      "locktober-tier-1",
+      new Date(2025, 9, 20),
+    );
+    const season = await SeasonService.getCurrentSeason(USER, LOCKTOBER);
+
+    expect(first).toMatchObject({ alreadyClaimed: false });
+    expect(second).toMatchObject({ alreadyClaimed: true });
+    expect(second.reward.claimedAt).toEqual(LOCKTOBER);
+    expect(season!.rewards[0]).toMatchObject({
+      claimed: true,
+      claimedAt: LOCKTOBER,
+    });
+  });
+
+  it("rejects rewards that aren't unlocked or don't exist", async () => {
+    await expect(
+      SeasonService.claimReward(USER, "locktober-tier-2", LOCKTOBER),
+    ).rejects.toThrow("Reward not unlocked");
+    await expect(
+      SeasonService.claimReward(USER, "summer-tier-1", LOCKTOBER),
+    ).rejects.toThrow("Reward not found");
+  });
+
+  it("unlocks the Locktober capstone with this year's completed goal", async () => {
+    vi.mocked(goalDBService.getSpecialChallengeGoals).mockResolvedValue([
+      { challengeType: "locktober", challengeYear: 2025, isCompleted: true },
+    ] as DBGoal[]);
+
+    const claim = await SeasonService.claimReward(
+      USER,
+      "locktober-complete",
+      LOCKTOBER,
+    );
+
+    expect(claim.reward).toMatchObject({
+      name: "Locktober Champion",
+      type: "badge",
+      claimed: true,
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for TimeAdjustmentService
+ */
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import { TimeAdjustmentService } from "../TimeAdjustmentService";
+import { sessionDBService } from "../database/SessionDBService";
+import { timeAdjustmentDBService } from "../database/TimeAdjustmentDBService";
+import type { DBSession, DBTask, DBTimeAdjustment } from "@/types/database";
+
+vi.mock("../database/SessionDBService", () => ({
+  sessionDBService: {
+    findById: vi.fn(),
+    getCurrentSession: vi.fn(),
+    update: vi.fn(),
+  },
+}));
+
+vi.mock("../database/TimeAdjustmentDBService", () => ({
+  timeAdjustmentDBService: {
+    create: vi.fn(),
+    findById: vi.fn(),
+    findBySource: vi.fn(),
+    reverse: vi.fn(),
+  },
+}));
+
+describe("TimeAdjustmentService", () => {
+  const mockUserId = "test-user-123";
+  const now = new Date("2024-01-01T02:00:00Z");
+
+  const mockSession: DBSession = {
+    id: "session-1",
+    userId: mockUserId,
+    startTime: new Date("2024-01-01T00:00:00Z"),
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    goalDuration: 4 * 3600,
+    syncStatus: "synced",
+    lastModified: now,
+  };
+
+  const mockTask = (consequence: DBTask["consequence"]): DBTask => ({
+    id: "task-1",
+    userId: mockUserId,
+    text: "Write lines",
+    status: "submitted",
+    priority: "medium",
+    assignedBy: "keyholder",
+    createdAt: now,
+    consequence,
+    syncStatus: "synced",
+    lastModified: now,
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(sessionDBService.getCurrentSession).mockResolvedValue(
+      mockSession,
+    );
+    vi.mocked(timeAdjustmentDBService.findBySource).mockResolvedValue(
+      undefined,
+    );
+  });
+
+  describe("applyAdjustment", () => {
+    it("should record an adjustment against the active session", async () => {
+      const adjustment = await TimeAdjustmentService.applyAdjustment(
+        {
+          userId: mockUserId,
+          seconds: 3600,
+          source: "keyholder",
+          reason: "Attitude",
+          createdBy: "keyholder",
+        },
+        now,
+      );
+
+      expect(adjustment).toMatchObject({
+        sessionId: "session-1",
+        seconds: 3600,
+        source: "keyholder",
+      });
+      expect(timeAdjustmentDBService.create).toHaveBeenCalledWith(adjustment);
+      expect(sessionDBService.update).not.toHaveBeenCalled();
+    });
+
+    it("should return the existing entry for an already applied source", async () => {
+      const existing = { id: "adj-1" } as DBTimeAdjustment;
+      vi.mocked(timeAdjustmentDBService.findBySource).mockResolvedValue(
+        existing,
+      );
+
+      const adjustment = await TimeAdjustmentService.applyAdjustment({
+        userId: mockUserId,
+        seconds: 600,
+        source: "rule_violation",
+        sourceId: "rule-1:event:1",
+        reason: "Rule broken",
+        createdBy: "system",
+      });
+
+      expect(adjustment).toBe(existing);
+      expect(timeAdjustmentDBService.create).not.toHaveBeenCalled();
+    });
+
+    it("should skip when there is no active session", async () => {
+      vi.mocked(sessionDBService.getCurrentSession).mockResolvedValue(
+        undefined,
+      );
+
+      const adjustment = await TimeAdjustmentService.applyAdjustment({
+        userId: mockUserId,
+        seconds: 600,
+        source: "keyholder",
+        reason: "Test",
+        createdBy: "keyholder",
+      });
+
+      expect(adjustment).toBeNull();
+      expect(timeAdjustmentDBService.create).not.toHaveBeenCalled();
+    });
+
+    it("should start a goal from the time served when none is set", async () => {
+      vi.mocked(sessionDBService.getCurrentSession).mockResolvedValue({
+        ...mockSession,
+        goalDuration: undefined,
+      });
+
+      await TimeAdjustmentService.applyAdjustment(
+        {
+          userId: mockUserId,
+          seconds: 600,
+          source: "keyholder",
+          reason: "Test",
+          createdBy: "keyholder",
+        },
+        now,
+      );
+
+      expect(sessionDBService.update).toHaveBeenCalledWith("session-1", {
+        goalDuration: 2 * 3600,
+      });
+    });
+  });
+
+  describe("applyTaskConsequence", () => {
+    it("should apply a reward when the task is approved", async () => {
+      const adjustment = await TimeAdjustmentService.applyTaskConsequence(
+        mockTask({ type: "reward", duration: -1800 }),
+        "approved",
+      );
+
+      expect(adjustment).toMatchObject({
+        source: "task_approval",
+        sourceId: "task-1",
+        seconds: -1800,
+      });
+    });
+
+    it("should apply a punishment only when the task is rejected", async () => {
+      const task = mockTask({ type: "punishment", duration: 3600 });
+
+      expect(
+        await TimeAdjustmentService.applyTaskConsequence(task, "approved"),
+      ).toBeNull();
+      expect(
+        await TimeAdjustmentService.applyTaskConsequence(task, "rejected"),
+      ).toMatchObject({ source: "task_rejection", seconds: 3600 });
+    });
+  });
+
+  describe("reverseAdjustment", () => {
+    it("should not reverse an entry twice", async () => {
+      vi.mocked(timeAdjustmentDBService.findById).mockResolvedValue({
+        id: "adj-1",
+        reversedAt: now,
+      } as DBTimeAdjustment);
+
+      await TimeAdjustmentService.reverseAdjustment("adj-1", "keyholder-1");
+
+      expect(timeAdjustmentDBService.reverse).not.toHaveBeenCalled();
+    });
+  });
+});
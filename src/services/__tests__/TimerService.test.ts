@@ -184,3 +184,110 @@ describe("TimerService - Sync Validation", () => {
     expect(effectiveTime).toBeGreaterThanOrEqual(0);
   });
 });
+
+describe("TimerService - Time Adjustments", () => {
+  const now = new Date("2024-01-01T12:00:00Z");
+  const session: DBSession = {
+    id: "session1",
+    userId: "user1",
+    startTime: new Date("2024-01-01T10:00:00Z"), // 2 hours effective
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    goalDuration: 4 * 3600,
+    syncStatus: "synced",
+    lastModified: new Date(),
+  };
+
+  it("should ignore reversed adjustments in the total", () => {
+    const total = TimerService.calculateAdjustmentTotal([
+      { seconds: 3600 },
+      { seconds: -1800 },
+      { seconds: 7200, reversedAt: new Date() },
+    ]);
+
+    expect(total).toBe(1800);
+  });
+
+  it("should include adjustments in the remaining goal time", () => {
+    expect(TimerService.calculateRemainingGoalTime(session, now)).toBe(7200);
+    expect(TimerService.calculateRemainingGoalTime(session, now, 3600)).toBe(
+      10800,
+    );
+    expect(TimerService.calculateGoalProgress(session, now, 3600)).toBeCloseTo(
+      40,
+    );
+  });
+
+  it("should complete the goal when reductions exceed it", () => {
+    expect(TimerService.isGoalCompleted(session, now, -2 * 3600)).toBe(true);
+    expect(TimerService.calculateGoalProgress(session, now, -5 * 3600)).toBe(
+      100,
+    );
+  });
+});
+
+describe("TimerService - Hidden Timer", () => {
+  const now = new Date("2024-01-01T12:00:00Z");
+  const session: DBSession = {
+    id: "session1",
+    userId: "user1",
+    startTime: new Date("2024-01-01T10:00:00Z"),
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    goalDuration: 4 * 3600,
+    isTimerHidden: true,
+    syncStatus: "synced",
+    lastModified: new Date(),
+  };
+
+  it("should only hide the timer when the session option is set", () => {
+    expect(
+      TimerService.isRemainingTimeHidden(
+        { ...session, isTimerHidden: false },
+        now,
+      ),
+    ).toBe(false);
+    expect(TimerService.isRemainingTimeHidden(session, now)).toBe(true);
+    expect(TimerService.isRemainingTimeHidden(null, now)).toBe(false);
+  });
+
+  it("should reveal the timer after the configured hours", () => {
+    const revealLater: DBSession = {
+      ...session,
+      timerRevealMode: "after_hours",
+      timerRevealAfterHours: 3,
+    };
+
+    expect(TimerService.isRemainingTimeHidden(revealLater, now)).toBe(true);
+    expect(
+      TimerService.isRemainingTimeHidden(
+        revealLater,
+        new Date("2024-01-01T13:00:00Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("should reveal the timer on unlock only when configured", () => {
+    const endTime = new Date("2024-01-01T11:00:00Z");
+
+    expect(
+      TimerService.isRemainingTimeHidden(
+        { ...session, timerRevealMode: "on_unlock" },
+        now,
+      ),
+    ).toBe(true);
+    expect(
+      TimerService.isRemainingTimeHidden(
+        { ...session, timerRevealMode: "on_unlock", endTime },
+        now,
+      ),
+    ).toBe(false);
+    expect(
+      TimerService.isRemainingTimeHidden({ ...session, endTime }, now),
+    ).toBe(true);
+  });
+});
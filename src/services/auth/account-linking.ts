@@ -29,6 +29,7 @@ import {
   SecuritySettings,
   PrivacySettings,
 } from "../../types/account-linking";
+import type { KeyholderRole } from "../../types/core";
 import { ApiResponse } from "../../types";
 import { serviceLogger } from "../../utils/logging";
 import { generateUUID } from "../../utils/helpers/hash";
@@ -396,6 +397,7 @@ export class AccountLinkingService {
       };
 
       await setDoc(doc(db as Firestore, "adminSessions", sessionId), session);
+      await this.recordAdminAccess(relationshipId);
 
       return {
         success: true,
@@ -411,6 +413,25 @@ export class AccountLinkingService {
     }
   }
 
+  /**
+   * Mark the keyholder as active on the relationship. The wearer's safety
+   * release reads this as the keyholder's last sign of life.
+   */
+  static async recordAdminAccess(relationshipId: string): Promise<void> {
+    try {
+      const db = await getFirestore();
+      await updateDoc(
+        doc(db as Firestore, "adminRelationships", relationshipId),
+        { lastAdminAccess: serverTimestamp() },
+      );
+    } catch (error) {
+      logger.warn("Failed to record keyholder access", {
+        error: error as Error,
+        relationshipId,
+      });
+    }
+  }
+
   // Private methods
   private static async createAdminRelationship(
     keyholderId: string,
@@ -419,6 +440,7 @@ export class AccountLinkingService {
   ): Promise<AdminRelationship> {
     const db = await getFirestore();
     const relationshipId = generateUUID();
+    const role = await this.getRoleForNewKeyholder(wearerId);
 
     const defaultPermissions: AdminPermissions = {
       viewSessions: true,
@@ -434,6 +456,11 @@ export class AccountLinkingService {
       viewAuditLog: true,
       exportData: false,
     };
+    // Secondary keyholders help with tasks but can't control the session
+    if (role === "secondary") {
+      defaultPermissions.controlSessions = false;
+      defaultPermissions.setGoals = false;
+    }
 
     const defaultSecurity: SecuritySettings = {
       requireConfirmation: true,
@@ -457,6 +484,7 @@ export class AccountLinkingService {
       wearerId,
       establishedAt: serverTimestamp() as Timestamp,
       status: "active",
+      role,
       permissions: { ...defaultPermissions, ...request.permissions },
       security: { ...defaultSecurity, ...request.security },
       privacy: { ...defaultPrivacy, ...request.privacy },
@@ -470,6 +498,29 @@ export class AccountLinkingService {
     return relationship;
   }
 
+  /**
+   * The wearer's first keyholder is primary; anyone linking after that joins
+   * as a secondary
+   */
+  private static async getRoleForNewKeyholder(
+    wearerId: string,
+  ): Promise<KeyholderRole> {
+    const db = await getFirestore();
+    const existing = await getDocs(
+      query(
+        collection(db as Firestore, "adminRelationships"),
+        where("wearerId", "==", wearerId),
+        where("status", "==", "active"),
+      ),
+    );
+    const hasPrimary = existing.docs.some(
+      (relationshipDoc) =>
+        ((relationshipDoc.data() as AdminRelationship).role ?? "primary") ===
+        "primary",
+    );
+    return hasPrimary ? "secondary" : "primary";
+  }
+
   private static generateSecureCode(): string {
     const chars = "ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789";
     let result = "";
@@ -0,0 +1,196 @@
+/**
+ * Backup Encryption
+ * Passphrase-protected backup files using WebCrypto (PBKDF2 + AES-GCM)
+ */
+
+export const ENCRYPTED_BACKUP_FORMAT = "chastityos-encrypted-backup";
+
+const PBKDF2_ITERATIONS = 100000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+const KEY_BYTES = 32;
+
+/**
+ * Envelope written to disk in place of the plain JSON backup
+ */
+export interface EncryptedBackup {
+  format: typeof ENCRYPTED_BACKUP_FORMAT;
+  version: 1;
+  kdf: { name: "PBKDF2"; hash: "SHA-256"; iterations: number; salt: string };
+  cipher: { name: "AES-GCM"; iv: string };
+  /** Derived alongside the key; lets us tell a wrong passphrase from a damaged file */
+  verifier: string;
+  data: string;
+}
+
+export type BackupDecryptionFailure =
+  | "passphrase_required"
+  | "wrong_passphrase"
+  | "corrupted";
+
+export class BackupDecryptionError extends Error {
+  constructor(
+    public readonly reason: BackupDecryptionFailure,
+    message: string,
+  ) {
+    super(message);
+    this.name = "BackupDecryptionError";
+  }
+}
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = "";
+  const chunkSize = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+function fromBase64(value: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(value), (c) => c.charCodeAt(0));
+}
+
+/**
+ * Derive the AES key and a verifier from the passphrase in a single PBKDF2 pass
+ */
+async function deriveBackupKey(
+  passphrase: string,
+  salt: Uint8Array<ArrayBuffer>,
+  iterations: number,
+): Promise<{ key: CryptoKey; verifier: string }> {
+  const keyMaterial = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+
+  const bits = new Uint8Array(
+    await crypto.subtle.deriveBits(
+      { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+      keyMaterial,
+      KEY_BYTES * 2 * 8,
+    ),
+  );
+
+  const key = await crypto.subtle.importKey(
+    "raw",
+    bits.slice(0, KEY_BYTES),
+    { name: "AES-GCM" },
+    false,
+    ["encrypt", "decrypt"],
+  );
+
+  return { key, verifier: toBase64(bits.slice(KEY_BYTES)) };
+}
+
+/**
+ * Detect an encrypted backup envelope
+ */
+export function isEncryptedBackup(data: unknown): data is EncryptedBackup {
+  return (
+    !!data &&
+    typeof data === "object" &&
+    (data as Record<string, unknown>).format === ENCRYPTED_BACKUP_FORMAT
+  );
+}
+
+/**
+ * Encrypt a JSON backup with a passphrase and return the envelope as JSON
+ */
+export async function encryptBackup(
+  jsonData: string,
+  passphrase: string,
+): Promise<string> {
+  if (!passphrase) {
+    throw new Error("A passphrase is required to encrypt the backup");
+  }
+
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const { key, verifier } = await deriveBackupKey(
+    passphrase,
+    salt,
+    PBKDF2_ITERATIONS,
+  );
+
+  const encrypted = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    key,
+    new TextEncoder().encode(jsonData),
+  );
+
+  const envelope: EncryptedBackup = {
+    format: ENCRYPTED_BACKUP_FORMAT,
+    version: 1,
+    kdf: {
+      name: "PBKDF2",
+      hash: "SHA-256",
+      iterations: PBKDF2_ITERATIONS,
+      salt: toBase64(salt),
+    },
+    cipher: { name: "AES-GCM", iv: toBase64(iv) },
+    verifier,
+    data: toBase64(new Uint8Array(encrypted)),
+  };
+
+  return JSON.stringify(envelope);
+}
+
+function decodeEnvelope(envelope: EncryptedBackup) {
+  try {
+    return {
+      salt: fromBase64(envelope.kdf.salt),
+      iv: fromBase64(envelope.cipher.iv),
+      data: fromBase64(envelope.data),
+      iterations: envelope.kdf.iterations,
+    };
+  } catch {
+    throw new BackupDecryptionError(
+      "corrupted",
+      "Backup file is corrupted: encrypted data could not be read",
+    );
+  }
+}
+
+/**
+ * Decrypt an encrypted backup envelope back to the original JSON string.
+ * Throws BackupDecryptionError with reason "wrong_passphrase" or "corrupted".
+ */
+export async function decryptBackup(
+  envelope: EncryptedBackup,
+  passphrase: string,
+): Promise<string> {
+  if (envelope.version !== 1) {
+    throw new BackupDecryptionError(
+      "corrupted",
+      `Unsupported encrypted backup version: ${envelope.version}`,
+    );
+  }
+
+  const { salt, iv, data, iterations } = decodeEnvelope(envelope);
+  const { key, verifier } = await deriveBackupKey(passphrase, salt, iterations);
+
+  if (verifier !== envelope.verifier) {
+    throw new BackupDecryptionError(
+      "wrong_passphrase",
+      "Incorrect passphrase for this backup",
+    );
+  }
+
+  try {
+    const decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv },
+      key,
+      data,
+    );
+    return new TextDecoder().decode(decrypted);
+  } catch {
+    throw new BackupDecryptionError(
+      "corrupted",
+      "Backup file is corrupted: the passphrase is correct but the data failed its integrity check",
+    );
+  }
+}
@@ -0,0 +1,239 @@
+/**
+ * Backup Format
+ * Describes which ChastityDB tables a backup carries, how each one is scoped
+ * to a user, and how older backup files are upgraded to the current schema
+ */
+import type { Collection, Table } from "dexie";
+import { db } from "../storage/ChastityDB";
+
+/**
+ * Tables included in a full backup.
+ * `syncMeta` and `offlineQueue` are device-local sync state and are never exported.
+ */
+export const BACKUP_TABLES = [
+  "users",
+  "sessions",
+  "events",
+  "tasks",
+  "goals",
+  "settings",
+  "achievements",
+  "userAchievements",
+  "achievementProgress",
+  "achievementNotifications",
+  "leaderboardEntries",
+  "rules",
+  "releaseRequests",
+  "emergencyPins",
+  "lockCombinations",
+  "userStats",
+  "ruleViolations",
+  "timeAdjustments",
+  "verifications",
+  "messages",
+  "auditLog",
+  "reportSchedules",
+  "challenges",
+  "seasonProgress",
+] as const;
+
+export type BackupTableName = (typeof BACKUP_TABLES)[number];
+
+/**
+ * How rows of a table belong to a user:
+ * - `user`: rows carry a `userId` field
+ * - `account`: the `users` table, keyed by `uid`
+ * - `relationship`: rows carry `keyholderUserId` / `submissiveUserId`
+ * - `global`: shared definitions (e.g. achievements), never deleted on restore
+ */
+export type BackupTableScope = "user" | "account" | "relationship" | "global";
+
+export interface BackupTableSpec {
+  scope: BackupTableScope;
+  /** ChastityDB schema version that introduced the table */
+  sinceVersion: number;
+  /** Primary key field used to dedupe on merge (defaults to `id`) */
+  primaryKey?: string;
+  /** Fields of a unique compound index, which merge must not collide with */
+  uniqueIndex?: string[];
+  /** Primary keys start with the owner's id followed by this separator */
+  ownerKeySeparator?: string;
+}
+
+export const BACKUP_TABLE_SPECS: Record<BackupTableName, BackupTableSpec> = {
+  users: { scope: "account", sinceVersion: 1, primaryKey: "uid" },
+  sessions: { scope: "user", sinceVersion: 1 },
+  events: { scope: "user", sinceVersion: 1 },
+  tasks: { scope: "user", sinceVersion: 1 },
+  goals: { scope: "user", sinceVersion: 1 },
+  settings: { scope: "user", sinceVersion: 1 },
+  achievements: { scope: "global", sinceVersion: 3 },
+  userAchievements: {
+    scope: "user",
+    sinceVersion: 3,
+    uniqueIndex: ["userId", "achievementId"],
+  },
+  achievementProgress: {
+    scope: "user",
+    sinceVersion: 3,
+    uniqueIndex: ["userId", "achievementId"],
+  },
+  achievementNotifications: { scope: "user", sinceVersion: 3 },
+  leaderboardEntries: {
+    scope: "user",
+    sinceVersion: 3,
+    uniqueIndex: ["userId", "category", "period"],
+  },
+  rules: { scope: "relationship", sinceVersion: 4 },
+  releaseRequests: { scope: "relationship", sinceVersion: 5 },
+  emergencyPins: { scope: "user", sinceVersion: 6, primaryKey: "userId" },
+  lockCombinations: {
+    scope: "user",
+    sinceVersion: 7,
+    ownerKeySeparator: "-",
+  },
+  userStats: { scope: "user", sinceVersion: 8 },
+  ruleViolations: { scope: "user", sinceVersion: 9 },
+  timeAdjustments: { scope: "user", sinceVersion: 10 },
+  verifications: { scope: "user", sinceVersion: 11 },
+  messages: { scope: "relationship", sinceVersion: 12 },
+  auditLog: {
+    scope: "user",
+    sinceVersion: 13,
+    uniqueIndex: ["userId", "sequence"],
+  },
+  reportSchedules: { scope: "user", sinceVersion: 15 },
+  challenges: { scope: "user", sinceVersion: 16 },
+  seasonProgress: {
+    scope: "user",
+    sinceVersion: 17,
+    ownerKeySeparator: ":",
+  },
+};
+
+/**
+ * Backups written before versioning was introduced covered sessions, events,
+ * tasks, goals, settings and rules - everything up to schema version 4.
+ */
+export const LEGACY_BACKUP_SCHEMA_VERSION = 4;
+
+export type BackupTables = Partial<Record<BackupTableName, unknown[]>>;
+
+export interface BackupData extends BackupTables {
+  /** ChastityDB.verno at the time of export */
+  schemaVersion: number;
+  userId: string;
+  userEmail?: string;
+  exportedAt: string;
+}
+
+type BackupUpgrade = (data: BackupData) => BackupData;
+
+/**
+ * Per-version upgrade steps, keyed by the schema version they upgrade TO.
+ * Tables introduced in a version are initialised automatically; add an entry
+ * here when a schema bump also changes the shape of existing records.
+ */
+const BACKUP_UPGRADES: Partial<Record<number, BackupUpgrade>> = {};
+
+export type BackupRow = Record<string, unknown>;
+
+/**
+ * Resolve a backup table on the database, if this build defines it
+ */
+export function getBackupTable(
+  tableName: BackupTableName,
+): Table<BackupRow> | undefined {
+  return db[tableName] as unknown as Table<BackupRow> | undefined;
+}
+
+/**
+ * Select the rows of a table that belong to a user.
+ * Returns undefined for global tables, which are not owned by anyone.
+ */
+export function selectOwnedRows(
+  tableName: BackupTableName,
+  userId: string,
+): Collection<BackupRow> | undefined {
+  const table = getBackupTable(tableName);
+  if (!table) {
+    return undefined;
+  }
+
+  switch (BACKUP_TABLE_SPECS[tableName].scope) {
+    case "account":
+      return table.where("uid").equals(userId);
+    case "relationship":
+      return table
+        .where({ keyholderUserId: userId })
+        .or("submissiveUserId")
+        .equals(userId);
+    case "global":
+      return undefined;
+    default:
+      return table.where("userId").equals(userId);
+  }
+}
+
+/**
+ * Schema version of the running database
+ */
+export function getCurrentSchemaVersion(): number {
+  return db.verno;
+}
+
+/**
+ * Fields stored as Date in Dexie; JSON turns them into ISO strings
+ */
+const DATE_FIELD_PATTERN =
+  /(At|Time|Date|Sync|lastModified|timestamp|deadline)$/;
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+
+/**
+ * JSON.parse reviver that restores Date objects on known date fields
+ */
+export function reviveBackupDates(key: string, value: unknown): unknown {
+  if (
+    typeof value === "string" &&
+    DATE_FIELD_PATTERN.test(key) &&
+    ISO_DATE_PATTERN.test(value)
+  ) {
+    return new Date(value);
+  }
+  return value;
+}
+
+/**
+ * Upgrade a parsed backup to the current schema version.
+ * Throws if the backup was written by a newer version of the app.
+ */
+export function upgradeBackup(raw: Record<string, unknown>): BackupData {
+  const currentVersion = getCurrentSchemaVersion();
+  const fromVersion =
+    typeof raw.schemaVersion === "number"
+      ? raw.schemaVersion
+      : LEGACY_BACKUP_SCHEMA_VERSION;
+
+  if (fromVersion > currentVersion) {
+    throw new Error(
+      `Backup schema version ${fromVersion} is newer than this app supports (${currentVersion}). Please update ChastityOS and try again.`,
+    );
+  }
+
+  let data = { ...raw, schemaVersion: fromVersion } as BackupData;
+
+  for (let version = fromVersion + 1; version <= currentVersion; version++) {
+    for (const table of BACKUP_TABLES) {
+      if (BACKUP_TABLE_SPECS[table].sinceVersion === version && !data[table]) {
+        data[table] = [];
+      }
+    }
+    const upgrade = BACKUP_UPGRADES[version];
+    if (upgrade) {
+      data = upgrade(data);
+    }
+    data.schemaVersion = version;
+  }
+
+  return data;
+}
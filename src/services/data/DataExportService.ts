@@ -2,15 +2,20 @@
  * Data Export Service
  * Handles exporting user data to JSON format
  */
-import { db } from "../storage/ChastityDB";
 import { serviceLogger } from "@/utils/logging";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_SPECS,
+  getBackupTable,
+  getCurrentSchemaVersion,
+  selectOwnedRows,
+  type BackupData,
+  type BackupTableName,
+} from "./BackupFormat";
 
 const logger = serviceLogger("DataExportService");
 
-export interface ExportData {
-  userId: string;
-  userEmail?: string;
-  exportedAt: string;
+export interface ExportData extends BackupData {
   sessions: unknown[];
   events: unknown[];
   tasks: unknown[];
@@ -19,6 +24,19 @@ export interface ExportData {
   rules: unknown[];
 }
 
+/**
+ * Fetch every row of a backup table that belongs to the user
+ */
+async function fetchTableRows(
+  tableName: BackupTableName,
+  userId: string,
+): Promise<unknown[]> {
+  if (BACKUP_TABLE_SPECS[tableName].scope === "global") {
+    return (await getBackupTable(tableName)?.toArray()) ?? [];
+  }
+  return (await selectOwnedRows(tableName, userId)?.toArray()) ?? [];
+}
+
 /**
  * Export all user data to JSON
  */
@@ -29,42 +47,29 @@ export async function exportUserData(
   try {
     logger.info("Exporting user data", { userId });
 
-    // Fetch all data from Dexie
-    const [sessions, events, tasks, goals, settings, rules] = await Promise.all(
-      [
-        db.sessions.where("userId").equals(userId).toArray(),
-        db.events.where("userId").equals(userId).toArray(),
-        db.tasks.where("userId").equals(userId).toArray(),
-        db.goals.where("userId").equals(userId).toArray(),
-        db.settings.where("userId").equals(userId).toArray(),
-        db.rules
-          ? db.rules
-              .where({ keyholderUserId: userId })
-              .or("submissiveUserId")
-              .equals(userId)
-              .toArray()
-          : [],
-      ],
+    // Fetch every backed-up table from Dexie
+    const rows = await Promise.all(
+      BACKUP_TABLES.map((tableName) => fetchTableRows(tableName, userId)),
     );
 
-    const exportData: ExportData = {
+    const exportData = {
+      schemaVersion: getCurrentSchemaVersion(),
       userId,
       userEmail,
       exportedAt: new Date().toISOString(),
-      sessions,
-      events,
-      tasks,
-      goals,
-      settings,
-      rules,
-    };
+    } as ExportData;
+
+    BACKUP_TABLES.forEach((tableName, index) => {
+      exportData[tableName] = rows[index] ?? [];
+    });
 
     logger.info("Data export successful", {
       userId,
-      sessionCount: sessions.length,
-      eventCount: events.length,
-      taskCount: tasks.length,
-      goalCount: goals.length,
+      schemaVersion: exportData.schemaVersion,
+      sessionCount: exportData.sessions.length,
+      eventCount: exportData.events.length,
+      taskCount: exportData.tasks.length,
+      goalCount: exportData.goals.length,
     });
 
     return JSON.stringify(exportData, null, 2);
@@ -74,22 +79,42 @@ export async function exportUserData(
   }
 }
 
+/**
+ * Trigger a browser download for in-memory file contents
+ */
+export function downloadFile(
+  content: string,
+  mimeType: string,
+  filename: string,
+): void {
+  const blob = new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
 /**
  * Download exported data as JSON file
  */
-export function downloadDataAsJSON(jsonData: string, userId: string): void {
+export function downloadDataAsJSON(
+  jsonData: string,
+  userId: string,
+  encrypted = false,
+): void {
   try {
-    const blob = new Blob([jsonData], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement("a");
-    link.href = url;
-    link.download = `chastityos-backup-${userId}-${Date.now()}.json`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    const suffix = encrypted ? ".encrypted" : "";
+    downloadFile(
+      jsonData,
+      "application/json",
+      `chastityos-backup-${userId}-${Date.now()}${suffix}.json`,
+    );
 
-    logger.info("Data download triggered", { userId });
+    logger.info("Data download triggered", { userId, encrypted });
   } catch (error) {
     logger.error("Failed to download data", { error, userId });
     throw error;
@@ -2,16 +2,26 @@
  * Data Import Service
  * Handles importing user data from JSON files
  */
+import type { IndexableType } from "dexie";
 import { db } from "../storage/ChastityDB";
 import { serviceLogger } from "@/utils/logging";
-import type {
-  DBSession,
-  DBEvent,
-  DBTask,
-  DBGoal,
-  DBSettings,
-} from "@/types/database";
-import type { KeyholderRule } from "@/types/core";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_SPECS,
+  LEGACY_BACKUP_SCHEMA_VERSION,
+  getBackupTable,
+  reviveBackupDates,
+  selectOwnedRows,
+  upgradeBackup,
+  type BackupData,
+  type BackupRow,
+  type BackupTableName,
+} from "./BackupFormat";
+import {
+  BackupDecryptionError,
+  decryptBackup,
+  isEncryptedBackup,
+} from "./BackupEncryption";
 
 const logger = serviceLogger("DataImportService");
 
@@ -19,6 +29,7 @@ export interface ImportData {
   userId: string;
   userEmail?: string;
   exportedAt?: string;
+  schemaVersion?: number;
   sessions?: unknown[];
   events?: unknown[];
   tasks?: unknown[];
@@ -27,6 +38,32 @@ export interface ImportData {
   rules?: unknown[];
 }
 
+/**
+ * - `replace`: wipe the user's existing rows, then restore the backup
+ * - `merge`: keep existing rows, deduping by id and keeping the newest `lastModified`.
+ *   Rows that would clash with a different stored row on a unique index
+ *   (e.g. the audit chain's sequence) are skipped.
+ */
+export type ImportMode = "replace" | "merge";
+
+export interface ImportOptions {
+  mode?: ImportMode;
+  /** Required when the backup file is encrypted */
+  passphrase?: string;
+}
+
+export interface ImportTableResult {
+  imported: number;
+  skipped: number;
+}
+
+export interface ImportResult {
+  mode: ImportMode;
+  /** Schema version declared by the backup file before upgrading */
+  backupSchemaVersion: number;
+  tables: Partial<Record<BackupTableName, ImportTableResult>>;
+}
+
 /**
  * Validate that the imported data has the required structure
  */
@@ -41,6 +78,13 @@ export function validateImportData(data: unknown): data is ImportData {
     return false;
   }
 
+  if (
+    importData.schemaVersion !== undefined &&
+    typeof importData.schemaVersion !== "number"
+  ) {
+    return false;
+  }
+
   return true;
 }
 
@@ -58,112 +102,265 @@ function transformItemWithUserId<T>(item: unknown, userId: string): T {
   } as T;
 }
 
+/**
+ * Swap the owner at the start of a composite primary key, such as
+ * `${userId}:${seasonId}`, so lookups by the new owner find the row
+ */
+function rekeyOwnedRow(
+  tableName: BackupTableName,
+  row: BackupRow,
+  backupUserId: string,
+  userId: string,
+): BackupRow {
+  const { primaryKey = "id", ownerKeySeparator } =
+    BACKUP_TABLE_SPECS[tableName];
+  const key = row[primaryKey];
+  const prefix = `${backupUserId}${ownerKeySeparator}`;
+  if (
+    !ownerKeySeparator ||
+    typeof key !== "string" ||
+    !key.startsWith(prefix)
+  ) {
+    return row;
+  }
+  return {
+    ...row,
+    [primaryKey]: `${userId}${ownerKeySeparator}${key.slice(prefix.length)}`,
+  };
+}
+
+/**
+ * Re-point a backed-up row at the importing user
+ */
+function transformRow(
+  tableName: BackupTableName,
+  item: unknown,
+  backupUserId: string,
+  userId: string,
+): BackupRow {
+  switch (BACKUP_TABLE_SPECS[tableName].scope) {
+    case "user":
+      return rekeyOwnedRow(
+        tableName,
+        transformItemWithUserId<BackupRow>(item, userId),
+        backupUserId,
+        userId,
+      );
+    case "account":
+      return {
+        ...transformItemWithUserId<BackupRow>(item, userId),
+        uid: userId,
+      };
+    default: {
+      if (!item || typeof item !== "object") {
+        throw new Error(`Invalid ${tableName} record in import data`);
+      }
+      const row = { ...(item as BackupRow) };
+      // Relationship records keep the other party; only remap the backup owner
+      for (const field of ["keyholderUserId", "submissiveUserId"]) {
+        if (row[field] === backupUserId) {
+          row[field] = userId;
+        }
+      }
+      return row;
+    }
+  }
+}
+
+function toTime(value: unknown): number {
+  if (value instanceof Date) return value.getTime();
+  if (typeof value === "string") return new Date(value).getTime() || 0;
+  return 0;
+}
+
+/**
+ * Drop rows whose unique index values already belong to a different stored
+ * row. Writing them would abort the whole restore with a ConstraintError.
+ */
+async function dropUniqueConflicts(
+  tableName: BackupTableName,
+  rows: BackupRow[],
+  keyField: string,
+): Promise<BackupRow[]> {
+  const table = getBackupTable(tableName);
+  const fields = BACKUP_TABLE_SPECS[tableName].uniqueIndex;
+  if (!table || !fields || rows.length === 0) {
+    return rows;
+  }
+
+  const indexValues = (row: BackupRow) =>
+    fields.map((field) => row[field]) as IndexableType;
+  const stored = await table
+    .where(`[${fields.join("+")}]`)
+    .anyOf(rows.map(indexValues))
+    .toArray();
+  const owners = new Map(
+    stored.map((row) => [JSON.stringify(indexValues(row)), row[keyField]]),
+  );
+
+  return rows.filter((row) => {
+    const owner = owners.get(JSON.stringify(indexValues(row)));
+    return owner === undefined || owner === row[keyField];
+  });
+}
+
+/**
+ * Keep only incoming rows that are new or strictly newer than the stored copy
+ */
+async function selectRowsToMerge(
+  tableName: BackupTableName,
+  rows: BackupRow[],
+): Promise<BackupRow[]> {
+  const table = getBackupTable(tableName);
+  const keyField = BACKUP_TABLE_SPECS[tableName].primaryKey ?? "id";
+  const keys = rows.map((row) => row[keyField] as string);
+  const existing = table ? await table.bulkGet(keys) : [];
+
+  const newer = rows.filter((row, index) => {
+    const current = existing[index];
+    return !current || toTime(row.lastModified) > toTime(current.lastModified);
+  });
+  return dropUniqueConflicts(tableName, newer, keyField);
+}
+
+/**
+ * Write one table of the backup and report how many rows were applied
+ */
+async function importTable(
+  tableName: BackupTableName,
+  data: BackupData,
+  userId: string,
+  mode: ImportMode,
+): Promise<ImportTableResult> {
+  const table = getBackupTable(tableName);
+  const items = data[tableName];
+  if (!table || !Array.isArray(items) || items.length === 0) {
+    return { imported: 0, skipped: 0 };
+  }
+
+  const rows = items.map((item) =>
+    transformRow(tableName, item, data.userId, userId),
+  );
+  const toWrite =
+    mode === "merge" ? await selectRowsToMerge(tableName, rows) : rows;
+
+  if (toWrite.length > 0) {
+    await table.bulkPut(toWrite);
+  }
+
+  return { imported: toWrite.length, skipped: rows.length - toWrite.length };
+}
+
+/**
+ * Restore a parsed, upgraded backup inside a single transaction
+ */
+export async function restoreBackup(
+  data: BackupData,
+  userId: string,
+  mode: ImportMode,
+): Promise<ImportResult["tables"]> {
+  const tableNames = BACKUP_TABLES.filter((name) => getBackupTable(name));
+  const tables = tableNames.map((name) => getBackupTable(name)!);
+  const results: ImportResult["tables"] = {};
+
+  await db.transaction("rw", tables, async () => {
+    if (mode === "replace") {
+      // Delete all existing data for this user (global tables are kept)
+      await Promise.all(
+        tableNames.map((name) => selectOwnedRows(name, userId)?.delete()),
+      );
+    }
+
+    for (const name of tableNames) {
+      results[name] = await importTable(name, data, userId, mode);
+    }
+  });
+
+  return results;
+}
+
+function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (e) => resolve(e.target?.result as string);
+    reader.onerror = () => reject(new Error("Failed to read file"));
+    reader.readAsText(file);
+  });
+}
+
+/**
+ * Parse backup file contents, decrypting them first if the file is encrypted
+ */
+async function parseBackupContents(
+  rawData: string,
+  passphrase?: string,
+): Promise<unknown> {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(rawData, reviveBackupDates) as unknown;
+  } catch {
+    throw new BackupDecryptionError(
+      "corrupted",
+      "Backup file is corrupted: it is not valid JSON",
+    );
+  }
+  if (!isEncryptedBackup(parsed)) {
+    return parsed;
+  }
+
+  if (!passphrase) {
+    throw new BackupDecryptionError(
+      "passphrase_required",
+      "This backup is encrypted. Enter its passphrase to restore it.",
+    );
+  }
+
+  const decrypted = await decryptBackup(parsed, passphrase);
+  try {
+    return JSON.parse(decrypted, reviveBackupDates) as unknown;
+  } catch {
+    throw new BackupDecryptionError(
+      "corrupted",
+      "Backup file is corrupted: decrypted data is not valid JSON",
+    );
+  }
+}
+
 /**
  * Import user data from JSON file
  */
 export async function importUserData(
   file: File,
   userId: string,
-): Promise<void> {
-  return new Promise((resolve, reject) => {
-    const reader = new FileReader();
+  options: ImportOptions = {},
+): Promise<ImportResult> {
+  const mode = options.mode ?? "replace";
 
-    reader.onload = async (e) => {
-      try {
-        const rawData = e.target?.result as string;
-        const data = JSON.parse(rawData) as unknown;
+  try {
+    const rawData = await readFileAsText(file);
+    const parsed = await parseBackupContents(rawData, options.passphrase);
 
-        if (!validateImportData(data)) {
-          throw new Error("Invalid backup file: Missing or invalid user ID");
-        }
+    if (!validateImportData(parsed)) {
+      throw new Error("Invalid backup file: Missing or invalid user ID");
+    }
 
-        logger.info("Importing user data", {
-          userId,
-          backupUserId: data.userId,
-        });
-
-        // Clear existing data and import new data in a transaction
-        await db.transaction(
-          "rw",
-          [db.sessions, db.events, db.tasks, db.goals, db.settings, db.rules],
-          async () => {
-            // Delete all existing data for this user
-            await Promise.all([
-              db.sessions.where("userId").equals(userId).delete(),
-              db.events.where("userId").equals(userId).delete(),
-              db.tasks.where("userId").equals(userId).delete(),
-              db.goals.where("userId").equals(userId).delete(),
-              db.settings.where("userId").equals(userId).delete(),
-              db.rules
-                .where({ keyholderUserId: userId })
-                .or("submissiveUserId")
-                .equals(userId)
-                .delete(),
-            ]);
-
-            // Import new data (update userId to current user)
-            if (data.sessions && Array.isArray(data.sessions)) {
-              const transformedSessions = data.sessions.map((item) =>
-                transformItemWithUserId<DBSession>(item, userId),
-              );
-              await db.sessions.bulkAdd(transformedSessions);
-            }
-
-            if (data.events && Array.isArray(data.events)) {
-              const transformedEvents = data.events.map((item) =>
-                transformItemWithUserId<DBEvent>(item, userId),
-              );
-              await db.events.bulkAdd(transformedEvents);
-            }
-
-            if (data.tasks && Array.isArray(data.tasks)) {
-              const transformedTasks = data.tasks.map((item) =>
-                transformItemWithUserId<DBTask>(item, userId),
-              );
-              await db.tasks.bulkAdd(transformedTasks);
-            }
-
-            if (data.goals && Array.isArray(data.goals)) {
-              const transformedGoals = data.goals.map((item) =>
-                transformItemWithUserId<DBGoal>(item, userId),
-              );
-              await db.goals.bulkAdd(transformedGoals);
-            }
-
-            if (data.settings && Array.isArray(data.settings)) {
-              const transformedSettings = data.settings.map((item) =>
-                transformItemWithUserId<DBSettings>(item, userId),
-              );
-              await db.settings.bulkAdd(transformedSettings);
-            }
-
-            if (data.rules && Array.isArray(data.rules)) {
-              // Rules don't need userId transformation as they have their own structure
-              const transformedRules = data.rules.map((item) => {
-                if (!item || typeof item !== "object") {
-                  throw new Error("Invalid rule in import data");
-                }
-                return item as KeyholderRule;
-              });
-              await db.rules.bulkAdd(transformedRules);
-            }
-          },
-        );
-
-        logger.info("Data import successful", { userId });
-        resolve();
-      } catch (error) {
-        logger.error("Failed to import data", { error, userId });
-        reject(error);
-      }
-    };
+    const data = upgradeBackup(parsed as unknown as Record<string, unknown>);
+    const backupSchemaVersion =
+      parsed.schemaVersion ?? LEGACY_BACKUP_SCHEMA_VERSION;
 
-    reader.onerror = () => {
-      const error = new Error("Failed to read file");
-      logger.error("File read error", { error, userId });
-      reject(error);
-    };
+    logger.info("Importing user data", {
+      userId,
+      backupUserId: data.userId,
+      mode,
+      backupSchemaVersion,
+    });
 
-    reader.readAsText(file);
-  });
+    const tables = await restoreBackup(data, userId, mode);
+
+    logger.info("Data import successful", { userId, mode, tables });
+    return { mode, backupSchemaVersion, tables };
+  } catch (error) {
+    logger.error("Failed to import data", { error, userId });
+    throw error;
+  }
 }
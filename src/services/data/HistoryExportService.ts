@@ -0,0 +1,283 @@
+/**
+ * History Export Service
+ * Exports session and event history as CSV (spreadsheets) and iCalendar (.ics)
+ */
+import { db } from "../storage/ChastityDB";
+import { TimerService } from "../TimerService";
+import { serviceLogger } from "@/utils/logging";
+import { TimezoneUtil } from "@/utils/timezone";
+import { toCSV } from "@/utils/formatting/csv";
+import {
+  formatLocalizedDateTime,
+  getLocaleOptions,
+  type LocaleOptions,
+} from "@/utils/formatting/locale";
+import {
+  buildICalendar,
+  type ICalendarEvent,
+} from "@/utils/formatting/icalendar";
+import { SYSTEM_EVENT_METADATA, SystemEventType } from "@/types/events";
+import type { DBEvent, DBSession } from "@/types/database";
+import { downloadFile } from "./DataExportService";
+
+const logger = serviceLogger("HistoryExportService");
+
+/**
+ * Wall-clock time in the timezone, written with the user's date and time format
+ */
+function formatCSVDate(
+  date: Date | undefined,
+  timezone: string,
+  locale: LocaleOptions,
+): string {
+  return date
+    ? formatLocalizedDateTime(
+        TimezoneUtil.convertToUserTimezone(date, timezone),
+        locale.display ?? {},
+        locale.language,
+      )
+    : "";
+}
+
+/**
+ * Total pause time for a session, including a pause still in progress
+ */
+function getPauseTotal(session: DBSession, now: Date): number {
+  const ongoingPause = session.endTime
+    ? 0
+    : TimerService.calculateCurrentPauseDuration(session, now);
+  return (session.accumulatedPauseTime || 0) + ongoingPause;
+}
+
+/**
+ * Convert sessions to CSV, one row per session
+ */
+export function sessionsToCSV(
+  sessions: DBSession[],
+  timezone: string,
+  now: Date = new Date(),
+  locale: LocaleOptions = {},
+): string {
+  const headers = [
+    "Session ID",
+    `Start (${timezone})`,
+    `End (${timezone})`,
+    "Status",
+    "Total Duration (s)",
+    "Pause Total (s)",
+    "Effective Duration (s)",
+    "Effective Duration",
+    "Goal Duration (s)",
+    "End Reason",
+    "Hardcore Mode",
+    "Emergency Unlock",
+    "Notes",
+  ];
+
+  const rows = sessions.map((session) => {
+    const end = session.endTime ?? now;
+    const effective = TimerService.calculateEffectiveTime(session, end);
+    return [
+      session.id,
+      formatCSVDate(session.startTime, timezone, locale),
+      formatCSVDate(session.endTime, timezone, locale),
+      session.endTime ? "ended" : session.isPaused ? "paused" : "active",
+      TimerService.calculateTotalElapsedTime(session, end),
+      getPauseTotal(session, now),
+      effective,
+      TimerService.formatDuration(effective),
+      session.goalDuration,
+      session.endReason,
+      session.isHardcoreMode,
+      session.isEmergencyUnlock ?? false,
+      session.notes,
+    ];
+  });
+
+  return toCSV(headers, rows);
+}
+
+/**
+ * Human-readable label for an event type
+ */
+function getEventLabel(type: string): string {
+  return SYSTEM_EVENT_METADATA[type as SystemEventType]?.text ?? type;
+}
+
+/**
+ * Convert logged events to CSV, one row per event
+ */
+export function eventsToCSV(
+  events: DBEvent[],
+  timezone: string,
+  locale: LocaleOptions = {},
+): string {
+  const headers = [
+    "Event ID",
+    `Timestamp (${timezone})`,
+    "Type",
+    "Session ID",
+    "Duration (s)",
+    "Mood",
+    "Intensity",
+    "Notes",
+    "Private",
+  ];
+
+  const rows = events.map((event) => [
+    event.id,
+    formatCSVDate(event.timestamp, timezone, locale),
+    getEventLabel(event.type),
+    event.sessionId,
+    event.details?.duration,
+    event.details?.mood,
+    event.details?.intensity,
+    event.details?.notes,
+    event.isPrivate,
+  ]);
+
+  return toCSV(headers, rows);
+}
+
+function sessionToCalendarEvent(session: DBSession, now: Date): ICalendarEvent {
+  const end = session.endTime ?? now;
+  const effective = TimerService.calculateEffectiveTime(session, end);
+  const details = [
+    `Effective time: ${TimerService.formatDuration(effective)}`,
+    `Paused: ${TimerService.formatDuration(getPauseTotal(session, now))}`,
+    session.isHardcoreMode ? "Hardcore mode" : undefined,
+    session.endReason ? `End reason: ${session.endReason}` : undefined,
+    session.notes,
+  ];
+
+  return {
+    uid: `session-${session.id}@chastityos`,
+    start: session.startTime,
+    end,
+    summary: session.endTime
+      ? "Chastity session"
+      : "Chastity session (in progress)",
+    description: details.filter(Boolean).join("\n"),
+    categories: ["Session"],
+  };
+}
+
+function eventToCalendarEvent(event: DBEvent): ICalendarEvent {
+  const duration = event.details?.duration;
+  return {
+    uid: `event-${event.id}@chastityos`,
+    start: event.timestamp,
+    end:
+      duration && duration > 0
+        ? new Date(event.timestamp.getTime() + duration * 1000)
+        : undefined,
+    summary: getEventLabel(event.type),
+    description: event.details?.notes,
+    categories: ["Event"],
+  };
+}
+
+/**
+ * Convert sessions and events to an iCalendar feed with one VEVENT each
+ */
+export function historyToICalendar(
+  sessions: DBSession[],
+  events: DBEvent[],
+  timezone: string,
+  now: Date = new Date(),
+): string {
+  const calendarEvents = [
+    ...sessions.map((session) => sessionToCalendarEvent(session, now)),
+    ...events.map(eventToCalendarEvent),
+  ].sort((a, b) => a.start.getTime() - b.start.getTime());
+
+  return buildICalendar(calendarEvents, {
+    name: "ChastityOS History",
+    timezone,
+    generatedAt: now,
+  });
+}
+
+/**
+ * Load a user's history and the timezone and locale it should be rendered in
+ */
+async function loadHistory(userId: string) {
+  const [sessions, events, settings] = await Promise.all([
+    db.sessions.where("userId").equals(userId).sortBy("startTime"),
+    db.events.where("userId").equals(userId).sortBy("timestamp"),
+    db.settings.where("userId").equals(userId).first(),
+  ]);
+  return {
+    sessions,
+    events,
+    timezone: TimezoneUtil.getUserTimezone(settings),
+    locale: getLocaleOptions(settings),
+  };
+}
+
+/**
+ * Export a user's sessions and events as two CSV documents
+ */
+export async function exportHistoryAsCSV(
+  userId: string,
+): Promise<{ sessions: string; events: string }> {
+  try {
+    const { sessions, events, timezone, locale } = await loadHistory(userId);
+    logger.info("Exporting history as CSV", {
+      userId,
+      sessionCount: sessions.length,
+      eventCount: events.length,
+    });
+    return {
+      sessions: sessionsToCSV(sessions, timezone, new Date(), locale),
+      events: eventsToCSV(events, timezone, locale),
+    };
+  } catch (error) {
+    logger.error("Failed to export history as CSV", { error, userId });
+    throw error;
+  }
+}
+
+/**
+ * Export a user's sessions and events as an iCalendar feed
+ */
+export async function exportHistoryAsICalendar(
+  userId: string,
+): Promise<string> {
+  try {
+    const { sessions, events, timezone } = await loadHistory(userId);
+    logger.info("Exporting history as iCalendar", { userId, timezone });
+    return historyToICalendar(sessions, events, timezone);
+  } catch (error) {
+    logger.error("Failed to export history as iCalendar", { error, userId });
+    throw error;
+  }
+}
+
+/**
+ * Download CSV data as a file
+ */
+export function downloadDataAsCSV(
+  csvData: string,
+  userId: string,
+  kind: "sessions" | "events",
+): void {
+  downloadFile(
+    csvData,
+    "text/csv;charset=utf-8",
+    `chastityos-${kind}-${userId}-${Date.now()}.csv`,
+  );
+  logger.info("CSV download triggered", { userId, kind });
+}
+
+/**
+ * Download an iCalendar feed as a file
+ */
+export function downloadDataAsICS(icsData: string, userId: string): void {
+  downloadFile(
+    icsData,
+    "text/calendar;charset=utf-8",
+    `chastityos-history-${userId}-${Date.now()}.ics`,
+  );
+  logger.info("iCalendar download triggered", { userId });
+}
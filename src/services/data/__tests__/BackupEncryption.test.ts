@@ -0,0 +1,73 @@
+/**
+ * Tests for BackupEncryption
+ */
+import { describe, it, expect } from "vitest";
+import {
+  encryptBackup,
+  decryptBackup,
+  isEncryptedBackup,
+  ENCRYPTED_BACKUP_FORMAT,
+  type EncryptedBackup,
+} from "../BackupEncryption";
+
+const backupJson = JSON.stringify({
+  userId: "user-1",
+  schemaVersion: 8,
+  sessions: [{ id: "session-1" }],
+});
+
+describe("BackupEncryption", () => {
+  it("should round-trip a backup with the same passphrase", async () => {
+    const encrypted = await encryptBackup(backupJson, "correct horse");
+    const envelope = JSON.parse(encrypted) as EncryptedBackup;
+
+    expect(envelope.format).toBe(ENCRYPTED_BACKUP_FORMAT);
+    expect(encrypted).not.toContain("session-1");
+    await expect(decryptBackup(envelope, "correct horse")).resolves.toBe(
+      backupJson,
+    );
+  });
+
+  it("should use a fresh salt and IV for every export", async () => {
+    const first = JSON.parse(await encryptBackup(backupJson, "pass"));
+    const second = JSON.parse(await encryptBackup(backupJson, "pass"));
+
+    expect(first.kdf.salt).not.toBe(second.kdf.salt);
+    expect(first.cipher.iv).not.toBe(second.cipher.iv);
+  });
+
+  it("should report a wrong passphrase", async () => {
+    const envelope = JSON.parse(await encryptBackup(backupJson, "right"));
+
+    await expect(decryptBackup(envelope, "wrong")).rejects.toMatchObject({
+      name: "BackupDecryptionError",
+      reason: "wrong_passphrase",
+    });
+  });
+
+  it("should report tampered data as corrupted", async () => {
+    const envelope = JSON.parse(
+      await encryptBackup(backupJson, "right"),
+    ) as EncryptedBackup;
+    const tampered = {
+      ...envelope,
+      data: `${envelope.data.startsWith("A") ? "B" : "A"}${envelope.data.slice(1)}`,
+    };
+
+    await expect(decryptBackup(tampered, "right")).rejects.toMatchObject({
+      reason: "corrupted",
+    });
+  });
+
+  it("should reject an empty passphrase when encrypting", async () => {
+    await expect(encryptBackup(backupJson, "")).rejects.toThrow(
+      "passphrase is required",
+    );
+  });
+
+  it("should only detect encrypted envelopes", () => {
+    expect(isEncryptedBackup({ format: ENCRYPTED_BACKUP_FORMAT })).toBe(true);
+    expect(isEncryptedBackup({ userId: "user-1" })).toBe(false);
+    expect(isEncryptedBackup(null)).toBe(false);
+  });
+});
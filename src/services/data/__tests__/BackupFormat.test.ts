@@ -0,0 +1,62 @@
+/**
+ * Tests for BackupFormat
+ */
+import { describe, it, expect } from "vitest";
+import { db } from "../../storage/ChastityDB";
+import {
+  BACKUP_TABLES,
+  BACKUP_TABLE_SPECS,
+  upgradeBackup,
+} from "../BackupFormat";
+
+describe("BackupFormat", () => {
+  it("backs up every table apart from device-local sync state", () => {
+    const tableNames = db.tables.map((table) => table.name);
+
+    expect([...BACKUP_TABLES].sort()).toEqual(
+      tableNames
+        .filter((name) => name !== "syncMeta" && name !== "offlineQueue")
+        .sort(),
+    );
+  });
+
+  it("backs up scheduled reports with their owner", () => {
+    expect(BACKUP_TABLES).toContain("reportSchedules");
+    expect(BACKUP_TABLE_SPECS.reportSchedules).toEqual({
+      scope: "user",
+      sinceVersion: 15,
+    });
+  });
+
+  it("backs up accepted challenges with the user who accepted them", () => {
+    expect(BACKUP_TABLES).toContain("challenges");
+    expect(BACKUP_TABLE_SPECS.challenges).toEqual({
+      scope: "user",
+      sinceVersion: 16,
+    });
+  });
+
+  it("backs up season progress and claimed rewards", () => {
+    expect(BACKUP_TABLES).toContain("seasonProgress");
+    expect(BACKUP_TABLE_SPECS.seasonProgress).toEqual({
+      scope: "user",
+      sinceVersion: 17,
+      ownerKeySeparator: ":",
+    });
+  });
+
+  it("adds tables introduced after the backup was written", () => {
+    const upgraded = upgradeBackup({
+      schemaVersion: 14,
+      userId: "user-1",
+      exportedAt: "2024-01-01T00:00:00.000Z",
+      sessions: [{ id: "session-1" }],
+    });
+
+    expect(upgraded.sessions).toEqual([{ id: "session-1" }]);
+    expect(upgraded.reportSchedules).toEqual([]);
+    expect(upgraded.challenges).toEqual([]);
+    expect(upgraded.seasonProgress).toEqual([]);
+    expect(upgraded.auditLog).toBeUndefined();
+  });
+});
@@ -8,6 +8,17 @@ import { db } from "../../storage/ChastityDB";
 // Mock the database
 vi.mock("../../storage/ChastityDB", () => ({
   db: {
+    verno: 8,
+    userStats: {
+      where: vi.fn().mockReturnValue({
+        equals: vi.fn().mockReturnValue({
+          toArray: vi.fn().mockResolvedValue([]),
+        }),
+      }),
+    },
+    achievements: {
+      toArray: vi.fn().mockResolvedValue([]),
+    },
     sessions: {
       where: vi.fn().mockReturnValue({
         equals: vi.fn().mockReturnValue({
@@ -92,6 +103,16 @@ describe("DataExportService", () => {
       expect(parsed.rules).toEqual([]);
     });
 
+    it("should tag the export with the database schema version", async () => {
+      const result = await exportUserData(mockUserId);
+
+      const parsed = JSON.parse(result);
+      expect(parsed.schemaVersion).toBe(8);
+      expect(parsed.userStats).toEqual([]);
+      expect(parsed.achievements).toEqual([]);
+      expect(parsed.lockCombinations).toEqual([]);
+    });
+
     it("should export user data without email", async () => {
       const result = await exportUserData(mockUserId);
 
@@ -108,6 +129,8 @@ describe("DataExportService", () => {
       expect(db.tasks.where).toHaveBeenCalledWith("userId");
       expect(db.goals.where).toHaveBeenCalledWith("userId");
       expect(db.settings.where).toHaveBeenCalledWith("userId");
+      expect(db.userStats.where).toHaveBeenCalledWith("userId");
+      expect(db.achievements.toArray).toHaveBeenCalled();
     });
   });
 
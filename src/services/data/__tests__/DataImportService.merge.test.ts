@@ -0,0 +1,143 @@
+/**
+ * DataImportService merge tests
+ * Merging into a real database, where unique compound indexes are enforced
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { restoreBackup } from "../DataImportService";
+import { db } from "../../storage/ChastityDB";
+import type { BackupData } from "../BackupFormat";
+
+// In-memory database with tables that carry unique compound indexes or
+// owner-prefixed keys
+vi.mock("../../storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("DataImportMergeTest", { indexedDB, IDBKeyRange });
+  testDb.version(1).stores({
+    auditLog: "&id, userId, &[userId+sequence]",
+    userAchievements: "++id, &[userId+achievementId], userId",
+    seasonProgress: "&id, userId, seasonId",
+  });
+  return { db: testDb };
+});
+
+const USER = "user-1";
+const EARLIER = new Date("2024-01-01T00:00:00Z");
+const LATER = new Date("2024-02-01T00:00:00Z");
+
+const backup = (tables: Partial<BackupData>): BackupData => ({
+  schemaVersion: 1,
+  userId: USER,
+  exportedAt: LATER.toISOString(),
+  ...tables,
+});
+
+describe("DataImportService merge restore", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  it("skips rows that clash with a different stored row on a unique index", async () => {
+    await db.table("auditLog").add({
+      id: "local-1",
+      userId: USER,
+      sequence: 1,
+      lastModified: EARLIER,
+    });
+    await db.table("userAchievements").add({
+      id: 7,
+      userId: USER,
+      achievementId: "first-week",
+      lastModified: EARLIER,
+    });
+
+    const results = await restoreBackup(
+      backup({
+        auditLog: [
+          { id: "remote-1", userId: USER, sequence: 1, lastModified: LATER },
+          { id: "remote-2", userId: USER, sequence: 2, lastModified: LATER },
+        ],
+        userAchievements: [
+          {
+            id: 3,
+            userId: USER,
+            achievementId: "first-week",
+            lastModified: LATER,
+          },
+        ],
+      }),
+      USER,
+      "merge",
+    );
+
+    expect(results.auditLog).toEqual({ imported: 1, skipped: 1 });
+    expect(results.userAchievements).toEqual({ imported: 0, skipped: 1 });
+    const chain = await db.table("auditLog").orderBy("id").toArray();
+    expect(chain.map((entry) => entry.id)).toEqual(["local-1", "remote-2"]);
+    expect(await db.table("userAchievements").count()).toBe(1);
+  });
+
+  it("still updates a row stored under the same key", async () => {
+    await db.table("userAchievements").add({
+      id: 7,
+      userId: USER,
+      achievementId: "first-week",
+      isVisible: false,
+      lastModified: EARLIER,
+    });
+
+    const results = await restoreBackup(
+      backup({
+        userAchievements: [
+          {
+            id: 7,
+            userId: USER,
+            achievementId: "first-week",
+            isVisible: true,
+            lastModified: LATER,
+          },
+        ],
+      }),
+      USER,
+      "merge",
+    );
+
+    expect(results.userAchievements).toEqual({ imported: 1, skipped: 0 });
+    expect((await db.table("userAchievements").get(7))?.isVisible).toBe(true);
+  });
+
+  it("re-keys owner-prefixed rows restored under another account", async () => {
+    const NEW_USER = "user-2";
+    const progress = (id: string, experience: number, lastModified: Date) => ({
+      id,
+      userId: USER,
+      seasonId: "season-1",
+      experience,
+      claimedRewards: [],
+      lastModified,
+    });
+    await db.table("seasonProgress").add({
+      ...progress(`${NEW_USER}:season-1`, 50, EARLIER),
+      userId: NEW_USER,
+    });
+
+    const results = await restoreBackup(
+      backup({ seasonProgress: [progress(`${USER}:season-1`, 200, LATER)] }),
+      NEW_USER,
+      "merge",
+    );
+
+    expect(results.seasonProgress).toEqual({ imported: 1, skipped: 0 });
+    const rows = await db.table("seasonProgress").toArray();
+    expect(rows).toHaveLength(1);
+    expect(rows[0]).toMatchObject({
+      id: `${NEW_USER}:season-1`,
+      userId: NEW_USER,
+      experience: 200,
+    });
+  });
+});
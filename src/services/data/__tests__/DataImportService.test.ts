@@ -4,10 +4,12 @@
 import { describe, it, expect, beforeEach, vi } from "vitest";
 import { importUserData, validateImportData } from "../DataImportService";
 import { db } from "../../storage/ChastityDB";
+import { encryptBackup } from "../BackupEncryption";
 
 // Mock the database
 vi.mock("../../storage/ChastityDB", () => ({
   db: {
+    verno: 8,
     transaction: vi.fn(),
     sessions: {
       where: vi.fn().mockReturnValue({
@@ -15,7 +17,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           delete: vi.fn().mockResolvedValue(undefined),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
     events: {
       where: vi.fn().mockReturnValue({
@@ -23,7 +26,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           delete: vi.fn().mockResolvedValue(undefined),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
     tasks: {
       where: vi.fn().mockReturnValue({
@@ -31,7 +35,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           delete: vi.fn().mockResolvedValue(undefined),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
     goals: {
       where: vi.fn().mockReturnValue({
@@ -39,7 +44,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           delete: vi.fn().mockResolvedValue(undefined),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
     settings: {
       where: vi.fn().mockReturnValue({
@@ -47,7 +53,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           delete: vi.fn().mockResolvedValue(undefined),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
     rules: {
       where: vi.fn().mockReturnValue({
@@ -57,7 +64,8 @@ vi.mock("../../storage/ChastityDB", () => ({
           }),
         }),
       }),
-      bulkAdd: vi.fn().mockResolvedValue(undefined),
+      bulkPut: vi.fn().mockResolvedValue(undefined),
+      bulkGet: vi.fn().mockResolvedValue([]),
     },
   },
 }));
@@ -126,6 +134,12 @@ describe("DataImportService", () => {
       expect(validateImportData(invalidData)).toBe(false);
     });
 
+    it("should reject data with non-numeric schemaVersion", () => {
+      expect(
+        validateImportData({ userId: "user-123", schemaVersion: "8" }),
+      ).toBe(false);
+    });
+
     it("should reject non-object data", () => {
       expect(validateImportData("string")).toBe(false);
       expect(validateImportData(123)).toBe(false);
@@ -167,7 +181,10 @@ describe("DataImportService", () => {
         type: "application/json",
       });
 
-      await expect(importUserData(mockFile, mockUserId)).rejects.toThrow();
+      await expect(importUserData(mockFile, mockUserId)).rejects.toMatchObject({
+        name: "BackupDecryptionError",
+        reason: "corrupted",
+      });
     });
 
     it("should reject file without userId", async () => {
@@ -214,5 +231,118 @@ describe("DataImportService", () => {
 
       await expect(importUserData(mockFile, mockUserId)).resolves.not.toThrow();
     });
+
+    it("should restore rows with the current user id in replace mode", async () => {
+      const mockData = {
+        userId: "backup-user-456",
+        schemaVersion: 8,
+        sessions: [{ id: "session-1", userId: "backup-user-456" }],
+      };
+
+      const mockFile = new File([JSON.stringify(mockData)], "backup.json", {
+        type: "application/json",
+      });
+
+      const result = await importUserData(mockFile, mockUserId);
+
+      expect(result.mode).toBe("replace");
+      expect(result.tables.sessions).toEqual({ imported: 1, skipped: 0 });
+      expect(db.sessions.bulkPut).toHaveBeenCalledWith([
+        { id: "session-1", userId: mockUserId },
+      ]);
+    });
+
+    it("should keep newer local rows in merge mode", async () => {
+      (db.sessions.bulkGet as ReturnType<typeof vi.fn>).mockResolvedValueOnce([
+        { id: "session-1", lastModified: new Date("2025-02-01T00:00:00Z") },
+        undefined,
+      ]);
+
+      const mockData = {
+        userId: mockUserId,
+        schemaVersion: 8,
+        sessions: [
+          { id: "session-1", lastModified: "2025-01-01T00:00:00.000Z" },
+          { id: "session-2", lastModified: "2025-01-01T00:00:00.000Z" },
+        ],
+      };
+
+      const mockFile = new File([JSON.stringify(mockData)], "backup.json", {
+        type: "application/json",
+      });
+
+      const result = await importUserData(mockFile, mockUserId, {
+        mode: "merge",
+      });
+
+      expect(result.tables.sessions).toEqual({ imported: 1, skipped: 1 });
+      expect(db.sessions.where).not.toHaveBeenCalled();
+      expect(db.sessions.bulkPut).toHaveBeenCalledWith([
+        {
+          id: "session-2",
+          userId: mockUserId,
+          lastModified: new Date("2025-01-01T00:00:00.000Z"),
+        },
+      ]);
+    });
+
+    it("should upgrade legacy backups without a schema version", async () => {
+      const mockFile = new File(
+        [JSON.stringify({ userId: "backup-user-456", sessions: [] })],
+        "backup.json",
+        { type: "application/json" },
+      );
+
+      const result = await importUserData(mockFile, mockUserId);
+
+      expect(result.backupSchemaVersion).toBe(4);
+    });
+
+    it("should reject backups from a newer schema version", async () => {
+      const mockFile = new File(
+        [JSON.stringify({ userId: "backup-user-456", schemaVersion: 99 })],
+        "backup.json",
+        { type: "application/json" },
+      );
+
+      await expect(importUserData(mockFile, mockUserId)).rejects.toThrow(
+        "newer than this app supports",
+      );
+    });
+
+    it("should require a passphrase for encrypted backups", async () => {
+      const encrypted = await encryptBackup(
+        JSON.stringify({ userId: mockUserId, schemaVersion: 8 }),
+        "secret",
+      );
+      const mockFile = new File([encrypted], "backup.encrypted.json", {
+        type: "application/json",
+      });
+
+      await expect(importUserData(mockFile, mockUserId)).rejects.toMatchObject({
+        reason: "passphrase_required",
+      });
+      expect(db.transaction).not.toHaveBeenCalled();
+    });
+
+    it("should restore encrypted backups with the right passphrase", async () => {
+      const encrypted = await encryptBackup(
+        JSON.stringify({
+          userId: mockUserId,
+          schemaVersion: 8,
+          sessions: [{ id: "session-1", userId: mockUserId }],
+        }),
+        "secret",
+      );
+      const mockFile = new File([encrypted], "backup.encrypted.json", {
+        type: "application/json",
+      });
+
+      const result = await importUserData(mockFile, mockUserId, {
+        passphrase: "secret",
+      });
+
+      expect(result.tables.sessions).toEqual({ imported: 1, skipped: 0 });
+    });
   });
 });
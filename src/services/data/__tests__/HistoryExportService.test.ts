@@ -0,0 +1,135 @@
+/**
+ * Tests for HistoryExportService
+ */
+import { describe, it, expect, vi } from "vitest";
+import {
+  sessionsToCSV,
+  eventsToCSV,
+  historyToICalendar,
+} from "../HistoryExportService";
+import type { DBEvent, DBSession } from "@/types/database";
+
+vi.mock("../../storage/ChastityDB", () => ({
+  db: {},
+}));
+
+vi.mock("@/utils/logging", () => ({
+  serviceLogger: () => ({
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  }),
+  logger: { error: vi.fn() },
+}));
+
+const baseSession: DBSession = {
+  id: "session-1",
+  userId: "user-1",
+  syncStatus: "synced",
+  lastModified: new Date("2025-01-03T00:00:00Z"),
+  startTime: new Date("2025-01-01T10:00:00Z"),
+  endTime: new Date("2025-01-02T10:00:00Z"),
+  isPaused: false,
+  accumulatedPauseTime: 3600,
+  goalDuration: 86400,
+  isHardcoreMode: true,
+  keyholderApprovalRequired: false,
+  endReason: 'Goal reached, then "early" release',
+};
+
+const baseEvent: DBEvent = {
+  id: "event-1",
+  userId: "user-1",
+  syncStatus: "synced",
+  lastModified: new Date("2025-01-01T12:00:00Z"),
+  type: "Hygiene",
+  timestamp: new Date("2025-01-01T12:00:00Z"),
+  details: { duration: 900, notes: "Quick clean, all good" },
+  isPrivate: false,
+};
+
+describe("HistoryExportService", () => {
+  describe("sessionsToCSV", () => {
+    it("should write one row per session with durations and flags", () => {
+      const csv = sessionsToCSV([baseSession], "UTC");
+      const [header, row] = csv.split("\r\n");
+
+      expect(header).toContain("Effective Duration (s)");
+      expect(header).toContain("Start (UTC)");
+      expect(row).toContain("01/01/2025 10:00 AM");
+      expect(row).toContain(",86400,3600,82800,");
+      expect(row).toContain(",true,false,");
+      expect(row).toContain('"Goal reached, then ""early"" release"');
+    });
+
+    it("should render times in the requested timezone", () => {
+      const csv = sessionsToCSV([baseSession], "Europe/Berlin");
+
+      expect(csv).toContain("Start (Europe/Berlin)");
+      expect(csv).toContain("01/01/2025 11:00 AM");
+    });
+
+    it("should write dates in the user's date and time format", () => {
+      const csv = sessionsToCSV([baseSession], "UTC", new Date(), {
+        display: { dateFormat: "yyyy-MM-dd", timeFormat: "24h" },
+      });
+
+      expect(csv).toContain("2025-01-01 10:00,2025-01-02 10:00");
+    });
+
+    it("should include the running pause for active sessions", () => {
+      const active: DBSession = {
+        ...baseSession,
+        endTime: undefined,
+        isPaused: true,
+        pauseStartTime: new Date("2025-01-01T11:00:00Z"),
+        accumulatedPauseTime: 0,
+      };
+
+      const csv = sessionsToCSV(
+        [active],
+        "UTC",
+        new Date("2025-01-01T12:00:00Z"),
+      );
+
+      expect(csv.split("\r\n")[1]).toContain(",paused,7200,3600,3600,");
+    });
+  });
+
+  describe("eventsToCSV", () => {
+    it("should escape notes containing commas", () => {
+      const csv = eventsToCSV([baseEvent], "UTC");
+
+      expect(csv).toContain('"Quick clean, all good"');
+      expect(csv).toContain("Hygiene");
+    });
+  });
+
+  describe("historyToICalendar", () => {
+    it("should create a VEVENT for every session and event", () => {
+      const ics = historyToICalendar(
+        [baseSession],
+        [baseEvent],
+        "America/New_York",
+        new Date("2025-02-01T00:00:00Z"),
+      );
+
+      expect(ics.startsWith("BEGIN:VCALENDAR")).toBe(true);
+      expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+      expect(ics).toContain("X-WR-TIMEZONE:America/New_York");
+      expect(ics).toContain("DTSTART;TZID=America/New_York:20250101T050000");
+      expect(ics).toContain("DTEND;TZID=America/New_York:20250101T071500");
+      expect(ics).toContain("SUMMARY:Hygiene");
+      expect(ics).toContain("DESCRIPTION:Quick clean\\, all good");
+      expect(ics).toContain("DTSTAMP:20250201T000000Z");
+    });
+
+    it("should use UTC times when the timezone is UTC", () => {
+      const ics = historyToICalendar([baseSession], [], "UTC");
+
+      expect(ics).toContain("DTSTART:20250101T100000Z");
+      expect(ics).toContain("DTEND:20250102T100000Z");
+    });
+  });
+});
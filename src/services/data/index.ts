@@ -7,12 +7,48 @@
 export {
   exportUserData,
   downloadDataAsJSON,
+  downloadFile,
   type ExportData,
 } from "./DataExportService";
 
+// Export from HistoryExportService
+export {
+  exportHistoryAsCSV,
+  exportHistoryAsICalendar,
+  sessionsToCSV,
+  eventsToCSV,
+  historyToICalendar,
+  downloadDataAsCSV,
+  downloadDataAsICS,
+} from "./HistoryExportService";
+
 // Export from DataImportService
 export {
   importUserData,
+  restoreBackup,
   validateImportData,
   type ImportData,
+  type ImportMode,
+  type ImportOptions,
+  type ImportResult,
+  type ImportTableResult,
 } from "./DataImportService";
+
+// Export from BackupEncryption
+export {
+  encryptBackup,
+  decryptBackup,
+  isEncryptedBackup,
+  BackupDecryptionError,
+  type BackupDecryptionFailure,
+  type EncryptedBackup,
+} from "./BackupEncryption";
+
+// Export from BackupFormat
+export {
+  BACKUP_TABLES,
+  LEGACY_BACKUP_SCHEMA_VERSION,
+  upgradeBackup,
+  type BackupData,
+  type BackupTableName,
+} from "./BackupFormat";
@@ -15,4 +15,6 @@ export {
   importUserData,
   validateImportData,
   type ImportData,
+  type ImportMode,
+  type ImportResult,
 } from "./data/DataImportService";
@@ -0,0 +1,130 @@
+/**
+ * Audit Log Database Service
+ * Reads and appends entries in each user's hash-chained audit log
+ */
+import Dexie from "dexie";
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { AuditChainAnchor, DBAuditEntry } from "@/types/security";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("AuditLogDBService");
+
+/** syncMeta key holding the head of another user's chain seen on this device */
+export const getAuditAnchorKey = (userId: string) => `auditLog:${userId}`;
+
+class AuditLogDBService extends BaseDBService<DBAuditEntry> {
+  constructor() {
+    super(db.auditLog);
+  }
+
+  private chainFor(userId: string) {
+    return this.table
+      .where("[userId+sequence]")
+      .between([userId, Dexie.minKey], [userId, Dexie.maxKey]);
+  }
+
+  /**
+   * Get the newest entry in a user's chain
+   */
+  async getHead(userId: string): Promise<DBAuditEntry | undefined> {
+    try {
+      return await this.chainFor(userId).last();
+    } catch (error) {
+      logger.error("Failed to get audit chain head", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's whole chain in sequence order
+   */
+  async getChain(userId: string): Promise<DBAuditEntry[]> {
+    try {
+      return await this.chainFor(userId).toArray();
+    } catch (error) {
+      logger.error("Failed to get audit chain", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's most recent entries, newest first
+   */
+  async getRecent(userId: string, limit: number): Promise<DBAuditEntry[]> {
+    try {
+      return await this.chainFor(userId).reverse().limit(limit).toArray();
+    } catch (error) {
+      logger.error("Failed to get recent audit entries", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's entries with timestamps inside an inclusive range.
+   * Open-ended when either bound is omitted.
+   */
+  async getInRange(
+    userId: string,
+    start?: Date,
+    end?: Date,
+  ): Promise<DBAuditEntry[]> {
+    try {
+      return await this.table
+        .where("[userId+timestamp]")
+        .between(
+          [userId, start ?? Dexie.minKey],
+          [userId, end ?? Dexie.maxKey],
+          true,
+          true,
+        )
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to get audit entries in range", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Replace the local copy of another user's chain with a synced one. Used on
+   * keyholder devices, which never append to the wearer's chain themselves.
+   */
+  async replaceChain(userId: string, entries: DBAuditEntry[]): Promise<void> {
+    try {
+      await db.transaction("rw", this.table, async () => {
+        await this.chainFor(userId).delete();
+        await this.table.bulkAdd(
+          entries.map((entry) => ({ ...entry, syncStatus: "synced" as const })),
+        );
+      });
+    } catch (error) {
+      logger.error("Failed to replace audit chain", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Head of another user's chain as last verified on this device
+   */
+  async getAnchor(userId: string): Promise<AuditChainAnchor | undefined> {
+    const meta = await db.syncMeta.get(getAuditAnchorKey(userId));
+    return meta?.auditHead;
+  }
+}
+
+export const auditLogDBService = new AuditLogDBService();
@@ -5,6 +5,12 @@
 import type { Table } from "dexie";
 import { serviceLogger } from "@/utils/logging";
 import type { SyncStatus } from "@/types/database";
+import type {
+  GuardedMutation,
+  GuardedResource,
+  RelationshipActingContext,
+} from "@/types/relationships";
+import { assertRelationshipMutation } from "@/utils/security/relationshipPermissions";
 
 const logger = serviceLogger("BaseDBService");
 
@@ -18,6 +24,44 @@ export abstract class BaseDBService<
 > {
   protected constructor(protected table: Table<T>) {}
 
+  /**
+   * Relationship-scoped data this service stores. When set, writes made with
+   * a RelationshipActingContext pass through the relationship permission guard.
+   */
+  protected readonly guardedResource?: GuardedResource;
+
+  /**
+   * Throw a RelationshipPermissionError if the acting user may not make this
+   * change. Writes without an acting context are the owner's own and pass.
+   */
+  protected async assertPermitted(
+    acting: RelationshipActingContext | undefined,
+    operation: GuardedMutation["operation"],
+    id: string,
+    changes?: Partial<T>,
+  ): Promise<void> {
+    if (!acting || !this.guardedResource) return;
+
+    const existing =
+      operation === "create" ? undefined : await this.table.get(id);
+    try {
+      assertRelationshipMutation(acting, {
+        resource: this.guardedResource,
+        operation,
+        existing: existing as Record<string, unknown> | undefined,
+        changes: changes as Record<string, unknown> | undefined,
+      });
+    } catch (error) {
+      logger.warn("Relationship mutation denied", {
+        error: error as Error,
+        id,
+        operation,
+        relationshipId: acting.relationship.id,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Find record by ID
    */
@@ -52,7 +96,11 @@ export abstract class BaseDBService<
   /**
    * Create new record
    */
-  async create(item: Omit<T, "lastModified" | "syncStatus">): Promise<string> {
+  async create(
+    item: Omit<T, "lastModified" | "syncStatus">,
+    acting?: RelationshipActingContext,
+  ): Promise<string> {
+    await this.assertPermitted(acting, "create", item.id, item as Partial<T>);
     try {
       const fullItem = {
         ...item,
@@ -72,7 +120,12 @@ export abstract class BaseDBService<
   /**
    * Update existing record
    */
-  async update(id: string, updates: Partial<T>): Promise<void> {
+  async update(
+    id: string,
+    updates: Partial<T>,
+    acting?: RelationshipActingContext,
+  ): Promise<void> {
+    await this.assertPermitted(acting, "update", id, updates);
     try {
       const updateData = {
         ...updates,
@@ -95,7 +148,8 @@ export abstract class BaseDBService<
   /**
    * Delete record
    */
-  async delete(id: string): Promise<void> {
+  async delete(id: string, acting?: RelationshipActingContext): Promise<void> {
+    await this.assertPermitted(acting, "delete", id);
     try {
       await this.table.delete(id);
       logger.debug("Deleted record", { id });
@@ -0,0 +1,56 @@
+/**
+ * Challenge Database Service
+ * Stores the challenges a user has accepted and their progress
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { ChallengeStatus, DBChallenge } from "@/types/gamification";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ChallengeDBService");
+
+class ChallengeDBService extends BaseDBService<DBChallenge> {
+  constructor() {
+    super(db.challenges);
+  }
+
+  /**
+   * A user's challenges in one status, soonest ending first
+   */
+  async getByStatus(
+    userId: string,
+    status: ChallengeStatus,
+  ): Promise<DBChallenge[]> {
+    try {
+      const challenges = await this.table
+        .where("[userId+status]")
+        .equals([userId, status])
+        .toArray();
+      return challenges.sort(
+        (a, b) => a.endDate.getTime() - b.endDate.getTime(),
+      );
+    } catch (error) {
+      logger.error("Failed to get challenges", {
+        error: error as Error,
+        userId,
+        status,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Every acceptance of one catalogue challenge by a user
+   */
+  async findByChallengeId(
+    userId: string,
+    challengeId: string,
+  ): Promise<DBChallenge[]> {
+    return this.table
+      .where("[userId+challengeId]")
+      .equals([userId, challengeId])
+      .toArray();
+  }
+}
+
+export const challengeDBService = new ChallengeDBService();
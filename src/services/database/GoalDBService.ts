@@ -5,12 +5,15 @@
 import { BaseDBService } from "./BaseDBService";
 import { db } from "../storage/ChastityDB";
 import type { DBGoal } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 import { generateUUID } from "@/utils";
 
 const logger = serviceLogger("GoalDBService");
 
 class GoalDBService extends BaseDBService<DBGoal> {
+  protected override readonly guardedResource = "goals" as const;
+
   constructor() {
     super(db.goals);
   }
@@ -18,20 +21,24 @@ class GoalDBService extends BaseDBService<DBGoal> {
   /**
    * Add a new goal
    */
-  async addGoal(options: {
-    userId: string;
-    title: string;
-    type: DBGoal["type"];
-    targetValue: number;
-    unit: string;
-    description?: string;
-    dueDate?: Date;
-    isPublic?: boolean;
-    createdBy?: DBGoal["createdBy"];
-    challengeType?: DBGoal["challengeType"];
-    challengeYear?: number;
-    isSpecialChallenge?: boolean;
-  }): Promise<string> {
+  async addGoal(
+    options: {
+      userId: string;
+      title: string;
+      type: DBGoal["type"];
+      targetValue: number;
+      unit: string;
+      description?: string;
+      dueDate?: Date;
+      isPublic?: boolean;
+      createdBy?: DBGoal["createdBy"];
+      challengeType?: DBGoal["challengeType"];
+      challengeYear?: number;
+      isSpecialChallenge?: boolean;
+      randomDuration?: DBGoal["randomDuration"];
+    },
+    acting?: RelationshipActingContext,
+  ): Promise<string> {
     try {
       const goalId = generateUUID();
       const goal: Omit<DBGoal, "lastModified" | "syncStatus"> = {
@@ -51,9 +58,10 @@ class GoalDBService extends BaseDBService<DBGoal> {
         challengeType: options.challengeType,
         challengeYear: options.challengeYear,
         isSpecialChallenge: options.isSpecialChallenge || false,
+        randomDuration: options.randomDuration,
       };
 
-      await this.create(goal);
+      await this.create(goal, acting);
 
       logger.info("Added new goal", {
         goalId,
@@ -96,6 +104,7 @@ class GoalDBService extends BaseDBService<DBGoal> {
   async updateGoalProgress(
     goalId: string,
     currentValue: number,
+    acting?: RelationshipActingContext,
   ): Promise<void> {
     try {
       const goal = await this.findById(goalId);
@@ -112,7 +121,7 @@ class GoalDBService extends BaseDBService<DBGoal> {
         updateData.completedAt = new Date();
       }
 
-      await this.update(goalId, updateData);
+      await this.update(goalId, updateData, acting);
 
       logger.info("Updated goal progress", {
         goalId,
@@ -3,8 +3,17 @@
  * Handles account linking between keyholders and submissives
  */
 import { db } from "../storage/ChastityDB";
-import { KeyholderRelationship, KeyholderPermissions } from "../../types/core";
+import {
+  KeyholderRelationship,
+  KeyholderPermissions,
+  KeyholderRole,
+} from "../../types/core";
 import { generateBackupCode } from "../../utils/helpers/hash";
+import {
+  MAX_KEYHOLDERS_PER_SUBMISSIVE,
+  getKeyholderRole,
+  getRoleDefaultPermissions,
+} from "../../utils/keyholder/keyholderRoles";
 import { serviceLogger } from "../../utils/logging";
 
 const logger = serviceLogger("KeyholderRelationshipDBService");
@@ -159,13 +168,29 @@ class KeyholderRelationshipDBService {
         throw new Error("Relationship already exists between these users");
       }
 
+      // The first keyholder becomes primary, later ones join as secondaries
+      const activeKeyholders = await this.getActiveKeyholders(
+        inviteCode.submissiveUserId,
+      );
+      if (activeKeyholders.length >= MAX_KEYHOLDERS_PER_SUBMISSIVE) {
+        throw new Error(
+          `A submissive can have at most ${MAX_KEYHOLDERS_PER_SUBMISSIVE} keyholders`,
+        );
+      }
+      const role: KeyholderRole = activeKeyholders.some(
+        (rel) => getKeyholderRole(rel) === "primary",
+      )
+        ? "secondary"
+        : "primary";
+
       // Create the relationship
       const relationship: KeyholderRelationship = {
         id: crypto.randomUUID(),
         submissiveUserId: inviteCode.submissiveUserId,
         keyholderUserId: data.keyholderUserId,
         status: "active",
-        permissions: this.getDefaultPermissions(),
+        role,
+        permissions: getRoleDefaultPermissions(role),
         createdAt: new Date(),
         acceptedAt: new Date(),
       };
@@ -213,6 +238,28 @@ class KeyholderRelationshipDBService {
     }
   }
 
+  /**
+   * Get a submissive's active keyholder relationships
+   */
+  async getActiveKeyholders(
+    submissiveUserId: string,
+  ): Promise<KeyholderRelationship[]> {
+    try {
+      return await this.db
+        .table(this.tableName)
+        .where("submissiveUserId")
+        .equals(submissiveUserId)
+        .and((rel) => rel.status === "active")
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to get active keyholders", {
+        error: error as Error,
+        submissiveUserId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * End a keyholder relationship
    */
@@ -276,6 +323,49 @@ class KeyholderRelationshipDBService {
     }
   }
 
+  /**
+   * Change a keyholder's role. Promoting a secondary demotes the current
+   * primary, so there is never more than one.
+   */
+  async updateRole(
+    relationshipId: string,
+    role: KeyholderRole,
+    updatedByUserId: string,
+  ): Promise<void> {
+    try {
+      const relationship = await this.getById(relationshipId);
+      if (!relationship) {
+        throw new Error("Relationship not found");
+      }
+
+      // Only submissive decides who holds which role
+      if (relationship.submissiveUserId !== updatedByUserId) {
+        throw new Error("Only submissive can change keyholder roles");
+      }
+
+      if (role === "primary") {
+        const currentPrimaries = (
+          await this.getActiveKeyholders(relationship.submissiveUserId)
+        ).filter(
+          (rel) =>
+            rel.id !== relationshipId && getKeyholderRole(rel) === "primary",
+        );
+        for (const primary of currentPrimaries) {
+          await this.update(primary.id, { role: "secondary" });
+        }
+      }
+
+      await this.update(relationshipId, { role });
+
+      logger.info("Keyholder role updated", { relationshipId, role });
+    } catch (error) {
+      logger.error("Failed to update keyholder role", {
+        error: error as Error,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get active invite codes for a user
    */
@@ -329,21 +419,6 @@ class KeyholderRelationshipDBService {
       .first();
     return !!existing;
   }
-
-  /**
-   * Get default permissions for new relationships
-   */
-  private getDefaultPermissions(): KeyholderPermissions {
-    return {
-      canLockSessions: true,
-      canUnlockSessions: false, // Emergency only
-      canCreateTasks: true,
-      canApproveTasks: true,
-      canViewFullHistory: true,
-      canEditGoals: false,
-      canSetRules: false,
-    };
-  }
 }
 
 export const keyholderRelationshipDBService =
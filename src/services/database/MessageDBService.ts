@@ -0,0 +1,112 @@
+/**
+ * Message Database Service
+ * Stores keyholder ↔ submissive message threads and read receipts
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBMessage } from "@/types/messages";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("MessageDBService");
+
+class MessageDBService extends BaseDBService<DBMessage> {
+  constructor() {
+    super(db.messages);
+  }
+
+  /**
+   * Get a relationship's thread, oldest first
+   */
+  async getThread(relationshipId: string): Promise<DBMessage[]> {
+    try {
+      const messages = await this.table
+        .where("relationshipId")
+        .equals(relationshipId)
+        .sortBy("sentAt");
+      logger.debug("Fetched message thread", {
+        relationshipId,
+        count: messages.length,
+      });
+      return messages;
+    } catch (error) {
+      logger.error("Failed to get message thread", {
+        error: error as Error,
+        relationshipId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get messages sent to a user that they have not read yet
+   */
+  async getUnreadForUser(userId: string): Promise<DBMessage[]> {
+    try {
+      return await this.findForParticipant(userId)
+        .and((message) => message.userId !== userId && !message.readAt)
+        .sortBy("sentAt");
+    } catch (error) {
+      logger.error("Failed to get unread messages", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Set a read receipt on every unread message the reader received in a
+   * thread
+   *
+   * @returns Number of messages marked read
+   */
+  async markThreadRead(
+    relationshipId: string,
+    readerId: string,
+    readAt: Date = new Date(),
+  ): Promise<number> {
+    try {
+      const count = await this.table
+        .where("relationshipId")
+        .equals(relationshipId)
+        .and((message) => message.userId !== readerId && !message.readAt)
+        .modify({ readAt });
+      logger.debug("Marked thread read", { relationshipId, readerId, count });
+      return count;
+    } catch (error) {
+      logger.error("Failed to mark thread read", {
+        error: error as Error,
+        relationshipId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get unsynced messages in any thread the user takes part in. Includes read
+   * receipts the user set on messages they received.
+   */
+  async getPendingForParticipant(userId: string): Promise<DBMessage[]> {
+    try {
+      return await this.findForParticipant(userId)
+        .and((message) => message.syncStatus === "pending")
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to get pending messages", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  private findForParticipant(userId: string) {
+    return this.table
+      .where("keyholderUserId")
+      .equals(userId)
+      .or("submissiveUserId")
+      .equals(userId);
+  }
+}
+
+export const messageDBService = new MessageDBService();
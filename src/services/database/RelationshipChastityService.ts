@@ -36,6 +36,13 @@ import {
 import { relationshipService } from "./relationships/RelationshipService";
 import { serviceLogger } from "@/utils/logging";
 import { generateUUID } from "@/utils";
+import {
+  assertUnlockAllowed,
+  fromStoredUnlockSchedule,
+  toStoredUnlockSchedule,
+  validateUnlockSchedule,
+} from "@/utils/keyholder/unlockSchedule";
+import type { UnlockSchedule } from "@/types/unlockSchedule";
 
 const logger = serviceLogger("RelationshipChastityService");
 
@@ -256,13 +263,17 @@ class RelationshipChastityService {
         endTime.getTime() -
         (sessionData.startTime as Timestamp).toDate().getTime();
 
+      const isKeyholder =
+        userId === (await this._getKeyholderId(relationshipId));
+      // Only the keyholder may release before their schedule allows it
+      if (!isKeyholder) {
+        assertUnlockAllowed(await this._getUnlockSchedule(relationshipId));
+      }
+
       const endEvent: SessionEvent = {
         type: "end",
         timestamp: serverTimestamp() as Timestamp,
-        initiatedBy:
-          userId === (await this._getKeyholderId(relationshipId))
-            ? "keyholder"
-            : "submissive",
+        initiatedBy: isKeyholder ? "keyholder" : "submissive",
         reason: endReason,
       };
 
@@ -416,6 +427,96 @@ class RelationshipChastityService {
     }
   }
 
+  // ==================== UNLOCK SCHEDULE ====================
+
+  private async _getUnlockSchedule(
+    relationshipId: string,
+  ): Promise<UnlockSchedule | undefined> {
+    const stored = (await this.getChastityData(relationshipId))?.currentSession
+      .unlockSchedule;
+    // Dates come back as Timestamps despite the declared type
+    return stored ? fromStoredUnlockSchedule(stored) : undefined;
+  }
+
+  private async _assertKeyholder(relationshipId: string, userId: string) {
+    if (userId !== (await this._getKeyholderId(relationshipId))) {
+      throw new Error("Only the keyholder can manage the unlock schedule");
+    }
+  }
+
+  /**
+   * Set or clear (null) the unlock schedule on the relationship's current
+   * session. Keyholder only.
+   */
+  async updateUnlockSchedule(
+    relationshipId: string,
+    userId: string,
+    schedule: UnlockSchedule | null,
+  ): Promise<void> {
+    try {
+      const db = await this.ensureDb();
+      await this._assertKeyholder(relationshipId, userId);
+
+      const chastityData = await this.getChastityData(relationshipId);
+      if (!chastityData?.currentSession.isActive) {
+        throw new Error("No active session to schedule");
+      }
+      const problem = schedule && validateUnlockSchedule(schedule);
+      if (problem) {
+        throw new Error(problem);
+      }
+
+      await updateDoc(doc(db, "chastityData", relationshipId), {
+        "currentSession.unlockSchedule": schedule
+          ? toStoredUnlockSchedule(schedule)
+          : null,
+        updatedAt: serverTimestamp(),
+      });
+      logger.info("Updated unlock schedule", {
+        relationshipId,
+        userId,
+        cleared: !schedule,
+      });
+    } catch (error) {
+      logger.error("Failed to update unlock schedule", {
+        error: error as Error,
+        relationshipId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record a keyholder check-in, which also restarts the silent release
+   * countdown
+   */
+  async recordUnlockCheckIn(
+    relationshipId: string,
+    userId: string,
+  ): Promise<void> {
+    try {
+      const db = await this.ensureDb();
+      await this._assertKeyholder(relationshipId, userId);
+      if (!(await this._getUnlockSchedule(relationshipId))) {
+        throw new Error("No unlock schedule to check in to");
+      }
+
+      await updateDoc(doc(db, "chastityData", relationshipId), {
+        "currentSession.unlockSchedule.lastCheckInAt": serverTimestamp(),
+        updatedAt: serverTimestamp(),
+      });
+      logger.info("Recorded unlock check-in", { relationshipId, userId });
+    } catch (error) {
+      logger.error("Failed to record unlock check-in", {
+        error: error as Error,
+        relationshipId,
+        userId,
+      });
+      throw error;
+    }
+  }
+
   // ==================== TASK MANAGEMENT ====================
 
   async createTask(
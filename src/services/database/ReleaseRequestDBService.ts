@@ -5,6 +5,18 @@
 import { db } from "../storage/ChastityDB";
 import { BaseDBService } from "./BaseDBService";
 import type { DBReleaseRequest } from "@/types/database";
+import type {
+  ReleaseApprovalPolicy,
+  ReleaseCounterCondition,
+  ReleaseRequestApproval,
+} from "@/types/core";
+import {
+  assertReleaseTransition,
+  getRequestApprovers,
+  isAwaitingKeyholder,
+  isRequestOpen,
+  resolveReleaseStatus,
+} from "@/utils/releaseRequests";
 import { serviceLogger } from "@/utils/logging";
 import { v4 as uuidv4 } from "uuid";
 
@@ -16,23 +28,27 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
   }
 
   /**
-   * Create a new release request
+   * Create a new release request. Without an approver set only
+   * keyholderUserId decides.
    */
   async createRequest(params: {
     submissiveUserId: string;
     keyholderUserId: string;
     sessionId: string;
     reason?: string;
+    approverUserIds?: string[];
+    approvalPolicy?: ReleaseApprovalPolicy;
   }): Promise<string> {
     try {
-      // Check for existing pending request for this session
-      const existingRequest = await this.table
-        .where({ sessionId: params.sessionId, status: "pending" })
-        .first();
+      // Check for a request still under negotiation for this session
+      const existingRequest = await this.getOpenRequestForSession(
+        params.sessionId,
+      );
 
       if (existingRequest) {
-        logger.warn("Pending request already exists for session", {
+        logger.warn("Open request already exists for session", {
           sessionId: params.sessionId,
+          status: existingRequest.status,
         });
         throw new Error(
           "A pending release request already exists for this session",
@@ -43,6 +59,11 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
         id: uuidv4(),
         submissiveUserId: params.submissiveUserId,
         keyholderUserId: params.keyholderUserId,
+        approverUserIds: params.approverUserIds?.length
+          ? params.approverUserIds
+          : [params.keyholderUserId],
+        approvalPolicy: params.approvalPolicy ?? "any",
+        approvals: [],
         sessionId: params.sessionId,
         requestedAt: new Date(),
         status: "pending",
@@ -69,16 +90,23 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
   }
 
   /**
-   * Get all pending requests for a keyholder
+   * Get pending requests still waiting on a keyholder's decision
    */
   async getPendingRequests(
     keyholderUserId: string,
   ): Promise<DBReleaseRequest[]> {
     try {
-      const requests = await this.table
-        .where({ keyholderUserId, status: "pending" })
-        .reverse()
-        .sortBy("requestedAt");
+      // Older requests have no approver set, so look them up by keyholder too
+      const [asApprover, asKeyholder] = await Promise.all([
+        this.table.where("approverUserIds").equals(keyholderUserId).toArray(),
+        this.table.where({ keyholderUserId, status: "pending" }).toArray(),
+      ]);
+      const byId = new Map(
+        [...asApprover, ...asKeyholder].map((request) => [request.id, request]),
+      );
+      const requests = [...byId.values()]
+        .filter((request) => isAwaitingKeyholder(request, keyholderUserId))
+        .sort((a, b) => b.requestedAt.getTime() - a.requestedAt.getTime());
 
       logger.debug("Retrieved pending requests", {
         keyholderUserId,
@@ -148,12 +176,39 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
   }
 
   /**
-   * Approve a release request
+   * Get the request still being negotiated for a session: pending, countered
+   * or accepted and waiting on its condition
    */
-  async approveRequest(
+  async getOpenRequestForSession(
+    sessionId: string,
+  ): Promise<DBReleaseRequest | undefined> {
+    try {
+      const requests = await this.table
+        .where("sessionId")
+        .equals(sessionId)
+        .filter(isRequestOpen)
+        .sortBy("requestedAt");
+
+      return requests[requests.length - 1];
+    } catch (error) {
+      logger.error("Failed to get open request for session", {
+        error: error as Error,
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Answer a pending request with a counter-offer for the wearer to accept
+   * or decline. Any approver who hasn't answered yet may counter.
+   */
+  async counterRequest(
     requestId: string,
-    keyholderResponse?: string,
-  ): Promise<void> {
+    keyholderUserId: string,
+    condition: ReleaseCounterCondition,
+    message?: string,
+  ): Promise<DBReleaseRequest> {
     try {
       const request = await this.findById(requestId);
 
@@ -161,26 +216,193 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
         throw new Error("Release request not found");
       }
 
-      if (request.status !== "pending") {
-        throw new Error(
-          `Cannot approve request with status: ${request.status}`,
-        );
+      assertReleaseTransition(request, "countered");
+      if (!isAwaitingKeyholder(request, keyholderUserId)) {
+        throw new Error("You cannot counter this release request");
       }
 
-      await this.table.update(requestId, {
-        status: "approved",
-        approvedAt: new Date(),
-        keyholderResponse,
+      const now = new Date();
+      const changes: Partial<DBReleaseRequest> = {
+        status: "countered",
+        counterOffer: {
+          condition,
+          offeredBy: keyholderUserId,
+          offeredAt: now,
+          message,
+        },
+        keyholderResponse: message,
+        syncStatus: "pending",
+        lastModified: now,
+      };
+
+      await this.table.update(requestId, changes);
+
+      logger.info("Release request countered", {
+        requestId,
+        sessionId: request.sessionId,
+        keyholderUserId,
+        condition: condition.type,
+      });
+
+      return { ...request, ...changes };
+    } catch (error) {
+      logger.error("Failed to counter release request", {
+        error: error as Error,
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record the wearer's answer to a counter-offer. `condition` replaces the
+   * offered one, e.g. to link the task created for it.
+   */
+  async respondToCounterOffer(
+    requestId: string,
+    decision: "accepted" | "declined",
+    condition?: ReleaseCounterCondition,
+  ): Promise<DBReleaseRequest> {
+    try {
+      const request = await this.findById(requestId);
+
+      if (!request?.counterOffer) {
+        throw new Error("Counter-offer not found");
+      }
+
+      assertReleaseTransition(request, decision);
+
+      const now = new Date();
+      const changes: Partial<DBReleaseRequest> = {
+        status: decision,
+        counterOffer: {
+          ...request.counterOffer,
+          condition: condition ?? request.counterOffer.condition,
+          respondedAt: now,
+        },
+        syncStatus: "pending",
+        lastModified: now,
+      };
+
+      await this.table.update(requestId, changes);
+
+      logger.info("Counter-offer answered", {
+        requestId,
+        sessionId: request.sessionId,
+        decision,
+      });
+
+      return { ...request, ...changes };
+    } catch (error) {
+      logger.error("Failed to answer counter-offer", {
+        error: error as Error,
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Record what accepting a counter-offer put into effect, such as the
+   * linked task or when the granted pause started
+   */
+  async recordAcceptedCondition(
+    requestId: string,
+    condition: ReleaseCounterCondition,
+  ): Promise<DBReleaseRequest> {
+    try {
+      const request = await this.findById(requestId);
+
+      if (request?.status !== "accepted" || !request.counterOffer) {
+        throw new Error("Counter-offer has not been accepted");
+      }
+
+      const changes: Partial<DBReleaseRequest> = {
+        counterOffer: { ...request.counterOffer, condition },
         syncStatus: "pending",
         lastModified: new Date(),
+      };
+
+      await this.table.update(requestId, changes);
+
+      return { ...request, ...changes };
+    } catch (error) {
+      logger.error("Failed to record accepted condition", {
+        error: error as Error,
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Approve an accepted request once its counter-offer condition is met
+   */
+  async completeCounterOffer(requestId: string): Promise<DBReleaseRequest> {
+    try {
+      const request = await this.findById(requestId);
+
+      if (!request) {
+        throw new Error("Release request not found");
+      }
+
+      assertReleaseTransition(request, "approved");
+
+      const now = new Date();
+      const changes: Partial<DBReleaseRequest> = {
+        status: "approved",
+        approvedAt: now,
+        syncStatus: "pending",
+        lastModified: now,
+      };
+
+      await this.table.update(requestId, changes);
+
+      logger.info("Counter-offer fulfilled, release approved", {
+        requestId,
+        sessionId: request.sessionId,
       });
 
-      logger.info("Release request approved", {
+      return { ...request, ...changes };
+    } catch (error) {
+      logger.error("Failed to complete counter-offer", {
+        error: error as Error,
+        requestId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Close an accepted pause offer once the granted pause is over. The session
+   * carries on and a new release request may be made.
+   */
+  async settleCounterOffer(requestId: string): Promise<DBReleaseRequest> {
+    try {
+      const request = await this.findById(requestId);
+
+      if (!request) {
+        throw new Error("Release request not found");
+      }
+
+      assertReleaseTransition(request, "settled");
+
+      const changes: Partial<DBReleaseRequest> = {
+        status: "settled",
+        syncStatus: "pending",
+        lastModified: new Date(),
+      };
+
+      await this.table.update(requestId, changes);
+
+      logger.info("Granted pause over, counter-offer settled", {
         requestId,
         sessionId: request.sessionId,
       });
+
+      return { ...request, ...changes };
     } catch (error) {
-      logger.error("Failed to approve release request", {
+      logger.error("Failed to settle counter-offer", {
         error: error as Error,
         requestId,
       });
@@ -188,13 +410,50 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
     }
   }
 
+  /**
+   * Approve a release request. With several approvers the request stays
+   * pending until its approval policy is met.
+   *
+   * @param keyholderUserId - Approver responding; defaults to the primary
+   */
+  async approveRequest(
+    requestId: string,
+    keyholderResponse?: string,
+    keyholderUserId?: string,
+  ): Promise<DBReleaseRequest> {
+    return this.respond(
+      requestId,
+      "approved",
+      keyholderResponse,
+      keyholderUserId,
+    );
+  }
+
   /**
    * Deny a release request
+   *
+   * @param keyholderUserId - Approver responding; defaults to the primary
    */
   async denyRequest(
     requestId: string,
     keyholderResponse?: string,
-  ): Promise<void> {
+    keyholderUserId?: string,
+  ): Promise<DBReleaseRequest> {
+    return this.respond(
+      requestId,
+      "denied",
+      keyholderResponse,
+      keyholderUserId,
+    );
+  }
+
+  private async respond(
+    requestId: string,
+    decision: ReleaseRequestApproval["decision"],
+    keyholderResponse?: string,
+    keyholderUserId?: string,
+  ): Promise<DBReleaseRequest> {
+    const action = decision === "approved" ? "approve" : "deny";
     try {
       const request = await this.findById(requestId);
 
@@ -203,23 +462,54 @@ class ReleaseRequestDBService extends BaseDBService<DBReleaseRequest> {
       }
 
       if (request.status !== "pending") {
-        throw new Error(`Cannot deny request with status: ${request.status}`);
+        throw new Error(
+          `Cannot ${action} request with status: ${request.status}`,
+        );
       }
 
-      await this.table.update(requestId, {
-        status: "denied",
-        deniedAt: new Date(),
-        keyholderResponse,
+      const approverId = keyholderUserId ?? request.keyholderUserId;
+      if (!getRequestApprovers(request).includes(approverId)) {
+        throw new Error("You are not an approver for this release request");
+      }
+      if (!isAwaitingKeyholder(request, approverId)) {
+        throw new Error("You have already responded to this release request");
+      }
+
+      const now = new Date();
+      const approvals: ReleaseRequestApproval[] = [
+        ...(request.approvals ?? []),
+        {
+          keyholderUserId: approverId,
+          decision,
+          respondedAt: now,
+          response: keyholderResponse,
+        },
+      ];
+      const status = resolveReleaseStatus({ ...request, approvals });
+      const changes: Partial<DBReleaseRequest> = {
+        approvals,
+        status,
         syncStatus: "pending",
-        lastModified: new Date(),
-      });
+        lastModified: now,
+      };
+      if (status !== "pending") {
+        changes.keyholderResponse = keyholderResponse;
+        changes[status === "approved" ? "approvedAt" : "deniedAt"] = now;
+      }
 
-      logger.info("Release request denied", {
+      await this.table.update(requestId, changes);
+
+      logger.info("Release request response recorded", {
         requestId,
         sessionId: request.sessionId,
+        keyholderUserId: approverId,
+        decision,
+        status,
       });
+
+      return { ...request, ...changes };
     } catch (error) {
-      logger.error("Failed to deny release request", {
+      logger.error(`Failed to ${action} release request`, {
         error: error as Error,
         requestId,
       });
@@ -0,0 +1,81 @@
+/**
+ * Report Schedule Database Service
+ * Stores scheduled reports and when each one next runs
+ */
+import Dexie from "dexie";
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBReportSchedule } from "@/types/reports";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("ReportScheduleDBService");
+
+class ReportScheduleDBService extends BaseDBService<DBReportSchedule> {
+  constructor() {
+    super(db.reportSchedules);
+  }
+
+  /**
+   * Enabled schedules owned by a user whose next run is at or before `now`,
+   * earliest first
+   */
+  async getDue(
+    userId: string,
+    now: Date = new Date(),
+  ): Promise<DBReportSchedule[]> {
+    try {
+      return await this.table
+        .where("[userId+nextRun]")
+        .between([userId, Dexie.minKey], [userId, now], true, true)
+        .filter((schedule) => schedule.enabled)
+        .toArray();
+    } catch (error) {
+      logger.error("Failed to get due report schedules", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * The schedule a user owns for a template and subject, if any
+   */
+  async findForSubject(
+    userId: string,
+    subjectUserId: string,
+    templateId: string,
+  ): Promise<DBReportSchedule | undefined> {
+    return this.table
+      .where("subjectUserId")
+      .equals(subjectUserId)
+      .filter(
+        (schedule) =>
+          schedule.userId === userId && schedule.templateId === templateId,
+      )
+      .first();
+  }
+
+  /**
+   * Record a finished run and move the schedule to its next run
+   */
+  async recordRun(
+    scheduleId: string,
+    runAt: Date,
+    nextRun: Date,
+    reportId: string,
+  ): Promise<void> {
+    await this.update(scheduleId, {
+      lastRun: runAt,
+      nextRun,
+      lastReportId: reportId,
+    });
+    logger.info("Recorded scheduled report run", {
+      scheduleId,
+      reportId,
+      nextRun,
+    });
+  }
+}
+
+export const reportScheduleDBService = new ReportScheduleDBService();
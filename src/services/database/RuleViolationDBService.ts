@@ -0,0 +1,116 @@
+/**
+ * Rule Violation Database Service
+ * Stores keyholder rule violations detected by the rule engine
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBRuleViolation } from "@/types/database";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("RuleViolationDBService");
+
+class RuleViolationDBService extends BaseDBService<DBRuleViolation> {
+  constructor() {
+    super(db.ruleViolations);
+  }
+
+  /**
+   * Get violations for a submissive, most recent first
+   */
+  async getViolationsForSubmissive(userId: string): Promise<DBRuleViolation[]> {
+    try {
+      const violations = await this.table
+        .where("userId")
+        .equals(userId)
+        .reverse()
+        .sortBy("occurredAt");
+      logger.debug("Fetched violations for submissive", {
+        userId,
+        count: violations.length,
+      });
+      return violations;
+    } catch (error) {
+      logger.error("Failed to get violations for submissive", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get violations of rules set by a keyholder, most recent first
+   */
+  async getViolationsForKeyholder(
+    keyholderUserId: string,
+  ): Promise<DBRuleViolation[]> {
+    try {
+      const violations = await this.table
+        .where("keyholderUserId")
+        .equals(keyholderUserId)
+        .reverse()
+        .sortBy("occurredAt");
+      logger.debug("Fetched violations for keyholder", {
+        keyholderUserId,
+        count: violations.length,
+      });
+      return violations;
+    } catch (error) {
+      logger.error("Failed to get violations for keyholder", {
+        error: error as Error,
+        keyholderUserId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Return the subset of violation ids that are already recorded
+   */
+  async findExistingIds(ids: string[]): Promise<Set<string>> {
+    const existing = await this.table.bulkGet(ids);
+    return new Set(
+      existing
+        .filter((violation): violation is DBRuleViolation => !!violation)
+        .map((violation) => violation.id),
+    );
+  }
+
+  /**
+   * Store violations downloaded from the wearer. Acknowledgements are made on
+   * the keyholder's device, so a local acknowledgedAt wins over the remote one.
+   */
+  async mergeRemote(violations: DBRuleViolation[]): Promise<void> {
+    try {
+      await db.transaction("rw", this.table, async () => {
+        const local = await this.table.bulkGet(
+          violations.map((violation) => violation.id),
+        );
+        await this.table.bulkPut(
+          violations.map((violation, index) => ({
+            ...violation,
+            acknowledgedAt:
+              local[index]?.acknowledgedAt ?? violation.acknowledgedAt,
+            syncStatus: "synced" as const,
+          })),
+        );
+      });
+    } catch (error) {
+      logger.error("Failed to merge remote violations", {
+        error: error as Error,
+        count: violations.length,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Mark a violation as seen by the keyholder
+   */
+  async acknowledge(violationId: string): Promise<void> {
+    await this.update(violationId, { acknowledgedAt: new Date() });
+    logger.info("Violation acknowledged", { violationId });
+  }
+}
+
+export const ruleViolationDBService = new RuleViolationDBService();
@@ -0,0 +1,100 @@
+/**
+ * Season Progress Database Service
+ * Stores the XP each user earns in a season and the rewards they claim
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBSeasonProgress } from "@/types/gamification";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("SeasonProgressDBService");
+
+const progressId = (userId: string, seasonId: string) =>
+  `${userId}:${seasonId}`;
+
+class SeasonProgressDBService extends BaseDBService<DBSeasonProgress> {
+  constructor() {
+    super(db.seasonProgress);
+  }
+
+  /**
+   * A user's progress in a season, if they have earned or claimed anything
+   */
+  async getForSeason(
+    userId: string,
+    seasonId: string,
+  ): Promise<DBSeasonProgress | undefined> {
+    return this.table.get(progressId(userId, seasonId));
+  }
+
+  /**
+   * Add XP earned during a season, creating the user's progress row on
+   * their first gain
+   */
+  async addExperience(
+    userId: string,
+    seasonId: string,
+    amount: number,
+  ): Promise<number> {
+    return db.transaction("rw", this.table, async () => {
+      const existing = await this.getForSeason(userId, seasonId);
+      const experience = (existing?.experience ?? 0) + amount;
+
+      if (existing) {
+        await this.update(existing.id, { experience });
+      } else {
+        await this.create({
+          id: progressId(userId, seasonId),
+          userId,
+          seasonId,
+          experience,
+          claimedRewards: [],
+        });
+      }
+      return experience;
+    });
+  }
+
+  /**
+   * Record a reward claim. Claiming the same reward again leaves the
+   * original claim in place.
+   *
+   * @returns The claim time and whether the reward was claimed before
+   */
+  async recordClaim(
+    userId: string,
+    seasonId: string,
+    rewardId: string,
+    claimedAt: Date,
+  ): Promise<{ claimedAt: Date; alreadyClaimed: boolean }> {
+    return db.transaction("rw", this.table, async () => {
+      const existing = await this.getForSeason(userId, seasonId);
+      const previous = existing?.claimedRewards.find(
+        (claim) => claim.rewardId === rewardId,
+      );
+      if (previous) {
+        return { claimedAt: previous.claimedAt, alreadyClaimed: true };
+      }
+
+      const claim = { rewardId, claimedAt };
+      if (existing) {
+        await this.update(existing.id, {
+          claimedRewards: [...existing.claimedRewards, claim],
+        });
+      } else {
+        await this.create({
+          id: progressId(userId, seasonId),
+          userId,
+          seasonId,
+          experience: 0,
+          claimedRewards: [claim],
+        });
+      }
+
+      logger.info("Season reward claimed", { userId, seasonId, rewardId });
+      return { claimedAt, alreadyClaimed: false };
+    });
+  }
+}
+
+export const seasonProgressDBService = new SeasonProgressDBService();
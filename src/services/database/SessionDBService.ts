@@ -5,14 +5,23 @@
 import { BaseDBService } from "./BaseDBService";
 import { db } from "../storage/ChastityDB";
 import type { DBSession } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 import { generateUUID } from "@/utils";
+import {
+  SAFETY_RELEASE_END_REASON,
+  assertUnlockAllowed,
+} from "@/utils/keyholder/unlockSchedule";
 import { eventDBService } from "./EventDBService";
 import { GoalTrackerService } from "../GoalTrackerService";
+import { AuditLogService } from "../AuditLogService";
+import { AuditAction } from "@/types/security";
 
 const logger = serviceLogger("SessionDBService");
 
 class SessionDBService extends BaseDBService<DBSession> {
+  protected override readonly guardedResource = "sessions" as const;
+
   constructor() {
     super(db.sessions);
   }
@@ -105,7 +114,14 @@ class SessionDBService extends BaseDBService<DBSession> {
       isHardcoreMode?: boolean;
       keyholderApprovalRequired?: boolean;
       notes?: string;
-    } = {},
+    } & Pick<
+      DBSession,
+      | "isTimerHidden"
+      | "timerRevealMode"
+      | "timerRevealAfterHours"
+      | "randomGoal"
+    > = {},
+    acting?: RelationshipActingContext,
   ): Promise<string> {
     try {
       // Check if user already has an active session
@@ -125,9 +141,13 @@ class SessionDBService extends BaseDBService<DBSession> {
         isHardcoreMode: options.isHardcoreMode || false,
         keyholderApprovalRequired: options.keyholderApprovalRequired || false,
         notes: options.notes,
+        isTimerHidden: options.isTimerHidden,
+        timerRevealMode: options.timerRevealMode,
+        timerRevealAfterHours: options.timerRevealAfterHours,
+        randomGoal: options.randomGoal,
       };
 
-      await this.create(session);
+      await this.create(session, acting);
 
       logger.info("Started new session", {
         sessionId,
@@ -148,11 +168,29 @@ class SessionDBService extends BaseDBService<DBSession> {
             duration: session.goalDuration,
             hardcoreMode: session.isHardcoreMode,
             keyholderApprovalRequired: session.keyholderApprovalRequired,
+            timerHidden: session.isTimerHidden,
+            randomGoal: session.randomGoal
+              ? {
+                  minSeconds: session.randomGoal.minSeconds,
+                  maxSeconds: session.randomGoal.maxSeconds,
+                  seed: session.randomGoal.seed,
+                }
+              : undefined,
           },
         },
         { sessionId: session.id },
       );
 
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_START,
+        {
+          description: "Session started",
+          newValue: { goalDuration: session.goalDuration },
+        },
+        acting,
+      );
+
       return sessionId;
     } catch (error) {
       logger.error("Failed to start session", {
@@ -171,6 +209,7 @@ class SessionDBService extends BaseDBService<DBSession> {
     sessionId: string,
     endTime: Date = new Date(),
     endReason?: string,
+    acting?: RelationshipActingContext,
   ): Promise<void> {
     try {
       const session = await this.findById(sessionId);
@@ -182,12 +221,24 @@ class SessionDBService extends BaseDBService<DBSession> {
         throw new Error("Session already ended");
       }
 
-      await this.update(sessionId, {
-        endTime,
-        endReason,
-        isPaused: false,
-        pauseStartTime: undefined,
-      });
+      // The keyholder's unlock schedule holds every other ending; only the
+      // keyholder and the safety release may end the session early
+      const byKeyholder =
+        !!acting && acting.actorId === acting.relationship.keyholderId;
+      if (!byKeyholder && endReason !== SAFETY_RELEASE_END_REASON) {
+        assertUnlockAllowed(session.unlockSchedule, endTime);
+      }
+
+      await this.update(
+        sessionId,
+        {
+          endTime,
+          endReason,
+          isPaused: false,
+          pauseStartTime: undefined,
+        },
+        acting,
+      );
 
       logger.info("Ended session", { sessionId, endTime, endReason });
 
@@ -215,6 +266,13 @@ class SessionDBService extends BaseDBService<DBSession> {
         { sessionId: session.id },
       );
 
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_END,
+        { description: "Session ended", metadata: { reason: endReason } },
+        acting,
+      );
+
       // Track goal progress for completed session
       const completedSession = { ...session, endTime };
       await GoalTrackerService.trackSessionCompletion(completedSession);
@@ -244,6 +302,7 @@ class SessionDBService extends BaseDBService<DBSession> {
   async pauseSession(
     sessionId: string,
     pauseTime: Date = new Date(),
+    acting?: RelationshipActingContext,
   ): Promise<void> {
     try {
       const session = await this.findById(sessionId);
@@ -259,10 +318,14 @@ class SessionDBService extends BaseDBService<DBSession> {
         throw new Error("Session is already paused");
       }
 
-      await this.update(sessionId, {
-        isPaused: true,
-        pauseStartTime: pauseTime,
-      });
+      await this.update(
+        sessionId,
+        {
+          isPaused: true,
+          pauseStartTime: pauseTime,
+        },
+        acting,
+      );
 
       logger.info("Paused session", { sessionId, pauseTime });
 
@@ -281,6 +344,13 @@ class SessionDBService extends BaseDBService<DBSession> {
         },
         { sessionId: session.id },
       );
+
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_PAUSE,
+        { description: "Session paused" },
+        acting,
+      );
     } catch (error) {
       logger.error("Failed to pause session", {
         error: error as Error,
@@ -296,6 +366,7 @@ class SessionDBService extends BaseDBService<DBSession> {
   async resumeSession(
     sessionId: string,
     resumeTime: Date = new Date(),
+    acting?: RelationshipActingContext,
   ): Promise<void> {
     try {
       const session = await this.findById(sessionId);
@@ -316,11 +387,15 @@ class SessionDBService extends BaseDBService<DBSession> {
         resumeTime.getTime() - session.pauseStartTime.getTime();
       const pauseSeconds = Math.floor(pauseDuration / 1000);
 
-      await this.update(sessionId, {
-        isPaused: false,
-        pauseStartTime: undefined,
-        accumulatedPauseTime: session.accumulatedPauseTime + pauseSeconds,
-      });
+      await this.update(
+        sessionId,
+        {
+          isPaused: false,
+          pauseStartTime: undefined,
+          accumulatedPauseTime: session.accumulatedPauseTime + pauseSeconds,
+        },
+        acting,
+      );
 
       logger.info("Resumed session", {
         sessionId,
@@ -339,12 +414,23 @@ class SessionDBService extends BaseDBService<DBSession> {
           description: `Session resumed after ${Math.floor(pauseSeconds / 60)} minutes`,
           metadata: {
             sessionId: session.id,
+            pauseStartTime: session.pauseStartTime.toISOString(),
             pauseDuration: pauseSeconds,
             totalPauseTime: session.accumulatedPauseTime + pauseSeconds,
           },
         },
         { sessionId: session.id },
       );
+
+      await AuditLogService.recordSessionChange(
+        session,
+        AuditAction.SESSION_RESUME,
+        {
+          description: "Session resumed",
+          metadata: { pauseDuration: pauseSeconds },
+        },
+        acting,
+      );
     } catch (error) {
       logger.error("Failed to resume session", {
         error: error as Error,
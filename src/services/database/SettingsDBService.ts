@@ -178,7 +178,7 @@ class SettingsDBService extends BaseDBService<DBSettings> {
   }
 
   /**
-   * Update display settings (timezone, notifications)
+   * Update display settings (timezone, notifications, language and formats)
    */
   async updateDisplaySettings(
     userId: string,
@@ -186,7 +186,9 @@ class SettingsDBService extends BaseDBService<DBSettings> {
       timezone?: string;
       notifications?: boolean;
       language?: string;
-    },
+    } & Partial<
+      Pick<DBSettings["display"], "dateFormat" | "timeFormat" | "startOfWeek">
+    >,
   ): Promise<void> {
     try {
       const updates: Partial<DBSettings> = {
@@ -220,6 +222,19 @@ class SettingsDBService extends BaseDBService<DBSettings> {
         }
       }
 
+      const { dateFormat, timeFormat, startOfWeek } = data;
+      if (dateFormat || timeFormat || startOfWeek) {
+        const settings = await this.getSettings(userId);
+        if (settings?.display) {
+          updates.display = {
+            ...(updates.display || settings.display),
+            ...(dateFormat && { dateFormat }),
+            ...(timeFormat && { timeFormat }),
+            ...(startOfWeek && { startOfWeek }),
+          };
+        }
+      }
+
       await this.updateSettings(userId, updates);
       logger.info("Updated display settings", {
         userId,
@@ -312,6 +327,32 @@ class SettingsDBService extends BaseDBService<DBSettings> {
     }
   }
 
+  /**
+   * Update chastity settings, keeping the fields not being changed
+   */
+  async updateChastitySettings(
+    userId: string,
+    data: Partial<DBSettings["chastity"]>,
+  ): Promise<void> {
+    try {
+      const settings = await this.getUserSettings(userId);
+      await this.updateSettings(userId, {
+        chastity: { ...settings.chastity, ...data },
+        updatedAt: new Date(),
+      });
+      logger.info("Updated chastity settings", {
+        userId,
+        fields: Object.keys(data),
+      });
+    } catch (error) {
+      logger.error("Failed to update chastity settings", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
   /**
    * Get user settings or create default if none exist
    */
@@ -5,6 +5,7 @@
 import { BaseDBService } from "./BaseDBService";
 import { db } from "../storage/ChastityDB";
 import type { DBTask, TaskFilters, TaskStatus } from "@/types/database";
+import type { RelationshipActingContext } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 import { generateUUID } from "@/utils";
 import { eventDBService } from "./EventDBService";
@@ -12,6 +13,8 @@ import { eventDBService } from "./EventDBService";
 const logger = serviceLogger("TaskDBService");
 
 class TaskDBService extends BaseDBService<DBTask> {
+  protected override readonly guardedResource = "tasks" as const;
+
   constructor() {
     super(db.tasks);
   }
@@ -29,6 +32,7 @@ class TaskDBService extends BaseDBService<DBTask> {
       dueDate?: Date;
       pointValue?: number;
     } = {},
+    acting?: RelationshipActingContext,
   ): Promise<string> {
     try {
       const taskId = generateUUID();
@@ -45,7 +49,7 @@ class TaskDBService extends BaseDBService<DBTask> {
         pointValue: options.pointValue,
       };
 
-      await this.create(task);
+      await this.create(task, acting);
 
       logger.info("Added new task", { taskId, userId, text });
 
@@ -144,6 +148,7 @@ class TaskDBService extends BaseDBService<DBTask> {
       pointsAwarded?: boolean;
       pointsAwardedAt?: Date;
     } = {},
+    acting?: RelationshipActingContext,
   ): Promise<DBTask | undefined> {
     try {
       const task = await this.findById(taskId);
@@ -173,7 +178,7 @@ class TaskDBService extends BaseDBService<DBTask> {
         updateData.completedAt = new Date();
       }
 
-      await this.update(taskId, updateData);
+      await this.update(taskId, updateData, acting);
 
       logger.info("Updated task status", { taskId, status });
 
@@ -286,6 +291,7 @@ class TaskDBService extends BaseDBService<DBTask> {
    */
   async createTask(
     taskData: Omit<DBTask, "id" | "lastModified" | "syncStatus" | "createdAt">,
+    acting?: RelationshipActingContext,
   ): Promise<string> {
     try {
       const taskId = generateUUID();
@@ -295,7 +301,7 @@ class TaskDBService extends BaseDBService<DBTask> {
         ...taskData,
       };
 
-      await this.create(task);
+      await this.create(task, acting);
       logger.info("Created new task", { taskId, userId: taskData.userId });
 
       // AUTO-LOG: Task created
@@ -326,9 +332,12 @@ class TaskDBService extends BaseDBService<DBTask> {
   /**
    * Delete a task (alias for delete method)
    */
-  async deleteTask(taskId: string): Promise<void> {
+  async deleteTask(
+    taskId: string,
+    acting?: RelationshipActingContext,
+  ): Promise<void> {
     try {
-      await this.delete(taskId);
+      await this.delete(taskId, acting);
       logger.info("Deleted task", { taskId });
     } catch (error) {
       logger.error("Failed to delete task", { error: error as Error, taskId });
@@ -0,0 +1,89 @@
+/**
+ * Time Adjustment Database Service
+ * Ledger of lock time added to or removed from sessions
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBTimeAdjustment, TimeAdjustmentSource } from "@/types/database";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("TimeAdjustmentDBService");
+
+class TimeAdjustmentDBService extends BaseDBService<DBTimeAdjustment> {
+  constructor() {
+    super(db.timeAdjustments);
+  }
+
+  /**
+   * Get all adjustments for a session, oldest first
+   */
+  async getForSession(sessionId: string): Promise<DBTimeAdjustment[]> {
+    try {
+      const adjustments = await this.table
+        .where("sessionId")
+        .equals(sessionId)
+        .sortBy("createdAt");
+      logger.debug("Fetched session adjustments", {
+        sessionId,
+        count: adjustments.length,
+      });
+      return adjustments;
+    } catch (error) {
+      logger.error("Failed to get session adjustments", {
+        error: error as Error,
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get all adjustments for a user, most recent first
+   */
+  async getForUser(userId: string): Promise<DBTimeAdjustment[]> {
+    try {
+      return await this.table
+        .where("userId")
+        .equals(userId)
+        .reverse()
+        .sortBy("createdAt");
+    } catch (error) {
+      logger.error("Failed to get user adjustments", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Find the adjustment created for a specific source record
+   */
+  async findBySource(
+    source: TimeAdjustmentSource,
+    sourceId: string,
+  ): Promise<DBTimeAdjustment | undefined> {
+    return this.table
+      .where("[source+sourceId]")
+      .equals([source, sourceId])
+      .first();
+  }
+
+  /**
+   * Mark an adjustment as reversed; it stays in the ledger for history
+   */
+  async reverse(
+    adjustmentId: string,
+    reversedBy: string,
+    reason?: string,
+  ): Promise<void> {
+    await this.update(adjustmentId, {
+      reversedAt: new Date(),
+      reversedBy,
+      reversalReason: reason,
+    });
+    logger.info("Time adjustment reversed", { adjustmentId, reversedBy });
+  }
+}
+
+export const timeAdjustmentDBService = new TimeAdjustmentDBService();
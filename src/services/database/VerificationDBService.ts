@@ -0,0 +1,61 @@
+/**
+ * Verification Database Service
+ * Stores proof-of-lock photo requests and their review state
+ */
+import { db } from "../storage/ChastityDB";
+import { BaseDBService } from "./BaseDBService";
+import type { DBVerification } from "@/types/verification";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("VerificationDBService");
+
+class VerificationDBService extends BaseDBService<DBVerification> {
+  constructor() {
+    super(db.verifications);
+  }
+
+  /**
+   * Get all verifications for a session, most recent first
+   */
+  async getForSession(sessionId: string): Promise<DBVerification[]> {
+    try {
+      const verifications = await this.table
+        .where("sessionId")
+        .equals(sessionId)
+        .reverse()
+        .sortBy("requestedAt");
+      logger.debug("Fetched session verifications", {
+        sessionId,
+        count: verifications.length,
+      });
+      return verifications;
+    } catch (error) {
+      logger.error("Failed to get session verifications", {
+        error: error as Error,
+        sessionId,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Get the wearer's requests that are still waiting for a photo
+   */
+  async getPendingForUser(userId: string): Promise<DBVerification[]> {
+    try {
+      return await this.table
+        .where("userId")
+        .equals(userId)
+        .and((verification) => verification.status === "pending")
+        .sortBy("dueAt");
+    } catch (error) {
+      logger.error("Failed to get pending verifications", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+}
+
+export const verificationDBService = new VerificationDBService();
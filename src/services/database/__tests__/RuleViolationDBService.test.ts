@@ -0,0 +1,72 @@
+/**
+ * RuleViolationDBService Tests
+ * Violations downloaded from the wearer keep the keyholder's acknowledgement
+ */
+import { describe, it, expect, beforeEach, afterAll, vi } from "vitest";
+import { ruleViolationDBService } from "@/services/database/RuleViolationDBService";
+import { db } from "@/services/storage/ChastityDB";
+import type { DBRuleViolation } from "@/types/database";
+
+vi.mock("@/services/storage/ChastityDB", async () => {
+  const { default: Dexie } = await import("dexie");
+  const { indexedDB, IDBKeyRange } = await import("fake-indexeddb");
+  const testDb = new Dexie("RuleViolationDBServiceTest", {
+    indexedDB,
+    IDBKeyRange,
+  });
+  testDb.version(1).stores({
+    ruleViolations:
+      "&id, userId, keyholderUserId, ruleId, occurredAt, syncStatus, lastModified",
+  });
+  return { db: testDb };
+});
+
+const violation = (
+  overrides: Partial<DBRuleViolation> = {},
+): DBRuleViolation => ({
+  id: "rule-1:event-1",
+  userId: "wearer-1",
+  keyholderUserId: "keyholder-1",
+  ruleId: "rule-1",
+  ruleTitle: "No orgasms",
+  conditionType: "forbidden_event",
+  description: "Logged an orgasm",
+  occurredAt: new Date("2025-01-01T10:00:00Z"),
+  detectedAt: new Date("2025-01-01T10:01:00Z"),
+  timeAdded: 3600,
+  punishmentTaskIds: [],
+  syncStatus: "pending",
+  lastModified: new Date("2025-01-01T10:01:00Z"),
+  ...overrides,
+});
+
+describe("RuleViolationDBService", () => {
+  beforeEach(async () => {
+    await Promise.all(db.tables.map((table) => table.clear()));
+  });
+
+  afterAll(async () => {
+    await db.delete();
+  });
+
+  describe("mergeRemote", () => {
+    it("should store downloaded violations as synced", async () => {
+      await ruleViolationDBService.mergeRemote([violation()]);
+
+      const stored =
+        await ruleViolationDBService.getViolationsForKeyholder("keyholder-1");
+      expect(stored).toHaveLength(1);
+      expect(stored[0]!.syncStatus).toBe("synced");
+    });
+
+    it("should keep the keyholder's acknowledgement", async () => {
+      const acknowledgedAt = new Date("2025-01-02T08:00:00Z");
+      await db.table("ruleViolations").add(violation({ acknowledgedAt }));
+
+      await ruleViolationDBService.mergeRemote([violation()]);
+
+      const stored = await ruleViolationDBService.findById("rule-1:event-1");
+      expect(stored?.acknowledgedAt).toEqual(acknowledgedAt);
+    });
+  });
+});
@@ -18,6 +18,14 @@ export { goalDBService } from "./GoalDBService";
 export { settingsDBService } from "./SettingsDBService";
 export { achievementDBService } from "./AchievementDBService";
 export { ruleDBService } from "./RuleDBService";
+export { ruleViolationDBService } from "./RuleViolationDBService";
+export { timeAdjustmentDBService } from "./TimeAdjustmentDBService";
+export { verificationDBService } from "./VerificationDBService";
+export { messageDBService } from "./MessageDBService";
+export { auditLogDBService } from "./AuditLogDBService";
+export { reportScheduleDBService } from "./ReportScheduleDBService";
+export { challengeDBService } from "./ChallengeDBService";
+export { seasonProgressDBService } from "./SeasonProgressDBService";
 export { userStatsService } from "./UserStatsService";
 
 // Utility services
@@ -1,6 +1,7 @@
 /**
  * Data Migration Service
  * Handles migration from single-user to relationship-based architecture
+ * and imports of data exported from the legacy app
  */
 import {
   collection,
@@ -26,6 +27,16 @@ import {
 } from "@/types/relationships";
 import { serviceLogger } from "@/utils/logging";
 import { generateUUID } from "@/utils";
+import {
+  restoreBackup,
+  type ImportResult,
+} from "@/services/data/DataImportService";
+import { getCurrentSchemaVersion } from "@/services/data/BackupFormat";
+import {
+  isLegacyExport,
+  mapLegacyExport,
+  type LegacyImportRecord,
+} from "./LegacyDataMapper";
 
 const logger = serviceLogger("DataMigrationService");
 
@@ -38,6 +49,13 @@ export interface MigrationResult {
   errors: string[];
 }
 
+export interface LegacyImportResult {
+  /** Rows written per table; rows already stored count as skipped */
+  tables: ImportResult["tables"];
+  /** How each legacy record was mapped, with reasons for the ones left out */
+  records: LegacyImportRecord[];
+}
+
 // Define a type for legacy event types for clarity and type safety
 type LegacyEventType = string | unknown;
 
@@ -533,6 +551,56 @@ class DataMigrationService {
     }
   }
 
+  /**
+   * Import sessions and events from an original-app export file.
+   * Records are merged into the local database; existing rows are kept.
+   */
+  async importLegacyExport(
+    file: File,
+    userId: string,
+  ): Promise<LegacyImportResult> {
+    try {
+      let raw: unknown;
+      try {
+        raw = JSON.parse(await file.text());
+      } catch {
+        throw new Error("Invalid legacy export: file is not valid JSON");
+      }
+      if (!isLegacyExport(raw)) {
+        throw new Error(
+          "Invalid legacy export: no sessions or events from the original app found",
+        );
+      }
+
+      const { sessions, events, summary } = mapLegacyExport(raw, userId);
+      const tables = await restoreBackup(
+        {
+          userId,
+          schemaVersion: getCurrentSchemaVersion(),
+          exportedAt: raw.exportedAt ?? new Date().toISOString(),
+          sessions,
+          events,
+        },
+        userId,
+        "merge",
+      );
+
+      logger.info("Imported legacy export", {
+        userId,
+        sessions: tables.sessions,
+        events: tables.events,
+        unmapped: summary.sessions.skipped + summary.events.skipped,
+      });
+      return { tables, records: summary.records };
+    } catch (error) {
+      logger.error("Failed to import legacy export", {
+        error: error as Error,
+        userId,
+      });
+      throw error;
+    }
+  }
+
   // ==================== UTILITY METHODS ====================
 
   /**
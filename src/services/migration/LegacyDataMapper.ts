@@ -0,0 +1,462 @@
+/**
+ * Legacy Data Mapper
+ * Converts exports from the original JSX app (`original-app/`) into the
+ * current DBSession/DBEvent shapes
+ */
+import type { DBEvent, DBSession } from "@/types/database";
+import {
+  USER_EVENT_TYPES,
+  SystemEventType,
+  type EventType,
+} from "@/types/events";
+
+/** Serialized Firestore Timestamp, ISO string, epoch millis or Date */
+type LegacyDate =
+  | Date
+  | string
+  | number
+  | { seconds: number; nanoseconds?: number }
+  | { _seconds: number; _nanoseconds?: number }
+  | null
+  | undefined;
+
+export interface LegacyPauseEvent {
+  startTime?: LegacyDate;
+  endTime?: LegacyDate;
+  duration?: number;
+  reason?: string;
+}
+
+/** Entry of the `chastityHistory` array on the legacy user document */
+export interface LegacyHistoryEntry {
+  id?: string;
+  periodNumber?: number;
+  startTime?: LegacyDate;
+  endTime?: LegacyDate;
+  duration?: number;
+  reasonForRemoval?: string;
+  totalPauseDurationSeconds?: number;
+  pauseEvents?: LegacyPauseEvent[];
+}
+
+/** Document of the legacy `sexualEventsLog` collection */
+export interface LegacyEvent {
+  id?: string;
+  eventTimestamp?: LegacyDate;
+  timestamp?: LegacyDate;
+  eventType?: string;
+  types?: string[];
+  otherTypeDetail?: string | null;
+  notes?: string;
+  durationSeconds?: number | null;
+  selfOrgasmAmount?: number | null;
+  partnerOrgasmAmount?: number | null;
+  oldStartTime?: string;
+  newStartTime?: string;
+  editedBy?: string;
+}
+
+/** Session fields stored on the legacy user document */
+interface LegacySessionState {
+  chastityHistory?: LegacyHistoryEntry[];
+  isCageOn?: boolean;
+  isChastityOn?: boolean;
+  cageOnTime?: LegacyDate;
+  chastityStartTimestamp?: LegacyDate;
+  isPaused?: boolean;
+  pauseStartTime?: LegacyDate;
+  accumulatedPauseTimeThisSession?: number;
+  currentSessionPauseEvents?: LegacyPauseEvent[];
+  requiredKeyholderDurationSeconds?: number;
+}
+
+/**
+ * Legacy export file. The original app's backup wrote `{ userId, settings,
+ * session, events, tasks }`; raw user-document dumps carry the session
+ * fields at the top level and events as `sexualEventsLog`.
+ */
+export interface LegacyExport extends LegacySessionState {
+  userId?: string;
+  exportedAt?: string;
+  session?: LegacySessionState;
+  events?: LegacyEvent[];
+  sexualEventsLog?: LegacyEvent[];
+}
+
+export type LegacyRecordKind = "session" | "event";
+
+export interface LegacyImportRecord {
+  kind: LegacyRecordKind;
+  /** Identifier of the record in the legacy file (id, period number or index) */
+  sourceId: string;
+  status: "imported" | "skipped";
+  targetId?: string;
+  /** Event type the record was mapped onto */
+  mappedType?: DBEvent["type"];
+  reason?: string;
+}
+
+export interface LegacyImportSummary {
+  sessions: { imported: number; skipped: number };
+  events: { imported: number; skipped: number };
+  records: LegacyImportRecord[];
+}
+
+export interface LegacyMappingResult {
+  sessions: DBSession[];
+  events: DBEvent[];
+  summary: LegacyImportSummary;
+}
+
+/** Legacy names that differ from the current event type names */
+const LEGACY_EVENT_TYPE_ALIASES: Record<string, EventType> = {
+  "session edit": SystemEventType.SESSION_EDIT,
+  starttimeedit: SystemEventType.SESSION_EDIT,
+  orgasm: "Orgasm (Self)",
+  "self orgasm": "Orgasm (Self)",
+  "partner orgasm": "Orgasm (Partner)",
+  ruined: "Ruined Orgasm",
+  "tease and denial": "Tease & Denial",
+  play: "Play Session",
+  mood: "Mood Entry",
+};
+
+/**
+ * Detect a legacy export file
+ */
+export function isLegacyExport(data: unknown): data is LegacyExport {
+  if (!data || typeof data !== "object") return false;
+  const record = data as Record<string, unknown>;
+  // Current backups are tagged with a schema version and use `sessions`,
+  // though older ones may lack the version
+  if (typeof record.schemaVersion === "number") return false;
+  if (record.sessions !== undefined) return false;
+  return [
+    record.chastityHistory,
+    record.events,
+    record.sexualEventsLog,
+    record.session,
+    record.cageOnTime,
+  ].some((value) => value !== undefined);
+}
+
+/**
+ * Parse any date representation found in legacy exports
+ */
+export function parseLegacyDate(value: LegacyDate): Date | undefined {
+  if (value === null || value === undefined) return undefined;
+
+  let date: Date;
+  if (value instanceof Date) {
+    date = value;
+  } else if (typeof value === "string" || typeof value === "number") {
+    date = new Date(value);
+  } else if ("seconds" in value) {
+    date = new Date(value.seconds * 1000 + (value.nanoseconds ?? 0) / 1e6);
+  } else if ("_seconds" in value) {
+    date = new Date(value._seconds * 1000 + (value._nanoseconds ?? 0) / 1e6);
+  } else {
+    return undefined;
+  }
+
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * Map a legacy event type name onto USER_EVENT_TYPES / SystemEventType
+ */
+export function mapLegacyEventType(name: string): EventType | undefined {
+  const normalized = name.trim().toLowerCase();
+  const userType = USER_EVENT_TYPES.find(
+    (type) => type.toLowerCase() === normalized,
+  );
+  if (userType) return userType;
+
+  const systemType = Object.values(SystemEventType).find(
+    (type) => type.toLowerCase() === normalized,
+  );
+  return systemType ?? LEGACY_EVENT_TYPE_ALIASES[normalized];
+}
+
+/**
+ * Rebuild the accumulated pause time (in seconds) from individual pause events.
+ * Pauses still open at `sessionEnd` are closed there; without an end the
+ * pause is ignored, since its length is unknown.
+ */
+export function reconstructPauseTime(
+  pauseEvents: LegacyPauseEvent[],
+  sessionEnd?: Date,
+): number {
+  return pauseEvents.reduce((total, pause) => {
+    const start = parseLegacyDate(pause.startTime);
+    const end = parseLegacyDate(pause.endTime) ?? sessionEnd;
+
+    if (start && end && end > start) {
+      return total + Math.floor((end.getTime() - start.getTime()) / 1000);
+    }
+    if (typeof pause.duration === "number" && pause.duration > 0) {
+      return total + pause.duration;
+    }
+    return total;
+  }, 0);
+}
+
+function createSummary(): LegacyImportSummary {
+  return {
+    sessions: { imported: 0, skipped: 0 },
+    events: { imported: 0, skipped: 0 },
+    records: [],
+  };
+}
+
+function record(summary: LegacyImportSummary, entry: LegacyImportRecord) {
+  summary.records.push(entry);
+  const counts = entry.kind === "session" ? summary.sessions : summary.events;
+  counts[entry.status]++;
+}
+
+function mapHistoryEntry(
+  entry: LegacyHistoryEntry,
+  index: number,
+  userId: string,
+  now: Date,
+): DBSession | string {
+  const startTime = parseLegacyDate(entry.startTime);
+  const endTime = parseLegacyDate(entry.endTime);
+  if (!startTime) return "Missing or invalid start time";
+  if (!endTime) return "Missing or invalid end time";
+  if (endTime < startTime) return "End time is before start time";
+
+  const pauseEvents = entry.pauseEvents ?? [];
+  const accumulatedPauseTime =
+    pauseEvents.length > 0
+      ? reconstructPauseTime(pauseEvents, endTime)
+      : (entry.totalPauseDurationSeconds ?? 0);
+
+  return {
+    id: `legacy-session-${userId}-${entry.id ?? entry.periodNumber ?? index + 1}`,
+    userId,
+    syncStatus: "pending",
+    lastModified: now,
+    startTime,
+    endTime,
+    isPaused: false,
+    accumulatedPauseTime,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    endReason: entry.reasonForRemoval || undefined,
+  };
+}
+
+function mapActiveSession(
+  state: LegacySessionState,
+  userId: string,
+  now: Date,
+): DBSession | undefined {
+  const isActive = state.isCageOn ?? state.isChastityOn;
+  const startTime = parseLegacyDate(
+    state.cageOnTime ?? state.chastityStartTimestamp,
+  );
+  if (!isActive || !startTime) return undefined;
+
+  const pauseStartTime = state.isPaused
+    ? parseLegacyDate(state.pauseStartTime)
+    : undefined;
+  // Only finished pauses count; a running pause is tracked via pauseStartTime
+  const finishedPauses = (state.currentSessionPauseEvents ?? []).filter(
+    (pause) => parseLegacyDate(pause.endTime) || pause.duration,
+  );
+  const accumulatedPauseTime =
+    state.accumulatedPauseTimeThisSession ??
+    reconstructPauseTime(finishedPauses);
+  const goalDuration = state.requiredKeyholderDurationSeconds;
+
+  return {
+    id: `legacy-session-${userId}-active-${startTime.getTime()}`,
+    userId,
+    syncStatus: "pending",
+    lastModified: now,
+    startTime,
+    isPaused: !!pauseStartTime,
+    pauseStartTime,
+    accumulatedPauseTime,
+    goalDuration: goalDuration && goalDuration > 0 ? goalDuration : undefined,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+  };
+}
+
+function mapSessions(
+  data: LegacyExport,
+  userId: string,
+  now: Date,
+  summary: LegacyImportSummary,
+): DBSession[] {
+  const state: LegacySessionState = { ...data, ...data.session };
+  const sessions: DBSession[] = [];
+
+  (state.chastityHistory ?? []).forEach((entry, index) => {
+    const sourceId = String(entry.id ?? entry.periodNumber ?? index + 1);
+    const mapped = mapHistoryEntry(entry, index, userId, now);
+    if (typeof mapped === "string") {
+      record(summary, {
+        kind: "session",
+        sourceId,
+        status: "skipped",
+        reason: mapped,
+      });
+      return;
+    }
+    sessions.push(mapped);
+    record(summary, {
+      kind: "session",
+      sourceId,
+      status: "imported",
+      targetId: mapped.id,
+    });
+  });
+
+  const active = mapActiveSession(state, userId, now);
+  if (active) {
+    sessions.push(active);
+    record(summary, {
+      kind: "session",
+      sourceId: "current",
+      status: "imported",
+      targetId: active.id,
+    });
+  }
+
+  return sessions;
+}
+
+function findSessionId(
+  sessions: DBSession[],
+  timestamp: Date,
+): string | undefined {
+  return sessions.find(
+    (session) =>
+      session.startTime <= timestamp &&
+      (!session.endTime || timestamp <= session.endTime),
+  )?.id;
+}
+
+function buildEventMetadata(event: LegacyEvent, legacyTypes: string[]) {
+  const metadata: Record<string, unknown> = { legacyTypes };
+  const optional = {
+    otherTypeDetail: event.otherTypeDetail,
+    selfOrgasmAmount: event.selfOrgasmAmount,
+    partnerOrgasmAmount: event.partnerOrgasmAmount,
+    oldStartTime: event.oldStartTime,
+    newStartTime: event.newStartTime,
+    editedBy: event.editedBy,
+  };
+  Object.entries(optional).forEach(([key, value]) => {
+    if (value !== null && value !== undefined && value !== "") {
+      metadata[key] = value;
+    }
+  });
+  return metadata;
+}
+
+function mapEvent(
+  event: LegacyEvent,
+  sourceId: string,
+  userId: string,
+  sessions: DBSession[],
+  now: Date,
+): DBEvent | string {
+  const timestamp = parseLegacyDate(event.eventTimestamp ?? event.timestamp);
+  if (!timestamp) return "Missing or invalid timestamp";
+
+  const legacyTypes = [
+    ...(event.types ?? []),
+    ...(event.eventType ? [event.eventType] : []),
+  ];
+  const mappedTypes = [
+    ...new Set(
+      legacyTypes
+        .map(mapLegacyEventType)
+        .filter((type): type is EventType => !!type),
+    ),
+  ];
+  const [type, ...additionalTypes] = mappedTypes;
+  if (!type) {
+    const names = [...legacyTypes, event.otherTypeDetail].filter(Boolean);
+    return names.length > 0
+      ? `Unmappable event type: ${names.join(", ")}`
+      : "Event has no type";
+  }
+
+  const tags = [...additionalTypes, event.otherTypeDetail].filter(
+    (tag): tag is string => !!tag,
+  );
+
+  return {
+    id: `legacy-event-${userId}-${sourceId}`,
+    userId,
+    syncStatus: "pending",
+    lastModified: now,
+    sessionId: findSessionId(sessions, timestamp),
+    type,
+    timestamp,
+    details: {
+      duration: event.durationSeconds ?? undefined,
+      notes: event.notes || undefined,
+      tags: tags.length > 0 ? tags : undefined,
+      metadata: buildEventMetadata(event, legacyTypes),
+    },
+    isPrivate: false,
+  };
+}
+
+function mapEvents(
+  data: LegacyExport,
+  userId: string,
+  sessions: DBSession[],
+  now: Date,
+  summary: LegacyImportSummary,
+): DBEvent[] {
+  const events: DBEvent[] = [];
+
+  (data.events ?? data.sexualEventsLog ?? []).forEach((event, index) => {
+    const sourceId = event.id ?? String(index + 1);
+    const mapped = mapEvent(event, sourceId, userId, sessions, now);
+    if (typeof mapped === "string") {
+      record(summary, {
+        kind: "event",
+        sourceId,
+        status: "skipped",
+        reason: mapped,
+      });
+      return;
+    }
+    events.push(mapped);
+    record(summary, {
+      kind: "event",
+      sourceId,
+      status: "imported",
+      targetId: mapped.id,
+      mappedType: mapped.type,
+    });
+  });
+
+  return events;
+}
+
+/**
+ * Map a legacy export onto current sessions and events.
+ * Ids are derived from the user and the legacy records, so importing the same
+ * file twice updates the earlier copies instead of duplicating them, while
+ * another account importing it on this device gets its own rows.
+ */
+export function mapLegacyExport(
+  data: LegacyExport,
+  userId: string,
+  now: Date = new Date(),
+): LegacyMappingResult {
+  const summary = createSummary();
+  const sessions = mapSessions(data, userId, now, summary);
+  const events = mapEvents(data, userId, sessions, now, summary);
+  return { sessions, events, summary };
+}
@@ -0,0 +1,193 @@
+/**
+ * Tests for LegacyDataMapper
+ */
+import { describe, it, expect } from "vitest";
+import {
+  isLegacyExport,
+  mapLegacyEventType,
+  mapLegacyExport,
+  parseLegacyDate,
+  reconstructPauseTime,
+} from "../LegacyDataMapper";
+import { SystemEventType } from "@/types/events";
+
+const now = new Date("2025-03-01T00:00:00Z");
+
+describe("LegacyDataMapper", () => {
+  describe("parseLegacyDate", () => {
+    it("should parse ISO strings and serialized Firestore timestamps", () => {
+      const expected = new Date("2025-01-01T10:00:00Z");
+
+      expect(parseLegacyDate("2025-01-01T10:00:00.000Z")).toEqual(expected);
+      expect(parseLegacyDate({ seconds: expected.getTime() / 1000 })).toEqual(
+        expected,
+      );
+      expect(parseLegacyDate({ _seconds: expected.getTime() / 1000 })).toEqual(
+        expected,
+      );
+      expect(parseLegacyDate("not a date")).toBeUndefined();
+    });
+  });
+
+  describe("mapLegacyEventType", () => {
+    it("should map legacy names onto current event types", () => {
+      expect(mapLegacyEventType("Orgasm (Self)")).toBe("Orgasm (Self)");
+      expect(mapLegacyEventType("tease & denial")).toBe("Tease & Denial");
+      expect(mapLegacyEventType("Session Edit")).toBe(
+        SystemEventType.SESSION_EDIT,
+      );
+      expect(mapLegacyEventType("Shaving")).toBeUndefined();
+    });
+  });
+
+  describe("reconstructPauseTime", () => {
+    it("should sum pauses and close open pauses at the session end", () => {
+      const total = reconstructPauseTime(
+        [
+          {
+            startTime: "2025-01-01T12:00:00Z",
+            endTime: "2025-01-01T12:30:00Z",
+          },
+          { startTime: "2025-01-01T20:00:00Z" },
+          { duration: 60 },
+        ],
+        new Date("2025-01-01T21:00:00Z"),
+      );
+
+      expect(total).toBe(1800 + 3600 + 60);
+    });
+  });
+
+  describe("isLegacyExport", () => {
+    it("should accept original-app exports and reject current backups", () => {
+      expect(isLegacyExport({ userId: "u", session: {}, events: [] })).toBe(
+        true,
+      );
+      expect(
+        isLegacyExport({ userId: "u", schemaVersion: 8, events: [] }),
+      ).toBe(false);
+      expect(isLegacyExport({ userId: "u" })).toBe(false);
+    });
+
+    it("should reject current backups written without a schema version", () => {
+      expect(isLegacyExport({ userId: "u", sessions: [], events: [] })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe("mapLegacyExport", () => {
+    const legacyExport = {
+      userId: "legacy-user",
+      chastityHistory: [
+        {
+          periodNumber: 1,
+          startTime: { seconds: Date.parse("2025-01-01T00:00:00Z") / 1000 },
+          endTime: { seconds: Date.parse("2025-01-03T00:00:00Z") / 1000 },
+          reasonForRemoval: "Travel",
+          totalPauseDurationSeconds: 999,
+          pauseEvents: [
+            {
+              startTime: "2025-01-02T00:00:00Z",
+              endTime: "2025-01-02T01:00:00Z",
+              reason: "Cleaning",
+            },
+          ],
+        },
+        { periodNumber: 2, endTime: "2025-01-05T00:00:00Z" },
+      ],
+      session: {
+        isChastityOn: true,
+        chastityStartTimestamp: "2025-02-01T00:00:00Z",
+        requiredKeyholderDurationSeconds: 86400,
+      },
+      events: [
+        {
+          id: "e1",
+          eventTimestamp: "2025-01-02T12:00:00Z",
+          types: ["Edging", "Tease & Denial"],
+          notes: "Long evening",
+          durationSeconds: 1800,
+        },
+        {
+          id: "e2",
+          eventTimestamp: "2025-01-10T12:00:00Z",
+          types: [],
+          otherTypeDetail: "Shaving",
+        },
+        { id: "e3", types: ["Hygiene"] },
+      ],
+    };
+
+    it("should map history entries to ended sessions with rebuilt pauses", () => {
+      const { sessions } = mapLegacyExport(legacyExport, "user-1", now);
+      const [history, active] = sessions;
+
+      expect(sessions).toHaveLength(2);
+      expect(history).toMatchObject({
+        id: "legacy-session-user-1-1",
+        userId: "user-1",
+        startTime: new Date("2025-01-01T00:00:00Z"),
+        endTime: new Date("2025-01-03T00:00:00Z"),
+        accumulatedPauseTime: 3600,
+        endReason: "Travel",
+      });
+      expect(active).toMatchObject({
+        startTime: new Date("2025-02-01T00:00:00Z"),
+        goalDuration: 86400,
+      });
+      expect(active?.endTime).toBeUndefined();
+    });
+
+    it("should map events and link them to the session they occurred in", () => {
+      const { events } = mapLegacyExport(legacyExport, "user-1", now);
+
+      expect(events).toHaveLength(1);
+      expect(events[0]).toMatchObject({
+        id: "legacy-event-user-1-e1",
+        type: "Edging",
+        sessionId: "legacy-session-user-1-1",
+        details: {
+          duration: 1800,
+          notes: "Long evening",
+          tags: ["Tease & Denial"],
+        },
+      });
+    });
+
+    it("should give each importing account its own ids", () => {
+      const first = mapLegacyExport(legacyExport, "user-1", now);
+      const second = mapLegacyExport(legacyExport, "user-2", now);
+
+      const ids = [first, second].flatMap(({ sessions, events }) =>
+        [...sessions, ...events].map((row) => row.id),
+      );
+      expect(new Set(ids).size).toBe(ids.length);
+    });
+
+    it("should report a per-record summary with skip reasons", () => {
+      const { summary } = mapLegacyExport(legacyExport, "user-1", now);
+
+      expect(summary.sessions).toEqual({ imported: 2, skipped: 1 });
+      expect(summary.events).toEqual({ imported: 1, skipped: 2 });
+      expect(summary.records).toContainEqual({
+        kind: "session",
+        sourceId: "2",
+        status: "skipped",
+        reason: "Missing or invalid start time",
+      });
+      expect(summary.records).toContainEqual({
+        kind: "event",
+        sourceId: "e2",
+        status: "skipped",
+        reason: "Unmappable event type: Shaving",
+      });
+      expect(summary.records).toContainEqual({
+        kind: "event",
+        sourceId: "e3",
+        status: "skipped",
+        reason: "Missing or invalid timestamp",
+      });
+    });
+  });
+});
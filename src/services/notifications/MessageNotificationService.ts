@@ -0,0 +1,64 @@
+/**
+ * Message Notification Service
+ * Notifies relationship participants of new messages in their thread
+ */
+import { useNotificationStore } from "@/stores/notificationStore";
+import { serviceLogger } from "@/utils/logging";
+import type { BaseNotificationParams } from "./NotificationService";
+
+const logger = serviceLogger("MessageNotificationService");
+
+export interface MessageReceivedParams extends BaseNotificationParams {
+  relationshipId: string;
+  messageId: string;
+  senderRole: "keyholder" | "submissive";
+  preview: string;
+  hasAttachments: boolean;
+}
+
+/** Longest message preview shown in a notification */
+const PREVIEW_LENGTH = 80;
+
+export class MessageNotificationService {
+  /**
+   * Notify a participant of a new message from the other side
+   */
+  static async notifyMessageReceived(
+    params: MessageReceivedParams,
+  ): Promise<string | null> {
+    try {
+      const preview =
+        params.preview.length > PREVIEW_LENGTH
+          ? `${params.preview.slice(0, PREVIEW_LENGTH - 3)}...`
+          : params.preview || "Sent a photo";
+
+      logger.info("Sending message received notification", {
+        messageId: params.messageId,
+        userId: params.userId,
+      });
+
+      const notificationId = useNotificationStore.getState().addNotification({
+        type: "info",
+        priority: "medium",
+        title: `New message from your ${params.senderRole}`,
+        message: params.hasAttachments ? `${preview} 📎` : preview,
+        duration: 6000,
+        metadata: {
+          relationshipId: params.relationshipId,
+          messageId: params.messageId,
+          link:
+            params.senderRole === "keyholder"
+              ? "/chastity-tracking"
+              : "/keyholder",
+          type: "keyholder_message",
+          ...params.metadata,
+        },
+      });
+
+      return notificationId;
+    } catch (error) {
+      logger.error("Failed to send message received notification", { error });
+      return null;
+    }
+  }
+}
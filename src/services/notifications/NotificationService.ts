@@ -21,6 +21,7 @@ export interface BaseNotificationParams {
 export interface SessionEndingSoonParams extends BaseNotificationParams {
   sessionId: string;
   minutesRemaining: number;
+  isTimerHidden?: boolean; // Hidden-timer sessions don't warn the submissive
 }
 
 export interface SessionCompletedParams extends BaseNotificationParams {
@@ -113,11 +114,20 @@ export class NotificationService {
 
   /**
    * Notify submissive that session is ending soon (5 min warning)
+   * Skipped while the session's remaining time is hidden from them
    */
   static async notifySessionEndingSoon(
     params: SessionEndingSoonParams,
   ): Promise<string | null> {
     try {
+      if (params.isTimerHidden) {
+        logger.debug("Skipping session ending soon notification", {
+          sessionId: params.sessionId,
+          reason: "timer hidden",
+        });
+        return null;
+      }
+
       logger.info("Sending session ending soon notification", {
         sessionId: params.sessionId,
         userId: params.userId,
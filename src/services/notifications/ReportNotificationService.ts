@@ -0,0 +1,53 @@
+/**
+ * Report Notification Service
+ * Tells the owner of a report schedule that a scheduled run is ready
+ */
+import { useNotificationStore } from "@/stores/notificationStore";
+import { serviceLogger } from "@/utils/logging";
+import type { BaseNotificationParams } from "./NotificationService";
+
+const logger = serviceLogger("ReportNotificationService");
+
+export interface ScheduledReportReadyParams extends BaseNotificationParams {
+  reportId: string;
+  reportName: string;
+  scheduleId: string;
+  isWearerReport: boolean; // Covers someone else's data, e.g. a keyholder's weekly summary
+}
+
+export class ReportNotificationService {
+  /**
+   * Notify the schedule owner that a scheduled report was generated
+   */
+  static async notifyScheduledReportReady(
+    params: ScheduledReportReadyParams,
+  ): Promise<string | null> {
+    try {
+      logger.info("Sending scheduled report notification", {
+        reportId: params.reportId,
+        userId: params.userId,
+      });
+
+      const notificationId = useNotificationStore.getState().addNotification({
+        type: "info",
+        priority: "low",
+        title: "Scheduled Report Ready",
+        message: params.isWearerReport
+          ? `Your submissive's ${params.reportName} is ready`
+          : `Your ${params.reportName} is ready`,
+        duration: 6000,
+        metadata: {
+          reportId: params.reportId,
+          scheduleId: params.scheduleId,
+          type: "scheduled_report",
+          ...params.metadata,
+        },
+      });
+
+      return notificationId;
+    } catch (error) {
+      logger.error("Failed to send scheduled report notification", { error });
+      return null;
+    }
+  }
+}
@@ -32,5 +32,11 @@ export type {
   AchievementUnlockedParams,
 } from "./NotificationService";
 
+export { MessageNotificationService } from "./MessageNotificationService";
+export type { MessageReceivedParams } from "./MessageNotificationService";
+
+export { ReportNotificationService } from "./ReportNotificationService";
+export type { ScheduledReportReadyParams } from "./ReportNotificationService";
+
 export { FCMService } from "./FCMService";
 export type { FCMServiceConfig } from "./FCMService";
@@ -23,8 +23,17 @@ import {
   DBReleaseRequest,
   // User stats type
   DBUserStats,
+  // Rule violation type
+  DBRuleViolation,
+  // Time adjustment type
+  DBTimeAdjustment,
 } from "@/types/database";
 import { KeyholderRule } from "@/types/core";
+import type { DBVerification } from "@/types/verification";
+import type { DBMessage } from "@/types/messages";
+import type { DBAuditEntry } from "@/types/security";
+import type { DBReportSchedule } from "@/types/reports";
+import type { DBChallenge, DBSeasonProgress } from "@/types/gamification";
 import { serviceLogger } from "@/utils/logging";
 
 const logger = serviceLogger("ChastityDB");
@@ -56,6 +65,30 @@ export class ChastityDB extends Dexie {
   // User stats table
   userStats!: Table<DBUserStats>;
 
+  // Rule violations table
+  ruleViolations!: Table<DBRuleViolation>;
+
+  // Time adjustment ledger table
+  timeAdjustments!: Table<DBTimeAdjustment>;
+
+  // Proof-of-lock verification table
+  verifications!: Table<DBVerification>;
+
+  // Relationship message threads
+  messages!: Table<DBMessage>;
+
+  // Append-only, hash-chained audit log
+  auditLog!: Table<DBAuditEntry>;
+
+  // Report templates run on a schedule
+  reportSchedules!: Table<DBReportSchedule>;
+
+  // Gamification challenges the user has accepted
+  challenges!: Table<DBChallenge>;
+
+  // XP and claimed rewards per user per season
+  seasonProgress!: Table<DBSeasonProgress>;
+
   // Emergency PINs table
   emergencyPins!: Table<{
     userId: string;
@@ -174,6 +207,68 @@ export class ChastityDB extends Dexie {
         "&id, userId, totalPoints, tasksCompleted, syncStatus, lastModified",
     });
 
+    // Version 9: Add rule violations table
+    this.version(9).stores({
+      // Violations detected by the rule engine
+      ruleViolations:
+        "&id, userId, keyholderUserId, ruleId, [userId+occurredAt], occurredAt, detectedAt, syncStatus, lastModified",
+    });
+
+    // Version 10: Add time adjustment ledger
+    this.version(10).stores({
+      // Lock time added or removed per session
+      timeAdjustments:
+        "&id, userId, sessionId, [source+sourceId], createdAt, syncStatus, lastModified",
+    });
+
+    // Version 11: Add proof-of-lock verifications
+    this.version(11).stores({
+      // Photo verification requests and their review state
+      verifications:
+        "&id, userId, sessionId, status, requestedAt, dueAt, syncStatus, lastModified",
+    });
+
+    // Version 12: Add keyholder messaging
+    this.version(12).stores({
+      // One thread per relationship, ordered by sentAt
+      messages:
+        "&id, userId, relationshipId, keyholderUserId, submissiveUserId, [relationshipId+sentAt], syncStatus, lastModified",
+    });
+
+    // Version 13: Add persistent audit log
+    this.version(13).stores({
+      // One hash chain per user; the unique sequence index rejects forks
+      auditLog:
+        "&id, userId, &[userId+sequence], [userId+timestamp], action, category, syncStatus, lastModified",
+    });
+
+    // Version 14: Index release request approvers
+    this.version(14).stores({
+      // Each keyholder in approverUserIds sees the request as pending
+      releaseRequests:
+        "&id, submissiveUserId, keyholderUserId, *approverUserIds, sessionId, [keyholderUserId+status], [sessionId+status], status, requestedAt, syncStatus, lastModified",
+    });
+
+    // Version 15: Add scheduled reports
+    this.version(15).stores({
+      // Due schedules are found per owner by nextRun
+      reportSchedules:
+        "&id, userId, subjectUserId, [userId+nextRun], syncStatus, lastModified",
+    });
+
+    // Version 16: Add accepted challenges
+    this.version(16).stores({
+      // Progress is re-measured for each user's active challenges
+      challenges:
+        "&id, userId, challengeId, [userId+status], [userId+challengeId], endDate, syncStatus, lastModified",
+    });
+
+    // Version 17: Add season progress
+    this.version(17).stores({
+      // One row per user and season, keyed `${userId}:${seasonId}`
+      seasonProgress: "&id, userId, seasonId, syncStatus, lastModified",
+    });
+
     // Add hooks for automatic timestamp and sync status updates
     this.sessions.hook(
       "creating",
@@ -566,6 +661,207 @@ export class ChastityDB extends Dexie {
       },
     );
 
+    // Time adjustment table hooks
+    this.timeAdjustments.hook(
+      "creating",
+      (
+        _primKey: number | string,
+        obj: DBTimeAdjustment,
+        _trans?: Transaction,
+      ) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+        logger.debug("Creating time adjustment", {
+          id: obj.id,
+          sessionId: obj.sessionId,
+        });
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.timeAdjustments as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBTimeAdjustment>,
+        _primKey: number | string,
+        _obj?: DBTimeAdjustment,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Verification table hooks
+    this.verifications.hook(
+      "creating",
+      (
+        _primKey: number | string,
+        obj: DBVerification,
+        _trans?: Transaction,
+      ) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+        logger.debug("Creating verification", {
+          id: obj.id,
+          sessionId: obj.sessionId,
+        });
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.verifications as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBVerification>,
+        _primKey: number | string,
+        _obj?: DBVerification,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Message table hooks
+    this.messages.hook(
+      "creating",
+      (_primKey: number | string, obj: DBMessage, _trans?: Transaction) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+        logger.debug("Creating message", {
+          id: obj.id,
+          relationshipId: obj.relationshipId,
+        });
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.messages as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBMessage>,
+        _primKey: number | string,
+        _obj?: DBMessage,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Audit entries are append-only, so there is no updating hook
+    this.auditLog.hook(
+      "creating",
+      (_primKey: number | string, obj: DBAuditEntry, _trans?: Transaction) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Report schedule table hooks
+    this.reportSchedules.hook(
+      "creating",
+      (
+        _primKey: number | string,
+        obj: DBReportSchedule,
+        _trans?: Transaction,
+      ) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.reportSchedules as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBReportSchedule>,
+        _primKey: number | string,
+        _obj?: DBReportSchedule,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Challenge table hooks
+    this.challenges.hook(
+      "creating",
+      (_primKey: number | string, obj: DBChallenge, _trans?: Transaction) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.challenges as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBChallenge>,
+        _primKey: number | string,
+        _obj?: DBChallenge,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
+    // Season progress table hooks
+    this.seasonProgress.hook(
+      "creating",
+      (
+        _primKey: number | string,
+        obj: DBSeasonProgress,
+        _trans?: Transaction,
+      ) => {
+        obj.lastModified = new Date();
+        if (!obj.syncStatus) {
+          obj.syncStatus = "pending";
+        }
+      },
+    );
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (this.seasonProgress as any).hook(
+      "updating",
+      (
+        modifications: Partial<DBSeasonProgress>,
+        _primKey: number | string,
+        _obj?: DBSeasonProgress,
+        _trans?: Transaction,
+      ) => {
+        modifications.lastModified = new Date();
+        if (!modifications.syncStatus) {
+          modifications.syncStatus = "pending";
+        }
+      },
+    );
+
     // Global error handler
     this.on("ready", () => {
       logger.info("ChastityOS database ready", {
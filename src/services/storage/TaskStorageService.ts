@@ -78,6 +78,26 @@ export class TaskStorageService {
     file: File,
     _onProgress?: (progress: UploadProgress) => void,
   ): Promise<UploadResult> {
+    try {
+      return await this.uploadImage(
+        file,
+        `chastityos/tasks/${userId}/${taskId}`,
+      );
+    } catch (error) {
+      logger.error("Failed to upload evidence", {
+        error: error as Error,
+        taskId,
+        userId,
+        fileName: file.name,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Validate and upload an image to a Cloudinary folder
+   */
+  static async uploadImage(file: File, folder: string): Promise<UploadResult> {
     // Check configuration
     if (!isCloudinaryConfigured()) {
       throw new Error(
@@ -92,72 +112,59 @@ export class TaskStorageService {
     }
 
     const config = getCloudinaryConfig();
-    const folder = `chastityos/tasks/${userId}/${taskId}`;
 
-    try {
-      logger.info("Starting file upload", {
-        taskId,
-        userId,
-        fileName: file.name,
-        fileSize: file.size,
-        fileType: file.type,
-      });
+    logger.info("Starting file upload", {
+      folder,
+      fileName: file.name,
+      fileSize: file.size,
+      fileType: file.type,
+    });
 
-      // Create form data
-      const formData = new FormData();
-      formData.append("file", file);
-      formData.append("upload_preset", config.uploadPreset);
-      formData.append("folder", folder);
-      formData.append("resource_type", "image");
-
-      // Upload to Cloudinary
-      const response = await fetch(
-        `https://api.cloudinary.com/v1_1/${config.cloudName}/image/upload`,
-        {
-          method: "POST",
-          body: formData,
-        },
-      );
+    // Create form data
+    const formData = new FormData();
+    formData.append("file", file);
+    formData.append("upload_preset", config.uploadPreset);
+    formData.append("folder", folder);
+    formData.append("resource_type", "image");
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({}));
-        logger.error("Upload failed", {
-          status: response.status,
-          error: errorData,
-        });
-        throw new Error(
-          errorData.error?.message ||
-            `Upload failed with status ${response.status}`,
-        );
-      }
-
-      const result = await response.json();
+    // Upload to Cloudinary
+    const response = await fetch(
+      `https://api.cloudinary.com/v1_1/${config.cloudName}/image/upload`,
+      {
+        method: "POST",
+        body: formData,
+      },
+    );
 
-      logger.info("Upload successful", {
-        taskId,
-        userId,
-        publicId: result.public_id,
-        url: result.secure_url,
-        bytes: result.bytes,
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      logger.error("Upload failed", {
+        status: response.status,
+        error: errorData,
       });
-
-      return {
-        url: result.secure_url,
-        publicId: result.public_id,
-        width: result.width,
-        height: result.height,
-        format: result.format,
-        bytes: result.bytes,
-      };
-    } catch (error) {
-      logger.error("Failed to upload evidence", {
-        error: error as Error,
-        taskId,
-        userId,
-        fileName: file.name,
-      });
-      throw error;
+      throw new Error(
+        errorData.error?.message ||
+          `Upload failed with status ${response.status}`,
+      );
     }
+
+    const result = await response.json();
+
+    logger.info("Upload successful", {
+      folder,
+      publicId: result.public_id,
+      url: result.secure_url,
+      bytes: result.bytes,
+    });
+
+    return {
+      url: result.secure_url,
+      publicId: result.public_id,
+      width: result.width,
+      height: result.height,
+      format: result.format,
+      bytes: result.bytes,
+    };
   }
 
   /**
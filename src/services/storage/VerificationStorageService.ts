@@ -0,0 +1,70 @@
+/**
+ * Verification Storage Service
+ * Stores proof-of-lock photos on Cloudinary, or on the device when Cloudinary
+ * is not configured
+ */
+import { isCloudinaryConfigured } from "./cloudinaryConfig";
+import { TaskStorageService } from "./TaskStorageService";
+import type { VerificationPhotoStorage } from "@/types/verification";
+import { compressImage } from "@/utils/imageCompression";
+import { serviceLogger } from "@/utils/logging";
+
+const logger = serviceLogger("VerificationStorageService");
+
+// Locally stored photos live in IndexedDB, so keep them small
+const LOCAL_PHOTO_MAX_MB = 0.5;
+
+export interface StoredVerificationPhoto {
+  url: string;
+  storage: VerificationPhotoStorage;
+}
+
+const readAsDataUrl = (file: File): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result));
+    reader.onerror = () =>
+      reject(reader.error ?? new Error("Failed to read photo"));
+    reader.readAsDataURL(file);
+  });
+
+export class VerificationStorageService {
+  /**
+   * Store a verification photo and return where it can be viewed
+   */
+  static async storePhoto(
+    verificationId: string,
+    userId: string,
+    file: File,
+  ): Promise<StoredVerificationPhoto> {
+    const validation = TaskStorageService.validateFile(file);
+    if (!validation.valid) {
+      throw new Error(validation.error);
+    }
+
+    if (isCloudinaryConfigured()) {
+      const result = await TaskStorageService.uploadImage(
+        file,
+        `chastityos/verifications/${userId}/${verificationId}`,
+      );
+      return { url: result.url, storage: "cloudinary" };
+    }
+
+    const { file: compressed } = await compressImage(file, {
+      maxSizeMB: LOCAL_PHOTO_MAX_MB,
+      fileType: "image/jpeg",
+    });
+    logger.info("Cloudinary not configured, storing photo locally", {
+      verificationId,
+      bytes: compressed.size,
+    });
+    return { url: await readAsDataUrl(compressed), storage: "local" };
+  }
+
+  /**
+   * Whether photos leave the device
+   */
+  static getStorageMode(): VerificationPhotoStorage {
+    return isCloudinaryConfigured() ? "cloudinary" : "local";
+  }
+}
@@ -0,0 +1,233 @@
+/**
+ * Audit Log Data Synchronization Service
+ * Shares the wearer's audit chain with their keyholders under the
+ * `adminRelationships/{relationshipId}/auditLog` collection. Keyholders keep
+ * the head they last verified, so a wearer who trims or rewrites their chain
+ * is caught at the next sync.
+ */
+import { serviceLogger } from "@/utils/logging";
+import {
+  auditLogDBService,
+  getAuditAnchorKey,
+} from "@/services/database/AuditLogDBService";
+import { db } from "@/services/storage/ChastityDB";
+import { FirebaseSyncCore } from "./FirebaseSyncCore";
+import type { DBBase, SyncOptions, SyncResult } from "@/types/database";
+import type { DBAuditEntry } from "@/types/security";
+import { verifyAuditChain } from "@/utils/security/auditChain";
+import { collection, doc, getDocs, query, where } from "firebase/firestore";
+
+const logger = serviceLogger("AuditLogDataSync");
+
+interface LinkedRelationship {
+  id: string;
+  wearerId: string;
+}
+
+export class AuditLogDataSync extends FirebaseSyncCore {
+  private readonly collectionName = "auditLog";
+
+  constructor() {
+    super();
+    logger.info("AuditLogDataSync initialized");
+  }
+
+  async syncCollection(
+    userId: string,
+    _options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    if (this.isSyncing) {
+      throw new Error("Audit log sync already in progress");
+    }
+
+    await this.validateUser(userId);
+    this.validateConnectivity();
+
+    this.isSyncing = true;
+    const result = this.initializeSyncResult();
+
+    try {
+      this.logSyncOperation("Starting sync", this.collectionName, userId);
+
+      const { asWearer, asKeyholder } = await this.getRelationships(userId);
+      await this.uploadLocalChanges(userId, asWearer, result);
+      for (const relationship of asKeyholder) {
+        await this.downloadChain(userId, relationship, result);
+      }
+
+      this.logSyncOperation(
+        "Completed sync",
+        this.collectionName,
+        userId,
+        result.operations.uploaded + result.operations.downloaded,
+      );
+    } catch (error) {
+      result.success = false;
+      result.error = error as Error;
+      logger.error("Audit log sync failed", {
+        error: error as Error,
+        userId,
+      });
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return result;
+  }
+
+  async getPendingDocs(userId: string): Promise<DBBase[]> {
+    return auditLogDBService.getPendingSync(userId);
+  }
+
+  async markDocsAsSynced(ids: string[]): Promise<void> {
+    await auditLogDBService.bulkMarkAsSynced(ids);
+  }
+
+  /**
+   * Replace the local copy of each user's chain in docs, which must hold
+   * whole chains (see downloadChain)
+   */
+  async applyRemoteChanges(docs: DBBase[], result?: SyncResult): Promise<void> {
+    const byUser = new Map<string, DBAuditEntry[]>();
+    for (const entry of docs as DBAuditEntry[]) {
+      byUser.set(entry.userId, [...(byUser.get(entry.userId) ?? []), entry]);
+    }
+    for (const [userId, chain] of byUser) {
+      await auditLogDBService.replaceChain(userId, chain);
+      if (result) this.updateSyncResult(result, "downloaded", chain.length);
+    }
+  }
+
+  /**
+   * Upload the wearer's new entries to every relationship they wear in.
+   * Entries go up JSON-encoded so dates hash the same after the round trip.
+   */
+  private async uploadLocalChanges(
+    userId: string,
+    relationships: LinkedRelationship[],
+    result: SyncResult,
+  ): Promise<void> {
+    const pending = await auditLogDBService.getPendingSync(userId);
+    if (pending.length === 0 || relationships.length === 0) return;
+
+    this.logSyncOperation(
+      "Uploading changes",
+      this.collectionName,
+      userId,
+      pending.length,
+    );
+
+    const { firestore, batch } = await this.createBatch();
+    for (const relationship of relationships) {
+      for (const entry of pending) {
+        const docRef = doc(
+          firestore,
+          `adminRelationships/${relationship.id}/${this.collectionName}`,
+          entry.id,
+        );
+        batch.set(
+          docRef,
+          JSON.parse(JSON.stringify({ ...entry, syncStatus: "synced" })),
+        );
+      }
+    }
+
+    await batch.commit();
+    await this.markDocsAsSynced(pending.map((entry) => entry.id));
+    this.updateSyncResult(result, "uploaded", pending.length);
+  }
+
+  /**
+   * Fetch a wearer's whole chain and keep it only if it still contains the
+   * head this device verified last time
+   */
+  private async downloadChain(
+    userId: string,
+    relationship: LinkedRelationship,
+    result: SyncResult,
+  ): Promise<void> {
+    const { firestore } = await this.createBatch();
+    const snapshot = await getDocs(
+      collection(
+        firestore,
+        `adminRelationships/${relationship.id}/${this.collectionName}`,
+      ),
+    );
+    const chain = snapshot.docs
+      .map((docSnap) => this.toEntry(this.snapshotToDBBase(docSnap)))
+      .filter((entry) => entry.userId === relationship.wearerId)
+      .sort((a, b) => a.sequence - b.sequence);
+    if (chain.length === 0) return;
+
+    const anchorKey = getAuditAnchorKey(relationship.wearerId);
+    const syncMeta = await db.syncMeta.get(anchorKey);
+    const verification = await verifyAuditChain(chain, syncMeta?.auditHead);
+    if (!verification.valid) {
+      logger.warn(
+        "Wearer's audit chain failed verification, keeping last copy",
+        {
+          userId,
+          wearerId: relationship.wearerId,
+          issues: verification.issues,
+        },
+      );
+      return;
+    }
+
+    this.logSyncOperation(
+      "Downloaded changes",
+      this.collectionName,
+      userId,
+      chain.length,
+    );
+    await this.applyRemoteChanges(chain, result);
+
+    const head = chain[chain.length - 1]!;
+    await db.syncMeta.put({
+      collection: anchorKey,
+      lastSync: new Date(),
+      pendingOperations: [],
+      conflicts: [],
+      totalDocuments: chain.length,
+      lastFullSync: syncMeta?.lastFullSync,
+      auditHead: { sequence: head.sequence, hash: head.hash },
+    });
+  }
+
+  /**
+   * Relationships the user takes part in that haven't ended, by side
+   */
+  private async getRelationships(userId: string): Promise<{
+    asWearer: LinkedRelationship[];
+    asKeyholder: LinkedRelationship[];
+  }> {
+    const { firestore } = await this.createBatch();
+    const relationships = collection(firestore, "adminRelationships");
+    const [asKeyholder, asWearer] = await Promise.all([
+      getDocs(query(relationships, where("keyholderId", "==", userId))),
+      getDocs(query(relationships, where("wearerId", "==", userId))),
+    ]);
+    const toLinked = (docs: typeof asWearer.docs) =>
+      docs
+        .filter((docSnap) => docSnap.data().status !== "terminated")
+        .map((docSnap) => ({
+          id: docSnap.id,
+          wearerId: docSnap.data().wearerId as string,
+        }));
+    return {
+      asWearer: toLinked(asWearer.docs),
+      asKeyholder: toLinked(asKeyholder.docs),
+    };
+  }
+
+  private toEntry(data: DBBase): DBAuditEntry {
+    const raw = data as unknown as Record<string, unknown>;
+    return {
+      ...(data as DBAuditEntry),
+      timestamp: new Date(raw.timestamp as string),
+      lastModified: new Date(raw.lastModified as string),
+    };
+  }
+}
+
+export const auditLogDataSync = new AuditLogDataSync();
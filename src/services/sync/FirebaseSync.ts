@@ -23,6 +23,9 @@ import { eventDataSync } from "./EventDataSync";
 import { taskDataSync } from "./TaskDataSync";
 import { achievementDataSync } from "./AchievementDataSync";
 import { relationshipDataSync } from "./RelationshipDataSync";
+import { messageDataSync } from "./MessageDataSync";
+import { auditLogDataSync } from "./AuditLogDataSync";
+import { ruleViolationDataSync } from "./RuleViolationDataSync";
 import { syncConflictResolver } from "./SyncConflictResolver";
 import { NotificationService } from "@/services/notifications";
 
@@ -91,6 +94,9 @@ export class FirebaseSync {
         "tasks",
         "goals",
         "settings",
+        "messages",
+        "auditLog",
+        "ruleViolations",
       ];
 
       // Sync each collection using dedicated services
@@ -192,6 +198,12 @@ export class FirebaseSync {
         return await achievementDataSync.syncCollection(userId, options);
       case "relationships":
         return await relationshipDataSync.syncCollection(userId, options);
+      case "messages":
+        return await messageDataSync.syncCollection(userId, options);
+      case "auditLog":
+        return await auditLogDataSync.syncCollection(userId, options);
+      case "ruleViolations":
+        return await ruleViolationDataSync.syncCollection(userId, options);
       default:
         logger.warn(`Unknown collection: ${collectionName}`);
         return {
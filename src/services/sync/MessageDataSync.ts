@@ -0,0 +1,279 @@
+/**
+ * Message Data Synchronization Service
+ * Syncs relationship message threads, stored under the shared
+ * `adminRelationships/{relationshipId}/messages` collection so both
+ * participants read and write the same thread
+ */
+import { serviceLogger } from "@/utils/logging";
+import { db, messageDBService, settingsDBService } from "@/services/database";
+import { MessageNotificationService } from "@/services/notifications";
+import { FirebaseSyncCore } from "./FirebaseSyncCore";
+import type { DBBase, SyncOptions, SyncResult } from "@/types/database";
+import type { DBMessage } from "@/types/messages";
+import type { Firestore, Timestamp } from "firebase/firestore";
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+
+const logger = serviceLogger("MessageDataSync");
+
+export class MessageDataSync extends FirebaseSyncCore {
+  private readonly collectionName = "messages";
+
+  constructor() {
+    super();
+    logger.info("MessageDataSync initialized");
+  }
+
+  async syncCollection(
+    userId: string,
+    _options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    if (this.isSyncing) {
+      throw new Error("Message sync already in progress");
+    }
+
+    await this.validateUser(userId);
+    this.validateConnectivity();
+
+    this.isSyncing = true;
+    const result = this.initializeSyncResult();
+
+    try {
+      this.logSyncOperation("Starting sync", this.collectionName, userId);
+
+      await this.uploadLocalChanges(userId, result);
+      for (const relationshipId of await this.getRelationshipIds(userId)) {
+        await this.downloadThread(userId, relationshipId, result);
+      }
+
+      this.logSyncOperation(
+        "Completed sync",
+        this.collectionName,
+        userId,
+        result.operations.uploaded + result.operations.downloaded,
+      );
+    } catch (error) {
+      result.success = false;
+      result.error = error as Error;
+      logger.error("Message sync failed", {
+        error: error as Error,
+        userId,
+      });
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return result;
+  }
+
+  async getPendingDocs(userId: string): Promise<DBBase[]> {
+    return messageDBService.getPendingForParticipant(userId);
+  }
+
+  async markDocsAsSynced(ids: string[]): Promise<void> {
+    await messageDBService.bulkMarkAsSynced(ids);
+  }
+
+  async applyRemoteChanges(docs: DBBase[], result?: SyncResult): Promise<void> {
+    await this.mergeRemoteMessages(docs as DBMessage[], result);
+  }
+
+  /**
+   * Messages are append-only apart from the read receipt, so remote copies
+   * never conflict with local ones
+   *
+   * @returns Messages that were new to this device
+   */
+  private async mergeRemoteMessages(
+    messages: DBMessage[],
+    result?: SyncResult,
+  ): Promise<DBMessage[]> {
+    const added: DBMessage[] = [];
+    for (const message of messages) {
+      const local = await messageDBService.findById(message.id);
+      if (!local) {
+        await db.messages.put({ ...message, syncStatus: "synced" });
+        added.push(message);
+      } else if (!local.readAt && message.readAt) {
+        await db.messages.update(message.id, {
+          readAt: message.readAt,
+          syncStatus: "synced",
+        });
+      } else {
+        continue;
+      }
+      if (result) this.updateSyncResult(result, "downloaded");
+    }
+    return added;
+  }
+
+  private async uploadLocalChanges(
+    userId: string,
+    result: SyncResult,
+  ): Promise<void> {
+    const pending = await messageDBService.getPendingForParticipant(userId);
+    if (pending.length === 0) return;
+
+    this.logSyncOperation(
+      "Uploading changes",
+      this.collectionName,
+      userId,
+      pending.length,
+    );
+
+    // lastModified is stamped by the server so downloads can page on it
+    // without trusting either device's clock
+    const { firestore, batch } = await this.createBatch();
+    for (const message of pending) {
+      const docRef = this.getThreadDocRef(
+        firestore,
+        message.relationshipId,
+        message.id,
+      );
+      // The recipient may only set the read receipt
+      const payload =
+        message.userId === userId
+          ? {
+              ...message,
+              syncStatus: "synced",
+              lastModified: serverTimestamp(),
+            }
+          : { readAt: message.readAt ?? null, lastModified: serverTimestamp() };
+      batch.set(docRef, payload, { merge: true });
+      this.updateSyncResult(result, "uploaded");
+    }
+
+    await batch.commit();
+    await this.markDocsAsSynced(pending.map((message) => message.id));
+  }
+
+  /**
+   * Fetch what changed in a thread since the newest server timestamp this
+   * device has seen, so messages uploaded late are still picked up
+   */
+  private async downloadThread(
+    userId: string,
+    relationshipId: string,
+    result: SyncResult,
+  ): Promise<void> {
+    const { firestore } = await this.createBatch();
+    const metaKey = `${this.collectionName}:${relationshipId}`;
+    const syncMeta = await db.syncMeta.get(metaKey);
+    const lastSync = syncMeta ? syncMeta.lastSync : new Date(0);
+
+    const snapshot = await getDocs(
+      query(
+        collection(
+          firestore,
+          `adminRelationships/${relationshipId}/${this.collectionName}`,
+        ),
+        where("lastModified", ">", this.toFirestoreTimestamp(lastSync)),
+      ),
+    );
+    const remote = snapshot.docs.map((docSnap) =>
+      this.toMessage(this.snapshotToDBBase(docSnap)),
+    );
+
+    if (remote.length > 0) {
+      this.logSyncOperation(
+        "Downloaded changes",
+        this.collectionName,
+        userId,
+        remote.length,
+      );
+      const added = await this.mergeRemoteMessages(remote, result);
+      await this.notifyIncoming(
+        userId,
+        added.filter((message) => message.userId !== userId),
+      );
+    }
+
+    await db.syncMeta.put({
+      collection: metaKey,
+      lastSync: remote.reduce(
+        (latest, message) =>
+          message.lastModified > latest ? message.lastModified : latest,
+        lastSync,
+      ),
+      pendingOperations: [],
+      conflicts: [],
+      totalDocuments: (syncMeta?.totalDocuments ?? 0) + remote.length,
+      lastFullSync: syncMeta?.lastFullSync,
+    });
+  }
+
+  private async notifyIncoming(
+    userId: string,
+    messages: DBMessage[],
+  ): Promise<void> {
+    if (messages.length === 0) return;
+
+    const settings = await settingsDBService.getSettings(userId);
+    const preferences = settings?.notifications;
+    const enabled =
+      typeof preferences === "object"
+        ? preferences.enabled && preferences.keyholderMessages
+        : preferences !== false;
+    if (!enabled) return;
+
+    for (const message of messages) {
+      await MessageNotificationService.notifyMessageReceived({
+        userId,
+        relationshipId: message.relationshipId,
+        messageId: message.id,
+        senderRole: message.senderRole,
+        preview: message.text,
+        hasAttachments: (message.attachments?.length ?? 0) > 0,
+      });
+    }
+  }
+
+  /**
+   * Relationships the user takes part in, from either side
+   */
+  private async getRelationshipIds(userId: string): Promise<string[]> {
+    const { firestore } = await this.createBatch();
+    const relationships = collection(firestore, "adminRelationships");
+    const [asKeyholder, asWearer] = await Promise.all([
+      getDocs(query(relationships, where("keyholderId", "==", userId))),
+      getDocs(query(relationships, where("wearerId", "==", userId))),
+    ]);
+    return Array.from(
+      new Set([...asKeyholder.docs, ...asWearer.docs].map((d) => d.id)),
+    );
+  }
+
+  private getThreadDocRef(
+    firestore: Firestore,
+    relationshipId: string,
+    messageId: string,
+  ) {
+    return doc(
+      firestore,
+      `adminRelationships/${relationshipId}/${this.collectionName}`,
+      messageId,
+    );
+  }
+
+  private toMessage(data: DBBase): DBMessage {
+    const raw = data as unknown as Record<string, unknown>;
+    const toDate = (value: unknown) =>
+      value && typeof (value as Timestamp).toDate === "function"
+        ? this.fromFirestoreTimestamp(value as Timestamp)
+        : (value as Date | undefined);
+    return {
+      ...(data as DBMessage),
+      sentAt: toDate(raw.sentAt) as Date,
+      readAt: toDate(raw.readAt) ?? undefined,
+      lastModified: toDate(raw.lastModified) ?? new Date(),
+    };
+  }
+}
+
+export const messageDataSync = new MessageDataSync();
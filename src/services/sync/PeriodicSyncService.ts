@@ -5,6 +5,7 @@
 import { serviceLogger } from "@/utils/logging";
 import { db } from "@/firebase";
 import { collection, getDocs, query, limit, orderBy } from "firebase/firestore";
+import { ScheduledReportService } from "@/services/ScheduledReportService";
 
 // Type definitions for Periodic Sync API
 interface PeriodicSyncManager {
@@ -213,6 +214,9 @@ export class PeriodicSyncService {
       // Update badge count if needed
       await this.updateBadgeCount(updates);
 
+      // Run scheduled reports that came due since the last refresh
+      await this.runScheduledReports(userId);
+
       logger.info("Data refresh completed successfully");
     } catch (error) {
       logger.error("Failed to refresh app data", error);
@@ -334,6 +338,19 @@ export class PeriodicSyncService {
     }
   }
 
+  /**
+   * Run the user's due scheduled reports. A failed report never fails the
+   * refresh.
+   */
+  private async runScheduledReports(userId: string): Promise<void> {
+    try {
+      const reports = await ScheduledReportService.runDue(userId);
+      logger.debug(`Scheduled reports run: ${reports.length}`);
+    } catch (error) {
+      logger.error("Failed to run scheduled reports", error);
+    }
+  }
+
   /**
    * Get last sync time
    */
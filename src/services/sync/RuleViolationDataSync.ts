@@ -0,0 +1,211 @@
+/**
+ * Rule Violation Data Synchronization Service
+ * Rules are only evaluated on the wearer's device, so the violations it
+ * records are shared with the keyholder who set the rule under the
+ * `adminRelationships/{relationshipId}/ruleViolations` collection
+ */
+import { serviceLogger } from "@/utils/logging";
+import { ruleViolationDBService } from "@/services/database/RuleViolationDBService";
+import { FirebaseSyncCore } from "./FirebaseSyncCore";
+import type {
+  DBBase,
+  DBRuleViolation,
+  SyncOptions,
+  SyncResult,
+} from "@/types/database";
+import { collection, doc, getDocs, query, where } from "firebase/firestore";
+
+const logger = serviceLogger("RuleViolationDataSync");
+
+interface LinkedRelationship {
+  id: string;
+  keyholderId: string;
+  wearerId: string;
+}
+
+export class RuleViolationDataSync extends FirebaseSyncCore {
+  private readonly collectionName = "ruleViolations";
+
+  constructor() {
+    super();
+    logger.info("RuleViolationDataSync initialized");
+  }
+
+  async syncCollection(
+    userId: string,
+    _options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    if (this.isSyncing) {
+      throw new Error("Rule violation sync already in progress");
+    }
+
+    await this.validateUser(userId);
+    this.validateConnectivity();
+
+    this.isSyncing = true;
+    const result = this.initializeSyncResult();
+
+    try {
+      this.logSyncOperation("Starting sync", this.collectionName, userId);
+
+      const { asWearer, asKeyholder } = await this.getRelationships(userId);
+      await this.uploadLocalChanges(userId, asWearer, result);
+      for (const relationship of asKeyholder) {
+        await this.downloadViolations(userId, relationship, result);
+      }
+
+      this.logSyncOperation(
+        "Completed sync",
+        this.collectionName,
+        userId,
+        result.operations.uploaded + result.operations.downloaded,
+      );
+    } catch (error) {
+      result.success = false;
+      result.error = error as Error;
+      logger.error("Rule violation sync failed", {
+        error: error as Error,
+        userId,
+      });
+    } finally {
+      this.isSyncing = false;
+    }
+
+    return result;
+  }
+
+  async getPendingDocs(userId: string): Promise<DBBase[]> {
+    return ruleViolationDBService.getPendingSync(userId);
+  }
+
+  async markDocsAsSynced(ids: string[]): Promise<void> {
+    await ruleViolationDBService.bulkMarkAsSynced(ids);
+  }
+
+  async applyRemoteChanges(docs: DBBase[], result?: SyncResult): Promise<void> {
+    await ruleViolationDBService.mergeRemote(docs as DBRuleViolation[]);
+    if (result) this.updateSyncResult(result, "downloaded", docs.length);
+  }
+
+  /**
+   * Upload the wearer's new violations to the relationship with the
+   * keyholder whose rule was broken
+   */
+  private async uploadLocalChanges(
+    userId: string,
+    relationships: LinkedRelationship[],
+    result: SyncResult,
+  ): Promise<void> {
+    const pending = (await ruleViolationDBService.getPendingSync(
+      userId,
+    )) as DBRuleViolation[];
+    if (pending.length === 0 || relationships.length === 0) return;
+
+    this.logSyncOperation(
+      "Uploading changes",
+      this.collectionName,
+      userId,
+      pending.length,
+    );
+
+    const { firestore, batch } = await this.createBatch();
+    const uploaded: string[] = [];
+    for (const violation of pending) {
+      const relationship = relationships.find(
+        (linked) => linked.keyholderId === violation.keyholderUserId,
+      );
+      if (!relationship) continue;
+
+      const docRef = doc(
+        firestore,
+        `adminRelationships/${relationship.id}/${this.collectionName}`,
+        violation.id,
+      );
+      batch.set(
+        docRef,
+        JSON.parse(JSON.stringify({ ...violation, syncStatus: "synced" })),
+      );
+      uploaded.push(violation.id);
+    }
+    if (uploaded.length === 0) return;
+
+    await batch.commit();
+    await this.markDocsAsSynced(uploaded);
+    this.updateSyncResult(result, "uploaded", uploaded.length);
+  }
+
+  /**
+   * Fetch the violations a wearer recorded against this keyholder's rules
+   */
+  private async downloadViolations(
+    userId: string,
+    relationship: LinkedRelationship,
+    result: SyncResult,
+  ): Promise<void> {
+    const { firestore } = await this.createBatch();
+    const snapshot = await getDocs(
+      collection(
+        firestore,
+        `adminRelationships/${relationship.id}/${this.collectionName}`,
+      ),
+    );
+    const violations = snapshot.docs
+      .map((docSnap) => this.toViolation(this.snapshotToDBBase(docSnap)))
+      .filter(
+        (violation) =>
+          violation.userId === relationship.wearerId &&
+          violation.keyholderUserId === userId,
+      );
+    if (violations.length === 0) return;
+
+    this.logSyncOperation(
+      "Downloaded changes",
+      this.collectionName,
+      userId,
+      violations.length,
+    );
+    await this.applyRemoteChanges(violations, result);
+  }
+
+  /**
+   * Relationships the user takes part in that haven't ended, by side
+   */
+  private async getRelationships(userId: string): Promise<{
+    asWearer: LinkedRelationship[];
+    asKeyholder: LinkedRelationship[];
+  }> {
+    const { firestore } = await this.createBatch();
+    const relationships = collection(firestore, "adminRelationships");
+    const [asKeyholder, asWearer] = await Promise.all([
+      getDocs(query(relationships, where("keyholderId", "==", userId))),
+      getDocs(query(relationships, where("wearerId", "==", userId))),
+    ]);
+    const toLinked = (docs: typeof asWearer.docs) =>
+      docs
+        .filter((docSnap) => docSnap.data().status !== "terminated")
+        .map((docSnap) => ({
+          id: docSnap.id,
+          keyholderId: docSnap.data().keyholderId as string,
+          wearerId: docSnap.data().wearerId as string,
+        }));
+    return {
+      asWearer: toLinked(asWearer.docs),
+      asKeyholder: toLinked(asKeyholder.docs),
+    };
+  }
+
+  private toViolation(data: DBBase): DBRuleViolation {
+    const raw = data as unknown as Record<string, unknown>;
+    const toDate = (value: unknown) =>
+      value ? new Date(value as string) : undefined;
+    return {
+      ...(data as DBRuleViolation),
+      occurredAt: new Date(raw.occurredAt as string),
+      detectedAt: new Date(raw.detectedAt as string),
+      acknowledgedAt: toDate(raw.acknowledgedAt),
+      lastModified: new Date(raw.lastModified as string),
+    };
+  }
+}
+
+export const ruleViolationDataSync = new RuleViolationDataSync();
@@ -22,6 +22,12 @@ export {
   RelationshipDataSync,
   relationshipDataSync,
 } from "./RelationshipDataSync";
+export { MessageDataSync, messageDataSync } from "./MessageDataSync";
+export { AuditLogDataSync, auditLogDataSync } from "./AuditLogDataSync";
+export {
+  RuleViolationDataSync,
+  ruleViolationDataSync,
+} from "./RuleViolationDataSync";
 export {
   SyncConflictResolver,
   syncConflictResolver,
@@ -4,6 +4,7 @@
  */
 import { expect, afterEach } from "vitest";
 import { cleanup } from "@testing-library/react";
+import { webcrypto } from "node:crypto";
 
 // Extend Vitest's expect with testing library matchers
 // @ts-ignore - vitest globals
@@ -91,9 +92,11 @@ Object.defineProperty(window, "indexedDB", {
   value: indexedDBMock,
 });
 
-// Mock crypto.randomUUID for ID generation
+// Mock crypto.randomUUID for ID generation; keep real WebCrypto primitives
 Object.defineProperty(global, "crypto", {
   value: {
+    subtle: webcrypto.subtle,
+    getRandomValues: webcrypto.getRandomValues.bind(webcrypto),
     randomUUID: vi.fn(
       () => "mock-uuid-" + Math.random().toString(36).substr(2, 9),
     ),
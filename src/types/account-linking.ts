@@ -3,6 +3,7 @@
  * Types for the private keyholder-wearer account linking system
  */
 import { Timestamp } from "firebase/firestore";
+import type { KeyholderRole } from "./core";
 
 // ==================== LINK CODE TYPES ====================
 
@@ -37,6 +38,7 @@ export interface AdminRelationship {
   // Relationship metadata
   establishedAt: Timestamp;
   status: "active" | "paused" | "terminated";
+  role?: KeyholderRole; // Treated as primary when missing
 
   // Admin permissions - what keyholder can access/control
   permissions: AdminPermissions;
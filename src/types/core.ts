@@ -120,6 +120,8 @@ export interface TaskConsequence {
   type: "reward" | "punishment";
   description: string;
   points?: number;
+  duration?: number; // Chastity time added (positive) or removed (negative), in seconds
+  reroll?: boolean; // Re-roll a random session goal
 }
 
 export interface RecurringConfig {
@@ -203,12 +205,88 @@ export interface KeyholderRelationship {
   submissiveUserId: string;
   keyholderUserId: string;
   status: "pending" | "active" | "suspended" | "ended";
+  /** Missing on relationships created before multi-keyholder support */
+  role?: KeyholderRole;
   permissions: KeyholderPermissions;
   createdAt: Date;
   acceptedAt?: Date;
   endedAt?: Date;
 }
 
+/**
+ * A submissive has one primary keyholder and any number of secondaries.
+ * Secondaries start with a narrower permission set, e.g. they can assign
+ * tasks but not end sessions.
+ */
+export type KeyholderRole = "primary" | "secondary";
+
+/**
+ * Who has to approve a release request: any one approver, every approver,
+ * or only the primary keyholder
+ */
+export type ReleaseApprovalPolicy = "any" | "all" | "primary";
+
+/**
+ * One approver's decision on a release request
+ */
+export interface ReleaseRequestApproval {
+  keyholderUserId: string;
+  decision: "approved" | "denied";
+  respondedAt: Date;
+  response?: string;
+}
+
+/**
+ * Who decides a release request and what each approver answered
+ */
+export interface ReleaseApproverSet {
+  /** Older requests only have keyholderUserId */
+  approverUserIds?: string[];
+  approvalPolicy?: ReleaseApprovalPolicy;
+  approvals?: ReleaseRequestApproval[];
+}
+
+/**
+ * Release request lifecycle. A keyholder may answer a pending request with a
+ * counter-offer; the wearer accepts or declines it. Accepted delay and task
+ * offers become approved once their condition is met, while an accepted pause
+ * offer is settled once the pause ends.
+ */
+export type ReleaseRequestStatus =
+  | "pending"
+  | "countered"
+  | "accepted"
+  | "declined"
+  | "approved"
+  | "denied"
+  | "settled";
+
+/**
+ * What a keyholder asks for in return for release: wait until `releaseAt`,
+ * complete a task first, or take a pause instead of ending the session
+ */
+export type ReleaseCounterCondition =
+  | { type: "delay"; releaseAt: Date }
+  | { type: "task"; taskText: string; taskId?: string }
+  | { type: "pause"; pauseMinutes: number; startedAt?: Date };
+
+export interface ReleaseCounterOffer {
+  condition: ReleaseCounterCondition;
+  offeredBy: string; // Keyholder user ID
+  offeredAt: Date;
+  message?: string;
+  respondedAt?: Date; // When the wearer accepted or declined
+}
+
+/**
+ * Where a release request stands: the approvers' answers and any
+ * counter-offer the wearer is weighing
+ */
+export interface ReleaseNegotiation extends ReleaseApproverSet {
+  status: ReleaseRequestStatus;
+  counterOffer?: ReleaseCounterOffer;
+}
+
 export interface KeyholderPermissions {
   canLockSessions: boolean;
   canUnlockSessions: boolean;
@@ -219,6 +297,29 @@ export interface KeyholderPermissions {
   canSetRules: boolean;
 }
 
+/**
+ * Machine-checkable rule conditions, evaluated by the RuleEngine against
+ * sessions and events. Event types use the names stored on DBEvent.type.
+ */
+export type RuleCondition =
+  | { type: "max_pause_duration"; maxMinutes: number }
+  | { type: "daily_event"; eventType: string }
+  | { type: "forbidden_event"; eventType: string }
+  | HygieneWindowCondition;
+
+/**
+ * Recurring hygiene opening. The session is paused automatically when the
+ * window opens and must be resumed before it closes.
+ */
+export interface HygieneWindowCondition {
+  type: "hygiene_window";
+  startTime: string; // "HH:mm" in the submissive's timezone
+  durationMinutes: number;
+  daysOfWeek?: number[]; // 0 = Sunday; every day when omitted
+}
+
+export type RuleConditionType = RuleCondition["type"];
+
 export interface KeyholderRule {
   id: string;
   keyholderUserId: string;
@@ -227,6 +328,7 @@ export interface KeyholderRule {
   description: string;
   isActive: boolean;
   createdAt: Date;
+  conditions?: RuleCondition[];
   consequences?: TaskConsequence[];
   syncStatus: SyncStatus;
   lastModified: Date;
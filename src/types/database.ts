@@ -7,6 +7,10 @@ import type {
   AchievementCategory,
   AchievementDifficulty,
 } from "./achievements";
+import type { ReleaseNegotiation, RuleConditionType } from "./core";
+import type { RandomGoalRecord } from "./goals";
+import type { UnlockSchedule } from "./unlockSchedule";
+import type { VerificationSchedule } from "./verification";
 
 export type SyncStatus = "synced" | "pending" | "conflict";
 export type EventType = string;
@@ -67,8 +71,17 @@ export interface DBSession extends DBBase {
   emergencyNotes?: string; // Additional notes for emergency unlock
   hasLockCombination?: boolean; // True if lock combination was saved for this session
   emergencyPinUsed?: boolean; // True if emergency PIN was used to unlock this session
+  isTimerHidden?: boolean; // Remaining lock time is only shown to the keyholder
+  timerRevealMode?: TimerRevealMode; // When a hidden timer becomes visible to the submissive
+  timerRevealAfterHours?: number; // Hours into the session for "after_hours" reveal
+  randomGoal?: RandomGoalRecord; // Dice-roll goal, kept for keyholder audit
+  hygieneRelockMissedAt?: Date; // Relock deadline (hygiene window or granted pause) last missed
+  verificationSchedule?: VerificationSchedule; // Recurring proof-of-lock photo requests
+  unlockSchedule?: UnlockSchedule; // Keyholder-set earliest unlock, check-ins and silent release
 }
 
+export type TimerRevealMode = "never" | "after_hours" | "on_unlock";
+
 export interface DBEvent extends DBBase {
   sessionId?: string;
   type: EventType;
@@ -134,6 +147,7 @@ export interface DBTask extends DBBase {
     type: "reward" | "punishment";
     duration?: number; // Additional/reduced chastity time in seconds
     description?: string;
+    reroll?: boolean; // Re-roll a random session goal
   };
   isRecurring?: boolean;
   recurringConfig?: RecurringConfig;
@@ -170,6 +184,7 @@ export interface DBGoal extends DBBase {
   // Hardcore mode fields
   isHardcoreMode?: boolean; // True if this is a hardcore mode goal
   requiresEmergencyPin?: boolean; // True if emergency PIN is required for this goal
+  randomDuration?: RandomGoalRecord; // Set when the target was rolled from a range
 }
 
 export interface DBSettings extends DBBase {
@@ -209,6 +224,8 @@ export interface DBSettings extends DBBase {
     requireKeyholderApproval: boolean;
     defaultSessionGoal: number; // seconds
     hardcoreModeEnabled: boolean;
+    releaseApprovalPolicy?: ReleaseNegotiation["approvalPolicy"]; // "any" when unset
+    safetyReleaseHours?: number; // Keyholder silence before a penalty-free release; off when unset or 0
   };
   display: {
     language: string;
@@ -301,13 +318,12 @@ export type Task = DBTask;
  * Release Request Type
  * For "Beg for Release" workflow between submissive and keyholders
  */
-export interface DBReleaseRequest {
+export interface DBReleaseRequest extends ReleaseNegotiation {
   id: string;
   submissiveUserId: string;
-  keyholderUserId: string;
+  keyholderUserId: string; // Primary approver
   sessionId: string;
   requestedAt: Date;
-  status: "pending" | "approved" | "denied";
   approvedAt?: Date;
   deniedAt?: Date;
   reason?: string; // Submissive's reason for request
@@ -316,6 +332,53 @@ export interface DBReleaseRequest {
   lastModified: Date;
 }
 
+/**
+ * A broken keyholder rule detected by the RuleEngine.
+ * `userId` is the submissive; the id is derived from the rule and the
+ * offending record, so re-evaluating never records the same violation twice.
+ */
+export interface DBRuleViolation extends DBBase {
+  ruleId: string;
+  keyholderUserId: string;
+  ruleTitle: string;
+  conditionType: RuleConditionType;
+  description: string;
+  occurredAt: Date;
+  detectedAt: Date;
+  sessionId?: string;
+  eventId?: string;
+  timeAdded: number; // Seconds recorded in the time adjustment ledger
+  punishmentTaskIds: string[];
+  acknowledgedAt?: Date;
+}
+
+export type TimeAdjustmentSource =
+  | "task_approval"
+  | "task_rejection"
+  | "rule_violation"
+  | "keyholder"
+  | "reward"
+  | "verification_missed";
+
+/**
+ * Ledger entry changing the required lock time of a session.
+ * `seconds` is positive for added time and negative for removed time; the
+ * effective goal is the session's goalDuration plus all entries that have not
+ * been reversed.
+ */
+export interface DBTimeAdjustment extends DBBase {
+  sessionId: string;
+  source: TimeAdjustmentSource;
+  sourceId?: string; // Task, violation, etc. that caused the adjustment
+  seconds: number;
+  reason: string;
+  createdAt: Date;
+  createdBy: "submissive" | "keyholder" | "system";
+  reversedAt?: Date;
+  reversedBy?: string;
+  reversalReason?: string;
+}
+
 export interface SyncOperation {
   id: string;
   collection: string;
@@ -344,6 +407,8 @@ export interface DBSyncMeta {
   conflicts: ConflictRecord[];
   totalDocuments: number;
   lastFullSync?: Date;
+  /** Head of another user's audit chain last verified by this device */
+  auditHead?: { sequence: number; hash: string };
 }
 
 // Helper types for common query patterns
@@ -25,6 +25,7 @@ export enum SystemEventType {
   SESSION_PAUSE = "SESSION_PAUSE",
   SESSION_RESUME = "SESSION_RESUME",
   EMERGENCY_UNLOCK = "EMERGENCY_UNLOCK",
+  SAFETY_RELEASE = "SAFETY_RELEASE",
   PERSONAL_GOAL_SET = "PERSONAL_GOAL_SET",
   PERSONAL_GOAL_COMPLETED = "PERSONAL_GOAL_COMPLETED",
   PERSONAL_GOAL_REMOVED = "PERSONAL_GOAL_REMOVED",
@@ -36,6 +37,8 @@ export enum SystemEventType {
   KEYHOLDER_TASK_APPROVED = "KEYHOLDER_TASK_APPROVED",
   KEYHOLDER_TASK_REJECTED = "KEYHOLDER_TASK_REJECTED",
   SESSION_EDIT = "SESSION_EDIT",
+  RULE_VIOLATION = "RULE_VIOLATION",
+  VERIFICATION_MISSED = "VERIFICATION_MISSED",
 }
 
 // All possible event types
@@ -191,6 +194,10 @@ export const SYSTEM_EVENT_METADATA: Record<
     text: "Emergency Unlock Used",
     description: "Emergency unlock activated",
   },
+  [SystemEventType.SAFETY_RELEASE]: {
+    text: "Safety Release",
+    description: "Released without penalty after the keyholder was unreachable",
+  },
   [SystemEventType.PERSONAL_GOAL_SET]: {
     text: "Personal Goal Set",
     description: "New personal goal created",
@@ -235,6 +242,14 @@ export const SYSTEM_EVENT_METADATA: Record<
     text: "Session Edited",
     description: "Session details modified",
   },
+  [SystemEventType.RULE_VIOLATION]: {
+    text: "Rule Violation",
+    description: "Keyholder rule broken",
+  },
+  [SystemEventType.VERIFICATION_MISSED]: {
+    text: "Verification Missed",
+    description: "No proof-of-lock photo before the deadline",
+  },
 };
 
 // Session event interface
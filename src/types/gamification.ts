@@ -1,6 +1,7 @@
 /**
  * Gamification System Types
  */
+import type { DBBase, DBGoal } from "./database";
 
 // Experience sources
 export enum ExperienceSource {
@@ -157,10 +158,19 @@ export interface Challenge {
   createdBy?: string;
 }
 
+// What a challenge requirement measures
+export type ChallengeMetric =
+  | "session_hours" // Locked hours, excluding pauses
+  | "streak_days" // Longest run of consecutive days with a session
+  | "sessions_completed"
+  | "tasks_completed"
+  | "events_logged";
+
 // Challenge requirement
 export interface ChallengeRequirement {
   id: string;
   type: "duration" | "count" | "behavior" | "milestone";
+  metric?: ChallengeMetric; // Defaults from type when omitted
   description: string;
   targetValue: number;
   currentValue: number;
@@ -195,6 +205,22 @@ export interface ChallengeMilestone {
   achievedAt?: Date;
 }
 
+// Accepted challenge lifecycle
+export type ChallengeStatus = "active" | "completed" | "failed";
+
+/**
+ * A challenge a user has accepted. `challengeId` is the catalogue entry it
+ * was accepted from; `id` is unique per acceptance so a failed challenge can
+ * be taken on again.
+ */
+export interface DBChallenge extends DBBase, Omit<Challenge, "id"> {
+  challengeId: string;
+  status: ChallengeStatus;
+  acceptedAt: Date;
+  completedAt?: Date;
+  failedAt?: Date;
+}
+
 // Challenge completion result
 export interface ChallengeCompletion {
   challengeId: string;
@@ -273,8 +299,13 @@ export interface Season {
   challenges: string[]; // Challenge IDs
   leaderboards: string[]; // Special seasonal leaderboards
   isActive: boolean;
+  challengeType?: SeasonChallengeType; // Special challenge goal run during the season
+  experience?: number; // XP the user has earned this season
 }
 
+// Special challenge goal types a season can be built around
+export type SeasonChallengeType = NonNullable<DBGoal["challengeType"]>;
+
 // Seasonal reward
 export interface SeasonalReward {
   id: string;
@@ -285,13 +316,49 @@ export interface SeasonalReward {
   claimed: boolean;
   claimedAt?: Date;
   exclusive: boolean; // Only available during this season
+  tier?: number; // Position on the season's reward track
+  unlocked?: boolean;
 }
 
 // Reward requirement
 export interface RewardRequirement {
-  type: "participation" | "rank" | "challenges" | "points";
+  type: "participation" | "rank" | "challenges" | "points" | "challenge_goal";
   value: number;
   description: string;
+  challengeTypes?: SeasonChallengeType[]; // Goals to complete for "challenge_goal"
+}
+
+/**
+ * A season that comes round every year. Dates are month (1-12) and day;
+ * a season whose end is before its start runs into the next year.
+ */
+export interface SeasonDefinition {
+  id: string;
+  name: string;
+  description: string;
+  theme: string;
+  start: { month: number; day: number };
+  end: { month: number; day: number };
+  challengeType?: SeasonChallengeType;
+  challenges: string[];
+  rewards: Omit<SeasonalReward, "claimed" | "claimedAt" | "unlocked">[];
+}
+
+/**
+ * A user's standing in one season: XP earned while it ran and the rewards
+ * claimed from its track. `id` is `${userId}:${seasonId}`.
+ */
+export interface DBSeasonProgress extends DBBase {
+  seasonId: string;
+  experience: number;
+  claimedRewards: { rewardId: string; claimedAt: Date }[];
+}
+
+// Result of claiming a seasonal reward
+export interface SeasonRewardClaim {
+  seasonId: string;
+  reward: SeasonalReward;
+  alreadyClaimed: boolean;
 }
 
 // Social game features
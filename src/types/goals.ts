@@ -85,6 +85,8 @@ export interface EnhancedGoal {
   createdAt: Date;
   startedAt?: Date;
   completedAt?: Date;
+  scheduledStart?: Date; // planned start for a step in a generated plan
+  deadline?: Date;
   tags: string[];
   isPublic: boolean;
 }
@@ -276,3 +278,25 @@ export interface CompletionTrends {
   difficultyTrends: Record<GoalDifficulty, number[]>;
   peakPerformancePeriods: string[];
 }
+
+// Random (dice-roll) goal durations
+export type RandomDurationDistribution =
+  | "uniform"
+  | "favor_short"
+  | "favor_long";
+
+export interface RandomDurationRoll {
+  seconds: number;
+  rolledAt: Date;
+  reason: "initial" | "reward" | "punishment";
+  kept: boolean; // Re-rolls keep the shorter (reward) or longer (punishment) value
+}
+
+export interface RandomGoalRecord {
+  minSeconds: number;
+  maxSeconds: number;
+  distribution: RandomDurationDistribution;
+  seed: number; // Roll n uses seed + n, so every roll can be reproduced
+  rolls: RandomDurationRoll[];
+  hideUntilComplete?: boolean;
+}
@@ -1,5 +1,6 @@
 import { Timestamp, FieldValue } from "firebase/firestore";
 import type { Task, KeyholderPermissions } from "./core";
+import type { UnlockSchedule } from "./unlockSchedule";
 
 // Re-export types from core module
 export type {
@@ -14,6 +15,9 @@ export type {
   KeyholderRelationship,
   KeyholderPermissions,
   KeyholderRule,
+  RuleCondition,
+  RuleConditionType,
+  HygieneWindowCondition,
   SessionStats,
   TaskStats,
   ApiResponse,
@@ -81,8 +85,19 @@ export type {
   DBAchievementProgress,
   DBAchievementNotification,
   DBLeaderboardEntry,
+  DBRuleViolation,
+  DBTimeAdjustment,
+  TimeAdjustmentSource,
+  TimerRevealMode,
 } from "./database";
 
+// Re-export types from goals module
+export type {
+  RandomDurationDistribution,
+  RandomDurationRoll,
+  RandomGoalRecord,
+} from "./goals";
+
 // Re-export types from relationships module
 export type {
   RelationshipPermissions,
@@ -100,6 +115,36 @@ export type {
   CreateDefaultPermissions,
 } from "./relationships";
 
+// Re-export types from verification module
+export type {
+  DBVerification,
+  VerificationSchedule,
+  VerificationStatus,
+  VerificationPhotoStorage,
+} from "./verification";
+
+// Re-export types from unlock schedule module
+export type {
+  UnlockSchedule,
+  UnlockScheduleState,
+  UnlockScheduleStatus,
+  UnlockScheduleSyncTarget,
+} from "./unlockSchedule";
+
+// Re-export types from scheduled reports module
+export type {
+  DBReportSchedule,
+  ReportFrequency,
+  ReportScheduleFormat,
+} from "./reports";
+
+// Re-export types from messages module
+export type {
+  DBMessage,
+  MessageSenderRole,
+  MessageThreadParticipants,
+} from "./messages";
+
 // Re-export enums from relationships module (these are values, not types)
 export {
   RelationshipStatus,
@@ -201,6 +246,7 @@ export interface KeyholderSession {
   startTime?: Date;
   endTime?: Date;
   permissions: KeyholderPermissions;
+  unlockSchedule?: UnlockSchedule;
 }
 
 export interface KeyholderReward {
@@ -0,0 +1,30 @@
+/**
+ * Keyholder ↔ submissive messaging types
+ */
+import type { DBBase } from "./database";
+
+export type MessageSenderRole = "keyholder" | "submissive";
+
+/**
+ * A message in a relationship thread. `userId` is the sender; both
+ * participants are stored so either side can find the thread offline.
+ */
+export interface DBMessage extends DBBase {
+  relationshipId: string;
+  keyholderUserId: string;
+  submissiveUserId: string;
+  senderRole: MessageSenderRole;
+  text: string;
+  attachments?: string[]; // Uploaded evidence URLs
+  sentAt: Date;
+  readAt?: Date; // Read receipt, set by the recipient
+}
+
+/**
+ * Participants of a thread as seen by the current user
+ */
+export interface MessageThreadParticipants {
+  relationshipId: string;
+  keyholderUserId: string;
+  submissiveUserId: string;
+}
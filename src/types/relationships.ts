@@ -5,6 +5,7 @@
  */
 import { Timestamp } from "firebase/firestore";
 import { UserRole } from "./core";
+import type { UnlockSchedule } from "./unlockSchedule";
 
 // ==================== RELATIONSHIP TYPES ====================
 
@@ -132,6 +133,7 @@ export interface RelationshipChastityData {
     pausedAt?: Timestamp;
     accumulatedPauseTime: number;
     keyholderApprovalRequired: boolean;
+    unlockSchedule?: UnlockSchedule;
   };
 
   // Goals and requirements
@@ -281,3 +283,37 @@ export interface DefaultRelationshipPermissions {
 
 // Factory function type for creating default permissions
 export type CreateDefaultPermissions = () => DefaultRelationshipPermissions;
+
+// ==================== PERMISSION GUARD TYPES ====================
+
+/** Relationship-scoped data a local mutation can touch */
+export type GuardedResource = "sessions" | "tasks" | "goals";
+
+export type GuardedOperation = "create" | "update" | "delete";
+
+export type PermissionDenialReason =
+  | "not_member"
+  | "relationship_inactive"
+  | "missing_permission"
+  | "approval_required";
+
+/**
+ * Who is making a local change and through which relationship. Mutations
+ * made without one are the owner editing their own data and are not guarded.
+ */
+export interface RelationshipActingContext {
+  actorId: string;
+  relationship: Pick<
+    Relationship,
+    "id" | "submissiveId" | "keyholderId" | "status" | "permissions"
+  >;
+}
+
+export interface GuardedMutation {
+  resource: GuardedResource;
+  operation: GuardedOperation;
+  /** Stored record, for updates and deletes */
+  existing?: Record<string, unknown>;
+  /** Fields being written, for creates and updates */
+  changes?: Record<string, unknown>;
+}
@@ -0,0 +1,27 @@
+/**
+ * Scheduled report types
+ */
+import type { DBBase } from "./database";
+
+export type ReportFrequency = "daily" | "weekly" | "monthly";
+
+export type ReportScheduleFormat = "json" | "csv" | "pdf" | "xlsx";
+
+/**
+ * A report template run on a schedule. `userId` owns the schedule and
+ * receives each run; `subjectUserId` is whose records the report covers,
+ * which is the wearer when a keyholder schedules a summary.
+ */
+export interface DBReportSchedule extends DBBase {
+  subjectUserId: string;
+  templateId: string;
+  frequency: ReportFrequency;
+  time: string; // "HH:mm", owner's local time
+  format: ReportScheduleFormat;
+  recipients: string[];
+  enabled: boolean;
+  nextRun: Date;
+  lastRun?: Date;
+  lastReportId?: string;
+  createdAt: Date;
+}
@@ -2,6 +2,7 @@
  * Security-related type definitions for ChastityOS
  */
 import { UserRole } from "./core";
+import type { DBBase } from "./database";
 
 // ==================== PERMISSION TYPES ====================
 
@@ -147,6 +148,19 @@ export enum AuditAction {
   SESSION_END = "session_end",
   SESSION_PAUSE = "session_pause",
   SESSION_RESUME = "session_resume",
+  SESSION_UPDATE = "session_update",
+  EMERGENCY_UNLOCK = "emergency_unlock",
+  SAFETY_RELEASE = "safety_release",
+  RELEASE_REQUEST_CREATE = "release_request_create",
+  RELEASE_REQUEST_APPROVE = "release_request_approve",
+  RELEASE_REQUEST_DENY = "release_request_deny",
+  RELEASE_REQUEST_CANCEL = "release_request_cancel",
+  RELEASE_REQUEST_COUNTER = "release_request_counter",
+  RELEASE_COUNTER_ACCEPT = "release_counter_accept",
+  RELEASE_COUNTER_DECLINE = "release_counter_decline",
+  RULE_CREATE = "rule_create",
+  RULE_UPDATE = "rule_update",
+  RULE_DELETE = "rule_delete",
   TASK_CREATE = "task_create",
   TASK_UPDATE = "task_update",
   TASK_DELETE = "task_delete",
@@ -167,6 +181,7 @@ export enum AuditCategory {
   AUTHENTICATION = "authentication",
   SESSION = "session",
   TASKS = "tasks",
+  RULES = "rules",
   PERMISSIONS = "permissions",
   DATA = "data",
   RELATIONSHIPS = "relationships",
@@ -237,6 +252,47 @@ export interface AuditSearchQuery {
   offset?: number;
 }
 
+/**
+ * Persisted audit entry. Each user's entries form a hash chain: `hash` covers
+ * the entry's content plus the previous entry's hash, so editing or deleting
+ * a record breaks every link after it.
+ */
+export interface DBAuditEntry
+  extends DBBase,
+    Omit<AuditEntry, "id" | "userId"> {
+  /** Position in the user's chain, starting at 0 */
+  sequence: number;
+  previousHash: string;
+  hash: string;
+}
+
+export type AuditChainIssueType =
+  | "edited"
+  | "missing"
+  | "broken_link"
+  | "truncated";
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType;
+  sequence: number;
+  entryId?: string;
+}
+
+/**
+ * Head of another user's chain as last seen by this device. A later copy of
+ * the chain has to still contain this entry unchanged.
+ */
+export interface AuditChainAnchor {
+  sequence: number;
+  hash: string;
+}
+
+export interface AuditChainVerification {
+  valid: boolean;
+  checkedEntries: number;
+  issues: AuditChainIssue[];
+}
+
 export interface SecurityEvent {
   type:
     | "failed_login"
@@ -268,7 +324,7 @@ export interface ComplianceReport {
   recommendations: string[];
 }
 
-export type ExportFormat = "json" | "csv" | "pdf";
+export type ExportFormat = "json" | "csv" | "pdf" | "xlsx";
 
 export interface AuditExport {
   format: ExportFormat;
@@ -0,0 +1,35 @@
+/**
+ * Keyholder unlock schedule types
+ */
+
+/**
+ * Keyholder-set limits on when a locked session may end. The keyholder checks
+ * in at the given times of day; if no check-in arrives for
+ * `silentReleaseDays` the wearer is released without them.
+ */
+export interface UnlockSchedule {
+  earliestUnlockAt?: Date;
+  checkInTimes: string[]; // "HH:mm", wearer's local time
+  checkInGraceMinutes: number; // How late a check-in may be before it is missed
+  silentReleaseDays?: number;
+  lastCheckInAt?: Date;
+  setBy: string; // Keyholder user ID
+  setAt: Date;
+}
+
+/** What the schedule allows right now */
+export type UnlockScheduleState = "locked" | "unlockable" | "auto_released";
+
+export interface UnlockScheduleStatus {
+  state: UnlockScheduleState;
+  earliestUnlockAt?: Date;
+  nextCheckInAt?: Date;
+  missedCheckIns: number;
+  autoReleaseAt?: Date;
+}
+
+/** Where to mirror schedule changes, when the session is shared */
+export interface UnlockScheduleSyncTarget {
+  relationshipId: string;
+  keyholderUserId: string;
+}
@@ -0,0 +1,43 @@
+/**
+ * Proof-of-lock verification types
+ */
+import type { TaskConsequence } from "./core";
+import type { DBBase } from "./database";
+
+export type VerificationStatus =
+  | "pending"
+  | "submitted"
+  | "approved"
+  | "rejected"
+  | "missed";
+
+/** Where a verification photo is kept */
+export type VerificationPhotoStorage = "cloudinary" | "local";
+
+/**
+ * Keyholder-set interval for proof-of-lock photos on a session
+ */
+export interface VerificationSchedule {
+  intervalHours: number;
+  responseMinutes: number; // Time the wearer has to submit a photo
+  missedConsequence?: TaskConsequence;
+}
+
+/**
+ * A request for a photo of the locked device with a one-off code visible.
+ * `userId` is the wearer.
+ */
+export interface DBVerification extends DBBase {
+  sessionId: string;
+  code: string;
+  requestedAt: Date;
+  dueAt: Date;
+  requestedBy: "keyholder" | "schedule";
+  status: VerificationStatus;
+  photoUrl?: string; // Cloudinary URL, or a data URL when stored locally
+  photoStorage?: VerificationPhotoStorage;
+  submittedAt?: Date;
+  reviewedAt?: Date;
+  reviewNote?: string;
+  missedConsequence?: TaskConsequence; // Applied if no photo arrives by dueAt
+}
@@ -0,0 +1,138 @@
+/**
+ * Tests for the CSV, XLSX and PDF writers
+ */
+import { describe, it, expect } from "vitest";
+import { flattenRecord, recordsToTable } from "../formatting/csv";
+import { toPDF } from "../formatting/pdf";
+import { columnName, toXLSX } from "../formatting/xlsx";
+import { crc32 } from "../formatting/zip";
+
+const decoder = new TextDecoder();
+
+// Reads the stored (uncompressed) entries of a ZIP archive
+const readZip = (bytes: Uint8Array) => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const files: Record<string, string> = {};
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const start = offset + 30 + nameLength;
+    const name = decoder.decode(bytes.slice(offset + 30, start));
+    const data = bytes.slice(start, start + size);
+    expect(crc32(data)).toBe(view.getUint32(offset + 14, true));
+    files[name] = decoder.decode(data);
+    offset = start + size;
+  }
+  return files;
+};
+
+describe("flattenRecord", () => {
+  it("uses dotted keys for nested objects and joins plain arrays", () => {
+    const when = new Date("2024-03-01T00:00:00Z");
+
+    expect(
+      flattenRecord({
+        id: "a",
+        at: when,
+        goals: { total: 2 },
+        tags: ["x", "y"],
+      }),
+    ).toEqual({ id: "a", at: when, "goals.total": 2, tags: "x; y" });
+  });
+
+  it("takes the union of every record's columns", () => {
+    expect(recordsToTable([{ a: 1 }, { b: 2 }])).toEqual({
+      headers: ["a", "b"],
+      rows: [
+        [1, undefined],
+        [undefined, 2],
+      ],
+    });
+  });
+});
+
+describe("toXLSX", () => {
+  it("computes standard CRC-32 checksums", () => {
+    expect(crc32(new TextEncoder().encode("123456789"))).toBe(0xcbf43926);
+  });
+
+  it("names columns past Z", () => {
+    expect([0, 25, 26, 701, 702].map(columnName)).toEqual([
+      "A",
+      "Z",
+      "AA",
+      "ZZ",
+      "AAA",
+    ]);
+  });
+
+  it("writes one worksheet per sheet with typed cells", () => {
+    const files = readZip(
+      toXLSX([
+        { name: "Sessions", headers: ["id", "hours"], rows: [["s<1>", 12.5]] },
+        { name: "Tasks: done/open", headers: ["done"], rows: [[true]] },
+      ]),
+    );
+
+    expect(Object.keys(files)).toEqual([
+      "[Content_Types].xml",
+      "_rels/.rels",
+      "xl/workbook.xml",
+      "xl/_rels/workbook.xml.rels",
+      "xl/worksheets/sheet1.xml",
+      "xl/worksheets/sheet2.xml",
+    ]);
+    expect(files["xl/workbook.xml"]).toContain('name="Sessions"');
+    expect(files["xl/workbook.xml"]).toContain('name="Tasks  done open"');
+    expect(files["xl/worksheets/sheet1.xml"]).toContain(
+      '<c r="A2" t="inlineStr"><is><t xml:space="preserve">s&lt;1&gt;</t></is></c><c r="B2"><v>12.5</v></c>',
+    );
+    expect(files["xl/worksheets/sheet2.xml"]).toContain(
+      '<c r="A2" t="b"><v>1</v></c>',
+    );
+  });
+});
+
+describe("toPDF", () => {
+  const rows = Array.from({ length: 120 }, (_, i) => [`row ${i}`, i]);
+  const pdf = decoder.decode(
+    toPDF({
+      title: "Report (März)",
+      sections: [
+        { type: "chart", title: "Counts", bars: [{ label: "a", value: 3 }] },
+        { type: "table", title: "Rows", headers: ["Name", "Value"], rows },
+      ],
+    }),
+  );
+
+  it("has a cross-reference table pointing at every object", () => {
+    const xrefOffset = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    const offsets = pdf
+      .slice(xrefOffset)
+      .split("\n")
+      .filter((line) => line.endsWith(" n "))
+      .map((line) => Number(line.slice(0, 10)));
+
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe("xref");
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset)).toMatch(new RegExp(`^${index + 1} 0 obj`));
+    });
+  });
+
+  it("spreads long tables over pages and repeats their header", () => {
+    const pages = pdf.match(/\/Type \/Page /g)!.length;
+
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf.match(/\/F2 9 Tf [\d.]+ [\d.]+ Td \(Name\) Tj/g)).toHaveLength(
+      pages,
+    );
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`);
+  });
+
+  it("escapes parentheses and replaces characters outside ASCII", () => {
+    expect(pdf).toContain("(Report \\(M?rz\\)) Tj");
+    expect(pdf).toContain(" re f");
+  });
+});
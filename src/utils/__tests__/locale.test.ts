@@ -0,0 +1,114 @@
+/**
+ * Locale Formatting Utilities Tests
+ * Tests for settings-aware date, time and duration formatting
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  formatLocalizedDate,
+  formatLocalizedDateTime,
+  formatLocalizedDuration,
+  formatLocalizedTime,
+  getLocalizedWeekdays,
+  getWeekStartsOn,
+  toDateFnsPattern,
+} from "../formatting/locale";
+
+describe("Locale Formatting Utilities", () => {
+  // Local time, so assertions don't depend on the runner's timezone
+  const testDate = new Date(2024, 0, 5, 14, 30, 0);
+
+  describe("toDateFnsPattern", () => {
+    it("converts moment-style tokens to date-fns tokens", () => {
+      expect(toDateFnsPattern("MM/DD/YYYY")).toBe("MM/dd/yyyy");
+      expect(toDateFnsPattern("YYYY-MM-DD")).toBe("yyyy-MM-dd");
+    });
+
+    it("keeps date-fns patterns and defaults when unset", () => {
+      expect(toDateFnsPattern("dd/MM/yyyy")).toBe("dd/MM/yyyy");
+      expect(toDateFnsPattern(undefined)).toBe("MM/dd/yyyy");
+    });
+  });
+
+  describe("formatLocalizedDate", () => {
+    it("respects the stored date format", () => {
+      expect(formatLocalizedDate(testDate, { dateFormat: "MM/DD/YYYY" })).toBe(
+        "01/05/2024",
+      );
+      expect(formatLocalizedDate(testDate, { dateFormat: "dd/MM/yyyy" })).toBe(
+        "05/01/2024",
+      );
+    });
+
+    it("localizes month names", () => {
+      expect(
+        formatLocalizedDate(testDate, { dateFormat: "d MMM yyyy" }, "es"),
+      ).toBe("5 ene 2024");
+    });
+  });
+
+  describe("formatLocalizedTime", () => {
+    it("uses a 12-hour clock by default", () => {
+      expect(formatLocalizedTime(testDate, {})).toBe("2:30 PM");
+    });
+
+    it("uses a 24-hour clock when configured", () => {
+      expect(formatLocalizedTime(testDate, { timeFormat: "24h" })).toBe(
+        "14:30",
+      );
+    });
+  });
+
+  it("formatLocalizedDateTime combines date and time", () => {
+    expect(
+      formatLocalizedDateTime(testDate, {
+        dateFormat: "yyyy-MM-dd",
+        timeFormat: "24h",
+      }),
+    ).toBe("2024-01-05 14:30");
+  });
+
+  describe("week start", () => {
+    it("maps startOfWeek to a date-fns weekStartsOn value", () => {
+      expect(getWeekStartsOn("monday")).toBe(1);
+      expect(getWeekStartsOn("sunday")).toBe(0);
+      expect(getWeekStartsOn(undefined)).toBe(0);
+    });
+
+    it("orders weekday names from the first day of the week", () => {
+      const monday = getLocalizedWeekdays({ startOfWeek: "monday" }, "en");
+      expect(monday[0]).toBe("Mon");
+      expect(monday[6]).toBe("Sun");
+
+      const sunday = getLocalizedWeekdays({ startOfWeek: "sunday" }, "es");
+      expect(sunday).toHaveLength(7);
+      expect(sunday[0]).toMatch(/^dom/);
+    });
+  });
+
+  describe("formatLocalizedDuration", () => {
+    it("uses the largest two units by default", () => {
+      expect(formatLocalizedDuration(3 * 86400 + 3600 + 59)).toBe(
+        "3 days and 1 hour",
+      );
+    });
+
+    it("pluralizes per language", () => {
+      expect(formatLocalizedDuration(86400 + 2 * 60, "es")).toBe(
+        "1 día y 2 minutos",
+      );
+    });
+
+    it("honours maxUnits", () => {
+      expect(formatLocalizedDuration(90061, "en", 4)).toBe(
+        "1 day, 1 hour, 1 minute, and 1 second",
+      );
+    });
+
+    it("handles zero and invalid input", () => {
+      expect(formatLocalizedDuration(0)).toBe("0 seconds");
+      expect(formatLocalizedDuration(NaN, "es")).toBe("0 segundos");
+      expect(formatLocalizedDuration(-10)).toBe("0 seconds");
+    });
+  });
+});
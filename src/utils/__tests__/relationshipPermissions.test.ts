@@ -0,0 +1,415 @@
+/**
+ * Relationship Permission Guard Tests
+ * Cases follow the sessions, tasks and goals blocks of the chastityData
+ * rules in firestore.rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  RelationshipPermissionError,
+  assertRelationshipMutation,
+  buildKeyholderActingContext,
+  evaluateRelationshipMutation,
+  getPermissionFailureMessage,
+} from "../security/relationshipPermissions";
+import {
+  RelationshipStatus,
+  type GuardedMutation,
+  type RelationshipActingContext,
+  type RelationshipPermissions,
+} from "../../types/relationships";
+import type {
+  AdminPermissions,
+  AdminRelationship,
+} from "../../types/account-linking";
+
+const SUBMISSIVE = "sub-1";
+const KEYHOLDER = "kh-1";
+
+const basePermissions = (): RelationshipPermissions => ({
+  keyholderCanEdit: {
+    sessions: true,
+    tasks: true,
+    goals: true,
+    punishments: true,
+    settings: false,
+  },
+  submissiveCanPause: true,
+  emergencyUnlock: true,
+  requireApproval: {
+    sessionEnd: false,
+    taskCompletion: false,
+    goalChanges: false,
+  },
+});
+
+const actingAs = (
+  actorId: string,
+  overrides: {
+    status?: RelationshipStatus;
+    permissions?: (permissions: RelationshipPermissions) => void;
+  } = {},
+): RelationshipActingContext => {
+  const permissions = basePermissions();
+  overrides.permissions?.(permissions);
+  return {
+    actorId,
+    relationship: {
+      id: "rel-1",
+      submissiveId: SUBMISSIVE,
+      keyholderId: KEYHOLDER,
+      status: overrides.status ?? RelationshipStatus.ACTIVE,
+      permissions,
+    },
+  };
+};
+
+const withoutKeyholderEdit =
+  (resource: "sessions" | "tasks" | "goals") =>
+  (permissions: RelationshipPermissions) => {
+    permissions.keyholderCanEdit[resource] = false;
+  };
+
+describe("Relationship permission guard", () => {
+  describe("membership and status", () => {
+    it("refuses users outside the relationship", () => {
+      expect(
+        evaluateRelationshipMutation(actingAs("stranger"), {
+          resource: "sessions",
+          operation: "create",
+        }),
+      ).toBe("not_member");
+    });
+
+    it.each([RelationshipStatus.PENDING, RelationshipStatus.ENDED])(
+      "refuses writes while the relationship is %s",
+      (status) => {
+        expect(
+          evaluateRelationshipMutation(actingAs(SUBMISSIVE, { status }), {
+            resource: "tasks",
+            operation: "create",
+          }),
+        ).toBe("relationship_inactive");
+      },
+    );
+
+    it("still allows deletes on an ended relationship", () => {
+      expect(
+        evaluateRelationshipMutation(
+          actingAs(KEYHOLDER, { status: RelationshipStatus.ENDED }),
+          { resource: "sessions", operation: "delete" },
+        ),
+      ).toBeNull();
+    });
+  });
+
+  describe("sessions", () => {
+    it.each<
+      [string, RelationshipActingContext, GuardedMutation, string | null]
+    >([
+      [
+        "submissive creates",
+        actingAs(SUBMISSIVE),
+        { resource: "sessions", operation: "create" },
+        null,
+      ],
+      [
+        "keyholder with permission updates",
+        actingAs(KEYHOLDER),
+        { resource: "sessions", operation: "update", changes: {} },
+        null,
+      ],
+      [
+        "keyholder without permission updates",
+        actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("sessions") }),
+        { resource: "sessions", operation: "update", changes: {} },
+        "missing_permission",
+      ],
+      [
+        "submissive deletes",
+        actingAs(SUBMISSIVE),
+        { resource: "sessions", operation: "delete" },
+        "missing_permission",
+      ],
+      [
+        "submissive pauses without the pause permission",
+        actingAs(SUBMISSIVE, {
+          permissions: (permissions) => {
+            permissions.submissiveCanPause = false;
+          },
+        }),
+        {
+          resource: "sessions",
+          operation: "update",
+          changes: { isPaused: true },
+        },
+        "missing_permission",
+      ],
+      [
+        "submissive ends a session that needs approval",
+        actingAs(SUBMISSIVE, {
+          permissions: (permissions) => {
+            permissions.requireApproval.sessionEnd = true;
+          },
+        }),
+        {
+          resource: "sessions",
+          operation: "update",
+          changes: { endTime: new Date() },
+        },
+        "approval_required",
+      ],
+    ])("%s", (_label, context, mutation, expected) => {
+      expect(evaluateRelationshipMutation(context, mutation)).toBe(expected);
+    });
+  });
+
+  describe("tasks", () => {
+    const ownTask = { userId: SUBMISSIVE, assignedBy: "keyholder" };
+
+    it.each<
+      [string, RelationshipActingContext, GuardedMutation, string | null]
+    >([
+      [
+        "keyholder without permission still creates",
+        actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("tasks") }),
+        { resource: "tasks", operation: "create" },
+        null,
+      ],
+      [
+        "keyholder without permission updates",
+        actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("tasks") }),
+        { resource: "tasks", operation: "update", existing: ownTask },
+        "missing_permission",
+      ],
+      [
+        "submissive submits their own task",
+        actingAs(SUBMISSIVE),
+        {
+          resource: "tasks",
+          operation: "update",
+          existing: ownTask,
+          changes: { status: "submitted" },
+        },
+        null,
+      ],
+      [
+        "submissive updates someone else's task",
+        actingAs(SUBMISSIVE),
+        {
+          resource: "tasks",
+          operation: "update",
+          existing: { userId: KEYHOLDER },
+        },
+        "missing_permission",
+      ],
+      [
+        "submissive completes a task that needs approval",
+        actingAs(SUBMISSIVE, {
+          permissions: (permissions) => {
+            permissions.requireApproval.taskCompletion = true;
+          },
+        }),
+        {
+          resource: "tasks",
+          operation: "update",
+          existing: ownTask,
+          changes: { status: "completed" },
+        },
+        "approval_required",
+      ],
+      [
+        "submissive deletes a self-assigned task",
+        actingAs(SUBMISSIVE),
+        {
+          resource: "tasks",
+          operation: "delete",
+          existing: { ...ownTask, assignedBy: "submissive" },
+        },
+        null,
+      ],
+      [
+        "submissive deletes a keyholder-assigned task",
+        actingAs(SUBMISSIVE),
+        { resource: "tasks", operation: "delete", existing: ownTask },
+        "missing_permission",
+      ],
+    ])("%s", (_label, context, mutation, expected) => {
+      expect(evaluateRelationshipMutation(context, mutation)).toBe(expected);
+    });
+  });
+
+  describe("goals", () => {
+    it.each<
+      [string, RelationshipActingContext, GuardedMutation, string | null]
+    >([
+      [
+        "keyholder with permission creates",
+        actingAs(KEYHOLDER),
+        { resource: "goals", operation: "create" },
+        null,
+      ],
+      [
+        "keyholder without permission creates",
+        actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("goals") }),
+        { resource: "goals", operation: "create" },
+        "missing_permission",
+      ],
+      [
+        "submissive deletes a goal they set",
+        actingAs(SUBMISSIVE),
+        {
+          resource: "goals",
+          operation: "delete",
+          existing: { createdBy: "submissive" },
+        },
+        null,
+      ],
+      [
+        "submissive deletes a keyholder goal",
+        actingAs(SUBMISSIVE),
+        {
+          resource: "goals",
+          operation: "delete",
+          existing: { createdBy: "keyholder" },
+        },
+        "missing_permission",
+      ],
+      [
+        "submissive changes goals that need approval",
+        actingAs(SUBMISSIVE, {
+          permissions: (permissions) => {
+            permissions.requireApproval.goalChanges = true;
+          },
+        }),
+        { resource: "goals", operation: "update", changes: {} },
+        "approval_required",
+      ],
+    ])("%s", (_label, context, mutation, expected) => {
+      expect(evaluateRelationshipMutation(context, mutation)).toBe(expected);
+    });
+  });
+
+  describe("assertRelationshipMutation", () => {
+    it("throws a typed error describing the denial", () => {
+      const attempt = () =>
+        assertRelationshipMutation(
+          actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("goals") }),
+          { resource: "goals", operation: "update" },
+        );
+
+      expect(attempt).toThrow(RelationshipPermissionError);
+      expect(attempt).toThrow(
+        "You don't have permission to update goals in this relationship.",
+      );
+    });
+
+    it("returns quietly when the mutation is allowed", () => {
+      expect(() =>
+        assertRelationshipMutation(actingAs(SUBMISSIVE), {
+          resource: "sessions",
+          operation: "create",
+        }),
+      ).not.toThrow();
+    });
+  });
+
+  describe("keyholder acting through an account link", () => {
+    const adminRelationship = (
+      permissions: Partial<AdminPermissions> = {},
+      status: AdminRelationship["status"] = "active",
+    ) =>
+      ({
+        id: "link-1",
+        keyholderId: KEYHOLDER,
+        wearerId: SUBMISSIVE,
+        status,
+        permissions: {
+          controlSessions: true,
+          manageTasks: true,
+          editSettings: false,
+          setGoals: true,
+          emergencyUnlock: false,
+          ...permissions,
+        },
+      }) as AdminRelationship;
+
+    it("lets a primary keyholder edit the wearer's sessions and goals", () => {
+      const acting = buildKeyholderActingContext(
+        adminRelationship(),
+        KEYHOLDER,
+      );
+
+      expect(acting.relationship.submissiveId).toBe(SUBMISSIVE);
+      expect(
+        evaluateRelationshipMutation(acting, {
+          resource: "sessions",
+          operation: "update",
+        }),
+      ).toBeNull();
+      expect(
+        evaluateRelationshipMutation(acting, {
+          resource: "goals",
+          operation: "create",
+        }),
+      ).toBeNull();
+    });
+
+    it("refuses session and goal edits without the control permissions", () => {
+      const acting = buildKeyholderActingContext(
+        adminRelationship({ controlSessions: false, setGoals: false }),
+        KEYHOLDER,
+      );
+
+      expect(
+        evaluateRelationshipMutation(acting, {
+          resource: "sessions",
+          operation: "update",
+        }),
+      ).toBe("missing_permission");
+      expect(
+        evaluateRelationshipMutation(acting, {
+          resource: "goals",
+          operation: "update",
+        }),
+      ).toBe("missing_permission");
+    });
+
+    it("refuses writes through a paused link", () => {
+      const acting = buildKeyholderActingContext(
+        adminRelationship({}, "paused"),
+        KEYHOLDER,
+      );
+
+      expect(
+        evaluateRelationshipMutation(acting, {
+          resource: "tasks",
+          operation: "create",
+        }),
+      ).toBe("relationship_inactive");
+    });
+  });
+
+  describe("getPermissionFailureMessage", () => {
+    it("shows denials and falls back for other errors", () => {
+      const denial = () =>
+        assertRelationshipMutation(
+          actingAs(KEYHOLDER, { permissions: withoutKeyholderEdit("tasks") }),
+          { resource: "tasks", operation: "update" },
+        );
+      let error: unknown;
+      try {
+        denial();
+      } catch (caught) {
+        error = caught;
+      }
+
+      expect(getPermissionFailureMessage(error, "Failed")).toBe(
+        "You don't have permission to update tasks in this relationship.",
+      );
+      expect(getPermissionFailureMessage(new Error("boom"), "Failed")).toBe(
+        "Failed",
+      );
+    });
+  });
+});
@@ -0,0 +1,215 @@
+/**
+ * Release Request Utilities Tests
+ * Tests for resolving requests with several approving keyholders and for
+ * counter-offer negotiation
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  assertReleaseTransition,
+  hasGrantedPauseEnded,
+  isAwaitingKeyholder,
+  isCounterOfferMet,
+  isRequestOpen,
+  resolveReleaseStatus,
+} from "../releaseRequests";
+import type { DBReleaseRequest } from "../../types/database";
+import type {
+  ReleaseCounterCondition,
+  ReleaseRequestApproval,
+} from "../../types/core";
+
+const decision = (
+  keyholderUserId: string,
+  result: ReleaseRequestApproval["decision"],
+): ReleaseRequestApproval => ({
+  keyholderUserId,
+  decision: result,
+  respondedAt: new Date("2024-03-01T12:00:00Z"),
+});
+
+const request = (
+  overrides: Partial<DBReleaseRequest> = {},
+): DBReleaseRequest => ({
+  id: "request-1",
+  submissiveUserId: "sub",
+  keyholderUserId: "primary",
+  approverUserIds: ["primary", "secondary"],
+  approvalPolicy: "any",
+  approvals: [],
+  sessionId: "session-1",
+  requestedAt: new Date("2024-03-01T10:00:00Z"),
+  status: "pending",
+  syncStatus: "synced",
+  lastModified: new Date("2024-03-01T10:00:00Z"),
+  ...overrides,
+});
+
+const accepted = (condition: ReleaseCounterCondition) =>
+  request({
+    status: "accepted",
+    counterOffer: {
+      condition,
+      offeredBy: "primary",
+      offeredAt: new Date("2024-03-01T11:00:00Z"),
+      respondedAt: new Date("2024-03-01T11:30:00Z"),
+    },
+  });
+
+describe("Release Request Utilities", () => {
+  describe("resolveReleaseStatus", () => {
+    it("should settle an 'any' request on the first decision", () => {
+      expect(
+        resolveReleaseStatus(
+          request({ approvals: [decision("secondary", "approved")] }),
+        ),
+      ).toBe("approved");
+      expect(
+        resolveReleaseStatus(
+          request({ approvals: [decision("primary", "denied")] }),
+        ),
+      ).toBe("denied");
+    });
+
+    it("should wait for every approver under 'all'", () => {
+      const partlyApproved = request({
+        approvalPolicy: "all",
+        approvals: [decision("primary", "approved")],
+      });
+
+      expect(resolveReleaseStatus(partlyApproved)).toBe("pending");
+      expect(
+        resolveReleaseStatus({
+          ...partlyApproved,
+          approvals: [
+            ...partlyApproved.approvals!,
+            decision("secondary", "approved"),
+          ],
+        }),
+      ).toBe("approved");
+    });
+
+    it("should deny an 'all' request as soon as one approver denies", () => {
+      expect(
+        resolveReleaseStatus(
+          request({
+            approvalPolicy: "all",
+            approvals: [decision("secondary", "denied")],
+          }),
+        ),
+      ).toBe("denied");
+    });
+
+    it("should treat requests without approvals as pending", () => {
+      expect(resolveReleaseStatus(request({ approvals: undefined }))).toBe(
+        "pending",
+      );
+    });
+  });
+
+  describe("isAwaitingKeyholder", () => {
+    it("should skip keyholders who already answered", () => {
+      const answered = request({
+        approvalPolicy: "all",
+        approvals: [decision("primary", "approved")],
+      });
+
+      expect(isAwaitingKeyholder(answered, "primary")).toBe(false);
+      expect(isAwaitingKeyholder(answered, "secondary")).toBe(true);
+      expect(isAwaitingKeyholder(answered, "stranger")).toBe(false);
+    });
+
+    it("should fall back to keyholderUserId for older requests", () => {
+      const legacy = request({ approverUserIds: undefined });
+
+      expect(isAwaitingKeyholder(legacy, "primary")).toBe(true);
+      expect(isAwaitingKeyholder(legacy, "secondary")).toBe(false);
+    });
+  });
+
+  describe("counter-offers", () => {
+    it("should only counter pending requests and only answer countered ones", () => {
+      expect(() =>
+        assertReleaseTransition(request(), "countered"),
+      ).not.toThrow();
+      expect(() =>
+        assertReleaseTransition(request({ status: "denied" }), "countered"),
+      ).toThrow("Cannot move release request from denied to countered");
+      expect(() => assertReleaseTransition(request(), "accepted")).toThrow();
+      expect(() =>
+        assertReleaseTransition(request({ status: "countered" }), "declined"),
+      ).not.toThrow();
+    });
+
+    it("should keep requests open until approved, denied or declined", () => {
+      expect(isRequestOpen(request({ status: "countered" }))).toBe(true);
+      expect(isRequestOpen(request({ status: "accepted" }))).toBe(true);
+      expect(isRequestOpen(request({ status: "declined" }))).toBe(false);
+      expect(isRequestOpen(null)).toBe(false);
+    });
+
+    it("should release an accepted delay once its time has come", () => {
+      const delayed = accepted({
+        type: "delay",
+        releaseAt: new Date("2024-03-03T10:00:00Z"),
+      });
+
+      expect(
+        isCounterOfferMet(delayed, { now: new Date("2024-03-02T10:00:00Z") }),
+      ).toBe(false);
+      expect(
+        isCounterOfferMet(delayed, { now: new Date("2024-03-03T10:00:00Z") }),
+      ).toBe(true);
+    });
+
+    it("should release an accepted task once it is approved", () => {
+      const withTask = accepted({
+        type: "task",
+        taskText: "Write lines",
+        taskId: "task-1",
+      });
+
+      expect(isCounterOfferMet(withTask, { taskStatus: "submitted" })).toBe(
+        false,
+      );
+      expect(isCounterOfferMet(withTask, { taskStatus: "approved" })).toBe(
+        true,
+      );
+    });
+
+    it("should never release on a pause offer", () => {
+      expect(
+        isCounterOfferMet(accepted({ type: "pause", pauseMinutes: 30 })),
+      ).toBe(false);
+    });
+
+    it("should treat a granted pause as over once the session moves on", () => {
+      const startedAt = new Date("2024-03-01T12:00:00Z");
+      const paused = accepted({ type: "pause", pauseMinutes: 30, startedAt });
+
+      expect(
+        hasGrantedPauseEnded(paused, {
+          isPaused: true,
+          pauseStartTime: startedAt,
+        }),
+      ).toBe(false);
+      expect(hasGrantedPauseEnded(paused, { isPaused: false })).toBe(true);
+      expect(
+        hasGrantedPauseEnded(paused, {
+          isPaused: true,
+          pauseStartTime: new Date("2024-03-01T14:00:00Z"),
+        }),
+      ).toBe(true);
+      expect(hasGrantedPauseEnded(paused, null)).toBe(true);
+    });
+
+    it("should close a settled pause offer", () => {
+      const settled = request({ status: "settled" });
+
+      expect(() =>
+        assertReleaseTransition({ status: "accepted" }, "settled"),
+      ).not.toThrow();
+      expect(isRequestOpen(settled)).toBe(false);
+    });
+  });
+});
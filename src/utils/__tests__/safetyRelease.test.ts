@@ -0,0 +1,57 @@
+/**
+ * Safety Release Tests
+ * Warning levels and release timing while the keyholder is unreachable
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_SAFETY_RELEASE_HOURS,
+  getLatestActivity,
+  getSafetyReleaseHours,
+  getSafetyReleaseStatus,
+} from "../keyholder/safetyRelease";
+
+const LAST_ACTIVE = new Date("2024-03-01T12:00:00Z");
+const hoursLater = (hours: number) =>
+  new Date(LAST_ACTIVE.getTime() + hours * 60 * 60 * 1000);
+
+describe("safety release", () => {
+  it("picks the most recent activity signal", () => {
+    expect(
+      getLatestActivity([undefined, LAST_ACTIVE, hoursLater(3), null]),
+    ).toEqual(hoursLater(3));
+    expect(getLatestActivity([undefined])).toBeUndefined();
+  });
+
+  it("stays off until the wearer sets a period", () => {
+    expect(getSafetyReleaseHours(undefined)).toBeNull();
+    expect(getSafetyReleaseHours(0)).toBeNull();
+    expect(getSafetyReleaseHours(DEFAULT_SAFETY_RELEASE_HOURS)).toBe(72);
+    expect(getSafetyReleaseHours(24)).toBe(24);
+  });
+
+  it.each([
+    [10, "none"],
+    [24, "notice"],
+    [36, "warning"],
+    [44, "final_warning"],
+    [48, "releasable"],
+  ])("after %i silent hours of 48 the level is %s", (hours, level) => {
+    expect(
+      getSafetyReleaseStatus(LAST_ACTIVE, 48, hoursLater(hours)).level,
+    ).toBe(level);
+  });
+
+  it("reports when release becomes available", () => {
+    const status = getSafetyReleaseStatus(LAST_ACTIVE, 48, hoursLater(30.5));
+
+    expect(status.releasableAt).toEqual(hoursLater(48));
+    expect(status.hoursSilent).toBe(30);
+  });
+
+  it("treats activity in the future as no silence", () => {
+    expect(
+      getSafetyReleaseStatus(hoursLater(2), 48, LAST_ACTIVE).hoursSilent,
+    ).toBe(0);
+  });
+});
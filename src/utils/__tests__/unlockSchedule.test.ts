@@ -0,0 +1,157 @@
+/**
+ * Unlock Schedule Tests
+ * Earliest unlock, keyholder check-ins and silent release
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  UnlockScheduleError,
+  assertUnlockAllowed,
+  countMissedCheckIns,
+  fromStoredUnlockSchedule,
+  getCheckInSlots,
+  getNextCheckInAt,
+  getUnlockScheduleStatus,
+  parseCheckInTime,
+  toStoredUnlockSchedule,
+  validateUnlockSchedule,
+} from "../keyholder/unlockSchedule";
+import type { UnlockSchedule } from "../../types/unlockSchedule";
+
+// Local times, since check-in times are in the wearer's time zone
+const at = (day: number, hours: number, minutes = 0) =>
+  new Date(2024, 2, day, hours, minutes);
+
+const schedule = (overrides: Partial<UnlockSchedule> = {}): UnlockSchedule => ({
+  checkInTimes: ["09:00", "21:00"],
+  checkInGraceMinutes: 60,
+  setBy: "kh-1",
+  setAt: at(1, 8),
+  ...overrides,
+});
+
+describe("unlock schedule", () => {
+  describe("check-in slots", () => {
+    it("parses HH:mm and rejects anything else", () => {
+      expect(parseCheckInTime("21:30")).toBe(21 * 60 + 30);
+      expect(parseCheckInTime("24:00")).toBeNull();
+      expect(parseCheckInTime("9:00")).toBeNull();
+    });
+
+    it("lists slots across days in order, excluding the start", () => {
+      expect(getCheckInSlots(["21:00", "09:00"], at(1, 9), at(2, 9))).toEqual([
+        at(1, 21),
+        at(2, 9),
+      ]);
+    });
+
+    it("counts slots whose grace period has passed since the last check-in", () => {
+      const now = at(2, 10, 30);
+      expect(countMissedCheckIns(schedule(), now)).toBe(3);
+      expect(
+        countMissedCheckIns(schedule({ lastCheckInAt: at(1, 21, 15) }), now),
+      ).toBe(1);
+    });
+
+    it("keeps an unanswered slot due until its grace period ends", () => {
+      expect(getNextCheckInAt(schedule(), at(1, 9, 30))).toEqual(at(1, 9));
+      expect(getNextCheckInAt(schedule(), at(1, 10, 30))).toEqual(at(1, 21));
+      expect(
+        getNextCheckInAt(
+          schedule({ lastCheckInAt: at(1, 9, 5) }),
+          at(1, 9, 30),
+        ),
+      ).toEqual(at(1, 21));
+    });
+  });
+
+  describe("status", () => {
+    it("allows unlocking when there is no schedule", () => {
+      expect(getUnlockScheduleStatus(undefined, at(1, 12)).state).toBe(
+        "unlockable",
+      );
+    });
+
+    it("stays locked until the earliest unlock time", () => {
+      const locked = schedule({ earliestUnlockAt: at(5, 12) });
+      expect(getUnlockScheduleStatus(locked, at(5, 11)).state).toBe("locked");
+      expect(getUnlockScheduleStatus(locked, at(5, 12)).state).toBe(
+        "unlockable",
+      );
+    });
+
+    it("releases the wearer when the keyholder stays silent", () => {
+      const silent = schedule({
+        earliestUnlockAt: at(20, 12),
+        silentReleaseDays: 2,
+        lastCheckInAt: at(2, 21),
+      });
+      const status = getUnlockScheduleStatus(silent, at(4, 21));
+      expect(status.autoReleaseAt).toEqual(at(4, 21));
+      expect(status.state).toBe("auto_released");
+      expect(getUnlockScheduleStatus(silent, at(4, 20)).state).toBe("locked");
+    });
+  });
+
+  describe("assertUnlockAllowed", () => {
+    it("throws a typed error before the earliest unlock", () => {
+      const attempt = () =>
+        assertUnlockAllowed(
+          schedule({ earliestUnlockAt: at(5, 12) }),
+          at(3, 12),
+        );
+      expect(attempt).toThrow(UnlockScheduleError);
+      expect(attempt).toThrow(
+        expect.objectContaining({
+          reason: "before_earliest_unlock",
+          unlocksAt: at(5, 12),
+        }),
+      );
+    });
+
+    it("returns quietly once released", () => {
+      expect(() =>
+        assertUnlockAllowed(
+          schedule({ earliestUnlockAt: at(5, 12), silentReleaseDays: 1 }),
+          at(3, 12),
+        ),
+      ).not.toThrow();
+    });
+  });
+
+  describe("storage", () => {
+    it("drops unset fields and reads Timestamps back as dates", () => {
+      const stored = toStoredUnlockSchedule(schedule());
+      expect("earliestUnlockAt" in stored).toBe(false);
+
+      const restored = fromStoredUnlockSchedule({
+        ...schedule(),
+        setAt: { toDate: () => at(1, 8) },
+        lastCheckInAt: null,
+      });
+      expect(restored.setAt).toEqual(at(1, 8));
+      expect(restored.lastCheckInAt).toBeUndefined();
+    });
+  });
+
+  describe("validateUnlockSchedule", () => {
+    it("names a malformed check-in time", () => {
+      expect(
+        validateUnlockSchedule({
+          checkInTimes: ["09:00", "noon"],
+          checkInGraceMinutes: 30,
+        }),
+      ).toBe('"noon" is not a valid check-in time. Use HH:mm.');
+    });
+
+    it("requires at least a day of silence before release", () => {
+      expect(
+        validateUnlockSchedule({
+          checkInTimes: [],
+          checkInGraceMinutes: 30,
+          silentReleaseDays: 0,
+        }),
+      ).toBe("Silent release needs at least one day.");
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * CSV formatting utilities
+ */
+
+export type CSVValue = string | number | boolean | Date | null | undefined;
+
+/**
+ * Escapes a single value for inclusion in a CSV cell (RFC 4180).
+ * Values containing commas, quotes or line breaks are wrapped in quotes.
+ * @param value - The value to escape
+ * @returns CSV-safe string
+ */
+export const escapeCSVValue = (value: CSVValue): string => {
+  if (value === null || value === undefined) {
+    return "";
+  }
+
+  const text = value instanceof Date ? value.toISOString() : String(value);
+
+  if (/[",\r\n]/.test(text)) {
+    return `"${text.replace(/"/g, '""')}"`;
+  }
+  return text;
+};
+
+/**
+ * Builds a CSV document from a header row and data rows.
+ * @param headers - Column headers
+ * @param rows - Data rows, one array of cell values per row
+ * @returns CSV string using CRLF line endings
+ */
+export const toCSV = (headers: string[], rows: CSVValue[][]): string => {
+  return [headers, ...rows]
+    .map((row) => row.map(escapeCSVValue).join(","))
+    .join("\r\n");
+};
+
+/**
+ * Flattens a record into cell values keyed by dotted path. Arrays of plain
+ * values are joined with "; ", other arrays are numbered by index.
+ * @param record - The object to flatten
+ * @param prefix - Key prefix used when recursing
+ * @returns Flat map of column name to cell value
+ */
+export const flattenRecord = (
+  record: object,
+  prefix = "",
+): Record<string, CSVValue> => {
+  const flat: Record<string, CSVValue> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const column = prefix ? `${prefix}.${key}` : key;
+    if (
+      Array.isArray(value) &&
+      value.every((item) => item === null || typeof item !== "object")
+    ) {
+      flat[column] = value.join("; ");
+    } else if (
+      value !== null &&
+      typeof value === "object" &&
+      !(value instanceof Date)
+    ) {
+      Object.assign(flat, flattenRecord(value, column));
+    } else if (typeof value !== "function") {
+      flat[column] = value as CSVValue;
+    }
+  }
+  return flat;
+};
+
+/**
+ * Flattens records into a header row and data rows. Headers are the union
+ * of every record's columns in first-seen order.
+ * @param records - Objects to tabulate
+ * @returns Headers and rows ready for toCSV
+ */
+export const recordsToTable = (
+  records: object[],
+): { headers: string[]; rows: CSVValue[][] } => {
+  const flattened = records.map((record) => flattenRecord(record));
+  const headers = [...new Set(flattened.flatMap(Object.keys))];
+  return {
+    headers,
+    rows: flattened.map((record) => headers.map((header) => record[header])),
+  };
+};
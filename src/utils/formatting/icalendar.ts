@@ -0,0 +1,131 @@
+/**
+ * iCalendar (RFC 5545) formatting utilities
+ */
+import { formatInTimeZone } from "date-fns-tz";
+
+export interface ICalendarEvent {
+  uid: string;
+  start: Date;
+  end?: Date;
+  summary: string;
+  description?: string;
+  categories?: string[];
+}
+
+export interface ICalendarOptions {
+  /** Calendar display name */
+  name: string;
+  /** IANA timezone used for DTSTART/DTEND; UTC when omitted */
+  timezone?: string;
+  /** Timestamp used for DTSTAMP (defaults to now) */
+  generatedAt?: Date;
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escapes text values (SUMMARY, DESCRIPTION, ...) per RFC 5545 section 3.3.11
+ * @param text - Raw text
+ * @returns Escaped text
+ */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Folds a content line longer than 75 characters onto continuation lines
+ * @param line - Unfolded content line
+ * @returns Folded line
+ */
+export const foldICalLine = (line: string): string => {
+  if (line.length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts = [line.slice(0, MAX_LINE_OCTETS)];
+  for (let i = MAX_LINE_OCTETS; i < line.length; i += MAX_LINE_OCTETS - 1) {
+    parts.push(` ${line.slice(i, i + MAX_LINE_OCTETS - 1)}`);
+  }
+  return parts.join("\r\n");
+};
+
+/**
+ * Formats a date as an iCalendar date-time property.
+ * Uses a TZID-qualified local time when a timezone is given, UTC otherwise.
+ * @param name - Property name (e.g. "DTSTART")
+ * @param date - Date to format
+ * @param timezone - Optional IANA timezone
+ * @returns Property line such as "DTSTART;TZID=Europe/Berlin:20250101T093000"
+ */
+export const formatICalDateProperty = (
+  name: string,
+  date: Date,
+  timezone?: string,
+): string => {
+  if (!timezone || timezone === "UTC") {
+    return `${name}:${formatInTimeZone(date, "UTC", "yyyyMMdd'T'HHmmss'Z'")}`;
+  }
+  return `${name};TZID=${timezone}:${formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")}`;
+};
+
+const buildEventLines = (
+  event: ICalendarEvent,
+  options: ICalendarOptions,
+  stamp: Date,
+): string[] => {
+  const lines = [
+    "BEGIN:VEVENT",
+    `UID:${event.uid}`,
+    formatICalDateProperty("DTSTAMP", stamp),
+    formatICalDateProperty("DTSTART", event.start, options.timezone),
+    formatICalDateProperty("DTEND", event.end ?? event.start, options.timezone),
+    `SUMMARY:${escapeICalText(event.summary)}`,
+  ];
+
+  if (event.description) {
+    lines.push(`DESCRIPTION:${escapeICalText(event.description)}`);
+  }
+  if (event.categories && event.categories.length > 0) {
+    lines.push(`CATEGORIES:${event.categories.map(escapeICalText).join(",")}`);
+  }
+
+  lines.push("END:VEVENT");
+  return lines;
+};
+
+/**
+ * Builds a VCALENDAR document containing one VEVENT per event.
+ * TZID values reference IANA zone names, which major calendar apps resolve
+ * without an embedded VTIMEZONE block.
+ * @param events - Events to include
+ * @param options - Calendar name and timezone
+ * @returns .ics file contents
+ */
+export const buildICalendar = (
+  events: ICalendarEvent[],
+  options: ICalendarOptions,
+): string => {
+  const stamp = options.generatedAt ?? new Date();
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//ChastityOS//History Export//EN",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${escapeICalText(options.name)}`,
+  ];
+
+  if (options.timezone) {
+    lines.push(`X-WR-TIMEZONE:${options.timezone}`);
+  }
+
+  events.forEach((event) => {
+    lines.push(...buildEventLines(event, options, stamp));
+  });
+
+  lines.push("END:VCALENDAR");
+  return lines.map(foldICalLine).join("\r\n") + "\r\n";
+};
@@ -0,0 +1,136 @@
+/**
+ * Locale-aware formatting utilities
+ * Honours the user's display settings (language, dateFormat, timeFormat,
+ * startOfWeek) instead of the hard-coded en-US output in ./date.
+ */
+import { format, type Day, type Locale } from "date-fns";
+import { enUS } from "date-fns/locale/en-US";
+import { es } from "date-fns/locale/es";
+import { resolveLanguage, translate, type LanguageCode } from "../i18n";
+import type { DBSettings } from "../../types/database";
+
+export type DisplayFormatSettings = Pick<
+  DBSettings["display"],
+  "dateFormat" | "timeFormat" | "startOfWeek"
+>;
+
+/**
+ * A user's display settings and language, for formatting outside React
+ */
+export interface LocaleOptions {
+  display?: Partial<DisplayFormatSettings>;
+  language?: string;
+}
+
+export const DATE_FORMAT_OPTIONS = [
+  "MM/dd/yyyy",
+  "dd/MM/yyyy",
+  "yyyy-MM-dd",
+  "d MMM yyyy",
+] as const;
+
+const DATE_FNS_LOCALES: Record<LanguageCode, Locale> = { en: enUS, es };
+
+const DURATION_UNITS = [
+  { key: "duration.days", seconds: 86400 },
+  { key: "duration.hours", seconds: 3600 },
+  { key: "duration.minutes", seconds: 60 },
+  { key: "duration.seconds", seconds: 1 },
+] as const;
+
+export const getLocaleOptions = (
+  settings: DBSettings | null | undefined,
+): LocaleOptions => ({
+  display: settings?.display,
+  language: settings?.display?.language || settings?.language,
+});
+
+export const getDateFnsLocale = (language?: string): Locale =>
+  DATE_FNS_LOCALES[resolveLanguage(language)];
+
+/**
+ * Normalise a stored date format to date-fns tokens. Older settings use
+ * moment-style "MM/DD/YYYY", which date-fns would read as day-of-year.
+ */
+export const toDateFnsPattern = (dateFormat?: string): string =>
+  (dateFormat || DATE_FORMAT_OPTIONS[0]).replace(/Y/g, "y").replace(/D/g, "d");
+
+export const getTimePattern = (timeFormat?: "12h" | "24h"): string =>
+  timeFormat === "24h" ? "HH:mm" : "h:mm a";
+
+export const getWeekStartsOn = (startOfWeek?: "monday" | "sunday"): 0 | 1 =>
+  startOfWeek === "monday" ? 1 : 0;
+
+export const formatLocalizedDate = (
+  date: Date,
+  settings: Partial<DisplayFormatSettings>,
+  language?: string,
+): string =>
+  format(date, toDateFnsPattern(settings.dateFormat), {
+    locale: getDateFnsLocale(language),
+  });
+
+export const formatLocalizedTime = (
+  date: Date,
+  settings: Partial<DisplayFormatSettings>,
+  language?: string,
+): string =>
+  format(date, getTimePattern(settings.timeFormat), {
+    locale: getDateFnsLocale(language),
+  });
+
+export const formatLocalizedDateTime = (
+  date: Date,
+  settings: Partial<DisplayFormatSettings>,
+  language?: string,
+): string =>
+  `${formatLocalizedDate(date, settings, language)} ${formatLocalizedTime(date, settings, language)}`;
+
+/**
+ * Weekday names in display order, starting from the user's first day of week
+ */
+export const getLocalizedWeekdays = (
+  settings: Partial<DisplayFormatSettings>,
+  language?: string,
+  width: "abbreviated" | "wide" = "abbreviated",
+): string[] => {
+  const locale = getDateFnsLocale(language);
+  const weekStartsOn = getWeekStartsOn(settings.startOfWeek);
+  return Array.from({ length: 7 }, (_, index) =>
+    locale.localize.day(((index + weekStartsOn) % 7) as Day, { width }),
+  );
+};
+
+/**
+ * Formats a duration in seconds as words, e.g. "2 days and 3 hours".
+ * @param totalSeconds - The duration in seconds
+ * @param language - The user's display language
+ * @param maxUnits - Largest units to include (defaults to 2)
+ */
+export const formatLocalizedDuration = (
+  totalSeconds: number,
+  language?: string,
+  maxUnits = 2,
+): string => {
+  const code = resolveLanguage(language);
+  let remaining =
+    Number.isFinite(totalSeconds) && totalSeconds > 0
+      ? Math.floor(totalSeconds)
+      : 0;
+
+  const parts: string[] = [];
+  for (const unit of DURATION_UNITS) {
+    if (parts.length >= maxUnits) break;
+    const count = Math.floor(remaining / unit.seconds);
+    remaining -= count * unit.seconds;
+    if (count > 0) parts.push(translate(code, unit.key, { count }));
+  }
+
+  if (parts.length === 0) {
+    return translate(code, "duration.seconds", { count: 0 });
+  }
+  return new Intl.ListFormat(code, {
+    style: "long",
+    type: "conjunction",
+  }).format(parts);
+};
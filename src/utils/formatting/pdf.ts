@@ -0,0 +1,263 @@
+/**
+ * PDF formatting utilities
+ * Lays out headings, text, tables and bar charts on A4 pages and writes them
+ * as a PDF 1.4 document using the standard Helvetica fonts
+ */
+import type { CSVValue } from "./csv";
+
+export interface PDFChartBar {
+  label: string;
+  value: number;
+}
+
+export type PDFSection =
+  | { type: "heading"; text: string }
+  | { type: "text"; text: string }
+  | { type: "table"; title?: string; headers: string[]; rows: CSVValue[][] }
+  | { type: "chart"; title: string; bars: PDFChartBar[] };
+
+export interface PDFDocument {
+  title: string;
+  subtitle?: string;
+  sections: PDFSection[];
+}
+
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const BOTTOM = MARGIN + 20; // Leaves room for the page footer
+const BODY_SIZE = 9;
+const ROW_HEIGHT = 14;
+const BAR_HEIGHT = 16;
+const CHART_LABEL_WIDTH = 150;
+const CHART_VALUE_WIDTH = 50;
+
+/**
+ * Escapes text for a PDF string literal. The standard fonts only cover
+ * printable ASCII reliably, so anything else becomes "?".
+ */
+export const escapePDFText = (text: string): string =>
+  text
+    .replace(/[^\x20-\x7e]/g, "?")
+    .replace(/\\/g, "\\\\")
+    .replace(/\(/g, "\\(")
+    .replace(/\)/g, "\\)");
+
+// Helvetica averages about half an em per character
+const fitText = (text: string, width: number, size: number): string => {
+  const maxChars = Math.max(1, Math.floor(width / (size * 0.5)));
+  return text.length > maxChars
+    ? `${text.slice(0, Math.max(0, maxChars - 3))}...`
+    : text;
+};
+
+const cellText = (value: CSVValue): string => {
+  if (value === null || value === undefined) return "";
+  return value instanceof Date ? value.toISOString() : String(value);
+};
+
+const formatNumber = (value: number) =>
+  Number.isInteger(value) ? String(value) : value.toFixed(1);
+
+/**
+ * Accumulates drawing operators page by page, starting a new page whenever
+ * the next block would run into the footer
+ */
+class PageWriter {
+  pages: string[][] = [[]];
+  y = PAGE_HEIGHT - MARGIN;
+
+  private get ops() {
+    return this.pages[this.pages.length - 1]!;
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** @returns Whether a new page was started */
+  ensureSpace(height: number): boolean {
+    if (this.y - height >= BOTTOM) return false;
+    this.newPage();
+    return true;
+  }
+
+  text(x: number, y: number, text: string, size = BODY_SIZE, bold = false) {
+    this.ops.push(
+      `BT /${bold ? "F2" : "F1"} ${size} Tf ${x} ${y} Td (${escapePDFText(text)}) Tj ET`,
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, rgb: string) {
+    this.ops.push(`${rgb} rg ${x} ${y} ${width} ${height} re f 0 g`);
+  }
+
+  line(y: number) {
+    this.ops.push(
+      `0.8 G 0.5 w ${MARGIN} ${y} m ${PAGE_WIDTH - MARGIN} ${y} l S 0 G`,
+    );
+  }
+}
+
+const drawHeading = (writer: PageWriter, text: string, size = 13) => {
+  writer.ensureSpace(size + 16);
+  writer.y -= size + 6;
+  writer.text(MARGIN, writer.y, text, size, true);
+  writer.y -= 10;
+};
+
+const drawText = (writer: PageWriter, text: string) => {
+  writer.ensureSpace(ROW_HEIGHT);
+  writer.y -= ROW_HEIGHT;
+  writer.text(MARGIN, writer.y, fitText(text, CONTENT_WIDTH, BODY_SIZE));
+};
+
+const drawTableRow = (writer: PageWriter, cells: string[], header = false) => {
+  const columnWidth = CONTENT_WIDTH / Math.max(1, cells.length);
+  writer.y -= ROW_HEIGHT;
+  if (header) {
+    writer.rect(MARGIN, writer.y - 4, CONTENT_WIDTH, ROW_HEIGHT, "0.9 0.9 0.9");
+  }
+  cells.forEach((cell, index) => {
+    writer.text(
+      MARGIN + index * columnWidth + 2,
+      writer.y,
+      fitText(cell, columnWidth - 4, BODY_SIZE),
+      BODY_SIZE,
+      header,
+    );
+  });
+  if (!header) writer.line(writer.y - 4);
+};
+
+const drawTable = (
+  writer: PageWriter,
+  section: Extract<PDFSection, { type: "table" }>,
+) => {
+  if (section.title) drawHeading(writer, section.title, 11);
+  writer.ensureSpace(ROW_HEIGHT * 2);
+  drawTableRow(writer, section.headers, true);
+  if (section.rows.length === 0) {
+    drawText(writer, "No records");
+  }
+  for (const row of section.rows) {
+    // Repeat the header at the top of every page the table spans
+    if (writer.ensureSpace(ROW_HEIGHT)) {
+      drawTableRow(writer, section.headers, true);
+    }
+    drawTableRow(writer, row.map(cellText));
+  }
+  writer.y -= 8;
+};
+
+const drawChart = (
+  writer: PageWriter,
+  section: Extract<PDFSection, { type: "chart" }>,
+) => {
+  drawHeading(writer, section.title, 11);
+  if (section.bars.length === 0) {
+    drawText(writer, "No data");
+    return;
+  }
+  const maxValue = Math.max(1, ...section.bars.map((bar) => bar.value));
+  const barArea = CONTENT_WIDTH - CHART_LABEL_WIDTH - CHART_VALUE_WIDTH;
+  for (const bar of section.bars) {
+    writer.ensureSpace(BAR_HEIGHT);
+    writer.y -= BAR_HEIGHT;
+    writer.text(
+      MARGIN,
+      writer.y + 3,
+      fitText(bar.label, CHART_LABEL_WIDTH - 6, BODY_SIZE),
+    );
+    const width = Math.max(0, (bar.value / maxValue) * barArea);
+    writer.rect(
+      MARGIN + CHART_LABEL_WIDTH,
+      writer.y,
+      Math.round(width * 100) / 100,
+      BAR_HEIGHT - 4,
+      "0.25 0.45 0.75",
+    );
+    writer.text(
+      MARGIN + CHART_LABEL_WIDTH + width + 4,
+      writer.y + 3,
+      formatNumber(bar.value),
+    );
+  }
+  writer.y -= 8;
+};
+
+/**
+ * Serializes finished pages into PDF objects with a cross-reference table.
+ * Everything is ASCII, so string offsets are byte offsets.
+ */
+const writePDF = (
+  title: string,
+  pages: string[][],
+): Uint8Array<ArrayBuffer> => {
+  const objects: string[] = [
+    "<< /Type /Catalog /Pages 2 0 R >>",
+    `<< /Type /Pages /Kids [${pages
+      .map((_, i) => `${5 + i * 2} 0 R`)
+      .join(" ")}] /Count ${pages.length} >>`,
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>",
+    "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>",
+  ];
+  pages.forEach((ops, index) => {
+    const footer = `BT /F1 8 Tf ${PAGE_WIDTH / 2 - 20} ${MARGIN - 10} Td (Page ${index + 1} of ${pages.length}) Tj ET`;
+    const stream = [...ops, footer].join("\n");
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+      `<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`,
+    );
+  });
+  objects.push(`<< /Title (${escapePDFText(title)}) >>`);
+
+  let output = "%PDF-1.4\n";
+  const offsets = objects.map((object, index) => {
+    const offset = output.length;
+    output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = output.length;
+  output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  output += offsets
+    .map((offset) => `${String(offset).padStart(10, "0")} 00000 n \n`)
+    .join("");
+  output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return new TextEncoder().encode(output);
+};
+
+/**
+ * Builds a paginated PDF. Tables repeat their header row on each page they
+ * span and every page gets a "Page n of m" footer.
+ * @param document - Title, optional subtitle and the sections in order
+ * @returns The PDF bytes
+ */
+export const toPDF = (document: PDFDocument): Uint8Array<ArrayBuffer> => {
+  const writer = new PageWriter();
+  drawHeading(writer, document.title, 18);
+  if (document.subtitle) drawText(writer, document.subtitle);
+  writer.y -= 6;
+
+  for (const section of document.sections) {
+    switch (section.type) {
+      case "heading":
+        drawHeading(writer, section.text);
+        break;
+      case "text":
+        drawText(writer, section.text);
+        break;
+      case "table":
+        drawTable(writer, section);
+        break;
+      case "chart":
+        drawChart(writer, section);
+        break;
+    }
+  }
+
+  return writePDF(document.title, writer.pages);
+};
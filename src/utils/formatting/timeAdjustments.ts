@@ -0,0 +1,25 @@
+/**
+ * Time adjustment formatting utilities
+ */
+import type { TimeAdjustmentSource } from "../../types/database";
+import { formatElapsedTime } from "./time";
+
+export const TIME_ADJUSTMENT_SOURCE_LABELS: Record<
+  TimeAdjustmentSource,
+  string
+> = {
+  task_approval: "Task approved",
+  task_rejection: "Task rejected",
+  rule_violation: "Rule violation",
+  keyholder: "Keyholder",
+  reward: "Reward",
+  verification_missed: "Missed verification",
+};
+
+/**
+ * Formats a signed adjustment in seconds.
+ * @param seconds - Positive for added time, negative for removed time
+ * @returns Formatted string (e.g., "+01h 00m 00s", "-30m 00s")
+ */
+export const formatAdjustment = (seconds: number): string =>
+  `${seconds < 0 ? "-" : "+"}${formatElapsedTime(Math.abs(seconds))}`;
@@ -0,0 +1,127 @@
+/**
+ * XLSX formatting utilities
+ * Writes Office Open XML workbooks with one worksheet per table
+ */
+import type { CSVValue } from "./csv";
+import { createZip } from "./zip";
+
+export interface XLSXSheet {
+  name: string;
+  headers: string[];
+  rows: CSVValue[][];
+}
+
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+const SHEET_NS = "http://schemas.openxmlformats.org/spreadsheetml/2006/main";
+const REL_NS =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Escapes text for XML content and attributes, dropping characters XML 1.0
+ * cannot represent
+ */
+export const escapeXML = (text: string): string =>
+  text
+    // eslint-disable-next-line no-control-regex
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Spreadsheet column letters for a zero-based index (0 → A, 26 → AA)
+ */
+export const columnName = (index: number): string => {
+  let name = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+/**
+ * Excel sheet names: at most 31 characters, none of []:*?/\, unique
+ */
+const toSheetNames = (sheets: XLSXSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base =
+      sheet.name
+        .replace(/[[\]:*?/\\]/g, " ")
+        .trim()
+        .slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+const cellXML = (value: CSVValue, ref: string): string => {
+  if (value === null || value === undefined || value === "") return "";
+  if (typeof value === "number" && Number.isFinite(value)) {
+    return `<c r="${ref}"><v>${value}</v></c>`;
+  }
+  if (typeof value === "boolean") {
+    return `<c r="${ref}" t="b"><v>${value ? 1 : 0}</v></c>`;
+  }
+  const text = value instanceof Date ? value.toISOString() : String(value);
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXML(text)}</t></is></c>`;
+};
+
+const worksheetXML = (sheet: XLSXSheet): string => {
+  const rows = [sheet.headers, ...sheet.rows].map((row, rowIndex) => {
+    const cells = row
+      .map((value, col) => cellXML(value, `${columnName(col)}${rowIndex + 1}`))
+      .join("");
+    return `<row r="${rowIndex + 1}">${cells}</row>`;
+  });
+  return `${XML_HEADER}<worksheet xmlns="${SHEET_NS}"><sheetData>${rows.join("")}</sheetData></worksheet>`;
+};
+
+/**
+ * Builds an XLSX workbook. Strings are stored inline, so no shared string
+ * table or styles part is needed.
+ * @param sheets - Worksheets in tab order; at least one is written
+ * @returns The workbook bytes
+ */
+export const toXLSX = (sheets: XLSXSheet[]): Uint8Array<ArrayBuffer> => {
+  const workbookSheets: XLSXSheet[] = sheets.length
+    ? sheets
+    : [{ name: "Sheet1", headers: [], rows: [] }];
+  const names = toSheetNames(workbookSheets);
+
+  const contentTypes = `${XML_HEADER}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>${workbookSheets
+    .map(
+      (_, i) =>
+        `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`,
+    )
+    .join("")}</Types>`;
+  const rootRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_NS}/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+  const workbook = `${XML_HEADER}<workbook xmlns="${SHEET_NS}" xmlns:r="${REL_NS}"><sheets>${names
+    .map(
+      (name, i) =>
+        `<sheet name="${escapeXML(name)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`,
+    )
+    .join("")}</sheets></workbook>`;
+  const workbookRels = `${XML_HEADER}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${workbookSheets
+    .map(
+      (_, i) =>
+        `<Relationship Id="rId${i + 1}" Type="${REL_NS}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`,
+    )
+    .join("")}</Relationships>`;
+
+  return createZip([
+    { name: "[Content_Types].xml", data: contentTypes },
+    { name: "_rels/.rels", data: rootRels },
+    { name: "xl/workbook.xml", data: workbook },
+    { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+    ...workbookSheets.map((sheet, i) => ({
+      name: `xl/worksheets/sheet${i + 1}.xml`,
+      data: worksheetXML(sheet),
+    })),
+  ]);
+};
@@ -0,0 +1,92 @@
+/**
+ * Tests for challenge progress measurement
+ */
+import { describe, it, expect } from "vitest";
+import {
+  getChallengeWindow,
+  getRequirementMetric,
+  measureMetric,
+  type ChallengeRecords,
+} from "../challengeProgress";
+import type { DBSession } from "@/types/database";
+
+const session = (start: Date, end?: Date, pauseSeconds = 0) =>
+  ({
+    id: start.toISOString(),
+    userId: "user-1",
+    startTime: start,
+    endTime: end,
+    isPaused: false,
+    accumulatedPauseTime: pauseSeconds,
+  }) as DBSession;
+
+const records = (sessions: DBSession[]): ChallengeRecords => ({
+  sessions,
+  events: [],
+  tasks: [],
+});
+
+const WINDOW = {
+  start: new Date(2024, 2, 1),
+  end: new Date(2024, 2, 15),
+};
+
+describe("challengeProgress", () => {
+  it("counts the window from acceptance up to the end date or now", () => {
+    const window = getChallengeWindow(
+      {
+        startDate: new Date(2024, 2, 1),
+        endDate: new Date(2024, 2, 8),
+        acceptedAt: new Date(2024, 2, 2),
+      },
+      new Date(2024, 2, 20),
+    );
+
+    expect(window).toEqual({
+      start: new Date(2024, 2, 2),
+      end: new Date(2024, 2, 8),
+    });
+  });
+
+  it("falls back to a metric for the requirement type", () => {
+    expect(
+      getRequirementMetric({
+        id: "req",
+        type: "duration",
+        description: "",
+        targetValue: 1,
+        currentValue: 0,
+        completed: false,
+      }),
+    ).toBe("session_hours");
+  });
+
+  it("removes pause time in proportion to the part inside the window", () => {
+    const hours = measureMetric(
+      "session_hours",
+      // 24 hours with 4 paused, half of it before the window
+      records([
+        session(new Date(2024, 1, 29, 12), new Date(2024, 2, 1, 12), 4 * 3600),
+      ]),
+      WINDOW,
+      WINDOW.end,
+    );
+
+    expect(hours).toBe(10);
+  });
+
+  it("finds the longest run of consecutive days in a session", () => {
+    const streak = measureMetric(
+      "streak_days",
+      records([
+        session(new Date(2024, 2, 2, 20), new Date(2024, 2, 4, 8)),
+        session(new Date(2024, 2, 4, 20), new Date(2024, 2, 5, 1)),
+        session(new Date(2024, 2, 9, 10), new Date(2024, 2, 9, 11)),
+      ]),
+      WINDOW,
+      WINDOW.end,
+    );
+
+    expect(streak).toBe(4);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Tests for season helpers
+ */
+import { describe, it, expect } from "vitest";
+import {
+  buildSeason,
+  getCompletedChallengeTypes,
+  getSeasonForDate,
+  isRewardUnlocked,
+} from "../seasons";
+import { SEASON_DEFINITIONS } from "../../../constants/seasons";
+import type { DBGoal } from "@/types/database";
+
+const winter = SEASON_DEFINITIONS.find((season) => season.id === "winter")!;
+
+describe("seasons", () => {
+  it("finds the season running on a date", () => {
+    const season = getSeasonForDate(new Date(2025, 9, 15));
+
+    expect(season).toMatchObject({
+      id: "locktober-2025",
+      challengeType: "locktober",
+      startDate: new Date(2025, 9, 1),
+      isActive: true,
+    });
+    expect(season!.endDate).toEqual(new Date(2025, 9, 31, 23, 59, 59, 999));
+  });
+
+  it("runs winter into the next year and clamps its end to February", () => {
+    const season = buildSeason(winter, 2024, new Date(2025, 0, 10));
+
+    expect(season.isActive).toBe(true);
+    expect(season.endDate).toEqual(new Date(2025, 1, 28, 23, 59, 59, 999));
+    expect(getSeasonForDate(new Date(2025, 1, 28))?.id).toBe("winter-2024");
+  });
+
+  it("unlocks XP tiers and challenge rewards from their requirements", () => {
+    const tier = {
+      requirement: { type: "points" as const, value: 1000, description: "" },
+    };
+    const double = {
+      requirement: {
+        type: "challenge_goal" as const,
+        value: 2,
+        description: "",
+        challengeTypes: ["locktober" as const, "no_nut_november" as const],
+      },
+    };
+
+    expect(isRewardUnlocked(tier, 999, [])).toBe(false);
+    expect(isRewardUnlocked(tier, 1000, [])).toBe(true);
+    expect(isRewardUnlocked(double, 0, ["locktober"])).toBe(false);
+    expect(isRewardUnlocked(double, 0, ["locktober", "no_nut_november"])).toBe(
+      true,
+    );
+  });
+
+  it("only counts special challenge goals completed in the season's year", () => {
+    const goals = [
+      { challengeType: "locktober", challengeYear: 2025, isCompleted: true },
+      { challengeType: "locktober", challengeYear: 2024, isCompleted: true },
+      {
+        challengeType: "no_nut_november",
+        challengeYear: 2025,
+        isCompleted: false,
+      },
+    ] as DBGoal[];
+
+    expect(getCompletedChallengeTypes(goals, 2025)).toEqual(["locktober"]);
+  });
+});
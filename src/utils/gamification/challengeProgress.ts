@@ -0,0 +1,212 @@
+/**
+ * Challenge Progress
+ * Measures accepted challenges against the user's sessions, tasks and events
+ */
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import type { DBEvent, DBSession, DBTask } from "@/types/database";
+import type {
+  ChallengeMetric,
+  ChallengeProgress,
+  ChallengeRequirement,
+  DBChallenge,
+} from "@/types/gamification";
+import { clipSessionToRange } from "../stats/lifetimeStatsHelpers";
+
+export interface ChallengeRecords {
+  sessions: DBSession[];
+  events: DBEvent[];
+  tasks: DBTask[];
+}
+
+export interface ChallengeWindow {
+  start: Date;
+  end: Date;
+}
+
+type MeasuredChallenge = Pick<
+  DBChallenge,
+  "startDate" | "endDate" | "acceptedAt" | "requirements" | "progress"
+>;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Metric used when a requirement doesn't name one
+const DEFAULT_METRICS: Record<ChallengeRequirement["type"], ChallengeMetric> = {
+  duration: "session_hours",
+  count: "sessions_completed",
+  behavior: "tasks_completed",
+  milestone: "streak_days",
+};
+
+const COMPLETED_TASK_STATUSES = new Set<DBTask["status"]>([
+  "approved",
+  "completed",
+]);
+
+const inWindow = (date: Date | undefined, window: ChallengeWindow) =>
+  !!date && date >= window.start && date <= window.end;
+
+export const getRequirementMetric = (
+  requirement: ChallengeRequirement,
+): ChallengeMetric => requirement.metric ?? DEFAULT_METRICS[requirement.type];
+
+/**
+ * The period that counts towards a challenge: from when it was accepted
+ * (or opened, if later) up to its end date or now, whichever is first
+ */
+export function getChallengeWindow(
+  challenge: Pick<DBChallenge, "startDate" | "endDate" | "acceptedAt">,
+  now: Date = new Date(),
+): ChallengeWindow {
+  const start = new Date(
+    Math.max(challenge.startDate.getTime(), challenge.acceptedAt.getTime()),
+  );
+  const end = new Date(Math.min(challenge.endDate.getTime(), now.getTime()));
+  return { start, end };
+}
+
+/**
+ * Locked hours inside the window. Pause time is spread evenly over the
+ * session, so a session half inside the window loses half its pauses.
+ */
+function sessionHours(
+  sessions: DBSession[],
+  window: ChallengeWindow,
+  now: Date,
+): number {
+  return sessions.reduce((total, session) => {
+    const clipped = clipSessionToRange(session, window, now);
+    if (!clipped) return total;
+
+    const ongoingPause =
+      session.isPaused && session.pauseStartTime && !session.endTime
+        ? now.getTime() - session.pauseStartTime.getTime()
+        : 0;
+    const pauseMs =
+      (session.accumulatedPauseTime * 1000 + ongoingPause) * clipped.ratio;
+    const lockedMs = clipped.end.getTime() - clipped.start.getTime() - pauseMs;
+    return total + Math.max(0, lockedMs) / HOUR_MS;
+  }, 0);
+}
+
+/**
+ * Longest run of consecutive calendar days inside the window on which the
+ * user was in a session
+ */
+function streakDays(
+  sessions: DBSession[],
+  window: ChallengeWindow,
+  now: Date,
+): number {
+  const days = new Set<number>();
+  for (const session of sessions) {
+    const clipped = clipSessionToRange(session, window, now);
+    if (!clipped) continue;
+    for (
+      let day = startOfDay(clipped.start);
+      day <= clipped.end;
+      day = addDays(day, 1)
+    ) {
+      days.add(differenceInCalendarDays(day, window.start));
+    }
+  }
+
+  const sorted = [...days].sort((a, b) => a - b);
+  let longest = 0;
+  let run = 0;
+  sorted.forEach((day, index) => {
+    run = index > 0 && day === sorted[index - 1]! + 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+  });
+  return longest;
+}
+
+/**
+ * Current value of one metric over the window
+ */
+export function measureMetric(
+  metric: ChallengeMetric,
+  records: ChallengeRecords,
+  window: ChallengeWindow,
+  now: Date = new Date(),
+): number {
+  switch (metric) {
+    case "session_hours":
+      return sessionHours(records.sessions, window, now);
+    case "streak_days":
+      return streakDays(records.sessions, window, now);
+    case "sessions_completed":
+      return records.sessions.filter((session) =>
+        inWindow(session.endTime, window),
+      ).length;
+    case "tasks_completed":
+      return records.tasks.filter(
+        (task) =>
+          COMPLETED_TASK_STATUSES.has(task.status) &&
+          inWindow(task.completedAt ?? task.approvedAt, window),
+      ).length;
+    case "events_logged":
+      return records.events.filter((event) => inWindow(event.timestamp, window))
+        .length;
+  }
+}
+
+/**
+ * Re-measure every requirement of an accepted challenge. Percentage is the
+ * average progress across requirements, each capped at its target.
+ */
+export function calculateChallengeProgress(
+  challenge: MeasuredChallenge,
+  records: ChallengeRecords,
+  now: Date = new Date(),
+): { requirements: ChallengeRequirement[]; progress: ChallengeProgress } {
+  const window = getChallengeWindow(challenge, now);
+  const measured = challenge.requirements.map((requirement) => {
+    const value = measureMetric(
+      getRequirementMetric(requirement),
+      records,
+      window,
+      now,
+    );
+    const { targetValue } = requirement;
+    return {
+      requirement: {
+        ...requirement,
+        currentValue: Math.round(value * 10) / 10,
+        completed: value >= targetValue,
+      },
+      ratio: targetValue > 0 ? Math.min(1, value / targetValue) : 1,
+    };
+  });
+
+  const requirements = measured.map(({ requirement }) => requirement);
+  const total = requirements.length;
+  const percentage =
+    total === 0
+      ? 0
+      : Math.floor(
+          (measured.reduce((sum, { ratio }) => sum + ratio, 0) / total) * 100,
+        );
+
+  return {
+    requirements,
+    progress: {
+      ...challenge.progress,
+      percentage,
+      requirementsCompleted: requirements.filter((r) => r.completed).length,
+      totalRequirements: total,
+      lastUpdated: now,
+      milestones: challenge.progress.milestones.map((milestone) =>
+        !milestone.achieved && percentage >= milestone.requirement
+          ? { ...milestone, achieved: true, achievedAt: now }
+          : milestone,
+      ),
+    },
+  };
+}
+
+/**
+ * Whether every requirement of a challenge has been met
+ */
+export const isChallengeMet = (challenge: Pick<DBChallenge, "requirements">) =>
+  challenge.requirements.every((requirement) => requirement.completed);
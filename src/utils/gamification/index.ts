@@ -8,7 +8,6 @@ import {
   BadgeCategory,
   ChallengeReward,
   PlayerTitle,
-  SeasonalReward,
   Leaderboard,
   LeaderboardCategory,
   LeaderboardPeriod,
@@ -66,25 +65,6 @@ export const getUnlockedFeatures = (level: number): string[] => {
   return features;
 };
 
-/**
- * Generate seasonal rewards
- */
-export const generateSeasonalRewards = (): SeasonalReward[] => [
-  {
-    id: "winter-badge",
-    name: "Winter Warrior",
-    description: "Complete 10 challenges during winter season",
-    type: "badge",
-    requirement: {
-      type: "challenges",
-      value: 10,
-      description: "Complete 10 challenges",
-    },
-    claimed: false,
-    exclusive: true,
-  },
-];
-
 /**
  * Generate sample leaderboards
  */
@@ -0,0 +1,110 @@
+/**
+ * Season Helpers
+ * Turns the yearly season calendar into dated seasons and works out which
+ * rewards on a season's track a user has unlocked
+ */
+import { endOfDay, getDaysInMonth } from "date-fns";
+import type { DBGoal } from "@/types/database";
+import type {
+  Season,
+  SeasonChallengeType,
+  SeasonDefinition,
+  SeasonalReward,
+} from "@/types/gamification";
+import { SEASON_DEFINITIONS } from "../../constants/seasons";
+
+// Clamps the day so a 29 February end falls on the 28th in other years
+const toDate = (year: number, { month, day }: SeasonDefinition["start"]) =>
+  new Date(
+    year,
+    month - 1,
+    Math.min(day, getDaysInMonth(new Date(year, month - 1))),
+  );
+
+/**
+ * The dated season a definition describes for the year it starts in
+ */
+export function buildSeason(
+  definition: SeasonDefinition,
+  startYear: number,
+  now: Date = new Date(),
+): Season {
+  const endYear =
+    definition.end.month < definition.start.month ? startYear + 1 : startYear;
+  const startDate = toDate(startYear, definition.start);
+  const endDate = endOfDay(toDate(endYear, definition.end));
+
+  return {
+    id: `${definition.id}-${startYear}`,
+    name: definition.name,
+    description: definition.description,
+    theme: definition.theme,
+    startDate,
+    endDate,
+    rewards: definition.rewards.map((reward) => ({
+      ...reward,
+      claimed: false,
+    })),
+    challenges: definition.challenges,
+    leaderboards: [],
+    isActive: startDate <= now && now <= endDate,
+    challengeType: definition.challengeType,
+  };
+}
+
+/**
+ * The season running on a date, or null between seasons
+ */
+export function getSeasonForDate(
+  date: Date,
+  definitions: SeasonDefinition[] = SEASON_DEFINITIONS,
+): Season | null {
+  const year = date.getFullYear();
+  for (const definition of definitions) {
+    // A season running into this year started last year
+    for (const startYear of [year, year - 1]) {
+      const season = buildSeason(definition, startYear, date);
+      if (season.isActive) return season;
+    }
+  }
+  return null;
+}
+
+/**
+ * Special challenge goal types the user completed in a year
+ */
+export const getCompletedChallengeTypes = (
+  goals: DBGoal[],
+  year: number,
+): SeasonChallengeType[] => [
+  ...new Set(
+    goals
+      .filter((goal) => goal.isCompleted && goal.challengeYear === year)
+      .flatMap((goal) => (goal.challengeType ? [goal.challengeType] : [])),
+  ),
+];
+
+/**
+ * Whether a reward's requirement is met by the season XP earned and the
+ * special challenge goals completed. Rank and challenge-count rewards
+ * aren't offered on season tracks and never unlock.
+ */
+export function isRewardUnlocked(
+  reward: Pick<SeasonalReward, "requirement">,
+  experience: number,
+  completedChallengeTypes: SeasonChallengeType[],
+): boolean {
+  const { requirement } = reward;
+  switch (requirement.type) {
+    case "participation":
+      return true;
+    case "points":
+      return experience >= requirement.value;
+    case "challenge_goal":
+      return (requirement.challengeTypes ?? []).every((type) =>
+        completedChallengeTypes.includes(type),
+      );
+    default:
+      return false;
+  }
+}
@@ -0,0 +1,198 @@
+import { describe, it, expect } from "vitest";
+import {
+  GoalPromptError,
+  generateGoalPlan,
+  getGrowthFactor,
+  getPlanBaseline,
+  parseGoalPrompt,
+  planDurationSteps,
+  type PlanBaseline,
+} from "../planner";
+import { detectConflicts, generateTimeline } from "../optimization";
+import { GoalStatus, GoalType } from "../../../types/goals";
+import type { DBSession } from "../../../types/database";
+
+const DAY = 86400;
+const NOW = new Date(2024, 8, 1, 9, 0, 0); // 1 September 2024
+
+const session = (
+  daysAgo: number,
+  ranDays: number,
+  goalDays?: number,
+): DBSession => {
+  const startTime = new Date(NOW.getTime() - daysAgo * DAY * 1000);
+  return {
+    id: `s-${daysAgo}`,
+    userId: "user1",
+    syncStatus: "synced",
+    lastModified: startTime,
+    startTime,
+    endTime: new Date(startTime.getTime() + ranDays * DAY * 1000),
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    goalDuration: goalDays ? goalDays * DAY : undefined,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+  };
+};
+
+const baseline = (overrides: Partial<PlanBaseline> = {}): PlanBaseline => ({
+  comfortableDays: 3,
+  sessionsPerWeek: 1,
+  completionRate: 100,
+  sampleSize: 5,
+  ...overrides,
+});
+
+describe("goal plan generator", () => {
+  describe("parseGoalPrompt", () => {
+    it("parses a duration target with a month deadline", () => {
+      expect(parseGoalPrompt("Build up to 30 days by December", NOW)).toEqual({
+        kind: "duration",
+        targetDays: 30,
+        deadline: new Date(2024, 11, 31, 23, 59, 59, 999),
+      });
+    });
+
+    it("rolls a past month over to next year", () => {
+      const parsed = parseGoalPrompt("2 weeks by march", NOW);
+      expect(parsed).toMatchObject({ kind: "duration", targetDays: 14 });
+      expect(parsed.deadline?.getFullYear()).toBe(2025);
+    });
+
+    it("does not mistake a relative deadline for the target", () => {
+      const parsed = parseGoalPrompt("reach 30 days within 2 months", NOW);
+      expect(parsed).toMatchObject({ kind: "duration", targetDays: 30 });
+      expect(parsed.deadline).toEqual(new Date(2024, 10, 1, 9, 0, 0));
+    });
+
+    it("parses session frequency", () => {
+      expect(parseGoalPrompt("3 sessions a week", NOW)).toEqual({
+        kind: "frequency",
+        sessionsPerWeek: 3,
+        weeks: 4,
+        deadline: undefined,
+      });
+      expect(parseGoalPrompt("five times per week for 6 weeks", NOW)).toEqual(
+        expect.objectContaining({ sessionsPerWeek: 5, weeks: 6 }),
+      );
+    });
+
+    it("rejects prompts without a target", () => {
+      expect(() => parseGoalPrompt("be good", NOW)).toThrow(GoalPromptError);
+      expect(() => parseGoalPrompt("   ", NOW)).toThrow("Describe the goal");
+      expect(() => parseGoalPrompt("9 sessions a week", NOW)).toThrow(
+        "between 1 and 7",
+      );
+    });
+  });
+
+  describe("history baseline", () => {
+    it("starts from the typical length of recent sessions", () => {
+      const history = [
+        session(40, 2, 2),
+        session(30, 4, 4),
+        session(20, 5, 5),
+        session(10, 1, 3),
+      ];
+      const result = getPlanBaseline(history, NOW);
+      expect(result.comfortableDays).toBe(3);
+      expect(result.completionRate).toBe(75);
+      expect(result.sessionsPerWeek).toBe(0.5);
+    });
+
+    it("grows more boldly for reliable finishers", () => {
+      expect(getGrowthFactor(baseline({ completionRate: 90 }))).toBe(1.5);
+      expect(getGrowthFactor(baseline({ completionRate: 40 }))).toBe(1.15);
+      expect(getGrowthFactor(baseline({ sampleSize: 0 }))).toBe(1.25);
+    });
+  });
+
+  describe("planDurationSteps", () => {
+    it("builds progressive steps ending at the target", () => {
+      const steps = planDurationSteps(30, baseline());
+      expect(steps[0]).toBe(3);
+      expect(steps[steps.length - 1]).toBe(30);
+      steps.slice(1).forEach((days, index) => {
+        expect(days).toBeGreaterThan(steps[index]!);
+      });
+    });
+
+    it("takes smaller steps for users who often fall short", () => {
+      const cautious = planDurationSteps(30, baseline({ completionRate: 30 }));
+      const bold = planDurationSteps(30, baseline({ completionRate: 95 }));
+      expect(cautious.length).toBeGreaterThan(bold.length);
+    });
+
+    it("compresses the plan to fit a deadline", () => {
+      const relaxed = planDurationSteps(30, baseline({ completionRate: 30 }));
+      const rushed = planDurationSteps(
+        30,
+        baseline({ completionRate: 30 }),
+        70,
+      );
+      expect(rushed.length).toBeLessThan(relaxed.length);
+    });
+  });
+
+  describe("generateGoalPlan", () => {
+    it("is deterministic for the same prompt, history and date", () => {
+      const history = [session(20, 2, 2), session(10, 3, 3)];
+      expect(generateGoalPlan("30 days", history, NOW)).toEqual(
+        generateGoalPlan("30 days", history, NOW),
+      );
+    });
+
+    it("schedules duration steps back to back with a rest day", () => {
+      const goals = generateGoalPlan("build up to 10 days", [], NOW);
+
+      expect(goals.every((goal) => goal.type === GoalType.DURATION)).toBe(true);
+      expect(goals[goals.length - 1]!.target.value).toBe(10);
+      goals.slice(1).forEach((goal, index) => {
+        const previous = goals[index]!;
+        expect(goal.scheduledStart!.getTime()).toBe(
+          previous.estimatedCompletion.getTime() + DAY * 1000,
+        );
+      });
+    });
+
+    it("ramps weekly frequency goals up to the target", () => {
+      const goals = generateGoalPlan("4 sessions a week", [], NOW);
+      expect(goals.map((goal) => goal.target.value)).toEqual([1, 2, 3, 4]);
+      expect(goals[0]!.type).toBe(GoalType.FREQUENCY);
+    });
+
+    it("feeds generateTimeline and detectConflicts", () => {
+      const goals = generateGoalPlan("60 days by september 20", [], NOW);
+      // "september 20" isn't a year, so the deadline is the end of September
+      const timeline = generateTimeline(goals);
+      const conflicts = detectConflicts(goals);
+
+      expect(timeline).toHaveLength(goals.length);
+      expect(conflicts.some((conflict) => conflict.type === "time")).toBe(true);
+    });
+  });
+
+  describe("detectConflicts", () => {
+    it("flags overlapping active duration goals", () => {
+      const [first] = generateGoalPlan("7 days", [], NOW);
+      const overlapping = {
+        ...first!,
+        id: "existing",
+        title: "Existing goal",
+        progress: { ...first!.progress, status: GoalStatus.ACTIVE },
+      };
+      const conflicts = detectConflicts([first!, overlapping]);
+      expect(conflicts).toEqual([
+        expect.objectContaining({
+          type: "resource",
+          goalIds: [first!.id, "existing"],
+        }),
+      ]);
+    });
+
+    it("finds no conflicts in a plan that fits", () => {
+      expect(detectConflicts(generateGoalPlan("14 days", [], NOW))).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * Random Duration Tests
+ * Seeded dice-roll goals, weighting and re-roll rules
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  createRandomGoal,
+  getRandomGoalDuration,
+  rerollRandomGoal,
+  rollGoalTarget,
+  rollRandomDuration,
+  type RandomDurationRange,
+} from "../randomDuration";
+
+const HOUR = 3600;
+
+const range: RandomDurationRange = {
+  minSeconds: 24 * HOUR,
+  maxSeconds: 72 * HOUR,
+  distribution: "uniform",
+};
+
+const averageRoll = (distribution: RandomDurationRange["distribution"]) => {
+  let total = 0;
+  for (let seed = 0; seed < 500; seed++) {
+    total += rollRandomDuration({ ...range, distribution }, seed);
+  }
+  return total / 500;
+};
+
+describe("rollRandomDuration", () => {
+  it("should produce the same duration for the same seed and roll", () => {
+    expect(rollRandomDuration(range, 1234, 2)).toBe(
+      rollRandomDuration(range, 1234, 2),
+    );
+  });
+
+  it("should stay within the range and round to whole minutes", () => {
+    for (let seed = 0; seed < 100; seed++) {
+      const seconds = rollRandomDuration(range, seed * 7919);
+      expect(seconds).toBeGreaterThanOrEqual(range.minSeconds);
+      expect(seconds).toBeLessThanOrEqual(range.maxSeconds);
+      expect(seconds % 60).toBe(0);
+    }
+  });
+
+  it("should accept a reversed range", () => {
+    const seconds = rollRandomDuration(
+      { ...range, minSeconds: range.maxSeconds, maxSeconds: range.minSeconds },
+      42,
+    );
+    expect(seconds).toBeGreaterThanOrEqual(range.minSeconds);
+    expect(seconds).toBeLessThanOrEqual(range.maxSeconds);
+  });
+
+  it("should weight rolls toward the favored end", () => {
+    const uniform = averageRoll("uniform");
+    expect(averageRoll("favor_short")).toBeLessThan(uniform);
+    expect(averageRoll("favor_long")).toBeGreaterThan(uniform);
+  });
+});
+
+describe("createRandomGoal", () => {
+  it("should record the seed and an initial kept roll", () => {
+    const now = new Date("2024-03-10T12:00:00Z");
+    const record = createRandomGoal(range, {
+      seed: 99,
+      hideUntilComplete: true,
+      now,
+    });
+
+    expect(record.seed).toBe(99);
+    expect(record.hideUntilComplete).toBe(true);
+    expect(record.rolls).toEqual([
+      {
+        seconds: rollRandomDuration(range, 99, 0),
+        rolledAt: now,
+        reason: "initial",
+        kept: true,
+      },
+    ]);
+    expect(getRandomGoalDuration(record)).toBe(record.rolls[0]?.seconds);
+  });
+});
+
+describe("rerollRandomGoal", () => {
+  const findSeed = (predicate: (first: number, second: number) => boolean) => {
+    for (let seed = 0; seed < 1000; seed++) {
+      const first = rollRandomDuration(range, seed, 0);
+      const second = rollRandomDuration(range, seed, 1);
+      if (predicate(first, second)) return seed;
+    }
+    throw new Error("No matching seed");
+  };
+
+  it("should keep a shorter roll as a reward", () => {
+    const seed = findSeed((first, second) => second < first);
+    const record = rerollRandomGoal(
+      createRandomGoal(range, { seed }),
+      "reward",
+    );
+
+    expect(record.rolls).toHaveLength(2);
+    expect(record.rolls[1]?.kept).toBe(true);
+    expect(getRandomGoalDuration(record)).toBe(
+      rollRandomDuration(range, seed, 1),
+    );
+  });
+
+  it("should discard a shorter roll as a punishment", () => {
+    const seed = findSeed((first, second) => second < first);
+    const initial = createRandomGoal(range, { seed });
+    const record = rerollRandomGoal(initial, "punishment");
+
+    expect(record.rolls[1]?.kept).toBe(false);
+    expect(record.rolls[1]?.reason).toBe("punishment");
+    expect(getRandomGoalDuration(record)).toBe(getRandomGoalDuration(initial));
+  });
+
+  it("should keep a longer roll as a punishment", () => {
+    const seed = findSeed((first, second) => second > first);
+    const record = rerollRandomGoal(
+      createRandomGoal(range, { seed }),
+      "punishment",
+    );
+
+    expect(getRandomGoalDuration(record)).toBe(
+      rollRandomDuration(range, seed, 1),
+    );
+  });
+});
+
+describe("rollGoalTarget", () => {
+  it("should resolve a duration range to a minimum target", () => {
+    const result = rollGoalTarget(
+      { value: 2, rangeMax: 4, unit: "days", comparison: "range" },
+      "uniform",
+      { seed: 7 },
+    );
+
+    expect(result).not.toBeNull();
+    expect(result?.target.comparison).toBe("minimum");
+    expect(result?.target.unit).toBe("days");
+    expect(result?.target.value).toBeGreaterThanOrEqual(2);
+    expect(result?.target.value).toBeLessThanOrEqual(4);
+    expect(result?.record.minSeconds).toBe(2 * 86400);
+    expect(result?.record.seed).toBe(7);
+  });
+
+  it("should ignore targets that are not duration ranges", () => {
+    expect(
+      rollGoalTarget(
+        { value: 2, unit: "days", comparison: "minimum" },
+        "uniform",
+      ),
+    ).toBeNull();
+    expect(
+      rollGoalTarget(
+        { value: 2, rangeMax: 5, unit: "sessions", comparison: "range" },
+        "uniform",
+      ),
+    ).toBeNull();
+  });
+});
@@ -2,7 +2,14 @@
  * Goal optimization helper functions
  */
 
-import { EnhancedGoal, GoalDifficulty } from "../../types/goals";
+import {
+  EnhancedGoal,
+  GoalCategory,
+  GoalDifficulty,
+  GoalStatus,
+  GoalType,
+  PlanConflict,
+} from "../../types/goals";
 
 export function calculateEstimatedCompletion(
   difficulty: GoalDifficulty,
@@ -30,8 +37,61 @@ export function generateTimeline(goals: EnhancedGoal[]) {
   }));
 }
 
-export function detectConflicts(_goals: EnhancedGoal[]) {
-  return [];
+// Planned window for a goal: scheduled (or actual) start to estimated completion
+const goalWindow = (goal: EnhancedGoal) => ({
+  start: (goal.scheduledStart ?? goal.startedAt ?? goal.createdAt).getTime(),
+  end: goal.estimatedCompletion.getTime(),
+});
+
+const isOpenDurationGoal = (goal: EnhancedGoal) =>
+  goal.type === GoalType.DURATION &&
+  goal.category === GoalCategory.CHASTITY &&
+  goal.progress.status === GoalStatus.ACTIVE;
+
+/**
+ * Find goals that miss their deadline, and chastity duration goals that
+ * would need to run at the same time
+ */
+export function detectConflicts(goals: EnhancedGoal[]): PlanConflict[] {
+  const conflicts: PlanConflict[] = [];
+
+  goals.forEach((goal) => {
+    if (goal.deadline && goal.estimatedCompletion > goal.deadline) {
+      conflicts.push({
+        goalIds: [goal.id],
+        type: "time",
+        description: `"${goal.title}" is not expected to finish before its deadline`,
+        severity: "high",
+        suggestions: [
+          "Extend the deadline",
+          "Lower the final target",
+          "Start from a longer first step",
+        ],
+      });
+    }
+  });
+
+  const durationGoals = goals.filter(isOpenDurationGoal);
+  durationGoals.forEach((goal, index) => {
+    const window = goalWindow(goal);
+    durationGoals.slice(index + 1).forEach((other) => {
+      const otherWindow = goalWindow(other);
+      if (window.start < otherWindow.end && otherWindow.start < window.end) {
+        conflicts.push({
+          goalIds: [goal.id, other.id],
+          type: "resource",
+          description: `"${goal.title}" and "${other.title}" overlap, but only one session can run at a time`,
+          severity: "medium",
+          suggestions: [
+            "Schedule one goal after the other",
+            "Combine them into a single goal",
+          ],
+        });
+      }
+    });
+  });
+
+  return conflicts;
 }
 
 export function generatePlanRecommendations(_goals: EnhancedGoal[]) {
@@ -0,0 +1,455 @@
+/**
+ * Goal plan generator
+ * Turns short prompts ("build up to 30 days by December", "3 sessions a week")
+ * into a progressive series of goals sized from the user's session history.
+ * Fully deterministic and offline: the same prompt, history and date always
+ * produce the same plan.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfMonth,
+} from "date-fns";
+import {
+  EnhancedGoal,
+  GoalCategory,
+  GoalDifficulty,
+  GoalStatus,
+  GoalType,
+} from "../../types/goals";
+import type { DBSession } from "../../types/database";
+import { analyzeSessionHistory } from "../statistics/predictions";
+
+export type GoalPromptFailure = "empty" | "unrecognized" | "invalid_target";
+
+export class GoalPromptError extends Error {
+  constructor(
+    public readonly reason: GoalPromptFailure,
+    message: string,
+  ) {
+    super(message);
+    this.name = "GoalPromptError";
+  }
+}
+
+export type ParsedGoalPrompt =
+  | { kind: "duration"; targetDays: number; deadline?: Date }
+  | {
+      kind: "frequency";
+      sessionsPerWeek: number;
+      weeks: number;
+      deadline?: Date;
+    };
+
+export interface PlanBaseline {
+  comfortableDays: number; // typical length of recent sessions that weren't cut short
+  sessionsPerWeek: number; // over the last four weeks
+  completionRate: number; // percentage of goal sessions completed
+  sampleSize: number;
+}
+
+const DAY_MS = 86400 * 1000;
+const DEFAULT_FREQUENCY_WEEKS = 4;
+const MAX_TARGET_DAYS = 365;
+const REST_DAYS = 1;
+const MAX_GROWTH = 2;
+const MIN_SAMPLE_SIZE = 3;
+
+const MONTHS = [
+  "january",
+  "february",
+  "march",
+  "april",
+  "may",
+  "june",
+  "july",
+  "august",
+  "september",
+  "october",
+  "november",
+  "december",
+];
+
+const NUMBER_WORDS: Record<string, number> = {
+  one: 1,
+  two: 2,
+  three: 3,
+  four: 4,
+  five: 5,
+  six: 6,
+  seven: 7,
+};
+
+const NUMBER = `(\\d+|${Object.keys(NUMBER_WORDS).join("|")})`;
+const UNIT = "(day|week|month)s?";
+
+const FREQUENCY_PATTERN = new RegExp(
+  `${NUMBER}\\s*(?:sessions?|times)\\s*(?:a|per|each)\\s*week`,
+);
+const RELATIVE_DEADLINE_PATTERN = new RegExp(
+  `\\b(?:in|within)\\s+${NUMBER}\\s*${UNIT}\\b`,
+);
+const FOR_WEEKS_PATTERN = new RegExp(`\\bfor\\s+${NUMBER}\\s*weeks?\\b`);
+const ISO_DEADLINE_PATTERN = /\bby\s+(\d{4}-\d{2}-\d{2})\b/;
+const MONTH_DEADLINE_PATTERN = new RegExp(
+  `\\bby\\s+(?:the\\s+end\\s+of\\s+)?(${MONTHS.join("|")})(?:\\s+(\\d{4}))?\\b`,
+);
+const DURATION_PATTERN = new RegExp(`${NUMBER}\\s*${UNIT}\\b`);
+
+const toNumber = (value: string): number =>
+  NUMBER_WORDS[value] ?? parseInt(value, 10);
+
+const addUnits = (date: Date, amount: number, unit: string): Date => {
+  if (unit === "month") return addMonths(date, amount);
+  if (unit === "week") return addWeeks(date, amount);
+  return addDays(date, amount);
+};
+
+const unitToDays = (amount: number, unit: string): number => {
+  if (unit === "month") return amount * 30;
+  if (unit === "week") return amount * 7;
+  return amount;
+};
+
+/**
+ * Find a deadline phrase and return it with the phrase removed, so its
+ * number isn't mistaken for the goal target ("30 days within 2 months").
+ */
+const extractDeadline = (
+  text: string,
+  now: Date,
+): { deadline?: Date; rest: string } => {
+  const relative = text.match(RELATIVE_DEADLINE_PATTERN);
+  if (relative) {
+    return {
+      deadline: addUnits(now, toNumber(relative[1]!), relative[2]!),
+      rest: text.replace(relative[0], " "),
+    };
+  }
+
+  const iso = text.match(ISO_DEADLINE_PATTERN);
+  if (iso) {
+    return {
+      deadline: new Date(`${iso[1]}T23:59:59`),
+      rest: text.replace(iso[0], " "),
+    };
+  }
+
+  const month = text.match(MONTH_DEADLINE_PATTERN);
+  if (month) {
+    const monthIndex = MONTHS.indexOf(month[1]!);
+    // A bare month means its next occurrence, including the current month
+    const year = month[2]
+      ? parseInt(month[2], 10)
+      : now.getFullYear() + (monthIndex < now.getMonth() ? 1 : 0);
+    return {
+      deadline: endOfMonth(new Date(year, monthIndex, 1)),
+      rest: text.replace(month[0], " "),
+    };
+  }
+
+  return { rest: text };
+};
+
+/**
+ * Parse a free-text goal prompt
+ * @throws GoalPromptError when no duration or frequency target is found
+ */
+export function parseGoalPrompt(
+  prompt: string,
+  now: Date = new Date(),
+): ParsedGoalPrompt {
+  const text = prompt.trim().toLowerCase();
+  if (!text) throw new GoalPromptError("empty", "Describe the goal to plan");
+
+  const { deadline, rest } = extractDeadline(text, now);
+
+  const frequency = rest.match(FREQUENCY_PATTERN);
+  if (frequency) {
+    const sessionsPerWeek = toNumber(frequency[1]!);
+    if (sessionsPerWeek < 1 || sessionsPerWeek > 7) {
+      throw new GoalPromptError(
+        "invalid_target",
+        "Sessions per week must be between 1 and 7",
+      );
+    }
+    const forWeeks = rest.match(FOR_WEEKS_PATTERN);
+    const weeks = forWeeks
+      ? toNumber(forWeeks[1]!)
+      : deadline
+        ? Math.max(1, Math.ceil(differenceInCalendarDays(deadline, now) / 7))
+        : DEFAULT_FREQUENCY_WEEKS;
+    return { kind: "frequency", sessionsPerWeek, weeks, deadline };
+  }
+
+  const duration = rest.match(DURATION_PATTERN);
+  if (duration) {
+    const targetDays = unitToDays(toNumber(duration[1]!), duration[2]!);
+    if (targetDays < 1 || targetDays > MAX_TARGET_DAYS) {
+      throw new GoalPromptError(
+        "invalid_target",
+        `Goal length must be between 1 and ${MAX_TARGET_DAYS} days`,
+      );
+    }
+    return { kind: "duration", targetDays, deadline };
+  }
+
+  throw new GoalPromptError(
+    "unrecognized",
+    'Try something like "build up to 30 days by December" or "3 sessions a week"',
+  );
+}
+
+const median = (values: number[]): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2
+    ? sorted[middle]!
+    : (sorted[middle - 1]! + sorted[middle]!) / 2;
+};
+
+/**
+ * Summarise session history into the starting point for a plan
+ */
+export function getPlanBaseline(
+  sessions: DBSession[],
+  now: Date = new Date(),
+): PlanBaseline {
+  const recentLengths = sessions
+    .filter((session) => session.endTime && !session.isEmergencyUnlock)
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())
+    .slice(0, 10)
+    .map(
+      (session) =>
+        (session.endTime!.getTime() - session.startTime.getTime()) / DAY_MS -
+        (session.accumulatedPauseTime || 0) / 86400,
+    );
+  const fourWeeksAgo = now.getTime() - 28 * DAY_MS;
+  const recentStarts = sessions.filter(
+    (session) => session.startTime.getTime() >= fourWeeksAgo,
+  ).length;
+  const { completion } = analyzeSessionHistory(sessions, now);
+
+  return {
+    comfortableDays: Math.max(1, Math.floor(median(recentLengths))),
+    sessionsPerWeek: recentStarts / 4,
+    completionRate: completion.rate,
+    sampleSize: completion.sampleSize,
+  };
+}
+
+/**
+ * How much each step may grow on the last: bolder for users who reliably
+ * finish their goals, cautious when there isn't enough history to tell.
+ */
+export const getGrowthFactor = (baseline: PlanBaseline): number => {
+  if (baseline.sampleSize < MIN_SAMPLE_SIZE) return 1.25;
+  if (baseline.completionRate >= 80) return 1.5;
+  if (baseline.completionRate >= 50) return 1.3;
+  return 1.15;
+};
+
+const buildSteps = (start: number, target: number, growth: number) => {
+  const steps: number[] = [];
+  for (let days = start; days < target; ) {
+    steps.push(days);
+    days = Math.max(days + 1, Math.round(days * growth));
+  }
+  steps.push(target);
+  return steps;
+};
+
+const scheduleLength = (steps: number[]): number =>
+  steps.reduce((sum, days) => sum + days, 0) + REST_DAYS * (steps.length - 1);
+
+/**
+ * Step lengths from the comfortable baseline up to the target. With a
+ * deadline, growth is raised (up to 2x per step) until the plan fits; plans
+ * that still overrun are left for detectConflicts to flag.
+ */
+export function planDurationSteps(
+  targetDays: number,
+  baseline: PlanBaseline,
+  availableDays?: number,
+): number[] {
+  const start = Math.min(baseline.comfortableDays, targetDays);
+  let growth = getGrowthFactor(baseline);
+  let steps = buildSteps(start, targetDays, growth);
+
+  while (
+    availableDays !== undefined &&
+    scheduleLength(steps) > availableDays &&
+    growth < MAX_GROWTH
+  ) {
+    growth = Math.min(MAX_GROWTH, growth + 0.1);
+    steps = buildSteps(start, targetDays, growth);
+  }
+  return steps;
+}
+
+const difficultyFor = (days: number, comfortable: number): GoalDifficulty => {
+  const ratio = days / comfortable;
+  if (ratio <= 1) return GoalDifficulty.EASY;
+  if (ratio <= 2) return GoalDifficulty.MEDIUM;
+  if (ratio <= 4) return GoalDifficulty.HARD;
+  return GoalDifficulty.EXTREME;
+};
+
+interface StepGoalParams {
+  id: string;
+  type: GoalType;
+  title: string;
+  description: string;
+  target: EnhancedGoal["target"];
+  difficulty: GoalDifficulty;
+  scheduledStart: Date;
+  estimatedCompletion: Date;
+  deadline?: Date;
+  planId: string;
+  now: Date;
+}
+
+const createStepGoal = (params: StepGoalParams): EnhancedGoal => ({
+  id: params.id,
+  type: params.type,
+  category: GoalCategory.CHASTITY,
+  title: params.title,
+  description: params.description,
+  target: params.target,
+  progress: {
+    current: 0,
+    target: params.target.value,
+    percentage: 0,
+    status: GoalStatus.ACTIVE,
+    milestones: [],
+    lastUpdated: params.now,
+  },
+  milestones: [
+    {
+      id: `${params.id}-halfway`,
+      name: "Halfway",
+      description: `Reach ${params.target.value / 2} ${params.target.unit}`,
+      target: params.target.value / 2,
+      achieved: false,
+    },
+    {
+      id: `${params.id}-complete`,
+      name: "Complete",
+      description: params.target.description,
+      target: params.target.value,
+      achieved: false,
+    },
+  ],
+  aiGenerated: true,
+  difficulty: params.difficulty,
+  estimatedCompletion: params.estimatedCompletion,
+  createdAt: params.now,
+  scheduledStart: params.scheduledStart,
+  deadline: params.deadline,
+  tags: ["ai-generated", "goal-plan", params.planId],
+  isPublic: false,
+});
+
+const buildDurationPlan = (
+  parsed: Extract<ParsedGoalPrompt, { kind: "duration" }>,
+  baseline: PlanBaseline,
+  planId: string,
+  now: Date,
+): EnhancedGoal[] => {
+  const availableDays = parsed.deadline
+    ? differenceInCalendarDays(parsed.deadline, now)
+    : undefined;
+  const steps = planDurationSteps(parsed.targetDays, baseline, availableDays);
+
+  let cursor = now;
+  return steps.map((days, index) => {
+    const scheduledStart = cursor;
+    const estimatedCompletion = addDays(scheduledStart, days);
+    cursor = addDays(estimatedCompletion, REST_DAYS);
+    const isFinal = index === steps.length - 1;
+
+    return createStepGoal({
+      id: `${planId}-step-${index + 1}`,
+      type: GoalType.DURATION,
+      title: isFinal
+        ? `Reach ${days} days`
+        : `Step ${index + 1}: ${days} day${days === 1 ? "" : "s"}`,
+      description: `Step ${index + 1} of ${steps.length} towards ${parsed.targetDays} days`,
+      target: {
+        type: "duration",
+        value: days,
+        unit: "days",
+        description: `${days} days of continuous wear`,
+      },
+      difficulty: difficultyFor(days, baseline.comfortableDays),
+      scheduledStart,
+      estimatedCompletion,
+      deadline: parsed.deadline,
+      planId,
+      now,
+    });
+  });
+};
+
+const buildFrequencyPlan = (
+  parsed: Extract<ParsedGoalPrompt, { kind: "frequency" }>,
+  baseline: PlanBaseline,
+  planId: string,
+  now: Date,
+): EnhancedGoal[] => {
+  const target = parsed.sessionsPerWeek;
+  const increment = getGrowthFactor(baseline) >= 1.5 ? 2 : 1;
+  let perWeek = Math.min(
+    target,
+    Math.max(1, Math.ceil(baseline.sessionsPerWeek)),
+  );
+
+  return Array.from({ length: parsed.weeks }, (_, index) => {
+    if (index > 0) perWeek = Math.min(target, perWeek + increment);
+    const scheduledStart = addWeeks(now, index);
+
+    return createStepGoal({
+      id: `${planId}-week-${index + 1}`,
+      type: GoalType.FREQUENCY,
+      title: `Week ${index + 1}: ${perWeek} session${perWeek === 1 ? "" : "s"}`,
+      description: `Week ${index + 1} of ${parsed.weeks} towards ${target} sessions a week`,
+      target: {
+        type: "count",
+        value: perWeek,
+        unit: "sessions",
+        description: `${perWeek} sessions this week`,
+      },
+      difficulty: difficultyFor(perWeek, Math.max(1, baseline.sessionsPerWeek)),
+      scheduledStart,
+      estimatedCompletion: addWeeks(scheduledStart, 1),
+      deadline: parsed.deadline,
+      planId,
+      now,
+    });
+  });
+};
+
+/**
+ * Generate a progressive goal plan from a prompt
+ * @param prompt - e.g. "build up to 30 days by December"
+ * @param sessions - The user's session history, used to size the steps
+ * @param now - Plan start
+ * @throws GoalPromptError when the prompt can't be understood
+ */
+export function generateGoalPlan(
+  prompt: string,
+  sessions: DBSession[],
+  now: Date = new Date(),
+): EnhancedGoal[] {
+  const parsed = parseGoalPrompt(prompt, now);
+  const baseline = getPlanBaseline(sessions, now);
+  const planId = `plan-${now.getTime()}`;
+
+  return parsed.kind === "duration"
+    ? buildDurationPlan(parsed, baseline, planId, now)
+    : buildFrequencyPlan(parsed, baseline, planId, now);
+}
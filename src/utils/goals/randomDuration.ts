@@ -0,0 +1,180 @@
+/**
+ * Random (dice-roll) goal duration utilities
+ * Rolls are seeded so the keyholder can reproduce and audit every value
+ */
+
+import type {
+  RandomDurationDistribution,
+  RandomDurationRoll,
+  RandomGoalRecord,
+} from "@/types/goals";
+import type { GoalTarget } from "../../hooks/session/types/SessionGoals";
+
+export interface RandomDurationRange {
+  minSeconds: number;
+  maxSeconds: number;
+  distribution: RandomDurationDistribution;
+}
+
+export const RANDOM_DISTRIBUTION_LABELS: Record<
+  RandomDurationDistribution,
+  string
+> = {
+  uniform: "Even odds",
+  favor_short: "Favor shorter",
+  favor_long: "Favor longer",
+};
+
+// Rolled durations are rounded to whole minutes
+const ROLL_PRECISION_SECONDS = 60;
+
+/**
+ * Create a new 32-bit roll seed
+ */
+export const createRandomSeed = (): number => {
+  const values = new Uint32Array(1);
+  crypto.getRandomValues(values);
+  return values[0] ?? Math.floor(Math.random() * 0xffffffff);
+};
+
+/**
+ * Mulberry32 - small deterministic PRNG returning [0, 1)
+ */
+const seededRandom = (seed: number): number => {
+  let t = (seed + 0x6d2b79f5) >>> 0;
+  t = Math.imul(t ^ (t >>> 15), t | 1);
+  t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+/**
+ * Shape a uniform sample: weighted rolls take the min/max of two samples
+ */
+const applyDistribution = (
+  seed: number,
+  distribution: RandomDurationDistribution,
+): number => {
+  const first = seededRandom(seed);
+  if (distribution === "uniform") return first;
+
+  const second = seededRandom(seed ^ 0x9e3779b9);
+  return distribution === "favor_short"
+    ? Math.min(first, second)
+    : Math.max(first, second);
+};
+
+/**
+ * Roll a duration within the range. The same seed and roll index always
+ * produce the same duration.
+ */
+export const rollRandomDuration = (
+  range: RandomDurationRange,
+  seed: number,
+  rollIndex: number = 0,
+): number => {
+  const min = Math.min(range.minSeconds, range.maxSeconds);
+  const max = Math.max(range.minSeconds, range.maxSeconds);
+  const sample = applyDistribution(
+    (seed + rollIndex) >>> 0,
+    range.distribution,
+  );
+  const seconds = min + sample * (max - min);
+  const rounded =
+    Math.round(seconds / ROLL_PRECISION_SECONDS) * ROLL_PRECISION_SECONDS;
+  return Math.min(max, Math.max(min, rounded));
+};
+
+/**
+ * Create a random goal record with its initial roll
+ */
+export const createRandomGoal = (
+  range: RandomDurationRange,
+  options: { seed?: number; hideUntilComplete?: boolean; now?: Date } = {},
+): RandomGoalRecord => {
+  const seed = options.seed ?? createRandomSeed();
+  return {
+    minSeconds: range.minSeconds,
+    maxSeconds: range.maxSeconds,
+    distribution: range.distribution,
+    seed,
+    hideUntilComplete: options.hideUntilComplete,
+    rolls: [
+      {
+        seconds: rollRandomDuration(range, seed, 0),
+        rolledAt: options.now ?? new Date(),
+        reason: "initial",
+        kept: true,
+      },
+    ],
+  };
+};
+
+/**
+ * The duration currently in effect: the last kept roll
+ */
+export const getRandomGoalDuration = (record: RandomGoalRecord): number => {
+  const kept = record.rolls.filter((roll) => roll.kept);
+  return kept[kept.length - 1]?.seconds ?? record.minSeconds;
+};
+
+/**
+ * Re-roll a random goal. Rewards keep the shorter of the current and new
+ * durations, punishments keep the longer.
+ */
+export const rerollRandomGoal = (
+  record: RandomGoalRecord,
+  reason: Exclude<RandomDurationRoll["reason"], "initial">,
+  now: Date = new Date(),
+): RandomGoalRecord => {
+  const current = getRandomGoalDuration(record);
+  const seconds = rollRandomDuration(record, record.seed, record.rolls.length);
+  const kept = reason === "reward" ? seconds < current : seconds > current;
+
+  return {
+    ...record,
+    rolls: [...record.rolls, { seconds, rolledAt: now, reason, kept }],
+  };
+};
+
+const TARGET_UNIT_SECONDS: Partial<Record<GoalTarget["unit"], number>> = {
+  minutes: 60,
+  hours: 3600,
+  days: 86400,
+};
+
+/**
+ * Resolve a "range" duration goal target to a single rolled value
+ *
+ * @returns null when the target is not a duration range
+ */
+export const rollGoalTarget = (
+  target: GoalTarget,
+  distribution: RandomDurationDistribution,
+  options: { seed?: number; now?: Date } = {},
+): { target: GoalTarget; record: RandomGoalRecord } | null => {
+  const unitSeconds = TARGET_UNIT_SECONDS[target.unit];
+  if (
+    !unitSeconds ||
+    target.comparison !== "range" ||
+    target.rangeMax === undefined
+  ) {
+    return null;
+  }
+
+  const record = createRandomGoal(
+    {
+      minSeconds: target.value * unitSeconds,
+      maxSeconds: target.rangeMax * unitSeconds,
+      distribution,
+    },
+    options,
+  );
+  return {
+    target: {
+      value: getRandomGoalDuration(record) / unitSeconds,
+      unit: target.unit,
+      comparison: "minimum",
+    },
+    record,
+  };
+};
@@ -0,0 +1,98 @@
+/**
+ * Translation Layer Tests
+ * Catalog completeness checks plus interpolation, plurals and fallback
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  CATALOGS,
+  findCatalogIssues,
+  findMissingKeys,
+  resolveLanguage,
+  translate,
+  type MessageCatalog,
+} from "../index";
+
+describe("Translation Layer", () => {
+  describe("catalogs", () => {
+    it.each(Object.entries(CATALOGS))(
+      "%s catalog has every English key",
+      (_, catalog) => {
+        expect(findMissingKeys(catalog)).toEqual([]);
+      },
+    );
+
+    it.each(Object.entries(CATALOGS))(
+      "%s catalog uses the same placeholders as English",
+      (_, catalog) => {
+        expect(findCatalogIssues(catalog).placeholderMismatches).toEqual([]);
+      },
+    );
+
+    it("flags missing keys and placeholder mismatches", () => {
+      const partial: MessageCatalog = {
+        "common.save": "Guardar",
+        "settings.display.preview": "Vista previa: {fecha}",
+      };
+
+      const issues = findCatalogIssues(partial);
+      expect(issues.missing).toContain("common.cancel");
+      expect(issues.missing).not.toContain("common.save");
+      expect(issues.placeholderMismatches).toEqual([
+        "settings.display.preview",
+      ]);
+    });
+  });
+
+  describe("resolveLanguage", () => {
+    it("maps regional tags onto supported catalogs", () => {
+      expect(resolveLanguage("es-MX")).toBe("es");
+      expect(resolveLanguage("en_GB")).toBe("en");
+    });
+
+    it("falls back to English for unsupported or missing languages", () => {
+      expect(resolveLanguage("fr")).toBe("en");
+      expect(resolveLanguage(undefined)).toBe("en");
+      expect(resolveLanguage("")).toBe("en");
+    });
+  });
+
+  describe("translate", () => {
+    it("returns the message in the requested language", () => {
+      expect(translate("en", "common.save")).toBe("Save");
+      expect(translate("es", "common.save")).toBe("Guardar");
+    });
+
+    it("interpolates placeholders", () => {
+      expect(
+        translate("en", "settings.display.preview", {
+          date: "01/15/2024",
+          duration: "3 days",
+        }),
+      ).toBe("Preview: 01/15/2024 · 3 days");
+    });
+
+    it("leaves unknown placeholders untouched", () => {
+      expect(translate("en", "settings.display.preview")).toBe(
+        "Preview: {date} · {duration}",
+      );
+    });
+
+    it("selects plural forms from count", () => {
+      expect(translate("en", "duration.days", { count: 1 })).toBe("1 day");
+      expect(translate("en", "duration.days", { count: 0 })).toBe("0 days");
+      expect(translate("es", "duration.hours", { count: 1 })).toBe("1 hora");
+      expect(translate("es", "duration.hours", { count: 5 })).toBe("5 horas");
+    });
+
+    it("formats counts with locale digit grouping", () => {
+      expect(translate("en", "duration.days", { count: 1200 })).toBe(
+        "1,200 days",
+      );
+    });
+
+    it("falls back to English for unsupported languages", () => {
+      expect(translate("fr", "common.cancel")).toBe("Cancel");
+    });
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Translation layer
+ * Resolves message keys against the user's `display.language` catalog,
+ * falling back to English for anything not yet translated.
+ */
+import { en } from "./locales/en";
+import { es } from "./locales/es";
+import type {
+  CatalogMessage,
+  LanguageCode,
+  MessageCatalog,
+  MessageKey,
+  MessageParams,
+} from "./types";
+
+export type {
+  CatalogMessage,
+  LanguageCode,
+  MessageCatalog,
+  MessageKey,
+  MessageParams,
+  PluralMessage,
+} from "./types";
+
+export const DEFAULT_LANGUAGE: LanguageCode = "en";
+
+export const SUPPORTED_LANGUAGES: { code: LanguageCode; label: string }[] = [
+  { code: "en", label: "English" },
+  { code: "es", label: "Español" },
+];
+
+export const CATALOGS: Record<LanguageCode, MessageCatalog> = { en, es };
+
+const PLACEHOLDER_PATTERN = /\{(\w+)\}/g;
+
+/**
+ * Map a stored language tag (e.g. "es-MX") onto a supported catalog
+ */
+export const resolveLanguage = (language?: string | null): LanguageCode => {
+  const base = (language || "").toLowerCase().split(/[-_]/)[0];
+  return SUPPORTED_LANGUAGES.some((entry) => entry.code === base)
+    ? (base as LanguageCode)
+    : DEFAULT_LANGUAGE;
+};
+
+const selectForm = (
+  message: CatalogMessage,
+  language: LanguageCode,
+  count: number | undefined,
+): string => {
+  if (typeof message === "string") return message;
+  if (count === undefined) return message.other;
+  const category = new Intl.PluralRules(language).select(count);
+  return message[category] ?? message.other;
+};
+
+const interpolate = (
+  template: string,
+  language: LanguageCode,
+  params?: MessageParams,
+): string =>
+  template.replace(PLACEHOLDER_PATTERN, (match, name: string) => {
+    const value = params?.[name];
+    if (value === undefined) return match;
+    return typeof value === "number" ? value.toLocaleString(language) : value;
+  });
+
+/**
+ * Translate a message key. Plural messages pick their form from `params.count`.
+ */
+export const translate = (
+  language: string | undefined,
+  key: MessageKey,
+  params?: MessageParams,
+): string => {
+  const code = resolveLanguage(language);
+  const message = CATALOGS[code][key] ?? en[key];
+  const count = typeof params?.count === "number" ? params.count : undefined;
+  return interpolate(selectForm(message, code, count), code, params);
+};
+
+const placeholdersOf = (message: CatalogMessage): string[] => {
+  const templates =
+    typeof message === "string" ? [message] : Object.values(message);
+  const names = new Set<string>();
+  templates.forEach((template) => {
+    for (const match of (template ?? "").matchAll(PLACEHOLDER_PATTERN)) {
+      names.add(match[1] as string);
+    }
+  });
+  return [...names].sort();
+};
+
+export interface CatalogIssues {
+  missing: MessageKey[];
+  placeholderMismatches: MessageKey[];
+}
+
+/**
+ * Compare a catalog against English: keys it lacks, and keys whose
+ * translation uses different `{placeholders}` than the source.
+ */
+export const findCatalogIssues = (catalog: MessageCatalog): CatalogIssues => {
+  const keys = Object.keys(en) as MessageKey[];
+  const missing = keys.filter((key) => catalog[key] === undefined);
+  const placeholderMismatches = keys.filter((key) => {
+    const translated = catalog[key];
+    if (translated === undefined) return false;
+    return placeholdersOf(translated).join() !== placeholdersOf(en[key]).join();
+  });
+  return { missing, placeholderMismatches };
+};
+
+export const findMissingKeys = (catalog: MessageCatalog): MessageKey[] =>
+  findCatalogIssues(catalog).missing;
@@ -0,0 +1,49 @@
+/**
+ * English message catalog
+ * The source of truth: every other catalog is checked against these keys.
+ * Placeholders use `{name}`; plural messages are keyed by Intl plural category.
+ */
+import type { CatalogMessage } from "../types";
+
+export const en = {
+  // Common
+  "common.save": "Save",
+  "common.cancel": "Cancel",
+  "common.loading": "Loading...",
+  "common.skipToContent": "Skip to main content",
+
+  // Navigation
+  "nav.dashboard": "Dashboard",
+  "nav.tracker": "Tracker",
+  "nav.logEvent": "Log Event",
+  "nav.fullReport": "Full Report",
+  "nav.report": "Report",
+  "nav.tasks": "Tasks",
+  "nav.rewards": "Rewards",
+  "nav.achievements": "Achievements",
+  "nav.settings": "Settings",
+  "nav.settingsWithIcon": "⚙️ Settings",
+
+  // Display settings
+  "settings.display.title": "Display Settings",
+  "settings.display.description":
+    "Choose your language and how dates and times are shown.",
+  "settings.display.language": "Language",
+  "settings.display.dateFormat": "Date format",
+  "settings.display.timeFormat": "Time format",
+  "settings.display.timeFormat.12h": "12-hour",
+  "settings.display.timeFormat.24h": "24-hour",
+  "settings.display.startOfWeek": "Week starts on",
+  "settings.display.startOfWeek.monday": "Monday",
+  "settings.display.startOfWeek.sunday": "Sunday",
+  "settings.display.preview": "Preview: {date} · {duration}",
+  "settings.display.saved": "Display settings saved",
+  "settings.display.saveFailed": "Failed to save display settings",
+  "settings.display.signInRequired": "Sign in to change display settings.",
+
+  // Durations
+  "duration.days": { one: "{count} day", other: "{count} days" },
+  "duration.hours": { one: "{count} hour", other: "{count} hours" },
+  "duration.minutes": { one: "{count} minute", other: "{count} minutes" },
+  "duration.seconds": { one: "{count} second", other: "{count} seconds" },
+} satisfies Record<string, CatalogMessage>;
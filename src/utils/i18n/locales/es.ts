@@ -0,0 +1,49 @@
+/**
+ * Spanish message catalog
+ */
+import type { MessageCatalog } from "../types";
+
+export const es: MessageCatalog = {
+  // Common
+  "common.save": "Guardar",
+  "common.cancel": "Cancelar",
+  "common.loading": "Cargando...",
+  "common.skipToContent": "Saltar al contenido principal",
+
+  // Navigation
+  "nav.dashboard": "Inicio",
+  "nav.tracker": "Seguimiento",
+  "nav.logEvent": "Registrar evento",
+  "nav.fullReport": "Informe completo",
+  "nav.report": "Informe",
+  "nav.tasks": "Tareas",
+  "nav.rewards": "Recompensas",
+  "nav.achievements": "Logros",
+  "nav.settings": "Ajustes",
+  "nav.settingsWithIcon": "⚙️ Ajustes",
+
+  // Display settings
+  "settings.display.title": "Ajustes de visualización",
+  "settings.display.description":
+    "Elige tu idioma y cómo se muestran las fechas y horas.",
+  "settings.display.language": "Idioma",
+  "settings.display.dateFormat": "Formato de fecha",
+  "settings.display.timeFormat": "Formato de hora",
+  "settings.display.timeFormat.12h": "12 horas",
+  "settings.display.timeFormat.24h": "24 horas",
+  "settings.display.startOfWeek": "La semana empieza el",
+  "settings.display.startOfWeek.monday": "Lunes",
+  "settings.display.startOfWeek.sunday": "Domingo",
+  "settings.display.preview": "Vista previa: {date} · {duration}",
+  "settings.display.saved": "Ajustes de visualización guardados",
+  "settings.display.saveFailed":
+    "No se pudieron guardar los ajustes de visualización",
+  "settings.display.signInRequired":
+    "Inicia sesión para cambiar los ajustes de visualización.",
+
+  // Durations
+  "duration.days": { one: "{count} día", other: "{count} días" },
+  "duration.hours": { one: "{count} hora", other: "{count} horas" },
+  "duration.minutes": { one: "{count} minuto", other: "{count} minutos" },
+  "duration.seconds": { one: "{count} segundo", other: "{count} segundos" },
+};
@@ -0,0 +1,23 @@
+/**
+ * Translation layer types
+ */
+import type { en } from "./locales/en";
+
+/** Message with one template per Intl plural category; `other` is required */
+export type PluralMessage = Partial<Record<Intl.LDMLPluralRule, string>> & {
+  other: string;
+};
+
+export type CatalogMessage = string | PluralMessage;
+
+export type MessageKey = keyof typeof en;
+
+/**
+ * A translated catalog. Keys missing here fall back to English at runtime
+ * and are reported by `findMissingKeys`.
+ */
+export type MessageCatalog = Partial<Record<MessageKey, CatalogMessage>>;
+
+export type LanguageCode = "en" | "es";
+
+export type MessageParams = Record<string, string | number>;
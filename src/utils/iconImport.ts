@@ -26,6 +26,7 @@ export {
   FaBullseye,
   FaCalendar,
   FaCalendarAlt,
+  FaCamera,
   FaChartBar,
   FaCheck,
   FaCheckCircle,
@@ -37,11 +38,13 @@ export {
   FaCloud,
   FaCog,
   FaComment,
+  FaComments,
   FaCopy,
   FaCrown,
   FaDatabase,
   FaDownload,
   FaEdit,
+  FaExchangeAlt,
   FaExclamationTriangle,
   FaEye,
   FaEyeSlash,
@@ -54,6 +57,7 @@ export {
   FaHeart,
   FaHistory,
   FaHome,
+  FaHourglassHalf,
   FaImage,
   FaInfo,
   FaQuestion,
@@ -66,6 +70,7 @@ export {
   FaMinus,
   FaMoon,
   FaPalette,
+  FaPaperclip,
   FaPaperPlane,
   FaPause,
   FaPlay,
@@ -0,0 +1,96 @@
+/**
+ * Keyholder role helpers
+ * Role tiers and approver selection for submissives with several keyholders
+ */
+import type {
+  KeyholderPermissions,
+  KeyholderRelationship,
+  KeyholderRole,
+  ReleaseApprovalPolicy,
+} from "../../types/core";
+
+/** Active keyholders a submissive may have at once, primary included */
+export const MAX_KEYHOLDERS_PER_SUBMISSIVE = 5;
+
+const ROLE_DEFAULT_PERMISSIONS: Record<KeyholderRole, KeyholderPermissions> = {
+  primary: {
+    canLockSessions: true,
+    canUnlockSessions: false, // Emergency only
+    canCreateTasks: true,
+    canApproveTasks: true,
+    canViewFullHistory: true,
+    canEditGoals: false,
+    canSetRules: false,
+  },
+  // Secondaries help with tasks but leave the session to the primary
+  secondary: {
+    canLockSessions: false,
+    canUnlockSessions: false,
+    canCreateTasks: true,
+    canApproveTasks: true,
+    canViewFullHistory: false,
+    canEditGoals: false,
+    canSetRules: false,
+  },
+};
+
+/**
+ * Permissions a new keyholder starts with for their role
+ */
+export function getRoleDefaultPermissions(
+  role: KeyholderRole,
+): KeyholderPermissions {
+  return { ...ROLE_DEFAULT_PERMISSIONS[role] };
+}
+
+/**
+ * Relationships from before multi-keyholder support had a single keyholder,
+ * who is the primary
+ */
+export function getKeyholderRole(
+  relationship: Pick<KeyholderRelationship, "role">,
+): KeyholderRole {
+  return relationship.role ?? "primary";
+}
+
+/**
+ * Order keyholders primary first, then by when they were linked
+ */
+export function sortKeyholdersByRole(
+  relationships: KeyholderRelationship[],
+): KeyholderRelationship[] {
+  const rank = (rel: KeyholderRelationship) =>
+    getKeyholderRole(rel) === "primary" ? 0 : 1;
+  const linkedAt = (rel: KeyholderRelationship) =>
+    new Date(rel.acceptedAt ?? rel.createdAt).getTime();
+
+  return [...relationships].sort(
+    (a, b) => rank(a) - rank(b) || linkedAt(a) - linkedAt(b),
+  );
+}
+
+/**
+ * Keyholders who decide a release request under the given policy. The
+ * primary always decides; secondaries only join when they may end sessions.
+ * The primary is listed first.
+ */
+export function getReleaseApproverIds(
+  keyholders: KeyholderRelationship[],
+  policy: ReleaseApprovalPolicy,
+): string[] {
+  const [primary, ...others] = sortKeyholdersByRole(
+    keyholders.filter((rel) => rel.status === "active"),
+  );
+  if (!primary) {
+    return [];
+  }
+  if (policy === "primary") {
+    return [primary.keyholderUserId];
+  }
+  return [
+    primary.keyholderUserId,
+    ...others
+      .filter((rel) => rel.permissions.canUnlockSessions)
+      .map((rel) => rel.keyholderUserId),
+  ];
+}
@@ -0,0 +1,88 @@
+/**
+ * Safety release helpers
+ * Escalate warnings as a keyholder stays unreachable, then let the wearer end
+ * the session without it counting as an emergency unlock
+ */
+
+const HOUR_MS = 60 * 60 * 1000;
+
+/** Silence period offered when the wearer turns safety release on */
+export const DEFAULT_SAFETY_RELEASE_HOURS = 72;
+
+/**
+ * How far into the silence period the wearer is. Warnings start at half the
+ * period and escalate towards release.
+ */
+export type SafetyReleaseLevel =
+  | "none"
+  | "notice"
+  | "warning"
+  | "final_warning"
+  | "releasable";
+
+// Share of the silence period at which each warning starts, most severe first
+const WARNING_THRESHOLDS: [SafetyReleaseLevel, number][] = [
+  ["final_warning", 0.9],
+  ["warning", 0.75],
+  ["notice", 0.5],
+];
+
+export interface SafetyReleaseStatus {
+  level: SafetyReleaseLevel;
+  lastKeyholderActivityAt: Date;
+  releasableAt: Date;
+  hoursSilent: number;
+}
+
+/**
+ * Most recent of the keyholder's activity signals
+ */
+export function getLatestActivity(
+  signals: (Date | null | undefined)[],
+): Date | undefined {
+  return signals.reduce<Date | undefined>(
+    (latest, signal) =>
+      signal && (!latest || signal > latest) ? new Date(signal) : latest,
+    undefined,
+  );
+}
+
+/**
+ * Silence period from the wearer's settings; null until the wearer turns
+ * the policy on
+ */
+export function getSafetyReleaseHours(
+  configuredHours: number | undefined,
+): number | null {
+  return configuredHours && configuredHours > 0 ? configuredHours : null;
+}
+
+/**
+ * Where the wearer stands given the keyholder's last activity
+ */
+export function getSafetyReleaseStatus(
+  lastKeyholderActivityAt: Date,
+  releaseAfterHours: number,
+  now: Date = new Date(),
+): SafetyReleaseStatus {
+  const silentMs = Math.max(
+    now.getTime() - lastKeyholderActivityAt.getTime(),
+    0,
+  );
+  const progress = silentMs / (releaseAfterHours * HOUR_MS);
+  const level: SafetyReleaseLevel =
+    progress >= 1
+      ? "releasable"
+      : (WARNING_THRESHOLDS.find(
+          ([, threshold]) => progress >= threshold,
+        )?.[0] ?? "none");
+
+  return {
+    level,
+    lastKeyholderActivityAt,
+    releasableAt: new Date(
+      lastKeyholderActivityAt.getTime() + releaseAfterHours * HOUR_MS,
+    ),
+    hoursSilent: Math.floor(silentMs / HOUR_MS),
+  };
+}
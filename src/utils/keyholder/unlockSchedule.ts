@@ -0,0 +1,246 @@
+/**
+ * Unlock schedule helpers
+ * Evaluate a keyholder's earliest unlock time, daily check-ins and silent
+ * release for a locked session
+ */
+import type {
+  UnlockSchedule,
+  UnlockScheduleStatus,
+} from "../../types/unlockSchedule";
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+const CHECK_IN_TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+export type UnlockBlockReason = "before_earliest_unlock";
+
+export class UnlockScheduleError extends Error {
+  constructor(
+    public readonly reason: UnlockBlockReason,
+    public readonly unlocksAt: Date,
+    message: string,
+  ) {
+    super(message);
+    this.name = "UnlockScheduleError";
+  }
+}
+
+/**
+ * Parse a "HH:mm" check-in time
+ * @returns Minutes after midnight, or null when the time is malformed
+ */
+export function parseCheckInTime(time: string): number | null {
+  const match = CHECK_IN_TIME_PATTERN.exec(time);
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+/**
+ * Check-in slots after `from` up to and including `to`, oldest first
+ */
+export function getCheckInSlots(
+  checkInTimes: string[],
+  from: Date,
+  to: Date,
+): Date[] {
+  const offsets = checkInTimes
+    .map(parseCheckInTime)
+    .filter((minutes): minutes is number => minutes !== null)
+    .sort((a, b) => a - b);
+  if (offsets.length === 0 || to <= from) {
+    return [];
+  }
+
+  const slots: Date[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+  while (day <= to) {
+    for (const minutes of offsets) {
+      const slot = new Date(day);
+      slot.setHours(Math.floor(minutes / 60), minutes % 60);
+      if (slot > from && slot <= to) {
+        slots.push(slot);
+      }
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return slots;
+}
+
+/** When the keyholder was last heard from through the schedule */
+function getLastActivity(schedule: UnlockSchedule): Date {
+  return new Date(schedule.lastCheckInAt ?? schedule.setAt);
+}
+
+/**
+ * Slots whose grace period has ended since the keyholder last checked in
+ */
+export function countMissedCheckIns(
+  schedule: UnlockSchedule,
+  now: Date = new Date(),
+): number {
+  const graceEnd = new Date(
+    now.getTime() - schedule.checkInGraceMinutes * MINUTE_MS,
+  );
+  return getCheckInSlots(
+    schedule.checkInTimes,
+    getLastActivity(schedule),
+    graceEnd,
+  ).length;
+}
+
+/**
+ * The check-in the keyholder owes next. A slot still inside its grace period
+ * is returned until they check in.
+ */
+export function getNextCheckInAt(
+  schedule: UnlockSchedule,
+  now: Date = new Date(),
+): Date | undefined {
+  const graceEnd = now.getTime() - schedule.checkInGraceMinutes * MINUTE_MS;
+  const from = new Date(
+    Math.max(getLastActivity(schedule).getTime(), graceEnd),
+  );
+  return getCheckInSlots(
+    schedule.checkInTimes,
+    from,
+    new Date(from.getTime() + 2 * DAY_MS),
+  )[0];
+}
+
+/**
+ * When the wearer is released if the keyholder stays silent
+ */
+export function getAutoReleaseAt(schedule: UnlockSchedule): Date | undefined {
+  if (!schedule.silentReleaseDays || schedule.silentReleaseDays <= 0) {
+    return undefined;
+  }
+  return new Date(
+    getLastActivity(schedule).getTime() + schedule.silentReleaseDays * DAY_MS,
+  );
+}
+
+/**
+ * Current state of a session's unlock schedule. A silent release overrides
+ * the earliest unlock time.
+ */
+export function getUnlockScheduleStatus(
+  schedule: UnlockSchedule | undefined,
+  now: Date = new Date(),
+): UnlockScheduleStatus {
+  if (!schedule) {
+    return { state: "unlockable", missedCheckIns: 0 };
+  }
+
+  const earliestUnlockAt = schedule.earliestUnlockAt
+    ? new Date(schedule.earliestUnlockAt)
+    : undefined;
+  const autoReleaseAt = getAutoReleaseAt(schedule);
+  const status: UnlockScheduleStatus = {
+    state: "unlockable",
+    earliestUnlockAt,
+    nextCheckInAt: getNextCheckInAt(schedule, now),
+    missedCheckIns: countMissedCheckIns(schedule, now),
+    autoReleaseAt,
+  };
+
+  if (autoReleaseAt && now >= autoReleaseAt) {
+    status.state = "auto_released";
+  } else if (earliestUnlockAt && now < earliestUnlockAt) {
+    status.state = "locked";
+  }
+  return status;
+}
+
+/** End reason of the penalty-free safety release, which no schedule holds */
+export const SAFETY_RELEASE_END_REASON = "safety_release";
+
+/**
+ * Throw an UnlockScheduleError when the schedule still holds the session
+ */
+export function assertUnlockAllowed(
+  schedule: UnlockSchedule | undefined,
+  now: Date = new Date(),
+): void {
+  const status = getUnlockScheduleStatus(schedule, now);
+  if (status.state === "locked" && status.earliestUnlockAt) {
+    throw new UnlockScheduleError(
+      "before_earliest_unlock",
+      status.earliestUnlockAt,
+      `Your keyholder has locked this session until ${status.earliestUnlockAt.toLocaleString()}.`,
+    );
+  }
+}
+
+// Firestore hands dates back as Timestamps
+type StoredDate = Date | { toDate(): Date };
+
+const toDate = (value: StoredDate): Date =>
+  value instanceof Date ? value : value.toDate();
+
+/**
+ * Firestore refuses undefined fields, so unset ones are left out
+ */
+export function toStoredUnlockSchedule(
+  schedule: UnlockSchedule,
+): Partial<UnlockSchedule> {
+  return Object.fromEntries(
+    Object.entries(schedule).filter(([, value]) => value !== undefined),
+  ) as Partial<UnlockSchedule>;
+}
+
+/**
+ * Rebuild a schedule read back from Firestore
+ */
+export function fromStoredUnlockSchedule(
+  stored: Omit<
+    UnlockSchedule,
+    "earliestUnlockAt" | "lastCheckInAt" | "setAt"
+  > & {
+    earliestUnlockAt?: StoredDate | null;
+    lastCheckInAt?: StoredDate | null;
+    setAt: StoredDate;
+  },
+): UnlockSchedule {
+  return {
+    ...stored,
+    earliestUnlockAt: stored.earliestUnlockAt
+      ? toDate(stored.earliestUnlockAt)
+      : undefined,
+    lastCheckInAt: stored.lastCheckInAt
+      ? toDate(stored.lastCheckInAt)
+      : undefined,
+    setAt: toDate(stored.setAt),
+  };
+}
+
+/**
+ * Check the keyholder's input before saving a schedule
+ * @returns A user-facing problem, or null when the schedule is valid
+ */
+export function validateUnlockSchedule(
+  schedule: Pick<
+    UnlockSchedule,
+    "checkInTimes" | "checkInGraceMinutes" | "silentReleaseDays"
+  >,
+): string | null {
+  const invalidTime = schedule.checkInTimes.find(
+    (time) => parseCheckInTime(time) === null,
+  );
+  if (invalidTime !== undefined) {
+    return `"${invalidTime}" is not a valid check-in time. Use HH:mm.`;
+  }
+  if (schedule.checkInGraceMinutes < 0) {
+    return "Check-in grace period can't be negative.";
+  }
+  if (
+    schedule.silentReleaseDays !== undefined &&
+    schedule.silentReleaseDays < 1
+  ) {
+    return "Silent release needs at least one day.";
+  }
+  return null;
+}
@@ -2,7 +2,9 @@
  * Release Request Utilities
  * Helper functions for release request status checks
  */
-import type { DBReleaseRequest } from "@/types/database";
+import { format } from "date-fns";
+import type { ReleaseCounterCondition } from "@/types/core";
+import type { DBReleaseRequest, DBSession, TaskStatus } from "@/types/database";
 
 /**
  * Helper to check if a request is approved
@@ -30,3 +32,149 @@ export const isRequestPending = (
 ): boolean => {
   return request?.status === "pending";
 };
+
+/**
+ * Keyholders allowed to decide a request. Requests created before approver
+ * sets existed only name keyholderUserId.
+ */
+export const getRequestApprovers = (
+  request: Pick<DBReleaseRequest, "keyholderUserId" | "approverUserIds">,
+): string[] =>
+  request.approverUserIds?.length
+    ? request.approverUserIds
+    : [request.keyholderUserId];
+
+/**
+ * Check whether a keyholder still has to answer a request
+ */
+export const isAwaitingKeyholder = (
+  request: DBReleaseRequest,
+  keyholderUserId: string,
+): boolean =>
+  request.status === "pending" &&
+  getRequestApprovers(request).includes(keyholderUserId) &&
+  !request.approvals?.some(
+    (approval) => approval.keyholderUserId === keyholderUserId,
+  );
+
+/**
+ * Status a request reaches from the decisions recorded so far. Under "all"
+ * every approver has to agree and one denial ends the request; otherwise the
+ * first decision counts ("primary" requests only have the primary as
+ * approver).
+ */
+export const resolveReleaseStatus = (
+  request: DBReleaseRequest,
+): DBReleaseRequest["status"] => {
+  const approvals = request.approvals ?? [];
+  if (request.approvalPolicy !== "all") {
+    return approvals[0]?.decision ?? "pending";
+  }
+  if (approvals.some((approval) => approval.decision === "denied")) {
+    return "denied";
+  }
+  const approvedBy = new Set(
+    approvals.map((approval) => approval.keyholderUserId),
+  );
+  return getRequestApprovers(request).every((id) => approvedBy.has(id))
+    ? "approved"
+    : "pending";
+};
+
+// Statuses each status may move to; approved, denied, declined and settled
+// are final
+const RELEASE_TRANSITIONS: Record<
+  DBReleaseRequest["status"],
+  DBReleaseRequest["status"][]
+> = {
+  pending: ["approved", "denied", "countered"],
+  countered: ["accepted", "declined"],
+  accepted: ["approved", "settled"],
+  approved: [],
+  denied: [],
+  declined: [],
+  settled: [],
+};
+
+/**
+ * Throw unless a request may move to the given status
+ */
+export const assertReleaseTransition = (
+  request: Pick<DBReleaseRequest, "status">,
+  next: DBReleaseRequest["status"],
+): void => {
+  if (!RELEASE_TRANSITIONS[request.status].includes(next)) {
+    throw new Error(
+      `Cannot move release request from ${request.status} to ${next}`,
+    );
+  }
+};
+
+/**
+ * Requests still being negotiated or waiting on an accepted condition. Only
+ * one may exist per session.
+ */
+export const isRequestOpen = (
+  request: DBReleaseRequest | null | undefined,
+): boolean =>
+  request?.status === "pending" ||
+  request?.status === "countered" ||
+  request?.status === "accepted";
+
+/**
+ * Whether an accepted counter-offer has been fulfilled and the wearer may be
+ * released. Pause offers are settled by the pause and never release.
+ */
+export const isCounterOfferMet = (
+  request: DBReleaseRequest,
+  params: { now?: Date; taskStatus?: TaskStatus } = {},
+): boolean => {
+  const condition = request.counterOffer?.condition;
+  if (request.status !== "accepted" || !condition) return false;
+
+  switch (condition.type) {
+    case "delay":
+      return (params.now ?? new Date()) >= new Date(condition.releaseAt);
+    case "task":
+      return params.taskStatus === "approved";
+    case "pause":
+      return false;
+  }
+};
+
+/**
+ * Whether the pause granted by an accepted pause offer is over: the session
+ * has ended, resumed, or moved on to a later pause
+ */
+export const hasGrantedPauseEnded = (
+  request: DBReleaseRequest,
+  session: Pick<DBSession, "endTime" | "isPaused" | "pauseStartTime"> | null,
+): boolean => {
+  const condition = request.counterOffer?.condition;
+  if (request.status !== "accepted" || condition?.type !== "pause") {
+    return false;
+  }
+  if (!session || session.endTime || !session.isPaused) return true;
+
+  return (
+    !!condition.startedAt &&
+    session.pauseStartTime?.getTime() !==
+      new Date(condition.startedAt).getTime()
+  );
+};
+
+/**
+ * One-line summary of a counter-offer's condition
+ */
+export const describeCounterCondition = (
+  condition: ReleaseCounterCondition,
+): string => {
+  switch (condition.type) {
+    case "delay":
+      return `Release on ${format(condition.releaseAt, "PPp")}`;
+    case "task":
+      return `Release after completing: ${condition.taskText}`;
+    case "pause":
+      return `A ${condition.pauseMinutes}-minute pause instead of release`;
+  }
+};
@@ -0,0 +1,133 @@
+/**
+ * Report Serializers Tests
+ * Tables, charts and file content produced for each export format
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getReportCharts,
+  getReportTables,
+  serializeExport,
+  tablesToCSV,
+} from "../reportSerializers";
+import { ExportFormat } from "@/hooks/features/useReporting";
+import type { LocaleOptions } from "@/utils/formatting/locale";
+
+const report = {
+  dateRange: {
+    start: "2024-03-01T00:00:00.000Z",
+    end: "2024-03-31T23:59:59.000Z",
+  },
+  summary: {
+    totalSessions: 1,
+    totalHours: 24,
+    averageDuration: 24,
+    longestSession: 24,
+    totalPauseHours: 0,
+    groups: { "2024-03": 1 },
+  },
+  details: {
+    sessions: [
+      {
+        id: "s1",
+        startDate: new Date("2024-03-10T00:00:00Z"),
+        duration: 24,
+        endReason: "goal, reached",
+      },
+    ],
+    events: [{ id: "e1", type: "orgasm" }],
+    tasks: undefined,
+  },
+  generatedAt: "2024-04-01T00:00:00.000Z",
+};
+
+describe("Report Serializers", () => {
+  describe("getReportTables", () => {
+    it("lists summary metrics and one table per detail section", () => {
+      const tables = getReportTables(report);
+
+      expect(tables.map((table) => table.name)).toEqual([
+        "Summary",
+        "Sessions",
+        "Events",
+      ]);
+      expect(tables[0]!.rows).toContainEqual(["summary.totalHours", 24]);
+      expect(tables[0]!.rows).toContainEqual(["summary.groups.2024-03", 1]);
+      expect(tables[1]!.headers).toEqual([
+        "id",
+        "startDate",
+        "duration",
+        "endReason",
+      ]);
+    });
+
+    it("tabulates raw data exports by their data type", () => {
+      const tables = getReportTables({
+        dataType: "tasks",
+        filters: [],
+        records: [{ id: "t1", status: "approved" }],
+      });
+
+      expect(tables).toEqual([
+        {
+          name: "Tasks",
+          headers: ["id", "status"],
+          rows: [["t1", "approved"]],
+        },
+      ]);
+    });
+  });
+
+  it("stacks several tables into one CSV with a Section column", () => {
+    const csv = tablesToCSV(getReportTables(report));
+    const [header, ...lines] = csv.split("\r\n");
+
+    expect(header!.startsWith("Section,Metric,Value,id")).toBe(true);
+    expect(lines).toContain(
+      'Sessions,,,s1,2024-03-10T00:00:00.000Z,24,"goal, reached",',
+    );
+  });
+
+  it("charts session hours and sessions per period", () => {
+    expect(
+      getReportCharts(report).map((chart) =>
+        chart.type === "chart" ? chart.title : chart.type,
+      ),
+    ).toEqual(["Session hours", "Sessions by period"]);
+  });
+
+  it("writes binary workbooks and documents for XLSX and PDF", () => {
+    const xlsx = serializeExport(report, ExportFormat.XLSX, "March");
+    const pdf = serializeExport(report, ExportFormat.PDF, "March");
+
+    expect(Array.from((xlsx as Uint8Array).slice(0, 2))).toEqual([0x50, 0x4b]);
+    const text = new TextDecoder().decode(pdf as Uint8Array);
+    expect(text.startsWith("%PDF-1.4")).toBe(true);
+  });
+
+  it("writes the PDF date range in the user's date format", () => {
+    // Midday, so the range reads the same in any test timezone
+    const march = {
+      ...report,
+      dateRange: {
+        start: "2024-03-01T12:00:00.000Z",
+        end: "2024-03-31T12:00:00.000Z",
+      },
+    };
+    const subtitle = (locale?: LocaleOptions) =>
+      new TextDecoder().decode(
+        serializeExport(march, ExportFormat.PDF, "March", locale) as Uint8Array,
+      );
+
+    expect(subtitle()).toContain("(03/01/2024 to 03/31/2024) Tj");
+    expect(
+      subtitle({ display: { dateFormat: "d MMM yyyy" }, language: "es" }),
+    ).toContain("(1 mar 2024 to 31 mar 2024) Tj");
+  });
+
+  it("keeps JSON exports as formatted JSON", () => {
+    expect(serializeExport({ a: 1 }, ExportFormat.JSON, "Data")).toBe(
+      '{\n  "a": 1\n}',
+    );
+  });
+});
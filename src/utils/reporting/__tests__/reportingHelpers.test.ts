@@ -7,17 +7,149 @@ import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
 import {
   generateReportData,
   generateDetailedData,
+  generateAnalyticsData,
   calculateNextRun,
   exportReportData,
   getRawData,
   exportData,
   getContentType,
+  getScheduledReportRange,
+  type ReportRecords,
 } from "../reportingHelpers";
 import {
   ExportFormat,
   ReportSchedule,
+  ReportType,
   type ReportParameters,
+  type ReportTemplate,
 } from "@/hooks/features/useReporting";
+import type { DBEvent, DBGoal, DBSession, DBTask } from "@/types/database";
+
+const NOW = new Date("2024-02-10T09:00:00Z");
+const base = {
+  userId: "user-1",
+  syncStatus: "synced" as const,
+  lastModified: NOW,
+};
+
+const records: ReportRecords = {
+  sessions: [
+    {
+      ...base,
+      id: "session-1",
+      startTime: new Date("2024-01-10T00:00:00Z"),
+      endTime: new Date("2024-01-11T01:00:00Z"),
+      isPaused: false,
+      accumulatedPauseTime: 3600,
+      isHardcoreMode: false,
+      keyholderApprovalRequired: false,
+      endReason: "emergency_unlock",
+      isEmergencyUnlock: true,
+    },
+    {
+      ...base,
+      id: "session-2",
+      startTime: new Date("2024-02-10T00:00:00Z"),
+      isPaused: false,
+      accumulatedPauseTime: 0,
+      isHardcoreMode: true,
+      keyholderApprovalRequired: false,
+    },
+  ] satisfies DBSession[],
+  events: [
+    {
+      ...base,
+      id: "event-1",
+      sessionId: "session-1",
+      type: "orgasm",
+      timestamp: new Date("2024-01-10T12:00:00Z"),
+      details: {},
+      isPrivate: false,
+    },
+    {
+      ...base,
+      id: "event-2",
+      sessionId: "session-1",
+      type: "session_pause",
+      timestamp: new Date("2024-01-10T18:00:00Z"),
+      details: {},
+      isPrivate: false,
+    },
+  ] satisfies DBEvent[],
+  tasks: [
+    {
+      ...base,
+      id: "task-1",
+      text: "Write lines",
+      status: "approved",
+      priority: "medium",
+      assignedBy: "keyholder",
+      createdAt: new Date("2024-01-12T00:00:00Z"),
+    },
+    {
+      ...base,
+      id: "task-2",
+      text: "Clean up",
+      status: "rejected",
+      priority: "low",
+      assignedBy: "keyholder",
+      createdAt: new Date("2024-01-13T00:00:00Z"),
+    },
+  ] satisfies DBTask[],
+  goals: [
+    {
+      ...base,
+      id: "goal-1",
+      type: "duration",
+      title: "A week locked",
+      targetValue: 604800,
+      currentValue: 302400,
+      unit: "seconds",
+      isCompleted: false,
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      createdBy: "submissive",
+      isPublic: false,
+    },
+    {
+      ...base,
+      id: "goal-2",
+      type: "milestone",
+      title: "First month",
+      targetValue: 1,
+      currentValue: 1,
+      unit: "count",
+      isCompleted: true,
+      completedAt: new Date("2024-02-01T00:00:00Z"),
+      createdAt: new Date("2024-01-01T00:00:00Z"),
+      createdBy: "keyholder",
+      isPublic: false,
+    },
+  ] satisfies DBGoal[],
+};
+
+const template = (
+  type: ReportType,
+  defaultParameters: ReportTemplate["defaultParameters"] = {},
+): ReportTemplate => ({
+  id: `${type}-template`,
+  name: "Test Report",
+  description: "",
+  type,
+  parameters: [],
+  defaultParameters,
+});
+
+const parameters = (
+  overrides: Partial<ReportParameters> = {},
+): ReportParameters => ({
+  dateRange: {
+    start: new Date("2024-01-01T00:00:00Z"),
+    end: new Date("2024-02-29T00:00:00Z"),
+  },
+  includeDetails: false,
+  filters: {},
+  ...overrides,
+});
 
 describe("Reporting Helpers", () => {
   beforeEach(() => {
@@ -25,117 +157,132 @@ describe("Reporting Helpers", () => {
   });
 
   describe("generateReportData", () => {
-    it("should generate report data with summary", async () => {
-      const parameters = {
-        dateRange: {
-          start: new Date("2024-01-01"),
-          end: new Date("2024-01-31"),
-        },
-        includeDetails: false,
-        filters: {},
-      };
-
-      const result = await generateReportData("session-summary", parameters);
+    it("should summarize the sessions in the records", () => {
+      const result = generateReportData(
+        template(ReportType.SUMMARY),
+        parameters(),
+        records,
+        NOW,
+      );
 
-      expect(result).toHaveProperty("summary");
-      expect(result.summary).toHaveProperty("totalSessions");
-      expect(result.summary).toHaveProperty("averageDuration");
-      expect(result.summary).toHaveProperty("longestSession");
-      expect(result).toHaveProperty("generatedAt");
+      expect(result.summary).toMatchObject({
+        totalSessions: 2,
+        activeSessions: 1,
+        totalHours: 33,
+        averageDuration: 16.5,
+        longestSession: 24,
+        totalPauseHours: 1,
+        emergencyUnlocks: 1,
+      });
       expect(result.details).toBeNull();
-    });
+      expect(result.analytics).toBeUndefined();
+      expect(result.generatedAt).toBe(NOW.toISOString());
+    });
+
+    it("should only count session time inside the date range", () => {
+      const result = generateReportData(
+        template(ReportType.SUMMARY),
+        parameters({
+          dateRange: {
+            start: new Date("2024-01-10T12:00:00Z"),
+            end: new Date("2024-02-01T00:00:00Z"),
+          },
+        }),
+        records,
+        NOW,
+      );
 
-    it("should include detailed data when requested", async () => {
-      const parameters = {
-        dateRange: {
-          start: new Date("2024-01-01"),
-          end: new Date("2024-01-31"),
-        },
-        includeDetails: true,
-        filters: {},
-      };
+      // 13 of session-1's 25 hours fall in range, with 13/25 of its pause
+      expect(result.summary).toMatchObject({
+        totalSessions: 1,
+        activeSessions: 0,
+        totalHours: 12.5,
+        longestSession: 12.5,
+        totalPauseHours: 0.5,
+        emergencyUnlocks: 1,
+      });
+    });
 
-      const result = await generateReportData("session-summary", parameters);
+    it("should list records when details are requested", () => {
+      const result = generateReportData(
+        template(ReportType.SUMMARY),
+        parameters({ includeDetails: true }),
+        records,
+        NOW,
+      );
 
-      expect(result.details).not.toBeNull();
-      expect(result.details).toHaveProperty("sessions");
-      expect(Array.isArray(result.details?.sessions)).toBe(true);
+      expect(result.details?.sessions).toHaveLength(2);
+      expect(result.details?.events).toHaveLength(2);
     });
 
-    it("should generate numeric values within expected ranges", async () => {
-      const parameters = {
-        dateRange: { start: new Date(), end: new Date() },
-        includeDetails: false,
-        filters: {},
-      };
-
-      const result = await generateReportData("test-template", parameters);
+    it("should keep only the sections a detailed template asks for", () => {
+      const result = generateReportData(
+        template(ReportType.DETAILED, { eventTypes: "tasks" }),
+        parameters(),
+        records,
+        NOW,
+      );
 
-      expect(result.summary.totalSessions).toBeGreaterThanOrEqual(0);
-      expect(result.summary.totalSessions).toBeLessThan(100);
-      expect(result.summary.averageDuration).toBeGreaterThanOrEqual(0);
-      expect(result.summary.longestSession).toBeGreaterThanOrEqual(0);
+      expect(result.details?.tasks).toHaveLength(2);
+      expect(result.details?.sessions).toBeUndefined();
+      expect(result.details?.events).toBeUndefined();
     });
 
-    it("should always include generatedAt timestamp", async () => {
-      const parameters = {
-        dateRange: { start: new Date(), end: new Date() },
-        includeDetails: false,
-        filters: {},
-      };
+    it("should let filters override template defaults", () => {
+      const result = generateReportData(
+        template(ReportType.ANALYTICS, { category: "all" }),
+        parameters({ filters: { category: "duration" } }),
+        records,
+        NOW,
+      );
 
-      const result = await generateReportData("test-template", parameters);
-      expect(result.generatedAt).toBeDefined();
-      expect(typeof result.generatedAt).toBe("string");
-      expect(new Date(result.generatedAt).toString()).not.toBe("Invalid Date");
+      expect(result.analytics?.goals.total).toBe(1);
+      expect(result.analytics?.goals.byType).toEqual({ duration: 1 });
     });
-  });
 
-  describe("generateDetailedData", () => {
-    it("should generate array of sessions", () => {
-      const result = generateDetailedData();
-
-      expect(result).toHaveProperty("sessions");
-      expect(Array.isArray(result.sessions)).toBe(true);
-      expect(result.sessions.length).toBe(10);
-    });
-
-    it("should generate sessions with required fields", () => {
-      const result = generateDetailedData();
-
-      result.sessions.forEach((session) => {
-        expect(session).toHaveProperty("id");
-        expect(session).toHaveProperty("startDate");
-        expect(session).toHaveProperty("duration");
-        expect(session).toHaveProperty("events");
-        expect(typeof session.id).toBe("number");
-        expect(session.startDate).toBeInstanceOf(Date);
-        expect(typeof session.duration).toBe("number");
-        expect(typeof session.events).toBe("number");
-      });
+    it("should group sessions by period", () => {
+      const result = generateReportData(
+        template(ReportType.SUMMARY),
+        parameters({ groupBy: "month" }),
+        records,
+        NOW,
+      );
+
+      expect(result.summary.groups).toEqual({ "2024-01": 1, "2024-02": 1 });
     });
+  });
 
-    it("should generate valid date ranges for sessions", () => {
-      const result = generateDetailedData();
-      const now = Date.now();
-      const thirtyDaysAgo = now - 30 * 24 * 60 * 60 * 1000;
+  describe("generateAnalyticsData", () => {
+    it("should report goal progress, task approval and event counts", () => {
+      const analytics = generateAnalyticsData(records);
 
-      result.sessions.forEach((session) => {
-        const sessionTime = session.startDate.getTime();
-        expect(sessionTime).toBeGreaterThanOrEqual(thirtyDaysAgo);
-        expect(sessionTime).toBeLessThanOrEqual(now);
+      expect(analytics.goals).toMatchObject({
+        total: 2,
+        completed: 1,
+        completionRate: 50,
+        averageProgress: 75,
+      });
+      expect(analytics.tasks).toEqual({
+        total: 2,
+        approved: 1,
+        rejected: 1,
+        approvalRate: 50,
       });
+      expect(analytics.eventsByType).toEqual({ orgasm: 1, session_pause: 1 });
     });
+  });
 
-    it("should generate non-negative durations and events", () => {
-      const result = generateDetailedData();
-
-      result.sessions.forEach((session) => {
-        expect(session.duration).toBeGreaterThanOrEqual(0);
-        expect(session.duration).toBeLessThan(72);
-        expect(session.events).toBeGreaterThanOrEqual(0);
-        expect(session.events).toBeLessThan(5);
+  describe("generateDetailedData", () => {
+    it("should count each session's events", () => {
+      const result = generateDetailedData(records, NOW);
+
+      expect(result.sessions?.[0]).toMatchObject({
+        id: "session-1",
+        duration: 24,
+        events: 2,
+        endReason: "emergency_unlock",
       });
+      expect(result.sessions?.[1]?.events).toBe(0);
     });
   });
 
@@ -263,6 +410,29 @@ describe("Reporting Helpers", () => {
     });
   });
 
+  describe("scheduled runs", () => {
+    it("should calculate the next run from the given time", () => {
+      const nextRun = calculateNextRun(
+        { frequency: "weekly", time: "09:00" },
+        new Date(2024, 2, 4, 12, 0),
+      );
+
+      expect(nextRun).toEqual(new Date(2024, 2, 11, 9, 0));
+    });
+
+    it("should report on the period before the run", () => {
+      const runAt = new Date(2024, 2, 31, 9, 0);
+
+      expect(getScheduledReportRange("weekly", runAt)).toEqual({
+        start: new Date(2024, 2, 24, 9, 0),
+        end: runAt,
+      });
+      expect(getScheduledReportRange("monthly", runAt).start).toEqual(
+        new Date(2024, 1, 29, 9, 0),
+      );
+    });
+  });
+
   describe("exportReportData", () => {
     const mockParameters: ReportParameters = {
       dateRange: { start: new Date(), end: new Date() },
@@ -338,32 +508,28 @@ describe("Reporting Helpers", () => {
   });
 
   describe("getRawData", () => {
-    it("should retrieve raw data with filters", async () => {
-      const filters = [{ field: "date", value: "2024-01-01" }];
+    it("should keep records matching every filter", () => {
+      const filters = [{ field: "status", value: "approved" }];
 
-      const result = await getRawData("sessions", filters);
+      const result = getRawData("tasks", filters, records.tasks);
 
-      expect(result).toHaveProperty("dataType");
-      expect(result).toHaveProperty("filters");
-      expect(result).toHaveProperty("records");
-      expect(result.dataType).toBe("sessions");
+      expect(result.dataType).toBe("tasks");
       expect(result.filters).toEqual(filters);
+      expect(result.records).toEqual([records.tasks[0]]);
     });
 
-    it("should handle empty filters array", async () => {
-      const result = await getRawData("events", []);
+    it("should match dates by instant", () => {
+      const result = getRawData(
+        "sessions",
+        [{ field: "startTime", value: new Date("2024-02-10T00:00:00Z") }],
+        records.sessions,
+      );
 
-      expect(result.filters).toEqual([]);
-      expect(result.records).toEqual([]);
+      expect(result.records).toEqual([records.sessions[1]]);
     });
 
-    it("should support multiple data types", async () => {
-      const dataTypes = ["sessions", "events", "tasks", "goals"];
-
-      for (const dataType of dataTypes) {
-        const result = await getRawData(dataType, []);
-        expect(result.dataType).toBe(dataType);
-      }
+    it("should return every record without filters", () => {
+      expect(getRawData("events", [], records.events).records).toHaveLength(2);
     });
   });
 
@@ -436,18 +602,18 @@ describe("Reporting Helpers", () => {
       filters: {},
     };
 
-    it("should handle very large date ranges", async () => {
-      const parameters = {
-        dateRange: {
-          start: new Date("2000-01-01"),
-          end: new Date("2024-12-31"),
-        },
-        includeDetails: true,
-        filters: {},
-      };
+    it("should report zeros when there are no records", () => {
+      const result = generateReportData(
+        template(ReportType.ANALYTICS),
+        parameters(),
+        { sessions: [], events: [], tasks: [], goals: [] },
+        NOW,
+      );
 
-      const result = await generateReportData("test", parameters);
-      expect(result).toBeDefined();
+      expect(result.summary.totalSessions).toBe(0);
+      expect(result.summary.averageDuration).toBe(0);
+      expect(result.summary.longestSession).toBe(0);
+      expect(result.analytics?.goals.completionRate).toBe(0);
     });
 
     it("should handle future dates in schedule", () => {
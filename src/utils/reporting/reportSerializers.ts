@@ -0,0 +1,186 @@
+/**
+ * Report serializers
+ * Turns generated reports and raw data exports into JSON, CSV, XLSX or PDF
+ */
+import { ExportFormat } from "../../hooks/features/useReporting";
+import { recordsToTable, toCSV, type CSVValue } from "../formatting/csv";
+import { formatLocalizedDate, type LocaleOptions } from "../formatting/locale";
+import { toPDF, type PDFChartBar, type PDFSection } from "../formatting/pdf";
+import { toXLSX, type XLSXSheet } from "../formatting/xlsx";
+
+export type ReportTable = XLSXSheet;
+
+type ExportContent = Record<string, unknown> | unknown[];
+
+// Record lists a report's details can hold, with their table names
+const DETAIL_TABLES: [string, string][] = [
+  ["sessions", "Sessions"],
+  ["events", "Events"],
+  ["tasks", "Tasks"],
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+// Stored reports hold their range as ISO strings
+const formatRangeDate = (value: unknown, locale: LocaleOptions): string => {
+  const date = new Date(value as string | Date);
+  return Number.isNaN(date.getTime())
+    ? String(value)
+    : formatLocalizedDate(date, locale.display ?? {}, locale.language);
+};
+
+const capitalize = (text: string) =>
+  text.charAt(0).toUpperCase() + text.slice(1);
+
+const toBars = (counts: unknown): PDFChartBar[] =>
+  isRecord(counts)
+    ? Object.entries(counts)
+        .filter(
+          (entry): entry is [string, number] => typeof entry[1] === "number",
+        )
+        .map(([label, value]) => ({ label, value }))
+    : [];
+
+/**
+ * The tables an export is made of. Raw data exports are one table of their
+ * records; reports get a Summary metric table followed by one table per
+ * listed record type.
+ */
+export function getReportTables(data: ExportContent): ReportTable[] {
+  if (Array.isArray(data)) {
+    return [{ name: "Data", ...recordsToTable(data.filter(isRecord)) }];
+  }
+  if (Array.isArray(data.records)) {
+    return [
+      {
+        name: capitalize(String(data.dataType ?? "Data")),
+        ...recordsToTable(data.records.filter(isRecord)),
+      },
+    ];
+  }
+
+  const metrics = recordsToTable([
+    { summary: data.summary ?? {}, analytics: data.analytics ?? {} },
+  ]);
+  const summary: ReportTable = {
+    name: "Summary",
+    headers: ["Metric", "Value"],
+    rows: metrics.headers
+      .map((metric, index): CSVValue[] => [metric, metrics.rows[0]?.[index]])
+      .filter(([, value]) => value !== undefined),
+  };
+  const details = isRecord(data.details) ? data.details : {};
+
+  return [
+    summary,
+    ...DETAIL_TABLES.filter(([key]) => Array.isArray(details[key])).map(
+      ([key, name]) => ({
+        name,
+        ...recordsToTable((details[key] as unknown[]).filter(isRecord)),
+      }),
+    ),
+  ];
+}
+
+/**
+ * Bar charts for a report's PDF: session hours, sessions per period and
+ * counts by event and goal type, skipping any the report has no data for
+ */
+export function getReportCharts(data: ExportContent): PDFSection[] {
+  if (Array.isArray(data) || !isRecord(data.summary)) return [];
+  const { summary } = data;
+  const analytics = isRecord(data.analytics) ? data.analytics : {};
+  const goals = isRecord(analytics.goals) ? analytics.goals : {};
+
+  const charts: PDFSection[] = [
+    {
+      type: "chart",
+      title: "Session hours",
+      bars: toBars({
+        Total: summary.totalHours,
+        Average: summary.averageDuration,
+        Longest: summary.longestSession,
+        Paused: summary.totalPauseHours,
+      }),
+    },
+    {
+      type: "chart",
+      title: "Sessions by period",
+      bars: toBars(summary.groups),
+    },
+    {
+      type: "chart",
+      title: "Events by type",
+      bars: toBars(analytics.eventsByType),
+    },
+    { type: "chart", title: "Goals by type", bars: toBars(goals.byType) },
+  ];
+  return charts.filter(
+    (chart) => chart.type === "chart" && chart.bars.length > 0,
+  );
+}
+
+/**
+ * One CSV for every table. A single table is written as is; several are
+ * stacked under a shared header with a leading Section column.
+ */
+export function tablesToCSV(tables: ReportTable[]): string {
+  if (tables.length === 1) {
+    return toCSV(tables[0]!.headers, tables[0]!.rows);
+  }
+  const headers = [...new Set(tables.flatMap((table) => table.headers))];
+  const rows = tables.flatMap((table) =>
+    table.rows.map((row) => [
+      table.name,
+      ...headers.map((header) => row[table.headers.indexOf(header)]),
+    ]),
+  );
+  return toCSV(["Section", ...headers], rows);
+}
+
+/**
+ * Serialize a report or raw data export in the requested format
+ * @param data - Generated report data or raw data export
+ * @param format - Output format
+ * @param title - Document title used by the PDF
+ * @param locale - Display settings the PDF's date range is written with
+ */
+export function serializeExport(
+  data: ExportContent,
+  format: ExportFormat,
+  title: string,
+  locale: LocaleOptions = {},
+): string | Uint8Array<ArrayBuffer> {
+  switch (format) {
+    case ExportFormat.CSV:
+      return tablesToCSV(getReportTables(data));
+    case ExportFormat.XLSX:
+      return toXLSX(getReportTables(data));
+    case ExportFormat.PDF: {
+      const dateRange =
+        !Array.isArray(data) && isRecord(data.dateRange)
+          ? data.dateRange
+          : undefined;
+      return toPDF({
+        title,
+        subtitle: dateRange
+          ? `${formatRangeDate(dateRange.start, locale)} to ${formatRangeDate(dateRange.end, locale)}`
+          : undefined,
+        sections: [
+          ...getReportCharts(data),
+          ...getReportTables(data).map(
+            (table): PDFSection => ({
+              type: "table",
+              title: table.name,
+              headers: table.headers,
+              rows: table.rows,
+            }),
+          ),
+        ],
+      });
+    }
+    default:
+      return JSON.stringify(data, null, 2);
+  }
+}
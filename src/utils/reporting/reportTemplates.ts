@@ -0,0 +1,81 @@
+/**
+ * Built-in report templates
+ */
+import {
+  ReportType,
+  type ReportTemplate,
+} from "../../hooks/features/useReporting";
+
+/**
+ * The templates every user can generate or schedule. They are built on
+ * call because this module and the reporting hook import each other.
+ */
+export function getDefaultReportTemplates(): ReportTemplate[] {
+  return [
+    {
+      id: "session-summary",
+      name: "Session Summary",
+      description: "Summary of chastity sessions over time",
+      type: ReportType.SUMMARY,
+      parameters: [
+        { name: "dateRange", type: "date", required: true },
+        {
+          name: "includeDetails",
+          type: "boolean",
+          required: false,
+          default: false,
+        },
+      ],
+      defaultParameters: {
+        includeDetails: false,
+      },
+    },
+    {
+      id: "achievement-progress",
+      name: "Achievement Progress",
+      description: "Progress on achievements and goals",
+      type: ReportType.ANALYTICS,
+      parameters: [
+        { name: "dateRange", type: "date", required: true },
+        {
+          name: "category",
+          type: "select",
+          required: false,
+          options: ["all", "duration", "behavior", "goals"],
+        },
+      ],
+      defaultParameters: {
+        category: "all",
+      },
+    },
+    {
+      id: "behavioral-analysis",
+      name: "Behavioral Analysis",
+      description: "Analysis of behavioral patterns and events",
+      type: ReportType.DETAILED,
+      parameters: [
+        { name: "dateRange", type: "date", required: true },
+        {
+          name: "eventTypes",
+          type: "select",
+          required: false,
+          options: ["all", "sessions", "events", "tasks"],
+        },
+      ],
+      defaultParameters: {
+        eventTypes: "all",
+      },
+    },
+  ];
+}
+
+/**
+ * A built-in template by ID
+ */
+export function findReportTemplate(
+  templateId: string,
+): ReportTemplate | undefined {
+  return getDefaultReportTemplates().find(
+    (template) => template.id === templateId,
+  );
+}
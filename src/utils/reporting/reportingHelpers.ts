@@ -1,57 +1,292 @@
 /**
  * Helper functions for reporting operations
+ * Builds summary, detailed and analytics reports from a user's records
  */
 
+import { format, subDays, subMonths, subWeeks } from "date-fns";
 import {
   ReportParameters,
+  ReportTemplate,
+  ReportType,
   GeneratedReport,
   ExportFormat,
   ReportSchedule,
   DataFilter,
 } from "../../hooks/features/useReporting";
+import type { DBEvent, DBGoal, DBSession, DBTask } from "../../types/database";
+import {
+  calculateSessionEffectiveTime,
+  calculateSessionPauseTime,
+  clipSessionToRange,
+} from "../stats/lifetimeStatsHelpers";
+import { generateUUID } from "../helpers/hash";
+import { serializeExport } from "./reportSerializers";
+import type { LocaleOptions } from "../formatting/locale";
 
 /**
- * Generate mock report data
+ * Records a report is built from, already limited to its date range
  */
-export async function generateReportData(
-  templateId: string,
+export interface ReportRecords {
+  sessions: DBSession[];
+  events: DBEvent[];
+  tasks: DBTask[];
+  goals: DBGoal[];
+}
+
+export type ReportDataType = keyof ReportRecords;
+
+export const REPORT_DATA_TYPES: ReportDataType[] = [
+  "sessions",
+  "events",
+  "tasks",
+  "goals",
+];
+
+// Goal types counted by each "achievement-progress" category
+const GOAL_CATEGORY_TYPES: Record<string, DBGoal["type"][]> = {
+  duration: ["duration"],
+  behavior: ["behavioral", "task_completion"],
+  goals: ["milestone", "special_challenge"],
+};
+
+// Sections a "behavioral-analysis" eventTypes option keeps
+const EVENT_TYPE_SECTIONS: Record<string, (keyof ReportRecords)[]> = {
+  sessions: ["sessions"],
+  events: ["events"],
+  tasks: ["tasks"],
+};
+
+const GROUP_KEY_FORMATS: Record<string, string> = {
+  day: "yyyy-MM-dd",
+  week: "RRRR-'W'II",
+  month: "yyyy-MM",
+};
+
+const toHours = (seconds: number) => Math.round((seconds / 3600) * 10) / 10;
+
+const countBy = <T>(items: T[], key: (item: T) => string) =>
+  items.reduce<Record<string, number>>((counts, item) => {
+    const value = key(item);
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+/**
+ * Template options for a report: the template's defaults overridden by the
+ * caller's filters
+ */
+function getReportOptions(
+  template: ReportTemplate,
   parameters: ReportParameters,
+): Record<string, string | number | boolean | Date> {
+  return { ...template.defaultParameters, ...parameters.filters };
+}
+
+/**
+ * The part of each session inside the range. Pause time is spread evenly
+ * over the session, so a session half inside the range loses half its pauses.
+ */
+function clipSessions(
+  sessions: DBSession[],
+  range: ReportParameters["dateRange"],
+  now: Date,
+) {
+  return sessions.flatMap((session) => {
+    const clipped = clipSessionToRange(session, range, now);
+    if (!clipped) return [];
+
+    const pauseSeconds =
+      calculateSessionPauseTime(session, now) * clipped.ratio;
+    const spanSeconds =
+      (clipped.end.getTime() - clipped.start.getTime()) / 1000;
+    return [
+      {
+        session,
+        start: clipped.start,
+        pauseSeconds,
+        lockedSeconds: Math.max(0, spanSeconds - pauseSeconds),
+      },
+    ];
+  });
+}
+
+/**
+ * Session totals in hours within the report range (all time up to now when
+ * no range is given), optionally grouped by day, week or month
+ */
+export function summarizeSessions(
+  sessions: DBSession[],
+  now: Date = new Date(),
+  groupBy?: string,
+  range: ReportParameters["dateRange"] = { start: new Date(0), end: now },
+) {
+  const parts = clipSessions(sessions, range, now);
+  const durations = parts.map((part) => part.lockedSeconds);
+  const totalSeconds = durations.reduce((sum, seconds) => sum + seconds, 0);
+  const groupFormat = groupBy ? GROUP_KEY_FORMATS[groupBy] : undefined;
+
+  return {
+    totalSessions: parts.length,
+    activeSessions: parts.filter((part) => !part.session.endTime).length,
+    totalHours: toHours(totalSeconds),
+    averageDuration: parts.length ? toHours(totalSeconds / parts.length) : 0,
+    longestSession: toHours(Math.max(0, ...durations)),
+    totalPauseHours: toHours(
+      parts.reduce((sum, part) => sum + part.pauseSeconds, 0),
+    ),
+    emergencyUnlocks: parts.filter((part) => part.session.isEmergencyUnlock)
+      .length,
+    groups: groupFormat
+      ? countBy(parts, (part) => format(part.start, groupFormat))
+      : undefined,
+  };
+}
+
+/**
+ * Per-record rows for sessions, events and tasks. `sections` limits which
+ * kinds of record are listed.
+ */
+export function generateDetailedData(
+  records: ReportRecords,
+  now: Date = new Date(),
+  sections: (keyof ReportRecords)[] = ["sessions", "events", "tasks"],
+) {
+  return {
+    sessions: sections.includes("sessions")
+      ? records.sessions.map((session) => ({
+          id: session.id,
+          startDate: session.startTime,
+          endDate: session.endTime,
+          duration: toHours(calculateSessionEffectiveTime(session, now)),
+          events: records.events.filter(
+            (event) => event.sessionId === session.id,
+          ).length,
+          endReason: session.endReason,
+        }))
+      : undefined,
+    events: sections.includes("events")
+      ? records.events.map((event) => ({
+          id: event.id,
+          type: event.type,
+          timestamp: event.timestamp,
+          sessionId: event.sessionId,
+        }))
+      : undefined,
+    tasks: sections.includes("tasks")
+      ? records.tasks.map((task) => ({
+          id: task.id,
+          text: task.text,
+          status: task.status,
+          assignedBy: task.assignedBy,
+          createdAt: task.createdAt,
+        }))
+      : undefined,
+  };
+}
+
+/**
+ * Goal, task and event analytics. `category` limits goals to one
+ * "achievement-progress" category.
+ */
+export function generateAnalyticsData(
+  records: ReportRecords,
+  category: string = "all",
 ) {
-  // In a real implementation, this would query actual data
-  await new Promise((resolve) => setTimeout(resolve, 1000));
+  const goalTypes = GOAL_CATEGORY_TYPES[category];
+  const goals = goalTypes
+    ? records.goals.filter((goal) => goalTypes.includes(goal.type))
+    : records.goals;
+  const completedGoals = goals.filter((goal) => goal.isCompleted).length;
+  const decidedTasks = records.tasks.filter(
+    (task) => task.status === "approved" || task.status === "rejected",
+  );
+  const approvedTasks = decidedTasks.filter(
+    (task) => task.status === "approved",
+  ).length;
 
   return {
-    summary: {
-      totalSessions: Math.floor(Math.random() * 100),
-      averageDuration: Math.floor(Math.random() * 72),
-      longestSession: Math.floor(Math.random() * 168),
+    goals: {
+      total: goals.length,
+      completed: completedGoals,
+      completionRate: goals.length
+        ? Math.round((completedGoals / goals.length) * 100)
+        : 0,
+      averageProgress: goals.length
+        ? Math.round(
+            goals.reduce(
+              (sum, goal) =>
+                sum +
+                (goal.progress ??
+                  Math.min(100, (goal.currentValue / goal.targetValue) * 100)),
+              0,
+            ) / goals.length,
+          )
+        : 0,
+      byType: countBy(goals, (goal) => goal.type),
+    },
+    tasks: {
+      total: records.tasks.length,
+      approved: approvedTasks,
+      rejected: decidedTasks.length - approvedTasks,
+      approvalRate: decidedTasks.length
+        ? Math.round((approvedTasks / decidedTasks.length) * 100)
+        : 0,
     },
-    details: parameters.includeDetails ? generateDetailedData() : null,
-    generatedAt: new Date().toISOString(),
+    eventsByType: countBy(records.events, (event) => event.type),
   };
 }
 
 /**
- * Generate mock detailed data
+ * Build a report from its template. Summary reports list records only when
+ * `includeDetails` is set; detailed and custom reports always do, and
+ * analytics reports add goal and task rates.
  */
-export function generateDetailedData() {
+export function generateReportData(
+  template: ReportTemplate,
+  parameters: ReportParameters,
+  records: ReportRecords,
+  now: Date = new Date(),
+) {
+  const options = getReportOptions(template, parameters);
+  const summary = summarizeSessions(
+    records.sessions,
+    now,
+    parameters.groupBy,
+    parameters.dateRange,
+  );
+  const listsRecords =
+    template.type === ReportType.DETAILED ||
+    template.type === ReportType.CUSTOM ||
+    parameters.includeDetails;
+
   return {
-    sessions: Array.from({ length: 10 }, (_, i) => ({
-      id: i + 1,
-      startDate: new Date(
-        Date.now() - Math.random() * 30 * 24 * 60 * 60 * 1000,
-      ),
-      duration: Math.floor(Math.random() * 72),
-      events: Math.floor(Math.random() * 5),
-    })),
+    dateRange: {
+      start: parameters.dateRange.start.toISOString(),
+      end: parameters.dateRange.end.toISOString(),
+    },
+    summary,
+    details: listsRecords
+      ? generateDetailedData(
+          records,
+          now,
+          EVENT_TYPE_SECTIONS[String(options.eventTypes)],
+        )
+      : null,
+    analytics:
+      template.type === ReportType.ANALYTICS
+        ? generateAnalyticsData(records, String(options.category ?? "all"))
+        : undefined,
+    generatedAt: now.toISOString(),
   };
 }
 
 /**
  * Calculate next scheduled run based on schedule configuration
  */
-export function calculateNextRun(schedule: ReportSchedule): Date {
-  const now = new Date();
+export function calculateNextRun(
+  schedule: Pick<ReportSchedule, "frequency" | "time">,
+  now: Date = new Date(),
+): Date {
   const timeParts = schedule.time.split(":").map(Number);
   const hours = timeParts[0] ?? 0;
   const minutes = timeParts[1] ?? 0;
@@ -77,40 +312,105 @@ export function calculateNextRun(schedule: ReportSchedule): Date {
 }
 
 /**
- * Export report data to specific format
+ * The period a scheduled run reports on: the day, week or month before it
+ */
+export function getScheduledReportRange(
+  frequency: ReportSchedule["frequency"],
+  runAt: Date,
+): ReportParameters["dateRange"] {
+  const start = {
+    daily: subDays,
+    weekly: subWeeks,
+    monthly: subMonths,
+  }[frequency](runAt, 1);
+  return { start, end: runAt };
+}
+
+/**
+ * Wrap report data as a generated report for the recent reports list
+ */
+export function createGeneratedReport(
+  template: ReportTemplate,
+  parameters: ReportParameters,
+  data: GeneratedReport["data"],
+  generatedBy: string,
+  now: Date = new Date(),
+): GeneratedReport {
+  return {
+    id: `report-${generateUUID()}`,
+    templateId: template.id,
+    name: template.name,
+    parameters,
+    data,
+    generatedAt: now,
+    generatedBy,
+    size: JSON.stringify(data).length,
+  };
+}
+
+/**
+ * Export a generated report as a downloadable file in the given format
  */
 export async function exportReportData(
   report: GeneratedReport,
   format: ExportFormat,
+  locale: LocaleOptions = {},
 ) {
-  // Simulate export processing
-  await new Promise((resolve) => setTimeout(resolve, 500));
-
-  const blob = new Blob([JSON.stringify(report.data, null, 2)], {
-    type: getContentType(format),
-  });
+  const blob = new Blob(
+    [serializeExport(report.data, format, report.name, locale)],
+    { type: getContentType(format) },
+  );
   const url = URL.createObjectURL(blob);
 
   return { url };
 }
 
 /**
- * Get raw data based on type and filters
+ * Whether a record matches every filter. Dates match by instant.
  */
-export async function getRawData(dataType: string, filters: DataFilter[]) {
-  // Simulate data retrieval
-  await new Promise((resolve) => setTimeout(resolve, 800));
-  return { dataType, filters, records: [] };
+export function matchesFilters(record: object, filters: DataFilter[]): boolean {
+  return filters.every(({ field, value }) => {
+    const actual = (record as Record<string, unknown>)[field];
+    if (value instanceof Date || actual instanceof Date) {
+      return (
+        actual !== undefined &&
+        new Date(actual as Date).getTime() === new Date(value as Date).getTime()
+      );
+    }
+    return actual === value;
+  });
+}
+
+/**
+ * Records of one type matching the filters
+ */
+export function getRawData(
+  dataType: ReportDataType,
+  filters: DataFilter[],
+  records: object[],
+) {
+  return {
+    dataType,
+    filters,
+    records: records.filter((record) => matchesFilters(record, filters)),
+  };
+}
+
+export function isReportDataType(value: string): value is ReportDataType {
+  return (REPORT_DATA_TYPES as string[]).includes(value);
 }
 
 /**
- * Export data in specified format
+ * Export raw data as a downloadable file in the given format
  */
 export async function exportData(
   data: Record<string, unknown> | unknown[],
   format: ExportFormat,
 ) {
-  const blob = new Blob([JSON.stringify(data, null, 2)], {
+  const title = Array.isArray(data)
+    ? "Data export"
+    : `${String(data.dataType ?? "Data")} export`;
+  const blob = new Blob([serializeExport(data, format, title)], {
     type: getContentType(format),
   });
   const url = URL.createObjectURL(blob);
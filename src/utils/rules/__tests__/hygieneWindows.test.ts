@@ -0,0 +1,101 @@
+/**
+ * Hygiene Window Tests
+ * Resolving recurring hygiene windows into openings
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  getActiveHygieneWindow,
+  getHygieneWindowKey,
+  getHygieneWindowOccurrences,
+} from "../hygieneWindows";
+import type { HygieneWindowCondition } from "@/types/core";
+import type { DBEvent } from "@/types/database";
+
+const daily: HygieneWindowCondition = {
+  type: "hygiene_window",
+  startTime: "07:00",
+  durationMinutes: 15,
+};
+
+describe("hygieneWindows", () => {
+  describe("getHygieneWindowOccurrences", () => {
+    it("lists one opening per day in the timezone", () => {
+      const occurrences = getHygieneWindowOccurrences(
+        daily,
+        new Date("2024-03-09T00:00:00Z"),
+        new Date("2024-03-11T23:00:00Z"),
+        "America/New_York",
+      );
+
+      expect(occurrences.map((occurrence) => occurrence.key)).toEqual([
+        "hygiene:07:00:2024-03-09",
+        "hygiene:07:00:2024-03-10",
+        "hygiene:07:00:2024-03-11",
+      ]);
+      // 07:00 EST, then 07:00 EDT after the DST change
+      expect(occurrences[0]?.start).toEqual(new Date("2024-03-09T12:00:00Z"));
+      expect(occurrences[1]?.start).toEqual(new Date("2024-03-10T11:00:00Z"));
+      expect(occurrences[1]?.end).toEqual(new Date("2024-03-10T11:15:00Z"));
+    });
+
+    it("skips days that are not scheduled", () => {
+      const occurrences = getHygieneWindowOccurrences(
+        { ...daily, daysOfWeek: [1] },
+        new Date("2024-03-10T00:00:00Z"),
+        new Date("2024-03-16T23:00:00Z"),
+        "UTC",
+      );
+
+      expect(occurrences.map((occurrence) => occurrence.key)).toEqual([
+        "hygiene:07:00:2024-03-11",
+      ]);
+    });
+
+    it("includes a window that opened the previous evening", () => {
+      const occurrences = getHygieneWindowOccurrences(
+        { ...daily, startTime: "23:50", durationMinutes: 30 },
+        new Date("2024-03-10T00:05:00Z"),
+        new Date("2024-03-10T00:10:00Z"),
+        "UTC",
+      );
+
+      expect(occurrences.map((occurrence) => occurrence.key)).toEqual([
+        "hygiene:23:50:2024-03-09",
+      ]);
+    });
+  });
+
+  describe("getActiveHygieneWindow", () => {
+    it("returns the window open at the given time", () => {
+      const active = getActiveHygieneWindow(
+        [daily],
+        new Date("2024-03-10T07:05:00Z"),
+        "UTC",
+      );
+
+      expect(active?.key).toBe("hygiene:07:00:2024-03-10");
+    });
+
+    it("returns null outside every window", () => {
+      expect(
+        getActiveHygieneWindow(
+          [daily, { type: "max_pause_duration", maxMinutes: 30 }],
+          new Date("2024-03-10T07:15:00Z"),
+          "UTC",
+        ),
+      ).toBeNull();
+    });
+  });
+
+  it("reads the window key from hygiene pause events", () => {
+    const event = {
+      details: { metadata: { hygieneWindow: "hygiene:07:00:2024-03-10" } },
+    } as unknown as DBEvent;
+
+    expect(getHygieneWindowKey(event)).toBe("hygiene:07:00:2024-03-10");
+    expect(
+      getHygieneWindowKey({ details: {} } as unknown as DBEvent),
+    ).toBeUndefined();
+  });
+});
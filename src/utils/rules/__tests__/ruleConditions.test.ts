@@ -0,0 +1,336 @@
+/**
+ * Rule Condition Tests
+ * Evaluation of machine-checkable keyholder rule conditions
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  describeRuleCondition,
+  evaluateRuleCondition,
+  evaluateRuleConditions,
+  type RuleEvaluationContext,
+} from "../ruleConditions";
+import type { DBEvent, DBSession } from "@/types/database";
+
+const makeEvent = (overrides: Partial<DBEvent>): DBEvent => ({
+  id: "event-1",
+  userId: "sub-1",
+  type: "note",
+  timestamp: new Date("2024-03-10T12:00:00Z"),
+  details: {},
+  isPrivate: false,
+  syncStatus: "synced",
+  lastModified: new Date("2024-03-10T12:00:00Z"),
+  ...overrides,
+});
+
+const makeSession = (overrides: Partial<DBSession>): DBSession =>
+  ({
+    id: "session-1",
+    userId: "sub-1",
+    startTime: new Date("2024-03-10T08:00:00Z"),
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    syncStatus: "synced",
+    lastModified: new Date("2024-03-10T08:00:00Z"),
+    ...overrides,
+  }) as DBSession;
+
+const makeContext = (
+  overrides: Partial<RuleEvaluationContext>,
+): RuleEvaluationContext => ({
+  sessions: [],
+  events: [],
+  since: new Date("2024-03-10T00:00:00Z"),
+  now: new Date("2024-03-10T18:00:00Z"),
+  timezone: "UTC",
+  ...overrides,
+});
+
+describe("ruleConditions", () => {
+  describe("max_pause_duration", () => {
+    const condition = { type: "max_pause_duration", maxMinutes: 30 } as const;
+
+    it("flags completed pauses over the limit from both resume shapes", () => {
+      const events = [
+        makeEvent({
+          id: "resume-1",
+          type: "session",
+          sessionId: "session-1",
+          timestamp: new Date("2024-03-10T10:45:00Z"),
+          details: {
+            action: "resumed",
+            metadata: {
+              sessionId: "session-1",
+              pauseStartTime: "2024-03-10T10:00:00.000Z",
+              pauseDuration: 45 * 60,
+            },
+          },
+        }),
+        makeEvent({
+          id: "resume-2",
+          type: "session_resume",
+          sessionId: "session-1",
+          timestamp: new Date("2024-03-10T12:10:00Z"),
+          details: { pauseDuration: 10 * 60 },
+        }),
+        makeEvent({
+          id: "resume-3",
+          type: "session_resume",
+          sessionId: "session-1",
+          timestamp: new Date("2024-03-10T14:40:00Z"),
+          details: { pauseDuration: 40 * 60 },
+        }),
+      ];
+
+      const drafts = evaluateRuleCondition(condition, makeContext({ events }));
+
+      expect(drafts.map((d) => d.eventId)).toEqual(["resume-1", "resume-3"]);
+      expect(drafts[0]?.occurredAt).toEqual(new Date("2024-03-10T10:30:00Z"));
+      expect(drafts[0]?.key).toBe(
+        `pause:session-1:${new Date("2024-03-10T10:00:00Z").getTime()}`,
+      );
+    });
+
+    it("flags an ongoing pause and keeps the same key once it is resumed", () => {
+      const pauseStart = new Date("2024-03-10T17:00:00Z");
+      const ongoing = evaluateRuleCondition(
+        condition,
+        makeContext({
+          sessions: [
+            makeSession({ isPaused: true, pauseStartTime: pauseStart }),
+          ],
+        }),
+      );
+      const resumed = evaluateRuleCondition(
+        condition,
+        makeContext({
+          events: [
+            makeEvent({
+              type: "session_resume",
+              sessionId: "session-1",
+              timestamp: new Date("2024-03-10T18:00:00Z"),
+              details: {
+                pauseDuration: 60 * 60,
+                metadata: { pauseStartTime: pauseStart.toISOString() },
+              },
+            }),
+          ],
+        }),
+      );
+
+      expect(ongoing).toHaveLength(1);
+      expect(ongoing[0]?.key).toBe(resumed[0]?.key);
+    });
+
+    it("ignores pauses that started before the rule applied", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          since: new Date("2024-03-10T12:00:00Z"),
+          sessions: [
+            makeSession({
+              isPaused: true,
+              pauseStartTime: new Date("2024-03-10T11:00:00Z"),
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toEqual([]);
+    });
+  });
+
+  describe("daily_event", () => {
+    const condition = { type: "daily_event", eventType: "Hygiene" } as const;
+
+    it("reports each full day without the required event", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          since: new Date("2024-03-10T15:00:00Z"),
+          now: new Date("2024-03-14T09:00:00Z"),
+          events: [
+            makeEvent({
+              type: "Hygiene",
+              timestamp: new Date("2024-03-12T20:00:00Z"),
+            }),
+          ],
+        }),
+      );
+
+      // 10th is partial (rule created mid-day) and 14th is still running
+      expect(drafts.map((d) => d.key)).toEqual([
+        "daily:Hygiene:2024-03-11",
+        "daily:Hygiene:2024-03-13",
+      ]);
+      expect(drafts[0]?.occurredAt).toEqual(
+        new Date("2024-03-11T23:59:59.999Z"),
+      );
+    });
+
+    it("splits days in the user's timezone", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          since: new Date("2024-03-10T12:00:00Z"),
+          now: new Date("2024-03-12T12:00:00Z"),
+          timezone: "America/New_York",
+          events: [
+            // 2024-03-11 22:30 in New York
+            makeEvent({
+              type: "Hygiene",
+              timestamp: new Date("2024-03-12T02:30:00Z"),
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toEqual([]);
+    });
+  });
+
+  describe("forbidden_event", () => {
+    it("reports every matching event after the rule applied", () => {
+      const drafts = evaluateRuleCondition(
+        { type: "forbidden_event", eventType: "Orgasm (Self)" },
+        makeContext({
+          events: [
+            makeEvent({
+              id: "old",
+              type: "Orgasm (Self)",
+              timestamp: new Date("2024-03-09T12:00:00Z"),
+            }),
+            makeEvent({ id: "new", type: "Orgasm (Self)" }),
+            makeEvent({ id: "other", type: "Hygiene" }),
+          ],
+        }),
+      );
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]).toMatchObject({
+        key: "event:new",
+        conditionType: "forbidden_event",
+        eventId: "new",
+      });
+    });
+  });
+
+  describe("hygiene_window", () => {
+    const condition = {
+      type: "hygiene_window",
+      startTime: "07:00",
+      durationMinutes: 15,
+    } as const;
+
+    it("flags a pause opened in the window that outlasted it", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          events: [
+            makeEvent({
+              id: "resume-late",
+              type: "session_resume",
+              sessionId: "session-1",
+              timestamp: new Date("2024-03-10T07:40:00Z"),
+              details: {
+                pauseDuration: 40 * 60,
+                metadata: { pauseStartTime: "2024-03-10T07:00:00.000Z" },
+              },
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]).toMatchObject({
+        key: "hygiene:07:00:2024-03-10:session-1",
+        conditionType: "hygiene_window",
+        occurredAt: new Date("2024-03-10T07:15:00Z"),
+      });
+    });
+
+    it("accepts a relock inside the window", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          events: [
+            makeEvent({
+              id: "resume-ok",
+              type: "session_resume",
+              sessionId: "session-1",
+              timestamp: new Date("2024-03-10T07:10:00Z"),
+              details: {
+                pauseDuration: 10 * 60,
+                metadata: { pauseStartTime: "2024-03-10T07:00:00.000Z" },
+              },
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toEqual([]);
+    });
+
+    it("flags a session still paused after the window closed", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          now: new Date("2024-03-10T07:30:00Z"),
+          sessions: [
+            makeSession({
+              isPaused: true,
+              pauseStartTime: new Date("2024-03-10T07:01:00Z"),
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toHaveLength(1);
+      expect(drafts[0]?.sessionId).toBe("session-1");
+    });
+
+    it("does not flag a window that is still open", () => {
+      const drafts = evaluateRuleCondition(
+        condition,
+        makeContext({
+          now: new Date("2024-03-10T07:10:00Z"),
+          sessions: [
+            makeSession({
+              isPaused: true,
+              pauseStartTime: new Date("2024-03-10T07:01:00Z"),
+            }),
+          ],
+        }),
+      );
+
+      expect(drafts).toEqual([]);
+    });
+  });
+
+  it("reports a record matched by two conditions only once", () => {
+    const condition = { type: "forbidden_event", eventType: "orgasm" } as const;
+    const drafts = evaluateRuleConditions(
+      [condition, condition],
+      makeContext({ events: [makeEvent({ type: "orgasm" })] }),
+    );
+
+    expect(drafts).toHaveLength(1);
+  });
+
+  it("describes conditions for display", () => {
+    expect(
+      describeRuleCondition({ type: "max_pause_duration", maxMinutes: 30 }),
+    ).toBe("No pause longer than 30 min");
+    expect(
+      describeRuleCondition({
+        type: "hygiene_window",
+        startTime: "07:00",
+        durationMinutes: 15,
+        daysOfWeek: [1, 3],
+      }),
+    ).toBe("Mon, Wed at 07:00: relock within 15 min");
+  });
+});
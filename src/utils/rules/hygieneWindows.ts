@@ -0,0 +1,98 @@
+/**
+ * Hygiene window helpers
+ * Resolves recurring hygiene-window rule conditions into concrete openings
+ */
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import type { HygieneWindowCondition, RuleCondition } from "@/types/core";
+import type { DBEvent } from "@/types/database";
+
+export interface HygieneWindowOccurrence {
+  /** Stable per condition and day, e.g. "hygiene:07:00:2024-03-10" */
+  key: string;
+  start: Date;
+  end: Date;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isHygieneWindowCondition(
+  condition: RuleCondition,
+): condition is HygieneWindowCondition {
+  return condition.type === "hygiene_window";
+}
+
+/**
+ * Window openings that overlap [from, to], oldest first
+ */
+export function getHygieneWindowOccurrences(
+  condition: HygieneWindowCondition,
+  from: Date,
+  to: Date,
+  timezone: string,
+): HygieneWindowOccurrence[] {
+  const durationMs = condition.durationMinutes * 60 * 1000;
+  const occurrences: HygieneWindowOccurrence[] = [];
+  const lastDay = formatInTimeZone(to, timezone, "yyyy-MM-dd");
+
+  // Start a day early so a window running over midnight is included
+  for (
+    let cursor = from.getTime() - DAY_MS;
+    formatInTimeZone(cursor, timezone, "yyyy-MM-dd") <= lastDay;
+    cursor += DAY_MS
+  ) {
+    const day = formatInTimeZone(cursor, timezone, "yyyy-MM-dd");
+    const weekday = new Date(`${day}T12:00:00Z`).getUTCDay();
+    if (condition.daysOfWeek && !condition.daysOfWeek.includes(weekday)) {
+      continue;
+    }
+
+    const start = fromZonedTime(`${day}T${condition.startTime}:00`, timezone);
+    const end = new Date(start.getTime() + durationMs);
+    if (end < from || start > to) continue;
+    // DST shifts can land two cursors on the same day
+    if (
+      occurrences.some(
+        (occurrence) => occurrence.start.getTime() === start.getTime(),
+      )
+    ) {
+      continue;
+    }
+
+    occurrences.push({
+      key: `hygiene:${condition.startTime}:${day}`,
+      start,
+      end,
+    });
+  }
+  return occurrences;
+}
+
+/**
+ * The hygiene window open at `now`, if any. Overlapping windows resolve to
+ * the one that closes last.
+ */
+export function getActiveHygieneWindow(
+  conditions: RuleCondition[],
+  now: Date,
+  timezone: string,
+): HygieneWindowOccurrence | null {
+  return conditions
+    .filter(isHygieneWindowCondition)
+    .flatMap((condition) =>
+      getHygieneWindowOccurrences(condition, now, now, timezone),
+    )
+    .filter((occurrence) => occurrence.start <= now && now < occurrence.end)
+    .reduce<HygieneWindowOccurrence | null>(
+      (latest, occurrence) =>
+        !latest || occurrence.end > latest.end ? occurrence : latest,
+      null,
+    );
+}
+
+/**
+ * Window key recorded on a pause event opened by a hygiene window
+ */
+export function getHygieneWindowKey(event: DBEvent): string | undefined {
+  const key = event.details?.metadata?.hygieneWindow;
+  return typeof key === "string" ? key : undefined;
+}
@@ -0,0 +1,308 @@
+/**
+ * Rule condition helpers
+ * Pure evaluation of KeyholderRule conditions against sessions and events
+ */
+import { formatInTimeZone, fromZonedTime } from "date-fns-tz";
+import type {
+  HygieneWindowCondition,
+  RuleCondition,
+  RuleConditionType,
+} from "@/types/core";
+import type { DBEvent, DBSession } from "@/types/database";
+import { SystemEventType } from "@/types/events";
+import { getHygieneWindowOccurrences } from "./hygieneWindows";
+
+export interface RuleViolationDraft {
+  /** Identifies the offending record; stable across evaluations */
+  key: string;
+  conditionType: RuleConditionType;
+  description: string;
+  /** Moment the rule was broken */
+  occurredAt: Date;
+  sessionId?: string;
+  eventId?: string;
+}
+
+export interface RuleEvaluationContext {
+  sessions: DBSession[];
+  events: DBEvent[];
+  /** Records before this time are ignored (usually the rule's creation) */
+  since: Date;
+  now: Date;
+  /** IANA timezone used to split days for daily conditions */
+  timezone: string;
+}
+
+export const RULE_CONDITION_LABELS: Record<RuleConditionType, string> = {
+  max_pause_duration: "Maximum pause length",
+  daily_event: "Log an event every day",
+  forbidden_event: "Forbidden event",
+  hygiene_window: "Hygiene window",
+};
+
+const WEEKDAY_NAMES = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+/**
+ * Human-readable summary of a condition
+ */
+export function describeRuleCondition(condition: RuleCondition): string {
+  switch (condition.type) {
+    case "max_pause_duration":
+      return `No pause longer than ${condition.maxMinutes} min`;
+    case "daily_event":
+      return `Log "${condition.eventType}" every day`;
+    case "forbidden_event":
+      return `No "${condition.eventType}" events`;
+    case "hygiene_window": {
+      const days = condition.daysOfWeek
+        ? condition.daysOfWeek.map((day) => WEEKDAY_NAMES[day]).join(", ")
+        : "Daily";
+      return `${days} at ${condition.startTime}: relock within ${condition.durationMinutes} min`;
+    }
+  }
+}
+
+interface CompletedPause {
+  eventId: string;
+  sessionId?: string;
+  start: Date;
+  durationSeconds: number;
+}
+
+/**
+ * Extract finished pauses from resume events. Both the session service
+ * ("session" + action "resumed") and PauseService ("session_resume") shapes
+ * are supported.
+ */
+export function getCompletedPauses(events: DBEvent[]): CompletedPause[] {
+  return events.flatMap((event) => {
+    const details = event.details ?? {};
+    const metadata = details.metadata ?? {};
+    const isResume =
+      (event.type === "session" && details.action === "resumed") ||
+      event.type === "session_resume" ||
+      event.type === SystemEventType.SESSION_RESUME;
+    const duration = details.pauseDuration ?? metadata.pauseDuration;
+    if (!isResume || typeof duration !== "number") return [];
+
+    const recordedStart = metadata.pauseStartTime;
+    const start =
+      typeof recordedStart === "string"
+        ? new Date(recordedStart)
+        : new Date(event.timestamp.getTime() - duration * 1000);
+
+    return [
+      {
+        eventId: event.id,
+        sessionId:
+          event.sessionId ??
+          (typeof metadata.sessionId === "string"
+            ? metadata.sessionId
+            : undefined),
+        start,
+        durationSeconds: duration,
+      },
+    ];
+  });
+}
+
+function evaluateMaxPause(
+  maxMinutes: number,
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  const maxSeconds = maxMinutes * 60;
+  const describe = (seconds: number) =>
+    `Paused for ${Math.round(seconds / 60)} min (limit ${maxMinutes} min)`;
+
+  const completed = getCompletedPauses(context.events)
+    .filter(
+      (pause) =>
+        pause.start >= context.since && pause.durationSeconds > maxSeconds,
+    )
+    .map((pause) => ({
+      key: `pause:${pause.sessionId ?? pause.eventId}:${pause.start.getTime()}`,
+      conditionType: "max_pause_duration" as const,
+      description: describe(pause.durationSeconds),
+      occurredAt: new Date(pause.start.getTime() + maxSeconds * 1000),
+      sessionId: pause.sessionId,
+      eventId: pause.eventId,
+    }));
+
+  // A pause still running can already be over the limit
+  const ongoing = context.sessions.flatMap((session) => {
+    const start = session.pauseStartTime;
+    if (!session.isPaused || session.endTime || !start) return [];
+    const seconds = (context.now.getTime() - start.getTime()) / 1000;
+    if (start < context.since || seconds <= maxSeconds) return [];
+    return [
+      {
+        key: `pause:${session.id}:${start.getTime()}`,
+        conditionType: "max_pause_duration" as const,
+        description: describe(seconds),
+        occurredAt: new Date(start.getTime() + maxSeconds * 1000),
+        sessionId: session.id,
+      },
+    ];
+  });
+
+  const completedKeys = new Set(completed.map((draft) => draft.key));
+  return [
+    ...completed,
+    ...ongoing.filter((draft) => !completedKeys.has(draft.key)),
+  ];
+}
+
+/**
+ * Calendar days (yyyy-MM-dd) in the timezone that are fully inside the window
+ */
+function getFullDays(since: Date, now: Date, timezone: string): string[] {
+  const days: string[] = [];
+  const today = formatInTimeZone(now, timezone, "yyyy-MM-dd");
+  // Start the day after `since`; that day was only partially covered
+  const cursor = new Date(
+    `${formatInTimeZone(since, timezone, "yyyy-MM-dd")}T12:00:00Z`,
+  );
+  cursor.setUTCDate(cursor.getUTCDate() + 1);
+
+  for (
+    let day = formatInTimeZone(cursor, "UTC", "yyyy-MM-dd");
+    day < today;
+    day = formatInTimeZone(cursor, "UTC", "yyyy-MM-dd")
+  ) {
+    days.push(day);
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return days;
+}
+
+function evaluateDailyEvent(
+  eventType: string,
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  const loggedDays = new Set(
+    context.events
+      .filter((event) => event.type === eventType)
+      .map((event) =>
+        formatInTimeZone(event.timestamp, context.timezone, "yyyy-MM-dd"),
+      ),
+  );
+
+  return getFullDays(context.since, context.now, context.timezone)
+    .filter((day) => !loggedDays.has(day))
+    .map((day) => {
+      const endOfDay = fromZonedTime(`${day}T23:59:59.999`, context.timezone);
+      return {
+        key: `daily:${eventType}:${day}`,
+        conditionType: "daily_event" as const,
+        description: `No "${eventType}" event logged on ${day}`,
+        occurredAt: endOfDay,
+      };
+    });
+}
+
+function evaluateForbiddenEvent(
+  eventType: string,
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  return context.events
+    .filter(
+      (event) => event.type === eventType && event.timestamp >= context.since,
+    )
+    .map((event) => ({
+      key: `event:${event.id}`,
+      conditionType: "forbidden_event" as const,
+      description: `Logged forbidden "${eventType}" event`,
+      occurredAt: event.timestamp,
+      sessionId: event.sessionId,
+      eventId: event.id,
+    }));
+}
+
+/**
+ * Pauses started inside a hygiene window must end before the window closes
+ */
+function evaluateHygieneWindow(
+  condition: HygieneWindowCondition,
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  const pauses = [
+    ...getCompletedPauses(context.events).map((pause) => ({
+      ...pause,
+      end: new Date(pause.start.getTime() + pause.durationSeconds * 1000),
+    })),
+    ...context.sessions.flatMap((session) =>
+      session.isPaused && !session.endTime && session.pauseStartTime
+        ? [
+            {
+              eventId: undefined,
+              sessionId: session.id,
+              start: session.pauseStartTime,
+              end: context.now,
+            },
+          ]
+        : [],
+    ),
+  ];
+
+  return getHygieneWindowOccurrences(
+    condition,
+    context.since,
+    context.now,
+    context.timezone,
+  )
+    .filter((window) => window.start >= context.since)
+    .flatMap((window) => {
+      const overrun = pauses.find(
+        (pause) =>
+          pause.start >= window.start &&
+          pause.start < window.end &&
+          pause.end > window.end,
+      );
+      if (!overrun) return [];
+      return [
+        {
+          key: `${window.key}:${overrun.sessionId ?? overrun.eventId}`,
+          conditionType: "hygiene_window" as const,
+          description: `Not relocked within the ${condition.startTime} hygiene window (${condition.durationMinutes} min)`,
+          occurredAt: window.end,
+          sessionId: overrun.sessionId,
+          eventId: overrun.eventId,
+        },
+      ];
+    });
+}
+
+/**
+ * Evaluate a single condition
+ */
+export function evaluateRuleCondition(
+  condition: RuleCondition,
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  switch (condition.type) {
+    case "max_pause_duration":
+      return evaluateMaxPause(condition.maxMinutes, context);
+    case "daily_event":
+      return evaluateDailyEvent(condition.eventType, context);
+    case "forbidden_event":
+      return evaluateForbiddenEvent(condition.eventType, context);
+    case "hygiene_window":
+      return evaluateHygieneWindow(condition, context);
+  }
+}
+
+/**
+ * Evaluate all conditions of a rule; duplicates (same key) are reported once
+ */
+export function evaluateRuleConditions(
+  conditions: RuleCondition[],
+  context: RuleEvaluationContext,
+): RuleViolationDraft[] {
+  const drafts = new Map<string, RuleViolationDraft>();
+  conditions
+    .flatMap((condition) => evaluateRuleCondition(condition, context))
+    .forEach((draft) => {
+      if (!drafts.has(draft.key)) drafts.set(draft.key, draft);
+    });
+  return [...drafts.values()];
+}
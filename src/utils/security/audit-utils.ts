@@ -8,6 +8,8 @@ import {
   AuditFilter,
   AuditPrivacySettings,
 } from "../../types/security";
+import { toCSV } from "../formatting/csv";
+import { toPDF } from "../formatting/pdf";
 
 export function getCategoryForAction(action: AuditAction): AuditCategory {
   const categoryMap: Record<AuditAction, AuditCategory> = {
@@ -17,6 +19,19 @@ export function getCategoryForAction(action: AuditAction): AuditCategory {
     [AuditAction.SESSION_END]: AuditCategory.SESSION,
     [AuditAction.SESSION_PAUSE]: AuditCategory.SESSION,
     [AuditAction.SESSION_RESUME]: AuditCategory.SESSION,
+    [AuditAction.SESSION_UPDATE]: AuditCategory.SESSION,
+    [AuditAction.EMERGENCY_UNLOCK]: AuditCategory.SECURITY,
+    [AuditAction.SAFETY_RELEASE]: AuditCategory.SECURITY,
+    [AuditAction.RELEASE_REQUEST_CREATE]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_REQUEST_APPROVE]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_REQUEST_DENY]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_REQUEST_CANCEL]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_REQUEST_COUNTER]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_COUNTER_ACCEPT]: AuditCategory.SESSION,
+    [AuditAction.RELEASE_COUNTER_DECLINE]: AuditCategory.SESSION,
+    [AuditAction.RULE_CREATE]: AuditCategory.RULES,
+    [AuditAction.RULE_UPDATE]: AuditCategory.RULES,
+    [AuditAction.RULE_DELETE]: AuditCategory.RULES,
     [AuditAction.TASK_CREATE]: AuditCategory.TASKS,
     [AuditAction.TASK_UPDATE]: AuditCategory.TASKS,
     [AuditAction.TASK_DELETE]: AuditCategory.TASKS,
@@ -41,12 +56,11 @@ export async function getClientIP(): Promise<string> {
   return "127.0.0.1";
 }
 
-export function applyAuditFilters(
-  entries: AuditEntry[],
-  _filters: AuditFilter,
-): AuditEntry[] {
-  // Implementation would apply all filters
-  return entries;
+export function applyAuditFilters<T extends AuditEntry>(
+  entries: T[],
+  filters: AuditFilter,
+): T[] {
+  return applySearchFilters(entries, filters);
 }
 
 export function convertToCSV(entries: AuditEntry[]): string {
@@ -67,12 +81,71 @@ export function convertToCSV(entries: AuditEntry[]): string {
     entry.outcome,
   ]);
 
-  return [headers, ...rows].map((row) => row.join(",")).join("\n");
+  return toCSV(headers, rows);
 }
 
-export async function generatePDF(_entries: AuditEntry[]): Promise<Uint8Array> {
-  // In real implementation, generate PDF using library like jsPDF
-  return new Uint8Array();
+const countBy = (values: string[]) =>
+  values.reduce<Record<string, number>>((counts, value) => {
+    counts[value] = (counts[value] ?? 0) + 1;
+    return counts;
+  }, {});
+
+/**
+ * PDF report of audit entries: totals by outcome and severity, a chart of
+ * entries per category and the entries themselves in time order
+ */
+export async function generatePDF(entries: AuditEntry[]): Promise<Uint8Array> {
+  const sorted = [...entries].sort(
+    (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  );
+  const first = sorted[0]?.timestamp.toISOString().slice(0, 10);
+  const last = sorted[sorted.length - 1]?.timestamp.toISOString().slice(0, 10);
+  const totals = [
+    ...Object.entries(countBy(sorted.map((entry) => entry.outcome))),
+    ...Object.entries(countBy(sorted.map((entry) => entry.severity))),
+  ];
+
+  return toPDF({
+    title: "Audit Log",
+    subtitle: first
+      ? `${sorted.length} entries, ${first} to ${last}`
+      : "No entries",
+    sections: [
+      {
+        type: "table",
+        title: "Totals",
+        headers: ["Outcome / Severity", "Entries"],
+        rows: [["total", sorted.length], ...totals],
+      },
+      {
+        type: "chart",
+        title: "Entries by category",
+        bars: Object.entries(
+          countBy(sorted.map((entry) => entry.category)),
+        ).map(([label, value]) => ({ label, value })),
+      },
+      {
+        type: "table",
+        title: "Entries",
+        headers: [
+          "Timestamp",
+          "Action",
+          "Category",
+          "Severity",
+          "Outcome",
+          "Description",
+        ],
+        rows: sorted.map((entry) => [
+          entry.timestamp.toISOString().slice(0, 19).replace("T", " "),
+          entry.action,
+          entry.category,
+          entry.severity,
+          entry.outcome,
+          entry.details.description,
+        ]),
+      },
+    ],
+  });
 }
 
 export function calculateSecurityScore(entries: AuditEntry[]): number {
@@ -103,18 +176,6 @@ export function generateSecurityRecommendations(
 }
 
 // API functions
-export async function saveAuditEntry(_entry: AuditEntry): Promise<void> {
-  // In real implementation, save to backend/Firebase
-}
-
-export async function fetchRecentAuditEntries(
-  _userId: string,
-  _relationshipId?: string,
-): Promise<AuditEntry[]> {
-  // In real implementation, fetch from backend
-  return [];
-}
-
 export async function savePrivacySettings(
   _userId: string,
   _settings: Partial<AuditPrivacySettings>,
@@ -123,10 +184,10 @@ export async function savePrivacySettings(
 }
 
 // Search and filtering helper functions
-export function applyTextSearch(
-  entries: AuditEntry[],
+export function applyTextSearch<T extends AuditEntry>(
+  entries: T[],
   query?: string,
-): AuditEntry[] {
+): T[] {
   if (!query) return entries;
 
   const searchTerm = query.toLowerCase();
@@ -137,20 +198,20 @@ export function applyTextSearch(
   );
 }
 
-export function applySearchFilters(
-  entries: AuditEntry[],
+export function applySearchFilters<T extends AuditEntry>(
+  entries: T[],
   filters?: AuditFilter,
-): AuditEntry[] {
+): T[] {
   if (!filters) return entries;
 
   let results = entries;
 
-  if (filters.startDate && filters.endDate) {
-    results = results.filter(
-      (entry) =>
-        entry.timestamp >= filters.startDate! &&
-        entry.timestamp <= filters.endDate!,
-    );
+  if (filters.startDate) {
+    results = results.filter((entry) => entry.timestamp >= filters.startDate!);
+  }
+
+  if (filters.endDate) {
+    results = results.filter((entry) => entry.timestamp <= filters.endDate!);
   }
 
   if (filters.userId) {
@@ -180,11 +241,11 @@ export function applySearchFilters(
   return results;
 }
 
-export function applySorting(
-  entries: AuditEntry[],
+export function applySorting<T extends AuditEntry>(
+  entries: T[],
   sortBy?: string,
   sortOrder?: "asc" | "desc",
-): AuditEntry[] {
+): T[] {
   if (!sortBy) return entries;
 
   return [...entries].sort((a, b) => {
@@ -215,14 +276,31 @@ export function applySorting(
   });
 }
 
-export function applyPagination(
-  entries: AuditEntry[],
+export function applyPagination<T extends AuditEntry>(
+  entries: T[],
   limit?: number,
   offset?: number,
-): AuditEntry[] {
+): T[] {
   if (!limit && !offset) return entries;
 
   const start = offset || 0;
   const end = start + (limit || entries.length);
   return entries.slice(start, end);
 }
+
+/**
+ * Permissions switched on and off by an update. Keys missing from `before`
+ * count as off, and keys missing from `after` are left unchanged.
+ */
+export function diffPermissions<T extends object>(
+  before: Partial<T> | undefined,
+  after: Partial<T>,
+): { granted: (keyof T)[]; revoked: (keyof T)[] } {
+  const changed = (Object.keys(after) as (keyof T)[]).filter(
+    (key) => Boolean(after[key]) !== Boolean(before?.[key]),
+  );
+  return {
+    granted: changed.filter((key) => Boolean(after[key])),
+    revoked: changed.filter((key) => !after[key]),
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * Audit log hash chain
+ * Hashing, verification and export of a user's persisted audit entries
+ */
+import type {
+  AuditChainAnchor,
+  AuditChainIssue,
+  AuditChainVerification,
+  DBAuditEntry,
+} from "../../types/security";
+import { sha256 } from "../helpers/hash";
+import { toCSV, type CSVValue } from "../formatting/csv";
+
+/** previousHash of the first entry in every chain */
+export const AUDIT_GENESIS_HASH = "0".repeat(64);
+
+/** Entry fields covered by the hash; sync bookkeeping is left out */
+export type AuditChainContent = Omit<
+  DBAuditEntry,
+  "hash" | "previousHash" | "syncStatus" | "lastModified"
+>;
+
+/**
+ * Sort object keys, drop undefined values and turn dates into ISO strings so
+ * the same entry always serializes identically - including after a round
+ * trip through a JSON export.
+ */
+const canonicalize = (value: unknown): unknown => {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    const record = value as Record<string, unknown>;
+    return Object.fromEntries(
+      Object.keys(record)
+        .sort()
+        .filter((key) => record[key] !== undefined)
+        .map((key) => [key, canonicalize(record[key])]),
+    );
+  }
+  return value;
+};
+
+const toChainContent = (entry: DBAuditEntry): AuditChainContent => {
+  const {
+    hash: _hash,
+    previousHash: _previousHash,
+    syncStatus: _syncStatus,
+    lastModified: _lastModified,
+    ...content
+  } = entry;
+  return content;
+};
+
+/**
+ * Hash an entry's content together with the hash of the entry before it
+ */
+export async function computeAuditHash(
+  content: AuditChainContent,
+  previousHash: string,
+): Promise<string> {
+  return sha256(`${previousHash}\n${JSON.stringify(canonicalize(content))}`);
+}
+
+/**
+ * Walk a user's chain in sequence order and report entries whose content no
+ * longer matches their hash, gaps left by deleted entries and links that
+ * point at the wrong predecessor. Entries parsed from a JSON export can be
+ * verified as-is.
+ *
+ * Removing the newest entries leaves a shorter but valid chain, and a chain
+ * rewritten from scratch is valid too; pass the head seen earlier as `anchor`
+ * to catch both.
+ */
+export async function verifyAuditChain(
+  entries: DBAuditEntry[],
+  anchor?: AuditChainAnchor,
+): Promise<AuditChainVerification> {
+  const issues: AuditChainIssue[] = [];
+  const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+
+  let expectedSequence = 0;
+  let previousHash = AUDIT_GENESIS_HASH;
+
+  for (const entry of ordered) {
+    const hasGap = entry.sequence > expectedSequence;
+    if (hasGap) {
+      issues.push({ type: "missing", sequence: expectedSequence });
+    }
+
+    const hash = await computeAuditHash(
+      toChainContent(entry),
+      entry.previousHash,
+    );
+    if (hash !== entry.hash) {
+      issues.push({
+        type: "edited",
+        sequence: entry.sequence,
+        entryId: entry.id,
+      });
+    } else if (
+      !hasGap &&
+      (entry.sequence < expectedSequence || entry.previousHash !== previousHash)
+    ) {
+      issues.push({
+        type: "broken_link",
+        sequence: entry.sequence,
+        entryId: entry.id,
+      });
+    }
+
+    previousHash = entry.hash;
+    expectedSequence = entry.sequence + 1;
+  }
+
+  if (anchor) {
+    const anchored = ordered.find(
+      (entry) => entry.sequence === anchor.sequence,
+    );
+    if (!anchored) {
+      issues.push({ type: "truncated", sequence: anchor.sequence });
+    } else if (anchored.hash !== anchor.hash) {
+      issues.push({
+        type: "edited",
+        sequence: anchor.sequence,
+        entryId: anchored.id,
+      });
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    checkedEntries: ordered.length,
+    issues,
+  };
+}
+
+/**
+ * Audit entries as a table in chain order, including the chain columns
+ * needed to verify an exported file later
+ */
+export function auditEntriesToTable(entries: DBAuditEntry[]): {
+  headers: string[];
+  rows: CSVValue[][];
+} {
+  const headers = [
+    "Sequence",
+    "Timestamp",
+    "User ID",
+    "Action",
+    "Category",
+    "Severity",
+    "Outcome",
+    "Description",
+    "Resource Type",
+    "Resource ID",
+    "Target User ID",
+    "Previous Hash",
+    "Hash",
+  ];
+  const rows = [...entries]
+    .sort((a, b) => a.sequence - b.sequence)
+    .map((entry) => [
+      entry.sequence,
+      entry.timestamp,
+      entry.userId,
+      entry.action,
+      entry.category,
+      entry.severity,
+      entry.outcome,
+      entry.details.description,
+      entry.context.resourceType,
+      entry.context.resourceId,
+      entry.context.targetUserId,
+      entry.previousHash,
+      entry.hash,
+    ]);
+
+  return { headers, rows };
+}
+
+/**
+ * CSV export of audit entries
+ */
+export function auditEntriesToCSV(entries: DBAuditEntry[]): string {
+  const { headers, rows } = auditEntriesToTable(entries);
+  return toCSV(headers, rows);
+}
+
+/**
+ * JSON export of audit entries in chain order. The output can be parsed and
+ * passed straight back to verifyAuditChain.
+ */
+export function auditEntriesToJSON(entries: DBAuditEntry[]): string {
+  const ordered = [...entries].sort((a, b) => a.sequence - b.sequence);
+  return JSON.stringify(ordered, null, 2);
+}
@@ -0,0 +1,267 @@
+/**
+ * Relationship permission guard
+ * Decides whether a local mutation made on behalf of a relationship is
+ * allowed. The checks mirror the chastityData rules in firestore.rules so a
+ * change refused here would also be refused by the server.
+ */
+import {
+  RelationshipStatus,
+  type GuardedMutation,
+  type GuardedOperation,
+  type GuardedResource,
+  type PermissionDenialReason,
+  type RelationshipActingContext,
+} from "../../types/relationships";
+import type { AdminRelationship } from "../../types/account-linking";
+
+export class RelationshipPermissionError extends Error {
+  constructor(
+    public readonly reason: PermissionDenialReason,
+    public readonly resource: GuardedResource,
+    public readonly operation: GuardedOperation,
+    message: string,
+  ) {
+    super(message);
+    this.name = "RelationshipPermissionError";
+  }
+}
+
+type Role = "submissive" | "keyholder";
+
+interface GuardInput {
+  role: Role;
+  /** Keyholder holds the keyholderCanEdit permission for the resource */
+  keyholderMayEdit: boolean;
+  context: RelationshipActingContext;
+  mutation: GuardedMutation;
+}
+
+// Task statuses that finish a task without a keyholder review
+const SELF_COMPLETING_STATUSES = ["approved", "completed"];
+
+const RESOURCE_LABELS: Record<GuardedResource, string> = {
+  sessions: "sessions",
+  tasks: "tasks",
+  goals: "goals",
+};
+
+// match /sessions: the submissive, or a keyholder with the sessions
+// permission, may write; only that keyholder may delete
+function checkSession({
+  role,
+  keyholderMayEdit,
+  context,
+  mutation,
+}: GuardInput): PermissionDenialReason | null {
+  const { permissions } = context.relationship;
+  if (mutation.operation === "delete" || role === "keyholder") {
+    return keyholderMayEdit ? null : "missing_permission";
+  }
+  if (mutation.changes?.isPaused === true && !permissions.submissiveCanPause) {
+    return "missing_permission";
+  }
+  if (mutation.changes?.endTime && permissions.requireApproval.sessionEnd) {
+    return "approval_required";
+  }
+  return null;
+}
+
+// match /tasks: any member may create; the submissive may update their own
+// tasks and delete ones they assigned themselves
+function checkTask({
+  role,
+  keyholderMayEdit,
+  context,
+  mutation,
+}: GuardInput): PermissionDenialReason | null {
+  const { operation, existing, changes } = mutation;
+  if (operation === "create" || keyholderMayEdit) {
+    return null;
+  }
+  if (role === "keyholder") {
+    return "missing_permission";
+  }
+  if (operation === "delete") {
+    return existing?.assignedBy === "submissive" ? null : "missing_permission";
+  }
+  // Local tasks are always assigned to their owner, so firestore's
+  // `assignedTo == 'submissive'` becomes ownership by the submissive
+  if (existing?.userId !== context.relationship.submissiveId) {
+    return "missing_permission";
+  }
+  const finishesTask = SELF_COMPLETING_STATUSES.includes(
+    String(changes?.status),
+  );
+  return finishesTask &&
+    context.relationship.permissions.requireApproval.taskCompletion
+    ? "approval_required"
+    : null;
+}
+
+// match /goals: the submissive, or a keyholder with the goals permission,
+// may write; the submissive may only delete goals they set
+function checkGoal({
+  role,
+  keyholderMayEdit,
+  context,
+  mutation,
+}: GuardInput): PermissionDenialReason | null {
+  if (keyholderMayEdit) {
+    return null;
+  }
+  if (role === "keyholder") {
+    return "missing_permission";
+  }
+  if (
+    mutation.operation === "delete" &&
+    mutation.existing?.createdBy !== "submissive"
+  ) {
+    return "missing_permission";
+  }
+  return context.relationship.permissions.requireApproval.goalChanges
+    ? "approval_required"
+    : null;
+}
+
+const RESOURCE_CHECKS: Record<
+  GuardedResource,
+  (input: GuardInput) => PermissionDenialReason | null
+> = {
+  sessions: checkSession,
+  tasks: checkTask,
+  goals: checkGoal,
+};
+
+/**
+ * Check a mutation against the relationship's permissions.
+ * @returns Why the mutation is refused, or null when it is allowed
+ */
+export function evaluateRelationshipMutation(
+  context: RelationshipActingContext,
+  mutation: GuardedMutation,
+): PermissionDenialReason | null {
+  const { relationship, actorId } = context;
+  const role: Role | null =
+    relationship.submissiveId === actorId
+      ? "submissive"
+      : relationship.keyholderId === actorId
+        ? "keyholder"
+        : null;
+
+  if (!role) {
+    return "not_member";
+  }
+  // Deletes are the only writes firestore.rules allows on inactive relationships
+  if (
+    mutation.operation !== "delete" &&
+    relationship.status !== RelationshipStatus.ACTIVE
+  ) {
+    return "relationship_inactive";
+  }
+
+  return RESOURCE_CHECKS[mutation.resource]({
+    role,
+    keyholderMayEdit:
+      role === "keyholder" &&
+      relationship.permissions.keyholderCanEdit[mutation.resource],
+    context,
+    mutation,
+  });
+}
+
+/**
+ * User-facing explanation of a denial
+ */
+export function getPermissionDenialMessage(
+  reason: PermissionDenialReason,
+  resource: GuardedResource,
+  operation: GuardedOperation,
+): string {
+  const label = RESOURCE_LABELS[resource];
+  switch (reason) {
+    case "not_member":
+      return "You are not part of this relationship.";
+    case "relationship_inactive":
+      return "This relationship is not active, so its data can't be changed.";
+    case "approval_required":
+      return `Changing ${label} needs your keyholder's approval in this relationship.`;
+    case "missing_permission":
+      return `You don't have permission to ${operation} ${label} in this relationship.`;
+  }
+}
+
+/**
+ * User-facing message for a failed write: permission denials explain
+ * themselves, anything else gets the fallback
+ */
+export function getPermissionFailureMessage(
+  error: unknown,
+  fallback: string,
+): string {
+  return error instanceof RelationshipPermissionError
+    ? error.message
+    : fallback;
+}
+
+const ADMIN_STATUSES: Record<AdminRelationship["status"], RelationshipStatus> =
+  {
+    active: RelationshipStatus.ACTIVE,
+    paused: RelationshipStatus.PAUSED,
+    terminated: RelationshipStatus.ENDED,
+  };
+
+/**
+ * Acting context for a keyholder writing the wearer's data through an
+ * account-linking relationship. The keyholder's control permissions become
+ * the keyholderCanEdit flags the guard checks.
+ */
+export function buildKeyholderActingContext(
+  relationship: AdminRelationship,
+  actorId: string,
+): RelationshipActingContext {
+  const { permissions } = relationship;
+  return {
+    actorId,
+    relationship: {
+      id: relationship.id,
+      submissiveId: relationship.wearerId,
+      keyholderId: relationship.keyholderId,
+      status: ADMIN_STATUSES[relationship.status],
+      permissions: {
+        keyholderCanEdit: {
+          sessions: permissions.controlSessions,
+          tasks: permissions.manageTasks,
+          goals: permissions.setGoals,
+          punishments: permissions.manageTasks,
+          settings: permissions.editSettings,
+        },
+        submissiveCanPause: true,
+        emergencyUnlock: permissions.emergencyUnlock,
+        // Account linking has no approval flow for the wearer's own changes
+        requireApproval: {
+          sessionEnd: false,
+          taskCompletion: false,
+          goalChanges: false,
+        },
+      },
+    },
+  };
+}
+
+/**
+ * Throw a RelationshipPermissionError when the mutation is not allowed
+ */
+export function assertRelationshipMutation(
+  context: RelationshipActingContext,
+  mutation: GuardedMutation,
+): void {
+  const reason = evaluateRelationshipMutation(context, mutation);
+  if (reason) {
+    throw new RelationshipPermissionError(
+      reason,
+      mutation.resource,
+      mutation.operation,
+      getPermissionDenialMessage(reason, mutation.resource, mutation.operation),
+    );
+  }
+}
@@ -0,0 +1,307 @@
+/**
+ * Predictive Analytics Utilities Tests
+ * Predictions and recommendations computed from session history
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  adjustmentsBySession,
+  analyzeSessionHistory,
+  generatePredictiveInsights,
+  generateRecommendations,
+  wilsonInterval,
+} from "../predictions";
+import type { DBSession } from "@/types/database";
+
+const DAY = 86400;
+const NOW = new Date(2024, 5, 30, 12, 0, 0);
+
+let sequence = 0;
+
+/**
+ * Build an ended session that started `daysAgo` days before NOW at `hour`
+ * and ran for `ranSeconds`.
+ */
+const endedSession = (
+  daysAgo: number,
+  goalSeconds: number | undefined,
+  ranSeconds: number,
+  overrides: Partial<DBSession> = {},
+): DBSession => {
+  const startTime = new Date(NOW.getTime() - daysAgo * DAY * 1000);
+  sequence += 1;
+  return {
+    id: `s${sequence}`,
+    userId: "user1",
+    syncStatus: "synced",
+    lastModified: startTime,
+    startTime,
+    endTime: new Date(startTime.getTime() + ranSeconds * 1000),
+    isPaused: false,
+    accumulatedPauseTime: 0,
+    goalDuration: goalSeconds,
+    isHardcoreMode: false,
+    keyholderApprovalRequired: false,
+    ...overrides,
+  };
+};
+
+describe("Predictive Analytics Utilities", () => {
+  describe("wilsonInterval", () => {
+    it("spans everything with no observations", () => {
+      expect(wilsonInterval(0, 0)).toEqual({ lower: 0, upper: 100 });
+    });
+
+    it("narrows as the sample grows", () => {
+      const small = wilsonInterval(4, 5);
+      const large = wilsonInterval(80, 100);
+      expect(small.upper - small.lower).toBeGreaterThan(
+        large.upper - large.lower,
+      );
+      expect(large.lower).toBeLessThan(80);
+      expect(large.upper).toBeGreaterThan(80);
+    });
+
+    it("stays within 0-100 at the extremes", () => {
+      expect(wilsonInterval(5, 5).upper).toBe(100);
+      expect(wilsonInterval(0, 5).lower).toBe(0);
+    });
+  });
+
+  describe("analyzeSessionHistory", () => {
+    it("computes completion rate per goal length", () => {
+      const sessions = [
+        // Short goals: 3 of 3 completed
+        endedSession(20, DAY / 2, DAY / 2),
+        endedSession(18, DAY / 2, DAY),
+        endedSession(16, DAY / 2, DAY / 2 + 60),
+        // Week-long goals: 1 of 4 completed
+        endedSession(40, 8 * DAY, 8 * DAY),
+        endedSession(30, 8 * DAY, 2 * DAY),
+        endedSession(14, 8 * DAY, 3 * DAY),
+        endedSession(10, 8 * DAY, DAY),
+      ];
+
+      const analysis = analyzeSessionHistory(sessions, NOW);
+      const short = analysis.completionByGoalLength.find(
+        (bucket) => bucket.label === "Under 1 day",
+      );
+      const week = analysis.completionByGoalLength.find(
+        (bucket) => bucket.label === "1-2 weeks",
+      );
+
+      expect(analysis.goalSessionCount).toBe(7);
+      expect(analysis.completion.rate).toBeCloseTo(57.1, 1);
+      expect(short).toMatchObject({ rate: 100, sampleSize: 3 });
+      expect(week).toMatchObject({ rate: 25, sampleSize: 4 });
+      expect(week!.confidenceInterval.lower).toBeLessThan(25);
+    });
+
+    it("excludes paused time from the goal check", () => {
+      const analysis = analyzeSessionHistory(
+        [endedSession(5, DAY, DAY + 600, { accumulatedPauseTime: 3600 })],
+        NOW,
+      );
+      expect(analysis.completion.rate).toBe(0);
+      expect(analysis.pauseFrequency.rate).toBe(100);
+      expect(analysis.averagePauseSeconds).toBe(3600);
+    });
+
+    it("judges goals against their adjusted length", () => {
+      const extended = endedSession(5, DAY, DAY + 600);
+      const reduced = endedSession(8, DAY, DAY - 600);
+      const analysis = analyzeSessionHistory([extended, reduced], NOW, {
+        adjustments: { [extended.id]: 3600, [reduced.id]: -3600 },
+      });
+      const [shorter, longer] = analysis.completionByGoalLength;
+
+      expect(shorter).toMatchObject({ rate: 100, sampleSize: 1 });
+      expect(longer).toMatchObject({ rate: 0, sampleSize: 1 });
+    });
+
+    it("treats emergency unlocks as failures and tracks their rate", () => {
+      const analysis = analyzeSessionHistory(
+        [
+          endedSession(5, DAY, 2 * DAY, { isEmergencyUnlock: true }),
+          endedSession(10, undefined, DAY),
+        ],
+        NOW,
+      );
+      expect(analysis.completion).toMatchObject({ rate: 0, sampleSize: 1 });
+      expect(analysis.emergencyUnlocks).toMatchObject({
+        rate: 50,
+        sampleSize: 2,
+      });
+    });
+
+    it("finds the time of day when sessions usually end early", () => {
+      // Start at 8pm so a one-hour run ends in the evening
+      const evening = (daysAgo: number) =>
+        endedSession(daysAgo, DAY, 3600, {
+          startTime: new Date(2024, 5, 30 - daysAgo, 20, 0, 0),
+          endTime: new Date(2024, 5, 30 - daysAgo, 21, 0, 0),
+        });
+      const analysis = analyzeSessionHistory(
+        [evening(3), evening(6), evening(9), endedSession(12, DAY, DAY)],
+        NOW,
+      );
+      expect(analysis.failuresByTimeOfDay.evening).toBe(3);
+      expect(analysis.peakFailureTimeOfDay).toBe("evening");
+    });
+
+    it("buckets times of day in the given timezone", () => {
+      // 22:00 UTC is morning in Tokyo and afternoon in Los Angeles
+      const sessions = [3, 6, 9].map((daysAgo) =>
+        endedSession(daysAgo, DAY, 3600, {
+          endTime: new Date(Date.UTC(2024, 5, 30 - daysAgo, 22, 0, 0)),
+        }),
+      );
+
+      expect(
+        analyzeSessionHistory(sessions, NOW, { timeZone: "Asia/Tokyo" })
+          .peakFailureTimeOfDay,
+      ).toBe("morning");
+      expect(
+        analyzeSessionHistory(sessions, NOW, {
+          timeZone: "America/Los_Angeles",
+        }).peakFailureTimeOfDay,
+      ).toBe("afternoon");
+    });
+
+    it("reports days since the last session", () => {
+      const analysis = analyzeSessionHistory(
+        [endedSession(10, undefined, DAY)],
+        NOW,
+      );
+      expect(analysis.daysSinceLastSession).toBe(9);
+    });
+  });
+
+  describe("generatePredictiveInsights", () => {
+    it("uses an uninformed estimate with no history", () => {
+      const insights = generatePredictiveInsights([], NOW);
+      expect(insights.nextSessionSuccess).toMatchObject({
+        probability: 50,
+        sampleSize: 0,
+        confidenceInterval: { lower: 0, upper: 100 },
+      });
+      expect(insights.goalAchievementLikelihood).toEqual([]);
+    });
+
+    it("predicts an active goal from its goal-length bucket", () => {
+      const active: DBSession = {
+        ...endedSession(2, DAY / 2, 0),
+        endTime: undefined,
+        startTime: new Date(NOW.getTime() - 3600 * 1000),
+      };
+      const sessions = [
+        endedSession(20, DAY / 2, DAY / 2),
+        endedSession(18, DAY / 2, DAY / 2),
+        endedSession(16, DAY / 2, 60),
+        endedSession(40, 8 * DAY, DAY),
+        active,
+      ];
+
+      const insights = generatePredictiveInsights(sessions, NOW);
+
+      expect(insights.nextSessionSuccess.probability).toBeCloseTo(66.7, 1);
+      expect(insights.nextSessionSuccess.sampleSize).toBe(3);
+      expect(insights.goalAchievementLikelihood).toEqual([
+        expect.objectContaining({
+          goalId: active.id,
+          timeToCompletion: DAY / 2 - 3600,
+        }),
+      ]);
+      expect(insights.history.daysSinceLastSession).toBe(0);
+    });
+
+    it("counts down to the adjusted goal of an active session", () => {
+      const active: DBSession = {
+        ...endedSession(2, DAY / 2, 0),
+        endTime: undefined,
+        startTime: new Date(NOW.getTime() - 3600 * 1000),
+      };
+
+      const insights = generatePredictiveInsights([active], NOW, {
+        adjustments: { [active.id]: 7200 },
+      });
+
+      expect(insights.goalAchievementLikelihood[0]?.timeToCompletion).toBe(
+        DAY / 2 + 3600,
+      );
+    });
+
+    it("flags burnout when recent sessions fall behind and end in emergency", () => {
+      const sessions = [
+        ...Array.from({ length: 6 }, (_, index) =>
+          endedSession(60 + index * 3, DAY, DAY),
+        ),
+        ...Array.from({ length: 4 }, (_, index) =>
+          endedSession(2 + index * 2, DAY, 3600, { isEmergencyUnlock: true }),
+        ),
+      ];
+
+      const { riskAssessment } = generatePredictiveInsights(sessions, NOW);
+
+      expect(riskAssessment.burnoutRisk).toBe("high");
+      expect(riskAssessment.factors.length).toBeGreaterThan(0);
+    });
+
+    it("flags consistency risk after a long break", () => {
+      const { riskAssessment } = generatePredictiveInsights(
+        [endedSession(30, DAY, DAY)],
+        NOW,
+      );
+      expect(riskAssessment.consistencyRisk).toBe("high");
+    });
+  });
+
+  describe("adjustmentsBySession", () => {
+    it("nets each session's adjustments, leaving out reversed ones", () => {
+      expect(
+        adjustmentsBySession([
+          { sessionId: "a", seconds: 3600 },
+          { sessionId: "a", seconds: -600 },
+          { sessionId: "a", seconds: 900, reversedAt: NOW },
+          { sessionId: "b", seconds: 60 },
+        ]),
+      ).toEqual({ a: 3000, b: 60 });
+    });
+  });
+
+  describe("generateRecommendations", () => {
+    it("asks for goal sessions when there is no history", () => {
+      const recommendations = generateRecommendations(
+        analyzeSessionHistory([], NOW),
+      );
+      expect(recommendations.map((r) => r.id)).toEqual(["collect-history"]);
+    });
+
+    it("recommends a comfortable goal length when longer goals fail", () => {
+      const sessions = [
+        endedSession(20, DAY / 2, DAY / 2),
+        endedSession(18, DAY / 2, DAY / 2),
+        endedSession(16, DAY / 2, DAY / 2),
+        endedSession(40, 8 * DAY, DAY),
+        endedSession(30, 8 * DAY, DAY),
+        endedSession(25, 8 * DAY, DAY),
+      ];
+
+      const [recommendation] = generateRecommendations(
+        analyzeSessionHistory(sessions, NOW),
+      );
+
+      expect(recommendation).toMatchObject({ id: "goal-length", type: "goal" });
+      expect(recommendation!.actionRequired).toContain("Under 1 day");
+    });
+
+    it("has nothing to add for a steady history", () => {
+      const sessions = Array.from({ length: 5 }, (_, index) =>
+        endedSession(2 + index * 2, DAY, DAY),
+      );
+      expect(
+        generateRecommendations(analyzeSessionHistory(sessions, NOW)),
+      ).toEqual([]);
+    });
+  });
+});
@@ -1,45 +1,473 @@
 /**
  * Predictive Analytics Utilities
- * Functions for generating predictions and recommendations
+ * Functions for generating predictions and recommendations from the user's
+ * session history
  */
 
+import type { DBSession, DBTimeAdjustment } from "../../types/database";
+import { TimerService } from "../../services/TimerService";
+import { TimezoneUtil } from "../timezone";
 import type {
+  ConfidenceInterval,
+  GoalLengthCompletion,
   PredictiveInsights,
+  RateEstimate,
   Recommendation,
+  SessionHistoryAnalysis,
+  TimeOfDay,
 } from "../../hooks/data/types/statistics";
 
+type RiskLevel = PredictiveInsights["riskAssessment"]["burnoutRisk"];
+
+/**
+ * What the history is read against besides the sessions themselves
+ */
+export interface PredictionOptions {
+  /** Net ledger seconds per session id, see adjustmentsBySession */
+  adjustments?: Record<string, number>;
+  /** IANA timezone times of day are judged in; the device's when unset */
+  timeZone?: string;
+}
+
+const DAY = 86400;
+
+// Fewer observations than this are reported but not relied on for predictions
+const MIN_SAMPLE_SIZE = 3;
+const RECENT_SESSION_COUNT = 5;
+const Z_95 = 1.96;
+
+const GOAL_LENGTH_BUCKETS: Omit<GoalLengthCompletion, keyof RateEstimate>[] = [
+  { label: "Under 1 day", minSeconds: 0, maxSeconds: DAY },
+  { label: "1-3 days", minSeconds: DAY, maxSeconds: 3 * DAY },
+  { label: "3-7 days", minSeconds: 3 * DAY, maxSeconds: 7 * DAY },
+  { label: "1-2 weeks", minSeconds: 7 * DAY, maxSeconds: 14 * DAY },
+  { label: "2+ weeks", minSeconds: 14 * DAY, maxSeconds: Infinity },
+];
+
+const round1 = (value: number): number => Math.round(value * 10) / 10;
+
+/**
+ * Wilson score interval for a binomial proportion, as percentages.
+ * Stays inside 0-100 and behaves sensibly for small samples.
+ */
+export function wilsonInterval(
+  successes: number,
+  total: number,
+): ConfidenceInterval {
+  if (total === 0) return { lower: 0, upper: 100 };
+
+  const p = successes / total;
+  const z2 = Z_95 * Z_95;
+  const denominator = 1 + z2 / total;
+  const centre = (p + z2 / (2 * total)) / denominator;
+  const margin =
+    (Z_95 * Math.sqrt((p * (1 - p)) / total + z2 / (4 * total * total))) /
+    denominator;
+
+  return {
+    lower: round1(Math.max(0, centre - margin) * 100),
+    upper: round1(Math.min(1, centre + margin) * 100),
+  };
+}
+
+const estimateRate = (successes: number, total: number): RateEstimate => ({
+  rate: total === 0 ? 0 : round1((successes / total) * 100),
+  confidenceInterval: wilsonInterval(successes, total),
+  sampleSize: total,
+});
+
+const effectiveSeconds = (session: DBSession): number =>
+  session.endTime
+    ? (session.endTime.getTime() - session.startTime.getTime()) / 1000 -
+      (session.accumulatedPauseTime || 0)
+    : 0;
+
+/**
+ * Net ledger seconds for each session the adjustments belong to
+ */
+export const adjustmentsBySession = (
+  adjustments: Pick<DBTimeAdjustment, "sessionId" | "seconds" | "reversedAt">[],
+): Record<string, number> => {
+  const bySession = new Map<string, typeof adjustments>();
+  adjustments.forEach((adjustment) => {
+    const { sessionId } = adjustment;
+    bySession.set(sessionId, [...(bySession.get(sessionId) ?? []), adjustment]);
+  });
+  return Object.fromEntries(
+    [...bySession].map(([sessionId, entries]) => [
+      sessionId,
+      TimerService.calculateAdjustmentTotal(entries),
+    ]),
+  );
+};
+
+const adjustedGoal = (session: DBSession, options: PredictionOptions) =>
+  TimerService.calculateAdjustedGoal(
+    session,
+    options.adjustments?.[session.id] ?? 0,
+  );
+
+/**
+ * A goal session succeeds when it ran its full goal, as adjusted by the
+ * ledger, without an emergency unlock
+ */
+const reachedGoal = (session: DBSession, options: PredictionOptions) =>
+  !session.isEmergencyUnlock &&
+  effectiveSeconds(session) >= adjustedGoal(session, options);
+
+const timeOfDay = (date: Date, timeZone?: string): TimeOfDay => {
+  const hour = (
+    timeZone ? TimezoneUtil.convertToUserTimezone(date, timeZone) : date
+  ).getHours();
+  if (hour < 6) return "night";
+  if (hour < 12) return "morning";
+  if (hour < 18) return "afternoon";
+  return "evening";
+};
+
+const countFailuresByTimeOfDay = (
+  failures: DBSession[],
+  timeZone?: string,
+): Record<TimeOfDay, number> => {
+  const counts: Record<TimeOfDay, number> = {
+    night: 0,
+    morning: 0,
+    afternoon: 0,
+    evening: 0,
+  };
+  failures.forEach((session) => {
+    if (session.endTime) counts[timeOfDay(session.endTime, timeZone)] += 1;
+  });
+  return counts;
+};
+
+const findPeak = (
+  counts: Record<TimeOfDay, number>,
+  total: number,
+): TimeOfDay | undefined => {
+  if (total < MIN_SAMPLE_SIZE) return undefined;
+  const [peak, count] = (Object.entries(counts) as [TimeOfDay, number][]).sort(
+    (a, b) => b[1] - a[1],
+  )[0] as [TimeOfDay, number];
+  // Only a peak if it clearly beats an even spread across the four periods
+  return count / total >= 0.4 ? peak : undefined;
+};
+
+const bucketFor = (goalSeconds: number) =>
+  GOAL_LENGTH_BUCKETS.find(
+    (bucket) =>
+      goalSeconds >= bucket.minSeconds && goalSeconds < bucket.maxSeconds,
+  );
+
+/**
+ * Summarise the user's session history into the rates predictions are built on
+ */
+export function analyzeSessionHistory(
+  sessions: DBSession[],
+  now: Date = new Date(),
+  options: PredictionOptions = {},
+): SessionHistoryAnalysis {
+  const succeeded = (session: DBSession) => reachedGoal(session, options);
+  const ended = sessions
+    .filter((session) => session.endTime)
+    .sort((a, b) => b.endTime!.getTime() - a.endTime!.getTime());
+  const goalSessions = ended.filter(
+    (session) => (session.goalDuration ?? 0) > 0,
+  );
+  const failures = goalSessions.filter((session) => !succeeded(session));
+  const recent = goalSessions.slice(0, RECENT_SESSION_COUNT);
+
+  const completionByGoalLength = GOAL_LENGTH_BUCKETS.map((bucket) => {
+    const inBucket = goalSessions.filter(
+      (session) => bucketFor(adjustedGoal(session, options)) === bucket,
+    );
+    return {
+      ...bucket,
+      ...estimateRate(inBucket.filter(succeeded).length, inBucket.length),
+    };
+  });
+
+  const failuresByTimeOfDay = countFailuresByTimeOfDay(
+    failures,
+    options.timeZone,
+  );
+  const paused = ended.filter((session) => session.accumulatedPauseTime > 0);
+  const hasActive = sessions.some((session) => !session.endTime);
+  const lastEnd = ended[0]?.endTime;
+
+  return {
+    goalSessionCount: goalSessions.length,
+    completion: estimateRate(
+      goalSessions.length - failures.length,
+      goalSessions.length,
+    ),
+    completionByGoalLength,
+    failuresByTimeOfDay,
+    peakFailureTimeOfDay: findPeak(failuresByTimeOfDay, failures.length),
+    pauseFrequency: estimateRate(paused.length, ended.length),
+    averagePauseSeconds:
+      paused.length === 0
+        ? 0
+        : Math.round(
+            paused.reduce((sum, s) => sum + s.accumulatedPauseTime, 0) /
+              paused.length,
+          ),
+    emergencyUnlocks: estimateRate(
+      ended.filter((session) => session.isEmergencyUnlock).length,
+      ended.length,
+    ),
+    recentCompletion:
+      recent.length >= MIN_SAMPLE_SIZE
+        ? estimateRate(recent.filter(succeeded).length, recent.length)
+        : undefined,
+    daysSinceLastSession: hasActive
+      ? 0
+      : lastEnd
+        ? Math.floor((now.getTime() - lastEnd.getTime()) / (DAY * 1000))
+        : undefined,
+  };
+}
+
+/**
+ * Best available completion estimate for a goal length: its own bucket when
+ * there is enough history there, otherwise the overall rate.
+ */
+const estimateForGoal = (
+  analysis: SessionHistoryAnalysis,
+  goalSeconds: number | undefined,
+): { estimate: RateEstimate; bucketLabel?: string } => {
+  const bucket = goalSeconds
+    ? analysis.completionByGoalLength.find(
+        (candidate) =>
+          goalSeconds >= candidate.minSeconds &&
+          goalSeconds < candidate.maxSeconds,
+      )
+    : undefined;
+  if (bucket && bucket.sampleSize >= MIN_SAMPLE_SIZE) {
+    return { estimate: bucket, bucketLabel: bucket.label };
+  }
+  return { estimate: analysis.completion };
+};
+
+const levelFromScore = (score: number): RiskLevel =>
+  score >= 3 ? "high" : score >= 1 ? "medium" : "low";
+
+const assessRisk = (
+  analysis: SessionHistoryAnalysis,
+): PredictiveInsights["riskAssessment"] => {
+  const factors: string[] = [];
+  let burnout = 0;
+  let consistency = 0;
+
+  const { emergencyUnlocks, recentCompletion, completion } = analysis;
+  if (emergencyUnlocks.sampleSize >= MIN_SAMPLE_SIZE) {
+    if (emergencyUnlocks.rate >= 20) burnout += 2;
+    else if (emergencyUnlocks.rate >= 10) burnout += 1;
+    if (emergencyUnlocks.rate >= 10) {
+      factors.push(`${emergencyUnlocks.rate}% of sessions ended in emergency`);
+    }
+  }
+
+  if (recentCompletion) {
+    const drop = completion.rate - recentCompletion.rate;
+    if (drop >= 25) burnout += 2;
+    else if (drop >= 10) burnout += 1;
+    if (drop >= 10) {
+      factors.push(
+        `Recent completion ${recentCompletion.rate}% vs ${completion.rate}% overall`,
+      );
+    }
+  }
+
+  const { daysSinceLastSession, pauseFrequency } = analysis;
+  if (daysSinceLastSession !== undefined && daysSinceLastSession > 7) {
+    consistency += daysSinceLastSession > 14 ? 3 : 1;
+    factors.push(`${daysSinceLastSession} days since the last session`);
+  }
+  if (
+    pauseFrequency.sampleSize >= MIN_SAMPLE_SIZE &&
+    pauseFrequency.rate >= 50
+  ) {
+    consistency += 1;
+    factors.push(`${pauseFrequency.rate}% of sessions were paused`);
+  }
+
+  return {
+    burnoutRisk: levelFromScore(burnout),
+    consistencyRisk: levelFromScore(consistency),
+    factors,
+  };
+};
+
+const successFactors = (
+  analysis: SessionHistoryAnalysis,
+  sampleSize: number,
+  bucketLabel?: string,
+): string[] => {
+  if (sampleSize === 0) return ["No completed goal sessions yet"];
+
+  const factors = [
+    bucketLabel
+      ? `Based on ${sampleSize} past goals of ${bucketLabel}`
+      : `Based on ${sampleSize} past goal sessions`,
+  ];
+  if (sampleSize < MIN_SAMPLE_SIZE) {
+    factors.push("Limited history - wide confidence interval");
+  }
+  if (analysis.peakFailureTimeOfDay) {
+    factors.push(
+      `Most early endings happen in the ${analysis.peakFailureTimeOfDay}`,
+    );
+  }
+  return factors;
+};
+
 /**
  * Generate predictive insights based on user data
+ * @param sessions - The user's session history, including any active session
+ * @param now - Reference time for recency calculations
+ * @param options - Ledger adjustments and timezone to read the history with
  */
-export function generatePredictiveInsights(): PredictiveInsights {
+export function generatePredictiveInsights(
+  sessions: DBSession[],
+  now: Date = new Date(),
+  options: PredictionOptions = {},
+): PredictiveInsights {
+  const history = analyzeSessionHistory(sessions, now, options);
+  const active = sessions.filter((session) => !session.endTime);
+  const latestGoal = [...sessions]
+    .filter((session) => (session.goalDuration ?? 0) > 0)
+    .sort((a, b) => b.startTime.getTime() - a.startTime.getTime())[0];
+
+  const { estimate, bucketLabel } = estimateForGoal(
+    history,
+    latestGoal && adjustedGoal(latestGoal, options),
+  );
+
   return {
     nextSessionSuccess: {
-      probability: 85,
-      factors: ["consistent schedule", "appropriate goal setting"],
-    },
-    goalAchievementLikelihood: [],
-    riskAssessment: {
-      burnoutRisk: "low",
-      consistencyRisk: "low",
-      factors: [],
+      // With no history there is nothing to lean either way
+      probability: estimate.sampleSize === 0 ? 50 : estimate.rate,
+      confidenceInterval: estimate.confidenceInterval,
+      sampleSize: estimate.sampleSize,
+      factors: successFactors(history, estimate.sampleSize, bucketLabel),
     },
+    goalAchievementLikelihood: active
+      .filter((session) => (session.goalDuration ?? 0) > 0)
+      .map((session) => {
+        const goal = adjustedGoal(session, options);
+        const { estimate: goalEstimate } = estimateForGoal(history, goal);
+        const elapsed =
+          (now.getTime() - session.startTime.getTime()) / 1000 -
+          (session.accumulatedPauseTime || 0);
+        return {
+          goalId: session.id,
+          probability: goalEstimate.sampleSize === 0 ? 50 : goalEstimate.rate,
+          confidenceInterval: goalEstimate.confidenceInterval,
+          timeToCompletion: Math.max(0, Math.round(goal - elapsed)),
+        };
+      }),
+    riskAssessment: assessRisk(history),
+    history,
   };
 }
 
+const goalLengthRecommendation = (
+  analysis: SessionHistoryAnalysis,
+): Recommendation | undefined => {
+  const reliable = analysis.completionByGoalLength.filter(
+    (bucket) => bucket.sampleSize >= MIN_SAMPLE_SIZE,
+  );
+  const struggling = reliable.find((bucket) => bucket.rate < 50);
+  const comfortable = reliable
+    .filter((bucket) => bucket.maxSeconds <= (struggling?.minSeconds ?? 0))
+    .find((bucket) => bucket.rate >= 75);
+  if (!struggling) return undefined;
+
+  return {
+    id: "goal-length",
+    type: "goal",
+    title: "Build up goal length gradually",
+    description: comfortable
+      ? `You complete ${comfortable.rate}% of ${comfortable.label} goals but only ${struggling.rate}% of ${struggling.label} goals.`
+      : `Only ${struggling.rate}% of ${struggling.label} goals are completed.`,
+    priority: struggling.rate < 30 ? "high" : "medium",
+    expectedImpact: "Higher goal completion rate",
+    actionRequired: comfortable
+      ? `Set goals in the ${comfortable.label} range before stepping up`
+      : "Try shorter goals for your next few sessions",
+  };
+};
+
 /**
  * Generate personalized recommendations
+ * @param analysis - Output of analyzeSessionHistory (or PredictiveInsights.history)
  */
-export function generateRecommendations(): Recommendation[] {
-  return [
-    {
-      id: "rec1",
-      type: "session",
-      title: "Optimize Session Timing",
-      description:
-        "Consider starting sessions earlier in the day for better completion rates",
+export function generateRecommendations(
+  analysis: SessionHistoryAnalysis,
+): Recommendation[] {
+  if (analysis.goalSessionCount === 0) {
+    return [
+      {
+        id: "collect-history",
+        type: "session",
+        title: "Set a goal for your next session",
+        description:
+          "Insights are based on sessions with goals. Complete a few to see personalised predictions.",
+        priority: "low",
+        expectedImpact: "Personalised insights",
+        actionRequired: "Start a session with a goal duration",
+      },
+    ];
+  }
+
+  const recommendations: Recommendation[] = [];
+  const goalLength = goalLengthRecommendation(analysis);
+  if (goalLength) recommendations.push(goalLength);
+
+  if (analysis.peakFailureTimeOfDay) {
+    recommendations.push({
+      id: "failure-timing",
+      type: "timing",
+      title: `Plan ahead for the ${analysis.peakFailureTimeOfDay}`,
+      description: `Most sessions that end early end in the ${analysis.peakFailureTimeOfDay}.`,
       priority: "medium",
-      expectedImpact: "Improved session completion rate",
-      actionRequired: "Adjust session start time",
-    },
-  ];
+      expectedImpact: "Fewer early endings",
+      actionRequired: `Schedule goal end times away from the ${analysis.peakFailureTimeOfDay}`,
+    });
+  }
+
+  const { emergencyUnlocks, pauseFrequency } = analysis;
+  if (
+    emergencyUnlocks.sampleSize >= MIN_SAMPLE_SIZE &&
+    emergencyUnlocks.rate >= 10
+  ) {
+    recommendations.push({
+      id: "emergency-unlocks",
+      type: "behavior",
+      title: "Review why sessions end in emergency",
+      description: `${emergencyUnlocks.rate}% of sessions ended with an emergency unlock.`,
+      priority: emergencyUnlocks.rate >= 20 ? "high" : "medium",
+      expectedImpact: "Safer, more sustainable sessions",
+      actionRequired:
+        "Talk through recent emergency reasons with your keyholder",
+    });
+  }
+
+  if (
+    pauseFrequency.sampleSize >= MIN_SAMPLE_SIZE &&
+    pauseFrequency.rate >= 50
+  ) {
+    recommendations.push({
+      id: "pause-frequency",
+      type: "behavior",
+      title: "Reduce pauses",
+      description: `${pauseFrequency.rate}% of sessions were paused, for ${Math.round(analysis.averagePauseSeconds / 60)} minutes on average.`,
+      priority: "low",
+      expectedImpact: "More continuous wear time",
+      actionRequired: "Use scheduled hygiene windows instead of ad-hoc pauses",
+    });
+  }
+
+  return recommendations;
 }
@@ -55,6 +55,27 @@ export function calculateSessionPauseTime(
   return totalPauseTime;
 }
 
+/**
+ * A session's span clipped to a date range, with the share of the session
+ * that falls inside it, or null if it falls outside
+ */
+export function clipSessionToRange(
+  session: DBSession,
+  range: { start: Date; end: Date },
+  currentTime: Date,
+): { start: Date; end: Date; ratio: number } | null {
+  const sessionEnd = session.endTime ?? currentTime;
+  const start = Math.max(session.startTime.getTime(), range.start.getTime());
+  const end = Math.min(sessionEnd.getTime(), range.end.getTime());
+  const length = sessionEnd.getTime() - session.startTime.getTime();
+  if (end <= start || length <= 0) return null;
+  return {
+    start: new Date(start),
+    end: new Date(end),
+    ratio: (end - start) / length,
+  };
+}
+
 /**
  * Calculate time between sessions
  */
@@ -37,6 +37,7 @@ interface TrackerStatsPropsReal {
   isPaused: boolean;
   currentSession: DBSession | null;
   personalGoal: DBGoal | undefined;
+  adjustmentSeconds: number;
   mainChastityDisplayTime: undefined;
   topBoxTime: undefined;
   livePauseDuration: undefined;
@@ -50,6 +51,7 @@ interface TrackerStatsPropsParams {
   totalChastityTime: number;
   totalCageOffTime: number;
   personalGoal: DBGoal | undefined;
+  adjustmentSeconds: number; // Net time from the adjustment ledger
 }
 
 /**
@@ -67,6 +69,7 @@ export const buildTrackerStatsProps = (
     isPaused: params.isPaused,
     currentSession: params.realSession,
     personalGoal: params.personalGoal,
+    adjustmentSeconds: params.adjustmentSeconds,
     mainChastityDisplayTime: undefined,
     topBoxTime: undefined,
     livePauseDuration: undefined,
@@ -117,16 +120,20 @@ export const buildTrackerData = (params: TrackerDataParams) => {
 export const buildTrackerHeaderProps = (
   goals: { active?: DBGoal[]; keyholderAssigned?: DBGoal[] },
   isActive: boolean,
+  isTimerHidden = false,
+  sessionRemainingGoalTime?: number,
 ) => {
   const hasActiveGoals = goals?.active && goals.active.length > 0;
   const hasKeyholderGoals =
     goals?.keyholderAssigned && goals.keyholderAssigned.length > 0;
 
   return {
+    // The session's own goal includes time adjustments, so it wins
     remainingGoalTime:
-      hasActiveGoals && goals.active?.[0]
+      sessionRemainingGoalTime ??
+      (hasActiveGoals && goals.active?.[0]
         ? goals.active[0].targetValue - goals.active[0].currentValue
-        : 0,
+        : 0),
     keyholderName: hasKeyholderGoals ? "Keyholder" : "",
     savedSubmissivesName: "",
     requiredKeyholderDurationSeconds:
@@ -136,6 +143,7 @@ export const buildTrackerHeaderProps = (
     isCageOn: isActive,
     denialCooldownActive: false,
     pauseCooldownMessage: null,
+    isTimerHidden,
   };
 };
 
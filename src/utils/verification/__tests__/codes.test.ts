@@ -0,0 +1,67 @@
+/**
+ * Verification Code Tests
+ * Code generation and request scheduling
+ */
+
+import { describe, it, expect } from "vitest";
+import {
+  VERIFICATION_CODE_ALPHABET,
+  generateVerificationCode,
+  getNextScheduledVerification,
+  isVerificationOpen,
+  isVerificationOverdue,
+} from "../codes";
+
+describe("verification codes", () => {
+  it("generates codes from the unambiguous alphabet", () => {
+    for (let i = 0; i < 20; i++) {
+      const code = generateVerificationCode();
+      expect(code).toHaveLength(6);
+      expect(
+        [...code].every((char) => VERIFICATION_CODE_ALPHABET.includes(char)),
+      ).toBe(true);
+    }
+    expect(generateVerificationCode(4)).toHaveLength(4);
+  });
+
+  it("schedules the first request one interval after the session start", () => {
+    const schedule = { intervalHours: 12, responseMinutes: 30 };
+    const start = new Date("2024-03-10T08:00:00Z");
+
+    expect(getNextScheduledVerification(schedule, start)).toEqual(
+      new Date("2024-03-10T20:00:00Z"),
+    );
+    expect(
+      getNextScheduledVerification(
+        schedule,
+        start,
+        new Date("2024-03-11T09:30:00Z"),
+      ),
+    ).toEqual(new Date("2024-03-11T21:30:00Z"));
+  });
+
+  it("only treats pending requests past their deadline as overdue", () => {
+    const dueAt = new Date("2024-03-10T08:30:00Z");
+    const later = new Date("2024-03-10T09:00:00Z");
+
+    expect(isVerificationOverdue({ status: "pending", dueAt }, later)).toBe(
+      true,
+    );
+    expect(isVerificationOverdue({ status: "submitted", dueAt }, later)).toBe(
+      false,
+    );
+    expect(
+      isVerificationOverdue(
+        { status: "pending", dueAt },
+        new Date("2024-03-10T08:00:00Z"),
+      ),
+    ).toBe(false);
+  });
+
+  it("treats pending and submitted requests as open", () => {
+    expect(isVerificationOpen({ status: "pending" })).toBe(true);
+    expect(isVerificationOpen({ status: "submitted" })).toBe(true);
+    expect(isVerificationOpen({ status: "missed" })).toBe(false);
+    expect(isVerificationOpen({ status: "approved" })).toBe(false);
+  });
+});
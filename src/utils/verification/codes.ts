@@ -0,0 +1,57 @@
+/**
+ * Verification code utilities
+ * One-off codes the wearer writes next to the device in a proof-of-lock photo
+ */
+import type {
+  DBVerification,
+  VerificationSchedule,
+} from "@/types/verification";
+
+// No 0/O, 1/I/L: codes are read off handwritten notes
+export const VERIFICATION_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const VERIFICATION_CODE_LENGTH = 6;
+
+/**
+ * Generate a random verification code
+ */
+export const generateVerificationCode = (
+  length: number = VERIFICATION_CODE_LENGTH,
+): string => {
+  const values = new Uint32Array(length);
+  crypto.getRandomValues(values);
+  return Array.from(
+    values,
+    (value) =>
+      VERIFICATION_CODE_ALPHABET[value % VERIFICATION_CODE_ALPHABET.length],
+  ).join("");
+};
+
+/**
+ * When the next scheduled request is due: one interval after the previous
+ * request, or after the session start for the first one
+ */
+export const getNextScheduledVerification = (
+  schedule: VerificationSchedule,
+  sessionStart: Date,
+  lastRequestedAt?: Date,
+): Date =>
+  new Date(
+    (lastRequestedAt ?? sessionStart).getTime() +
+      schedule.intervalHours * 60 * 60 * 1000,
+  );
+
+/**
+ * A pending request whose deadline has passed
+ */
+export const isVerificationOverdue = (
+  verification: Pick<DBVerification, "status" | "dueAt">,
+  now: Date = new Date(),
+): boolean => verification.status === "pending" && now > verification.dueAt;
+
+/**
+ * Requests the wearer still has to act on or the keyholder has to review
+ */
+export const isVerificationOpen = (
+  verification: Pick<DBVerification, "status">,
+): boolean =>
+  verification.status === "pending" || verification.status === "submitted";